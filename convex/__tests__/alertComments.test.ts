@@ -0,0 +1,225 @@
+import { convexTest } from 'convex-test';
+import { describe, it, expect } from 'vitest';
+import { api } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import schema from '../schema';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+
+const getModules = () => import.meta.glob('../**/*.ts');
+
+async function setupUser(t: ReturnType<typeof convexTest>, name: string, email: string) {
+  const userId = await t.run(async (ctx) => {
+    return await ctx.db.insert('users', { name, email, createdAt: Date.now() });
+  });
+
+  const asUser = t.withIdentity({ subject: userId });
+  return { userId, asUser };
+}
+
+async function setupProjectWithAlert(t: ReturnType<typeof convexTest>, userId: Id<'users'>) {
+  return await t.run(async (ctx) => {
+    const projectId = await ctx.db.insert('projects', {
+      userId,
+      name: 'Test Project',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      stats: { documentCount: 1, entityCount: 1, factCount: 0, alertCount: 1, noteCount: 0 },
+    });
+    const documentId = await ctx.db.insert('documents', {
+      projectId,
+      title: 'Chapter 1',
+      content: 'Marcus has blue eyes.',
+      contentType: 'text',
+      orderIndex: 0,
+      wordCount: 4,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      processingStatus: 'completed',
+    });
+    const entityId = await ctx.db.insert('entities', {
+      projectId,
+      name: 'Marcus Vane',
+      type: 'character',
+      aliases: ['The Captain'],
+      status: 'confirmed',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    const alertId = await ctx.db.insert('alerts', {
+      projectId,
+      documentId,
+      factIds: [],
+      entityIds: [entityId],
+      type: 'contradiction',
+      severity: 'error',
+      title: 'Eye color conflict',
+      description: "Marcus's eye color changed",
+      evidence: [],
+      status: 'open',
+      createdAt: Date.now(),
+    });
+    return { projectId, documentId, entityId, alertId };
+  });
+}
+
+async function shareProject(
+  t: ReturnType<typeof convexTest>,
+  projectId: Id<'projects'>,
+  userId: Id<'users'>,
+  role: 'editor' | 'viewer'
+) {
+  await t.run(async (ctx) => {
+    await ctx.db.insert('projectShares', {
+      projectId,
+      sharedWithEmail: 'editor@example.com',
+      sharedWithUserId: userId,
+      role,
+      invitedBy: (await ctx.db.get(projectId))!.userId,
+      createdAt: Date.now(),
+      acceptedAt: Date.now(),
+    });
+  });
+}
+
+describe('alertComments', () => {
+  describe('create mutation', () => {
+    it('records mentioned entities by name or alias', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupUser(t, 'Owner', 'owner@example.com');
+      const { alertId, entityId } = await setupProjectWithAlert(t, userId);
+
+      await asUser.mutation(api.alertComments.create, {
+        alertId,
+        body: '  Is @[marcus vane] the same as @[The Captain]? Ask @[Nobody].  ',
+      });
+
+      const entries = await asUser.query(api.alertComments.list, { alertId });
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        kind: 'comment',
+        body: 'Is @[marcus vane] the same as @[The Captain]? Ask @[Nobody].',
+        mentionedEntityIds: [entityId],
+        userName: 'Owner',
+      });
+      expect(entries[0].mentions.map((mention) => mention.name)).toEqual(['Marcus Vane']);
+    });
+
+    it('rejects empty comments', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupUser(t, 'Owner', 'owner@example.com');
+      const { alertId } = await setupProjectWithAlert(t, userId);
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.alertComments.create, { alertId, body: '   ' }),
+        'validation'
+      );
+    });
+
+    it('does not let viewers comment', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupUser(t, 'Owner', 'owner@example.com');
+      const viewer = await setupUser(t, 'Viewer', 'viewer@example.com');
+      const { projectId, alertId } = await setupProjectWithAlert(t, userId);
+      await shareProject(t, projectId, viewer.userId, 'viewer');
+
+      await expectConvexErrorCode(
+        viewer.asUser.mutation(api.alertComments.create, { alertId, body: 'Hello' }),
+        'unauthorized'
+      );
+    });
+  });
+
+  describe('update and remove mutations', () => {
+    it('lets authors edit and delete their comments', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupUser(t, 'Owner', 'owner@example.com');
+      const { alertId, entityId } = await setupProjectWithAlert(t, userId);
+
+      const commentId = await asUser.mutation(api.alertComments.create, {
+        alertId,
+        body: 'First draft',
+      });
+      await asUser.mutation(api.alertComments.update, {
+        id: commentId,
+        body: 'Blame @[Marcus Vane]',
+      });
+
+      const comment = await t.run(async (ctx) => ctx.db.get(commentId));
+      expect(comment?.body).toBe('Blame @[Marcus Vane]');
+      expect(comment?.mentionedEntityIds).toEqual([entityId]);
+      expect(comment?.updatedAt).toBeDefined();
+
+      await asUser.mutation(api.alertComments.remove, { id: commentId });
+      expect(await t.run(async (ctx) => ctx.db.get(commentId))).toBeNull();
+    });
+
+    it("does not let editors change someone else's comment", async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupUser(t, 'Owner', 'owner@example.com');
+      const editor = await setupUser(t, 'Editor', 'editor@example.com');
+      const { projectId, alertId } = await setupProjectWithAlert(t, userId);
+      await shareProject(t, projectId, editor.userId, 'editor');
+
+      const commentId = await asUser.mutation(api.alertComments.create, {
+        alertId,
+        body: 'Mine',
+      });
+
+      await expectConvexErrorCode(
+        editor.asUser.mutation(api.alertComments.remove, { id: commentId }),
+        'unauthorized'
+      );
+    });
+
+    it('does not edit activity entries', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupUser(t, 'Owner', 'owner@example.com');
+      const { alertId } = await setupProjectWithAlert(t, userId);
+
+      await asUser.mutation(api.alerts.dismiss, { id: alertId });
+      const [entry] = await asUser.query(api.alertComments.list, { alertId });
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.alertComments.update, { id: entry._id, body: 'Rewritten' }),
+        'not_found'
+      );
+    });
+  });
+
+  describe('activity', () => {
+    it('records assignment and status changes in order', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupUser(t, 'Owner', 'owner@example.com');
+      const editor = await setupUser(t, 'Editor', 'editor@example.com');
+      const { projectId, alertId } = await setupProjectWithAlert(t, userId);
+      await shareProject(t, projectId, editor.userId, 'editor');
+
+      await asUser.mutation(api.alerts.assign, { id: alertId, assigneeId: editor.userId });
+      await editor.asUser.mutation(api.alerts.resolve, { id: alertId });
+      await asUser.mutation(api.alerts.reopen, { id: alertId });
+      await asUser.mutation(api.alerts.assign, { id: alertId });
+
+      const entries = await asUser.query(api.alertComments.list, { alertId });
+      expect(
+        entries.map((entry) => [entry.kind, entry.userName, entry.assigneeName] as const)
+      ).toEqual([
+        ['assigned', 'Owner', 'Editor'],
+        ['resolved', 'Editor', null],
+        ['reopened', 'Owner', null],
+        ['unassigned', 'Owner', null],
+      ]);
+    });
+
+    it('deletes the discussion with the alert', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupUser(t, 'Owner', 'owner@example.com');
+      const { alertId } = await setupProjectWithAlert(t, userId);
+
+      await asUser.mutation(api.alertComments.create, { alertId, body: 'Hello' });
+      await asUser.mutation(api.alerts.remove, { id: alertId });
+
+      const remaining = await t.run(async (ctx) => ctx.db.query('alertComments').collect());
+      expect(remaining).toHaveLength(0);
+    });
+  });
+});
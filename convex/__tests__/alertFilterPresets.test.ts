@@ -0,0 +1,165 @@
+import { convexTest } from 'convex-test';
+import { describe, it, expect } from 'vitest';
+import { api } from '../_generated/api';
+import schema from '../schema';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+
+const getModules = () => import.meta.glob('../**/*.ts');
+
+async function setupUser(t: ReturnType<typeof convexTest>, name: string, email: string) {
+  const userId = await t.run(async (ctx) => {
+    return await ctx.db.insert('users', { name, email, createdAt: Date.now() });
+  });
+
+  const asUser = t.withIdentity({ subject: userId });
+  return { userId, asUser };
+}
+
+async function setupProject(t: ReturnType<typeof convexTest>) {
+  const owner = await setupUser(t, 'Owner', 'owner@example.com');
+  const projectId = await t.run(async (ctx) => {
+    return await ctx.db.insert('projects', {
+      userId: owner.userId,
+      name: 'Test Project',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  });
+  return { ...owner, projectId };
+}
+
+describe('alertFilterPresets', () => {
+  describe('save mutation', () => {
+    it('creates a preset the user can list', async () => {
+      const t = convexTest(schema, getModules());
+      const { asUser, projectId } = await setupProject(t);
+
+      await asUser.mutation(api.alertFilterPresets.save, {
+        projectId,
+        name: '  Timeline errors ',
+        filters: { status: 'open', type: 'timeline', severity: 'error' },
+      });
+
+      const presets = await asUser.query(api.alertFilterPresets.list, { projectId });
+      expect(presets).toHaveLength(1);
+      expect(presets[0].name).toBe('Timeline errors');
+      expect(presets[0].filters).toEqual({ status: 'open', type: 'timeline', severity: 'error' });
+    });
+
+    it('replaces a preset with the same name', async () => {
+      const t = convexTest(schema, getModules());
+      const { asUser, projectId } = await setupProject(t);
+
+      const firstId = await asUser.mutation(api.alertFilterPresets.save, {
+        projectId,
+        name: 'Mine',
+        filters: { assignedToMe: true },
+      });
+      const secondId = await asUser.mutation(api.alertFilterPresets.save, {
+        projectId,
+        name: 'Mine',
+        filters: { assignedToMe: true, status: 'open' },
+      });
+
+      expect(secondId).toBe(firstId);
+      const presets = await asUser.query(api.alertFilterPresets.list, { projectId });
+      expect(presets).toHaveLength(1);
+      expect(presets[0].filters.status).toBe('open');
+    });
+
+    it('rejects an empty name', async () => {
+      const t = convexTest(schema, getModules());
+      const { asUser, projectId } = await setupProject(t);
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.alertFilterPresets.save, { projectId, name: '   ', filters: {} }),
+        'validation'
+      );
+    });
+
+    it('rejects users without project access', async () => {
+      const t = convexTest(schema, getModules());
+      const { projectId } = await setupProject(t);
+      const outsider = await setupUser(t, 'Outsider', 'outsider@example.com');
+
+      await expectConvexErrorCode(
+        outsider.asUser.mutation(api.alertFilterPresets.save, {
+          projectId,
+          name: 'Sneaky',
+          filters: {},
+        }),
+        'unauthorized'
+      );
+    });
+  });
+
+  describe('list query', () => {
+    it("only returns the viewer's own presets", async () => {
+      const t = convexTest(schema, getModules());
+      const { asUser, projectId } = await setupProject(t);
+      const collaborator = await setupUser(t, 'Collaborator', 'collab@example.com');
+      await t.run(async (ctx) => {
+        await ctx.db.insert('projectShares', {
+          projectId,
+          sharedWithEmail: 'collab@example.com',
+          sharedWithUserId: collaborator.userId,
+          role: 'viewer',
+          invitedBy: (await ctx.db.get(projectId))!.userId,
+          createdAt: Date.now(),
+          acceptedAt: Date.now(),
+        });
+      });
+
+      await asUser.mutation(api.alertFilterPresets.save, { projectId, name: 'Owner', filters: {} });
+      await collaborator.asUser.mutation(api.alertFilterPresets.save, {
+        projectId,
+        name: 'Collaborator',
+        filters: {},
+      });
+
+      const ownerPresets = await asUser.query(api.alertFilterPresets.list, { projectId });
+      expect(ownerPresets.map((preset) => preset.name)).toEqual(['Owner']);
+    });
+
+    it('returns empty for unauthenticated users', async () => {
+      const t = convexTest(schema, getModules());
+      const { projectId } = await setupProject(t);
+
+      const presets = await t.query(api.alertFilterPresets.list, { projectId });
+      expect(presets).toEqual([]);
+    });
+  });
+
+  describe('remove mutation', () => {
+    it("deletes the user's preset", async () => {
+      const t = convexTest(schema, getModules());
+      const { asUser, projectId } = await setupProject(t);
+      const id = await asUser.mutation(api.alertFilterPresets.save, {
+        projectId,
+        name: 'Temp',
+        filters: {},
+      });
+
+      await asUser.mutation(api.alertFilterPresets.remove, { id });
+
+      const presets = await asUser.query(api.alertFilterPresets.list, { projectId });
+      expect(presets).toEqual([]);
+    });
+
+    it("does not delete another user's preset", async () => {
+      const t = convexTest(schema, getModules());
+      const { asUser, projectId } = await setupProject(t);
+      const outsider = await setupUser(t, 'Outsider', 'outsider@example.com');
+      const id = await asUser.mutation(api.alertFilterPresets.save, {
+        projectId,
+        name: 'Keep',
+        filters: {},
+      });
+
+      await expectConvexErrorCode(
+        outsider.asUser.mutation(api.alertFilterPresets.remove, { id }),
+        'not_found'
+      );
+    });
+  });
+});
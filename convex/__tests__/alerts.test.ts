@@ -84,6 +84,27 @@ async function setupProjectWithAlert(t: ReturnType<typeof convexTest>, userId: I
   });
 }
 
+async function insertSecondOpenAlert(
+  t: ReturnType<typeof convexTest>,
+  setup: Awaited<ReturnType<typeof setupProjectWithAlert>>
+) {
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('alerts', {
+      projectId: setup.projectId,
+      documentId: setup.documentId,
+      factIds: [setup.factId],
+      entityIds: [setup.entityId],
+      type: 'timeline',
+      severity: 'warning',
+      title: 'Second open alert',
+      description: 'desc',
+      evidence: [],
+      status: 'open',
+      createdAt: Date.now(),
+    });
+  });
+}
+
 describe('alerts', () => {
   describe('listByProject query', () => {
     it('returns all alerts for project', async () => {
@@ -648,6 +669,91 @@ describe('alerts', () => {
     });
   });
 
+  describe('bulkUpdateStatus mutation', () => {
+    it('updates only the selected alerts', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const setup = await setupProjectWithAlert(t, userId);
+      const otherAlertId = await insertSecondOpenAlert(t, setup);
+
+      const changed = await asUser.mutation(api.alerts.bulkUpdateStatus, {
+        ids: [setup.alertId],
+        status: 'resolved',
+      });
+      expect(changed).toBe(1);
+
+      const [selected, other] = await t.run(async (ctx) =>
+        Promise.all([ctx.db.get(setup.alertId), ctx.db.get(otherAlertId)])
+      );
+      expect(selected?.status).toBe('resolved');
+      expect(selected?.resolvedAt).toBeDefined();
+      expect(other?.status).toBe('open');
+    });
+
+    it('adjusts alertCount by the alerts leaving open', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const setup = await setupProjectWithAlert(t, userId);
+      const otherAlertId = await insertSecondOpenAlert(t, setup);
+      await t.run(async (ctx) => {
+        const project = await ctx.db.get(setup.projectId);
+        await ctx.db.patch(setup.projectId, { stats: { ...project!.stats!, alertCount: 2 } });
+      });
+
+      await asUser.mutation(api.alerts.bulkUpdateStatus, {
+        ids: [setup.alertId, otherAlertId],
+        status: 'dismissed',
+      });
+
+      const project = await t.run(async (ctx) => ctx.db.get(setup.projectId));
+      expect(project?.stats?.alertCount).toBe(0);
+    });
+
+    it('skips alerts already in the target status', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const { alertId } = await setupProjectWithAlert(t, userId);
+
+      await asUser.mutation(api.alerts.dismiss, { id: alertId });
+      const changed = await asUser.mutation(api.alerts.bulkUpdateStatus, {
+        ids: [alertId, alertId],
+        status: 'dismissed',
+      });
+      expect(changed).toBe(0);
+    });
+
+    it('rejects alerts from different projects', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const first = await setupProjectWithAlert(t, userId);
+      const second = await setupProjectWithAlert(t, userId);
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.alerts.bulkUpdateStatus, {
+          ids: [first.alertId, second.alertId],
+          status: 'resolved',
+        }),
+        'validation'
+      );
+    });
+
+    it('rejects users who cannot edit the project', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const { alertId } = await setupProjectWithAlert(t, userId);
+      const otherUserId = await t.run(async (ctx) =>
+        ctx.db.insert('users', { name: 'Other', email: 'other@example.com', createdAt: Date.now() })
+      );
+
+      await expectConvexErrorCode(
+        t
+          .withIdentity({ subject: otherUserId })
+          .mutation(api.alerts.bulkUpdateStatus, { ids: [alertId], status: 'resolved' }),
+        'unauthorized'
+      );
+    });
+  });
+
   describe('resolveAll mutation', () => {
     it('resolves all open alerts', async () => {
       const t = convexTest(schema, getModules());
@@ -764,4 +870,103 @@ describe('alerts', () => {
       expect(project?.stats?.noteCount).toBe(6);
     });
   });
+
+  describe('suppressRule mutation', () => {
+    async function setupRuleAlert(t: ReturnType<typeof convexTest>, userId: Id<'users'>) {
+      const setup = await setupProjectWithAlert(t, userId);
+      await t.run(async (ctx) => ctx.db.patch(setup.alertId, { rule: 'fact:eye_color' }));
+      return setup;
+    }
+
+    it('records the suppression and dismisses the alert', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const { projectId, entityId, alertId } = await setupRuleAlert(t, userId);
+
+      await asUser.mutation(api.alerts.suppressRule, { id: alertId });
+
+      const alert = await t.run(async (ctx) => ctx.db.get(alertId));
+      expect(alert?.status).toBe('dismissed');
+      const project = await t.run(async (ctx) => ctx.db.get(projectId));
+      expect(project?.stats?.alertCount).toBe(0);
+
+      const suppressions = await asUser.query(api.alerts.listSuppressions, { projectId });
+      expect(suppressions).toHaveLength(1);
+      expect(suppressions[0]).toMatchObject({
+        rule: 'fact:eye_color',
+        entityIds: [entityId],
+        entityNames: ['Marcus'],
+        ruleLabel: 'Conflicting eye color',
+      });
+    });
+
+    it('does not record the same suppression twice', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const { projectId, alertId } = await setupRuleAlert(t, userId);
+
+      const first = await asUser.mutation(api.alerts.suppressRule, { id: alertId });
+      const second = await asUser.mutation(api.alerts.suppressRule, { id: alertId });
+
+      expect(second).toBe(first);
+      const suppressions = await asUser.query(api.alerts.listSuppressions, { projectId });
+      expect(suppressions).toHaveLength(1);
+    });
+
+    it('rejects alerts without a rule', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const { alertId } = await setupProjectWithAlert(t, userId);
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.alerts.suppressRule, { id: alertId }),
+        'validation'
+      );
+    });
+
+    it('removes a suppression', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const { projectId, alertId } = await setupRuleAlert(t, userId);
+
+      const suppressionId = await asUser.mutation(api.alerts.suppressRule, { id: alertId });
+      await asUser.mutation(api.alerts.removeSuppression, { id: suppressionId });
+
+      const suppressions = await asUser.query(api.alerts.listSuppressions, { projectId });
+      expect(suppressions).toHaveLength(0);
+    });
+  });
+
+  describe('assign mutation', () => {
+    it('assigns the alert and lists assignable members', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const { projectId, alertId } = await setupProjectWithAlert(t, userId);
+
+      await asUser.mutation(api.alerts.assign, { id: alertId, assigneeId: userId });
+
+      const details = await asUser.query(api.alerts.getWithDetails, { id: alertId });
+      expect(details?.assignee).toEqual({ _id: userId, name: 'Test User' });
+      const assignees = await asUser.query(api.alerts.listAssignees, { projectId });
+      expect(assignees).toEqual([{ _id: userId, name: 'Test User' }]);
+    });
+
+    it('rejects assignees who cannot edit the project', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const { alertId } = await setupProjectWithAlert(t, userId);
+      const outsiderId = await t.run(async (ctx) =>
+        ctx.db.insert('users', {
+          name: 'Outsider',
+          email: 'out@example.com',
+          createdAt: Date.now(),
+        })
+      );
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.alerts.assign, { id: alertId, assigneeId: outsiderId }),
+        'validation'
+      );
+    });
+  });
 });
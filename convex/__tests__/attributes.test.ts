@@ -0,0 +1,308 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { coerceAttributeValue, DEFAULT_ATTRIBUTE_TEMPLATES } from '../lib/attributes';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+import {
+  type TestContext,
+  createTestContext,
+  setupAuthenticatedUser,
+  setupProject,
+  setupDocument,
+  setupEntity,
+  setupOtherUser,
+} from './entities/helpers';
+
+describe('attributes', () => {
+  let t: ReturnType<typeof createTestContext>;
+  let userId: Id<'users'>;
+  let asUser: ReturnType<TestContext['withIdentity']>;
+  let projectId: Id<'projects'>;
+  let entityId: Id<'entities'>;
+
+  beforeEach(async () => {
+    t = createTestContext();
+    const auth = await setupAuthenticatedUser(t);
+    userId = auth.userId;
+    asUser = auth.asUser;
+    projectId = await setupProject(t, userId);
+    entityId = await setupEntity(t, projectId, { name: 'Aria', status: 'confirmed' });
+  });
+
+  async function listAttributes() {
+    return await t.run(async (ctx) => {
+      return await ctx.db
+        .query('entityAttributes')
+        .withIndex('by_entity', (q) => q.eq('entityId', entityId))
+        .collect();
+    });
+  }
+
+  describe('coerceAttributeValue', () => {
+    it('parses values into the field data type', () => {
+      const [age, , , status] = DEFAULT_ATTRIBUTE_TEMPLATES.character;
+      expect(coerceAttributeValue(age, 'about 1,200 years')).toBe(1200);
+      expect(coerceAttributeValue(age, 'ancient')).toBeNull();
+      expect(coerceAttributeValue(status, 'Dead')).toBe('dead');
+      expect(coerceAttributeValue(status, 'undead')).toBeNull();
+      expect(
+        coerceAttributeValue({ key: 'cursed', label: 'Cursed', dataType: 'boolean' }, 'yes')
+      ).toBe(true);
+    });
+  });
+
+  describe('templates', () => {
+    it('falls back to the default template for the type', async () => {
+      const template = await asUser.query(api.attributes.getTemplate, {
+        projectId,
+        entityType: 'character',
+      });
+
+      expect(template?.isCustomized).toBe(false);
+      expect(template?.fields.map((f) => f.key)).toEqual([
+        'age',
+        'species',
+        'allegiance',
+        'status',
+      ]);
+    });
+
+    it('stores an override with normalized keys', async () => {
+      await asUser.mutation(api.attributes.setTemplate, {
+        projectId,
+        entityType: 'character',
+        fields: [
+          { key: '', label: ' Eye Color ', dataType: 'text' },
+          { key: '', label: 'House', dataType: 'enum', options: ['Stark', ' Stark', 'Lannister'] },
+        ],
+      });
+
+      const template = await asUser.query(api.attributes.getTemplate, {
+        projectId,
+        entityType: 'character',
+      });
+      expect(template?.isCustomized).toBe(true);
+      expect(template?.fields).toEqual([
+        { key: 'eye_color', label: 'Eye Color', dataType: 'text' },
+        { key: 'house', label: 'House', dataType: 'enum', options: ['Stark', 'Lannister'] },
+      ]);
+    });
+
+    it('rejects duplicate fields and enums without options', async () => {
+      await expectConvexErrorCode(
+        asUser.mutation(api.attributes.setTemplate, {
+          projectId,
+          entityType: 'character',
+          fields: [
+            { key: '', label: 'Age', dataType: 'number' },
+            { key: '', label: 'age', dataType: 'text' },
+          ],
+        }),
+        'validation'
+      );
+      await expectConvexErrorCode(
+        asUser.mutation(api.attributes.setTemplate, {
+          projectId,
+          entityType: 'character',
+          fields: [{ key: '', label: 'Rank', dataType: 'enum', options: [] }],
+        }),
+        'validation'
+      );
+    });
+
+    it('gives custom types their own template', async () => {
+      const customTypeId = await asUser.mutation(api.entityTypes.create, {
+        projectId,
+        name: 'Faction',
+        icon: 'flag',
+        color: '#a855f7',
+        baseType: 'concept',
+      });
+      await asUser.mutation(api.attributes.setTemplate, {
+        projectId,
+        entityType: 'concept',
+        customTypeId,
+        fields: [{ key: '', label: 'Leader', dataType: 'text' }],
+      });
+
+      const faction = await asUser.query(api.attributes.getTemplate, {
+        projectId,
+        entityType: 'concept',
+        customTypeId,
+      });
+      const concept = await asUser.query(api.attributes.getTemplate, {
+        projectId,
+        entityType: 'concept',
+      });
+      expect(faction?.fields.map((f) => f.key)).toEqual(['leader']);
+      expect(concept?.fields.map((f) => f.key)).toEqual(['category']);
+    });
+
+    it('denies template edits to non-editors', async () => {
+      const otherUserId = await setupOtherUser(t);
+      const asOther = t.withIdentity({ subject: otherUserId });
+
+      await expectConvexErrorCode(
+        asOther.mutation(api.attributes.setTemplate, {
+          projectId,
+          entityType: 'character',
+          fields: [],
+        }),
+        'unauthorized'
+      );
+    });
+  });
+
+  describe('setValue', () => {
+    it('coerces and replaces the confirmed value', async () => {
+      await asUser.mutation(api.attributes.setValue, { entityId, key: 'age', value: '32' });
+      await asUser.mutation(api.attributes.setValue, { entityId, key: 'age', value: 33 });
+
+      const infobox = await asUser.query(api.attributes.listByEntity, { entityId });
+      expect(infobox?.fields.find((f) => f.key === 'age')?.value).toBe(33);
+      expect(await listAttributes()).toHaveLength(1);
+    });
+
+    it('clears the value when given null', async () => {
+      await asUser.mutation(api.attributes.setValue, { entityId, key: 'species', value: 'Elf' });
+      await asUser.mutation(api.attributes.setValue, { entityId, key: 'species', value: null });
+
+      expect(await listAttributes()).toHaveLength(0);
+    });
+
+    it('rejects unknown keys and invalid values', async () => {
+      await expectConvexErrorCode(
+        asUser.mutation(api.attributes.setValue, { entityId, key: 'population', value: 5 }),
+        'validation'
+      );
+      await expectConvexErrorCode(
+        asUser.mutation(api.attributes.setValue, { entityId, key: 'status', value: 'undead' }),
+        'validation'
+      );
+    });
+  });
+
+  describe('review', () => {
+    it('confirming a candidate supersedes the current value', async () => {
+      const documentId = await setupDocument(t, projectId);
+      await asUser.mutation(api.attributes.setValue, { entityId, key: 'status', value: 'alive' });
+      const candidateId = await t.run(async (ctx) => {
+        return await ctx.db.insert('entityAttributes', {
+          projectId,
+          entityId,
+          key: 'status',
+          value: 'dead',
+          documentId,
+          evidenceSnippet: 'Aria fell at the gates.',
+          status: 'pending',
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+      });
+
+      await asUser.mutation(api.attributes.confirm, { id: candidateId });
+
+      const infobox = await asUser.query(api.attributes.listByEntity, { entityId });
+      const status = infobox?.fields.find((f) => f.key === 'status');
+      expect(status?.value).toBe('dead');
+      expect(status?.confirmed[0].documentTitle).toBe('Test Document');
+      const previous = (await listAttributes()).find((a) => a.value === 'alive');
+      expect(previous?.status).toBe('rejected');
+    });
+  });
+
+  describe('extraction', () => {
+    it('stores coerced attribute candidates with evidence', async () => {
+      const documentId = await setupDocument(t, projectId, { processingStatus: 'processing' });
+      await asUser.mutation(api.attributes.setValue, { entityId, key: 'species', value: 'human' });
+
+      const summary = await t.mutation(internal.llm.extract.processExtractionResult, {
+        documentId,
+        result: {
+          entities: [],
+          facts: [],
+          relationships: [],
+          attributes: [
+            { entityName: 'Aria', key: 'age', value: '32 winters', evidence: 'Aria, 32 winters' },
+            { entityName: 'Aria', key: 'species', value: 'Human', evidence: 'a human' },
+            { entityName: 'Aria', key: 'status', value: 'undead', evidence: 'risen' },
+            { entityName: 'Aria', key: 'wingspan', value: '3m', evidence: 'wide wings' },
+            { entityName: 'Nobody', key: 'age', value: '5', evidence: 'five' },
+          ],
+        },
+      });
+
+      expect(summary.attributesCreated).toBe(1);
+      const pending = (await listAttributes()).filter((a) => a.status === 'pending');
+      expect(pending).toHaveLength(1);
+      expect(pending[0]).toMatchObject({
+        key: 'age',
+        value: 32,
+        documentId,
+        evidenceSnippet: 'Aria, 32 winters',
+      });
+    });
+  });
+
+  describe('checkAttributeConflicts', () => {
+    it('raises a contradiction when a document disagrees with canon', async () => {
+      const documentId = await setupDocument(t, projectId, { title: 'Chapter 9' });
+      await asUser.mutation(api.attributes.setValue, { entityId, key: 'status', value: 'dead' });
+      await t.run(async (ctx) => {
+        await ctx.db.insert('entityAttributes', {
+          projectId,
+          entityId,
+          key: 'status',
+          value: 'alive',
+          documentId,
+          evidenceSnippet: 'Aria walked into the hall.',
+          status: 'pending',
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+      });
+
+      const first = await t.mutation(internal.checks.checkAttributeConflicts, { documentId });
+      const second = await t.mutation(internal.checks.checkAttributeConflicts, { documentId });
+
+      expect(first.alertsCreated).toBe(1);
+      expect(second.alertsCreated).toBe(0);
+      const alerts = await t.run(async (ctx) => {
+        return await ctx.db
+          .query('alerts')
+          .withIndex('by_document', (q) => q.eq('documentId', documentId))
+          .collect();
+      });
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({
+        type: 'contradiction',
+        severity: 'error',
+        entityIds: [entityId],
+      });
+      expect(alerts[0].evidence.map((e) => e.documentTitle)).toEqual(['Canon', 'Chapter 9']);
+
+      const project = await t.run(async (ctx) => ctx.db.get(projectId));
+      expect(project?.stats?.alertCount).toBe(1);
+    });
+
+    it('ignores matching values', async () => {
+      const documentId = await setupDocument(t, projectId);
+      await asUser.mutation(api.attributes.setValue, { entityId, key: 'species', value: 'Elf' });
+      await t.run(async (ctx) => {
+        await ctx.db.insert('entityAttributes', {
+          projectId,
+          entityId,
+          key: 'species',
+          value: 'elf',
+          documentId,
+          status: 'pending',
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+      });
+
+      const result = await t.mutation(internal.checks.checkAttributeConflicts, { documentId });
+      expect(result.alertsCreated).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { parseTemporalValue } from '../lib/calendar';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+import {
+  type TestContext,
+  createTestContext,
+  setupAuthenticatedUser,
+  setupProject,
+  setupDocument,
+  setupEntity,
+  setupRelationship,
+} from './entities/helpers';
+
+const REALM_CALENDAR = {
+  name: 'Reckoning',
+  daysPerYear: 100,
+  months: [
+    { name: 'Frostmoon', days: 40 },
+    { name: 'Greenmoon', days: 60 },
+  ],
+  eras: [
+    { name: 'Before Reckoning', abbreviation: 'BR', startYear: 0, countsBackward: true },
+    { name: 'After Reckoning', abbreviation: 'AR', startYear: 0 },
+  ],
+  epochOffset: 0,
+};
+
+describe('calendars', () => {
+  let t: ReturnType<typeof createTestContext>;
+  let asUser: ReturnType<TestContext['withIdentity']>;
+  let projectId: Id<'projects'>;
+
+  beforeEach(async () => {
+    t = createTestContext();
+    const auth = await setupAuthenticatedUser(t);
+    asUser = auth.asUser;
+    projectId = await setupProject(t, auth.userId);
+  });
+
+  describe('parseTemporalValue', () => {
+    const calendars = [{ ...REALM_CALENDAR, isDefault: true }];
+
+    it('places years, months and days on one axis', () => {
+      expect(parseTemporalValue('1021 AR', calendars)).toEqual({ start: 102000, end: 102100 });
+      expect(parseTemporalValue('Greenmoon 1021 AR', calendars)).toEqual({
+        start: 102040,
+        end: 102100,
+      });
+      expect(parseTemporalValue('12 Greenmoon, 1021 AR', calendars)).toEqual({
+        start: 102051,
+        end: 102052,
+      });
+    });
+
+    it('counts backward eras down toward the epoch', () => {
+      const before = parseTemporalValue('5 BR', calendars);
+      const after = parseTemporalValue('1 AR', calendars);
+      expect(before!.end).toBeLessThanOrEqual(after!.start);
+      expect(parseTemporalValue('Year 3 of the After Reckoning', calendars)?.start).toBe(200);
+    });
+
+    it('reads ranges that name the era once', () => {
+      expect(parseTemporalValue('1020-1022 AR', calendars)).toEqual({
+        start: 101900,
+        end: 102200,
+      });
+      expect(parseTemporalValue('between 1 BR and 2 AR', calendars)).toEqual({
+        start: -100,
+        end: 200,
+      });
+    });
+
+    it('falls back to 365-day years without calendars', () => {
+      expect(parseTemporalValue('1200', [])).toEqual({ start: 438000, end: 438365 });
+    });
+
+    it('returns null for values it cannot place', () => {
+      expect(parseTemporalValue('after the war', calendars)).toBeNull();
+      expect(parseTemporalValue('Season 5', calendars)).toBeNull();
+      expect(parseTemporalValue('41 Frostmoon 3 AR', calendars)).toBeNull();
+      expect(parseTemporalValue('1025-1020 AR', calendars)).toBeNull();
+    });
+  });
+
+  describe('create', () => {
+    it('makes the first calendar the default', async () => {
+      await asUser.mutation(api.calendars.create, { projectId, ...REALM_CALENDAR });
+      const secondId = await asUser.mutation(api.calendars.create, {
+        projectId,
+        name: 'Elven Count',
+        daysPerYear: 400,
+        months: [],
+        eras: [],
+      });
+
+      const calendars = await asUser.query(api.calendars.list, { projectId });
+      expect(calendars.map((c) => [c.name, c.isDefault])).toEqual([
+        ['Reckoning', true],
+        ['Elven Count', false],
+      ]);
+
+      await asUser.mutation(api.calendars.update, { id: secondId, isDefault: true });
+      const updated = await asUser.query(api.calendars.list, { projectId });
+      expect(updated[0].name).toBe('Elven Count');
+      expect(updated.filter((c) => c.isDefault)).toHaveLength(1);
+    });
+
+    it('rejects months that do not add up to the year', async () => {
+      await expectConvexErrorCode(
+        asUser.mutation(api.calendars.create, {
+          projectId,
+          ...REALM_CALENDAR,
+          daysPerYear: 120,
+        }),
+        'validation'
+      );
+    });
+
+    it('rejects duplicate names', async () => {
+      await asUser.mutation(api.calendars.create, { projectId, ...REALM_CALENDAR });
+      await expectConvexErrorCode(
+        asUser.mutation(api.calendars.create, {
+          projectId,
+          ...REALM_CALENDAR,
+          name: 'reckoning',
+        }),
+        'conflict'
+      );
+    });
+  });
+
+  describe('temporal bounds', () => {
+    async function createDatedFact(entityId: Id<'entities'>, value: string) {
+      return await asUser.mutation(api.facts.create, {
+        projectId,
+        entityId,
+        subject: 'Event',
+        predicate: 'happened_in',
+        object: value,
+        confidence: 1,
+        temporalBound: { type: 'point', value },
+        status: 'confirmed',
+      });
+    }
+
+    it('re-normalizes facts when calendars change', async () => {
+      const eventId = await setupEntity(t, projectId, { name: 'Siege', type: 'event' });
+      const factId = await createDatedFact(eventId, '3 AR');
+
+      const before = await t.run(async (ctx) => ctx.db.get(factId));
+      expect(before?.temporalBound?.start).toBeUndefined();
+
+      const calendarId = await asUser.mutation(api.calendars.create, {
+        projectId,
+        ...REALM_CALENDAR,
+      });
+      const after = await t.run(async (ctx) => ctx.db.get(factId));
+      expect(after?.temporalBound).toMatchObject({ start: 200, end: 300, calendarId });
+
+      await asUser.mutation(api.calendars.remove, { id: calendarId });
+      const removed = await t.run(async (ctx) => ctx.db.get(factId));
+      expect(removed?.temporalBound).toEqual({ type: 'point', value: '3 AR' });
+    });
+
+    it('orders the timeline by in-world date', async () => {
+      await asUser.mutation(api.calendars.create, { projectId, ...REALM_CALENDAR });
+      const chapter1 = await setupDocument(t, projectId, { title: 'Chapter 1' });
+      const chapter2 = await setupDocument(t, projectId, { title: 'Chapter 2' });
+      await t.run(async (ctx) => {
+        await ctx.db.patch(chapter1, { orderIndex: 0 });
+        await ctx.db.patch(chapter2, { orderIndex: 1 });
+      });
+
+      const flashback = await setupEntity(t, projectId, {
+        name: 'The Founding',
+        type: 'event',
+        status: 'confirmed',
+        firstMentionedIn: chapter2,
+      });
+      const battle = await setupEntity(t, projectId, {
+        name: 'The Battle',
+        type: 'event',
+        status: 'confirmed',
+        firstMentionedIn: chapter1,
+      });
+      await setupEntity(t, projectId, {
+        name: 'The Rumor',
+        type: 'event',
+        status: 'confirmed',
+        firstMentionedIn: chapter1,
+      });
+      await createDatedFact(flashback, '12 BR');
+      await createDatedFact(battle, 'Frostmoon 1021 AR');
+
+      const story = await asUser.query(api.entities.getTimeline, { projectId });
+      expect(story.events.map((e) => e.name)).toEqual(['The Battle', 'The Rumor', 'The Founding']);
+
+      const inWorld = await asUser.query(api.entities.getTimeline, {
+        projectId,
+        order: 'inWorld',
+      });
+      expect(inWorld.events.map((e) => [e.name, e.date?.label ?? null])).toEqual([
+        ['The Founding', '12 BR'],
+        ['The Battle', 'Frostmoon 1021 AR'],
+        ['The Rumor', null],
+      ]);
+    });
+  });
+
+  describe('checkTimelineConsistency', () => {
+    it('flags a character appearing in an event after their death', async () => {
+      await asUser.mutation(api.calendars.create, { projectId, ...REALM_CALENDAR });
+      const canonDoc = await setupDocument(t, projectId, { title: 'Chapter 1' });
+      const documentId = await setupDocument(t, projectId, { title: 'Chapter 9' });
+
+      const aria = await setupEntity(t, projectId, { name: 'Aria', status: 'confirmed' });
+      const ashford = await setupEntity(t, projectId, {
+        name: 'Battle of Ashford',
+        type: 'event',
+        status: 'confirmed',
+      });
+      const coronation = await setupEntity(t, projectId, {
+        name: 'Coronation',
+        type: 'event',
+        status: 'confirmed',
+      });
+      await t.run(async (ctx) => {
+        const base = { projectId, confidence: 1, createdAt: Date.now() };
+        await ctx.db.insert('facts', {
+          ...base,
+          entityId: aria,
+          documentId: canonDoc,
+          subject: 'Aria',
+          predicate: 'was slain',
+          object: 'Battle of Ashford',
+          evidenceSnippet: 'Aria fell at Ashford.',
+          status: 'confirmed',
+        });
+        await ctx.db.insert('facts', {
+          ...base,
+          entityId: ashford,
+          documentId: canonDoc,
+          subject: 'Battle of Ashford',
+          predicate: 'took place in',
+          object: '1021 AR',
+          temporalBound: { type: 'point', value: '1021 AR', start: 102000, end: 102100 },
+          status: 'confirmed',
+        });
+        await ctx.db.insert('facts', {
+          ...base,
+          entityId: coronation,
+          documentId,
+          subject: 'Coronation',
+          predicate: 'took place in',
+          object: '1023 AR',
+          temporalBound: { type: 'point', value: '1023 AR', start: 102200, end: 102300 },
+          status: 'pending',
+        });
+      });
+      await setupRelationship(
+        t,
+        { projectId, sourceEntityId: aria, targetEntityId: coronation },
+        { type: 'attended', documentId, status: 'pending' }
+      );
+      await setupRelationship(
+        t,
+        { projectId, sourceEntityId: aria, targetEntityId: ashford },
+        { type: 'fought in', documentId: canonDoc }
+      );
+
+      const first = await t.mutation(internal.checks.checkTimelineConsistency, { documentId });
+      const second = await t.mutation(internal.checks.checkTimelineConsistency, { documentId });
+      const canon = await t.mutation(internal.checks.checkTimelineConsistency, {
+        documentId: canonDoc,
+      });
+
+      expect(first.alertsCreated).toBe(1);
+      expect(second.alertsCreated).toBe(0);
+      expect(canon.alertsCreated).toBe(0);
+      const alerts = await t.run(async (ctx) => {
+        return await ctx.db
+          .query('alerts')
+          .withIndex('by_document', (q) => q.eq('documentId', documentId))
+          .collect();
+      });
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({
+        type: 'timeline',
+        severity: 'error',
+        title: 'Aria appears in Coronation after their death',
+        entityIds: [aria, coronation],
+      });
+      expect(alerts[0].evidence.map((e) => e.documentTitle)).toEqual([
+        'Chapter 1',
+        'Chapter 9',
+        'Chapter 9',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+import {
+  type TestContext,
+  createTestContext,
+  setupAuthenticatedUser,
+  setupOtherUser,
+  setupProject,
+  setupDocument,
+  setupEntity,
+  setupFact,
+} from './entities/helpers';
+
+describe('canonProposals', () => {
+  let t: ReturnType<typeof createTestContext>;
+  let asUser: ReturnType<TestContext['withIdentity']>;
+  let userId: Id<'users'>;
+  let projectId: Id<'projects'>;
+  let documentId: Id<'documents'>;
+  let kaelId: Id<'entities'>;
+
+  beforeEach(async () => {
+    t = createTestContext();
+    const auth = await setupAuthenticatedUser(t);
+    asUser = auth.asUser;
+    userId = auth.userId;
+    projectId = await setupProject(t, userId);
+    documentId = await setupDocument(t, projectId);
+    kaelId = await setupEntity(t, projectId, {
+      name: 'Kael',
+      aliases: ['The Ashen Knight'],
+      status: 'confirmed',
+      description: 'A wandering knight',
+    });
+  });
+
+  async function runTool(name: string, args: Record<string, unknown>, asUserId = userId) {
+    const result = await t.mutation(internal.chat.runChatTool, {
+      userId: asUserId,
+      projectId,
+      name,
+      arguments: JSON.stringify(args),
+    });
+    return JSON.parse(result);
+  }
+
+  async function shareProject(role: 'editor' | 'viewer') {
+    const memberId = await setupOtherUser(t);
+    await t.run(async (ctx) => {
+      await ctx.db.insert('projectShares', {
+        projectId,
+        sharedWithEmail: 'member@example.com',
+        sharedWithUserId: memberId,
+        role,
+        invitedBy: userId,
+        acceptedAt: Date.now(),
+        createdAt: Date.now(),
+      });
+    });
+    return memberId;
+  }
+
+  describe('chat tools', () => {
+    it('looks up entities by alias and lists their confirmed facts', async () => {
+      const factId = await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'age', object: '30', status: 'confirmed' }
+      );
+
+      const search = await runTool('search_entities', { query: 'ashen' });
+      expect(search.entities).toEqual([expect.objectContaining({ id: kaelId, name: 'Kael' })]);
+
+      const facts = await runTool('get_entity_facts', { entityId: kaelId });
+      expect(facts.facts).toEqual([
+        { id: factId, predicate: 'age', object: '30', temporalBound: null },
+      ]);
+    });
+
+    it('files a correction as a pending proposal without touching canon', async () => {
+      const factId = await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'age', object: '30', status: 'confirmed' }
+      );
+
+      const result = await runTool('propose_fact', {
+        entityId: kaelId,
+        predicate: 'Age',
+        object: '34',
+        replacesFactId: factId,
+        reason: 'Actually, Kael is 34, not 30',
+      });
+      expect(result.status).toBe('pending');
+
+      const fact = await t.run(async (ctx) => ctx.db.get(factId));
+      expect(fact?.status).toBe('confirmed');
+      const pending = await asUser.query(api.canonProposals.listPending, { projectId });
+      expect(pending).toHaveLength(1);
+      expect(pending[0]).toMatchObject({
+        entityName: 'Kael',
+        change: { type: 'fact', predicate: 'age', object: '34', replacesFactId: factId },
+        replacedFact: { predicate: 'age', object: '30' },
+        reason: 'Actually, Kael is 34, not 30',
+      });
+    });
+
+    it('only offers proposal tools to editors', async () => {
+      const viewerId = await shareProject('viewer');
+
+      const tools = await t.query(internal.chat.getChatTools, { userId: viewerId, projectId });
+      expect(tools.map((tool) => tool.function.name)).toEqual([
+        'search_entities',
+        'get_entity_facts',
+      ]);
+
+      const result = await runTool(
+        'propose_description',
+        { entityId: kaelId, description: 'x' },
+        viewerId
+      );
+      expect(result.error).toContain('Unknown tool');
+      const proposals = await t.run(async (ctx) => ctx.db.query('canonProposals').collect());
+      expect(proposals).toHaveLength(0);
+    });
+
+    it('leaves entities still awaiting review out of lookups', async () => {
+      const pendingId = await setupEntity(t, projectId, { name: 'Kaelith', status: 'pending' });
+
+      const search = await runTool('search_entities', { query: 'kael' });
+      expect(search.entities).toEqual([expect.objectContaining({ id: kaelId })]);
+      const facts = await runTool('get_entity_facts', { entityId: pendingId });
+      expect(facts.error).toBe('Entity not found');
+    });
+
+    it('rejects entities from other projects', async () => {
+      const otherProjectId = await setupProject(t, userId, { name: 'Elsewhere' });
+      const strangerId = await setupEntity(t, otherProjectId, { name: 'Stranger' });
+
+      const result = await runTool('propose_aliases', {
+        entityId: strangerId,
+        aliases: ['Nobody'],
+      });
+      expect(result.error).toBe('Entity not found');
+    });
+  });
+
+  describe('confirm', () => {
+    it('applies a fact correction and retires the old fact', async () => {
+      const factId = await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'age', object: '30', status: 'confirmed' }
+      );
+      const { proposalId } = await runTool('propose_fact', {
+        entityId: kaelId,
+        predicate: 'age',
+        object: '34',
+        replacesFactId: factId,
+      });
+
+      await asUser.mutation(api.canonProposals.confirm, { id: proposalId });
+
+      const facts = await t.run(async (ctx) =>
+        ctx.db
+          .query('facts')
+          .withIndex('by_entity', (q) => q.eq('entityId', kaelId))
+          .collect()
+      );
+      expect(Object.fromEntries(facts.map((fact) => [fact.object, fact.status]))).toEqual({
+        '30': 'rejected',
+        '34': 'confirmed',
+      });
+      expect(await asUser.query(api.canonProposals.listPending, { projectId })).toEqual([]);
+
+      const history = await asUser.query(api.revisions.listByEntity, { entityId: kaelId });
+      expect(history[0]).toMatchObject({ factId, summary: 'Suggested in Vellum chat' });
+    });
+
+    it('keeps the fact count when replacing a fact still awaiting review', async () => {
+      const factId = await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'age', object: '30', status: 'pending' }
+      );
+      await t.run(async (ctx) => {
+        const project = await ctx.db.get(projectId);
+        await ctx.db.patch(projectId, { stats: { ...project!.stats!, factCount: 1 } });
+      });
+      const { proposalId } = await runTool('propose_fact', {
+        entityId: kaelId,
+        predicate: 'age',
+        object: '34',
+        replacesFactId: factId,
+      });
+
+      await asUser.mutation(api.canonProposals.confirm, { id: proposalId });
+
+      const project = await t.run(async (ctx) => ctx.db.get(projectId));
+      expect(project?.stats?.factCount).toBe(1);
+
+      const history = await asUser.query(api.revisions.listByEntity, { entityId: kaelId });
+      const added = history.find((revision) => revision.label === 'Kael age 34');
+      expect(added).toMatchObject({ action: 'initial', summary: 'Suggested in Vellum chat' });
+    });
+
+    it('merges proposed aliases into the entity', async () => {
+      const { proposalId } = await runTool('propose_aliases', {
+        entityId: kaelId,
+        aliases: ['the ashen knight', 'Kael of Emberfall'],
+      });
+
+      await asUser.mutation(api.canonProposals.confirm, { id: proposalId });
+
+      const kael = await t.run(async (ctx) => ctx.db.get(kaelId));
+      expect(kael?.aliases).toEqual(['The Ashen Knight', 'Kael of Emberfall']);
+    });
+
+    it('leaves canon alone when rejected and cannot be resolved twice', async () => {
+      const { proposalId } = await runTool('propose_description', {
+        entityId: kaelId,
+        description: 'A knight sworn to the ember throne',
+      });
+
+      await asUser.mutation(api.canonProposals.reject, { id: proposalId });
+
+      const kael = await t.run(async (ctx) => ctx.db.get(kaelId));
+      expect(kael?.description).toBe('A wandering knight');
+      await expectConvexErrorCode(
+        asUser.mutation(api.canonProposals.confirm, { id: proposalId }),
+        'conflict'
+      );
+    });
+
+    it('requires edit access', async () => {
+      const { proposalId } = await runTool('propose_description', {
+        entityId: kaelId,
+        description: 'A knight sworn to the ember throne',
+      });
+      const viewerId = await shareProject('viewer');
+      const asViewer = t.withIdentity({ subject: viewerId });
+
+      expect(await asViewer.query(api.canonProposals.listPending, { projectId })).toEqual([]);
+      await expectConvexErrorCode(
+        asViewer.mutation(api.canonProposals.confirm, { id: proposalId }),
+        'unauthorized'
+      );
+    });
+  });
+});
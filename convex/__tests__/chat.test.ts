@@ -1,9 +1,11 @@
 import { convexTest } from 'convex-test';
 import { describe, it, expect } from 'vitest';
-import { api } from '../_generated/api';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
 import { register as registerPersistentTextStreaming } from '@convex-dev/persistent-text-streaming/test';
 import schema from '../schema';
 import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+import { setupDocument, setupEntity, setupFact, setupProject } from './entities/helpers';
 
 const getModules = () => import.meta.glob('../**/*.ts');
 
@@ -140,3 +142,137 @@ describe('chat streaming token enforcement', () => {
     expect(response.status).toBe(409);
   });
 });
+
+describe('project chat context', () => {
+  async function setupCanon(t: ReturnType<typeof convexTest>, userId: Id<'users'>) {
+    const projectId = await setupProject(t, userId, {
+      name: 'The Verdant Realm',
+      projectType: 'ttrpg',
+    });
+    const documentId = await setupDocument(t, projectId, {
+      title: 'Chapter 1',
+      content: 'Aria drew her bow beneath the silver oaks of Thornwood.',
+    });
+    const ariaId = await setupEntity(t, projectId, {
+      name: 'Aria',
+      aliases: ['Ari'],
+      status: 'confirmed',
+      description: 'A ranger',
+      revealedToViewers: true,
+    });
+    const bramId = await setupEntity(t, projectId, { name: 'Bram', status: 'confirmed' });
+    await setupFact(
+      t,
+      { projectId, entityId: ariaId, documentId },
+      { predicate: 'eye_color', object: 'green', status: 'confirmed' }
+    );
+    await setupFact(
+      t,
+      { projectId, entityId: ariaId, documentId },
+      { predicate: 'weapon', object: 'sword', status: 'pending' }
+    );
+    return { projectId, documentId, ariaId, bramId };
+  }
+
+  it('retrieves mentioned entities, confirmed facts and passages with citations', async () => {
+    const t = convexTest(schema, getModules());
+    registerPersistentTextStreaming(t);
+    const { userId, asUser } = await setupAuthenticatedUser(t);
+    const { projectId, documentId, ariaId } = await setupCanon(t, userId);
+
+    const { citations } = await asUser.mutation(api.chat.createStreamingChat, {
+      projectId,
+      messages: [{ role: 'user', content: 'What color are Ari eyes under the oaks?' }],
+    });
+
+    expect(citations).toEqual([
+      { marker: 'D1', targetType: 'document', documentId, label: 'Chapter 1' },
+      { marker: 'E1', targetType: 'entity', entityId: ariaId, label: 'Aria' },
+    ]);
+
+    const context = await t.query(internal.chat.getChatContext, {
+      userId,
+      projectId,
+      messages: [{ role: 'user', content: 'What color are Ari eyes under the oaks?' }],
+    });
+    expect(context.formattedContext).toContain('[E1] Aria (character)');
+    expect(context.formattedContext).toContain('- eye color: green [D1]');
+    expect(context.formattedContext).toContain('silver oaks of Thornwood');
+    expect(context.formattedContext).not.toContain('sword');
+    expect(context.formattedContext).not.toContain('Bram');
+  });
+
+  it('rejects projects the user cannot read', async () => {
+    const t = convexTest(schema, getModules());
+    registerPersistentTextStreaming(t);
+    const { userId } = await setupAuthenticatedUser(t);
+    const { asUser: otherUser } = await setupAuthenticatedUser(t);
+    const { projectId } = await setupCanon(t, userId);
+
+    await expectConvexErrorCode(
+      otherUser.mutation(api.chat.createStreamingChat, {
+        projectId,
+        messages: [{ role: 'user', content: 'Who is Aria?' }],
+      }),
+      'unauthorized'
+    );
+  });
+
+  it('limits players to revealed canon', async () => {
+    const t = convexTest(schema, getModules());
+    registerPersistentTextStreaming(t);
+    const { userId } = await setupAuthenticatedUser(t);
+    const { userId: playerId, asUser: asPlayer } = await setupAuthenticatedUser(t);
+    const { projectId, ariaId } = await setupCanon(t, userId);
+    await t.run(async (ctx) => {
+      await ctx.db.insert('projectShares', {
+        projectId,
+        sharedWithEmail: 'player@example.com',
+        sharedWithUserId: playerId,
+        role: 'viewer',
+        invitedBy: userId,
+        acceptedAt: Date.now(),
+        createdAt: Date.now(),
+      });
+    });
+
+    const { citations } = await asPlayer.mutation(api.chat.createStreamingChat, {
+      projectId,
+      messages: [{ role: 'user', content: 'Tell me about Aria and Bram' }],
+    });
+
+    expect(citations).toEqual([
+      { marker: 'E1', targetType: 'entity', entityId: ariaId, label: 'Aria' },
+    ]);
+  });
+
+  it('keeps stream citations with the saved reply', async () => {
+    const t = convexTest(schema, getModules());
+    registerPersistentTextStreaming(t);
+    const { userId, asUser } = await setupAuthenticatedUser(t);
+    const { projectId, ariaId } = await setupCanon(t, userId);
+
+    const threadId = await asUser.mutation(api.chatHistory.createThread, { projectId });
+    const { streamId } = await asUser.mutation(api.chat.createStreamingChat, {
+      projectId,
+      messages: [{ role: 'user', content: 'Who is Aria?' }],
+    });
+    await asUser.mutation(api.chatHistory.send, {
+      threadId,
+      role: 'assistant',
+      content: 'Aria is a ranger [E1].',
+      streamId,
+    });
+
+    const { page } = await asUser.query(api.chatHistory.list, {
+      threadId,
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(page[0].citations).toContainEqual({
+      marker: 'E1',
+      targetType: 'entity',
+      entityId: ariaId,
+      label: 'Aria',
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+import {
+  type TestContext,
+  createTestContext,
+  setupAuthenticatedUser,
+  setupOtherUser,
+  setupProject,
+} from './entities/helpers';
+
+describe('chatHistory', () => {
+  let t: ReturnType<typeof createTestContext>;
+  let asUser: ReturnType<TestContext['withIdentity']>;
+  let userId: Id<'users'>;
+
+  beforeEach(async () => {
+    t = createTestContext();
+    const auth = await setupAuthenticatedUser(t);
+    asUser = auth.asUser;
+    userId = auth.userId;
+  });
+
+  async function sendAll(threadId: Id<'chatThreads'>, contents: string[]) {
+    const ids: Id<'chatMessages'>[] = [];
+    for (const [index, content] of contents.entries()) {
+      ids.push(
+        await asUser.mutation(api.chatHistory.send, {
+          threadId,
+          role: index % 2 === 0 ? 'user' : 'assistant',
+          content,
+        })
+      );
+    }
+    return ids;
+  }
+
+  describe('threads', () => {
+    it('titles a new thread from its first question and lists it with its project', async () => {
+      const projectId = await setupProject(t, userId, { name: 'The Verdant Realm' });
+      const threadId = await asUser.mutation(api.chatHistory.createThread, { projectId });
+      await sendAll(threadId, ['Who rules Thornwood?\nAsking for a friend', 'The Oak Queen.']);
+
+      const threads = await asUser.query(api.chatHistory.listThreads, {});
+      expect(threads).toHaveLength(1);
+      expect(threads[0]).toMatchObject({
+        title: 'Who rules Thornwood?',
+        projectId,
+        projectName: 'The Verdant Realm',
+      });
+    });
+
+    it('renames a thread and rejects blank titles', async () => {
+      const threadId = await asUser.mutation(api.chatHistory.createThread, {});
+      await asUser.mutation(api.chatHistory.renameThread, { id: threadId, title: ' Lore dump ' });
+
+      const thread = await asUser.query(api.chatHistory.getThread, { id: threadId });
+      expect(thread?.title).toBe('Lore dump');
+      await expectConvexErrorCode(
+        asUser.mutation(api.chatHistory.renameThread, { id: threadId, title: '   ' }),
+        'validation'
+      );
+    });
+
+    it('deletes a thread with its messages', async () => {
+      const threadId = await asUser.mutation(api.chatHistory.createThread, {});
+      const keepId = await asUser.mutation(api.chatHistory.createThread, {});
+      await sendAll(threadId, ['one', 'two']);
+      await sendAll(keepId, ['three']);
+
+      const result = await asUser.mutation(api.chatHistory.removeThread, { id: threadId });
+      expect(result).toEqual({ deleted: 2 });
+
+      const remaining = await t.run(async (ctx) => ctx.db.query('chatMessages').collect());
+      expect(remaining.map((m) => m.content)).toEqual(['three']);
+    });
+
+    it('forks a thread up to a message', async () => {
+      const projectId = await setupProject(t, userId);
+      const threadId = await asUser.mutation(api.chatHistory.createThread, {
+        projectId,
+        title: 'Plot ideas',
+      });
+      const [, secondId] = await sendAll(threadId, ['one', 'two', 'three']);
+
+      const forkId = await asUser.mutation(api.chatHistory.forkThread, { messageId: secondId });
+
+      const fork = await asUser.query(api.chatHistory.getThread, { id: forkId });
+      expect(fork).toMatchObject({
+        title: 'Plot ideas (fork)',
+        projectId,
+        forkedFromThreadId: threadId,
+      });
+      const { page } = await asUser.query(api.chatHistory.list, {
+        threadId: forkId,
+        paginationOpts: { numItems: 10, cursor: null },
+      });
+      expect(page.map((m) => m.content)).toEqual(['two', 'one']);
+    });
+
+    it('keeps threads private to their owner', async () => {
+      const threadId = await asUser.mutation(api.chatHistory.createThread, {});
+      await sendAll(threadId, ['secret']);
+
+      const otherUserId = await setupOtherUser(t);
+      const asOther = t.withIdentity({ subject: otherUserId });
+      expect(await asOther.query(api.chatHistory.getThread, { id: threadId })).toBeNull();
+      expect(await asOther.query(api.chatHistory.listThreads, {})).toEqual([]);
+      await expectConvexErrorCode(
+        asOther.mutation(api.chatHistory.send, { threadId, role: 'user', content: 'hi' }),
+        'unauthorized'
+      );
+      await expectConvexErrorCode(
+        asOther.mutation(api.chatHistory.removeThread, { id: threadId }),
+        'unauthorized'
+      );
+    });
+
+    it('requires access to the thread project', async () => {
+      const otherUserId = await setupOtherUser(t);
+      const projectId = await setupProject(t, otherUserId);
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.chatHistory.createThread, { projectId }),
+        'unauthorized'
+      );
+    });
+  });
+
+  describe('list', () => {
+    it('pages through history newest first', async () => {
+      const threadId = await asUser.mutation(api.chatHistory.createThread, {});
+      await sendAll(threadId, ['one', 'two', 'three']);
+
+      const first = await asUser.query(api.chatHistory.list, {
+        threadId,
+        paginationOpts: { numItems: 2, cursor: null },
+      });
+      expect(first.page.map((m) => m.content)).toEqual(['three', 'two']);
+      expect(first.isDone).toBe(false);
+
+      const second = await asUser.query(api.chatHistory.list, {
+        threadId,
+        paginationOpts: { numItems: 2, cursor: first.continueCursor },
+      });
+      expect(second.page.map((m) => m.content)).toEqual(['one']);
+    });
+  });
+
+  describe('migrateChatThreads', () => {
+    it('gathers loose messages into one thread per user', async () => {
+      await t.run(async (ctx) => {
+        for (const content of ['hello', 'hi there']) {
+          await ctx.db.insert('chatMessages', {
+            userId,
+            role: 'user',
+            content,
+            createdAt: Date.now(),
+          });
+        }
+      });
+
+      const result = await t.mutation(internal.migrations.migrateChatThreads, {});
+      expect(result).toEqual({ migrated: 2, threads: 1 });
+
+      const [thread] = await asUser.query(api.chatHistory.listThreads, {});
+      expect(thread.title).toBe('Earlier conversation');
+      const { page } = await asUser.query(api.chatHistory.list, {
+        threadId: thread._id,
+        paginationOpts: { numItems: 10, cursor: null },
+      });
+      expect(page).toHaveLength(2);
+    });
+  });
+});
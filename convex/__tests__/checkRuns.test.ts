@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import {
+  type TestContext,
+  createTestContext,
+  setupAuthenticatedUser,
+  setupOtherUser,
+  setupProject,
+  setupDocument,
+  setupEntity,
+  setupFact,
+} from './entities/helpers';
+
+function mockCheckResponse(titles: string[]) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async () =>
+    Response.json({
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              alerts: titles.map((title) => ({
+                type: 'contradiction',
+                severity: 'error',
+                title,
+                description: 'Conflicts with canon',
+                evidence: [{ source: 'new_document', quote: 'Kael has green eyes.' }],
+                affectedEntities: ['Kael'],
+              })),
+              summary: { totalIssues: titles.length, errors: titles.length, warnings: 0 },
+            }),
+          },
+        },
+      ],
+      usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+    })
+  );
+}
+
+describe('checkRuns', () => {
+  let t: ReturnType<typeof createTestContext>;
+  let asUser: ReturnType<TestContext['withIdentity']>;
+  let projectId: Id<'projects'>;
+  let documentId: Id<'documents'>;
+  let kaelId: Id<'entities'>;
+
+  beforeEach(async () => {
+    vi.stubEnv('OPENROUTER_API_KEY', 'test-key');
+    vi.stubEnv('MODEL', 'test-model');
+    t = createTestContext();
+    const auth = await setupAuthenticatedUser(t);
+    asUser = auth.asUser;
+    projectId = await setupProject(t, auth.userId);
+    const canonId = await setupDocument(t, projectId, { title: 'Chapter 1' });
+    kaelId = await setupEntity(t, projectId, { name: 'Kael', status: 'confirmed' });
+    await setupFact(
+      t,
+      { projectId, entityId: kaelId, documentId: canonId },
+      { predicate: 'has', object: 'blue eyes', status: 'confirmed' }
+    );
+    documentId = await setupDocument(t, projectId, {
+      title: 'Chapter 2',
+      content: 'Kael has green eyes.',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  async function addEyeColourContradiction() {
+    await t.run(async (ctx) => ctx.db.patch(projectId, { singleValuedPredicates: ['has'] }));
+    await setupFact(
+      t,
+      { projectId, entityId: kaelId, documentId },
+      { predicate: 'has', object: 'green eyes', status: 'pending' }
+    );
+  }
+
+  async function listRuns() {
+    return await t.run(async (ctx) => ctx.db.query('checkRuns').collect());
+  }
+
+  it('records a completed run with its model, usage and summary', async () => {
+    mockCheckResponse(['Kael: eye colour']);
+
+    await t.action(internal.checks.runCheck, { documentId });
+
+    const [run] = await listRuns();
+    expect(run).toMatchObject({
+      documentId,
+      status: 'completed',
+      trigger: 'extraction',
+      model: 'test-model',
+      promptVersion: 'check-v1',
+      chunkCount: 1,
+      cachedChunks: 0,
+      usage: { promptTokens: 120, completionTokens: 30, totalTokens: 150 },
+      summary: { totalIssues: 1, errors: 1, warnings: 0, checkedEntities: ['Kael'] },
+      issues: [{ type: 'contradiction', severity: 'error', title: 'Kael: eye colour' }],
+      alertsCreated: 1,
+    });
+    expect(run.completedAt).toBeGreaterThanOrEqual(run.startedAt);
+  });
+
+  it('records a clean run and counts cached chunks without usage', async () => {
+    mockCheckResponse([]);
+
+    await t.action(internal.checks.runCheck, { documentId });
+    await t.action(internal.checks.runCheck, { documentId });
+
+    const runs = await listRuns();
+    expect(runs).toHaveLength(2);
+    expect(runs[0].summary?.totalIssues).toBe(0);
+    expect(runs[1]).toMatchObject({
+      cachedChunks: 1,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    });
+  });
+
+  it('marks the run failed when the check throws', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('down', { status: 503 }));
+
+    await expect(t.action(internal.checks.runCheck, { documentId })).rejects.toThrow(
+      /OpenRouter API error/
+    );
+
+    const [run] = await listRuns();
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('OpenRouter API error');
+  });
+
+  it('records rule-based issues with the model findings', async () => {
+    mockCheckResponse(['Kael: eye colour']);
+    await addEyeColourContradiction();
+
+    await t.action(internal.checks.runCheck, { documentId });
+
+    const [run] = await listRuns();
+    expect(run.summary).toMatchObject({ totalIssues: 2, errors: 2 });
+    expect(run.issues?.map((issue) => issue.title)).toEqual([
+      'Kael: conflicting has',
+      'Kael: eye colour',
+    ]);
+    expect(run.alertsCreated).toBe(2);
+  });
+
+  it('completes with the rule-based results when no model is configured', async () => {
+    vi.stubEnv('MODEL', undefined);
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    await addEyeColourContradiction();
+
+    const result = await t.action(internal.checks.runCheck, { documentId });
+
+    expect(result.summary.totalIssues).toBe(1);
+    const [run] = await listRuns();
+    expect(run).toMatchObject({
+      status: 'completed',
+      chunkCount: 0,
+      summary: { totalIssues: 1, errors: 1, warnings: 0, checkedEntities: [] },
+      issues: [{ type: 'contradiction', severity: 'error', title: 'Kael: conflicting has' }],
+      alertsCreated: 1,
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('lists manual re-runs newest first for readers only', async () => {
+    mockCheckResponse([]);
+
+    await t.action(internal.checks.runCheck, { documentId });
+    await asUser.action(api.checks.triggerCheck, { documentId });
+
+    const runs = await asUser.query(api.checkRuns.listByDocument, { documentId });
+    expect(runs.map((run) => run.trigger)).toEqual(['manual', 'extraction']);
+    expect(runs[0].requestedByName).toBe('Test User');
+
+    const otherId = await setupOtherUser(t);
+    const asOther = t.withIdentity({ subject: otherId });
+    expect(await asOther.query(api.checkRuns.listByDocument, { documentId })).toEqual([]);
+  });
+
+  it('deletes runs with their document', async () => {
+    mockCheckResponse([]);
+    await t.action(internal.checks.runCheck, { documentId });
+
+    await asUser.mutation(api.documents.remove, { id: documentId });
+
+    expect(await listRuns()).toHaveLength(0);
+  });
+});
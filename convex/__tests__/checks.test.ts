@@ -1,8 +1,10 @@
 import { convexTest } from 'convex-test';
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import { api, internal } from '../_generated/api';
 import type { Id } from '../_generated/dataModel';
 import schema from '../schema';
+import { buildCanonContext } from '../lib/checkContext';
+import { findFactContradictions, normalizePredicate } from '../lib/contradictions';
 
 const getModules = () => import.meta.glob('../**/*.ts');
 
@@ -97,6 +99,38 @@ async function setupProjectWithCanon(t: ReturnType<typeof convexTest>, userId: I
   });
 }
 
+async function addEntityWithFact(
+  t: ReturnType<typeof convexTest>,
+  projectId: Id<'projects'>,
+  documentId: Id<'documents'>,
+  name: string,
+  object: string
+) {
+  return await t.run(async (ctx) => {
+    const entityId = await ctx.db.insert('entities', {
+      projectId,
+      name,
+      type: 'character',
+      aliases: [],
+      status: 'confirmed',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    await ctx.db.insert('facts', {
+      projectId,
+      entityId,
+      documentId,
+      subject: name,
+      predicate: 'is',
+      object,
+      confidence: 1.0,
+      status: 'confirmed',
+      createdAt: Date.now(),
+    });
+    return entityId;
+  });
+}
+
 describe('checks', () => {
   describe('runCheck action', () => {
     it('returns cached alerts when canonical context exists', async () => {
@@ -152,6 +186,176 @@ describe('checks', () => {
   });
 
   describe('createAlerts mutation', () => {
+    it('does not duplicate model alerts on a re-check', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const { projectId, documentId, marcusId } = await setupProjectWithCanon(t, userId);
+
+      const alert = {
+        type: 'contradiction' as const,
+        severity: 'error' as const,
+        title: 'Eye color conflict',
+        description: "Marcus's eye color changed from blue to brown",
+        evidence: [{ source: 'new_document' as const, quote: 'Marcus has brown eyes.' }],
+        affectedEntities: ['Marcus'],
+      };
+      const summary = { totalIssues: 1, errors: 1, warnings: 0, checkedEntities: ['Marcus'] };
+      const canonContext = [{ id: marcusId, name: 'Marcus', type: 'character', facts: [] }];
+
+      await t.mutation(internal.checks.createAlerts, {
+        documentId,
+        projectId,
+        checkResult: { alerts: [alert], summary },
+        canonContext,
+      });
+      const second = await t.mutation(internal.checks.createAlerts, {
+        documentId,
+        projectId,
+        checkResult: {
+          alerts: [
+            { ...alert, evidence: [{ ...alert.evidence[0], quote: 'marcus has  BROWN eyes' }] },
+          ],
+          summary,
+        },
+        canonContext,
+      });
+
+      expect(second.alertsCreated).toBe(0);
+      const alerts = await t.run(async (ctx) =>
+        ctx.db
+          .query('alerts')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect()
+      );
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].rule).toBe('model:contradiction');
+      expect(alerts[0].evidence[0].snippet).toBe('marcus has  BROWN eyes');
+    });
+
+    it('keeps a dismissed model alert dismissed when the canon sent changes', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const { projectId, documentId, marcusId, eyeFactId, livesFactId } =
+        await setupProjectWithCanon(t, userId);
+
+      const alert = {
+        type: 'contradiction' as const,
+        severity: 'error' as const,
+        title: 'Eye color conflict',
+        description: "Marcus's eye color changed from blue to brown",
+        evidence: [
+          { source: 'canon' as const, quote: 'Marcus has blue eyes.', entityName: 'Marcus' },
+          { source: 'new_document' as const, quote: 'Marcus has brown eyes.' },
+        ],
+        affectedEntities: ['Marcus'],
+      };
+      const summary = { totalIssues: 1, errors: 1, warnings: 0, checkedEntities: ['Marcus'] };
+      const eyeFact = {
+        id: eyeFactId,
+        predicate: 'has',
+        object: 'blue eyes',
+        evidence: 'Marcus has blue eyes.',
+        documentTitle: 'Chapter 1',
+      };
+      const livesFact = {
+        id: livesFactId,
+        predicate: 'lives in',
+        object: 'the castle',
+        evidence: 'He lives in the castle.',
+        documentTitle: 'Chapter 1',
+      };
+
+      await t.mutation(internal.checks.createAlerts, {
+        documentId,
+        projectId,
+        checkResult: { alerts: [alert], summary },
+        canonContext: [{ id: marcusId, name: 'Marcus', type: 'character', facts: [eyeFact] }],
+      });
+      await t.run(async (ctx) => {
+        const [created] = await ctx.db
+          .query('alerts')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect();
+        await ctx.db.patch(created._id, { status: 'dismissed', resolvedAt: Date.now() });
+      });
+
+      // Retrieval now also sends where Marcus lives, and the model retitles the issue.
+      const second = await t.mutation(internal.checks.createAlerts, {
+        documentId,
+        projectId,
+        checkResult: { alerts: [{ ...alert, title: 'Marcus: eye colour' }], summary },
+        canonContext: [
+          { id: marcusId, name: 'Marcus', type: 'character', facts: [livesFact, eyeFact] },
+        ],
+      });
+
+      expect(second.alertsCreated).toBe(0);
+      const alerts = await t.run(async (ctx) =>
+        ctx.db
+          .query('alerts')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect()
+      );
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({ status: 'dismissed', factIds: [eyeFactId] });
+    });
+
+    it('keeps a dismissed model alert dismissed when the model rewords its evidence', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const { projectId, documentId, marcusId } = await setupProjectWithCanon(t, userId);
+
+      const alert = {
+        type: 'contradiction' as const,
+        severity: 'error' as const,
+        title: 'Eye color conflict',
+        description: "Marcus's eye color changed from blue to brown",
+        evidence: [{ source: 'new_document' as const, quote: 'Marcus has brown eyes.' }],
+        affectedEntities: ['Marcus'],
+      };
+      const summary = { totalIssues: 1, errors: 1, warnings: 0, checkedEntities: ['Marcus'] };
+      const canonContext = [{ id: marcusId, name: 'Marcus', type: 'character', facts: [] }];
+
+      await t.mutation(internal.checks.createAlerts, {
+        documentId,
+        projectId,
+        checkResult: { alerts: [alert], summary },
+        canonContext,
+      });
+      await t.run(async (ctx) => {
+        const [created] = await ctx.db
+          .query('alerts')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect();
+        await ctx.db.patch(created._id, { status: 'dismissed', resolvedAt: Date.now() });
+      });
+
+      const second = await t.mutation(internal.checks.createAlerts, {
+        documentId,
+        projectId,
+        checkResult: {
+          alerts: [
+            {
+              ...alert,
+              evidence: [{ ...alert.evidence[0], quote: 'His eyes, brown as river mud.' }],
+            },
+          ],
+          summary,
+        },
+        canonContext,
+      });
+
+      expect(second.alertsCreated).toBe(0);
+      const alerts = await t.run(async (ctx) =>
+        ctx.db
+          .query('alerts')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect()
+      );
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].status).toBe('dismissed');
+    });
+
     it('creates alerts from check result', async () => {
       const t = convexTest(schema, getModules());
       const { userId } = await setupAuthenticatedUser(t);
@@ -726,4 +930,429 @@ describe('checks', () => {
       expect(alerts[0].factIds.length).toBe(factIdSet.size);
     });
   });
+
+  describe('findFactContradictions', () => {
+    const marcus = 'marcus' as Id<'entities'>;
+    const lyra = 'lyra' as Id<'entities'>;
+    const fact = (id: string, entityId: Id<'entities'>, predicate: string, object: string) => ({
+      _id: id as Id<'facts'>,
+      entityId,
+      predicate,
+      object,
+    });
+    const predicates = new Set(['age', 'eye_color']);
+
+    it('normalizes predicates like manual facts', () => {
+      expect(normalizePredicate('  Eye Color ')).toBe('eye_color');
+      expect(normalizePredicate('born-in')).toBe('born_in');
+    });
+
+    it('flags different objects for the same entity and single-valued predicate', () => {
+      const incoming = [fact('f1', marcus, 'Eye Color', 'green')];
+      const canon = [fact('f2', marcus, 'eye_color', 'blue')];
+
+      const result = findFactContradictions(incoming, canon, predicates);
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ entityId: marcus, predicate: 'eye_color' });
+      expect(result[0].canon.map((f) => f._id)).toEqual(['f2']);
+    });
+
+    it('ignores equal objects, other entities and multi-valued predicates', () => {
+      const incoming = [
+        fact('f1', marcus, 'age', '32.'),
+        fact('f2', marcus, 'ally_of', 'Lyra'),
+        fact('f3', lyra, 'age', '20'),
+      ];
+      const canon = [
+        fact('f4', marcus, 'age', ' 32'),
+        fact('f5', marcus, 'ally_of', 'Dorian'),
+        fact('f6', marcus, 'age', '32'),
+      ];
+
+      expect(findFactContradictions(incoming, canon, predicates)).toEqual([]);
+    });
+
+    it('groups every conflicting fact per entity and predicate', () => {
+      const incoming = [fact('f1', marcus, 'age', '40'), fact('f2', marcus, 'age', '41')];
+      const canon = [fact('f3', marcus, 'age', '32'), fact('f4', marcus, 'age', '33')];
+
+      const result = findFactContradictions(incoming, canon, predicates);
+      expect(result).toHaveLength(1);
+      expect(result[0].incoming.map((f) => f._id)).toEqual(['f1', 'f2']);
+      expect(result[0].canon.map((f) => f._id)).toEqual(['f3', 'f4']);
+    });
+  });
+
+  describe('checkFactContradictions mutation', () => {
+    async function setupConflictingDocument(t: ReturnType<typeof convexTest>) {
+      const { userId } = await setupAuthenticatedUser(t);
+      const canon = await setupProjectWithCanon(t, userId);
+
+      const { documentId, factId } = await t.run(async (ctx) => {
+        await ctx.db.insert('facts', {
+          projectId: canon.projectId,
+          entityId: canon.marcusId,
+          documentId: canon.documentId,
+          subject: 'Marcus',
+          predicate: 'eye color',
+          object: 'blue',
+          confidence: 1.0,
+          evidenceSnippet: 'His eyes were blue.',
+          status: 'confirmed',
+          createdAt: Date.now(),
+        });
+
+        const documentId = await ctx.db.insert('documents', {
+          projectId: canon.projectId,
+          title: 'Chapter 2',
+          content: 'Marcus narrowed his green eyes.',
+          contentType: 'text',
+          orderIndex: 1,
+          wordCount: 5,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          processingStatus: 'completed',
+        });
+
+        const factId = await ctx.db.insert('facts', {
+          projectId: canon.projectId,
+          entityId: canon.marcusId,
+          documentId,
+          subject: 'Marcus',
+          predicate: 'eye_color',
+          object: 'green',
+          confidence: 0.9,
+          evidenceSnippet: 'Marcus narrowed his green eyes.',
+          status: 'pending',
+          createdAt: Date.now(),
+        });
+
+        return { documentId, factId };
+      });
+
+      return { ...canon, userId, documentId, factId, canonDocumentId: canon.documentId };
+    }
+
+    it('raises a contradiction alert without calling the model', async () => {
+      const t = convexTest(schema, getModules());
+      const { projectId, marcusId, documentId, factId } = await setupConflictingDocument(t);
+
+      const result = await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      expect(result.alertsCreated).toBe(1);
+
+      const alerts = await t.run(async (ctx) => {
+        return await ctx.db
+          .query('alerts')
+          .withIndex('by_document', (q) => q.eq('documentId', documentId))
+          .collect();
+      });
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({
+        type: 'contradiction',
+        severity: 'error',
+        title: 'Marcus: conflicting eye color',
+        entityIds: [marcusId],
+      });
+      expect(alerts[0].factIds).toContain(factId);
+      expect(alerts[0].evidence.map((e) => e.documentTitle)).toEqual(['Chapter 1', 'Chapter 2']);
+
+      const project = await t.run(async (ctx) => ctx.db.get(projectId));
+      expect(project?.stats?.alertCount).toBe(1);
+    });
+
+    it('does not raise the same contradiction twice', async () => {
+      const t = convexTest(schema, getModules());
+      const { documentId } = await setupConflictingDocument(t);
+
+      await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      const second = await t.mutation(internal.checks.checkFactContradictions, { documentId });
+
+      expect(second.alertsCreated).toBe(0);
+    });
+
+    it('uses the predicates configured for the project', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, projectId, documentId } = await setupConflictingDocument(t);
+      const asUser = t.withIdentity({ subject: userId });
+
+      await asUser.mutation(api.projects.update, {
+        id: projectId,
+        singleValuedPredicates: ['Age', ' age ', '', 'Born In'],
+      });
+      const project = await t.run(async (ctx) => ctx.db.get(projectId));
+      expect(project?.singleValuedPredicates).toEqual(['age', 'born_in']);
+
+      const result = await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      expect(result.alertsCreated).toBe(0);
+    });
+
+    it('ignores rejected facts', async () => {
+      const t = convexTest(schema, getModules());
+      const { documentId, factId } = await setupConflictingDocument(t);
+      await t.run(async (ctx) => ctx.db.patch(factId, { status: 'rejected' }));
+
+      const result = await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      expect(result.alertsCreated).toBe(0);
+    });
+
+    it('updates the existing alert on a re-check', async () => {
+      const t = convexTest(schema, getModules());
+      const { documentId } = await setupConflictingDocument(t);
+
+      await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      const [first] = await t.run(async (ctx) =>
+        ctx.db
+          .query('alerts')
+          .withIndex('by_document', (q) => q.eq('documentId', documentId))
+          .collect()
+      );
+      await t.mutation(internal.checks.checkFactContradictions, { documentId });
+
+      const alerts = await t.run(async (ctx) =>
+        ctx.db
+          .query('alerts')
+          .withIndex('by_document', (q) => q.eq('documentId', documentId))
+          .collect()
+      );
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]._id).toBe(first._id);
+      expect(alerts[0].rule).toBe('fact:eye_color');
+      expect(alerts[0].fingerprint).toBe(first.fingerprint);
+      expect(alerts[0].lastDetectedAt).toBeGreaterThanOrEqual(first.lastDetectedAt ?? 0);
+    });
+
+    it('keeps a dismissed alert dismissed until its facts change', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, projectId, documentId, factId } = await setupConflictingDocument(t);
+      const asUser = t.withIdentity({ subject: userId });
+
+      await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      const alert = await t.run(async (ctx) =>
+        ctx.db
+          .query('alerts')
+          .withIndex('by_document', (q) => q.eq('documentId', documentId))
+          .first()
+      );
+      await asUser.mutation(api.alerts.dismiss, { id: alert!._id });
+
+      const unchanged = await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      expect(unchanged.alertsCreated).toBe(0);
+      expect((await t.run(async (ctx) => ctx.db.get(alert!._id)))?.status).toBe('dismissed');
+
+      await t.run(async (ctx) => ctx.db.patch(factId, { status: 'confirmed' }));
+      const changed = await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      expect(changed.alertsCreated).toBe(1);
+
+      const reopened = await t.run(async (ctx) => ctx.db.get(alert!._id));
+      expect(reopened?.status).toBe('open');
+      expect(reopened?.resolvedAt).toBeUndefined();
+      const project = await t.run(async (ctx) => ctx.db.get(projectId));
+      expect(project?.stats?.alertCount).toBe(1);
+    });
+
+    it('reopens a resolved alert that is found again', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, documentId } = await setupConflictingDocument(t);
+      const asUser = t.withIdentity({ subject: userId });
+
+      await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      const alert = await t.run(async (ctx) =>
+        ctx.db
+          .query('alerts')
+          .withIndex('by_document', (q) => q.eq('documentId', documentId))
+          .first()
+      );
+      await asUser.mutation(api.alerts.resolve, { id: alert!._id, resolutionNotes: 'Fixed' });
+
+      const result = await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      expect(result.alertsCreated).toBe(1);
+      const reopened = await t.run(async (ctx) => ctx.db.get(alert!._id));
+      expect(reopened?.status).toBe('open');
+      expect(reopened?.resolutionNotes).toBeUndefined();
+    });
+
+    it('skips rules ignored for the alert entities', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, projectId, documentId } = await setupConflictingDocument(t);
+      const asUser = t.withIdentity({ subject: userId });
+
+      await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      const alert = await t.run(async (ctx) =>
+        ctx.db
+          .query('alerts')
+          .withIndex('by_document', (q) => q.eq('documentId', documentId))
+          .first()
+      );
+      await asUser.mutation(api.alerts.suppressRule, { id: alert!._id });
+      await t.run(async (ctx) => ctx.db.delete(alert!._id));
+
+      const result = await t.mutation(internal.checks.checkFactContradictions, { documentId });
+      expect(result.alertsCreated).toBe(0);
+      const alerts = await t.run(async (ctx) =>
+        ctx.db
+          .query('alerts')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect()
+      );
+      expect(alerts).toHaveLength(0);
+    });
+  });
+
+  describe('canon selection', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.unstubAllEnvs();
+    });
+
+    it('sends only named entities and their relationship neighbours', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const { projectId, documentId, marcusId } = await setupProjectWithCanon(t, userId);
+      const eliraId = await addEntityWithFact(t, projectId, documentId, 'Elira', "Marcus's sister");
+      await addEntityWithFact(t, projectId, documentId, 'Thorne', 'a smuggler in the south');
+      await t.run(async (ctx) => {
+        await ctx.db.insert('relationships', {
+          projectId,
+          sourceEntityId: eliraId,
+          targetEntityId: marcusId,
+          type: 'sibling_of',
+          confidence: 1.0,
+          status: 'confirmed',
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+      });
+
+      const context = await t.query(internal.checks.getCanonContext, {
+        projectId,
+        text: 'Lord Marcus rode out at dawn.',
+      });
+
+      expect(context.entities.map((entity) => entity.name)).toEqual(['Marcus', 'Elira']);
+      expect(context.formattedContext).not.toContain('Thorne');
+    });
+
+    it('stops adding canon once the token budget is spent', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const { projectId, documentId } = await setupProjectWithCanon(t, userId);
+      await addEntityWithFact(t, projectId, documentId, 'Elira', 'a cartographer');
+
+      const context = await t.run(async (ctx) =>
+        buildCanonContext(ctx, projectId, { text: 'Marcus met Elira.', tokenBudget: 25 })
+      );
+
+      expect(context.entities).toHaveLength(1);
+      expect(context.entities[0].name).toBe('Marcus');
+      expect(context.entities[0].facts).toHaveLength(1);
+    });
+
+    it('checks long documents chunk by chunk and reports the canon it sent', async () => {
+      vi.stubEnv('OPENROUTER_API_KEY', 'test-key');
+      vi.stubEnv('MODEL', 'test-model');
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const { projectId, documentId } = await setupProjectWithCanon(t, userId);
+      await addEntityWithFact(t, projectId, documentId, 'Elira', 'a cartographer');
+      await addEntityWithFact(t, projectId, documentId, 'Thorne', 'a smuggler in the south');
+
+      const filler = 'The road wound on through empty hills.\n\n'.repeat(400);
+      const longId = await t.run(async (ctx) =>
+        ctx.db.insert('documents', {
+          projectId,
+          title: 'Chapter 2',
+          content: `Marcus set out alone.\n\n${filler}At the ford he met Elira.`,
+          contentType: 'text',
+          orderIndex: 1,
+          wordCount: 2800,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          processingStatus: 'completed',
+        })
+      );
+
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () =>
+        Response.json({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({
+                  alerts: [],
+                  summary: { totalIssues: 0, errors: 0, warnings: 0, checkedEntities: [] },
+                }),
+              },
+            },
+          ],
+        })
+      );
+
+      const result = await t.action(internal.checks.runCheck, { documentId: longId });
+
+      const prompts = fetchSpy.mock.calls.map(
+        ([, init]) => JSON.parse(init?.body as string).messages[0].content as string
+      );
+      expect(prompts).toHaveLength(2);
+      expect(prompts[0]).toContain('## Entity: Marcus');
+      expect(prompts[0]).not.toContain('## Entity: Elira');
+      expect(prompts[1]).toContain('## Entity: Elira');
+      expect(prompts.join('')).not.toContain('Thorne');
+      expect(result.summary.checkedEntities).toEqual(['Marcus', 'Elira']);
+    });
+
+    it('streams documents stored only as files and clears progress afterwards', async () => {
+      vi.stubEnv('OPENROUTER_API_KEY', 'test-key');
+      vi.stubEnv('MODEL', 'test-model');
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const { projectId, documentId } = await setupProjectWithCanon(t, userId);
+      await addEntityWithFact(t, projectId, documentId, 'Elira', 'a cartographer');
+
+      const filler = 'The road wound on through empty hills.\n\n'.repeat(400);
+      const storedId = await t.run(async (ctx) => {
+        const storageId = await ctx.storage.store(
+          new Blob([`Marcus set out alone.\n\n${filler}At the ford he met Elira.`])
+        );
+        return await ctx.db.insert('documents', {
+          projectId,
+          title: 'Chapter 2',
+          storageId,
+          contentType: 'file',
+          orderIndex: 1,
+          wordCount: 2800,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          processingStatus: 'completed',
+        });
+      });
+
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () =>
+        Response.json({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({
+                  alerts: [],
+                  summary: { totalIssues: 0, errors: 0, warnings: 0, checkedEntities: [] },
+                }),
+              },
+            },
+          ],
+        })
+      );
+
+      const result = await t.action(internal.checks.runCheck, { documentId: storedId });
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(result.summary.checkedEntities).toEqual(['Marcus', 'Elira']);
+      const state = await t.run(async (ctx) => ({
+        doc: await ctx.db.get(storedId),
+        runs: await ctx.db
+          .query('checkRuns')
+          .withIndex('by_document', (q) => q.eq('documentId', storedId))
+          .collect(),
+      }));
+      expect(state.doc?.processingProgress).toBeUndefined();
+      expect(state.runs[0]?.chunkCount).toBe(2);
+    });
+  });
 });
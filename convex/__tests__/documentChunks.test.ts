@@ -0,0 +1,165 @@
+import { convexTest } from 'convex-test';
+import { afterAll, afterEach, beforeAll, describe, it, expect, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import schema from '../schema';
+
+const getModules = () => import.meta.glob('../**/*.ts');
+
+// Long enough to need several chunks; the one mention of the harbour sits near the end.
+const LONG_TEXT = `${'The caravan crossed another dune under a white sky.\n\n'.repeat(700)}At last Aria reached the drowned harbour.`;
+const LONG_TEXT_WORDS = LONG_TEXT.split(/\s+/).length;
+
+async function setupAuthenticatedUser(t: ReturnType<typeof convexTest>) {
+  const userId = await t.run(async (ctx) => {
+    return await ctx.db.insert('users', {
+      name: 'Test User',
+      email: 'test@example.com',
+      createdAt: Date.now(),
+    });
+  });
+
+  const asUser = t.withIdentity({ subject: userId });
+  return { userId, asUser };
+}
+
+async function setupProject(t: ReturnType<typeof convexTest>, userId: Id<'users'>) {
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('projects', {
+      userId,
+      name: 'Test Project',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      stats: { documentCount: 0, entityCount: 0, factCount: 0, alertCount: 0, noteCount: 0 },
+    });
+  });
+}
+
+async function insertStoredDocument(t: ReturnType<typeof convexTest>, projectId: Id<'projects'>) {
+  return await t.run(async (ctx) => {
+    const storageId = await ctx.storage.store(new Blob([LONG_TEXT], { type: 'text/plain' }));
+    const documentId = await ctx.db.insert('documents', {
+      projectId,
+      title: 'The Crossing',
+      // As left by replacing inline text with an upload too long to store inline.
+      content: '',
+      storageId,
+      contentType: 'file',
+      orderIndex: 0,
+      wordCount: 0,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      processingStatus: 'pending',
+    });
+    return { documentId, storageId };
+  });
+}
+
+async function listChunks(t: ReturnType<typeof convexTest>, documentId: Id<'documents'>) {
+  const chunks = await t.run(async (ctx) => ctx.db.query('documentChunks').collect());
+  return chunks
+    .filter((chunk) => chunk.documentId === documentId)
+    .toSorted((a, b) => a.index - b.index);
+}
+
+describe('documentChunks', () => {
+  // Finishing scheduled functions also runs the embedding sync that edits schedule.
+  beforeAll(() => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+  });
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('indexStoredContent action', () => {
+    it('indexes stored text for keyword search and counts its words', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const { documentId } = await insertStoredDocument(t, projectId);
+
+      const result = await t.action(internal.documentChunks.indexStoredContent, { documentId });
+
+      const chunks = await listChunks(t, documentId);
+      expect(result?.chunksIndexed).toBeGreaterThan(1);
+      expect(chunks).toHaveLength(result?.chunksIndexed ?? 0);
+      expect(chunks.at(-1)?.end).toBe(LONG_TEXT.length);
+      expect(LONG_TEXT.slice(chunks[1].start, chunks[1].end)).toBe(chunks[1].text);
+
+      const doc = await t.run(async (ctx) => ctx.db.get(documentId));
+      expect(doc?.wordCount).toBe(LONG_TEXT_WORDS);
+      expect(doc?.processingProgress).toBeUndefined();
+
+      const [match] = await asUser.query(api.search.canon, {
+        projectId,
+        query: 'harbour',
+        types: ['document'],
+      });
+      expect(match).toMatchObject({ type: 'document', id: documentId, title: 'The Crossing' });
+      expect(match.snippet.text).toContain('drowned harbour');
+    });
+
+    it('replaces the previous index and skips documents with inline text', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const { documentId } = await insertStoredDocument(t, projectId);
+
+      await t.action(internal.documentChunks.indexStoredContent, { documentId });
+      const first = await listChunks(t, documentId);
+      await t.action(internal.documentChunks.indexStoredContent, { documentId });
+      expect(await listChunks(t, documentId)).toHaveLength(first.length);
+
+      await t.run(async (ctx) => ctx.db.patch(documentId, { content: 'Short inline text.' }));
+      expect(await t.action(internal.documentChunks.indexStoredContent, { documentId })).toBeNull();
+    });
+  });
+
+  describe('document lifecycle', () => {
+    it('indexes a document created from a file alone', async () => {
+      vi.useFakeTimers();
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const storageId = await t.run(async (ctx) =>
+        ctx.storage.store(new Blob([LONG_TEXT], { type: 'text/plain' }))
+      );
+
+      const documentId = await asUser.mutation(api.documents.create, {
+        projectId,
+        title: 'The Crossing',
+        storageId,
+        contentType: 'file',
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const doc = await t.run(async (ctx) => ctx.db.get(documentId));
+      expect(doc?.wordCount).toBe(LONG_TEXT_WORDS);
+      expect((await listChunks(t, documentId)).length).toBeGreaterThan(1);
+    });
+
+    it('drops the index when the document gets inline text or is removed', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const first = await insertStoredDocument(t, projectId);
+      const second = await insertStoredDocument(t, projectId);
+      for (const { documentId } of [first, second]) {
+        await t.action(internal.documentChunks.indexStoredContent, { documentId });
+      }
+
+      await asUser.mutation(api.documents.update, {
+        id: first.documentId,
+        content: 'Now short enough to edit.',
+      });
+      await asUser.mutation(api.documents.remove, { id: second.documentId });
+
+      expect(await listChunks(t, first.documentId)).toEqual([]);
+      expect(await listChunks(t, second.documentId)).toEqual([]);
+    });
+  });
+});
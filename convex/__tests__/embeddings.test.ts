@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { scheduleEmbeddingSync } from '../embeddings';
+import {
+  type TestContext,
+  createTestContext,
+  setupAuthenticatedUser,
+  setupOtherUser,
+  setupProject,
+  setupDocument,
+  setupEntity,
+  setupFact,
+} from './entities/helpers';
+
+describe('embeddings', () => {
+  let t: ReturnType<typeof createTestContext>;
+  let asUser: ReturnType<TestContext['withIdentity']>;
+  let userId: Id<'users'>;
+  let projectId: Id<'projects'>;
+  let documentId: Id<'documents'>;
+  let kaelId: Id<'entities'>;
+
+  beforeAll(() => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+  });
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(async () => {
+    t = createTestContext();
+    const auth = await setupAuthenticatedUser(t);
+    asUser = auth.asUser;
+    userId = auth.userId;
+    projectId = await setupProject(t, userId);
+    documentId = await setupDocument(t, projectId);
+    kaelId = await setupEntity(t, projectId, {
+      name: 'Kael',
+      aliases: ['The Ashen Knight'],
+      status: 'confirmed',
+      description: 'A wandering knight from the ember coast who serves the ember throne',
+    });
+  });
+
+  async function listEmbeddings() {
+    return await t.run(async (ctx) => ctx.db.query('embeddings').collect());
+  }
+
+  async function syncEmbeddings() {
+    await t.run(async (ctx) => scheduleEmbeddingSync(ctx, projectId));
+    await t.action(internal.embeddings.runSync, { projectId });
+  }
+
+  describe('similarEntities', () => {
+    it('suggests near-duplicates that name matching misses', async () => {
+      const pendingId = await setupEntity(t, projectId, {
+        name: 'Ashen Knight',
+        aliases: ['Kael'],
+        status: 'pending',
+        description: 'A wandering knight from the ember coast who serves the ember throne',
+      });
+      await setupEntity(t, projectId, {
+        name: 'Harbour Guild',
+        status: 'confirmed',
+        description: 'Merchants who tax every ship in the bay',
+      });
+      await syncEmbeddings();
+
+      const similar = await asUser.action(api.embeddings.similarEntities, { entityId: pendingId });
+
+      expect(similar.map((entity) => entity._id)).toEqual([kaelId]);
+      expect(similar[0].similarity).toBeGreaterThan(0.8);
+    });
+
+    it('returns nothing to users without access', async () => {
+      const otherId = await setupOtherUser(t);
+      const asOther = t.withIdentity({ subject: otherId });
+      await syncEmbeddings();
+
+      expect(await asOther.action(api.embeddings.similarEntities, { entityId: kaelId })).toEqual(
+        []
+      );
+    });
+
+    it('leaves entities out until the sync has embedded them', async () => {
+      expect(await asUser.action(api.embeddings.similarEntities, { entityId: kaelId })).toEqual([]);
+      expect(await listEmbeddings()).toHaveLength(0);
+    });
+  });
+
+  describe('relatedFacts', () => {
+    it('lists confirmed facts about other entities that read close to this one', async () => {
+      const throneId = await setupEntity(t, projectId, {
+        name: 'Ember Throne',
+        status: 'confirmed',
+      });
+      await setupFact(
+        t,
+        { projectId, entityId: throneId, documentId },
+        {
+          predicate: 'served_by',
+          object: 'a wandering knight of the ember coast',
+          status: 'confirmed',
+        }
+      );
+      await setupFact(
+        t,
+        { projectId, entityId: throneId, documentId },
+        { predicate: 'served_by', object: 'an ember knight', status: 'pending' }
+      );
+      await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'origin', object: 'the ember coast', status: 'confirmed' }
+      );
+      await syncEmbeddings();
+
+      const related = await asUser.action(api.embeddings.relatedFacts, { entityId: kaelId });
+
+      expect(related).toEqual([
+        expect.objectContaining({
+          entityId: throneId,
+          entityName: 'Ember Throne',
+          object: 'a wandering knight of the ember coast',
+        }),
+      ]);
+    });
+  });
+
+  describe('background sync', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('embeds edits once the scheduled sync runs', async () => {
+      vi.useFakeTimers();
+      await asUser.mutation(api.entities.update, {
+        id: kaelId,
+        description: 'A knight of the ember coast',
+      });
+      expect(await listEmbeddings()).toHaveLength(0);
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const embedded = await listEmbeddings();
+      expect(embedded.map((row) => row.sourceId).toSorted()).toEqual(
+        [documentId, kaelId].toSorted()
+      );
+      const syncs = await t.run(async (ctx) => ctx.db.query('embeddingSyncs').collect());
+      expect(syncs).toEqual([]);
+    });
+
+    it('pages through every record and drops embeddings of deleted ones', async () => {
+      const factIds: Id<'facts'>[] = [];
+      for (let i = 0; i < 150; i++) {
+        factIds.push(
+          await setupFact(
+            t,
+            { projectId, entityId: kaelId, documentId },
+            { predicate: 'records', object: `harbour tax receipt ${i}` }
+          )
+        );
+      }
+      await syncEmbeddings();
+      expect((await listEmbeddings()).filter((row) => row.sourceType === 'fact')).toHaveLength(150);
+
+      await t.run(async (ctx) => ctx.db.delete(factIds[0]));
+      await syncEmbeddings();
+
+      const embedded = await listEmbeddings();
+      expect(embedded.map((row) => row.sourceId)).not.toContain(factIds[0]);
+      const vectors = await t.run(async (ctx) => ctx.db.query('embeddingVectors').collect());
+      expect(vectors).toHaveLength(embedded.length);
+    });
+
+    it('runs another pass when an edit lands during one', async () => {
+      await t.run(async (ctx) => scheduleEmbeddingSync(ctx, projectId));
+      await t.mutation(internal.embeddings.startSync, { projectId });
+      await t.run(async (ctx) => scheduleEmbeddingSync(ctx, projectId));
+      await t.run(async (ctx) => {
+        const sync = await ctx.db.query('embeddingSyncs').unique();
+        await ctx.db.patch(sync!._id, { stage: 'orphans' });
+      });
+
+      const next = await t.mutation(internal.embeddings.finishPage, {
+        projectId,
+        provider: 'local-1536',
+        items: [],
+        removeIds: [],
+        stage: 'orphans',
+        cursor: null,
+        continueCursor: '',
+        isDone: true,
+      });
+
+      expect(next).toEqual({ stage: 'document', cursor: null });
+      await t.action(internal.embeddings.runSync, { projectId });
+      expect(await listEmbeddings()).toHaveLength(2);
+      const syncs = await t.run(async (ctx) => ctx.db.query('embeddingSyncs').collect());
+      expect(syncs).toEqual([]);
+    });
+  });
+
+  describe('document chunks', () => {
+    it('embeds long documents in chunks and drops chunks that no longer exist', async () => {
+      const paragraph = 'The ember road winds north through the ash fields toward the city.\n\n';
+      const longId = await setupDocument(t, projectId, {
+        title: 'Long Chapter',
+        content: paragraph.repeat(80),
+      });
+
+      await syncEmbeddings();
+      const chunks = (await listEmbeddings()).filter((row) => row.sourceId === longId);
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.map((row) => row.chunk?.index ?? 0).toSorted((a, b) => a - b)).toEqual(
+        chunks.map((_, index) => index)
+      );
+
+      await t.run(async (ctx) => ctx.db.patch(longId, { content: paragraph }));
+      await syncEmbeddings();
+      const remaining = (await listEmbeddings()).filter((row) => row.sourceId === longId);
+      expect(remaining).toHaveLength(1);
+    });
+  });
+
+  describe('check retrieval', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('adds the canon closest to the document once canon is large', async () => {
+      vi.stubEnv('OPENROUTER_API_KEY', 'test-key');
+      vi.stubEnv('MODEL', 'test-model');
+      const checkedId = await setupDocument(t, projectId, {
+        title: 'Chapter 9',
+        content: 'Kael drew the ember blade his father forged on the ember coast.',
+      });
+      await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'carries', object: 'the ember blade his father forged', status: 'confirmed' }
+      );
+      const ledgerId = await setupEntity(t, projectId, { name: 'Ledger', status: 'confirmed' });
+      for (let i = 0; i < 70; i++) {
+        await setupFact(
+          t,
+          { projectId, entityId: ledgerId, documentId },
+          { predicate: 'records', object: `harbour tax receipt ${i}`, status: 'confirmed' }
+        );
+      }
+
+      await syncEmbeddings();
+
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        Response.json({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({
+                  alerts: [],
+                  summary: { totalIssues: 0, errors: 0, warnings: 0, checkedEntities: [] },
+                }),
+              },
+            },
+          ],
+        })
+      );
+
+      await t.action(internal.checks.runCheck, { documentId: checkedId });
+
+      const body = JSON.parse(fetchSpy.mock.calls[0][1]?.body as string);
+      const prompt: string = body.messages[0].content;
+      expect(prompt).toContain('carries the ember blade his father forged');
+      expect(prompt.match(/^- records /gm)).toHaveLength(60);
+    });
+
+    it('limits the context to the given facts', async () => {
+      const keptId = await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'origin', object: 'the ember coast', status: 'confirmed' }
+      );
+      await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'rank', object: 'knight', status: 'confirmed' }
+      );
+
+      const context = await t.query(internal.checks.getCanonContext, {
+        projectId,
+        factIds: [keptId],
+      });
+
+      expect(context.entities).toHaveLength(1);
+      expect(context.entities[0].facts.map((fact) => fact.id)).toEqual([keptId]);
+    });
+  });
+});
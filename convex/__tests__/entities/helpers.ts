@@ -193,6 +193,39 @@ export async function setupFact(
   });
 }
 
+type RelationshipOverrides = {
+  type?: string;
+  documentId?: Id<'documents'>;
+  status?: 'pending' | 'confirmed' | 'rejected';
+};
+
+export async function setupRelationship(
+  t: TestContext,
+  ids: {
+    projectId: Id<'projects'>;
+    sourceEntityId: Id<'entities'>;
+    targetEntityId: Id<'entities'>;
+  },
+  overrides: RelationshipOverrides = {}
+) {
+  const { type = 'knows', documentId, status = 'confirmed' } = overrides;
+
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('relationships', {
+      projectId: ids.projectId,
+      sourceEntityId: ids.sourceEntityId,
+      targetEntityId: ids.targetEntityId,
+      type,
+      documentId,
+      confidence: 1.0,
+      evidenceSnippet: 'evidence text',
+      status,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  });
+}
+
 export async function setupProjectWithEntities(t: TestContext, userId: Id<'users'>) {
   const projectId = await setupProject(t, userId);
   const documentId = await setupDocument(t, projectId);
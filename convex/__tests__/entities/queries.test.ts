@@ -9,6 +9,7 @@ import {
   setupDocument,
   setupEntity,
   setupFact,
+  setupRelationship,
   setupProjectWithEntities,
   setupOtherUser,
 } from './helpers';
@@ -527,25 +528,25 @@ describe('entities queries', () => {
       expect(result).toBeNull();
     });
 
-    it('returns related entities based on fact object matching', async () => {
+    it('returns related entities from relationships in either direction', async () => {
       const projectId = await setupProject(t, userId);
-      const documentId = await setupDocument(t, projectId);
 
       const jonId = await setupEntity(t, projectId, { name: 'Jon Snow', status: 'confirmed' });
       const daenerysId = await setupEntity(t, projectId, { name: 'Daenerys', status: 'confirmed' });
-      await setupEntity(t, projectId, { name: 'Arya Stark', status: 'confirmed' });
+      const aryaId = await setupEntity(t, projectId, { name: 'Arya Stark', status: 'confirmed' });
+      const sansaId = await setupEntity(t, projectId, { name: 'Sansa Stark', status: 'confirmed' });
 
-      await setupFact(
+      await setupRelationship(t, { projectId, sourceEntityId: jonId, targetEntityId: daenerysId });
+      await setupRelationship(t, { projectId, sourceEntityId: aryaId, targetEntityId: jonId });
+      await setupRelationship(
         t,
-        { projectId, entityId: jonId, documentId },
-        { subject: 'Jon Snow', predicate: 'met', object: 'Daenerys', status: 'confirmed' }
+        { projectId, sourceEntityId: jonId, targetEntityId: sansaId },
+        { status: 'rejected' }
       );
 
       const result = await asUser.query(api.entities.getWithDetails, { id: jonId });
 
-      expect(result?.relatedEntities).toBeDefined();
-      expect(result?.relatedEntities).toHaveLength(1);
-      expect(result?.relatedEntities[0]._id).toBe(daenerysId);
+      expect(result?.relatedEntities.map((e) => e._id)).toEqual([aryaId, daenerysId]);
     });
   });
 
@@ -698,8 +699,7 @@ describe('entities queries', () => {
       expect(graph.edges).toHaveLength(0);
     });
 
-    it('returns nodes and edges when entities are connected via facts', async () => {
-      const doc = await setupDocument(t, projectId, { title: 'Chapter 1' });
+    it('returns nodes and edges for stored relationships', async () => {
       const aragorn = await setupEntity(t, projectId, {
         name: 'Aragorn',
         status: 'confirmed',
@@ -708,24 +708,21 @@ describe('entities queries', () => {
         name: 'Gandalf',
         status: 'confirmed',
       });
-
-      await setupFact(
+      const relationshipId = await setupRelationship(
         t,
-        { projectId, documentId: doc, entityId: aragorn },
-        { subject: 'Aragorn', predicate: 'allied_with', object: 'Gandalf the Grey' }
+        { projectId, sourceEntityId: aragorn, targetEntityId: gandalf },
+        { type: 'allied_with' }
       );
 
       const graph = await asUser.query(api.entities.getRelationshipGraph, { projectId });
 
       expect(graph.nodes).toHaveLength(2);
-      expect(graph.edges).toHaveLength(1);
-      expect(graph.edges[0].source).toBe(aragorn);
-      expect(graph.edges[0].target).toBe(gandalf);
-      expect(graph.edges[0].label).toBe('allied_with');
+      expect(graph.edges).toEqual([
+        { source: aragorn, target: gandalf, label: 'allied_with', relationshipId },
+      ]);
     });
 
     it('filters graph by entity when entityFilter provided', async () => {
-      const doc = await setupDocument(t, projectId, { title: 'Chapter 1' });
       const aragorn = await setupEntity(t, projectId, {
         name: 'Aragorn',
         status: 'confirmed',
@@ -739,15 +736,15 @@ describe('entities queries', () => {
         status: 'confirmed',
       });
 
-      await setupFact(
+      await setupRelationship(
         t,
-        { projectId, documentId: doc, entityId: aragorn },
-        { subject: 'Aragorn', predicate: 'allied_with', object: 'Gandalf the wizard' }
+        { projectId, sourceEntityId: aragorn, targetEntityId: gandalf },
+        { type: 'allied_with' }
       );
-      await setupFact(
+      await setupRelationship(
         t,
-        { projectId, documentId: doc, entityId: gandalf },
-        { subject: 'Gandalf', predicate: 'mentors', object: 'Frodo Baggins on his journey' }
+        { projectId, sourceEntityId: gandalf, targetEntityId: frodo },
+        { type: 'mentors' }
       );
 
       const graph = await asUser.query(api.entities.getRelationshipGraph, {
@@ -763,21 +760,25 @@ describe('entities queries', () => {
       expect(nodeIds).not.toContain(frodo);
     });
 
-    it('excludes pending entities from graph', async () => {
-      const doc = await setupDocument(t, projectId, { title: 'Chapter 1' });
+    it('excludes pending entities and rejected relationships from graph', async () => {
       const confirmed = await setupEntity(t, projectId, {
         name: 'Confirmed Character',
         status: 'confirmed',
       });
-      await setupEntity(t, projectId, {
+      const pending = await setupEntity(t, projectId, {
         name: 'Pending Character',
         status: 'pending',
       });
+      const other = await setupEntity(t, projectId, {
+        name: 'Other Character',
+        status: 'confirmed',
+      });
 
-      await setupFact(
+      await setupRelationship(t, { projectId, sourceEntityId: confirmed, targetEntityId: pending });
+      await setupRelationship(
         t,
-        { projectId, documentId: doc, entityId: confirmed },
-        { subject: 'Confirmed Character', predicate: 'knows', object: 'Pending Character well' }
+        { projectId, sourceEntityId: confirmed, targetEntityId: other },
+        { status: 'rejected' }
       );
 
       const graph = await asUser.query(api.entities.getRelationshipGraph, { projectId });
@@ -798,27 +799,76 @@ describe('entities queries', () => {
       expect(graph.edges).toEqual([]);
     });
 
-    it('uses word boundary matching to avoid false positives', async () => {
+    it('does not infer edges from fact objects', async () => {
       const doc = await setupDocument(t, projectId, { title: 'Chapter 1' });
       const dan = await setupEntity(t, projectId, {
         name: 'Dan',
         status: 'confirmed',
       });
-      await setupEntity(t, projectId, {
-        name: 'Dancer',
+      const eve = await setupEntity(t, projectId, {
+        name: 'Eve',
         status: 'confirmed',
       });
 
       await setupFact(
         t,
         { projectId, documentId: doc, entityId: dan },
-        { subject: 'Dan', predicate: 'enjoys', object: 'dancing in the moonlight' }
+        { subject: 'Dan', predicate: 'loves', object: 'Eve', status: 'confirmed' }
       );
 
-      const graph = await asUser.query(api.entities.getRelationshipGraph, { projectId });
-
-      expect(graph.nodes).toHaveLength(0);
+      let graph = await asUser.query(api.entities.getRelationshipGraph, { projectId });
       expect(graph.edges).toHaveLength(0);
+
+      await setupRelationship(
+        t,
+        { projectId, sourceEntityId: dan, targetEntityId: eve },
+        { type: 'loves' }
+      );
+
+      graph = await asUser.query(api.entities.getRelationshipGraph, { projectId });
+      expect(graph.nodes.map((n) => n.name).toSorted()).toEqual(['Dan', 'Eve']);
+    });
+  });
+
+  describe('getTimeline', () => {
+    let t: TestContext;
+    let userId: Id<'users'>;
+    let asUser: ReturnType<TestContext['withIdentity']>;
+    let projectId: Id<'projects'>;
+
+    beforeEach(async () => {
+      t = createTestContext();
+      const auth = await setupAuthenticatedUser(t);
+      userId = auth.userId;
+      asUser = auth.asUser;
+      projectId = await setupProject(t, userId);
+    });
+
+    it('lists entities involved in an event through relationships', async () => {
+      const siege = await setupEntity(t, projectId, {
+        name: 'Siege of Ashfall',
+        type: 'event',
+        status: 'confirmed',
+      });
+      const mira = await setupEntity(t, projectId, { name: 'Mira', status: 'confirmed' });
+      await setupEntity(t, projectId, { name: 'Aldric', status: 'confirmed' });
+
+      await setupRelationship(
+        t,
+        { projectId, sourceEntityId: mira, targetEntityId: siege },
+        { type: 'fought_in' }
+      );
+
+      const timeline = await asUser.query(api.entities.getTimeline, { projectId });
+
+      expect(timeline.events).toHaveLength(1);
+      expect(timeline.events[0].involvedEntities.map((e) => e.name)).toEqual(['Mira']);
+
+      const filtered = await asUser.query(api.entities.getTimeline, {
+        projectId,
+        entityFilter: mira,
+      });
+      expect(filtered.events.map((e) => e._id)).toEqual([siege]);
     });
   });
 });
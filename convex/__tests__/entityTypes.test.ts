@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { normalizeEntityType } from '../llm/extract';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+import {
+  type TestContext,
+  createTestContext,
+  setupAuthenticatedUser,
+  setupProject,
+  setupEntity,
+  setupOtherUser,
+} from './entities/helpers';
+
+describe('entityTypes', () => {
+  let t: TestContext;
+  let userId: Id<'users'>;
+  let asUser: ReturnType<TestContext['withIdentity']>;
+  let projectId: Id<'projects'>;
+
+  const faction = {
+    name: '  Faction ',
+    icon: 'flag',
+    color: '#A855F7',
+    description: 'Organizations with shared goals',
+    baseType: 'concept' as const,
+  };
+
+  beforeEach(async () => {
+    t = createTestContext();
+    const auth = await setupAuthenticatedUser(t);
+    userId = auth.userId;
+    asUser = auth.asUser;
+    projectId = await setupProject(t, userId);
+  });
+
+  describe('create', () => {
+    it('creates a type with a normalized name and color', async () => {
+      await asUser.mutation(api.entityTypes.create, { projectId, ...faction });
+
+      const types = await asUser.query(api.entityTypes.list, { projectId });
+      expect(types).toHaveLength(1);
+      expect(types[0]).toMatchObject({ name: 'Faction', color: '#a855f7', baseType: 'concept' });
+    });
+
+    it('rejects built-in and duplicate names', async () => {
+      await asUser.mutation(api.entityTypes.create, { projectId, ...faction });
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.entityTypes.create, { projectId, ...faction, name: 'faction' }),
+        'conflict'
+      );
+      await expectConvexErrorCode(
+        asUser.mutation(api.entityTypes.create, { projectId, ...faction, name: 'Character' }),
+        'conflict'
+      );
+    });
+
+    it('rejects unknown icons and malformed colors', async () => {
+      await expectConvexErrorCode(
+        asUser.mutation(api.entityTypes.create, { projectId, ...faction, icon: 'rocket' }),
+        'validation'
+      );
+      await expectConvexErrorCode(
+        asUser.mutation(api.entityTypes.create, { projectId, ...faction, color: 'purple' }),
+        'validation'
+      );
+    });
+
+    it('requires edit access to the project', async () => {
+      const otherUserId = await setupOtherUser(t);
+      const asOther = t.withIdentity({ subject: otherUserId });
+
+      await expectConvexErrorCode(
+        asOther.mutation(api.entityTypes.create, { projectId, ...faction }),
+        'unauthorized'
+      );
+      expect(await asOther.query(api.entityTypes.list, { projectId })).toEqual([]);
+    });
+  });
+
+  describe('entities', () => {
+    it('stores entities under the base type of their custom type', async () => {
+      const typeId = await asUser.mutation(api.entityTypes.create, { projectId, ...faction });
+
+      const entityId = await asUser.mutation(api.entities.create, {
+        projectId,
+        name: 'The Night Watch',
+        type: 'character',
+        customTypeId: typeId,
+      });
+
+      const entity = await t.run(async (ctx) => ctx.db.get(entityId));
+      expect(entity?.type).toBe('concept');
+      expect(entity?.customTypeId).toBe(typeId);
+
+      await asUser.mutation(api.entities.update, { id: entityId, customTypeId: null });
+      const cleared = await t.run(async (ctx) => ctx.db.get(entityId));
+      expect(cleared?.customTypeId).toBeUndefined();
+    });
+
+    it('rejects custom types from another project', async () => {
+      const otherProjectId = await setupProject(t, userId, { name: 'Other' });
+      const typeId = await asUser.mutation(api.entityTypes.create, {
+        projectId: otherProjectId,
+        ...faction,
+      });
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.entities.create, {
+          projectId,
+          name: 'The Night Watch',
+          type: 'concept',
+          customTypeId: typeId,
+        }),
+        'not_found'
+      );
+    });
+
+    it('keeps entities in sync when the base type changes and on delete', async () => {
+      const typeId = await asUser.mutation(api.entityTypes.create, { projectId, ...faction });
+      const entityId = await setupEntity(t, projectId, {
+        name: 'The Night Watch',
+        type: 'concept',
+      });
+      await t.run(async (ctx) => ctx.db.patch(entityId, { customTypeId: typeId }));
+
+      await asUser.mutation(api.entityTypes.update, { id: typeId, baseType: 'location' });
+      expect((await t.run(async (ctx) => ctx.db.get(entityId)))?.type).toBe('location');
+
+      await asUser.mutation(api.entityTypes.remove, { id: typeId });
+      const entity = await t.run(async (ctx) => ctx.db.get(entityId));
+      expect(entity?.type).toBe('location');
+      expect(entity?.customTypeId).toBeUndefined();
+    });
+  });
+
+  describe('export', () => {
+    it('groups entities under their custom type', async () => {
+      const typeId = await asUser.mutation(api.entityTypes.create, { projectId, ...faction });
+      await asUser.mutation(api.entities.create, {
+        projectId,
+        name: 'The Night Watch',
+        type: 'concept',
+        customTypeId: typeId,
+        status: 'confirmed',
+      });
+
+      const markdown = await asUser.action(api.export.exportProject, {
+        projectId,
+        format: 'markdown',
+      });
+
+      expect(markdown).toContain('### Faction\n\n#### The Night Watch');
+      expect(markdown).not.toContain('### Concepts');
+    });
+  });
+});
+
+describe('normalizeEntityType', () => {
+  const customTypes = [{ name: 'Faction', baseType: 'concept' as const }];
+
+  it('maps custom type names to their base type', () => {
+    expect(normalizeEntityType('faction', customTypes)).toEqual({
+      type: 'concept',
+      customType: 'Faction',
+    });
+  });
+
+  it('prefers built-in types and falls back to the alias map', () => {
+    expect(normalizeEntityType('Character', customTypes)).toEqual({ type: 'character' });
+    expect(normalizeEntityType('place', customTypes)).toEqual({ type: 'location' });
+    expect(normalizeEntityType('faction')).toEqual({ type: 'concept' });
+  });
+});
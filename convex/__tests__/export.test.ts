@@ -1,4 +1,5 @@
 import { convexTest } from 'convex-test';
+import { strFromU8, unzipSync } from 'fflate';
 import { describe, it, expect } from 'vitest';
 import { api } from '../_generated/api';
 import schema from '../schema';
@@ -280,4 +281,141 @@ describe('export', () => {
       expect(result!.documents[0].content).toBeUndefined();
     });
   });
+
+  describe('exportWikiSite', () => {
+    function unzipSite(zip: ArrayBuffer) {
+      const files = unzipSync(new Uint8Array(zip));
+      return Object.fromEntries(
+        Object.entries(files).map(([path, content]) => [path, strFromU8(content)])
+      );
+    }
+
+    it('builds linked pages for entities, types, documents, timeline and graph', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const { projectId, entityId } = await createProjectWithData(t, userId);
+      await t.run(async (ctx) => {
+        const rivendell = await ctx.db
+          .query('entities')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .filter((q) => q.eq(q.field('name'), 'Rivendell'))
+          .first();
+        await ctx.db.insert('relationships', {
+          projectId,
+          sourceEntityId: entityId,
+          targetEntityId: rivendell!._id,
+          type: 'visits',
+          confidence: 1,
+          status: 'confirmed',
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+      });
+
+      const zip = await asUser.action(api.export.exportWikiSite, { projectId });
+      const site = unzipSite(zip!);
+
+      expect(Object.keys(site).toSorted((a, b) => a.localeCompare(b))).toEqual([
+        'test-world-wiki/documents.html',
+        'test-world-wiki/documents/chapter-1.html',
+        'test-world-wiki/entities/aragorn.html',
+        'test-world-wiki/entities/rivendell.html',
+        'test-world-wiki/graph.html',
+        'test-world-wiki/index.html',
+        'test-world-wiki/style.css',
+        'test-world-wiki/timeline.html',
+        'test-world-wiki/types/characters.html',
+        'test-world-wiki/types/locations.html',
+      ]);
+      const aragorn = site['test-world-wiki/entities/aragorn.html'];
+      expect(aragorn).toContain('Also known as Strider');
+      expect(aragorn).toContain('The ranger walked through the forest.');
+      expect(aragorn).toContain('href="../documents/chapter-1.html"');
+      expect(aragorn).toContain('href="../entities/rivendell.html"');
+      expect(site['test-world-wiki/graph.html']).toContain('href="entities/aragorn.html"');
+    });
+
+    it('leaves unrevealed canon out of the player edition', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await t.run(async (ctx) => {
+        const now = Date.now();
+        const projectId = await ctx.db.insert('projects', {
+          userId,
+          name: 'Campaign',
+          projectType: 'ttrpg',
+          createdAt: now,
+          updatedAt: now,
+          stats: { documentCount: 2, entityCount: 3, factCount: 0, alertCount: 0, noteCount: 0 },
+        });
+        const gmNotes = await ctx.db.insert('documents', {
+          projectId,
+          title: 'GM Notes',
+          content: 'The duke is the villain.',
+          contentType: 'text',
+          orderIndex: 0,
+          wordCount: 5,
+          revealedToViewers: false,
+          createdAt: now,
+          updatedAt: now,
+          processingStatus: 'completed',
+        });
+        await ctx.db.insert('documents', {
+          projectId,
+          title: 'Session 1',
+          content: 'The party meets the duke.',
+          contentType: 'text',
+          orderIndex: 1,
+          wordCount: 5,
+          createdAt: now,
+          updatedAt: now,
+          processingStatus: 'completed',
+        });
+        const entity = (name: string, revealed: boolean) =>
+          ctx.db.insert('entities', {
+            projectId,
+            name,
+            type: 'character',
+            aliases: [],
+            status: 'confirmed',
+            revealedToViewers: revealed,
+            createdAt: now,
+            updatedAt: now,
+          });
+        const duke = await entity('Duke', true);
+        const party = await entity('Party', true);
+        const spy = await entity('Spy', false);
+        const relate = (source: typeof duke, target: typeof duke, documentId?: typeof gmNotes) =>
+          ctx.db.insert('relationships', {
+            projectId,
+            sourceEntityId: source,
+            targetEntityId: target,
+            type: 'plots against',
+            documentId,
+            confidence: 1,
+            status: 'confirmed',
+            createdAt: now,
+            updatedAt: now,
+          });
+        await relate(duke, party, gmNotes);
+        await relate(spy, duke);
+        return projectId;
+      });
+
+      const zip = await asUser.action(api.export.exportWikiSite, {
+        projectId,
+        includeUnrevealed: false,
+      });
+      const site = unzipSite(zip!);
+      const pages = Object.keys(site);
+
+      expect(pages).toContain('campaign-wiki/entities/duke.html');
+      expect(pages).not.toContain('campaign-wiki/entities/spy.html');
+      expect(pages).not.toContain('campaign-wiki/documents/gm-notes.html');
+      expect(site['campaign-wiki/documents/session-1.html']).toContain('has not been revealed');
+      expect(site['campaign-wiki/entities/duke.html']).not.toContain('plots against');
+      expect(site['campaign-wiki/index.html']).toContain('Player edition');
+      expect(Object.values(site).join('')).not.toContain('villain');
+    });
+  });
 });
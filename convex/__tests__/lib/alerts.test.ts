@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import type { Id } from '../../_generated/dataModel';
+import {
+  describeAlertRule,
+  fingerprintAlert,
+  normalizeEvidence,
+  type AlertDraft,
+} from '../../lib/alerts';
+
+const draft = (overrides: Partial<AlertDraft> = {}): AlertDraft => ({
+  projectId: 'project' as Id<'projects'>,
+  documentId: 'document' as Id<'documents'>,
+  rule: 'fact:eye_color',
+  type: 'contradiction',
+  severity: 'error',
+  title: 'Marcus: conflicting eye color',
+  description: 'Canon says blue.',
+  factIds: ['fact1', 'fact2'] as Id<'facts'>[],
+  entityIds: ['marcus'] as Id<'entities'>[],
+  evidence: [
+    {
+      snippet: 'His eyes were blue.',
+      documentId: 'document' as Id<'documents'>,
+      documentTitle: 'A',
+    },
+  ],
+  ...overrides,
+});
+
+describe('normalizeEvidence', () => {
+  it('ignores case, punctuation and spacing', () => {
+    expect(normalizeEvidence('  "His eyes  were BLUE!" ')).toBe('his eyes were blue');
+    expect(normalizeEvidence('Ærin’s café')).toBe('ærins café');
+  });
+});
+
+describe('fingerprintAlert', () => {
+  it('matches re-checks that reword the description or reformat the evidence', async () => {
+    const original = await fingerprintAlert(draft());
+    const rechecked = await fingerprintAlert(
+      draft({
+        description: 'Canon says the eyes are blue.',
+        factIds: ['fact2', 'fact1'] as Id<'facts'>[],
+        evidence: [
+          {
+            snippet: 'his eyes were blue',
+            documentId: 'document' as Id<'documents'>,
+            documentTitle: 'B',
+          },
+        ],
+      })
+    );
+
+    expect(rechecked).toBe(original);
+  });
+
+  it('separates alerts with different rules, facts or entities', async () => {
+    const original = await fingerprintAlert(draft());
+
+    expect(await fingerprintAlert(draft({ rule: 'fact:age' }))).not.toBe(original);
+    expect(await fingerprintAlert(draft({ factIds: ['fact1'] as Id<'facts'>[] }))).not.toBe(
+      original
+    );
+    expect(
+      await fingerprintAlert(draft({ entityIds: ['marcus', 'elara'] as Id<'entities'>[] }))
+    ).not.toBe(original);
+  });
+  it('identifies model alerts by their evidence whatever canon was sent', async () => {
+    const modelAlert = draft({ rule: 'model:contradiction' });
+
+    expect(await fingerprintAlert({ ...modelAlert, factIds: ['fact3'] as Id<'facts'>[] })).toBe(
+      await fingerprintAlert(modelAlert)
+    );
+  });
+});
+
+describe('describeAlertRule', () => {
+  it('labels each kind of rule', () => {
+    expect(describeAlertRule('fact:eye_color')).toBe('Conflicting eye color');
+    expect(describeAlertRule('attribute:date_of_birth')).toBe(
+      'Conflicting date of birth attribute'
+    );
+    expect(describeAlertRule('timeline:death')).toBe('Appears after death');
+    expect(describeAlertRule('model:timeline')).toBe('Vellum timeline check');
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { compareCheckRuns, type CheckIssue } from '../../lib/checkRuns';
+
+const issue = (title: string): CheckIssue => ({ type: 'contradiction', severity: 'error', title });
+const summary = (checkedEntities: string[]) => ({
+  totalIssues: 0,
+  errors: 0,
+  warnings: 0,
+  checkedEntities,
+});
+
+describe('compareCheckRuns', () => {
+  it('splits issues into new, resolved and unchanged by title', () => {
+    const comparison = compareCheckRuns(
+      { issues: [issue('Eye colour'), issue('Birthplace')] },
+      { issues: [issue('Birthplace'), issue('Age')] }
+    );
+
+    expect(comparison.added).toEqual([issue('Age')]);
+    expect(comparison.resolved).toEqual([issue('Eye colour')]);
+    expect(comparison.unchanged).toEqual([issue('Birthplace')]);
+  });
+
+  it('reports which canon entities entered or left the check', () => {
+    const comparison = compareCheckRuns(
+      { summary: summary(['Kael', 'Elira']) },
+      { summary: summary(['Kael', 'Thorne']) }
+    );
+
+    expect(comparison.addedEntities).toEqual(['Thorne']);
+    expect(comparison.droppedEntities).toEqual(['Elira']);
+  });
+});
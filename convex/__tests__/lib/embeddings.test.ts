@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  EMBEDDING_DIMENSIONS,
+  cosineSimilarity,
+  createOpenRouterEmbeddingProvider,
+  getEmbeddingProvider,
+  localEmbedding,
+} from '../../lib/embeddings';
+
+describe('embedding providers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe('localEmbedding', () => {
+    it('is deterministic and ranks shared words closer', () => {
+      const knight = localEmbedding('a wandering knight');
+
+      expect(knight).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(localEmbedding('a wandering knight')).toEqual(knight);
+      expect(cosineSimilarity(knight, localEmbedding('wandering knights'))).toBeGreaterThan(
+        cosineSimilarity(knight, localEmbedding('harbour taxes'))
+      );
+    });
+  });
+
+  describe('OpenRouter provider', () => {
+    it('requests fixed-size vectors and returns them in input order', async () => {
+      const first = Array.from<number>({ length: EMBEDDING_DIMENSIONS }).fill(1);
+      const second = Array.from<number>({ length: EMBEDDING_DIMENSIONS }).fill(2);
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        Response.json({
+          data: [
+            { index: 1, embedding: second },
+            { index: 0, embedding: first },
+          ],
+        })
+      );
+
+      const provider = createOpenRouterEmbeddingProvider('test-key', 'test/embedder');
+      const vectors = await provider.embed(['one', 'two']);
+
+      expect(vectors).toEqual([first, second]);
+      expect(provider.name).toBe('openrouter:test/embedder');
+      const [url, init] = fetchSpy.mock.calls[0];
+      expect(url).toBe('https://openrouter.ai/api/v1/embeddings');
+      expect(JSON.parse(init?.body as string)).toEqual({
+        model: 'test/embedder',
+        input: ['one', 'two'],
+        dimensions: EMBEDDING_DIMENSIONS,
+      });
+    });
+
+    it('rejects vectors of the wrong size', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        Response.json({ data: [{ index: 0, embedding: [0.1, 0.2] }] })
+      );
+
+      const provider = createOpenRouterEmbeddingProvider('test-key');
+      await expect(provider.embed(['one'])).rejects.toThrow(/Invalid embedding response/);
+    });
+  });
+
+  describe('getEmbeddingProvider', () => {
+    it('defaults to OpenRouter and needs an API key', () => {
+      vi.stubEnv('EMBEDDING_PROVIDER', undefined);
+      vi.stubEnv('OPENROUTER_API_KEY', undefined);
+      expect(() => getEmbeddingProvider()).toThrow(/OPENROUTER_API_KEY not configured/);
+
+      vi.stubEnv('OPENROUTER_API_KEY', 'test-key');
+      expect(getEmbeddingProvider().name).toBe('openrouter:openai/text-embedding-3-small');
+
+      vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+      expect(getEmbeddingProvider().name).toBe(`local-${EMBEDDING_DIMENSIONS}`);
+    });
+  });
+});
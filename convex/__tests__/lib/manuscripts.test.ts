@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import {
+  detectManuscriptFormat,
+  docxToMarkdown,
+  epubToMarkdown,
+  htmlToMarkdown,
+  pdfToMarkdown,
+  splitIntoChapters,
+} from '../../lib/manuscripts';
+import { expectConvexErrorCode } from '../../../tests/convex/testUtils';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function buildDocx(body: string, styles?: string): Uint8Array {
+  return zipSync({
+    '[Content_Types].xml': strToU8('<Types/>'),
+    'word/document.xml': strToU8(`<w:document ${W_NS}><w:body>${body}</w:body></w:document>`),
+    ...(styles && { 'word/styles.xml': strToU8(`<w:styles ${W_NS}>${styles}</w:styles>`) }),
+  });
+}
+
+function buildEpub(chapters: Record<string, string>, spine: string[]): Uint8Array {
+  const manifest = Object.keys(chapters)
+    .map(
+      (name) => `<item id="${name}" href="text/${name}.xhtml" media-type="application/xhtml+xml"/>`
+    )
+    .join('');
+  const itemrefs = spine.map((name) => `<itemref idref="${name}"/>`).join('');
+  return zipSync({
+    mimetype: strToU8('application/epub+zip'),
+    'META-INF/container.xml': strToU8(
+      '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>'
+    ),
+    'OEBPS/content.opf': strToU8(
+      `<package><manifest><item id="nav" href="nav.xhtml" properties="nav"/>${manifest}</manifest><spine><itemref idref="nav"/>${itemrefs}</spine></package>`
+    ),
+    'OEBPS/nav.xhtml': strToU8('<html><body><p>Contents</p></body></html>'),
+    ...Object.fromEntries(
+      Object.entries(chapters).map(([name, html]) => [
+        `OEBPS/text/${name}.xhtml`,
+        strToU8(`<html><head><title>${name}</title></head><body>${html}</body></html>`),
+      ])
+    ),
+  });
+}
+
+/** A one-page PDF with uncompressed text operators and a correct xref table. */
+function buildPdf(lines: string[]): Uint8Array {
+  const stream = lines
+    .map((line, index) => `BT /F1 12 Tf 72 ${720 - index * 16} Td (${line}) Tj ET`)
+    .join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return strToU8(pdf);
+}
+
+describe('detectManuscriptFormat', () => {
+  it('prefers the file extension and falls back to the MIME type', () => {
+    expect(detectManuscriptFormat('Draft.DOCX')).toBe('docx');
+    expect(detectManuscriptFormat('book.epub', 'application/octet-stream')).toBe('epub');
+    expect(detectManuscriptFormat('page.htm')).toBe('html');
+    expect(detectManuscriptFormat('scan', 'application/pdf')).toBe('pdf');
+    expect(detectManuscriptFormat('notes.txt', 'text/plain')).toBeNull();
+  });
+});
+
+describe('htmlToMarkdown', () => {
+  it('converts headings, emphasis, breaks and lists', () => {
+    const markdown = htmlToMarkdown(`
+      <html><head><title>Ignored</title><style>p { color: red }</style></head>
+      <body>
+        <h1>Chapter One</h1>
+        <p>Aria drew her <em>sword</em> &amp; <strong> waited</strong>.</p>
+        <p>Line one<br/>line two</p>
+        <hr/>
+        <ul><li>Bram</li><li>Cass</li></ul>
+        <blockquote><p>Old words</p></blockquote>
+      </body></html>`);
+
+    expect(markdown).toBe(
+      [
+        '# Chapter One',
+        'Aria drew her *sword* & **waited**.',
+        'Line one  \nline two',
+        '***',
+        '- Bram',
+        '- Cass',
+        '> Old words',
+      ].join('\n\n')
+    );
+  });
+
+  it('numbers ordered lists and decodes numeric entities', () => {
+    expect(htmlToMarkdown('<ol><li>First</li><li>Caf&#233; &#x2014; later</li></ol>')).toBe(
+      '1. First\n\n2. Café — later'
+    );
+  });
+});
+
+describe('docxToMarkdown', () => {
+  it('maps heading styles and run formatting to markdown', () => {
+    const styles =
+      '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>' +
+      '<w:style w:type="paragraph" w:styleId="Berschrift2"><w:name w:val="heading 2"/></w:style>';
+    const body =
+      '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Part One</w:t></w:r></w:p>' +
+      '<w:p><w:pPr><w:pStyle w:val="Berschrift2"/></w:pPr><w:r><w:t>The Gate</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t xml:space="preserve">Aria drew her </w:t></w:r>' +
+      '<w:r><w:rPr><w:i/></w:rPr><w:t>old </w:t></w:r>' +
+      '<w:r><w:rPr><w:i/></w:rPr><w:t>sword</w:t></w:r>' +
+      '<w:r><w:rPr><w:b w:val="0"/></w:rPr><w:t>.</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t>* * *</w:t></w:r></w:p>' +
+      '<w:p/>' +
+      '<w:p><w:r><w:t>Bram</w:t><w:br/><w:t>fled.</w:t></w:r></w:p>';
+
+    expect(docxToMarkdown(buildDocx(body, styles))).toBe(
+      ['# Part One', '## The Gate', 'Aria drew her *old sword*.', '***', 'Bram  \nfled.'].join(
+        '\n\n'
+      )
+    );
+  });
+
+  it('rejects archives without a document part', async () => {
+    await expectConvexErrorCode(
+      () => docxToMarkdown(zipSync({ 'other.xml': strToU8('<x/>') })),
+      'validation'
+    );
+  });
+});
+
+describe('epubToMarkdown', () => {
+  it('reads chapters in spine order and skips the navigation document', () => {
+    const epub = buildEpub(
+      {
+        two: '<h1>Chapter Two</h1><p>Later.</p>',
+        one: '<h1>Chapter One</h1><p>First.</p>',
+      },
+      ['one', 'two']
+    );
+
+    expect(epubToMarkdown(epub)).toBe('# Chapter One\n\nFirst.\n\n# Chapter Two\n\nLater.');
+  });
+});
+
+describe('pdfToMarkdown', () => {
+  it('extracts the text layer into paragraphs and chapter headings', async () => {
+    const pdf = buildPdf([
+      'Chapter 1',
+      'Aria drew her sword and waited at the gate for the',
+      'signal.',
+      '1',
+    ]);
+
+    const markdown = await pdfToMarkdown(pdf);
+    expect(markdown).toBe(
+      '# Chapter 1\n\nAria drew her sword and waited at the gate for the signal.'
+    );
+  });
+});
+
+describe('splitIntoChapters', () => {
+  it('splits at the highest repeated heading level and keeps front matter', () => {
+    const markdown = '# The Book\n\n## Chapter *One*\n\nFirst.\n\n## Chapter Two\n\nSecond.';
+
+    expect(splitIntoChapters(markdown, 'Draft')).toEqual([
+      { title: 'Chapter One', content: '# The Book\n\n## Chapter *One*\n\nFirst.' },
+      { title: 'Chapter Two', content: '## Chapter Two\n\nSecond.' },
+    ]);
+  });
+
+  it('returns one chapter when no heading level repeats', () => {
+    expect(splitIntoChapters('# Only\n\nText.', 'Draft')).toEqual([
+      { title: 'Draft', content: '# Only\n\nText.' },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PROJECT_EXPORT_FORMAT,
+  PROJECT_EXPORT_VERSION,
+  nextImportBatch,
+  nextImportStage,
+  parseProjectExport,
+  type ProjectExport,
+} from '../../lib/projectExport';
+import { expectConvexErrorCode } from '../../../tests/convex/testUtils';
+
+function exportWith(overrides: Partial<ProjectExport> = {}): ProjectExport {
+  return {
+    format: PROJECT_EXPORT_FORMAT,
+    version: PROJECT_EXPORT_VERSION,
+    project: { name: 'Westmarch', exportedAt: '2026-01-01T00:00:00.000Z' },
+    documents: [],
+    entityTypes: [],
+    attributeTemplates: [],
+    entities: [],
+    calendars: [],
+    facts: [],
+    entityAttributes: [],
+    relationships: [],
+    notes: [],
+    entityNotes: [],
+    alerts: [],
+    alertSuppressions: [],
+    ...overrides,
+  };
+}
+
+const note = (id: string) => ({ id, title: id, content: 'Text', pinned: false });
+
+describe('parseProjectExport', () => {
+  it('reads the current version', () => {
+    const data = exportWith({ notes: [note('n1')] });
+    expect(parseProjectExport(JSON.stringify(data))).toEqual(data);
+  });
+
+  it('upgrades unversioned exports, linking facts and custom types by name', () => {
+    const data = parseProjectExport(
+      JSON.stringify({
+        project: { name: 'Old World', exportedAt: '2025-01-01T00:00:00.000Z' },
+        documents: [
+          {
+            title: 'Big File',
+            contentType: 'file',
+            wordCount: 9000,
+            processingStatus: 'completed',
+            content: '[file stored]',
+          },
+        ],
+        entityTypes: [{ name: 'Faction', icon: 'flag', color: '#fff', baseType: 'concept' }],
+        entities: [
+          {
+            name: 'Iron Guard',
+            type: 'concept',
+            customType: 'Faction',
+            aliases: [],
+            status: 'confirmed',
+          },
+        ],
+        facts: [
+          {
+            entityName: 'Iron Guard',
+            subject: 'Iron Guard',
+            predicate: 'guards',
+            object: 'the gate',
+            confidence: 1,
+            evidenceSnippet: 'They guard the gate.',
+            status: 'confirmed',
+          },
+        ],
+      })
+    );
+
+    expect(data.version).toBe(PROJECT_EXPORT_VERSION);
+    expect(data.documents[0]).toMatchObject({ id: 'document:0', storedFile: true });
+    expect(data.documents[0].content).toBeUndefined();
+    expect(data.entities[0]).toMatchObject({ id: 'entity:0', customTypeId: 'entityType:0' });
+    expect(data.facts[0]).toMatchObject({ id: 'fact:0', entityId: 'entity:0' });
+    expect(data.alerts).toEqual([]);
+  });
+
+  it('upgrades version 1 exports, which had no attributes or suppressions', () => {
+    const { attributeTemplates, entityAttributes, alertSuppressions, ...current } = exportWith({
+      notes: [note('n1')],
+    });
+    const data = parseProjectExport(JSON.stringify({ ...current, version: 1 }));
+
+    expect(data).toEqual({
+      ...current,
+      version: PROJECT_EXPORT_VERSION,
+      attributeTemplates,
+      entityAttributes,
+      alertSuppressions,
+    });
+  });
+
+  it('rejects newer versions, malformed records and repeated ids', async () => {
+    const invalid = [
+      'not json',
+      '[]',
+      JSON.stringify({ ...exportWith(), version: PROJECT_EXPORT_VERSION + 1 }),
+      JSON.stringify({ ...exportWith(), notes: [{ id: 'n1', title: 'No content' }] }),
+      JSON.stringify(exportWith({ notes: [note('n1'), note('n1')] })),
+    ];
+    for (const text of invalid) {
+      await expectConvexErrorCode(
+        Promise.resolve().then(() => parseProjectExport(text)),
+        'validation'
+      );
+    }
+  });
+});
+
+describe('import batches', () => {
+  it('splits a stage into bounded batches', () => {
+    const data = exportWith({ notes: Array.from({ length: 150 }, (_, i) => note(`n${i}`)) });
+    expect(nextImportBatch(data, 'notes', 0).records).toHaveLength(100);
+    expect(nextImportBatch(data, 'notes', 100).records).toHaveLength(50);
+  });
+
+  it('skips empty stages and ends with cleanup', () => {
+    const data = exportWith({ notes: [note('n1')] });
+    expect(nextImportStage(data, 'entityTypes')).toBe('notes');
+    expect(nextImportStage(data, 'notes')).toBe('cleanup');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { buildSnippet, scoreMatch, searchTerms } from '../../lib/search';
+
+describe('search helpers', () => {
+  describe('searchTerms', () => {
+    it('lowercases and dedupes words', () => {
+      expect(searchTerms('Ember  road, ember!')).toEqual(['ember', 'road']);
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('centres on the first match and trims with ellipses', () => {
+      const text = `${'filler '.repeat(60)}the ember road ${'filler '.repeat(60)}`;
+      const snippet = buildSnippet(text, ['ember'], 80);
+
+      expect(snippet.text.startsWith('…')).toBe(true);
+      expect(snippet.text.endsWith('…')).toBe(true);
+      const [highlight] = snippet.highlights;
+      expect(snippet.text.slice(highlight.start, highlight.end)).toBe('ember');
+    });
+
+    it('only matches at word starts', () => {
+      expect(buildSnippet('remember the ember', ['ember']).highlights).toEqual([
+        { start: 13, end: 18 },
+      ]);
+    });
+  });
+
+  describe('scoreMatch', () => {
+    it('weights terms by the best field they appear in', () => {
+      const fields = [
+        { text: 'Kael', weight: 3 },
+        { text: 'A knight of the coast', weight: 1 },
+      ];
+
+      expect(scoreMatch(fields, ['kael'])).toBe(3);
+      expect(scoreMatch(fields, ['kael', 'knight'])).toBe(2);
+      expect(scoreMatch(fields, ['dragon'])).toBe(0);
+    });
+
+    it('rewards the whole phrase', () => {
+      const fields = [{ text: 'the ember road', weight: 1 }];
+
+      expect(scoreMatch(fields, ['ember', 'road'])).toBe(2);
+      expect(scoreMatch(fields, ['road', 'ember'])).toBe(1);
+    });
+  });
+});
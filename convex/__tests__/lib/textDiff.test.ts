@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { changedRanges, diffText, mapRange, splitLines, splitParagraphs } from '../../lib/textDiff';
+
+describe('splitLines / splitParagraphs', () => {
+  it('keeps separators so tokens join back into the original text', () => {
+    const text = 'One.\nTwo.\n\n\nThree.';
+    expect(splitLines(text)).toEqual(['One.\n', 'Two.\n', '\n', '\n', 'Three.']);
+    expect(splitParagraphs(text)).toEqual(['One.\nTwo.\n\n\n', 'Three.']);
+    expect(splitLines('')).toEqual([]);
+  });
+});
+
+describe('diffText', () => {
+  it('reports equal and changed segments with offsets', () => {
+    const segments = diffText('a\nb\nc\n', 'a\nB\nc\nd\n');
+    expect(segments).toEqual([
+      { type: 'equal', before: 'a\n', after: 'a\n', beforeStart: 0, afterStart: 0 },
+      { type: 'change', before: 'b\n', after: 'B\n', beforeStart: 2, afterStart: 2 },
+      { type: 'equal', before: 'c\n', after: 'c\n', beforeStart: 4, afterStart: 4 },
+      { type: 'change', before: '', after: 'd\n', beforeStart: 6, afterStart: 6 },
+    ]);
+  });
+
+  it('returns a single equal segment for identical text', () => {
+    expect(diffText('same\n', 'same\n')).toEqual([
+      { type: 'equal', before: 'same\n', after: 'same\n', beforeStart: 0, afterStart: 0 },
+    ]);
+    expect(diffText('', '')).toEqual([]);
+  });
+});
+
+describe('changedRanges / mapRange', () => {
+  const before = 'Aria drew her sword.\n\nThe gate fell.\n\nBram fled north.';
+  const after = 'Aria drew her sword.\n\nThe old gate fell at dawn.\n\nBram fled north.';
+  const changes = changedRanges(diffText(before, after, splitParagraphs));
+
+  it('marks whole changed paragraphs', () => {
+    expect(changes).toHaveLength(1);
+    const [change] = changes;
+    expect(before.slice(change.beforeStart, change.beforeEnd)).toBe('The gate fell.\n\n');
+    expect(after.slice(change.afterStart, change.afterEnd)).toBe('The old gate fell at dawn.\n\n');
+  });
+
+  it('shifts ranges after a change and drops ranges inside one', () => {
+    const bram = { start: before.indexOf('Bram'), end: before.length };
+    const mapped = mapRange(bram, changes);
+    expect(mapped && after.slice(mapped.start, mapped.end)).toBe('Bram fled north.');
+
+    expect(mapRange({ start: 0, end: 20 }, changes)).toEqual({ start: 0, end: 20 });
+    expect(
+      mapRange({ start: before.indexOf('gate'), end: before.indexOf('gate') + 4 }, changes)
+    ).toBeNull();
+  });
+});
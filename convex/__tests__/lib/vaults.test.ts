@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import type { Id } from '../../_generated/dataModel';
+import {
+  bbcodeToMarkdown,
+  parseFrontmatter,
+  parseMarkdownNote,
+  planVaultImport,
+  readVaultArchive,
+  resolveNoteType,
+} from '../../lib/vaults';
+import { expectConvexErrorCode } from '../../../tests/convex/testUtils';
+
+const ARIA_NOTE = `---
+aliases: [The Grey Wanderer, "Ari"]
+tags:
+  - npc
+allies: "[[Bram Holt]]"
+---
+Aria travels with [[Bram Holt|Bram]] to [[Places/Ironhold#Gates]].
+
+![[aria.png]]`;
+
+describe('parseFrontmatter', () => {
+  it('reads scalars, inline lists and block lists as lists', () => {
+    const { data, body } = parseFrontmatter(
+      '---\ntitle: \'Aria\'\naliases: [Ari, "Grey"]\ntags:\n  - npc\n  - hero\n---\nBody'
+    );
+    expect(data).toEqual({ title: ['Aria'], aliases: ['Ari', 'Grey'], tags: ['npc', 'hero'] });
+    expect(body).toBe('Body');
+  });
+
+  it('leaves notes without frontmatter alone', () => {
+    expect(parseFrontmatter('Just text')).toEqual({ data: {}, body: 'Just text' });
+  });
+});
+
+describe('parseMarkdownNote', () => {
+  it('flattens wikilinks and records where they land', () => {
+    const note = parseMarkdownNote('Characters/Aria Vance.md', ARIA_NOTE);
+
+    expect(note.title).toBe('Aria Vance');
+    expect(note.content).toBe('Aria travels with Bram to Ironhold.');
+    expect(note.aliases).toEqual(['The Grey Wanderer', 'Ari']);
+    expect(note.typeHints).toEqual(['npc', 'Characters']);
+    expect(note.links).toEqual([
+      { target: 'Bram Holt', type: 'allies', evidence: 'allies: Bram Holt' },
+      {
+        target: 'Ironhold',
+        type: 'mentions',
+        evidence: 'Aria travels with Bram to Ironhold.',
+        start: 0,
+        end: 35,
+      },
+    ]);
+  });
+
+  it('drops links back to the note itself and repeats', () => {
+    const note = parseMarkdownNote('Bram.md', 'See [[Bram]], [[Aria]] and [[Aria|her]].');
+    expect(note.links.map((link) => link.target)).toEqual(['Aria']);
+  });
+});
+
+describe('bbcodeToMarkdown', () => {
+  it('converts formatting, headings, links and lists', () => {
+    expect(
+      bbcodeToMarkdown(
+        '[h2]History[/h2][b]Bold[/b] and [i]quiet[/i].[ul][li]One[/li][li]Two[/li][/ul][url=https://example.com]site[/url][img]x.png[/img][container:x]Kept[/container]'
+      )
+    ).toBe('## History\n\n**Bold** and *quiet*.\n- One\n- Two[site](https://example.com)Kept');
+  });
+});
+
+describe('readVaultArchive', () => {
+  it('reads markdown notes from a zip, skipping app folders and repeated titles', () => {
+    const archive = readVaultArchive(
+      zipSync({
+        'Vault/Characters/Aria Vance.md': strToU8(ARIA_NOTE),
+        'Vault/Places/Ironhold.md': strToU8('---\ntype: location\n---\nA fortress.'),
+        'Vault/Other/Ironhold.md': strToU8('A second Ironhold.'),
+        'Vault/.obsidian/workspace.md': strToU8('ignored'),
+        '__MACOSX/Vault/._Aria Vance.md': strToU8('ignored'),
+      }),
+      'vault.zip'
+    );
+
+    expect(archive.format).toBe('markdown');
+    expect(archive.notes.map((note) => note.path)).toEqual([
+      'Vault/Characters/Aria Vance.md',
+      'Vault/Other/Ironhold.md',
+    ]);
+    expect(archive.skipped).toEqual([
+      { path: 'Vault/Places/Ironhold.md', reason: 'Another note is already titled "Ironhold".' },
+    ]);
+  });
+
+  it('reads World Anvil articles and resolves mentions by id', () => {
+    const archive = readVaultArchive(
+      strToU8(
+        JSON.stringify({
+          articles: [
+            {
+              id: 'a1',
+              title: 'Aria Vance',
+              entityClass: 'Person',
+              tags: 'hero, ranger',
+              excerpt: 'A [b]ranger[/b].',
+              content: 'Sworn to @[the Iron Guard](organization:o1).',
+            },
+            { id: 'o1', title: 'Iron Guard', entityClass: 'Organization', content: '' },
+          ],
+        })
+      ),
+      'world.json'
+    );
+
+    expect(archive.format).toBe('worldanvil');
+    const [aria] = archive.notes;
+    expect(aria).toMatchObject({
+      title: 'Aria Vance',
+      content: 'Sworn to the Iron Guard.',
+      description: 'A **ranger**.',
+      declaredType: 'Person',
+      typeHints: ['hero', 'ranger'],
+    });
+    expect(aria.links).toEqual([
+      {
+        target: 'Iron Guard',
+        type: 'mentions',
+        evidence: 'Sworn to the Iron Guard.',
+        start: 0,
+        end: 24,
+      },
+    ]);
+  });
+
+  it('rejects files that are neither', async () => {
+    await expectConvexErrorCode(
+      Promise.resolve().then(() => readVaultArchive(strToU8('plain'), 'notes.txt')),
+      'validation'
+    );
+    await expectConvexErrorCode(
+      Promise.resolve().then(() =>
+        readVaultArchive(zipSync({ 'image.png': strToU8('x') }), 'vault.zip')
+      ),
+      'validation'
+    );
+  });
+});
+
+describe('resolveNoteType', () => {
+  const factionType = {
+    _id: 'type1' as Id<'entityTypes'>,
+    name: 'Faction',
+    baseType: 'concept' as const,
+  };
+
+  it('prefers a declared type, then tags and folders', () => {
+    expect(resolveNoteType({ declaredType: 'City', typeHints: ['npc'] }, [])).toEqual({
+      type: 'location',
+      label: 'location',
+    });
+    expect(resolveNoteType({ typeHints: ['draft', 'Characters'] }, [])).toEqual({
+      type: 'character',
+      label: 'character',
+    });
+    expect(resolveNoteType({ typeHints: ['faction'] }, [factionType])).toEqual({
+      type: 'concept',
+      customTypeId: 'type1',
+      label: 'Faction',
+    });
+  });
+
+  it('treats unknown declared types as concepts and untyped notes as documents', () => {
+    expect(resolveNoteType({ declaredType: 'Starship class', typeHints: [] }, [])).toEqual({
+      type: 'concept',
+      label: 'concept',
+    });
+    expect(resolveNoteType({ declaredType: 'Prose', typeHints: [] }, [])).toBeNull();
+    expect(resolveNoteType({ typeHints: ['Sessions'] }, [])).toBeNull();
+  });
+});
+
+describe('planVaultImport', () => {
+  it('links typed notes and flags names already in the project', () => {
+    const notes = [
+      parseMarkdownNote('Characters/Aria Vance.md', ARIA_NOTE),
+      parseMarkdownNote(
+        'Characters/Bram Holt.md',
+        'Travels with [[Aria Vance]] and [[Queen Mab]].'
+      ),
+      parseMarkdownNote('Session 1.md', 'We met [[Aria Vance]].'),
+    ];
+    const existing = { _id: 'e1' as Id<'entities'>, name: 'Bram Holt', type: 'character' as const };
+
+    const plan = planVaultImport(notes, {
+      customTypes: [],
+      existing: [existing, { ...existing, _id: 'e2' as Id<'entities'>, name: 'Queen Mab' }],
+    });
+
+    expect(plan.entities.map((entity) => [entity.name, entity.conflict?._id ?? null])).toEqual([
+      ['Aria Vance', null],
+      ['Bram Holt', 'e1'],
+    ]);
+    expect(
+      plan.relationships.map((link) => [link.source, link.type, link.target, link.noteIndex])
+    ).toEqual([
+      ['Aria Vance', 'allies', 'Bram Holt', 0],
+      ['Bram Holt', 'mentions', 'Aria Vance', 1],
+      ['Bram Holt', 'mentions', 'Queen Mab', 1],
+    ]);
+    expect(plan.unresolvedLinks).toEqual(['Ironhold']);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { buildWikiSite, renderDocumentText } from '../../lib/wikiSite';
+import { PROJECT_EXPORT_FORMAT, PROJECT_EXPORT_VERSION } from '../../lib/projectExport';
+import type { ProjectExport } from '../../lib/projectExport';
+
+function exportWith(overrides: Partial<ProjectExport> = {}): ProjectExport {
+  return {
+    format: PROJECT_EXPORT_FORMAT,
+    version: PROJECT_EXPORT_VERSION,
+    project: { name: 'Westmarch', exportedAt: '2026-01-01T00:00:00.000Z' },
+    documents: [],
+    entityTypes: [],
+    attributeTemplates: [],
+    entities: [],
+    calendars: [],
+    facts: [],
+    entityAttributes: [],
+    relationships: [],
+    notes: [],
+    entityNotes: [],
+    alerts: [],
+    alertSuppressions: [],
+    ...overrides,
+  };
+}
+
+const entity = (
+  id: string,
+  name: string,
+  overrides: Partial<ProjectExport['entities'][number]> = {}
+) => ({
+  id,
+  name,
+  type: 'character' as const,
+  aliases: [],
+  status: 'confirmed' as const,
+  ...overrides,
+});
+
+describe('renderDocumentText', () => {
+  it('renders headings, lists and paragraphs with text escaped', () => {
+    expect(renderDocumentText('# Arrival\n\n- one\n- **two**\n\nA <b>bold</b> *move*\nnext')).toBe(
+      '<h2>Arrival</h2>\n<ul><li>one</li><li><strong>two</strong></li></ul>\n' +
+        '<p>A &lt;b&gt;bold&lt;/b&gt; <em>move</em><br>next</p>'
+    );
+  });
+});
+
+describe('buildWikiSite', () => {
+  it('gives entities with the same name their own pages', () => {
+    const site = buildWikiSite({
+      data: exportWith({ entities: [entity('a', 'Aria'), entity('b', 'Aria')] }),
+      timeline: [],
+      playerEdition: false,
+    });
+    expect(site['entities/aria.html']).toBeDefined();
+    expect(site['entities/aria-2.html']).toBeDefined();
+  });
+
+  it('groups custom types under their own index', () => {
+    const site = buildWikiSite({
+      data: exportWith({
+        entityTypes: [
+          { id: 't', name: 'Faction', icon: 'flag', color: '#fff', baseType: 'concept' },
+        ],
+        entities: [entity('g', 'Iron Guard', { type: 'concept', customType: 'Faction' })],
+      }),
+      timeline: [],
+      playerEdition: false,
+    });
+    expect(site['types/faction.html']).toContain('entities/iron-guard.html');
+    expect(site['types/concepts.html']).toBeUndefined();
+  });
+
+  it('lists timeline events in the given order with their dates', () => {
+    const site = buildWikiSite({
+      data: exportWith({
+        entities: [
+          entity('e1', 'Coronation', { type: 'event' }),
+          entity('e2', 'Siege', { type: 'event' }),
+        ],
+      }),
+      timeline: [
+        { entityId: 'e2', date: 'Year 3' },
+        { entityId: 'e1', date: null },
+        { entityId: 'missing', date: 'Year 9' },
+      ],
+      playerEdition: false,
+    });
+    const timeline = site['timeline.html'];
+    expect(timeline.indexOf('Siege')).toBeLessThan(timeline.indexOf('Coronation'));
+    expect(timeline).toContain('Year 3');
+    expect(timeline).toContain('Undated');
+    expect(timeline).not.toContain('Year 9');
+  });
+
+  it('escapes names everywhere they appear', () => {
+    const site = buildWikiSite({
+      data: exportWith({ entities: [entity('x', '<script>alert(1)</script>')] }),
+      timeline: [],
+      playerEdition: false,
+    });
+    expect(Object.values(site).join('')).not.toContain('<script>');
+  });
+});
@@ -1,13 +1,29 @@
 import { describe, it, expect } from 'vitest';
 import {
+  chunkChangedRanges,
   chunkDocument,
+  chunkStream,
+  estimateChunkCount,
   needsChunking,
   mapEvidenceToDocument,
+  readTextStream,
   MAX_CHUNK_CHARS,
   OVERLAP_CHARS,
   type Chunk,
 } from '../../llm/chunk';
 
+async function* inPieces(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of source) items.push(item);
+  return items;
+}
+
 describe('chunkDocument', () => {
   it('returns single chunk for short content', () => {
     const content = 'This is a short document.';
@@ -131,6 +147,47 @@ describe('chunkDocument', () => {
   });
 });
 
+describe('chunkStream', () => {
+  const prose = Array.from(
+    { length: 600 },
+    (_, i) => `Paragraph ${i} tells of the long road north.${i % 7 === 0 ? '\n' : ' '}`
+  ).join('\n');
+
+  it.each([
+    ['short text', 'A short document.', 1000],
+    ['text one character over the limit', 'x'.repeat(MAX_CHUNK_CHARS + 1), 4096],
+    ['prose with paragraph breaks', prose, 997],
+    ['text without breaks', 'word '.repeat(9000), 65536],
+  ])('yields the same chunks as chunkDocument for %s', async (_name, text, pieceSize) => {
+    expect(await collect(chunkStream(inPieces(text, pieceSize)))).toEqual(chunkDocument(text));
+  });
+
+  it('honours custom chunk and overlap sizes', async () => {
+    expect(await collect(chunkStream(inPieces(prose, 300), 3000, 200))).toEqual(
+      chunkDocument(prose, 3000, 200)
+    );
+  });
+});
+
+describe('readTextStream', () => {
+  it('decodes characters split across blocks', async () => {
+    const text = 'Café — naïve. '.repeat(20000);
+    const pieces = await collect(readTextStream(new Blob([text])));
+
+    expect(pieces.join('')).toBe(text);
+  });
+});
+
+describe('estimateChunkCount', () => {
+  it('counts one chunk for short files and strides by the overlap-free length', () => {
+    expect(estimateChunkCount(500)).toBe(1);
+    expect(estimateChunkCount(MAX_CHUNK_CHARS)).toBe(1);
+    expect(estimateChunkCount(MAX_CHUNK_CHARS * 3)).toBe(
+      Math.ceil((MAX_CHUNK_CHARS * 3 - OVERLAP_CHARS) / (MAX_CHUNK_CHARS - OVERLAP_CHARS))
+    );
+  });
+});
+
 describe('needsChunking', () => {
   it('returns false for short content', () => {
     expect(needsChunking('short')).toBe(false);
@@ -213,4 +270,39 @@ describe('mapEvidenceToDocument', () => {
 
     expect(result).not.toBeNull();
   });
+
+  it('fuzzy matches within the chunk when the document content is not available', () => {
+    const chunk: Chunk = {
+      text: 'The ancient warrior carried a legendary sword into battle.',
+      startOffset: 5000,
+      endOffset: 5058,
+      index: 3,
+    };
+
+    const result = mapEvidenceToDocument('warrior carried legendary sword', chunk);
+
+    expect(result).toEqual({ start: 5012, end: 5045 });
+  });
+});
+
+describe('chunkChangedRanges', () => {
+  it('chunks only the changed spans with document offsets', () => {
+    const content = 'a'.repeat(5000) + 'CHANGED' + 'b'.repeat(5000);
+    const chunks = chunkChangedRanges(content, [{ afterStart: 5000, afterEnd: 5007 }]);
+    expect(chunks).toEqual([{ text: 'CHANGED', startOffset: 5000, endOffset: 5007, index: 0 }]);
+  });
+
+  it('joins nearby changes and skips pure deletions', () => {
+    const content = 'x'.repeat(20000);
+    const chunks = chunkChangedRanges(content, [
+      { afterStart: 100, afterEnd: 200 },
+      { afterStart: 300, afterEnd: 400 },
+      { afterStart: 900, afterEnd: 900 },
+      { afterStart: 10000, afterEnd: 10050 },
+    ]);
+    expect(chunks.map((c) => [c.startOffset, c.endOffset, c.index])).toEqual([
+      [100, 400, 0],
+      [10000, 10050, 1],
+    ]);
+  });
 });
@@ -1,7 +1,9 @@
 import { convexTest } from 'convex-test';
-import { describe, it, expect } from 'vitest';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
 import { internal } from '../../_generated/api';
 import schema from '../../schema';
+import { chunkDocument } from '../../llm/chunk';
+import { changedRanges, diffText, splitParagraphs } from '../../lib/textDiff';
 
 const getModules = () => import.meta.glob('../../**/*.ts');
 
@@ -37,7 +39,82 @@ async function setupProjectWithDocument(t: ReturnType<typeof convexTest>) {
   });
 }
 
+describe('extractFromDocument', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('streams documents stored only as files chunk by chunk', async () => {
+    vi.stubEnv('OPENROUTER_API_KEY', 'test-key');
+    vi.stubEnv('MODEL', 'test-model');
+    const t = convexTest(schema, getModules());
+    const { userId, documentId } = await setupProjectWithDocument(t);
+    const text = `${'The caravan crossed another dune.\n\n'.repeat(900)}At last Aria reached the drowned harbour.`;
+    await t.run(async (ctx) => {
+      const storageId = await ctx.storage.store(new Blob([text], { type: 'text/plain' }));
+      await ctx.db.patch(documentId, { content: undefined, storageId, contentType: 'file' });
+    });
+
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init) => {
+      const prompt = JSON.parse(init?.body as string).messages[1].content as string;
+      const facts =
+        prompt.includes('harbour') ?
+          [
+            {
+              entityName: 'Aria',
+              subject: 'Aria',
+              predicate: 'reached',
+              object: 'the drowned harbour',
+              confidence: 1,
+              evidence: 'Aria reached the drowned harbour',
+            },
+          ]
+        : [];
+      return Response.json({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                entities: facts.length > 0 ? [{ name: 'Aria', type: 'character' }] : [],
+                facts,
+                relationships: [],
+              }),
+            },
+          },
+        ],
+      });
+    });
+
+    const result = await t
+      .withIdentity({ subject: userId })
+      .action(internal.llm.extract.extractFromDocument, { documentId });
+
+    const evidence = 'Aria reached the drowned harbour';
+    const start = text.indexOf(evidence);
+    expect(result.facts).toHaveLength(1);
+    expect(result.facts[0].evidencePosition).toEqual({ start, end: start + evidence.length });
+
+    const chunkCount = chunkDocument(text).length;
+    const doc = await t.run(async (ctx) => ctx.db.get(documentId));
+    expect(chunkCount).toBeGreaterThan(1);
+    expect(doc?.processingProgress).toEqual({
+      stage: 'extraction',
+      completedChunks: chunkCount,
+      totalChunks: expect.any(Number),
+    });
+  });
+});
+
 describe('processExtractionResult', () => {
+  // Keeps the checks and embedding syncs it schedules from running into later tests.
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   it('creates entities with pending status from extraction result', async () => {
     const t = convexTest(schema, getModules());
     const { projectId, documentId } = await setupProjectWithDocument(t);
@@ -86,6 +163,44 @@ describe('processExtractionResult', () => {
     expect(theNorth?.type).toBe('location');
   });
 
+  it('links entities extracted with a project-defined type', async () => {
+    const t = convexTest(schema, getModules());
+    const { projectId, documentId } = await setupProjectWithDocument(t);
+    const factionId = await t.run(async (ctx) => {
+      return await ctx.db.insert('entityTypes', {
+        projectId,
+        name: 'Faction',
+        icon: 'flag',
+        color: '#a855f7',
+        baseType: 'concept',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    });
+
+    await t.mutation(internal.llm.extract.processExtractionResult, {
+      documentId,
+      result: {
+        entities: [
+          { name: 'The Night Watch', type: 'concept' as const, customType: 'faction' },
+          { name: 'Free Folk', type: 'concept' as const, customType: 'Deleted Type' },
+        ],
+        facts: [],
+        relationships: [],
+      },
+    });
+
+    const entities = await t.run(async (ctx) => {
+      return await ctx.db
+        .query('entities')
+        .withIndex('by_project', (q) => q.eq('projectId', projectId))
+        .collect();
+    });
+
+    expect(entities.find((e) => e.name === 'The Night Watch')?.customTypeId).toBe(factionId);
+    expect(entities.find((e) => e.name === 'Free Folk')?.customTypeId).toBeUndefined();
+  });
+
   it('creates facts with pending status from extraction result', async () => {
     const t = convexTest(schema, getModules());
     const { projectId, documentId } = await setupProjectWithDocument(t);
@@ -138,7 +253,7 @@ describe('processExtractionResult', () => {
     expect(knowsFact?.temporalBound).toEqual({ type: 'relative', value: 'before becoming King' });
   });
 
-  it('stores relationships as facts with relationshipType as predicate', async () => {
+  it('stores relationships between extracted entities as pending relationships', async () => {
     const t = convexTest(schema, getModules());
     const { projectId, documentId } = await setupProjectWithDocument(t);
 
@@ -158,23 +273,83 @@ describe('processExtractionResult', () => {
       ],
     };
 
-    await t.mutation(internal.llm.extract.processExtractionResult, {
+    const summary = await t.mutation(internal.llm.extract.processExtractionResult, {
       documentId,
       result: extractionResult,
     });
 
-    const facts = await t.run(async (ctx) => {
-      return await ctx.db
+    const { facts, relationships, entities } = await t.run(async (ctx) => ({
+      facts: await ctx.db
         .query('facts')
         .withIndex('by_project', (q) => q.eq('projectId', projectId))
+        .collect(),
+      relationships: await ctx.db
+        .query('relationships')
+        .withIndex('by_project', (q) => q.eq('projectId', projectId))
+        .collect(),
+      entities: await ctx.db
+        .query('entities')
+        .withIndex('by_project', (q) => q.eq('projectId', projectId))
+        .collect(),
+    }));
+    const idsByName = new Map(entities.map((e) => [e.name, e._id]));
+
+    expect(summary.relationshipsCreated).toBe(1);
+    expect(facts).toHaveLength(0);
+    expect(relationships).toHaveLength(1);
+    expect(relationships[0].sourceEntityId).toBe(idsByName.get('Jon Snow'));
+    expect(relationships[0].targetEntityId).toBe(idsByName.get('Daenerys'));
+    expect(relationships[0].type).toBe('allied_with');
+    expect(relationships[0].documentId).toBe(documentId);
+    expect(relationships[0].status).toBe('pending');
+  });
+
+  it('resolves relationship targets against existing canon and skips unknown names', async () => {
+    const t = convexTest(schema, getModules());
+    const { projectId, documentId } = await setupProjectWithDocument(t);
+    const aryaId = await t.run(async (ctx) => {
+      return await ctx.db.insert('entities', {
+        projectId,
+        name: 'Arya',
+        type: 'character',
+        aliases: [],
+        status: 'confirmed',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    });
+
+    await t.mutation(internal.llm.extract.processExtractionResult, {
+      documentId,
+      result: {
+        entities: [{ name: 'Jon Snow', type: 'character' as const }],
+        facts: [],
+        relationships: [
+          {
+            sourceEntity: 'Jon Snow',
+            targetEntity: 'Arya',
+            relationshipType: 'sibling_of',
+            evidence: 'Jon gave Arya a sword',
+          },
+          {
+            sourceEntity: 'Jon Snow',
+            targetEntity: 'Ghost',
+            relationshipType: 'owns',
+            evidence: 'his direwolf Ghost',
+          },
+        ],
+      },
+    });
+
+    const relationships = await t.run(async (ctx) => {
+      return await ctx.db
+        .query('relationships')
+        .withIndex('by_project', (q) => q.eq('projectId', projectId))
         .collect();
     });
 
-    expect(facts).toHaveLength(1);
-    expect(facts[0].subject).toBe('Jon Snow');
-    expect(facts[0].predicate).toBe('allied_with');
-    expect(facts[0].object).toBe('Daenerys');
-    expect(facts[0].status).toBe('pending');
+    expect(relationships).toHaveLength(1);
+    expect(relationships[0].targetEntityId).toBe(aryaId);
   });
 
   it('reuses existing entity when name matches', async () => {
@@ -409,15 +584,15 @@ describe('processExtractionResult', () => {
       result: extractionResult,
     });
 
-    const facts = await t.run(async (ctx) => {
+    const relationships = await t.run(async (ctx) => {
       return await ctx.db
-        .query('facts')
+        .query('relationships')
         .withIndex('by_project', (q) => q.eq('projectId', projectId))
         .collect();
     });
 
-    expect(facts).toHaveLength(1);
-    expect(facts[0].evidencePosition).toEqual({ start: 100, end: 122 });
+    expect(relationships).toHaveLength(1);
+    expect(relationships[0].evidencePosition).toEqual({ start: 100, end: 122 });
   });
 
   it('handles facts without evidencePosition', async () => {
@@ -486,4 +661,178 @@ describe('processExtractionResult', () => {
     expect(entities).toHaveLength(1);
     expect(entities[0].aliases).toEqual([]);
   });
+
+  it('re-extracts only changed text and invalidates facts quoted from it', async () => {
+    const t = convexTest(schema, getModules());
+    const { projectId, documentId } = await setupProjectWithDocument(t);
+    const before = 'Jon Snow is King.\n\nArya left Winterfell.';
+    const after = 'Jon Snow is King in the North.\n\nArya left Winterfell.';
+    const changes = changedRanges(diffText(before, after, splitParagraphs));
+
+    const { kingFactId, aryaFactId } = await t.run(async (ctx) => {
+      await ctx.db.patch(documentId, { content: after });
+      await ctx.db.patch(projectId, {
+        stats: { documentCount: 1, entityCount: 2, factCount: 2, alertCount: 0, noteCount: 0 },
+      });
+      const jon = await ctx.db.insert('entities', {
+        projectId,
+        name: 'Jon Snow',
+        type: 'character',
+        aliases: [],
+        status: 'confirmed',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      const base = { projectId, entityId: jon, documentId, confidence: 1, createdAt: Date.now() };
+      const kingFactId = await ctx.db.insert('facts', {
+        ...base,
+        subject: 'Jon Snow',
+        predicate: 'is',
+        object: 'King',
+        evidenceSnippet: 'Jon Snow is King',
+        evidencePosition: { start: 0, end: 16 },
+        status: 'confirmed',
+      });
+      const aryaFactId = await ctx.db.insert('facts', {
+        ...base,
+        subject: 'Arya',
+        predicate: 'left',
+        object: 'Winterfell',
+        evidenceSnippet: 'Arya left Winterfell',
+        evidencePosition: { start: 19, end: 39 },
+        status: 'confirmed',
+      });
+      return { kingFactId, aryaFactId };
+    });
+
+    const result = await t.mutation(internal.llm.extract.processExtractionResult, {
+      documentId,
+      changes,
+      result: {
+        entities: [{ name: 'Jon Snow', type: 'character' as const }],
+        facts: [
+          {
+            entityName: 'Jon Snow',
+            subject: 'Jon Snow',
+            predicate: 'is',
+            object: 'King in the North',
+            confidence: 1,
+            evidence: 'Jon Snow is King in the North',
+            evidencePosition: { start: 0, end: 29 },
+          },
+          {
+            entityName: 'Jon Snow',
+            subject: 'Arya',
+            predicate: 'left',
+            object: 'Winterfell',
+            confidence: 1,
+            evidence: 'Arya left Winterfell',
+            evidencePosition: { start: 32, end: 52 },
+          },
+        ],
+        relationships: [],
+      },
+    });
+
+    expect(result).toMatchObject({
+      factsCreated: 1,
+      factsInvalidated: 0,
+      factsReturnedToReview: 1,
+    });
+    const state = await t.run(async (ctx) => ({
+      king: await ctx.db.get(kingFactId),
+      arya: await ctx.db.get(aryaFactId),
+      facts: await ctx.db
+        .query('facts')
+        .withIndex('by_document', (q) => q.eq('documentId', documentId))
+        .collect(),
+      project: await ctx.db.get(projectId),
+      revisions: await ctx.db
+        .query('revisions')
+        .withIndex('by_fact', (q) => q.eq('factId', kingFactId))
+        .collect(),
+    }));
+    expect(state.king?.status).toBe('pending');
+    expect(state.king?.evidencePosition).toBeUndefined();
+    expect(state.revisions.map((revision) => revision.action)).toEqual(['initial', 'update']);
+    expect(state.revisions[1].summary).toBe('Evidence edited in Test Document');
+    expect(state.arya?.evidencePosition).toEqual({ start: 32, end: 52 });
+    expect(state.facts.map((f) => f.object).toSorted()).toEqual([
+      'King',
+      'King in the North',
+      'Winterfell',
+    ]);
+    expect(state.project?.stats?.factCount).toBe(3);
+
+    const baseline = await t.query(internal.llm.extract.getExtractionBaseline, { documentId });
+    expect(baseline).toBe(after);
+  });
+
+  it('drops pending facts quoted from changed text and the alerts citing only them', async () => {
+    const t = convexTest(schema, getModules());
+    const { projectId, documentId } = await setupProjectWithDocument(t);
+    const before = 'Jon Snow is King.\n\nArya left Winterfell.';
+    const after = 'Jon Snow is Lord.\n\nArya left Winterfell.';
+    const changes = changedRanges(diffText(before, after, splitParagraphs));
+
+    const { kingFactId, aryaFactId, soloAlertId, sharedAlertId } = await t.run(async (ctx) => {
+      await ctx.db.patch(documentId, { content: after });
+      await ctx.db.patch(projectId, {
+        stats: { documentCount: 1, entityCount: 0, factCount: 2, alertCount: 2, noteCount: 0 },
+      });
+      const base = { projectId, documentId, confidence: 1, createdAt: Date.now() };
+      const kingFactId = await ctx.db.insert('facts', {
+        ...base,
+        subject: 'Jon Snow',
+        predicate: 'is',
+        object: 'King',
+        evidencePosition: { start: 0, end: 16 },
+        status: 'pending',
+      });
+      const aryaFactId = await ctx.db.insert('facts', {
+        ...base,
+        subject: 'Arya',
+        predicate: 'left',
+        object: 'Winterfell',
+        evidencePosition: { start: 19, end: 39 },
+        status: 'confirmed',
+      });
+      const alert = {
+        projectId,
+        documentId,
+        type: 'contradiction' as const,
+        severity: 'warning' as const,
+        title: 'Title conflict',
+        description: 'Jon is named both King and Lord',
+        entityIds: [],
+        evidence: [],
+        status: 'open' as const,
+        createdAt: Date.now(),
+      };
+      const soloAlertId = await ctx.db.insert('alerts', { ...alert, factIds: [kingFactId] });
+      const sharedAlertId = await ctx.db.insert('alerts', {
+        ...alert,
+        factIds: [kingFactId, aryaFactId],
+      });
+      return { kingFactId, aryaFactId, soloAlertId, sharedAlertId };
+    });
+
+    const result = await t.mutation(internal.llm.extract.processExtractionResult, {
+      documentId,
+      changes,
+      result: { entities: [], facts: [], relationships: [] },
+    });
+
+    expect(result).toMatchObject({ factsInvalidated: 1, factsReturnedToReview: 0 });
+    const state = await t.run(async (ctx) => ({
+      king: await ctx.db.get(kingFactId),
+      soloAlert: await ctx.db.get(soloAlertId),
+      sharedAlert: await ctx.db.get(sharedAlertId),
+      project: await ctx.db.get(projectId),
+    }));
+    expect(state.king).toBeNull();
+    expect(state.soloAlert).toBeNull();
+    expect(state.sharedAlert?.factIds).toEqual([aryaFactId]);
+    expect(state.project?.stats).toMatchObject({ factCount: 1, alertCount: 1 });
+  });
 });
@@ -0,0 +1,188 @@
+import { convexTest } from 'convex-test';
+import { describe, it, expect } from 'vitest';
+import { api } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import schema from '../schema';
+import { isStoredDocument } from '../lib/documentChunks';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+
+const getModules = () => import.meta.glob('../**/*.ts');
+
+const MANUSCRIPT_HTML = `<html><body>
+  <h1>The Long Road</h1>
+  <h2>Chapter One</h2><p>Aria drew her <em>sword</em>.</p>
+  <h2>Chapter Two</h2><p>Bram fled north.</p>
+</body></html>`;
+
+async function setupAuthenticatedUser(t: ReturnType<typeof convexTest>) {
+  const userId = await t.run(async (ctx) => {
+    return await ctx.db.insert('users', {
+      name: 'Test User',
+      email: 'test@example.com',
+      createdAt: Date.now(),
+    });
+  });
+
+  const asUser = t.withIdentity({ subject: userId });
+  return { userId, asUser };
+}
+
+async function setupProject(t: ReturnType<typeof convexTest>, userId: Id<'users'>) {
+  return await t.run(async (ctx) => {
+    const projectId = await ctx.db.insert('projects', {
+      userId,
+      name: 'Test Project',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      stats: { documentCount: 1, entityCount: 0, factCount: 0, alertCount: 0, noteCount: 0 },
+    });
+    await ctx.db.insert('documents', {
+      projectId,
+      title: 'Existing',
+      content: 'Already here.',
+      contentType: 'text',
+      orderIndex: 0,
+      wordCount: 2,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      processingStatus: 'completed',
+    });
+    return projectId;
+  });
+}
+
+async function storeFile(t: ReturnType<typeof convexTest>, content: string, type: string) {
+  return await t.run(async (ctx) => ctx.storage.store(new Blob([content], { type })));
+}
+
+async function listDocuments(t: ReturnType<typeof convexTest>, projectId: Id<'projects'>) {
+  const documents = await t.run(async (ctx) => ctx.db.query('documents').collect());
+  return documents
+    .filter((doc) => doc.projectId === projectId)
+    .toSorted((a, b) => a.orderIndex - b.orderIndex);
+}
+
+describe('manuscripts', () => {
+  describe('importFile action', () => {
+    it('converts the file into one markdown document that keeps the original', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const storageId = await storeFile(t, MANUSCRIPT_HTML, 'text/html');
+
+      const [documentId] = await asUser.action(api.manuscripts.importFile, {
+        projectId,
+        storageId,
+        fileName: 'The Long Road.html',
+      });
+
+      const doc = await t.run(async (ctx) => ctx.db.get(documentId));
+      expect(doc).toMatchObject({
+        title: 'The Long Road',
+        contentType: 'markdown',
+        sourceFormat: 'html',
+        sourceFileId: storageId,
+        orderIndex: 1,
+        processingStatus: 'pending',
+      });
+      expect(doc?.content).toContain('## Chapter One\n\nAria drew her *sword*.');
+
+      const project = await t.run(async (ctx) => ctx.db.get(projectId));
+      expect(project?.stats?.documentCount).toBe(2);
+    });
+
+    it('splits chapters into ordered documents', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const storageId = await storeFile(t, MANUSCRIPT_HTML, 'text/html');
+
+      const documentIds = await asUser.action(api.manuscripts.importFile, {
+        projectId,
+        storageId,
+        fileName: 'book.html',
+        split: true,
+      });
+      expect(documentIds).toHaveLength(2);
+
+      const docs = await listDocuments(t, projectId);
+      expect(docs.map((doc) => [doc.title, doc.orderIndex])).toEqual([
+        ['Existing', 0],
+        ['Chapter One', 1],
+        ['Chapter Two', 2],
+      ]);
+      expect(docs[1].sourceFileId).toBe(storageId);
+      expect(docs[1].storageId).toBeUndefined();
+      expect(docs[2].sourceFileId).toBeUndefined();
+      expect(docs[2].content).toBe('## Chapter Two\n\nBram fled north.');
+
+      // Clearing the first chapter must not make the original file its text.
+      await t.run(async (ctx) => ctx.db.patch(documentIds[0], { content: '' }));
+      const cleared = await t.run(async (ctx) => ctx.db.get(documentIds[0]));
+      expect(isStoredDocument(cleared!)).toBe(false);
+
+      const project = await t.run(async (ctx) => ctx.db.get(projectId));
+      expect(project?.stats?.documentCount).toBe(3);
+    });
+
+    it('rejects unsupported files', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const storageId = await storeFile(t, 'plain', 'application/octet-stream');
+
+      await expectConvexErrorCode(
+        asUser.action(api.manuscripts.importFile, { projectId, storageId, fileName: 'notes.rtf' }),
+        'validation'
+      );
+    });
+
+    it('rejects users who cannot edit the project', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const storageId = await storeFile(t, MANUSCRIPT_HTML, 'text/html');
+      const otherUserId = await t.run(async (ctx) =>
+        ctx.db.insert('users', { name: 'Other', email: 'other@example.com', createdAt: Date.now() })
+      );
+
+      await expectConvexErrorCode(
+        t
+          .withIdentity({ subject: otherUserId })
+          .action(api.manuscripts.importFile, { projectId, storageId, fileName: 'book.html' }),
+        'unauthorized'
+      );
+    });
+
+    it('enforces the document limit for every chapter', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      await t.run(async (ctx) => {
+        for (let i = 1; i < 9; i++) {
+          await ctx.db.insert('documents', {
+            projectId,
+            title: `Doc ${i}`,
+            contentType: 'text',
+            orderIndex: i,
+            wordCount: 0,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            processingStatus: 'completed',
+          });
+        }
+      });
+      const storageId = await storeFile(t, MANUSCRIPT_HTML, 'text/html');
+
+      await expect(
+        asUser.action(api.manuscripts.importFile, {
+          projectId,
+          storageId,
+          fileName: 'book.html',
+          split: true,
+        })
+      ).rejects.toThrow(/Document limit reached/);
+      expect(await listDocuments(t, projectId)).toHaveLength(9);
+    });
+  });
+});
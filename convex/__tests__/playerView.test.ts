@@ -0,0 +1,175 @@
+import { convexTest } from 'convex-test';
+import { describe, it, expect } from 'vitest';
+import { api } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import schema from '../schema';
+
+const getModules = () => import.meta.glob('../**/*.ts');
+
+async function setupUser(t: ReturnType<typeof convexTest>, name: string, email: string) {
+  const userId = await t.run(async (ctx) => {
+    return await ctx.db.insert('users', { name, email, createdAt: Date.now() });
+  });
+
+  const asUser = t.withIdentity({ subject: userId });
+  return { userId, asUser };
+}
+
+async function setupCampaign(t: ReturnType<typeof convexTest>) {
+  const gm = await setupUser(t, 'GM', 'gm@example.com');
+  const player = await setupUser(t, 'Player', 'player@example.com');
+
+  const projectId = await t.run(async (ctx) => {
+    return await ctx.db.insert('projects', {
+      userId: gm.userId,
+      name: 'Thornhaven',
+      projectType: 'ttrpg',
+      revealToPlayersEnabled: true,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  });
+
+  const shareId = await gm.asUser.mutation(api.projectShares.invite, {
+    projectId,
+    email: 'player@example.com',
+    role: 'viewer',
+  });
+  await player.asUser.mutation(api.projectShares.accept, { id: shareId });
+
+  return { gm, player, projectId };
+}
+
+async function insertEntity(
+  t: ReturnType<typeof convexTest>,
+  projectId: Id<'projects'>,
+  name: string,
+  options: { revealed?: boolean; status?: 'pending' | 'confirmed'; description?: string } = {}
+) {
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('entities', {
+      projectId,
+      name,
+      type: 'character',
+      description: options.description,
+      aliases: [],
+      status: options.status ?? 'confirmed',
+      revealedToViewers: options.revealed ?? false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+async function insertFact(
+  t: ReturnType<typeof convexTest>,
+  projectId: Id<'projects'>,
+  entityId: Id<'entities'>,
+  predicate: string,
+  object: string,
+  status: 'pending' | 'confirmed' | 'rejected' = 'confirmed'
+) {
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('facts', {
+      projectId,
+      entityId,
+      subject: 'subject',
+      predicate,
+      object,
+      confidence: 1,
+      evidenceSnippet: 'GM-only passage',
+      status,
+      createdAt: Date.now(),
+    });
+  });
+}
+
+describe('playerView', () => {
+  it('treats viewers of reveal-enabled campaigns as players without full canon access', async () => {
+    const t = convexTest(schema, getModules());
+    const { player, projectId } = await setupCampaign(t);
+    await insertEntity(t, projectId, 'Lady Mira', { revealed: true });
+
+    expect(await player.asUser.query(api.projects.getRole, { id: projectId })).toBe('player');
+    expect(await player.asUser.query(api.projects.get, { id: projectId })).toBeNull();
+    expect(await player.asUser.query(api.entities.listByProject, { projectId })).toEqual([]);
+    expect(await player.asUser.query(api.facts.listByProject, { projectId })).toEqual([]);
+  });
+
+  it('lists only confirmed, revealed entities', async () => {
+    const t = convexTest(schema, getModules());
+    const { player, projectId } = await setupCampaign(t);
+    await insertEntity(t, projectId, 'Lady Mira', { revealed: true });
+    await insertEntity(t, projectId, 'Shadowbane', { revealed: false });
+    await insertEntity(t, projectId, 'Pending Stranger', { revealed: true, status: 'pending' });
+
+    const entities = await player.asUser.query(api.playerView.listEntities, { projectId });
+
+    expect(entities.map((e) => e.name)).toEqual(['Lady Mira']);
+  });
+
+  it('hides unrevealed entities from direct lookup', async () => {
+    const t = convexTest(schema, getModules());
+    const { player, projectId } = await setupCampaign(t);
+    const hiddenId = await insertEntity(t, projectId, 'Shadowbane', { revealed: false });
+
+    expect(await player.asUser.query(api.playerView.getEntity, { entityId: hiddenId })).toBeNull();
+  });
+
+  it('returns only confirmed facts without evidence and links revealed entities', async () => {
+    const t = convexTest(schema, getModules());
+    const { player, projectId } = await setupCampaign(t);
+    const miraId = await insertEntity(t, projectId, 'Lady Mira', { revealed: true });
+    const elaraId = await insertEntity(t, projectId, 'Queen Elara', { revealed: true });
+    await insertEntity(t, projectId, 'Shadowbane', { revealed: false });
+
+    await insertFact(t, projectId, miraId, 'serves', 'Queen Elara');
+    await insertFact(t, projectId, miraId, 'fears', 'Shadowbane');
+    await insertFact(t, projectId, miraId, 'is secretly', 'a spy', 'pending');
+
+    const result = await player.asUser.query(api.playerView.getEntity, { entityId: miraId });
+
+    expect(result?.facts).toHaveLength(2);
+    expect(result?.facts.every((fact) => !('evidenceSnippet' in fact))).toBe(true);
+
+    const serves = result?.facts.find((fact) => fact.predicate === 'serves');
+    expect(serves?.linkedEntities.map((e) => e._id)).toEqual([elaraId]);
+    const fears = result?.facts.find((fact) => fact.predicate === 'fears');
+    expect(fears?.linkedEntities).toEqual([]);
+
+    expect(result?.relatedEntities.map((e) => e._id)).toEqual([elaraId]);
+
+    const backlinks = await player.asUser.query(api.playerView.getEntity, { entityId: elaraId });
+    expect(backlinks?.relatedEntities.map((e) => e._id)).toEqual([miraId]);
+  });
+
+  it('excludes hidden entities from search results', async () => {
+    const t = convexTest(schema, getModules());
+    const { player, projectId } = await setupCampaign(t);
+    await insertEntity(t, projectId, 'Mira the Bold', {
+      revealed: true,
+      description: 'A knight of Thornhaven',
+    });
+    await insertEntity(t, projectId, 'Mira the Traitor', {
+      revealed: false,
+      description: 'Her secret identity',
+    });
+
+    const results = await player.asUser.query(api.playerView.search, {
+      projectId,
+      query: 'Mira',
+    });
+
+    expect(results.map((e) => e.name)).toEqual(['Mira the Bold']);
+  });
+
+  it('returns nothing to users outside the project', async () => {
+    const t = convexTest(schema, getModules());
+    const { projectId } = await setupCampaign(t);
+    const stranger = await setupUser(t, 'Stranger', 'stranger@example.com');
+    await insertEntity(t, projectId, 'Lady Mira', { revealed: true });
+
+    expect(await stranger.asUser.query(api.playerView.getProject, { projectId })).toBeNull();
+    expect(await stranger.asUser.query(api.playerView.listEntities, { projectId })).toEqual([]);
+  });
+});
@@ -0,0 +1,554 @@
+import { convexTest } from 'convex-test';
+import { afterAll, afterEach, beforeAll, describe, it, expect, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import schema from '../schema';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+
+const getModules = () => import.meta.glob('../**/*.ts');
+
+async function setupAuthenticatedUser(t: ReturnType<typeof convexTest>) {
+  const userId = await t.run(async (ctx) => {
+    return await ctx.db.insert('users', {
+      name: 'Test User',
+      email: 'test@example.com',
+      createdAt: Date.now(),
+    });
+  });
+
+  const asUser = t.withIdentity({ subject: userId });
+  return { userId, asUser };
+}
+
+async function createCampaign(t: ReturnType<typeof convexTest>, userId: Id<'users'>) {
+  return await t.run(async (ctx) => {
+    const now = Date.now();
+    const projectId = await ctx.db.insert('projects', {
+      userId,
+      name: 'Westmarch',
+      projectType: 'ttrpg',
+      revealToPlayersEnabled: true,
+      createdAt: now,
+      updatedAt: now,
+      stats: { documentCount: 1, entityCount: 2, factCount: 1, alertCount: 0, noteCount: 1 },
+    });
+    const documentId = await ctx.db.insert('documents', {
+      projectId,
+      title: 'Session 1',
+      content: 'Aria joined the Iron Guard in the year 12.',
+      contentType: 'markdown',
+      orderIndex: 0,
+      wordCount: 9,
+      createdAt: now,
+      updatedAt: now,
+      processingStatus: 'completed',
+    });
+    const typeId = await ctx.db.insert('entityTypes', {
+      projectId,
+      name: 'Faction',
+      icon: 'flag',
+      color: '#aa0000',
+      baseType: 'concept',
+      createdAt: now,
+      updatedAt: now,
+    });
+    const calendarId = await ctx.db.insert('calendars', {
+      projectId,
+      name: 'Reckoning',
+      daysPerYear: 360,
+      months: [{ name: 'Frost', days: 360 }],
+      eras: [],
+      epochOffset: 0,
+      isDefault: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const ariaId = await ctx.db.insert('entities', {
+      projectId,
+      name: 'Aria',
+      type: 'character',
+      aliases: ['Ari'],
+      firstMentionedIn: documentId,
+      status: 'confirmed',
+      revealedToViewers: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const guardId = await ctx.db.insert('entities', {
+      projectId,
+      name: 'Iron Guard',
+      type: 'concept',
+      customTypeId: typeId,
+      aliases: [],
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    });
+    const factId = await ctx.db.insert('facts', {
+      projectId,
+      entityId: ariaId,
+      documentId,
+      subject: 'Aria',
+      predicate: 'joined',
+      object: 'the Iron Guard',
+      confidence: 0.9,
+      evidenceSnippet: 'Aria joined the Iron Guard',
+      temporalBound: { type: 'point', value: 'year 12', start: 3960, end: 3960, calendarId },
+      status: 'confirmed',
+      createdAt: now,
+    });
+    await ctx.db.insert('facts', {
+      projectId,
+      entityId: guardId,
+      subject: 'Iron Guard',
+      predicate: 'is',
+      object: 'disbanded',
+      confidence: 0.4,
+      status: 'rejected',
+      createdAt: now,
+    });
+    await ctx.db.insert('relationships', {
+      projectId,
+      sourceEntityId: ariaId,
+      targetEntityId: guardId,
+      type: 'member of',
+      documentId,
+      confidence: 1,
+      status: 'confirmed',
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert('notes', {
+      projectId,
+      userId,
+      title: 'Hooks',
+      content: 'The guard is hiding something.',
+      pinned: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert('entityNotes', {
+      entityId: ariaId,
+      projectId,
+      userId,
+      content: 'Secretly a noble.',
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert('alerts', {
+      projectId,
+      documentId,
+      factIds: [factId],
+      entityIds: [ariaId],
+      type: 'timeline',
+      severity: 'warning',
+      title: 'Joined twice?',
+      description: 'Aria joins the guard in two different years.',
+      evidence: [{ snippet: 'year 12', documentId, documentTitle: 'Session 1' }],
+      status: 'dismissed',
+      resolutionNotes: 'Intentional retcon.',
+      createdAt: now,
+      resolvedAt: now,
+    });
+    await ctx.db.insert('alertSuppressions', {
+      projectId,
+      rule: 'fact:joined',
+      entityIds: [ariaId, guardId],
+      createdBy: userId,
+      createdAt: now,
+    });
+    await ctx.db.insert('attributeTemplates', {
+      projectId,
+      entityType: 'concept',
+      customTypeId: typeId,
+      fields: [{ key: 'motto', label: 'Motto', dataType: 'text' }],
+      updatedAt: now,
+    });
+    await ctx.db.insert('entityAttributes', {
+      projectId,
+      entityId: ariaId,
+      key: 'age',
+      value: 27,
+      documentId,
+      evidenceSnippet: 'Aria, twenty-seven',
+      status: 'confirmed',
+      createdAt: now,
+      updatedAt: now,
+    });
+    return projectId;
+  });
+}
+
+async function storeJson(t: ReturnType<typeof convexTest>, json: string) {
+  return await t.run(async (ctx) =>
+    ctx.storage.store(new Blob([json], { type: 'application/json' }))
+  );
+}
+
+async function listRows<T extends 'documents' | 'entities' | 'facts' | 'relationships' | 'alerts'>(
+  t: ReturnType<typeof convexTest>,
+  table: T,
+  projectId: Id<'projects'>
+) {
+  const rows = await t.run(async (ctx) => ctx.db.query(table).collect());
+  return rows.filter((row) => row.projectId === projectId);
+}
+
+describe('projectImports', () => {
+  // Finishing scheduled functions also runs the embedding sync that imports schedule.
+  beforeAll(() => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+  });
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rebuilds an exported project with new ids', async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, getModules());
+    const { userId, asUser } = await setupAuthenticatedUser(t);
+    const sourceId = await createCampaign(t, userId);
+    const json = await asUser.action(api.export.exportProject, {
+      projectId: sourceId,
+      format: 'json',
+    });
+    const storageId = await storeJson(t, json!);
+
+    const { importId, projectId } = await asUser.action(api.projectImports.importProject, {
+      storageId,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const job = await asUser.query(api.projectImports.get, { id: importId });
+    expect(job).toMatchObject({ status: 'completed', importedRecords: 14, totalRecords: 14 });
+    const project = await t.run(async (ctx) => ctx.db.get(projectId));
+    expect(project).toMatchObject({
+      name: 'Westmarch',
+      projectType: 'ttrpg',
+      stats: { documentCount: 1, entityCount: 2, factCount: 1, alertCount: 0, noteCount: 1 },
+    });
+
+    const [doc] = await listRows(t, 'documents', projectId);
+    const entities = await listRows(t, 'entities', projectId);
+    const aria = entities.find((entity) => entity.name === 'Aria');
+    const guard = entities.find((entity) => entity.name === 'Iron Guard');
+    expect(aria).toMatchObject({ firstMentionedIn: doc._id, revealedToViewers: true });
+    expect(guard?.status).toBe('pending');
+    const customType = await t.run(async (ctx) => ctx.db.get(guard!.customTypeId));
+    expect(customType).toMatchObject({ projectId, name: 'Faction' });
+
+    const facts = await listRows(t, 'facts', projectId);
+    expect(facts.map((fact) => fact.status).toSorted((a, b) => a.localeCompare(b))).toEqual([
+      'confirmed',
+      'rejected',
+    ]);
+    const joined = facts.find((fact) => fact.status === 'confirmed');
+    expect(joined).toMatchObject({ entityId: aria?._id, documentId: doc._id });
+    const calendar = await t.run(async (ctx) => ctx.db.get(joined!.temporalBound!.calendarId));
+    expect(calendar).toMatchObject({ projectId, name: 'Reckoning' });
+
+    const [relationship] = await listRows(t, 'relationships', projectId);
+    expect(relationship).toMatchObject({ sourceEntityId: aria?._id, targetEntityId: guard?._id });
+    const [alert] = await listRows(t, 'alerts', projectId);
+    expect(alert).toMatchObject({
+      documentId: doc._id,
+      factIds: [joined?._id],
+      entityIds: [aria?._id],
+      evidence: [{ snippet: 'year 12', documentId: doc._id, documentTitle: 'Session 1' }],
+      status: 'dismissed',
+      resolutionNotes: 'Intentional retcon.',
+    });
+    const entityNotes = await t.run(async (ctx) =>
+      ctx.db
+        .query('entityNotes')
+        .withIndex('by_entity', (q) => q.eq('entityId', aria!._id))
+        .collect()
+    );
+    expect(entityNotes.map((note) => note.content)).toEqual(['Secretly a noble.']);
+
+    const [template, attribute, suppression] = await t.run(async (ctx) =>
+      Promise.all([
+        ctx.db
+          .query('attributeTemplates')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .unique(),
+        ctx.db
+          .query('entityAttributes')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .unique(),
+        ctx.db
+          .query('alertSuppressions')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .unique(),
+      ])
+    );
+    expect(template).toMatchObject({
+      customTypeId: guard?.customTypeId,
+      fields: [{ key: 'motto', label: 'Motto', dataType: 'text' }],
+    });
+    expect(attribute).toMatchObject({
+      entityId: aria?._id,
+      key: 'age',
+      value: 27,
+      documentId: doc._id,
+      status: 'confirmed',
+    });
+    expect(suppression).toMatchObject({
+      rule: 'fact:joined',
+      entityIds: [aria?._id, guard?._id],
+      createdBy: userId,
+    });
+
+    expect(await t.run(async (ctx) => ctx.db.query('projectImportIds').collect())).toEqual([]);
+    expect(await t.run(async (ctx) => ctx.storage.get(storageId))).toBeNull();
+  });
+
+  it('resumes a failed import from where it stopped', async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, getModules());
+    const { userId, asUser } = await setupAuthenticatedUser(t);
+    const sourceId = await createCampaign(t, userId);
+    const json = await asUser.action(api.export.exportProject, {
+      projectId: sourceId,
+      format: 'json',
+    });
+    const { importId, projectId } = await asUser.action(api.projectImports.importProject, {
+      storageId: await storeJson(t, json!),
+    });
+    await t.run(async (ctx) => ctx.db.patch(importId, { status: 'failed', error: 'Timed out' }));
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await listRows(t, 'documents', projectId)).toEqual([]);
+
+    await asUser.mutation(api.projectImports.resume, { id: importId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await asUser.query(api.projectImports.get, { id: importId })).toMatchObject({
+      status: 'completed',
+    });
+    expect(await listRows(t, 'entities', projectId)).toHaveLength(2);
+  });
+
+  it('ignores batches for a position the job has moved past', async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, getModules());
+    const { userId, asUser } = await setupAuthenticatedUser(t);
+    const sourceId = await createCampaign(t, userId);
+    const json = await asUser.action(api.export.exportProject, {
+      projectId: sourceId,
+      format: 'json',
+    });
+    const { importId } = await asUser.action(api.projectImports.importProject, {
+      storageId: await storeJson(t, json!),
+    });
+
+    const note = { id: 'n1', title: 'Stale', content: 'Stale', pinned: false };
+    expect(
+      await t.mutation(internal.projectImports.importBatch, {
+        importId,
+        cursor: 0,
+        batch: { stage: 'notes', records: [note] },
+        stageSize: 1,
+        nextStage: 'cleanup',
+      })
+    ).toBeNull();
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const notes = await t.run(async (ctx) => ctx.db.query('notes').collect());
+    expect(notes.map((note) => note.title)).toEqual(['Hooks', 'Hooks']);
+  });
+
+  it('fails the job when its project is deleted mid-import', async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, getModules());
+    const { userId, asUser } = await setupAuthenticatedUser(t);
+    const sourceId = await createCampaign(t, userId);
+    const json = await asUser.action(api.export.exportProject, {
+      projectId: sourceId,
+      format: 'json',
+    });
+    const { importId, projectId } = await asUser.action(api.projectImports.importProject, {
+      storageId: await storeJson(t, json!),
+    });
+
+    await t.run(async (ctx) => ctx.db.delete(projectId));
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await asUser.query(api.projectImports.get, { id: importId })).toMatchObject({
+      status: 'failed',
+      error: 'The project was deleted before the import finished.',
+    });
+  });
+
+  it('names the documents whose text was kept in file storage', async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, getModules());
+    const { asUser } = await setupAuthenticatedUser(t);
+    const document = {
+      contentType: 'file',
+      wordCount: 5000,
+      processingStatus: 'completed',
+    };
+    const storageId = await storeJson(
+      t,
+      JSON.stringify({
+        format: 'realm-sync-project',
+        version: 1,
+        project: { name: 'Archive', exportedAt: '2026-01-01T00:00:00.000Z' },
+        documents: [
+          { ...document, id: 'd1', title: 'Atlas', storedFile: true, orderIndex: 0 },
+          { ...document, id: 'd2', title: 'Notes', content: 'Short', orderIndex: 1 },
+        ],
+        entityTypes: [],
+        entities: [],
+        calendars: [],
+        facts: [],
+        relationships: [],
+        notes: [],
+        entityNotes: [],
+        alerts: [],
+      })
+    );
+
+    const { importId } = await asUser.action(api.projectImports.importProject, { storageId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await asUser.query(api.projectImports.get, { id: importId })).toMatchObject({
+      status: 'completed',
+      documentsWithoutText: ['Atlas'],
+    });
+  });
+
+  it('stops on entity types and calendars the editor would refuse', async () => {
+    vi.useFakeTimers();
+    const entityType = {
+      id: 't1',
+      name: 'Faction',
+      icon: 'flag',
+      color: '#aa0000',
+      baseType: 'concept',
+    };
+    const calendar = {
+      id: 'c1',
+      name: 'Reckoning',
+      daysPerYear: 360,
+      months: [{ name: 'Frost', days: 360 }],
+      eras: [],
+      epochOffset: 0,
+      isDefault: true,
+    };
+    const cases = [
+      {
+        entityTypes: [{ ...entityType, name: 'Character' }],
+        error: 'is already a built-in entity type',
+      },
+      {
+        entityTypes: [entityType, { ...entityType, id: 't2', name: 'faction' }],
+        error: 'already exists',
+      },
+      { entityTypes: [{ ...entityType, icon: 'skull-and-bones' }], error: 'Unknown icon' },
+      {
+        entityTypes: [{ ...entityType, color: 'red' }],
+        error: 'Color must be a hex value like #a855f7',
+      },
+      {
+        calendars: [{ ...calendar, months: [{ name: 'Frost', days: 30 }] }],
+        error: 'Months add up to 30 days but the year has 360',
+      },
+    ];
+
+    for (const { error, ...tables } of cases) {
+      const t = convexTest(schema, getModules());
+      const { asUser } = await setupAuthenticatedUser(t);
+      const storageId = await storeJson(
+        t,
+        JSON.stringify({
+          format: 'realm-sync-project',
+          version: 2,
+          project: { name: 'Invalid', exportedAt: '2026-01-01T00:00:00.000Z' },
+          documents: [],
+          entityTypes: [],
+          attributeTemplates: [],
+          entities: [],
+          calendars: [],
+          facts: [],
+          entityAttributes: [],
+          relationships: [],
+          notes: [],
+          entityNotes: [],
+          alerts: [],
+          alertSuppressions: [],
+          ...tables,
+        })
+      );
+
+      const { importId } = await asUser.action(api.projectImports.importProject, { storageId });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(await asUser.query(api.projectImports.get, { id: importId })).toMatchObject({
+        status: 'failed',
+        error: expect.stringContaining(error),
+      });
+    }
+  });
+
+  it('rejects files that are not project exports without creating a project', async () => {
+    const t = convexTest(schema, getModules());
+    const { asUser } = await setupAuthenticatedUser(t);
+    const storageId = await storeJson(t, JSON.stringify({ hello: 'world' }));
+
+    await expectConvexErrorCode(
+      asUser.action(api.projectImports.importProject, { storageId }),
+      'validation'
+    );
+    expect(await asUser.query(api.projects.list)).toEqual([]);
+  });
+
+  it('checks plan limits before creating anything', async () => {
+    const t = convexTest(schema, getModules());
+    const { asUser } = await setupAuthenticatedUser(t);
+    const documents = Array.from({ length: 11 }, (_, i) => ({
+      id: `d${i}`,
+      title: `Chapter ${i}`,
+      contentType: 'text',
+      wordCount: 1,
+      processingStatus: 'completed',
+      content: 'Text',
+      orderIndex: i,
+    }));
+    const storageId = await storeJson(
+      t,
+      JSON.stringify({
+        format: 'realm-sync-project',
+        version: 1,
+        project: { name: 'Too Big', exportedAt: '2026-01-01T00:00:00.000Z' },
+        documents,
+        entityTypes: [],
+        entities: [],
+        calendars: [],
+        facts: [],
+        relationships: [],
+        notes: [],
+        entityNotes: [],
+        alerts: [],
+      })
+    );
+
+    await expect(asUser.action(api.projectImports.importProject, { storageId })).rejects.toThrow(
+      /Document limit reached/
+    );
+    expect(await asUser.query(api.projects.list)).toEqual([]);
+  });
+
+  it('requires sign-in', async () => {
+    const t = convexTest(schema, getModules());
+    const storageId = await storeJson(t, '{}');
+
+    await expectConvexErrorCode(
+      t.action(api.projectImports.importProject, { storageId }),
+      'unauthenticated'
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import { convexTest } from 'convex-test';
+import { describe, it, expect } from 'vitest';
+import { api } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import schema from '../schema';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+
+const getModules = () => import.meta.glob('../**/*.ts');
+
+async function setupUser(t: ReturnType<typeof convexTest>, name: string, email: string) {
+  const userId = await t.run(async (ctx) => {
+    return await ctx.db.insert('users', { name, email, createdAt: Date.now() });
+  });
+
+  const asUser = t.withIdentity({ subject: userId });
+  return { userId, asUser };
+}
+
+async function setupProject(t: ReturnType<typeof convexTest>, userId: Id<'users'>) {
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('projects', {
+      userId,
+      name: 'Shared Campaign',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      stats: { documentCount: 0, entityCount: 0, factCount: 0, alertCount: 0, noteCount: 0 },
+    });
+  });
+}
+
+async function setupMembership(t: ReturnType<typeof convexTest>, role: 'editor' | 'viewer') {
+  const owner = await setupUser(t, 'Owner', 'owner@example.com');
+  const member = await setupUser(t, 'Member', 'member@example.com');
+  const projectId = await setupProject(t, owner.userId);
+
+  const shareId = await owner.asUser.mutation(api.projectShares.invite, {
+    projectId,
+    email: 'Member@Example.com',
+    role,
+  });
+  await member.asUser.mutation(api.projectShares.accept, { id: shareId });
+
+  return { owner, member, projectId, shareId };
+}
+
+describe('projectShares', () => {
+  describe('invite mutation', () => {
+    it('creates a pending invitation with a normalized email', async () => {
+      const t = convexTest(schema, getModules());
+      const owner = await setupUser(t, 'Owner', 'owner@example.com');
+      const projectId = await setupProject(t, owner.userId);
+
+      const shareId = await owner.asUser.mutation(api.projectShares.invite, {
+        projectId,
+        email: '  Player@Example.com ',
+        role: 'viewer',
+      });
+
+      const share = await t.run(async (ctx) => ctx.db.get(shareId));
+      expect(share?.sharedWithEmail).toBe('player@example.com');
+      expect(share?.acceptedAt).toBeUndefined();
+      expect(share?.sharedWithUserId).toBeUndefined();
+    });
+
+    it('rejects duplicate invitations', async () => {
+      const t = convexTest(schema, getModules());
+      const owner = await setupUser(t, 'Owner', 'owner@example.com');
+      const projectId = await setupProject(t, owner.userId);
+
+      await owner.asUser.mutation(api.projectShares.invite, {
+        projectId,
+        email: 'player@example.com',
+        role: 'viewer',
+      });
+
+      await expectConvexErrorCode(
+        owner.asUser.mutation(api.projectShares.invite, {
+          projectId,
+          email: 'player@example.com',
+          role: 'editor',
+        }),
+        'conflict'
+      );
+    });
+
+    it('only allows the owner to invite', async () => {
+      const t = convexTest(schema, getModules());
+      const { member, projectId } = await setupMembership(t, 'editor');
+
+      await expectConvexErrorCode(
+        member.asUser.mutation(api.projectShares.invite, {
+          projectId,
+          email: 'someone@example.com',
+          role: 'viewer',
+        }),
+        'unauthorized'
+      );
+    });
+  });
+
+  describe('accept mutation', () => {
+    it('grants no access before the invitation is accepted', async () => {
+      const t = convexTest(schema, getModules());
+      const owner = await setupUser(t, 'Owner', 'owner@example.com');
+      const member = await setupUser(t, 'Member', 'member@example.com');
+      const projectId = await setupProject(t, owner.userId);
+
+      await owner.asUser.mutation(api.projectShares.invite, {
+        projectId,
+        email: 'member@example.com',
+        role: 'viewer',
+      });
+
+      expect(await member.asUser.query(api.projects.getRole, { id: projectId })).toBeNull();
+      const invites = await member.asUser.query(api.projectShares.listMyInvites, {});
+      expect(invites).toHaveLength(1);
+      expect(invites[0].projectName).toBe('Shared Campaign');
+    });
+
+    it('rejects acceptance from a different email', async () => {
+      const t = convexTest(schema, getModules());
+      const owner = await setupUser(t, 'Owner', 'owner@example.com');
+      const stranger = await setupUser(t, 'Stranger', 'stranger@example.com');
+      const projectId = await setupProject(t, owner.userId);
+
+      const shareId = await owner.asUser.mutation(api.projectShares.invite, {
+        projectId,
+        email: 'member@example.com',
+        role: 'editor',
+      });
+
+      await expectConvexErrorCode(
+        stranger.asUser.mutation(api.projectShares.accept, { id: shareId }),
+        'unauthorized'
+      );
+    });
+
+    it('lists accepted projects as shared with the member', async () => {
+      const t = convexTest(schema, getModules());
+      const { member, projectId } = await setupMembership(t, 'viewer');
+
+      const shared = await member.asUser.query(api.projectShares.listSharedWithMe, {});
+      expect(shared).toHaveLength(1);
+      expect(shared[0].project._id).toBe(projectId);
+      expect(shared[0].role).toBe('viewer');
+    });
+  });
+
+  describe('role enforcement', () => {
+    it('lets editors create entities and documents', async () => {
+      const t = convexTest(schema, getModules());
+      const { member, projectId } = await setupMembership(t, 'editor');
+
+      expect(await member.asUser.query(api.projects.getRole, { id: projectId })).toBe('editor');
+
+      const entityId = await member.asUser.mutation(api.entities.create, {
+        projectId,
+        name: 'Mira',
+        type: 'character',
+      });
+      const documentId = await member.asUser.mutation(api.documents.create, {
+        projectId,
+        title: 'Session 1',
+        content: 'Mira arrives.',
+        contentType: 'text',
+      });
+
+      expect(entityId).toBeDefined();
+      expect(documentId).toBeDefined();
+    });
+
+    it('lets viewers read but not edit', async () => {
+      const t = convexTest(schema, getModules());
+      const { owner, member, projectId } = await setupMembership(t, 'viewer');
+
+      await owner.asUser.mutation(api.entities.create, {
+        projectId,
+        name: 'Mira',
+        type: 'character',
+        status: 'confirmed',
+      });
+
+      const entities = await member.asUser.query(api.entities.listByProject, { projectId });
+      expect(entities).toHaveLength(1);
+
+      await expectConvexErrorCode(
+        member.asUser.mutation(api.entities.create, {
+          projectId,
+          name: 'Kael',
+          type: 'character',
+        }),
+        'unauthorized'
+      );
+      await expectConvexErrorCode(
+        member.asUser.mutation(api.notes.create, {
+          projectId,
+          title: 'Theory',
+          content: 'Mira is a spy.',
+        }),
+        'unauthorized'
+      );
+      expect(await member.asUser.query(api.entities.listPending, { projectId })).toEqual([]);
+    });
+
+    it('shows collaborator emails to editors but not viewers', async () => {
+      const t = convexTest(schema, getModules());
+      const editor = await setupMembership(t, 'editor');
+      const viewer = await setupMembership(t, 'viewer');
+
+      const shares = await editor.member.asUser.query(api.projectShares.listByProject, {
+        projectId: editor.projectId,
+      });
+      expect(shares.map((share) => share.sharedWithEmail)).toEqual(['member@example.com']);
+      expect(
+        await viewer.member.asUser.query(api.projectShares.listByProject, {
+          projectId: viewer.projectId,
+        })
+      ).toEqual([]);
+    });
+
+    it('keeps project settings owner-only for editors', async () => {
+      const t = convexTest(schema, getModules());
+      const { member, projectId } = await setupMembership(t, 'editor');
+
+      await expectConvexErrorCode(
+        member.asUser.mutation(api.projects.update, { id: projectId, name: 'Renamed' }),
+        'unauthorized'
+      );
+    });
+
+    it('revokes access when the share is removed', async () => {
+      const t = convexTest(schema, getModules());
+      const { owner, member, projectId, shareId } = await setupMembership(t, 'editor');
+
+      await owner.asUser.mutation(api.projectShares.remove, { id: shareId });
+
+      expect(await member.asUser.query(api.projects.get, { id: projectId })).toBeNull();
+    });
+  });
+
+  describe('updateRole mutation', () => {
+    it('downgrades an editor to viewer', async () => {
+      const t = convexTest(schema, getModules());
+      const { owner, member, projectId, shareId } = await setupMembership(t, 'editor');
+
+      await owner.asUser.mutation(api.projectShares.updateRole, { id: shareId, role: 'viewer' });
+
+      expect(await member.asUser.query(api.projects.getRole, { id: projectId })).toBe('viewer');
+    });
+  });
+});
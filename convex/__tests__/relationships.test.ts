@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+import {
+  type TestContext,
+  createTestContext,
+  setupAuthenticatedUser,
+  setupProject,
+  setupDocument,
+  setupEntity,
+  setupOtherUser,
+  setupRelationship,
+} from './entities/helpers';
+
+describe('relationships', () => {
+  let t: TestContext;
+  let userId: Id<'users'>;
+  let asUser: ReturnType<TestContext['withIdentity']>;
+  let projectId: Id<'projects'>;
+  let jonId: Id<'entities'>;
+  let aryaId: Id<'entities'>;
+
+  beforeEach(async () => {
+    t = createTestContext();
+    const auth = await setupAuthenticatedUser(t);
+    userId = auth.userId;
+    asUser = auth.asUser;
+    projectId = await setupProject(t, userId);
+    jonId = await setupEntity(t, projectId, { name: 'Jon Snow', status: 'confirmed' });
+    aryaId = await setupEntity(t, projectId, { name: 'Arya', status: 'confirmed' });
+  });
+
+  describe('create', () => {
+    it('creates a confirmed relationship by default', async () => {
+      const id = await asUser.mutation(api.relationships.create, {
+        projectId,
+        sourceEntityId: jonId,
+        targetEntityId: aryaId,
+        type: '  sibling_of ',
+      });
+
+      const relationship = await t.run(async (ctx) => ctx.db.get(id));
+      expect(relationship?.type).toBe('sibling_of');
+      expect(relationship?.status).toBe('confirmed');
+    });
+
+    it('rejects self-relationships and blank types', async () => {
+      await expectConvexErrorCode(
+        asUser.mutation(api.relationships.create, {
+          projectId,
+          sourceEntityId: jonId,
+          targetEntityId: jonId,
+          type: 'knows',
+        }),
+        'validation'
+      );
+      await expectConvexErrorCode(
+        asUser.mutation(api.relationships.create, {
+          projectId,
+          sourceEntityId: jonId,
+          targetEntityId: aryaId,
+          type: '   ',
+        }),
+        'validation'
+      );
+    });
+
+    it('rejects duplicates of an existing relationship', async () => {
+      await setupRelationship(
+        t,
+        { projectId, sourceEntityId: jonId, targetEntityId: aryaId },
+        { type: 'sibling_of' }
+      );
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.relationships.create, {
+          projectId,
+          sourceEntityId: jonId,
+          targetEntityId: aryaId,
+          type: 'sibling_of',
+        }),
+        'conflict'
+      );
+    });
+
+    it('rejects entities from another project', async () => {
+      const otherProjectId = await setupProject(t, userId, { name: 'Other' });
+      const strangerId = await setupEntity(t, otherProjectId, { name: 'Stranger' });
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.relationships.create, {
+          projectId,
+          sourceEntityId: jonId,
+          targetEntityId: strangerId,
+          type: 'knows',
+        }),
+        'not_found'
+      );
+    });
+
+    it('requires edit access to the project', async () => {
+      const otherUserId = await setupOtherUser(t);
+      const asOther = t.withIdentity({ subject: otherUserId });
+
+      await expectConvexErrorCode(
+        asOther.mutation(api.relationships.create, {
+          projectId,
+          sourceEntityId: jonId,
+          targetEntityId: aryaId,
+          type: 'knows',
+        }),
+        'unauthorized'
+      );
+    });
+  });
+
+  describe('review', () => {
+    it('confirms and rejects pending relationships', async () => {
+      const first = await setupRelationship(
+        t,
+        { projectId, sourceEntityId: jonId, targetEntityId: aryaId },
+        { status: 'pending', type: 'sibling_of' }
+      );
+      const second = await setupRelationship(
+        t,
+        { projectId, sourceEntityId: aryaId, targetEntityId: jonId },
+        { status: 'pending', type: 'rivals' }
+      );
+
+      const pending = await asUser.query(api.relationships.listPending, { projectId });
+      expect(pending).toHaveLength(2);
+      expect(pending.find((r) => r._id === first)?.source?.name).toBe('Jon Snow');
+
+      await asUser.mutation(api.relationships.confirm, { id: first });
+      await asUser.mutation(api.relationships.reject, { id: second });
+
+      const relationships = await t.run(async (ctx) => {
+        return await Promise.all([ctx.db.get(first), ctx.db.get(second)]);
+      });
+      expect(relationships.map((r) => r?.status)).toEqual(['confirmed', 'rejected']);
+      expect(await asUser.query(api.relationships.listPending, { projectId })).toEqual([]);
+    });
+
+    it('lists relationships for a document with entity names', async () => {
+      const documentId = await setupDocument(t, projectId);
+      await setupRelationship(
+        t,
+        { projectId, sourceEntityId: jonId, targetEntityId: aryaId },
+        { documentId }
+      );
+
+      const relationships = await asUser.query(api.relationships.listByDocument, { documentId });
+
+      expect(relationships).toHaveLength(1);
+      expect(relationships[0].target?.name).toBe('Arya');
+    });
+  });
+
+  describe('listByEntity', () => {
+    it('returns outgoing and incoming relationships with direction', async () => {
+      const ghostId = await setupEntity(t, projectId, { name: 'Ghost', status: 'confirmed' });
+      await setupRelationship(t, { projectId, sourceEntityId: jonId, targetEntityId: ghostId });
+      await setupRelationship(t, { projectId, sourceEntityId: aryaId, targetEntityId: jonId });
+
+      const relationships = await asUser.query(api.relationships.listByEntity, {
+        entityId: jonId,
+      });
+
+      expect(relationships.map((r) => [r.direction, r.source?.name, r.target?.name])).toEqual([
+        ['outgoing', 'Jon Snow', 'Ghost'],
+        ['incoming', 'Arya', 'Jon Snow'],
+      ]);
+    });
+
+    it('returns nothing to users outside the project', async () => {
+      await setupRelationship(t, { projectId, sourceEntityId: jonId, targetEntityId: aryaId });
+      const otherUserId = await setupOtherUser(t);
+      const asOther = t.withIdentity({ subject: otherUserId });
+
+      expect(await asOther.query(api.relationships.listByEntity, { entityId: jonId })).toEqual([]);
+    });
+  });
+
+  describe('entity lifecycle', () => {
+    it('rewires relationships when entities merge and drops self-loops', async () => {
+      const snowId = await setupEntity(t, projectId, { name: 'Lord Snow', status: 'confirmed' });
+      const kept = await setupRelationship(t, {
+        projectId,
+        sourceEntityId: aryaId,
+        targetEntityId: snowId,
+      });
+      const loop = await setupRelationship(t, {
+        projectId,
+        sourceEntityId: snowId,
+        targetEntityId: jonId,
+      });
+
+      await asUser.mutation(api.entities.merge, { sourceId: snowId, targetId: jonId });
+
+      const [keptAfter, loopAfter] = await t.run(async (ctx) => {
+        return await Promise.all([ctx.db.get(kept), ctx.db.get(loop)]);
+      });
+      expect(keptAfter?.targetEntityId).toBe(jonId);
+      expect(loopAfter).toBeNull();
+    });
+
+    it('deletes relationships when an entity is removed', async () => {
+      const id = await setupRelationship(t, {
+        projectId,
+        sourceEntityId: jonId,
+        targetEntityId: aryaId,
+      });
+
+      await asUser.mutation(api.entities.remove, { id: aryaId });
+
+      expect(await t.run(async (ctx) => ctx.db.get(id))).toBeNull();
+    });
+
+    it('deletes relationships extracted from a removed document', async () => {
+      const documentId = await setupDocument(t, projectId);
+      const id = await setupRelationship(
+        t,
+        { projectId, sourceEntityId: jonId, targetEntityId: aryaId },
+        { documentId }
+      );
+
+      await asUser.mutation(api.documents.remove, { id: documentId });
+
+      expect(await t.run(async (ctx) => ctx.db.get(id))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { convexTest } from 'convex-test';
+import { describe, it, expect } from 'vitest';
+import { api } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import schema from '../schema';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+
+const getModules = () => import.meta.glob('../**/*.ts');
+
+async function setupUser(t: ReturnType<typeof convexTest>, name: string, email: string) {
+  const userId = await t.run(async (ctx) => {
+    return await ctx.db.insert('users', { name, email, createdAt: Date.now() });
+  });
+
+  const asUser = t.withIdentity({ subject: userId });
+  return { userId, asUser };
+}
+
+async function setupCampaign(
+  t: ReturnType<typeof convexTest>,
+  projectType: 'ttrpg' | 'original-fiction' = 'ttrpg'
+) {
+  const gm = await setupUser(t, 'GM', 'gm@example.com');
+  const player = await setupUser(t, 'Player', 'player@example.com');
+
+  const projectId = await t.run(async (ctx) => {
+    return await ctx.db.insert('projects', {
+      userId: gm.userId,
+      name: 'Thornhaven',
+      projectType,
+      revealToPlayersEnabled: true,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  });
+
+  const shareId = await gm.asUser.mutation(api.projectShares.invite, {
+    projectId,
+    email: 'player@example.com',
+    role: 'viewer',
+  });
+  await player.asUser.mutation(api.projectShares.accept, { id: shareId });
+
+  return { gm, player, projectId };
+}
+
+async function insertEntity(
+  t: ReturnType<typeof convexTest>,
+  projectId: Id<'projects'>,
+  name: string,
+  revealed = true
+) {
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('entities', {
+      projectId,
+      name,
+      type: 'character',
+      description: `${name} of Thornhaven`,
+      aliases: [],
+      status: 'confirmed',
+      revealedToViewers: revealed,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+async function insertDocument(
+  t: ReturnType<typeof convexTest>,
+  projectId: Id<'projects'>,
+  title: string,
+  revealedToViewers?: boolean
+) {
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('documents', {
+      projectId,
+      title,
+      content: `${title} content`,
+      contentType: 'markdown',
+      orderIndex: 0,
+      wordCount: 2,
+      processingStatus: 'completed',
+      revealedToViewers,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+async function insertFact(
+  t: ReturnType<typeof convexTest>,
+  projectId: Id<'projects'>,
+  entityId: Id<'entities'>,
+  predicate: string,
+  object: string,
+  options: { documentId?: Id<'documents'>; revealedToViewers?: boolean } = {}
+) {
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('facts', {
+      projectId,
+      entityId,
+      documentId: options.documentId,
+      subject: 'subject',
+      predicate,
+      object,
+      confidence: 1,
+      evidenceSnippet: `${predicate} ${object}`,
+      status: 'confirmed',
+      revealedToViewers: options.revealedToViewers,
+      createdAt: Date.now(),
+    });
+  });
+}
+
+async function insertRelationship(
+  t: ReturnType<typeof convexTest>,
+  projectId: Id<'projects'>,
+  sourceEntityId: Id<'entities'>,
+  targetEntityId: Id<'entities'>,
+  type: string
+) {
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('relationships', {
+      projectId,
+      sourceEntityId,
+      targetEntityId,
+      type,
+      confidence: 1,
+      status: 'confirmed',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+describe('fact and document secrecy', () => {
+  it('marks facts GM-only and reveals them again', async () => {
+    const t = convexTest(schema, getModules());
+    const { gm, player, projectId } = await setupCampaign(t);
+    const miraId = await insertEntity(t, projectId, 'Lady Mira');
+    const factId = await insertFact(t, projectId, miraId, 'is secretly', 'a spy');
+
+    await gm.asUser.mutation(api.facts.hideFromPlayers, { id: factId });
+    let result = await player.asUser.query(api.playerView.getEntity, { entityId: miraId });
+    expect(result?.facts).toEqual([]);
+
+    await gm.asUser.mutation(api.facts.revealToPlayers, { id: factId });
+    const fact = await t.run(async (ctx) => ctx.db.get(factId));
+    expect(fact?.revealedToViewers).toBe(true);
+    expect(fact?.revealedAt).toBeTypeOf('number');
+
+    result = await player.asUser.query(api.playerView.getEntity, { entityId: miraId });
+    expect(result?.facts.map((f) => f.predicate)).toEqual(['is secretly']);
+  });
+
+  it('hides facts extracted from GM-only documents unless revealed individually', async () => {
+    const t = convexTest(schema, getModules());
+    const { gm, player, projectId } = await setupCampaign(t);
+    const miraId = await insertEntity(t, projectId, 'Lady Mira');
+    const notesId = await insertDocument(t, projectId, 'GM Notes');
+    await insertFact(t, projectId, miraId, 'serves', 'the Cult', { documentId: notesId });
+    await insertFact(t, projectId, miraId, 'lives in', 'Thornhaven', {
+      documentId: notesId,
+      revealedToViewers: true,
+    });
+
+    await gm.asUser.mutation(api.documents.hideFromPlayers, { id: notesId });
+
+    const result = await player.asUser.query(api.playerView.getEntity, { entityId: miraId });
+    expect(result?.facts.map((f) => f.predicate)).toEqual(['lives in']);
+    expect(result?.facts[0].document).toBeNull();
+  });
+
+  it('exposes revealed documents and their evidence to players', async () => {
+    const t = convexTest(schema, getModules());
+    const { gm, player, projectId } = await setupCampaign(t);
+    const miraId = await insertEntity(t, projectId, 'Lady Mira');
+    const handoutId = await insertDocument(t, projectId, 'Letter from Mira');
+    await insertDocument(t, projectId, 'Session Prep');
+    await insertFact(t, projectId, miraId, 'signs as', 'M.', { documentId: handoutId });
+
+    expect(await player.asUser.query(api.playerView.getDocument, { documentId: handoutId })).toBe(
+      null
+    );
+
+    await gm.asUser.mutation(api.documents.revealToPlayers, { id: handoutId });
+
+    const documents = await player.asUser.query(api.playerView.listDocuments, { projectId });
+    expect(documents.map((d) => d.title)).toEqual(['Letter from Mira']);
+
+    const handout = await player.asUser.query(api.playerView.getDocument, {
+      documentId: handoutId,
+    });
+    expect(handout?.content).toBe('Letter from Mira content');
+
+    const result = await player.asUser.query(api.playerView.getEntity, { entityId: miraId });
+    expect(result?.facts[0].evidenceSnippet).toBe('signs as M.');
+    expect(result?.facts[0].document?._id).toBe(handoutId);
+  });
+
+  it('rejects secrecy changes outside TTRPG projects', async () => {
+    const t = convexTest(schema, getModules());
+    const { gm, projectId } = await setupCampaign(t, 'original-fiction');
+    const miraId = await insertEntity(t, projectId, 'Lady Mira');
+    const factId = await insertFact(t, projectId, miraId, 'serves', 'the Queen');
+    const documentId = await insertDocument(t, projectId, 'Chapter 1');
+
+    await expectConvexErrorCode(
+      gm.asUser.mutation(api.facts.hideFromPlayers, { id: factId }),
+      'not_allowed'
+    );
+    await expectConvexErrorCode(
+      gm.asUser.mutation(api.documents.revealToPlayers, { id: documentId }),
+      'not_allowed'
+    );
+  });
+
+  it('filters the relationship graph in player view', async () => {
+    const t = convexTest(schema, getModules());
+    const { gm, player, projectId } = await setupCampaign(t);
+    const miraId = await insertEntity(t, projectId, 'Lady Mira');
+    const elaraId = await insertEntity(t, projectId, 'Queen Elara');
+    const shadowbaneId = await insertEntity(t, projectId, 'Shadowbane', false);
+    await insertRelationship(t, projectId, miraId, elaraId, 'serves');
+    await insertRelationship(t, projectId, miraId, shadowbaneId, 'fears');
+
+    const gmGraph = await gm.asUser.query(api.entities.getRelationshipGraph, { projectId });
+    expect(gmGraph.nodes).toHaveLength(3);
+
+    const previewGraph = await gm.asUser.query(api.entities.getRelationshipGraph, {
+      projectId,
+      playerView: true,
+    });
+    expect(previewGraph.nodes.map((n) => n.name).toSorted()).toEqual(['Lady Mira', 'Queen Elara']);
+
+    const playerGraph = await player.asUser.query(api.entities.getRelationshipGraph, {
+      projectId,
+    });
+    expect(playerGraph.nodes).toHaveLength(2);
+    expect(playerGraph.edges).toHaveLength(1);
+  });
+
+  it('omits GM-only documents from the player export', async () => {
+    const t = convexTest(schema, getModules());
+    const { gm, projectId } = await setupCampaign(t);
+    await insertDocument(t, projectId, 'Handout', true);
+    await insertDocument(t, projectId, 'GM Notes', false);
+    await insertDocument(t, projectId, 'Chapter 1');
+
+    const data = await gm.asUser.query(api.export.gatherExportData, {
+      projectId,
+      includeUnrevealed: false,
+    });
+
+    expect(data?.documents.map((d) => d.title).toSorted()).toEqual(['Chapter 1', 'Handout']);
+    expect(data?.documents.find((d) => d.title === 'Handout')?.content).toBe('Handout content');
+    expect(data?.documents.find((d) => d.title === 'Chapter 1')?.content).toBeUndefined();
+  });
+});
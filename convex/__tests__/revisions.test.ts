@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+import {
+  type TestContext,
+  createTestContext,
+  setupAuthenticatedUser,
+  setupOtherUser,
+  setupProject,
+  setupDocument,
+  setupEntity,
+  setupFact,
+  setupRelationship,
+} from './entities/helpers';
+
+describe('revisions', () => {
+  let t: ReturnType<typeof createTestContext>;
+  let asUser: ReturnType<TestContext['withIdentity']>;
+  let projectId: Id<'projects'>;
+  let documentId: Id<'documents'>;
+
+  beforeEach(async () => {
+    t = createTestContext();
+    const auth = await setupAuthenticatedUser(t);
+    asUser = auth.asUser;
+    projectId = await setupProject(t, auth.userId);
+    documentId = await setupDocument(t, projectId, { title: 'Chapter 1' });
+  });
+
+  describe('listByEntity', () => {
+    it('records the original state and each edit with a diff', async () => {
+      const entityId = await setupEntity(t, projectId, { name: 'Aria', aliases: ['Ari'] });
+
+      await asUser.mutation(api.entities.update, { id: entityId, description: 'A ranger' });
+      await asUser.mutation(api.entities.update, { id: entityId, name: 'Aria Vane' });
+
+      const history = await asUser.query(api.revisions.listByEntity, { entityId });
+      expect(history.map((r) => r.action)).toEqual(['update', 'update', 'initial']);
+      expect(history[0]).toMatchObject({
+        label: 'Aria Vane',
+        userName: 'Test User',
+        isLatest: true,
+        changes: [{ field: 'name', before: 'Aria', after: 'Aria Vane' }],
+      });
+      expect(history[1].changes).toEqual([
+        { field: 'description', before: undefined, after: 'A ranger' },
+      ]);
+      expect(history[2].isLatest).toBe(false);
+    });
+
+    it('includes fact revisions filed under the entity', async () => {
+      const entityId = await setupEntity(t, projectId, { name: 'Aria' });
+      const factId = await setupFact(
+        t,
+        { projectId, entityId, documentId },
+        { predicate: 'eye_color', object: 'green' }
+      );
+
+      await asUser.mutation(api.facts.update, { id: factId, object: 'grey' });
+
+      const history = await asUser.query(api.revisions.listByEntity, { entityId });
+      expect(history[0]).toMatchObject({
+        targetType: 'fact',
+        factId,
+        changes: [{ field: 'object', before: 'green', after: 'grey' }],
+      });
+    });
+
+    it('hides history from users without access', async () => {
+      const entityId = await setupEntity(t, projectId, { name: 'Aria' });
+      await asUser.mutation(api.entities.update, { id: entityId, name: 'Aria Vane' });
+
+      const otherUserId = await setupOtherUser(t);
+      const asOther = t.withIdentity({ subject: otherUserId });
+      expect(await asOther.query(api.revisions.listByEntity, { entityId })).toEqual([]);
+    });
+  });
+
+  describe('revert', () => {
+    it('restores an earlier entity snapshot as a new revision', async () => {
+      const entityId = await setupEntity(t, projectId, { name: 'Aria' });
+      await asUser.mutation(api.entities.update, { id: entityId, name: 'Aria Vane' });
+
+      const history = await asUser.query(api.revisions.listByEntity, { entityId });
+      const original = history.find((r) => r.action === 'initial')!;
+      await asUser.mutation(api.revisions.revert, { id: original._id });
+
+      const entity = await t.run(async (ctx) => ctx.db.get(entityId));
+      expect(entity?.name).toBe('Aria');
+      const after = await asUser.query(api.revisions.listByEntity, { entityId });
+      expect(after[0]).toMatchObject({ action: 'revert', isLatest: true });
+    });
+
+    it('restores a rejected fact and recounts it', async () => {
+      const entityId = await setupEntity(t, projectId, { name: 'Aria' });
+      const factId = await setupFact(
+        t,
+        { projectId, entityId, documentId },
+        { status: 'confirmed' }
+      );
+      await t.run(async (ctx) => {
+        const project = await ctx.db.get(projectId);
+        await ctx.db.patch(projectId, { stats: { ...project!.stats!, factCount: 1 } });
+      });
+
+      await asUser.mutation(api.facts.update, { id: factId, status: 'rejected' });
+      const history = await asUser.query(api.revisions.listByEntity, { entityId });
+      const original = history.find((r) => r.action === 'initial')!;
+      await asUser.mutation(api.revisions.revert, { id: original._id });
+
+      const fact = await t.run(async (ctx) => ctx.db.get(factId));
+      const project = await t.run(async (ctx) => ctx.db.get(projectId));
+      expect(fact?.status).toBe('confirmed');
+      expect(project?.stats?.factCount).toBe(1);
+    });
+
+    it('restores document content and queues it for reprocessing', async () => {
+      await asUser.mutation(api.documents.update, { id: documentId, content: 'Draft two words' });
+
+      const history = await asUser.query(api.revisions.listByDocument, { documentId });
+      expect(history.map((r) => r.action)).toEqual(['update', 'initial']);
+      await asUser.mutation(api.revisions.revert, { id: history[1]._id });
+
+      const document = await t.run(async (ctx) => ctx.db.get(documentId));
+      expect(document).toMatchObject({ content: 'Test content', wordCount: 2 });
+      expect(document?.processingStatus).toBe('pending');
+    });
+
+    it('requires edit access', async () => {
+      const entityId = await setupEntity(t, projectId, { name: 'Aria' });
+      await asUser.mutation(api.entities.update, { id: entityId, name: 'Aria Vane' });
+      const [latest] = await asUser.query(api.revisions.listByEntity, { entityId });
+
+      const otherUserId = await setupOtherUser(t);
+      const asOther = t.withIdentity({ subject: otherUserId });
+      await expectConvexErrorCode(
+        asOther.mutation(api.revisions.revert, { id: latest._id }),
+        'unauthorized'
+      );
+    });
+  });
+
+  describe('unmerge', () => {
+    it('splits a merged entity back out with its facts and relationships', async () => {
+      const targetId = await setupEntity(t, projectId, { name: 'Aria', aliases: ['Ari'] });
+      const sourceId = await setupEntity(t, projectId, {
+        name: 'The Ranger',
+        aliases: ['Ranger'],
+        status: 'confirmed',
+      });
+      const otherId = await setupEntity(t, projectId, { name: 'Bram' });
+      const factId = await setupFact(t, { projectId, entityId: sourceId, documentId });
+      const rivalId = await setupRelationship(
+        t,
+        { projectId, sourceEntityId: otherId, targetEntityId: sourceId },
+        { type: 'rival_of' }
+      );
+      await setupRelationship(
+        t,
+        { projectId, sourceEntityId: sourceId, targetEntityId: targetId },
+        { type: 'disguise_of' }
+      );
+      await t.run(async (ctx) => {
+        const project = await ctx.db.get(projectId);
+        await ctx.db.patch(projectId, { stats: { ...project!.stats!, entityCount: 3 } });
+      });
+
+      await asUser.mutation(api.entities.merge, { sourceId, targetId });
+      const merged = await t.run(async (ctx) => ctx.db.get(targetId));
+      expect(merged?.aliases).toEqual(expect.arrayContaining(['Ari', 'The Ranger', 'Ranger']));
+
+      const history = await asUser.query(api.revisions.listByEntity, { entityId: targetId });
+      const mergeRevision = history.find((r) => r.action === 'merge')!;
+      expect(mergeRevision).toMatchObject({ summary: 'Merged The Ranger', canUnmerge: true });
+
+      const restoredId = await asUser.mutation(api.revisions.unmerge, { id: mergeRevision._id });
+
+      const state = await t.run(async (ctx) => ({
+        restored: await ctx.db.get(restoredId),
+        target: await ctx.db.get(targetId),
+        fact: await ctx.db.get(factId),
+        rival: await ctx.db.get(rivalId),
+        between: await ctx.db
+          .query('relationships')
+          .withIndex('by_source', (q) => q.eq('sourceEntityId', restoredId))
+          .collect(),
+        project: await ctx.db.get(projectId),
+      }));
+      expect(state.restored).toMatchObject({
+        name: 'The Ranger',
+        aliases: ['Ranger'],
+        status: 'confirmed',
+      });
+      expect(state.target?.aliases).toEqual(['Ari']);
+      expect(state.fact?.entityId).toBe(restoredId);
+      expect(state.rival?.targetEntityId).toBe(restoredId);
+      expect(state.between.map((r) => [r.type, r.targetEntityId])).toEqual([
+        ['disguise_of', targetId],
+      ]);
+      expect(state.project?.stats?.entityCount).toBe(3);
+
+      const restoredHistory = await asUser.query(api.revisions.listByEntity, {
+        entityId: restoredId,
+      });
+      expect(restoredHistory[0]).toMatchObject({
+        action: 'unmerge',
+        summary: 'Split The Ranger back out of Aria',
+      });
+    });
+
+    it('rejects undoing the same merge twice', async () => {
+      const targetId = await setupEntity(t, projectId, { name: 'Aria' });
+      const sourceId = await setupEntity(t, projectId, { name: 'The Ranger' });
+      await asUser.mutation(api.entities.merge, { sourceId, targetId });
+
+      const history = await asUser.query(api.revisions.listByEntity, { entityId: targetId });
+      const mergeRevision = history.find((r) => r.action === 'merge')!;
+      await asUser.mutation(api.revisions.unmerge, { id: mergeRevision._id });
+
+      const after = await asUser.query(api.revisions.listByEntity, { entityId: targetId });
+      expect(after.find((r) => r.action === 'merge')?.canUnmerge).toBe(false);
+      await expectConvexErrorCode(
+        asUser.mutation(api.revisions.unmerge, { id: mergeRevision._id }),
+        'conflict'
+      );
+    });
+
+    it('rejects revisions that are not merges', async () => {
+      const entityId = await setupEntity(t, projectId, { name: 'Aria' });
+      await asUser.mutation(api.entities.update, { id: entityId, name: 'Aria Vane' });
+      const [latest] = await asUser.query(api.revisions.listByEntity, { entityId });
+
+      await expectConvexErrorCode(
+        asUser.mutation(api.revisions.unmerge, { id: latest._id }),
+        'validation'
+      );
+    });
+  });
+
+  describe('document history', () => {
+    it('folds autosaves into one revision until the document is extracted', async () => {
+      await asUser.mutation(api.documents.update, { id: documentId, content: 'First draft' });
+      await asUser.mutation(api.documents.update, { id: documentId, content: 'Second draft' });
+
+      const history = await asUser.query(api.revisions.listByDocument, { documentId });
+      expect(history.map((r) => r.action)).toEqual(['update', 'initial']);
+      expect(history[0].changes).toEqual([{ field: 'content', before: null, after: null }]);
+
+      await t.mutation(internal.llm.extract.processExtractionResult, {
+        documentId,
+        result: { entities: [], facts: [], relationships: [] },
+      });
+      await asUser.mutation(api.documents.update, { id: documentId, content: 'Third draft' });
+
+      const after = await asUser.query(api.revisions.listByDocument, { documentId });
+      expect(after.map((r) => r.action)).toEqual(['update', 'update', 'initial']);
+    });
+
+    it('compares a revision with the one before it', async () => {
+      await asUser.mutation(api.documents.update, {
+        id: documentId,
+        title: 'Chapter One',
+        content: 'Rewritten',
+      });
+      const [latest] = await asUser.query(api.revisions.listByDocument, { documentId });
+
+      const comparison = await asUser.query(api.revisions.compareDocument, { id: latest._id });
+      expect(comparison).toMatchObject({
+        before: { title: 'Chapter 1', content: 'Test content' },
+        after: { title: 'Chapter One', content: 'Rewritten' },
+      });
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { scheduleEmbeddingSync } from '../embeddings';
+import {
+  type TestContext,
+  createTestContext,
+  setupAuthenticatedUser,
+  setupOtherUser,
+  setupProject,
+  setupDocument,
+  setupEntity,
+  setupFact,
+} from './entities/helpers';
+
+describe('search', () => {
+  let t: ReturnType<typeof createTestContext>;
+  let asUser: ReturnType<TestContext['withIdentity']>;
+  let userId: Id<'users'>;
+  let projectId: Id<'projects'>;
+  let documentId: Id<'documents'>;
+  let kaelId: Id<'entities'>;
+
+  beforeAll(() => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+  });
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(async () => {
+    t = createTestContext();
+    const auth = await setupAuthenticatedUser(t);
+    asUser = auth.asUser;
+    userId = auth.userId;
+    projectId = await setupProject(t, userId);
+    documentId = await setupDocument(t, projectId, {
+      title: 'The Ember Road',
+      content: 'Kael rode north along the ember road until the city gates closed behind him.',
+    });
+    kaelId = await setupEntity(t, projectId, {
+      name: 'Kael',
+      aliases: ['The Ashen Knight'],
+      status: 'confirmed',
+      description: 'A wandering knight from the ember coast',
+    });
+  });
+
+  async function setupNote(title: string, content: string) {
+    return await t.run(async (ctx) =>
+      ctx.db.insert('notes', {
+        projectId,
+        userId,
+        title,
+        content,
+        pinned: false,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      })
+    );
+  }
+
+  async function embedProject() {
+    await t.run(async (ctx) => scheduleEmbeddingSync(ctx, projectId));
+    await t.action(internal.embeddings.runSync, { projectId });
+  }
+
+  describe('canon', () => {
+    it('ranks results from every type together', async () => {
+      await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'carries', object: 'an ember blade', status: 'confirmed' }
+      );
+      await setupNote('Ember magic', 'Open questions about how the ember rites work.');
+      await t.run(async (ctx) =>
+        ctx.db.insert('entityNotes', {
+          entityId: kaelId,
+          projectId,
+          userId,
+          content: 'Remember the ember scar on his hand.',
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        })
+      );
+
+      const results = await asUser.query(api.search.canon, { projectId, query: 'ember' });
+
+      expect(new Set(results.map((result) => result.type))).toEqual(
+        new Set(['document', 'entity', 'fact', 'note', 'entityNote'])
+      );
+      // Title matches outrank body matches.
+      expect(results[0]).toMatchObject({ type: 'document', title: 'The Ember Road' });
+      expect(results.map((result) => result.score)).toEqual(
+        results.map((result) => result.score).toSorted((a, b) => b - a)
+      );
+    });
+
+    it('highlights matched terms inside the snippet', async () => {
+      const [result] = await asUser.query(api.search.canon, {
+        projectId,
+        query: 'gates',
+        types: ['document'],
+      });
+
+      const { text, highlights } = result.snippet;
+      expect(highlights).toHaveLength(1);
+      expect(text.slice(highlights[0].start, highlights[0].end)).toBe('gates');
+    });
+
+    it('filters by status and document', async () => {
+      const otherDocId = await setupDocument(t, projectId, {
+        title: 'Chapter 2',
+        content: 'Nothing here',
+      });
+      await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'title', object: 'knight of the ember', status: 'pending' }
+      );
+      await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId: otherDocId },
+        { predicate: 'rank', object: 'ember captain', status: 'confirmed' }
+      );
+      await setupFact(
+        t,
+        { projectId, entityId: kaelId, documentId },
+        { predicate: 'rank', object: 'ember squire', status: 'rejected' }
+      );
+
+      const pending = await asUser.query(api.search.canon, {
+        projectId,
+        query: 'ember',
+        status: 'pending',
+      });
+      expect(pending.map((result) => result.subtitle)).toEqual(['title: knight of the ember']);
+
+      const fromOtherDoc = await asUser.query(api.search.canon, {
+        projectId,
+        query: 'ember',
+        types: ['fact'],
+        documentId: otherDocId,
+      });
+      expect(fromOtherDoc.map((result) => result.subtitle)).toEqual(['rank: ember captain']);
+
+      const facts = await asUser.query(api.search.canon, {
+        projectId,
+        query: 'ember',
+        types: ['fact'],
+      });
+      expect(facts.map((result) => result.subtitle)).not.toContain('rank: ember squire');
+    });
+
+    it('returns nothing to users without access', async () => {
+      const otherId = await setupOtherUser(t);
+      const asOther = t.withIdentity({ subject: otherId });
+
+      expect(await asOther.query(api.search.canon, { projectId, query: 'ember' })).toEqual([]);
+    });
+  });
+
+  describe('semantic', () => {
+    it('finds related records from the stored embeddings', async () => {
+      const noteId = await setupNote('Travel log', 'The wandering knights of the coast');
+      await embedProject();
+
+      const results = await asUser.action(api.search.semantic, {
+        projectId,
+        query: 'wandering knight',
+      });
+      expect(results[0]).toMatchObject({ type: 'entity', id: kaelId });
+      expect(results.map((result) => result.id)).toContain(noteId);
+    });
+
+    it('does not embed anything itself', async () => {
+      const noteId = await setupNote('Travel log', 'The wandering knights of the coast');
+
+      const results = await asUser.action(api.search.semantic, {
+        projectId,
+        query: 'wandering knight',
+      });
+      expect(results).toEqual([]);
+      const stored = await t.run(async (ctx) => ctx.db.query('embeddings').collect());
+      expect(stored).toHaveLength(0);
+
+      await embedProject();
+      await t.run(async (ctx) => ctx.db.delete(noteId));
+      const later = await asUser.action(api.search.semantic, {
+        projectId,
+        query: 'wandering knight',
+      });
+      expect(later.map((result) => result.id)).not.toContain(noteId);
+    });
+
+    it('applies type filters', async () => {
+      await embedProject();
+      const results = await asUser.action(api.search.semantic, {
+        projectId,
+        query: 'ember road',
+        types: ['document'],
+      });
+
+      expect(results.map((result) => result.type)).toEqual(['document']);
+    });
+
+    it('returns nothing to users without access', async () => {
+      const otherId = await setupOtherUser(t);
+      const asOther = t.withIdentity({ subject: otherId });
+      await embedProject();
+
+      expect(await asOther.action(api.search.semantic, { projectId, query: 'knight' })).toEqual([]);
+    });
+  });
+});
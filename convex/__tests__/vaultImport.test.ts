@@ -0,0 +1,384 @@
+import { convexTest } from 'convex-test';
+import { afterAll, afterEach, beforeAll, describe, it, expect, vi } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { api } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import schema from '../schema';
+import { MAX_INLINE_CONTENT_BYTES } from '../lib/constants';
+import { expectConvexErrorCode } from '../../tests/convex/testUtils';
+
+const getModules = () => import.meta.glob('../**/*.ts');
+
+const VAULT = zipSync({
+  'World/Characters/Aria Vance.md': strToU8(
+    '---\naliases: [Ari]\ndescription: A wandering ranger.\nallies: "[[Bram Holt]]"\n---\nAria guards the gates of [[Ironhold]].'
+  ),
+  'World/Characters/Bram Holt.md': strToU8('---\naliases: [Old Bram]\n---\nA smith.'),
+  'World/Maps/Ironhold.md': strToU8('A fortress in the north.'),
+  'World/Sessions/Session 1.md': strToU8('The party met [[Aria Vance]].'),
+});
+
+async function setupAuthenticatedUser(t: ReturnType<typeof convexTest>) {
+  const userId = await t.run(async (ctx) => {
+    return await ctx.db.insert('users', {
+      name: 'Test User',
+      email: 'test@example.com',
+      createdAt: Date.now(),
+    });
+  });
+
+  const asUser = t.withIdentity({ subject: userId });
+  return { userId, asUser };
+}
+
+async function setupProject(t: ReturnType<typeof convexTest>, userId: Id<'users'>) {
+  return await t.run(async (ctx) => {
+    return await ctx.db.insert('projects', {
+      userId,
+      name: 'Test Project',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      stats: { documentCount: 0, entityCount: 1, factCount: 0, alertCount: 0, noteCount: 0 },
+    });
+  });
+}
+
+async function insertBram(t: ReturnType<typeof convexTest>, projectId: Id<'projects'>) {
+  return await t.run(async (ctx) =>
+    ctx.db.insert('entities', {
+      projectId,
+      name: 'Bram Holt',
+      type: 'character',
+      aliases: ['Bram'],
+      status: 'pending',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    })
+  );
+}
+
+async function storeVault(t: ReturnType<typeof convexTest>, vault = VAULT) {
+  return await t.run(async (ctx) =>
+    ctx.storage.store(new Blob([vault], { type: 'application/zip' }))
+  );
+}
+
+async function runImport(
+  t: ReturnType<typeof convexTest>,
+  asUser: ReturnType<ReturnType<typeof convexTest>['withIdentity']>,
+  args: {
+    projectId: Id<'projects'>;
+    storageId: Id<'_storage'>;
+    resolutions?: { name: string; resolution: 'merge' | 'skip' | 'create' }[];
+  }
+) {
+  const importId = await asUser.action(api.vaultImport.apply, { ...args, fileName: 'World.zip' });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+  return await asUser.query(api.vaultImport.get, { id: importId });
+}
+
+async function listProjectRows<T extends 'documents' | 'entities' | 'relationships'>(
+  t: ReturnType<typeof convexTest>,
+  table: T,
+  projectId: Id<'projects'>
+) {
+  const rows = await t.run(async (ctx) => ctx.db.query(table).collect());
+  return rows.filter((row) => row.projectId === projectId);
+}
+
+describe('vaultImport', () => {
+  // Finishing scheduled functions also runs the embedding sync that imports schedule.
+  beforeAll(() => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+  });
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('preview action', () => {
+    it('lists what would be imported without writing anything', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const bramId = await insertBram(t, projectId);
+      const storageId = await storeVault(t);
+
+      const preview = await asUser.action(api.vaultImport.preview, {
+        projectId,
+        storageId,
+        fileName: 'World.zip',
+      });
+
+      expect(preview).toMatchObject({
+        format: 'markdown',
+        documentCount: 4,
+        relationshipCount: 1,
+        unresolvedLinks: ['Ironhold'],
+        skipped: [],
+      });
+      expect(preview.entities).toEqual([
+        { name: 'Aria Vance', typeLabel: 'character', aliases: ['Ari'], conflict: null },
+        {
+          name: 'Bram Holt',
+          typeLabel: 'character',
+          aliases: ['Old Bram'],
+          conflict: { id: bramId, name: 'Bram Holt', type: 'character' },
+        },
+      ]);
+      expect(await listProjectRows(t, 'documents', projectId)).toEqual([]);
+    });
+
+    it('lists notes too long to store inline as skipped', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const storageId = await storeVault(
+        t,
+        zipSync({
+          'Atlas.md': strToU8('x'.repeat(MAX_INLINE_CONTENT_BYTES + 1)),
+          'Ironhold.md': strToU8('A fortress in the north.'),
+        })
+      );
+
+      const preview = await asUser.action(api.vaultImport.preview, {
+        projectId,
+        storageId,
+        fileName: 'World.zip',
+      });
+      expect(preview).toMatchObject({
+        documentCount: 1,
+        skipped: [{ path: 'Atlas.md', reason: 'Note is too long to store as one document.' }],
+      });
+    });
+
+    it('rejects users who cannot edit the project', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const storageId = await storeVault(t);
+      const otherUserId = await t.run(async (ctx) =>
+        ctx.db.insert('users', { name: 'Other', email: 'other@example.com', createdAt: Date.now() })
+      );
+
+      await expectConvexErrorCode(
+        t
+          .withIdentity({ subject: otherUserId })
+          .action(api.vaultImport.preview, { projectId, storageId, fileName: 'World.zip' }),
+        'unauthorized'
+      );
+    });
+  });
+
+  describe('apply action', () => {
+    it('creates documents, confirmed entities and linked relationships', async () => {
+      vi.useFakeTimers();
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const bramId = await insertBram(t, projectId);
+      const storageId = await storeVault(t);
+
+      const job = await runImport(t, asUser, { projectId, storageId });
+      expect(job).toMatchObject({ status: 'completed', importedRecords: 7, totalRecords: 7 });
+      expect(job?.result).toEqual({
+        documentsCreated: 4,
+        entitiesCreated: 1,
+        entitiesMerged: 1,
+        entitiesSkipped: 0,
+        relationshipsCreated: 1,
+      });
+
+      const documents = await listProjectRows(t, 'documents', projectId);
+      const ariaDoc = documents.find((doc) => doc.title === 'Aria Vance');
+      expect(ariaDoc).toMatchObject({
+        content: 'Aria guards the gates of Ironhold.',
+        contentType: 'markdown',
+        processingStatus: 'pending',
+      });
+
+      const entities = await listProjectRows(t, 'entities', projectId);
+      expect(entities).toHaveLength(2);
+      const aria = entities.find((entity) => entity.name === 'Aria Vance');
+      expect(aria).toMatchObject({
+        type: 'character',
+        aliases: ['Ari'],
+        description: 'A wandering ranger.',
+        status: 'confirmed',
+        firstMentionedIn: ariaDoc?._id,
+      });
+      const bram = entities.find((entity) => entity._id === bramId);
+      expect(bram).toMatchObject({ aliases: ['Bram', 'Old Bram'], status: 'confirmed' });
+
+      const [relationship] = await listProjectRows(t, 'relationships', projectId);
+      expect(relationship).toMatchObject({
+        sourceEntityId: aria?._id,
+        targetEntityId: bramId,
+        type: 'allies',
+        documentId: ariaDoc?._id,
+        evidenceSnippet: 'allies: Bram Holt',
+        status: 'confirmed',
+      });
+
+      const history = await asUser.query(api.revisions.listByEntity, { entityId: aria!._id });
+      expect(history).toEqual([
+        expect.objectContaining({ action: 'initial', summary: 'Created from vault import' }),
+      ]);
+
+      const project = await t.run(async (ctx) => ctx.db.get(projectId));
+      expect(project?.stats).toMatchObject({ documentCount: 4, entityCount: 2 });
+      expect(await t.run(async (ctx) => ctx.db.query('vaultImportIds').collect())).toEqual([]);
+      expect(await t.run(async (ctx) => ctx.storage.get(storageId))).toBeNull();
+    });
+
+    it('writes large vaults in batches', async () => {
+      vi.useFakeTimers();
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      await t.run(async (ctx) =>
+        ctx.db.patch(userId, { subscriptionTier: 'unlimited', subscriptionStatus: 'active' })
+      );
+      const files = Object.fromEntries(
+        Array.from({ length: 150 }, (_, i) => [
+          `Places/Town ${i}.md`,
+          strToU8(`---\ntype: location\n---\nNear [[Town ${(i + 1) % 150}]].`),
+        ])
+      );
+
+      const job = await runImport(t, asUser, {
+        projectId,
+        storageId: await storeVault(t, zipSync(files)),
+      });
+      expect(job?.result).toMatchObject({
+        documentsCreated: 150,
+        entitiesCreated: 150,
+        relationshipsCreated: 150,
+      });
+      const documents = await listProjectRows(t, 'documents', projectId);
+      expect(new Set(documents.map((doc) => doc.orderIndex)).size).toBe(150);
+    });
+
+    it('skips or duplicates conflicting entities as chosen', async () => {
+      vi.useFakeTimers();
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const bramId = await insertBram(t, projectId);
+
+      const skipped = await runImport(t, asUser, {
+        projectId,
+        storageId: await storeVault(t),
+        resolutions: [{ name: 'Bram Holt', resolution: 'skip' }],
+      });
+      expect(skipped?.result).toMatchObject({ entitiesSkipped: 1, relationshipsCreated: 0 });
+      const bram = await t.run(async (ctx) => ctx.db.get(bramId));
+      expect(bram).toMatchObject({ aliases: ['Bram'], status: 'pending' });
+
+      const created = await runImport(t, asUser, {
+        projectId,
+        storageId: await storeVault(t),
+        resolutions: [
+          { name: 'Bram Holt', resolution: 'create' },
+          { name: 'Aria Vance', resolution: 'skip' },
+        ],
+      });
+      expect(created?.result).toMatchObject({ entitiesCreated: 1, entitiesSkipped: 1 });
+      const brams = (await listProjectRows(t, 'entities', projectId)).filter(
+        (entity) => entity.name === 'Bram Holt'
+      );
+      expect(brams).toHaveLength(2);
+    });
+
+    it('leaves out notes too long to store inline', async () => {
+      vi.useFakeTimers();
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const storageId = await storeVault(
+        t,
+        zipSync({
+          'Atlas.md': strToU8('x'.repeat(MAX_INLINE_CONTENT_BYTES + 1)),
+          'Ironhold.md': strToU8('A fortress in the north.'),
+        })
+      );
+
+      const job = await runImport(t, asUser, { projectId, storageId });
+      expect(job?.result.documentsCreated).toBe(1);
+      const documents = await listProjectRows(t, 'documents', projectId);
+      expect(documents.map((doc) => doc.title)).toEqual(['Ironhold']);
+    });
+
+    it('refuses an upload another import is still reading', async () => {
+      vi.useFakeTimers();
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const storageId = await storeVault(t);
+
+      await asUser.action(api.vaultImport.apply, { projectId, storageId, fileName: 'World.zip' });
+      await expect(
+        asUser.action(api.vaultImport.apply, { projectId, storageId, fileName: 'World.zip' })
+      ).rejects.toThrow(/File already in use/);
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      expect(await listProjectRows(t, 'documents', projectId)).toHaveLength(4);
+    });
+
+    it('refuses files that belong to a document', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      const storageId = await storeVault(t);
+      await t.run(async (ctx) =>
+        ctx.db.insert('documents', {
+          projectId,
+          title: 'Archive',
+          storageId,
+          contentType: 'file',
+          orderIndex: 0,
+          wordCount: 0,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          processingStatus: 'completed',
+        })
+      );
+
+      await expect(
+        asUser.action(api.vaultImport.apply, { projectId, storageId, fileName: 'World.zip' })
+      ).rejects.toThrow(/File already in use/);
+      expect(await t.run(async (ctx) => !!(await ctx.storage.get(storageId)))).toBe(true);
+    });
+
+    it('enforces the entity limit before writing anything', async () => {
+      const t = convexTest(schema, getModules());
+      const { userId, asUser } = await setupAuthenticatedUser(t);
+      const projectId = await setupProject(t, userId);
+      await t.run(async (ctx) => {
+        for (let i = 0; i < 49; i++) {
+          await ctx.db.insert('entities', {
+            projectId,
+            name: `Entity ${i}`,
+            type: 'concept',
+            aliases: [],
+            status: 'confirmed',
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+          });
+        }
+      });
+
+      await expect(
+        asUser.action(api.vaultImport.apply, {
+          projectId,
+          storageId: await storeVault(t),
+          fileName: 'World.zip',
+        })
+      ).rejects.toThrow(/Entity limit reached/);
+      expect(await listProjectRows(t, 'documents', projectId)).toEqual([]);
+    });
+  });
+});
@@ -9,42 +9,79 @@
  */
 
 import type * as __tests___entities_helpers from "../__tests__/entities/helpers.js";
+import type * as alertComments from "../alertComments.js";
+import type * as alertFilterPresets from "../alertFilterPresets.js";
 import type * as alerts from "../alerts.js";
+import type * as attributes from "../attributes.js";
 import type * as auth from "../auth.js";
+import type * as calendars from "../calendars.js";
+import type * as canonProposals from "../canonProposals.js";
 import type * as chat from "../chat.js";
 import type * as chatHistory from "../chatHistory.js";
+import type * as checkRuns from "../checkRuns.js";
 import type * as checks from "../checks.js";
 import type * as cleanup from "../cleanup.js";
 import type * as crons from "../crons.js";
+import type * as documentChunks from "../documentChunks.js";
 import type * as documents from "../documents.js";
+import type * as embeddings from "../embeddings.js";
 import type * as entities from "../entities.js";
 import type * as entityNotes from "../entityNotes.js";
+import type * as entityTypes from "../entityTypes.js";
 import type * as export_ from "../export.js";
 import type * as facts from "../facts.js";
 import type * as http from "../http.js";
+import type * as lib_alertFilters from "../lib/alertFilters.js";
+import type * as lib_alerts from "../lib/alerts.js";
+import type * as lib_attributes from "../lib/attributes.js";
 import type * as lib_auth from "../lib/auth.js";
+import type * as lib_calendar from "../lib/calendar.js";
+import type * as lib_chatContext from "../lib/chatContext.js";
+import type * as lib_chatTools from "../lib/chatTools.js";
+import type * as lib_checkContext from "../lib/checkContext.js";
+import type * as lib_checkRuns from "../lib/checkRuns.js";
 import type * as lib_constants from "../lib/constants.js";
+import type * as lib_contradictions from "../lib/contradictions.js";
 import type * as lib_demo from "../lib/demo.js";
+import type * as lib_documentChunks from "../lib/documentChunks.js";
+import type * as lib_embeddings from "../lib/embeddings.js";
 import type * as lib_errors from "../lib/errors.js";
 import type * as lib_json from "../lib/json.js";
 import type * as lib_limits from "../lib/limits.js";
+import type * as lib_manuscripts from "../lib/manuscripts.js";
+import type * as lib_mentions from "../lib/mentions.js";
 import type * as lib_projectAccess from "../lib/projectAccess.js";
+import type * as lib_projectExport from "../lib/projectExport.js";
 import type * as lib_result from "../lib/result.js";
+import type * as lib_reveal from "../lib/reveal.js";
+import type * as lib_revisions from "../lib/revisions.js";
+import type * as lib_search from "../lib/search.js";
 import type * as lib_storageAccess from "../lib/storageAccess.js";
 import type * as lib_subscription from "../lib/subscription.js";
+import type * as lib_textDiff from "../lib/textDiff.js";
+import type * as lib_vaults from "../lib/vaults.js";
+import type * as lib_wikiSite from "../lib/wikiSite.js";
 import type * as llm_cache from "../llm/cache.js";
 import type * as llm_chunk from "../llm/chunk.js";
 import type * as llm_extract from "../llm/extract.js";
 import type * as llm_utils from "../llm/utils.js";
+import type * as manuscripts from "../manuscripts.js";
 import type * as migrations from "../migrations.js";
 import type * as notes from "../notes.js";
+import type * as playerView from "../playerView.js";
 import type * as polar from "../polar.js";
+import type * as projectImports from "../projectImports.js";
+import type * as projectShares from "../projectShares.js";
 import type * as projects from "../projects.js";
+import type * as relationships from "../relationships.js";
+import type * as revisions from "../revisions.js";
+import type * as search from "../search.js";
 import type * as seed from "../seed.js";
 import type * as storage from "../storage.js";
 import type * as tutorial from "../tutorial.js";
 import type * as usage from "../usage.js";
 import type * as users from "../users.js";
+import type * as vaultImport from "../vaultImport.js";
 
 import type {
   ApiFromModules,
@@ -54,42 +91,79 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   "__tests__/entities/helpers": typeof __tests___entities_helpers;
+  alertComments: typeof alertComments;
+  alertFilterPresets: typeof alertFilterPresets;
   alerts: typeof alerts;
+  attributes: typeof attributes;
   auth: typeof auth;
+  calendars: typeof calendars;
+  canonProposals: typeof canonProposals;
   chat: typeof chat;
   chatHistory: typeof chatHistory;
+  checkRuns: typeof checkRuns;
   checks: typeof checks;
   cleanup: typeof cleanup;
   crons: typeof crons;
+  documentChunks: typeof documentChunks;
   documents: typeof documents;
+  embeddings: typeof embeddings;
   entities: typeof entities;
   entityNotes: typeof entityNotes;
+  entityTypes: typeof entityTypes;
   export: typeof export_;
   facts: typeof facts;
   http: typeof http;
+  "lib/alertFilters": typeof lib_alertFilters;
+  "lib/alerts": typeof lib_alerts;
+  "lib/attributes": typeof lib_attributes;
   "lib/auth": typeof lib_auth;
+  "lib/calendar": typeof lib_calendar;
+  "lib/chatContext": typeof lib_chatContext;
+  "lib/chatTools": typeof lib_chatTools;
+  "lib/checkContext": typeof lib_checkContext;
+  "lib/checkRuns": typeof lib_checkRuns;
   "lib/constants": typeof lib_constants;
+  "lib/contradictions": typeof lib_contradictions;
   "lib/demo": typeof lib_demo;
+  "lib/documentChunks": typeof lib_documentChunks;
+  "lib/embeddings": typeof lib_embeddings;
   "lib/errors": typeof lib_errors;
   "lib/json": typeof lib_json;
   "lib/limits": typeof lib_limits;
+  "lib/manuscripts": typeof lib_manuscripts;
+  "lib/mentions": typeof lib_mentions;
   "lib/projectAccess": typeof lib_projectAccess;
+  "lib/projectExport": typeof lib_projectExport;
   "lib/result": typeof lib_result;
+  "lib/reveal": typeof lib_reveal;
+  "lib/revisions": typeof lib_revisions;
+  "lib/search": typeof lib_search;
   "lib/storageAccess": typeof lib_storageAccess;
   "lib/subscription": typeof lib_subscription;
+  "lib/textDiff": typeof lib_textDiff;
+  "lib/vaults": typeof lib_vaults;
+  "lib/wikiSite": typeof lib_wikiSite;
   "llm/cache": typeof llm_cache;
   "llm/chunk": typeof llm_chunk;
   "llm/extract": typeof llm_extract;
   "llm/utils": typeof llm_utils;
+  manuscripts: typeof manuscripts;
   migrations: typeof migrations;
   notes: typeof notes;
+  playerView: typeof playerView;
   polar: typeof polar;
+  projectImports: typeof projectImports;
+  projectShares: typeof projectShares;
   projects: typeof projects;
+  relationships: typeof relationships;
+  revisions: typeof revisions;
+  search: typeof search;
   seed: typeof seed;
   storage: typeof storage;
   tutorial: typeof tutorial;
   usage: typeof usage;
   users: typeof users;
+  vaultImport: typeof vaultImport;
 }>;
 
 /**
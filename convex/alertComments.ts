@@ -0,0 +1,177 @@
+import { v } from 'convex/values';
+import type { Doc, Id } from './_generated/dataModel';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import { mutation, query } from './_generated/server';
+import { requireAuth } from './lib/auth';
+import { authError, notFoundError, validationError } from './lib/errors';
+import { parseEntityMentions } from './lib/mentions';
+import { canReadProject, getProjectRoleForUser, roleCanEdit } from './lib/projectAccess';
+
+// Discussion on an alert. Comments share the table with activity entries (assignment and status
+// changes) so the alert page can show one timeline; only comments can be edited or deleted.
+
+const MAX_COMMENT_LENGTH = 5000;
+
+async function requireAlertEditAccess(
+  ctx: MutationCtx,
+  alertId: Id<'alerts'>,
+  userId: Id<'users'>
+): Promise<Doc<'alerts'>> {
+  const alert = await ctx.db.get(alertId);
+  if (!alert) {
+    throw notFoundError('alert', alertId);
+  }
+  const project = await ctx.db.get(alert.projectId);
+  if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
+    throw authError('unauthorized', 'You do not have permission to access this alert.');
+  }
+  return alert;
+}
+
+async function requireOwnComment(
+  ctx: MutationCtx,
+  commentId: Id<'alertComments'>,
+  userId: Id<'users'>
+): Promise<Doc<'alertComments'>> {
+  const comment = await ctx.db.get(commentId);
+  if (comment?.kind !== 'comment') {
+    throw notFoundError('comment', commentId);
+  }
+  await requireAlertEditAccess(ctx, comment.alertId, userId);
+  if (comment.userId !== userId) {
+    throw authError('unauthorized', 'You can only change your own comments.');
+  }
+  return comment;
+}
+
+function normalizeBody(body: string): string {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    throw validationError('body', 'Comment cannot be empty.');
+  }
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw validationError('body', `Comment must be ${MAX_COMMENT_LENGTH} characters or fewer.`);
+  }
+  return trimmed;
+}
+
+/** Resolve @[Name] mentions against the project's entity names and aliases. */
+async function resolveMentions(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>,
+  body: string
+): Promise<Id<'entities'>[]> {
+  const names = parseEntityMentions(body).map((name) => name.toLowerCase());
+  if (names.length === 0) return [];
+
+  const entities = await ctx.db
+    .query('entities')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .filter((q) => q.neq(q.field('status'), 'rejected'))
+    .collect();
+
+  const mentioned: Id<'entities'>[] = [];
+  for (const name of names) {
+    const entity = entities.find((candidate) =>
+      [candidate.name, ...candidate.aliases].some((term) => term.toLowerCase() === name)
+    );
+    if (entity && !mentioned.includes(entity._id)) mentioned.push(entity._id);
+  }
+  return mentioned;
+}
+
+/** The alert's comments and activity, oldest first, with author and entity names. */
+export const list = query({
+  args: { alertId: v.id('alerts') },
+  handler: async (ctx, { alertId }) => {
+    const alert = await ctx.db.get(alertId);
+    if (!alert) return [];
+    const canRead = await canReadProject(ctx, alert.projectId);
+    if (!canRead) return [];
+
+    const entries = await ctx.db
+      .query('alertComments')
+      .withIndex('by_alert', (q) => q.eq('alertId', alertId))
+      .collect();
+
+    const userNames = new Map<Id<'users'>, string>();
+    async function getUserName(userId: Id<'users'>): Promise<string> {
+      const known = userNames.get(userId);
+      if (known !== undefined) return known;
+      const user = await ctx.db.get(userId);
+      const name = user?.name ?? user?.email ?? 'Former member';
+      userNames.set(userId, name);
+      return name;
+    }
+
+    return await Promise.all(
+      entries.map(async (entry) => {
+        const mentions = await Promise.all(
+          (entry.mentionedEntityIds ?? []).map((entityId) => ctx.db.get(entityId))
+        );
+        return {
+          ...entry,
+          userName: entry.userId ? await getUserName(entry.userId) : null,
+          assigneeName: entry.assigneeId ? await getUserName(entry.assigneeId) : null,
+          mentions: mentions
+            .filter((entity): entity is Doc<'entities'> => entity !== null)
+            .map((entity) => ({ _id: entity._id, name: entity.name, aliases: entity.aliases })),
+        };
+      })
+    );
+  },
+});
+
+export const create = mutation({
+  args: {
+    alertId: v.id('alerts'),
+    body: v.string(),
+  },
+  handler: async (ctx, { alertId, body }) => {
+    const userId = await requireAuth(ctx);
+    const alert = await requireAlertEditAccess(ctx, alertId, userId);
+    const content = normalizeBody(body);
+
+    return await ctx.db.insert('alertComments', {
+      alertId,
+      projectId: alert.projectId,
+      userId,
+      kind: 'comment',
+      body: content,
+      mentionedEntityIds: await resolveMentions(ctx, alert.projectId, content),
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id('alertComments'),
+    body: v.string(),
+  },
+  handler: async (ctx, { id, body }) => {
+    const userId = await requireAuth(ctx);
+    const comment = await requireOwnComment(ctx, id, userId);
+    const content = normalizeBody(body);
+
+    await ctx.db.patch(id, {
+      body: content,
+      mentionedEntityIds: await resolveMentions(ctx, comment.projectId, content),
+      updatedAt: Date.now(),
+    });
+
+    return id;
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id('alertComments') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    await requireOwnComment(ctx, id, userId);
+
+    await ctx.db.delete(id);
+
+    return id;
+  },
+});
@@ -0,0 +1,93 @@
+import { v } from 'convex/values';
+import type { Id } from './_generated/dataModel';
+import type { MutationCtx } from './_generated/server';
+import { mutation, query } from './_generated/server';
+import { getAuthUserId, requireAuth } from './lib/auth';
+import { alertFiltersValidator } from './lib/alertFilters';
+import { authError, notFoundError, validationError } from './lib/errors';
+import { canReadProject } from './lib/projectAccess';
+
+// Saved alert filters. Presets belong to one user on one project, since they can name that
+// project's documents and entities.
+
+const MAX_PRESET_NAME_LENGTH = 60;
+
+async function requireReadableProject(ctx: MutationCtx, projectId: Id<'projects'>) {
+  if (!(await canReadProject(ctx, projectId))) {
+    throw authError('unauthorized', 'You do not have permission to access this project.');
+  }
+}
+
+export const list = query({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const canRead = await canReadProject(ctx, projectId);
+    if (!canRead) return [];
+
+    const presets = await ctx.db
+      .query('alertFilterPresets')
+      .withIndex('by_user', (q) => q.eq('userId', userId).eq('projectId', projectId))
+      .collect();
+    return presets.toSorted((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+/** Save the filters under `name`, replacing the user's preset of the same name. */
+export const save = mutation({
+  args: {
+    projectId: v.id('projects'),
+    name: v.string(),
+    filters: alertFiltersValidator,
+  },
+  handler: async (ctx, { projectId, name, filters }) => {
+    const userId = await requireAuth(ctx);
+    await requireReadableProject(ctx, projectId);
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw validationError('name', 'Preset name is required.');
+    }
+    if (trimmed.length > MAX_PRESET_NAME_LENGTH) {
+      throw validationError(
+        'name',
+        `Preset name must be ${MAX_PRESET_NAME_LENGTH} characters or fewer.`
+      );
+    }
+
+    const now = Date.now();
+    const existing = await ctx.db
+      .query('alertFilterPresets')
+      .withIndex('by_user', (q) => q.eq('userId', userId).eq('projectId', projectId))
+      .filter((q) => q.eq(q.field('name'), trimmed))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, { filters, updatedAt: now });
+      return existing._id;
+    }
+
+    return await ctx.db.insert('alertFilterPresets', {
+      userId,
+      projectId,
+      name: trimmed,
+      filters,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id('alertFilterPresets') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const preset = await ctx.db.get(id);
+    if (preset?.userId !== userId) {
+      throw notFoundError('preset', id);
+    }
+
+    await ctx.db.delete(id);
+    return id;
+  },
+});
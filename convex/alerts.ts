@@ -1,9 +1,13 @@
 import { v } from 'convex/values';
-import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { MutationCtx } from './_generated/server';
 import { mutation, query } from './_generated/server';
 import type { Doc, Id } from './_generated/dataModel';
+import { scheduleEmbeddingSync } from './embeddings';
 import { getAuthUserId, requireAuth } from './lib/auth';
+import { describeAlertRule, recordAlertActivity } from './lib/alerts';
 import { authError, notFoundError, validationError } from './lib/errors';
+import { canReadProject, getProjectRoleForUser, roleCanEdit } from './lib/projectAccess';
+import { recordRevision } from './lib/revisions';
 
 const alertTypeValidator = v.union(
   v.literal('contradiction'),
@@ -23,19 +27,6 @@ function countWords(text: string): number {
   return text.trim().split(/\s+/).filter(Boolean).length;
 }
 
-async function verifyProjectOwnership(
-  ctx: QueryCtx | MutationCtx,
-  projectId: Id<'projects'>
-): Promise<boolean> {
-  const userId = await getAuthUserId(ctx);
-  if (!userId) return false;
-
-  const project = await ctx.db.get(projectId);
-  if (!project) return false;
-
-  return project.userId === userId;
-}
-
 async function requireAlertAccess(
   ctx: MutationCtx,
   alertId: Id<'alerts'>,
@@ -47,7 +38,7 @@ async function requireAlertAccess(
   }
 
   const project = await ctx.db.get(alert.projectId);
-  if (!project || project.userId !== userId) {
+  if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
     throw authError('unauthorized', 'You do not have permission to access this alert.');
   }
 
@@ -62,8 +53,8 @@ export const listByProject = query({
     severity: v.optional(alertSeverityValidator),
   },
   handler: async (ctx, { projectId, status, type, severity }) => {
-    const isOwner = await verifyProjectOwnership(ctx, projectId);
-    if (!isOwner) return [];
+    const canRead = await canReadProject(ctx, projectId);
+    if (!canRead) return [];
 
     let alerts;
 
@@ -96,11 +87,25 @@ export const listOpenByUser = query({
     const userId = await getAuthUserId(ctx);
     if (!userId) return { total: 0, alerts: [] };
 
-    const projects = await ctx.db
+    const ownedProjects = await ctx.db
       .query('projects')
       .withIndex('by_user', (q) => q.eq('userId', userId))
       .collect();
 
+    const editorShares = await ctx.db
+      .query('projectShares')
+      .withIndex('by_user', (q) => q.eq('sharedWithUserId', userId))
+      .filter((q) => q.eq(q.field('role'), 'editor'))
+      .collect();
+    const sharedProjects = await Promise.all(
+      editorShares.map((share) => ctx.db.get(share.projectId))
+    );
+
+    const projects = [
+      ...ownedProjects,
+      ...sharedProjects.filter((project): project is Doc<'projects'> => project !== null),
+    ];
+
     const projectNames = new Map(projects.map((project) => [project._id, project.name]));
     const openAlerts: Doc<'alerts'>[] = [];
 
@@ -134,8 +139,8 @@ export const listByDocument = query({
     const doc = await ctx.db.get(documentId);
     if (!doc) return [];
 
-    const isOwner = await verifyProjectOwnership(ctx, doc.projectId);
-    if (!isOwner) return [];
+    const canRead = await canReadProject(ctx, doc.projectId);
+    if (!canRead) return [];
 
     return await ctx.db
       .query('alerts')
@@ -150,8 +155,8 @@ export const get = query({
     const alert = await ctx.db.get(id);
     if (!alert) return null;
 
-    const isOwner = await verifyProjectOwnership(ctx, alert.projectId);
-    if (!isOwner) return null;
+    const canRead = await canReadProject(ctx, alert.projectId);
+    if (!canRead) return null;
 
     return alert;
   },
@@ -163,8 +168,8 @@ export const getWithDetails = query({
     const alert = await ctx.db.get(id);
     if (!alert) return null;
 
-    const isOwner = await verifyProjectOwnership(ctx, alert.projectId);
-    if (!isOwner) return null;
+    const canRead = await canReadProject(ctx, alert.projectId);
+    if (!canRead) return null;
 
     const entities = await Promise.all(
       alert.entityIds.map(async (entityId) => {
@@ -189,9 +194,13 @@ export const getWithDetails = query({
     );
 
     const document = await ctx.db.get(alert.documentId);
+    const assignee = alert.assigneeId ? await ctx.db.get(alert.assigneeId) : null;
 
     return {
       alert,
+      assignee:
+        assignee ? { _id: assignee._id, name: assignee.name ?? assignee.email ?? 'Unknown' } : null,
+      ruleLabel: alert.rule ? describeAlertRule(alert.rule) : null,
       entities: entities.filter(Boolean),
       facts: facts.filter(Boolean),
       document: document ? { _id: document._id, title: document.title } : null,
@@ -202,8 +211,8 @@ export const getWithDetails = query({
 export const countByProject = query({
   args: { projectId: v.id('projects') },
   handler: async (ctx, { projectId }) => {
-    const isOwner = await verifyProjectOwnership(ctx, projectId);
-    if (!isOwner) return { open: 0, resolved: 0, dismissed: 0, total: 0 };
+    const canRead = await canReadProject(ctx, projectId);
+    if (!canRead) return { open: 0, resolved: 0, dismissed: 0, total: 0 };
 
     const alerts = await ctx.db
       .query('alerts')
@@ -235,6 +244,9 @@ export const resolve = mutation({
       resolvedAt: Date.now(),
       resolutionNotes,
     });
+    if (alert.status !== 'resolved') {
+      await recordAlertActivity(ctx, alert, 'resolved', { userId });
+    }
 
     if (wasOpen) {
       const project = await ctx.db.get(alert.projectId);
@@ -273,6 +285,9 @@ export const dismiss = mutation({
       resolvedAt: Date.now(),
       resolutionNotes,
     });
+    if (alert.status !== 'dismissed') {
+      await recordAlertActivity(ctx, alert, 'dismissed', { userId });
+    }
 
     if (wasOpen) {
       const project = await ctx.db.get(alert.projectId);
@@ -308,6 +323,9 @@ export const reopen = mutation({
       resolvedAt: undefined,
       resolutionNotes: undefined,
     });
+    if (wasNotOpen) {
+      await recordAlertActivity(ctx, alert, 'reopened', { userId });
+    }
 
     if (wasNotOpen) {
       const project = await ctx.db.get(alert.projectId);
@@ -336,6 +354,14 @@ export const remove = mutation({
     const userId = await requireAuth(ctx);
     const alert = await requireAlertAccess(ctx, id, userId);
 
+    const comments = await ctx.db
+      .query('alertComments')
+      .withIndex('by_alert', (q) => q.eq('alertId', id))
+      .collect();
+    for (const comment of comments) {
+      await ctx.db.delete(comment._id);
+    }
+
     await ctx.db.delete(id);
 
     if (alert.status === 'open') {
@@ -422,6 +448,15 @@ export const resolveWithCanonUpdate = mutation({
           updatedAt: Date.now(),
           processingStatus: 'pending',
         });
+        const updatedDoc = await ctx.db.get(fact.documentId);
+        if (updatedDoc) {
+          await recordRevision(
+            ctx,
+            { document: doc },
+            { document: updatedDoc },
+            { action: 'update', userId, summary: `Resolved alert: ${alert.title}` }
+          );
+        }
       }
     }
 
@@ -434,6 +469,16 @@ export const resolveWithCanonUpdate = mutation({
         }
       : {}),
     });
+    const updatedFact = await ctx.db.get(factId);
+    if (updatedFact) {
+      await recordRevision(
+        ctx,
+        { fact },
+        { fact: updatedFact },
+        { action: 'update', userId, summary: `Resolved alert: ${alert.title}` }
+      );
+    }
+    await scheduleEmbeddingSync(ctx, alert.projectId);
 
     const wasOpen = alert.status === 'open';
 
@@ -443,6 +488,9 @@ export const resolveWithCanonUpdate = mutation({
       resolutionNotes:
         resolutionNotes ?? `Updated fact: ${fact.subject} ${fact.predicate} ${newValue}`,
     });
+    if (alert.status !== 'resolved') {
+      await recordAlertActivity(ctx, alert, 'resolved', { userId });
+    }
 
     if (wasOpen) {
       const project = await ctx.db.get(alert.projectId);
@@ -465,6 +513,70 @@ export const resolveWithCanonUpdate = mutation({
   },
 });
 
+const MAX_BULK_ALERTS = 500;
+
+/** Set the status of selected alerts in one project, e.g. from multi-select triage. */
+export const bulkUpdateStatus = mutation({
+  args: {
+    ids: v.array(v.id('alerts')),
+    status: alertStatusValidator,
+    resolutionNotes: v.optional(v.string()),
+  },
+  handler: async (ctx, { ids, status, resolutionNotes }) => {
+    const userId = await requireAuth(ctx);
+    const uniqueIds = [...new Set(ids)];
+    if (uniqueIds.length === 0) return 0;
+    if (uniqueIds.length > MAX_BULK_ALERTS) {
+      throw validationError('ids', `Select at most ${MAX_BULK_ALERTS} alerts at a time.`);
+    }
+
+    const alerts: Doc<'alerts'>[] = [];
+    for (const id of uniqueIds) {
+      alerts.push(await requireAlertAccess(ctx, id, userId));
+    }
+    const projectId = alerts[0].projectId;
+    if (alerts.some((alert) => alert.projectId !== projectId)) {
+      throw validationError('ids', 'Selected alerts must belong to the same project.');
+    }
+
+    const now = Date.now();
+    let openDelta = 0;
+    let changed = 0;
+    for (const alert of alerts) {
+      if (alert.status === status) continue;
+      await ctx.db.patch(
+        alert._id,
+        status === 'open' ?
+          { status, resolvedAt: undefined, resolutionNotes: undefined }
+        : { status, resolvedAt: now, resolutionNotes }
+      );
+      await recordAlertActivity(ctx, alert, status === 'open' ? 'reopened' : status, { userId });
+      if (alert.status === 'open') openDelta--;
+      if (status === 'open') openDelta++;
+      changed++;
+    }
+
+    if (openDelta !== 0) {
+      const project = await ctx.db.get(projectId);
+      if (project) {
+        const stats = project.stats ?? {
+          documentCount: 0,
+          entityCount: 0,
+          factCount: 0,
+          alertCount: 0,
+          noteCount: 0,
+        };
+        await ctx.db.patch(projectId, {
+          updatedAt: now,
+          stats: { ...stats, alertCount: Math.max(0, stats.alertCount + openDelta) },
+        });
+      }
+    }
+
+    return changed;
+  },
+});
+
 export const resolveAll = mutation({
   args: {
     projectId: v.id('projects'),
@@ -474,7 +586,7 @@ export const resolveAll = mutation({
     const userId = await requireAuth(ctx);
 
     const project = await ctx.db.get(projectId);
-    if (!project || project.userId !== userId) {
+    if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
       throw authError('unauthorized', 'You do not have permission to resolve alerts.');
     }
 
@@ -490,6 +602,7 @@ export const resolveAll = mutation({
         resolvedAt: now,
         resolutionNotes,
       });
+      await recordAlertActivity(ctx, alert, 'resolved', { userId });
     }
 
     const stats = project.stats ?? {
@@ -516,7 +629,7 @@ export const dismissAll = mutation({
     const userId = await requireAuth(ctx);
 
     const project = await ctx.db.get(projectId);
-    if (!project || project.userId !== userId) {
+    if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
       throw authError('unauthorized', 'You do not have permission to dismiss alerts.');
     }
 
@@ -532,6 +645,7 @@ export const dismissAll = mutation({
         resolvedAt: now,
         resolutionNotes,
       });
+      await recordAlertActivity(ctx, alert, 'dismissed', { userId });
     }
 
     const stats = project.stats ?? {
@@ -548,3 +662,185 @@ export const dismissAll = mutation({
     return openAlerts.length;
   },
 });
+
+/**
+ * Ignore the rule that raised an alert for the alert's entities. Dismisses the open alerts it
+ * covers now; later checks skip them until the suppression is removed.
+ */
+export const suppressRule = mutation({
+  args: { id: v.id('alerts') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const alert = await requireAlertAccess(ctx, id, userId);
+    const rule = alert.rule;
+    if (!rule) {
+      throw validationError('id', 'This alert was not raised by a rule that can be ignored.');
+    }
+    if (alert.entityIds.length === 0) {
+      throw validationError('id', 'This alert is not linked to any entities.');
+    }
+
+    const entityIds = alert.entityIds.toSorted();
+    const existing = await ctx.db
+      .query('alertSuppressions')
+      .withIndex('by_project', (q) => q.eq('projectId', alert.projectId).eq('rule', rule))
+      .collect();
+    const duplicate = existing.find(
+      (suppression) => suppression.entityIds.toSorted().join(',') === entityIds.join(',')
+    );
+    const suppressionId =
+      duplicate?._id ??
+      (await ctx.db.insert('alertSuppressions', {
+        projectId: alert.projectId,
+        rule,
+        entityIds,
+        createdBy: userId,
+        createdAt: Date.now(),
+      }));
+
+    const openAlerts = await ctx.db
+      .query('alerts')
+      .withIndex('by_project', (q) => q.eq('projectId', alert.projectId).eq('status', 'open'))
+      .filter((q) => q.eq(q.field('rule'), rule))
+      .collect();
+    const covered = openAlerts.filter((open) =>
+      entityIds.every((entityId) => open.entityIds.includes(entityId))
+    );
+
+    const now = Date.now();
+    for (const open of covered) {
+      await ctx.db.patch(open._id, {
+        status: 'dismissed',
+        resolvedAt: now,
+        resolutionNotes: `Ignored: ${describeAlertRule(rule)}`,
+      });
+      await recordAlertActivity(ctx, open, 'dismissed', { userId });
+    }
+
+    if (covered.length > 0) {
+      const project = await ctx.db.get(alert.projectId);
+      if (project) {
+        const stats = project.stats ?? {
+          documentCount: 0,
+          entityCount: 0,
+          factCount: 0,
+          alertCount: 0,
+          noteCount: 0,
+        };
+        await ctx.db.patch(alert.projectId, {
+          updatedAt: now,
+          stats: { ...stats, alertCount: Math.max(0, stats.alertCount - covered.length) },
+        });
+      }
+    }
+
+    return suppressionId;
+  },
+});
+
+export const listSuppressions = query({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const canRead = await canReadProject(ctx, projectId);
+    if (!canRead) return [];
+
+    const suppressions = await ctx.db
+      .query('alertSuppressions')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    return await Promise.all(
+      suppressions
+        .toSorted((a, b) => b.createdAt - a.createdAt)
+        .map(async (suppression) => {
+          const entities = await Promise.all(
+            suppression.entityIds.map((entityId) => ctx.db.get(entityId))
+          );
+          return {
+            ...suppression,
+            ruleLabel: describeAlertRule(suppression.rule),
+            entityNames: entities
+              .filter((entity): entity is Doc<'entities'> => entity !== null)
+              .map((entity) => entity.name),
+          };
+        })
+    );
+  },
+});
+
+export const removeSuppression = mutation({
+  args: { id: v.id('alertSuppressions') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const suppression = await ctx.db.get(id);
+    if (!suppression) {
+      throw notFoundError('suppression', id);
+    }
+
+    const project = await ctx.db.get(suppression.projectId);
+    if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
+      throw authError('unauthorized', 'You do not have permission to change alert rules.');
+    }
+
+    await ctx.db.delete(id);
+    return id;
+  },
+});
+
+/** Project members who can be assigned alerts: the owner and accepted editors. */
+export const listAssignees = query({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const canRead = await canReadProject(ctx, projectId);
+    if (!canRead) return [];
+    const project = await ctx.db.get(projectId);
+    if (!project) return [];
+
+    const shares = await ctx.db
+      .query('projectShares')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .filter((q) => q.eq(q.field('role'), 'editor'))
+      .collect();
+    const memberIds = [
+      project.userId,
+      ...shares
+        .filter((share) => share.acceptedAt !== undefined)
+        .map((share) => share.sharedWithUserId)
+        .filter((userId): userId is Id<'users'> => !!userId),
+    ];
+
+    const members = await Promise.all(memberIds.map((userId) => ctx.db.get(userId)));
+    return members
+      .filter((member): member is Doc<'users'> => member !== null)
+      .map((member) => ({ _id: member._id, name: member.name ?? member.email ?? 'Unknown' }));
+  },
+});
+
+export const assign = mutation({
+  args: {
+    id: v.id('alerts'),
+    assigneeId: v.optional(v.id('users')),
+  },
+  handler: async (ctx, { id, assigneeId }) => {
+    const userId = await requireAuth(ctx);
+    const alert = await requireAlertAccess(ctx, id, userId);
+    if (alert.assigneeId === assigneeId) return id;
+
+    if (assigneeId) {
+      const project = await ctx.db.get(alert.projectId);
+      if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, assigneeId))) {
+        throw validationError('assigneeId', 'Alerts can only be assigned to project editors.');
+      }
+    }
+
+    await ctx.db.patch(id, { assigneeId });
+    await recordAlertActivity(
+      ctx,
+      alert,
+      assigneeId ? 'assigned' : 'unassigned',
+      assigneeId ? { userId, assigneeId } : { userId }
+    );
+
+    return id;
+  },
+});
@@ -0,0 +1,384 @@
+import { v } from 'convex/values';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import { internalQuery, mutation, query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { requireAuth } from './lib/auth';
+import {
+  DEFAULT_ATTRIBUTE_TEMPLATES,
+  MAX_ATTRIBUTE_FIELDS,
+  attributeFieldValidator,
+  attributeValueValidator,
+  coerceAttributeValue,
+  loadTemplateResolver,
+  toAttributeKey,
+  type AttributeField,
+} from './lib/attributes';
+import { authError, notFoundError, validationError } from './lib/errors';
+import {
+  getProjectRole,
+  getProjectRoleForUser,
+  roleCanEdit,
+  roleCanRead,
+} from './lib/projectAccess';
+
+const entityTypeValidator = v.union(
+  v.literal('character'),
+  v.literal('location'),
+  v.literal('item'),
+  v.literal('concept'),
+  v.literal('event')
+);
+
+async function getProjectAccess(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<'projects'>
+): Promise<{ canRead: boolean; canEdit: boolean }> {
+  const role = await getProjectRole(ctx, projectId);
+  return {
+    canRead: roleCanRead(role),
+    canEdit: roleCanEdit(role),
+  };
+}
+
+async function requireProjectAccess(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  userId: Id<'users'>
+): Promise<Doc<'projects'>> {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw notFoundError('project', projectId);
+  }
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanEdit(role)) {
+    throw authError('unauthorized', 'You do not have permission to access this project.');
+  }
+  return project;
+}
+
+async function requireEntityAccess(
+  ctx: MutationCtx,
+  entityId: Id<'entities'>,
+  userId: Id<'users'>
+): Promise<Doc<'entities'>> {
+  const entity = await ctx.db.get(entityId);
+  if (!entity) {
+    throw notFoundError('entity', entityId);
+  }
+  await requireProjectAccess(ctx, entity.projectId, userId);
+  return entity;
+}
+
+async function requireAttributeAccess(
+  ctx: MutationCtx,
+  attributeId: Id<'entityAttributes'>,
+  userId: Id<'users'>
+): Promise<Doc<'entityAttributes'>> {
+  const attribute = await ctx.db.get(attributeId);
+  if (!attribute) {
+    throw notFoundError('attribute', attributeId);
+  }
+  await requireProjectAccess(ctx, attribute.projectId, userId);
+  return attribute;
+}
+
+async function findTemplate(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<'projects'>,
+  entityType: Doc<'attributeTemplates'>['entityType'],
+  customTypeId: Id<'entityTypes'> | undefined
+): Promise<Doc<'attributeTemplates'> | null> {
+  const templates = await ctx.db
+    .query('attributeTemplates')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .collect();
+  return (
+    templates.find((template) =>
+      customTypeId ?
+        template.customTypeId === customTypeId
+      : !template.customTypeId && template.entityType === entityType
+    ) ?? null
+  );
+}
+
+function normalizeFields(fields: AttributeField[]): AttributeField[] {
+  if (fields.length > MAX_ATTRIBUTE_FIELDS) {
+    throw validationError('fields', `A template can have at most ${MAX_ATTRIBUTE_FIELDS} fields`);
+  }
+
+  const seen = new Set<string>();
+  return fields.map((field) => {
+    const label = field.label.trim();
+    const key = toAttributeKey(field.key || label);
+    if (!label || !key) {
+      throw validationError('fields', 'Every field needs a label');
+    }
+    if (seen.has(key)) {
+      throw validationError('fields', `Duplicate field "${label}"`);
+    }
+    seen.add(key);
+
+    if (field.dataType !== 'enum') {
+      return { key, label, dataType: field.dataType };
+    }
+    const options = [...new Set((field.options ?? []).map((o) => o.trim()).filter(Boolean))];
+    if (options.length === 0) {
+      throw validationError('fields', `"${label}" needs at least one option`);
+    }
+    return { key, label, dataType: field.dataType, options };
+  });
+}
+
+async function listConfirmedValues(
+  ctx: MutationCtx,
+  entityId: Id<'entities'>,
+  key: string
+): Promise<Doc<'entityAttributes'>[]> {
+  return await ctx.db
+    .query('entityAttributes')
+    .withIndex('by_entity', (q) => q.eq('entityId', entityId).eq('key', key))
+    .filter((q) => q.eq(q.field('status'), 'confirmed'))
+    .collect();
+}
+
+export const getTemplate = query({
+  args: {
+    projectId: v.id('projects'),
+    entityType: entityTypeValidator,
+    customTypeId: v.optional(v.id('entityTypes')),
+  },
+  handler: async (ctx, { projectId, entityType, customTypeId }) => {
+    const access = await getProjectAccess(ctx, projectId);
+    if (!access.canRead) return null;
+
+    const resolve = await loadTemplateResolver(ctx, projectId);
+    const override = await findTemplate(ctx, projectId, entityType, customTypeId);
+    return {
+      fields: resolve({ type: entityType, customTypeId }),
+      isCustomized: override !== null,
+    };
+  },
+});
+
+export const setTemplate = mutation({
+  args: {
+    projectId: v.id('projects'),
+    entityType: entityTypeValidator,
+    customTypeId: v.optional(v.id('entityTypes')),
+    fields: v.array(attributeFieldValidator),
+  },
+  handler: async (ctx, { projectId, entityType, customTypeId, fields }) => {
+    const userId = await requireAuth(ctx);
+    await requireProjectAccess(ctx, projectId, userId);
+
+    if (customTypeId) {
+      const customType = await ctx.db.get(customTypeId);
+      if (!customType || customType.projectId !== projectId) {
+        throw notFoundError('entityType', customTypeId, 'Entity type not found');
+      }
+    }
+
+    const normalized = normalizeFields(fields);
+    const existing = await findTemplate(ctx, projectId, entityType, customTypeId);
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { fields: normalized, updatedAt: now });
+      return existing._id;
+    }
+
+    return await ctx.db.insert('attributeTemplates', {
+      projectId,
+      entityType,
+      customTypeId,
+      fields: normalized,
+      updatedAt: now,
+    });
+  },
+});
+
+export const resetTemplate = mutation({
+  args: {
+    projectId: v.id('projects'),
+    entityType: entityTypeValidator,
+    customTypeId: v.optional(v.id('entityTypes')),
+  },
+  handler: async (ctx, { projectId, entityType, customTypeId }) => {
+    const userId = await requireAuth(ctx);
+    await requireProjectAccess(ctx, projectId, userId);
+
+    const existing = await findTemplate(ctx, projectId, entityType, customTypeId);
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
+
+export const listTemplatesForExtraction = internalQuery({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const resolve = await loadTemplateResolver(ctx, projectId);
+    const customTypes = await ctx.db
+      .query('entityTypes')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const builtIns = (
+      Object.keys(DEFAULT_ATTRIBUTE_TEMPLATES) as Array<keyof typeof DEFAULT_ATTRIBUTE_TEMPLATES>
+    ).map((type) => ({ typeName: type, fields: resolve({ type }) }));
+    const customs = customTypes.map((type) => ({
+      typeName: type.name,
+      fields: resolve({ type: type.baseType, customTypeId: type._id }),
+    }));
+
+    return [...builtIns, ...customs].filter((template) => template.fields.length > 0);
+  },
+});
+
+export const listByEntity = query({
+  args: { entityId: v.id('entities') },
+  handler: async (ctx, { entityId }) => {
+    const entity = await ctx.db.get(entityId);
+    if (!entity) return null;
+
+    const access = await getProjectAccess(ctx, entity.projectId);
+    if (!access.canRead) return null;
+
+    const resolve = await loadTemplateResolver(ctx, entity.projectId);
+    const fields = resolve(entity);
+
+    const attributes = await ctx.db
+      .query('entityAttributes')
+      .withIndex('by_entity', (q) => q.eq('entityId', entityId))
+      .filter((q) => q.neq(q.field('status'), 'rejected'))
+      .collect();
+
+    const documentIds = [
+      ...new Set(attributes.map((a) => a.documentId).filter((id): id is Id<'documents'> => !!id)),
+    ];
+    const documents = await Promise.all(documentIds.map((id) => ctx.db.get(id)));
+    const titles = new Map(
+      documents
+        .filter((doc): doc is Doc<'documents'> => doc !== null)
+        .map((doc) => [doc._id, doc.title])
+    );
+    const withDocument = (attribute: Doc<'entityAttributes'>) => ({
+      ...attribute,
+      documentTitle: attribute.documentId ? (titles.get(attribute.documentId) ?? null) : null,
+    });
+
+    // Values for keys no longer in the template are kept but not shown.
+    return {
+      fields: fields.map((field) => ({
+        ...field,
+        value:
+          attributes.find((a) => a.key === field.key && a.status === 'confirmed')?.value ?? null,
+        confirmed: attributes
+          .filter((a) => a.key === field.key && a.status === 'confirmed')
+          .map(withDocument),
+        pending: attributes
+          .filter((a) => a.key === field.key && a.status === 'pending')
+          .map(withDocument),
+      })),
+    };
+  },
+});
+
+export const setValue = mutation({
+  args: {
+    entityId: v.id('entities'),
+    key: v.string(),
+    value: v.union(attributeValueValidator, v.null()),
+  },
+  handler: async (ctx, { entityId, key, value }) => {
+    const userId = await requireAuth(ctx);
+    const entity = await requireEntityAccess(ctx, entityId, userId);
+
+    const resolve = await loadTemplateResolver(ctx, entity.projectId);
+    const field = resolve(entity).find((f) => f.key === key);
+    if (!field) {
+      throw validationError('key', `"${key}" is not a field of this entity's template`);
+    }
+
+    const coerced = value === null ? null : coerceAttributeValue(field, value);
+    if (value !== null && coerced === null) {
+      throw validationError('value', `Invalid value for ${field.label}`);
+    }
+
+    // A manual value replaces whatever was confirmed before, including extracted values.
+    for (const previous of await listConfirmedValues(ctx, entityId, key)) {
+      await ctx.db.delete(previous._id);
+    }
+    if (coerced === null) return null;
+
+    const now = Date.now();
+    return await ctx.db.insert('entityAttributes', {
+      projectId: entity.projectId,
+      entityId,
+      key,
+      value: coerced,
+      status: 'confirmed',
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const confirm = mutation({
+  args: { id: v.id('entityAttributes') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const attribute = await requireAttributeAccess(ctx, id, userId);
+    const now = Date.now();
+
+    // Attributes are single-valued: confirming one supersedes the current value.
+    for (const previous of await listConfirmedValues(ctx, attribute.entityId, attribute.key)) {
+      await ctx.db.patch(previous._id, { status: 'rejected', updatedAt: now });
+    }
+    await ctx.db.patch(id, { status: 'confirmed', updatedAt: now });
+
+    return id;
+  },
+});
+
+export const reject = mutation({
+  args: { id: v.id('entityAttributes') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    await requireAttributeAccess(ctx, id, userId);
+
+    await ctx.db.patch(id, { status: 'rejected', updatedAt: Date.now() });
+
+    return id;
+  },
+});
+
+export const listByDocument = query({
+  args: { documentId: v.id('documents') },
+  handler: async (ctx, { documentId }) => {
+    const doc = await ctx.db.get(documentId);
+    if (!doc) return [];
+
+    const access = await getProjectAccess(ctx, doc.projectId);
+    if (!access.canRead) return [];
+
+    const attributes = await ctx.db
+      .query('entityAttributes')
+      .withIndex('by_document', (q) => q.eq('documentId', documentId))
+      .collect();
+
+    const resolve = await loadTemplateResolver(ctx, doc.projectId);
+    const results = [];
+    for (const attribute of attributes) {
+      const entity = await ctx.db.get(attribute.entityId);
+      if (!entity) continue;
+      const field = resolve(entity).find((f) => f.key === attribute.key);
+      results.push({
+        ...attribute,
+        label: field?.label ?? attribute.key,
+        entity: { _id: entity._id, name: entity.name },
+      });
+    }
+    return results;
+  },
+});
@@ -0,0 +1,267 @@
+import { v } from 'convex/values';
+import type { MutationCtx } from './_generated/server';
+import { mutation, query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { requireAuth } from './lib/auth';
+import {
+  calendarEraValidator,
+  calendarMonthValidator,
+  loadCalendars,
+  MAX_CALENDAR_ERAS,
+  MAX_CALENDAR_MONTHS,
+  MAX_CALENDAR_NAME_LENGTH,
+  renormalizeProjectFacts,
+  type CalendarEra,
+  type CalendarMonth,
+} from './lib/calendar';
+import { authError, conflictError, notFoundError, validationError } from './lib/errors';
+import {
+  getProjectRole,
+  getProjectRoleForUser,
+  roleCanEdit,
+  roleCanReadRevealed,
+} from './lib/projectAccess';
+
+// In-world calendars. The default calendar reads dates that name no era or month; every
+// change re-parses the project's temporal bounds so the timeline stays in order.
+
+async function requireProjectAccess(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  userId: Id<'users'>
+): Promise<Doc<'projects'>> {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw notFoundError('project', projectId);
+  }
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanEdit(role)) {
+    throw authError('unauthorized', 'You do not have permission to access this project.');
+  }
+  return project;
+}
+
+async function requireCalendarAccess(
+  ctx: MutationCtx,
+  calendarId: Id<'calendars'>,
+  userId: Id<'users'>
+): Promise<Doc<'calendars'>> {
+  const calendar = await ctx.db.get(calendarId);
+  if (!calendar) {
+    throw notFoundError('calendar', calendarId, 'Calendar not found');
+  }
+  await requireProjectAccess(ctx, calendar.projectId, userId);
+  return calendar;
+}
+
+export async function normalizeCalendarName(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  name: string,
+  excludeId?: Id<'calendars'>
+): Promise<string> {
+  const normalized = name.trim().replace(/\s+/g, ' ');
+  if (!normalized) {
+    throw validationError('name', 'Calendar name is required');
+  }
+  if (normalized.length > MAX_CALENDAR_NAME_LENGTH) {
+    throw validationError(
+      'name',
+      `Calendar name must be at most ${MAX_CALENDAR_NAME_LENGTH} characters`
+    );
+  }
+
+  const existing = await loadCalendars(ctx, projectId);
+  const lower = normalized.toLowerCase();
+  if (existing.some((cal) => cal._id !== excludeId && cal.name.toLowerCase() === lower)) {
+    throw conflictError(`A calendar named "${normalized}" already exists`, 'name');
+  }
+  return normalized;
+}
+
+export function validateCalendarStructure(
+  daysPerYear: number,
+  months: CalendarMonth[],
+  eras: CalendarEra[]
+): { months: CalendarMonth[]; eras: CalendarEra[] } {
+  if (!Number.isInteger(daysPerYear) || daysPerYear < 1) {
+    throw validationError('daysPerYear', 'Days per year must be a positive whole number');
+  }
+
+  if (months.length > MAX_CALENDAR_MONTHS) {
+    throw validationError('months', `A calendar can have at most ${MAX_CALENDAR_MONTHS} months`);
+  }
+  const normalizedMonths = months.map((month) => ({
+    name: month.name.trim().replace(/\s+/g, ' '),
+    days: month.days,
+  }));
+  for (const month of normalizedMonths) {
+    if (!month.name) {
+      throw validationError('months', 'Every month needs a name');
+    }
+    if (!Number.isInteger(month.days) || month.days < 1) {
+      throw validationError('months', `${month.name} must have a positive whole number of days`);
+    }
+  }
+  if (new Set(normalizedMonths.map((m) => m.name.toLowerCase())).size !== months.length) {
+    throw validationError('months', 'Month names must be unique');
+  }
+  const monthDays = normalizedMonths.reduce((sum, month) => sum + month.days, 0);
+  if (normalizedMonths.length > 0 && monthDays !== daysPerYear) {
+    throw validationError(
+      'months',
+      `Months add up to ${monthDays} days but the year has ${daysPerYear}`
+    );
+  }
+
+  if (eras.length > MAX_CALENDAR_ERAS) {
+    throw validationError('eras', `A calendar can have at most ${MAX_CALENDAR_ERAS} eras`);
+  }
+  const normalizedEras = eras.map((era) => ({
+    name: era.name.trim().replace(/\s+/g, ' '),
+    startYear: era.startYear,
+    ...(era.abbreviation?.trim() && { abbreviation: era.abbreviation.trim() }),
+    ...(era.countsBackward && { countsBackward: true }),
+  }));
+  for (const era of normalizedEras) {
+    if (!era.name) {
+      throw validationError('eras', 'Every era needs a name');
+    }
+    if (!Number.isInteger(era.startYear)) {
+      throw validationError('eras', `${era.name} must start on a whole year`);
+    }
+  }
+  const eraTokens = normalizedEras.flatMap((era) =>
+    era.abbreviation ?
+      [era.name.toLowerCase(), era.abbreviation.toLowerCase()]
+    : [era.name.toLowerCase()]
+  );
+  if (new Set(eraTokens).size !== eraTokens.length) {
+    throw validationError('eras', 'Era names and abbreviations must be unique');
+  }
+
+  return { months: normalizedMonths, eras: normalizedEras };
+}
+
+async function clearDefault(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  exceptId: Id<'calendars'>
+): Promise<void> {
+  for (const calendar of await loadCalendars(ctx, projectId)) {
+    if (calendar._id !== exceptId && calendar.isDefault) {
+      await ctx.db.patch(calendar._id, { isDefault: false });
+    }
+  }
+}
+
+export const list = query({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const role = await getProjectRole(ctx, projectId);
+    if (!roleCanReadRevealed(role)) return [];
+
+    return await loadCalendars(ctx, projectId);
+  },
+});
+
+export const create = mutation({
+  args: {
+    projectId: v.id('projects'),
+    name: v.string(),
+    daysPerYear: v.number(),
+    months: v.array(calendarMonthValidator),
+    eras: v.array(calendarEraValidator),
+    epochOffset: v.optional(v.number()),
+    isDefault: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { projectId, name, daysPerYear, months, eras, epochOffset, isDefault }) => {
+    const userId = await requireAuth(ctx);
+    await requireProjectAccess(ctx, projectId, userId);
+
+    const normalizedName = await normalizeCalendarName(ctx, projectId, name);
+    const structure = validateCalendarStructure(daysPerYear, months, eras);
+    const isFirst = (await loadCalendars(ctx, projectId)).length === 0;
+
+    const now = Date.now();
+    const id = await ctx.db.insert('calendars', {
+      projectId,
+      name: normalizedName,
+      daysPerYear,
+      ...structure,
+      epochOffset: Math.round(epochOffset ?? 0),
+      isDefault: isFirst || (isDefault ?? false),
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (isDefault) {
+      await clearDefault(ctx, projectId, id);
+    }
+
+    await renormalizeProjectFacts(ctx, projectId);
+    return id;
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id('calendars'),
+    name: v.optional(v.string()),
+    daysPerYear: v.optional(v.number()),
+    months: v.optional(v.array(calendarMonthValidator)),
+    eras: v.optional(v.array(calendarEraValidator)),
+    epochOffset: v.optional(v.number()),
+    isDefault: v.optional(v.literal(true)),
+  },
+  handler: async (ctx, { id, name, daysPerYear, months, eras, epochOffset, isDefault }) => {
+    const userId = await requireAuth(ctx);
+    const calendar = await requireCalendarAccess(ctx, id, userId);
+
+    const nextDaysPerYear = daysPerYear ?? calendar.daysPerYear;
+    const structure = validateCalendarStructure(
+      nextDaysPerYear,
+      months ?? calendar.months,
+      eras ?? calendar.eras
+    );
+
+    await ctx.db.patch(id, {
+      ...(name !== undefined && {
+        name: await normalizeCalendarName(ctx, calendar.projectId, name, id),
+      }),
+      daysPerYear: nextDaysPerYear,
+      ...structure,
+      ...(epochOffset !== undefined && { epochOffset: Math.round(epochOffset) }),
+      ...(isDefault && { isDefault: true }),
+      updatedAt: Date.now(),
+    });
+    if (isDefault) {
+      await clearDefault(ctx, calendar.projectId, id);
+    }
+
+    await renormalizeProjectFacts(ctx, calendar.projectId);
+    return id;
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id('calendars') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const calendar = await requireCalendarAccess(ctx, id, userId);
+
+    await ctx.db.delete(id);
+
+    // Another calendar takes over as the default, oldest first.
+    if (calendar.isDefault) {
+      const [next] = (await loadCalendars(ctx, calendar.projectId)).toSorted(
+        (a, b) => a.createdAt - b.createdAt
+      );
+      if (next) {
+        await ctx.db.patch(next._id, { isDefault: true });
+      }
+    }
+
+    await renormalizeProjectFacts(ctx, calendar.projectId);
+    return id;
+  },
+});
@@ -0,0 +1,188 @@
+import { v } from 'convex/values';
+import type { MutationCtx } from './_generated/server';
+import { mutation, query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { scheduleEmbeddingSync } from './embeddings';
+import { requireAuth } from './lib/auth';
+import { authError, conflictError, notFoundError } from './lib/errors';
+import { getProjectRole, getProjectRoleForUser, roleCanEdit } from './lib/projectAccess';
+import { recordRevision } from './lib/revisions';
+
+// Canon edits Vellum proposed from chat (see lib/chatTools). They sit in the review queue until
+// an editor confirms them, at which point the change is applied like a manual edit. They are not
+// pending rows in facts or entities because they change canon that is already confirmed and have
+// no source document to be reviewed under.
+
+const CHAT_REVISION_SUMMARY = 'Suggested in Vellum chat';
+
+async function requireProposalAccess(
+  ctx: MutationCtx,
+  proposalId: Id<'canonProposals'>,
+  userId: Id<'users'>
+): Promise<Doc<'canonProposals'>> {
+  const proposal = await ctx.db.get(proposalId);
+  if (!proposal) {
+    throw notFoundError('canonProposal', proposalId, 'Proposal not found');
+  }
+
+  const project = await ctx.db.get(proposal.projectId);
+  if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
+    throw authError('unauthorized', 'You do not have permission to access this proposal.');
+  }
+  if (proposal.status !== 'pending') {
+    throw conflictError('This proposal has already been resolved');
+  }
+
+  return proposal;
+}
+
+async function adjustFactCount(ctx: MutationCtx, projectId: Id<'projects'>, delta: number) {
+  if (delta === 0) return;
+  const project = await ctx.db.get(projectId);
+  if (!project) return;
+
+  const stats = project.stats ?? {
+    documentCount: 0,
+    entityCount: 0,
+    factCount: 0,
+    alertCount: 0,
+    noteCount: 0,
+  };
+  await ctx.db.patch(projectId, {
+    updatedAt: Date.now(),
+    stats: { ...stats, factCount: Math.max(0, stats.factCount + delta) },
+  });
+}
+
+async function applyProposal(
+  ctx: MutationCtx,
+  proposal: Doc<'canonProposals'>,
+  entity: Doc<'entities'>,
+  userId: Id<'users'>
+): Promise<void> {
+  const { change } = proposal;
+
+  if (change.type === 'fact') {
+    const factId = await ctx.db.insert('facts', {
+      projectId: proposal.projectId,
+      entityId: entity._id,
+      subject: entity.name,
+      predicate: change.predicate,
+      object: change.object,
+      confidence: 1,
+      status: 'confirmed',
+      createdAt: Date.now(),
+    });
+    const fact = await ctx.db.get(factId);
+    if (fact) {
+      await recordRevision(
+        ctx,
+        null,
+        { fact },
+        { action: 'initial', userId, summary: CHAT_REVISION_SUMMARY }
+      );
+    }
+
+    // The corrected fact is rejected rather than deleted so the old value stays in its history.
+    const replaced = change.replacesFactId ? await ctx.db.get(change.replacesFactId) : null;
+    const wasCounted = replaced !== null && replaced.status !== 'rejected';
+    if (replaced && wasCounted) {
+      await ctx.db.patch(replaced._id, { status: 'rejected' });
+      const updated = await ctx.db.get(replaced._id);
+      if (updated) {
+        await recordRevision(
+          ctx,
+          { fact: replaced },
+          { fact: updated },
+          { action: 'update', userId, summary: CHAT_REVISION_SUMMARY }
+        );
+      }
+    }
+
+    // The new fact is counted; the replaced one stops counting if it was (pending or confirmed).
+    await adjustFactCount(ctx, proposal.projectId, 1 - Number(wasCounted));
+    return;
+  }
+
+  await ctx.db.patch(entity._id, {
+    updatedAt: Date.now(),
+    ...(change.type === 'description' ?
+      { description: change.description }
+    : { aliases: [...new Set([...entity.aliases, ...change.aliases])] }),
+  });
+
+  const updated = await ctx.db.get(entity._id);
+  if (updated) {
+    await recordRevision(
+      ctx,
+      { entity },
+      { entity: updated },
+      { action: 'update', userId, summary: CHAT_REVISION_SUMMARY }
+    );
+  }
+}
+
+export const listPending = query({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const role = await getProjectRole(ctx, projectId);
+    if (!roleCanEdit(role)) return [];
+
+    const proposals = await ctx.db
+      .query('canonProposals')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId).eq('status', 'pending'))
+      .order('desc')
+      .collect();
+
+    return await Promise.all(
+      proposals.map(async (proposal) => {
+        const [entity, proposer, replacedFact] = await Promise.all([
+          ctx.db.get(proposal.entityId),
+          ctx.db.get(proposal.proposedBy),
+          proposal.change.type === 'fact' && proposal.change.replacesFactId ?
+            ctx.db.get(proposal.change.replacesFactId)
+          : null,
+        ]);
+        return {
+          ...proposal,
+          entityName: entity?.name ?? null,
+          currentDescription: entity?.description ?? null,
+          proposedByName: proposer?.name ?? null,
+          replacedFact:
+            replacedFact ?
+              { predicate: replacedFact.predicate, object: replacedFact.object }
+            : null,
+        };
+      })
+    );
+  },
+});
+
+export const confirm = mutation({
+  args: { id: v.id('canonProposals') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const proposal = await requireProposalAccess(ctx, id, userId);
+
+    const entity = await ctx.db.get(proposal.entityId);
+    if (!entity) {
+      throw notFoundError('entity', proposal.entityId);
+    }
+
+    await applyProposal(ctx, proposal, entity, userId);
+    await ctx.db.patch(id, { status: 'confirmed', resolvedBy: userId, resolvedAt: Date.now() });
+    await scheduleEmbeddingSync(ctx, proposal.projectId);
+    return id;
+  },
+});
+
+export const reject = mutation({
+  args: { id: v.id('canonProposals') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    await requireProposalAccess(ctx, id, userId);
+
+    await ctx.db.patch(id, { status: 'rejected', resolvedBy: userId, resolvedAt: Date.now() });
+    return id;
+  },
+});
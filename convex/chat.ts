@@ -5,8 +5,10 @@ import {
   internalQuery,
   mutation,
   query,
+  type QueryCtx,
 } from './_generated/server';
 import { components, internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
 import { v } from 'convex/values';
 import {
   PersistentTextStreaming,
@@ -15,7 +17,15 @@ import {
 } from '@convex-dev/persistent-text-streaming';
 import { getAuthUserId } from '@convex-dev/auth/server';
 import { requireAuth } from './lib/auth';
+import { buildChatContext, type ChatCitation, type ChatContext } from './lib/chatContext';
+import {
+  chatToolsForRole,
+  executeChatTool,
+  type ChatToolCall,
+  type ChatToolDefinition,
+} from './lib/chatTools';
 import { apiError, authError, configError, limitError, notFoundError } from './lib/errors';
+import { getProjectRoleForUser, roleCanReadRevealed } from './lib/projectAccess';
 
 const streaming = new PersistentTextStreaming(components.persistentTextStreaming);
 
@@ -100,16 +110,199 @@ BEHAVIOR:
 
 Remember: You are chatting, not extracting data. Respond like a friendly librarian, not a database.`;
 
+const CANON_CONTEXT_PROMPT = `
+
+PROJECT CANON:
+The user is asking about their project "{projectName}". These are the confirmed records most relevant to their latest message:
+
+{canonContext}
+
+CITATIONS:
+- Ground your answer in these records and cite them inline with their markers, e.g. "Aria is a ranger [E1]."
+- Only use the markers listed above, exactly as written.
+- If the records don't cover the question, say so rather than inventing canon.`;
+
+const CANON_TOOLS_PROMPT = `
+
+TOOLS:
+- Use search_entities and get_entity_facts when you need records beyond those above. Ids come from these tools, never from the markers.
+- When the user corrects or adds to their canon (e.g. "Actually, Kael is 34, not 30"), look up the entity and existing facts, then call the matching propose_ tool. Pass replacesFactId when a fact is being corrected.
+- Proposals are only suggestions: tell the user the change is waiting for them in the review queue. Never claim the canon has been updated.`;
+
+function buildSystemPrompt(
+  context: ChatContext | null | undefined,
+  tools: ChatToolDefinition[] = []
+): string {
+  if (!context) return VELLUM_CHAT_PROMPT;
+  return (
+    VELLUM_CHAT_PROMPT +
+    CANON_CONTEXT_PROMPT.replace('{projectName}', context.projectName).replace(
+      '{canonContext}',
+      context.formattedContext
+    ) +
+    (tools.length > 0 ? CANON_TOOLS_PROMPT : '')
+  );
+}
+
+// Rounds of tool calls allowed per reply; the final request goes out without tools so the
+// model has to answer.
+const MAX_TOOL_ROUNDS = 4;
+
+type CompletionMessage =
+  | { role: 'system' | 'user' | 'assistant'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+async function fetchCompletion(apiKey: string, body: Record<string, unknown>): Promise<Response> {
+  return await fetch('https://openrouter.ai/api/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'HTTP-Referer': 'https://realmsync.app',
+      'X-Title': 'Realm Sync',
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+type ToolCallDelta = {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+};
+
+/** Forward streamed text to onContent and collect any tool calls, whose arguments arrive in pieces. */
+async function readCompletionStream(
+  response: Response,
+  onContent: (chunk: string) => Promise<void>
+): Promise<{ content: string; toolCalls: ChatToolCall[] }> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw apiError(500, 'No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let sseBuffer = '';
+  let content = '';
+  const toolCalls: ChatToolCall[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    sseBuffer += decoder.decode(value, { stream: true });
+    const lines = sseBuffer.split('\n');
+    sseBuffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        const data = line.slice(6);
+        if (data === '[DONE]') continue;
+
+        try {
+          const parsed = JSON.parse(data);
+          const delta = parsed.choices?.[0]?.delta;
+          if (delta?.content) {
+            content += delta.content;
+            await onContent(delta.content);
+          }
+          for (const part of (delta?.tool_calls ?? []) as ToolCallDelta[]) {
+            const call = (toolCalls[part.index] ??= {
+              id: '',
+              type: 'function',
+              function: { name: '', arguments: '' },
+            });
+            if (part.id) call.id = part.id;
+            if (part.function?.name) call.function.name = part.function.name;
+            if (part.function?.arguments) call.function.arguments += part.function.arguments;
+          }
+        } catch {
+          // SSE partial JSON
+        }
+      }
+    }
+  }
+
+  return { content, toolCalls: toolCalls.filter(Boolean) };
+}
+
+const chatMessageValidator = v.object({
+  role: v.union(v.literal('user'), v.literal('assistant'), v.literal('system')),
+  content: v.string(),
+});
+
+// Retrieval is keyed on the latest user message; players get revealed canon only.
+async function getChatContextForUser(
+  ctx: QueryCtx,
+  userId: Id<'users'>,
+  projectId: Id<'projects'>,
+  messages: Array<{ role: string; content: string }>
+): Promise<ChatContext> {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw notFoundError('project', projectId);
+  }
+
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanReadRevealed(role)) {
+    throw authError('unauthorized', 'You do not have permission to access this project.');
+  }
+
+  const question = messages.findLast((message) => message.role === 'user')?.content ?? '';
+  return await buildChatContext(ctx, project, role, question);
+}
+
+export const getChatContext = internalQuery({
+  args: {
+    userId: v.id('users'),
+    projectId: v.id('projects'),
+    messages: v.array(chatMessageValidator),
+  },
+  handler: async (ctx, { userId, projectId, messages }): Promise<ChatContext> => {
+    return await getChatContextForUser(ctx, userId, projectId, messages);
+  },
+});
+
+export const getChatTools = internalQuery({
+  args: {
+    userId: v.id('users'),
+    projectId: v.id('projects'),
+  },
+  handler: async (ctx, { userId, projectId }): Promise<ChatToolDefinition[]> => {
+    const project = await ctx.db.get(projectId);
+    if (!project) return [];
+    return chatToolsForRole(await getProjectRoleForUser(ctx, project, userId));
+  },
+});
+
+// Access is checked again for every call: the conversation can outlive the user's role.
+export const runChatTool = internalMutation({
+  args: {
+    userId: v.id('users'),
+    projectId: v.id('projects'),
+    name: v.string(),
+    arguments: v.string(),
+  },
+  handler: async (ctx, { userId, projectId, name, arguments: rawArguments }): Promise<string> => {
+    const project = await ctx.db.get(projectId);
+    if (!project) {
+      return JSON.stringify({ error: 'Project not found' });
+    }
+    const role = await getProjectRoleForUser(ctx, project, userId);
+    return await executeChatTool(ctx, { userId, project, role }, name, rawArguments);
+  },
+});
+
 export const sendMessage = action({
   args: {
-    messages: v.array(
-      v.object({
-        role: v.union(v.literal('user'), v.literal('assistant'), v.literal('system')),
-        content: v.string(),
-      })
-    ),
+    messages: v.array(chatMessageValidator),
+    projectId: v.optional(v.id('projects')),
   },
-  handler: async (ctx, { messages }) => {
+  handler: async (
+    ctx,
+    { messages, projectId }
+  ): Promise<{ content: string; citations: ChatCitation[] }> => {
     const userId = await getAuthUserId(ctx);
     if (!userId) {
       throw authError('unauthenticated', 'Please sign in to continue.');
@@ -134,53 +327,76 @@ export const sendMessage = action({
       throw configError('MODEL', 'MODEL not configured');
     }
 
-    const apiMessages = [{ role: 'system', content: VELLUM_CHAT_PROMPT }, ...messages];
-
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://realmsync.app',
-        'X-Title': 'Realm Sync',
-      },
-      body: JSON.stringify({
+    const context: ChatContext | null =
+      projectId ?
+        await ctx.runQuery(internal.chat.getChatContext, { userId, projectId, messages })
+      : null;
+
+    const tools: ChatToolDefinition[] =
+      projectId ? await ctx.runQuery(internal.chat.getChatTools, { userId, projectId }) : [];
+
+    const conversation: CompletionMessage[] = [
+      { role: 'system', content: buildSystemPrompt(context, tools) },
+      ...messages,
+    ];
+
+    let content: string | undefined;
+    for (let round = 0; ; round++) {
+      const withTools = tools.length > 0 && round < MAX_TOOL_ROUNDS;
+      const response = await fetchCompletion(apiKey, {
         model,
-        messages: apiMessages,
-      }),
-    });
+        messages: conversation,
+        ...(withTools && { tools }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw apiError(response.status, 'OpenRouter API error', {
+          statusText: response.statusText,
+          errorText,
+        });
+      }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw apiError(response.status, 'OpenRouter API error', {
-        statusText: response.statusText,
-        errorText,
+      const data = await response.json();
+      const message = data.choices?.[0]?.message;
+      const toolCalls: ChatToolCall[] = (withTools && message?.tool_calls) || [];
+      if (!projectId || toolCalls.length === 0) {
+        content = message?.content;
+        break;
+      }
+
+      conversation.push({
+        role: 'assistant',
+        content: message.content ?? null,
+        tool_calls: toolCalls,
       });
+      for (const call of toolCalls) {
+        const result: string = await ctx.runMutation(internal.chat.runChatTool, {
+          userId,
+          projectId,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        });
+        conversation.push({ role: 'tool', tool_call_id: call.id, content: result });
+      }
     }
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
     if (!content) {
       throw apiError(500, 'Invalid response from OpenRouter API');
     }
 
     await ctx.runMutation(internal.usage.incrementChatUsage, { userId });
 
-    return content;
+    return { content, citations: context?.citations ?? [] };
   },
 });
 
 export const createStreamingChat = mutation({
   args: {
-    messages: v.array(
-      v.object({
-        role: v.union(v.literal('user'), v.literal('assistant'), v.literal('system')),
-        content: v.string(),
-      })
-    ),
+    messages: v.array(chatMessageValidator),
+    projectId: v.optional(v.id('projects')),
   },
-  handler: async (ctx, { messages: _messages }) => {
+  handler: async (ctx, { messages, projectId }) => {
     const userId = await requireAuth(ctx);
     const limitCheck = await ctx.runQuery(internal.usage.checkChatLimit, { userId });
 
@@ -191,6 +407,9 @@ export const createStreamingChat = mutation({
       throw limitError('chatMessagesPerMonth', limitCheck.limit, CHAT_LIMIT_MESSAGE);
     }
 
+    const context =
+      projectId ? await getChatContextForUser(ctx, userId, projectId, messages) : undefined;
+
     const streamId = await streaming.createStream(ctx);
     const token = createStreamToken();
     const now = Date.now();
@@ -201,9 +420,11 @@ export const createStreamingChat = mutation({
       token,
       createdAt: now,
       expiresAt: now + STREAM_TOKEN_TTL_MS,
+      projectId,
+      context,
     });
 
-    return { streamId, token };
+    return { streamId, token, citations: context?.citations ?? [] };
   },
 });
 
@@ -244,6 +465,8 @@ export const getChatStreamForToken = internalQuery({
       userId: stream.userId,
       expiresAt: stream.expiresAt,
       usedAt: stream.usedAt,
+      projectId: stream.projectId,
+      context: stream.context,
     };
   },
 });
@@ -359,7 +582,16 @@ export const streamChat = httpAction(async (ctx, request) => {
     return applyChatStreamCors(new Response('MODEL not configured', { status: 500 }), origin);
   }
 
-  const apiMessages = [{ role: 'system', content: VELLUM_CHAT_PROMPT }, ...chatMessages];
+  const { userId, projectId } = streamRecord;
+  const tools: ChatToolDefinition[] =
+    projectId && streamRecord.context ?
+      await ctx.runQuery(internal.chat.getChatTools, { userId, projectId })
+    : [];
+
+  const conversation: CompletionMessage[] = [
+    { role: 'system', content: buildSystemPrompt(streamRecord.context, tools) },
+    ...chatMessages,
+  ];
 
   const generateChat = async (
     _ctx: unknown,
@@ -367,61 +599,38 @@ export const streamChat = httpAction(async (ctx, request) => {
     _streamId: StreamId,
     appendChunk: (chunk: string) => Promise<void>
   ) => {
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://realmsync.app',
-        'X-Title': 'Realm Sync',
-      },
-      body: JSON.stringify({
+    for (let round = 0; ; round++) {
+      const withTools = tools.length > 0 && round < MAX_TOOL_ROUNDS;
+      const response = await fetchCompletion(apiKey, {
         model,
-        messages: apiMessages,
+        messages: conversation,
         stream: true,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw apiError(response.status, 'OpenRouter API error', { errorText });
-    }
+        ...(withTools && { tools }),
+      });
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw apiError(500, 'No response body');
-    }
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw apiError(response.status, 'OpenRouter API error', { errorText });
+      }
 
-    const decoder = new TextDecoder();
-    let sseBuffer = '';
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      sseBuffer += decoder.decode(value, { stream: true });
-      const lines = sseBuffer.split('\n');
-      sseBuffer = lines.pop() ?? '';
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              await appendChunk(content);
-            }
-          } catch {
-            // SSE partial JSON
-          }
-        }
+      const { content, toolCalls } = await readCompletionStream(response, appendChunk);
+      if (!projectId || toolCalls.length === 0) break;
+
+      // Keep any text streamed before the tool calls apart from the answer that follows them.
+      if (content) await appendChunk('\n\n');
+      conversation.push({ role: 'assistant', content: content || null, tool_calls: toolCalls });
+      for (const call of toolCalls) {
+        const result: string = await ctx.runMutation(internal.chat.runChatTool, {
+          userId,
+          projectId,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        });
+        conversation.push({ role: 'tool', tool_call_id: call.id, content: result });
       }
     }
 
-    await ctx.runMutation(internal.usage.incrementChatUsage, { userId: streamRecord.userId });
+    await ctx.runMutation(internal.usage.incrementChatUsage, { userId });
   };
 
   const response = await streaming.stream(ctx, request, streamId as StreamId, generateChat);
@@ -1,52 +1,281 @@
 import { mutation, query } from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { paginationOptsValidator } from 'convex/server';
 import { v } from 'convex/values';
 import { getAuthUserId, requireAuth } from './lib/auth';
+import { authError, notFoundError, validationError } from './lib/errors';
+import { getProjectRole, roleCanReadRevealed } from './lib/projectAccess';
 
-export const list = query({
-  args: {
-    limit: v.optional(v.number()),
-  },
-  handler: async (ctx, { limit = 50 }) => {
+// Conversations are threads owned by one user. A thread may be scoped to a project, in which
+// case Vellum answers from that project's canon and the user must still be able to read it.
+
+const DEFAULT_THREAD_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 100;
+const AUTO_TITLE_LENGTH = 60;
+
+function titleFromMessage(content: string): string {
+  const line = content.trim().split('\n')[0].replace(/\s+/g, ' ');
+  return line.length > AUTO_TITLE_LENGTH ? `${line.slice(0, AUTO_TITLE_LENGTH).trimEnd()}…` : line;
+}
+
+function normalizeTitle(title: string): string {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    throw validationError('title', 'Title cannot be empty');
+  }
+  if (trimmed.length > MAX_TITLE_LENGTH) {
+    throw validationError('title', `Title must be at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+async function canChatAboutProject(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<'projects'>
+): Promise<boolean> {
+  const role = await getProjectRole(ctx, projectId);
+  return roleCanReadRevealed(role);
+}
+
+async function requireThreadAccess(
+  ctx: MutationCtx,
+  threadId: Id<'chatThreads'>,
+  userId: Id<'users'>
+): Promise<Doc<'chatThreads'>> {
+  const thread = await ctx.db.get(threadId);
+  if (!thread) {
+    throw notFoundError('chatThread', threadId);
+  }
+  if (thread.userId !== userId) {
+    throw authError('unauthorized', 'You do not have permission to access this conversation.');
+  }
+  if (thread.projectId && !(await canChatAboutProject(ctx, thread.projectId))) {
+    throw authError('unauthorized', 'You do not have permission to access this project.');
+  }
+  return thread;
+}
+
+async function getReadableThread(
+  ctx: QueryCtx,
+  threadId: Id<'chatThreads'>
+): Promise<Doc<'chatThreads'> | null> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) return null;
+
+  const thread = await ctx.db.get(threadId);
+  if (!thread || thread.userId !== userId) return null;
+  if (thread.projectId && !(await canChatAboutProject(ctx, thread.projectId))) return null;
+  return thread;
+}
+
+// projectName is null for general chat and for projects the user can no longer read.
+async function withProjectName(ctx: QueryCtx, thread: Doc<'chatThreads'>) {
+  const project =
+    thread.projectId && (await canChatAboutProject(ctx, thread.projectId)) ?
+      await ctx.db.get(thread.projectId)
+    : null;
+  return { ...thread, projectName: project?.name ?? null };
+}
+
+async function deleteThreadMessages(ctx: MutationCtx, threadId: Id<'chatThreads'>) {
+  const messages = await ctx.db
+    .query('chatMessages')
+    .withIndex('by_thread', (q) => q.eq('threadId', threadId))
+    .collect();
+
+  for (const message of messages) {
+    await ctx.db.delete(message._id);
+  }
+  return messages.length;
+}
+
+export const listThreads = query({
+  args: {},
+  handler: async (ctx) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) return [];
 
-    return await ctx.db
-      .query('chatMessages')
+    const threads = await ctx.db
+      .query('chatThreads')
       .withIndex('by_user', (q) => q.eq('userId', userId))
-      .order('asc')
-      .take(limit);
+      .order('desc')
+      .collect();
+
+    return await Promise.all(threads.map((thread) => withProjectName(ctx, thread)));
   },
 });
 
-export const send = mutation({
+export const getThread = query({
+  args: { id: v.id('chatThreads') },
+  handler: async (ctx, { id }) => {
+    const thread = await getReadableThread(ctx, id);
+    if (!thread) return null;
+
+    return await withProjectName(ctx, thread);
+  },
+});
+
+export const createThread = mutation({
   args: {
-    role: v.union(v.literal('user'), v.literal('assistant')),
-    content: v.string(),
+    projectId: v.optional(v.id('projects')),
+    title: v.optional(v.string()),
   },
-  handler: async (ctx, { role, content }) => {
+  handler: async (ctx, { projectId, title }) => {
     const userId = await requireAuth(ctx);
 
-    return await ctx.db.insert('chatMessages', {
+    if (projectId && !(await canChatAboutProject(ctx, projectId))) {
+      throw authError('unauthorized', 'You do not have permission to access this project.');
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert('chatThreads', {
       userId,
-      role,
-      content,
-      createdAt: Date.now(),
+      projectId,
+      title: title === undefined ? DEFAULT_THREAD_TITLE : normalizeTitle(title),
+      createdAt: now,
+      updatedAt: now,
     });
   },
 });
 
-export const clear = mutation({
-  args: {},
-  handler: async (ctx) => {
+export const renameThread = mutation({
+  args: {
+    id: v.id('chatThreads'),
+    title: v.string(),
+  },
+  handler: async (ctx, { id, title }) => {
     const userId = await requireAuth(ctx);
+    await requireThreadAccess(ctx, id, userId);
 
-    const messages = await ctx.db
+    await ctx.db.patch(id, { title: normalizeTitle(title) });
+    return id;
+  },
+});
+
+export const removeThread = mutation({
+  args: { id: v.id('chatThreads') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const thread = await ctx.db.get(id);
+    if (!thread) {
+      throw notFoundError('chatThread', id);
+    }
+    // No project check: a thread can still be deleted after losing access to its project.
+    if (thread.userId !== userId) {
+      throw authError('unauthorized', 'You do not have permission to access this conversation.');
+    }
+
+    const deleted = await deleteThreadMessages(ctx, id);
+    await ctx.db.delete(id);
+    return { deleted };
+  },
+});
+
+/** Copy a thread up to and including one message into a new thread. */
+export const forkThread = mutation({
+  args: { messageId: v.id('chatMessages') },
+  handler: async (ctx, { messageId }) => {
+    const userId = await requireAuth(ctx);
+    const message = await ctx.db.get(messageId);
+    if (!message?.threadId) {
+      throw notFoundError('chatMessage', messageId);
+    }
+    const thread = await requireThreadAccess(ctx, message.threadId, userId);
+
+    const history = await ctx.db
       .query('chatMessages')
-      .withIndex('by_user', (q) => q.eq('userId', userId))
+      .withIndex('by_thread', (q) =>
+        q.eq('threadId', thread._id).lte('createdAt', message.createdAt)
+      )
       .collect();
 
-    await Promise.all(messages.map((msg) => ctx.db.delete(msg._id)));
+    const now = Date.now();
+    const forkId = await ctx.db.insert('chatThreads', {
+      userId,
+      projectId: thread.projectId,
+      title: `${thread.title} (fork)`.slice(0, MAX_TITLE_LENGTH),
+      forkedFromThreadId: thread._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    for (const entry of history) {
+      if (entry._creationTime > message._creationTime) continue;
+      await ctx.db.insert('chatMessages', {
+        userId,
+        threadId: forkId,
+        role: entry.role,
+        content: entry.content,
+        citations: entry.citations,
+        createdAt: entry.createdAt,
+      });
+    }
+
+    return forkId;
+  },
+});
+
+/** Newest first, so the first page is the end of the conversation. */
+export const list = query({
+  args: {
+    threadId: v.id('chatThreads'),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { threadId, paginationOpts }) => {
+    const thread = await getReadableThread(ctx, threadId);
+    if (!thread) {
+      return { page: [], isDone: true, continueCursor: '' };
+    }
+
+    return await ctx.db
+      .query('chatMessages')
+      .withIndex('by_thread', (q) => q.eq('threadId', threadId))
+      .order('desc')
+      .paginate(paginationOpts);
+  },
+});
+
+export const send = mutation({
+  args: {
+    threadId: v.id('chatThreads'),
+    role: v.union(v.literal('user'), v.literal('assistant')),
+    content: v.string(),
+    // Assistant replies pass the stream they came from so its citations are kept with them.
+    streamId: v.optional(v.string()),
+  },
+  handler: async (ctx, { threadId, role, content, streamId }) => {
+    const userId = await requireAuth(ctx);
+    const thread = await requireThreadAccess(ctx, threadId, userId);
+
+    const stream =
+      streamId ?
+        await ctx.db
+          .query('chatStreams')
+          .withIndex('by_stream', (q) => q.eq('streamId', streamId))
+          .first()
+      : null;
+    if (stream && stream.userId !== userId) {
+      throw authError('unauthorized', 'You do not have permission to access this stream.');
+    }
+
+    const now = Date.now();
+    const messageId = await ctx.db.insert('chatMessages', {
+      userId,
+      threadId,
+      role,
+      content,
+      citations: stream?.projectId === thread.projectId ? stream?.context?.citations : undefined,
+      createdAt: now,
+    });
+
+    await ctx.db.patch(threadId, {
+      updatedAt: now,
+      ...(role === 'user' &&
+        thread.title === DEFAULT_THREAD_TITLE &&
+        content.trim() && { title: titleFromMessage(content) }),
+    });
 
-    return { deleted: messages.length };
+    return messageId;
   },
 });
@@ -0,0 +1,86 @@
+import { v } from 'convex/values';
+import { internalMutation, query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { checkIssueValidator, checkSummaryValidator, checkUsageValidator } from './lib/checkRuns';
+import { getProjectRole, roleCanRead } from './lib/projectAccess';
+
+// History of continuity checks. `checks.runCheck` opens a run before it does any work and
+// closes it as completed or failed, so a document's history also shows checks that broke.
+
+export const start = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+    trigger: v.union(v.literal('extraction'), v.literal('manual')),
+    requestedBy: v.optional(v.id('users')),
+    model: v.optional(v.string()),
+    promptVersion: v.string(),
+  },
+  handler: async (ctx, { documentId, ...run }): Promise<Id<'checkRuns'> | null> => {
+    const doc = await ctx.db.get(documentId);
+    if (!doc) return null;
+    return await ctx.db.insert('checkRuns', {
+      projectId: doc.projectId,
+      documentId,
+      status: 'running',
+      startedAt: Date.now(),
+      ...run,
+    });
+  },
+});
+
+export const complete = internalMutation({
+  args: {
+    id: v.id('checkRuns'),
+    summary: checkSummaryValidator,
+    issues: v.array(checkIssueValidator),
+    usage: checkUsageValidator,
+    chunkCount: v.number(),
+    cachedChunks: v.number(),
+    alertsCreated: v.number(),
+  },
+  handler: async (ctx, { id, ...result }) => {
+    // The document, and its runs with it, may have been deleted while the check ran.
+    if (!(await ctx.db.get(id))) return;
+    await ctx.db.patch(id, { ...result, status: 'completed', completedAt: Date.now() });
+  },
+});
+
+export const fail = internalMutation({
+  args: { id: v.id('checkRuns'), error: v.string() },
+  handler: async (ctx, { id, error }) => {
+    if (!(await ctx.db.get(id))) return;
+    await ctx.db.patch(id, { status: 'failed', error, completedAt: Date.now() });
+  },
+});
+
+/** A document's check runs, newest first. */
+export const listByDocument = query({
+  args: { documentId: v.id('documents') },
+  handler: async (
+    ctx,
+    { documentId }
+  ): Promise<Array<Doc<'checkRuns'> & { requestedByName: string | null }>> => {
+    const document = await ctx.db.get(documentId);
+    if (!document) return [];
+    const role = await getProjectRole(ctx, document.projectId);
+    if (!roleCanRead(role)) return [];
+
+    const runs = await ctx.db
+      .query('checkRuns')
+      .withIndex('by_document', (q) => q.eq('documentId', documentId))
+      .order('desc')
+      .collect();
+
+    const userNames = new Map<Id<'users'>, string | null>();
+    for (const run of runs) {
+      if (run.requestedBy && !userNames.has(run.requestedBy)) {
+        userNames.set(run.requestedBy, (await ctx.db.get(run.requestedBy))?.name ?? null);
+      }
+    }
+
+    return runs.map((run) => ({
+      ...run,
+      requestedByName: run.requestedBy ? (userNames.get(run.requestedBy) ?? null) : null,
+    }));
+  },
+});
@@ -1,12 +1,30 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
 import { v } from 'convex/values';
 import { action, internalAction, internalMutation, internalQuery } from './_generated/server';
 import { internal, api } from './_generated/api';
-import type { Id } from './_generated/dataModel';
-import { apiError, configError, notFoundError } from './lib/errors';
+import type { Doc, Id } from './_generated/dataModel';
+import type { ActionCtx, MutationCtx } from './_generated/server';
+import { findNearest } from './embeddings';
+import { normalizeEvidence, opensAlert, upsertAlert } from './lib/alerts';
+import { attributeValuesEqual, formatAttributeValue, loadTemplateResolver } from './lib/attributes';
+import { loadCalendars, resolveDeath, resolveEventDate, type DatedSource } from './lib/calendar';
+import { findFactContradictions, getSingleValuedPredicates } from './lib/contradictions';
+import { checkSummaryValidator, type CheckIssue, type CheckUsage } from './lib/checkRuns';
+import { clearChunkProgress, documentChunkSource, reportChunkProgress } from './documentChunks';
+import { isStoredDocument } from './lib/documentChunks';
+import { getEmbeddingProvider } from './lib/embeddings';
+import { buildCanonContext, type CanonContext, type CanonContextEntity } from './lib/checkContext';
+import { apiError, authError, describeError, notFoundError } from './lib/errors';
 import { parseJsonOrThrow } from './lib/json';
+import { roleCanEdit } from './lib/projectAccess';
 
 const PROMPT_VERSION = 'check-v1';
 
+// Embedding retrieval costs a provider call per check, so it only runs once canon is large enough
+// that name matching alone may miss relevant facts.
+const MIN_FACTS_FOR_RETRIEVAL = 60;
+const MAX_RANKED_FACTS = 1000;
+
 const VELLUM_CHECK_PROMPT = `You are Vellum, the Archivist Moth. You are reviewing new text against established canon to identify inconsistencies.
 
 ESTABLISHED CANON:
@@ -99,37 +117,6 @@ type CheckResult = {
   };
 };
 
-type CanonContextEntity = {
-  id: Id<'entities'>;
-  name: string;
-  type: string;
-  facts: Array<{
-    id: Id<'facts'>;
-    predicate: string;
-    object: string;
-    evidence: string;
-    documentTitle: string;
-  }>;
-};
-
-type CanonContext = {
-  entities: CanonContextEntity[];
-  formattedContext: string;
-};
-
-function formatCanonContext(entities: CanonContextEntity[]): string {
-  let formattedContext = '';
-  for (const entity of entities) {
-    formattedContext += `\n## Entity: ${entity.name}\n`;
-    formattedContext += `Type: ${entity.type}\n`;
-    formattedContext += `Facts:\n`;
-    for (const fact of entity.facts) {
-      formattedContext += `- ${fact.predicate} ${fact.object} [${fact.documentTitle}]\n`;
-    }
-  }
-  return formattedContext;
-}
-
 export const getDocumentForCheck = internalQuery({
   args: { documentId: v.id('documents') },
   handler: async (ctx, { documentId }) => {
@@ -137,57 +124,69 @@ export const getDocumentForCheck = internalQuery({
   },
 });
 
-export const getCanonContext = internalQuery({
+export const countCanonFacts = internalQuery({
   args: { projectId: v.id('projects') },
-  handler: async (ctx, { projectId }): Promise<CanonContext> => {
-    const entities = await ctx.db
-      .query('entities')
-      .withIndex('by_project_status', (q) => q.eq('projectId', projectId).eq('status', 'confirmed'))
+  handler: async (ctx, { projectId }) => {
+    const facts = await ctx.db
+      .query('facts')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId).eq('status', 'confirmed'))
       .collect();
+    return facts.length;
+  },
+});
 
-    const documents = await ctx.db
-      .query('documents')
-      .withIndex('by_project', (q) => q.eq('projectId', projectId))
-      .collect();
-    const documentTitleById = new Map(documents.map((doc) => [doc._id, doc.title]));
-
-    const entitiesWithFacts: CanonContextEntity[] = [];
+export const getCanonContext = internalQuery({
+  args: {
+    projectId: v.id('projects'),
+    // The text being checked; when set, only entities it names and their neighbours are sent.
+    text: v.optional(v.string()),
+    // Facts ranked by relevance, best first.
+    factIds: v.optional(v.array(v.id('facts'))),
+  },
+  handler: async (ctx, { projectId, text, factIds }): Promise<CanonContext> => {
+    return await buildCanonContext(ctx, projectId, { text, factIds });
+  },
+});
 
-    for (const entity of entities) {
-      const confirmedFacts = await ctx.db
-        .query('facts')
-        .withIndex('by_entity', (q) => q.eq('entityId', entity._id).eq('status', 'confirmed'))
-        .collect();
-      if (confirmedFacts.length === 0) continue;
-
-      entitiesWithFacts.push({
-        id: entity._id,
-        name: entity.name,
-        type: entity.type,
-        facts: confirmedFacts.map((fact) => ({
-          id: fact._id,
-          predicate: fact.predicate,
-          object: fact.object,
-          evidence: fact.evidenceSnippet ?? '',
-          documentTitle:
-            fact.documentId ? (documentTitleById.get(fact.documentId) ?? 'Unknown') : 'Unknown',
-        })),
-      });
+/**
+ * Rank the project's facts by how close they are to any chunk of the document. Returns nothing
+ * when canon is small enough for the named entities and their neighbours to cover it.
+ */
+async function rankCanonFacts(
+  ctx: ActionCtx,
+  doc: Doc<'documents'>
+): Promise<Id<'facts'>[] | undefined> {
+  const total = await ctx.runQuery(internal.checks.countCanonFacts, { projectId: doc.projectId });
+  if (total <= MIN_FACTS_FOR_RETRIEVAL) return undefined;
+
+  const provider = getEmbeddingProvider();
+  const chunks = await ctx.runQuery(internal.embeddings.getVectors, {
+    sourceId: doc._id,
+    provider: provider.name,
+  });
+  // Not embedded yet; the named entities and their neighbours still make up the context.
+  if (chunks.length === 0) return undefined;
+
+  const scores = new Map<string, number>();
+  for (const { vector } of chunks) {
+    for (const match of await findNearest(ctx, doc.projectId, provider, vector)) {
+      if (match.sourceType !== 'fact') continue;
+      scores.set(match.sourceId, Math.max(scores.get(match.sourceId) ?? -1, match.score));
     }
+  }
 
-    return {
-      entities: entitiesWithFacts,
-      formattedContext: formatCanonContext(entitiesWithFacts),
-    };
-  },
-});
+  return [...scores]
+    .toSorted((a, b) => b[1] - a[1])
+    .slice(0, MAX_RANKED_FACTS)
+    .map(([factId]) => factId as Id<'facts'>);
+}
 
 async function callCheckLLM(
   canonContext: string,
   documentContent: string,
   apiKey: string,
   model: string
-): Promise<CheckResult> {
+): Promise<{ result: CheckResult; usage: CheckUsage }> {
   const prompt = VELLUM_CHECK_PROMPT.replace('{canonContext}', canonContext).replace(
     '{documentContent}',
     documentContent
@@ -235,7 +234,14 @@ async function callCheckLLM(
   }
 
   const parsed = parseJsonOrThrow(llmResponse);
-  return normalizeCheckResult(parsed);
+  return {
+    result: normalizeCheckResult(parsed),
+    usage: {
+      promptTokens: data.usage?.prompt_tokens ?? 0,
+      completionTokens: data.usage?.completion_tokens ?? 0,
+      totalTokens: data.usage?.total_tokens ?? 0,
+    },
+  };
 }
 
 function normalizeCheckResult(raw: unknown): CheckResult {
@@ -283,41 +289,136 @@ function normalizeCheckResult(raw: unknown): CheckResult {
   };
 }
 
-export const runCheck = internalAction({
-  args: { documentId: v.id('documents') },
-  handler: async (ctx, { documentId }): Promise<CheckResult> => {
-    const doc = await ctx.runQuery(internal.checks.getDocumentForCheck, { documentId });
-    // Gracefully handle deleted/empty documents (may have been deleted after scheduling)
-    if (!doc || !doc.content) {
-      return {
-        alerts: [],
-        summary: { totalIssues: 0, errors: 0, warnings: 0, checkedEntities: [] },
-      };
+/**
+ * Combine per-chunk results. Overlapping chunks can raise the same issue twice, so alerts are
+ * deduplicated by title, and the summary reports the canon entities that were actually sent.
+ */
+function mergeCheckResults(results: CheckResult[], entities: CanonContextEntity[]): CheckResult {
+  const alerts: CheckResult['alerts'] = [];
+  const titles = new Set<string>();
+  for (const result of results) {
+    for (const alert of result.alerts) {
+      if (titles.has(alert.title)) continue;
+      titles.add(alert.title);
+      alerts.push(alert);
     }
+  }
 
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-      throw configError('OPENROUTER_API_KEY', 'OPENROUTER_API_KEY not configured');
-    }
+  return {
+    alerts,
+    summary: {
+      totalIssues: alerts.length,
+      errors: alerts.filter((alert) => alert.severity === 'error').length,
+      warnings: alerts.filter((alert) => alert.severity === 'warning').length,
+      checkedEntities: entities.map((entity) => entity.name),
+    },
+  };
+}
 
-    const model = process.env.MODEL;
-    if (!model) {
-      throw configError('MODEL', 'MODEL not configured');
-    }
+type CheckOutcome = {
+  result: CheckResult;
+  // Every issue the run found, rule-based and from the model, for the run history.
+  issues: CheckIssue[];
+  usage: CheckUsage;
+  chunkCount: number;
+  cachedChunks: number;
+  alertsCreated: number;
+};
+
+/** The model's result with the rule-based issues folded into its summary. */
+function withRuleIssues(result: CheckResult, ruleIssues: CheckIssue[]) {
+  const modelIssues = result.alerts.map(({ type, severity, title }) => ({ type, severity, title }));
+  const issues = [...ruleIssues, ...modelIssues];
+  return {
+    issues,
+    result: {
+      alerts: result.alerts,
+      summary: {
+        ...result.summary,
+        totalIssues: issues.length,
+        errors: issues.filter((issue) => issue.severity === 'error').length,
+        warnings: issues.filter((issue) => issue.severity === 'warning').length,
+      },
+    },
+  };
+}
+
+async function performCheck(ctx: ActionCtx, doc: Doc<'documents'>): Promise<CheckOutcome> {
+  const documentId = doc._id;
+  const usage: CheckUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let alertsCreated = 0;
+  const ruleIssues: CheckIssue[] = [];
+
+  // Rule-based checks need no model, so they are reported even when the LLM is unavailable.
+  for (const ruleCheck of [
+    internal.checks.checkFactContradictions,
+    internal.checks.checkAttributeConflicts,
+    internal.checks.checkTimelineConsistency,
+  ]) {
+    const outcome = await ctx.runMutation(ruleCheck, { documentId });
+    alertsCreated += outcome.alertsCreated;
+    ruleIssues.push(...outcome.issues);
+  }
+
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  const model = process.env.MODEL;
+  if (!apiKey || !model) {
+    // Without a model the run completes with the rule-based results alone.
+    console.warn('[runCheck] OPENROUTER_API_KEY or MODEL not configured, ran rule checks only');
+    const empty: CheckResult = {
+      alerts: [],
+      summary: { totalIssues: 0, errors: 0, warnings: 0, checkedEntities: [] },
+    };
+    return {
+      ...withRuleIssues(empty, ruleIssues),
+      usage,
+      chunkCount: 0,
+      cachedChunks: 0,
+      alertsCreated,
+    };
+  }
+
+  let factIds: Id<'facts'>[] | undefined;
+  try {
+    factIds = await rankCanonFacts(ctx, doc);
+  } catch (error) {
+    // Retrieval only adds canon; without it the check still covers the entities the text names.
+    console.warn('[runCheck] Canon retrieval failed, using named entities only', error);
+  }
+
+  // Long documents are checked chunk by chunk, each against the canon it mentions.
+  const source = await documentChunkSource(ctx, doc);
+  if (!source) {
+    throw notFoundError('file', doc.storageId);
+  }
+  const chunkResults: CheckResult[] = [];
+  const included = new Map<Id<'entities'>, CanonContextEntity>();
+  let chunkCount = 0;
+  let cachedChunks = 0;
+
+  for await (const chunk of source.chunks) {
+    await reportChunkProgress(ctx, documentId, 'check', chunkCount, source.totalChunks);
+    chunkCount++;
 
     const canonContext = await ctx.runQuery(internal.checks.getCanonContext, {
       projectId: doc.projectId,
+      text: chunk.text,
+      factIds,
     });
+    if (!canonContext.formattedContext.trim()) continue;
 
-    if (!canonContext.formattedContext.trim()) {
-      return {
-        alerts: [],
-        summary: { totalIssues: 0, errors: 0, warnings: 0, checkedEntities: [] },
-      };
+    for (const entity of canonContext.entities) {
+      const known = included.get(entity.id);
+      if (!known) {
+        included.set(entity.id, { ...entity, facts: [...entity.facts] });
+        continue;
+      }
+      const knownFactIds = new Set(known.facts.map((fact) => fact.id));
+      known.facts.push(...entity.facts.filter((fact) => !knownFactIds.has(fact.id)));
     }
 
     const contentHash: string = await ctx.runQuery(internal.llm.utils.computeHash, {
-      content: `${PROMPT_VERSION}:${canonContext.formattedContext}:${doc.content}`,
+      content: `${PROMPT_VERSION}:${canonContext.formattedContext}:${chunk.text}`,
     });
 
     const cached = await ctx.runQuery(internal.llm.cache.checkCache, {
@@ -326,28 +427,89 @@ export const runCheck = internalAction({
     });
 
     if (cached) {
-      return normalizeCheckResult(cached);
+      chunkResults.push(normalizeCheckResult(cached));
+      cachedChunks++;
+      continue;
     }
 
-    const result = await callCheckLLM(canonContext.formattedContext, doc.content, apiKey, model);
+    const response = await callCheckLLM(canonContext.formattedContext, chunk.text, apiKey, model);
+    usage.promptTokens += response.usage.promptTokens;
+    usage.completionTokens += response.usage.completionTokens;
+    usage.totalTokens += response.usage.totalTokens;
 
     await ctx.runMutation(internal.llm.cache.saveToCache, {
       inputHash: contentHash,
       promptVersion: PROMPT_VERSION,
       modelId: model,
-      response: result,
+      response: response.result,
     });
 
-    if (result.alerts.length > 0) {
-      await ctx.runMutation(internal.checks.createAlerts, {
-        documentId,
-        projectId: doc.projectId,
-        checkResult: result,
-        canonContext: canonContext.entities,
+    chunkResults.push(response.result);
+  }
+  await clearChunkProgress(ctx, documentId, source.totalChunks);
+
+  const canonEntities = [...included.values()];
+  const result = mergeCheckResults(chunkResults, canonEntities);
+
+  if (result.alerts.length > 0) {
+    const created = await ctx.runMutation(internal.checks.createAlerts, {
+      documentId,
+      projectId: doc.projectId,
+      checkResult: result,
+      canonContext: canonEntities,
+    });
+    alertsCreated += created.alertsCreated;
+  }
+
+  return { ...withRuleIssues(result, ruleIssues), usage, chunkCount, cachedChunks, alertsCreated };
+}
+
+export const runCheck = internalAction({
+  args: {
+    documentId: v.id('documents'),
+    // Checks run after every extraction; manual re-runs come from triggerCheck.
+    trigger: v.optional(v.union(v.literal('extraction'), v.literal('manual'))),
+    requestedBy: v.optional(v.id('users')),
+  },
+  handler: async (ctx, { documentId, trigger, requestedBy }): Promise<CheckResult> => {
+    const doc = await ctx.runQuery(internal.checks.getDocumentForCheck, { documentId });
+    // Gracefully handle deleted/empty documents (may have been deleted after scheduling)
+    if (!doc || (!doc.content && !isStoredDocument(doc))) {
+      return {
+        alerts: [],
+        summary: { totalIssues: 0, errors: 0, warnings: 0, checkedEntities: [] },
+      };
+    }
+
+    const runId = await ctx.runMutation(internal.checkRuns.start, {
+      documentId,
+      trigger: trigger ?? 'extraction',
+      requestedBy,
+      model: process.env.MODEL,
+      promptVersion: PROMPT_VERSION,
+    });
+
+    let outcome: CheckOutcome;
+    try {
+      outcome = await performCheck(ctx, doc);
+    } catch (error) {
+      if (runId) {
+        await ctx.runMutation(internal.checkRuns.fail, { id: runId, error: describeError(error) });
+      }
+      await ctx.runMutation(internal.documents.setProcessingProgress, { id: documentId });
+      throw error;
+    }
+
+    if (runId) {
+      const { result, ...stats } = outcome;
+      await ctx.runMutation(internal.checkRuns.complete, {
+        id: runId,
+        summary: result.summary,
+        ...stats,
       });
     }
 
-    return result;
+    return outcome.result;
   },
 });
 
@@ -369,12 +531,7 @@ const checkResultValidator = v.object({
       affectedEntities: v.optional(v.array(v.string())),
     })
   ),
-  summary: v.object({
-    totalIssues: v.number(),
-    errors: v.number(),
-    warnings: v.number(),
-    checkedEntities: v.array(v.string()),
-  }),
+  summary: checkSummaryValidator,
 });
 
 const canonContextValidator = v.array(
@@ -394,6 +551,29 @@ const canonContextValidator = v.array(
   })
 );
 
+async function incrementAlertCount(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  alertsCreated: number,
+  now: number
+): Promise<void> {
+  if (alertsCreated === 0) return;
+  const project = await ctx.db.get(projectId);
+  if (!project) return;
+
+  const stats = project.stats ?? {
+    documentCount: 0,
+    entityCount: 0,
+    factCount: 0,
+    alertCount: 0,
+    noteCount: 0,
+  };
+  await ctx.db.patch(projectId, {
+    updatedAt: now,
+    stats: { ...stats, alertCount: stats.alertCount + alertsCreated },
+  });
+}
+
 export const createAlerts = internalMutation({
   args: {
     documentId: v.id('documents'),
@@ -412,7 +592,7 @@ export const createAlerts = internalMutation({
       entityNameToId.set(entity.name.toLowerCase(), entity.id);
       factsByEntity.set(
         entity.name.toLowerCase(),
-        entity.facts.map((f) => ({ id: f.id, evidence: f.evidence }))
+        entity.facts.map((f) => ({ id: f.id, evidence: normalizeEvidence(f.evidence) }))
       );
     }
 
@@ -420,6 +600,14 @@ export const createAlerts = internalMutation({
     let alertsCreated = 0;
 
     for (const alert of checkResult.alerts) {
+      // An alert cites the canon facts it quotes, not every fact that was in the prompt.
+      const canonQuotes = alert.evidence
+        .filter((ev) => ev.source === 'canon')
+        .map((ev) => normalizeEvidence(ev.quote))
+        .filter(Boolean);
+      const isQuoted = (evidence: string) =>
+        !!evidence &&
+        canonQuotes.some((quote) => quote.includes(evidence) || evidence.includes(quote));
       const entityIds: Id<'entities'>[] = [];
       const factIds: Id<'facts'>[] = [];
       const evidenceRecords: Array<{
@@ -436,7 +624,7 @@ export const createAlerts = internalMutation({
           const facts = factsByEntity.get(entityName.toLowerCase());
           if (facts) {
             for (const fact of facts) {
-              if (!factIds.includes(fact.id)) {
+              if (isQuoted(fact.evidence) && !factIds.includes(fact.id)) {
                 factIds.push(fact.id);
               }
             }
@@ -459,9 +647,10 @@ export const createAlerts = internalMutation({
         });
       }
 
-      await ctx.db.insert('alerts', {
+      const outcome = await upsertAlert(ctx, {
         projectId,
         documentId,
+        rule: `model:${alert.type}`,
         factIds,
         entityIds,
         type: alert.type,
@@ -470,31 +659,336 @@ export const createAlerts = internalMutation({
         description: alert.description,
         evidence: evidenceRecords,
         suggestedFix: alert.suggestedFix,
-        status: 'open',
-        createdAt: now,
       });
+      if (opensAlert(outcome)) alertsCreated++;
+    }
+
+    await incrementAlertCount(ctx, projectId, alertsCreated, now);
+
+    return { alertsCreated };
+  },
+});
 
-      alertsCreated++;
+/**
+ * Flag facts from a document that give a different object than confirmed canon for the same
+ * entity and a single-valued predicate. Runs locally, without an API call.
+ */
+export const checkFactContradictions = internalMutation({
+  args: { documentId: v.id('documents') },
+  handler: async (ctx, { documentId }) => {
+    const doc = await ctx.db.get(documentId);
+    if (!doc) return { alertsCreated: 0, issues: [] };
+    const project = await ctx.db.get(doc.projectId);
+    if (!project) return { alertsCreated: 0, issues: [] };
+
+    const predicates = getSingleValuedPredicates(project);
+    if (predicates.size === 0) return { alertsCreated: 0, issues: [] };
+
+    const incoming = await ctx.db
+      .query('facts')
+      .withIndex('by_document', (q) => q.eq('documentId', documentId))
+      .filter((q) => q.neq(q.field('status'), 'rejected'))
+      .collect();
+
+    const canon: Doc<'facts'>[] = [];
+    const entityIds = new Set(
+      incoming.map((fact) => fact.entityId).filter((id): id is Id<'entities'> => !!id)
+    );
+    for (const entityId of entityIds) {
+      const confirmed = await ctx.db
+        .query('facts')
+        .withIndex('by_entity', (q) => q.eq('entityId', entityId).eq('status', 'confirmed'))
+        .collect();
+      canon.push(...confirmed.filter((fact) => fact.documentId !== documentId));
     }
 
-    if (alertsCreated > 0) {
-      const project = await ctx.db.get(projectId);
-      if (project) {
-        const stats = project.stats ?? {
-          documentCount: 0,
-          entityCount: 0,
-          factCount: 0,
-          alertCount: 0,
-          noteCount: 0,
-        };
-        await ctx.db.patch(projectId, {
-          updatedAt: now,
-          stats: { ...stats, alertCount: stats.alertCount + alertsCreated },
+    const contradictions = findFactContradictions(incoming, canon, predicates);
+    if (contradictions.length === 0) return { alertsCreated: 0, issues: [] };
+
+    const seenTitles = new Set<string>();
+    const documentTitles = new Map<Id<'documents'>, string>([[doc._id, doc.title]]);
+    async function getDocumentTitle(id: Id<'documents'>): Promise<string> {
+      const known = documentTitles.get(id);
+      if (known !== undefined) return known;
+      const title = (await ctx.db.get(id))?.title ?? 'Unknown';
+      documentTitles.set(id, title);
+      return title;
+    }
+
+    const now = Date.now();
+    let alertsCreated = 0;
+    const issues: CheckIssue[] = [];
+
+    for (const contradiction of contradictions) {
+      const entity = await ctx.db.get(contradiction.entityId);
+      if (!entity) continue;
+
+      const label = contradiction.predicate.replace(/_/g, ' ');
+      const title = `${entity.name}: conflicting ${label}`;
+      if (seenTitles.has(title)) continue;
+      seenTitles.add(title);
+
+      const canonValues = [...new Set(contradiction.canon.map((fact) => fact.object))];
+      const newValues = [...new Set(contradiction.incoming.map((fact) => fact.object))];
+      const evidence = [];
+      for (const fact of [...contradiction.canon, ...contradiction.incoming]) {
+        evidence.push({
+          snippet: fact.evidenceSnippet ?? `${fact.subject} ${fact.predicate} ${fact.object}`,
+          documentId: fact.documentId ?? documentId,
+          documentTitle: fact.documentId ? await getDocumentTitle(fact.documentId) : 'Canon',
         });
       }
+
+      const outcome = await upsertAlert(ctx, {
+        projectId: doc.projectId,
+        documentId,
+        rule: `fact:${contradiction.predicate}`,
+        factIds: [...contradiction.canon, ...contradiction.incoming].map((fact) => fact._id),
+        entityIds: [entity._id],
+        type: 'contradiction',
+        severity: 'error',
+        title,
+        description: `${entity.name} can only have one ${label}. Canon says "${canonValues.join('", "')}", but this document says "${newValues.join('", "')}".`,
+        evidence,
+        suggestedFix: `Reconcile the ${label}, or remove "${contradiction.predicate}" from the project's single-valued predicates if ${entity.name} can have several.`,
+      });
+      if (opensAlert(outcome)) alertsCreated++;
+      if (outcome !== 'suppressed')
+        issues.push({ type: 'contradiction', severity: 'error', title });
     }
 
-    return { alertsCreated };
+    await incrementAlertCount(ctx, doc.projectId, alertsCreated, now);
+
+    return { alertsCreated, issues };
+  },
+});
+
+/**
+ * Compare the attribute values extracted from a document against the confirmed values
+ * from other sources. Attributes are single-valued, so any mismatch is a contradiction.
+ */
+export const checkAttributeConflicts = internalMutation({
+  args: { documentId: v.id('documents') },
+  handler: async (ctx, { documentId }) => {
+    const doc = await ctx.db.get(documentId);
+    if (!doc) return { alertsCreated: 0, issues: [] };
+
+    const attributes = await ctx.db
+      .query('entityAttributes')
+      .withIndex('by_document', (q) => q.eq('documentId', documentId))
+      .filter((q) => q.neq(q.field('status'), 'rejected'))
+      .collect();
+    if (attributes.length === 0) return { alertsCreated: 0, issues: [] };
+
+    const seenTitles = new Set<string>();
+    const resolveTemplate = await loadTemplateResolver(ctx, doc.projectId);
+    const now = Date.now();
+    let alertsCreated = 0;
+    const issues: CheckIssue[] = [];
+
+    for (const attribute of attributes) {
+      const entity = await ctx.db.get(attribute.entityId);
+      if (!entity) continue;
+
+      const canon = await ctx.db
+        .query('entityAttributes')
+        .withIndex('by_entity', (q) => q.eq('entityId', entity._id).eq('key', attribute.key))
+        .filter((q) =>
+          q.and(q.eq(q.field('status'), 'confirmed'), q.neq(q.field('documentId'), documentId))
+        )
+        .first();
+      if (!canon || attributeValuesEqual(canon.value, attribute.value)) continue;
+
+      const label =
+        resolveTemplate(entity).find((field) => field.key === attribute.key)?.label ??
+        attribute.key;
+      const title = `${entity.name}: conflicting ${label.toLowerCase()}`;
+      if (seenTitles.has(title)) continue;
+      seenTitles.add(title);
+
+      const canonDocument = canon.documentId ? await ctx.db.get(canon.documentId) : null;
+      const canonValue = formatAttributeValue(canon.value);
+      const newValue = formatAttributeValue(attribute.value);
+
+      const outcome = await upsertAlert(ctx, {
+        projectId: doc.projectId,
+        documentId,
+        rule: `attribute:${attribute.key}`,
+        factIds: [],
+        entityIds: [entity._id],
+        type: 'contradiction',
+        severity: 'error',
+        title,
+        description: `Canon records ${entity.name}'s ${label.toLowerCase()} as "${canonValue}", but this document says "${newValue}".`,
+        evidence: [
+          {
+            snippet: canon.evidenceSnippet ?? `${label}: ${canonValue}`,
+            documentId: canonDocument?._id ?? documentId,
+            documentTitle: canonDocument?.title ?? 'Canon',
+          },
+          {
+            snippet: attribute.evidenceSnippet ?? `${label}: ${newValue}`,
+            documentId,
+            documentTitle: doc.title,
+          },
+        ],
+        suggestedFix: `Update the text to match "${canonValue}", or confirm "${newValue}" on ${entity.name}'s infobox if the change is intended.`,
+        sources: [`${canon._id}:${canonValue}`, `${attribute._id}:${newValue}`],
+      });
+      if (opensAlert(outcome)) alertsCreated++;
+      if (outcome !== 'suppressed')
+        issues.push({ type: 'contradiction', severity: 'error', title });
+    }
+
+    await incrementAlertCount(ctx, doc.projectId, alertsCreated, now);
+
+    return { alertsCreated, issues };
+  },
+});
+
+/**
+ * Flag characters who take part in an event dated after their death. Looks at canon plus
+ * everything this document proposes, and only reports pairings this document contributes to.
+ */
+export const checkTimelineConsistency = internalMutation({
+  args: { documentId: v.id('documents') },
+  handler: async (ctx, { documentId }) => {
+    const doc = await ctx.db.get(documentId);
+    if (!doc) return { alertsCreated: 0, issues: [] };
+    const projectId = doc.projectId;
+
+    const inScope = (row: { status: string; documentId?: Id<'documents'> }) =>
+      row.status === 'confirmed' || (row.documentId === documentId && row.status !== 'rejected');
+
+    const relationships = [
+      ...(await ctx.db
+        .query('relationships')
+        .withIndex('by_project', (q) => q.eq('projectId', projectId).eq('status', 'confirmed'))
+        .collect()),
+      ...(await ctx.db
+        .query('relationships')
+        .withIndex('by_document', (q) => q.eq('documentId', documentId))
+        .filter((q) => q.eq(q.field('status'), 'pending'))
+        .collect()),
+    ];
+    if (relationships.length === 0) return { alertsCreated: 0, issues: [] };
+
+    const calendars = await loadCalendars(ctx, projectId);
+    async function loadFacts(entityId: Id<'entities'>): Promise<Doc<'facts'>[]> {
+      const facts = await ctx.db
+        .query('facts')
+        .withIndex('by_entity', (q) => q.eq('entityId', entityId))
+        .collect();
+      return facts.filter(inScope);
+    }
+
+    const events = await ctx.db
+      .query('entities')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId).eq('type', 'event'))
+      .collect();
+    const eventDates = new Map<Id<'entities'>, DatedSource>();
+    const eventDatesByName = new Map<string, DatedSource>();
+    for (const event of events) {
+      const attributes = await ctx.db
+        .query('entityAttributes')
+        .withIndex('by_entity', (q) => q.eq('entityId', event._id).eq('key', 'date'))
+        .collect();
+      const dateAttribute =
+        attributes.find((a) => a.status === 'confirmed') ?? attributes.find(inScope);
+      const date = resolveEventDate(dateAttribute, await loadFacts(event._id), calendars);
+      if (!date) continue;
+      eventDates.set(event._id, date);
+      for (const name of [event.name, ...event.aliases]) {
+        eventDatesByName.set(name.trim().toLowerCase(), date);
+      }
+    }
+    if (eventDates.size === 0) return { alertsCreated: 0, issues: [] };
+
+    const seenTitles = new Set<string>();
+    const documentTitles = new Map<Id<'documents'>, string>([[doc._id, doc.title]]);
+    async function getDocumentTitle(id: Id<'documents'>): Promise<string> {
+      const known = documentTitles.get(id);
+      if (known !== undefined) return known;
+      const title = (await ctx.db.get(id))?.title ?? 'Unknown';
+      documentTitles.set(id, title);
+      return title;
+    }
+
+    const deaths = new Map<Id<'entities'>, DatedSource | null>();
+    const now = Date.now();
+    let alertsCreated = 0;
+    const issues: CheckIssue[] = [];
+
+    for (const relationship of relationships) {
+      const source = await ctx.db.get(relationship.sourceEntityId);
+      const target = await ctx.db.get(relationship.targetEntityId);
+      if (!source || !target) continue;
+      const [character, event] =
+        source.type === 'character' && target.type === 'event' ? [source, target]
+        : target.type === 'character' && source.type === 'event' ? [target, source]
+        : [null, null];
+      if (!character || !event) continue;
+
+      const eventDate = eventDates.get(event._id);
+      if (!eventDate) continue;
+      if (!deaths.has(character._id)) {
+        deaths.set(character._id, resolveDeath(await loadFacts(character._id), eventDatesByName));
+      }
+      const death = deaths.get(character._id);
+      if (!death || eventDate.start < death.end) continue;
+
+      const fromThisDocument = [relationship.documentId, death.documentId, eventDate.documentId];
+      if (!fromThisDocument.includes(documentId)) continue;
+
+      const title = `${character.name} appears in ${event.name} after their death`;
+      if (seenTitles.has(title)) continue;
+      seenTitles.add(title);
+
+      const sources = [
+        {
+          snippet: death.evidence ?? `${character.name} died ${death.label}`,
+          id: death.documentId,
+        },
+        {
+          snippet: eventDate.evidence ?? `${event.name}: ${eventDate.label}`,
+          id: eventDate.documentId,
+        },
+        {
+          snippet:
+            relationship.evidenceSnippet ?? `${source.name} ${relationship.type} ${target.name}`,
+          id: relationship.documentId,
+        },
+      ];
+      const evidence = [];
+      for (const { snippet, id } of sources) {
+        evidence.push({
+          snippet,
+          documentId: id ?? documentId,
+          documentTitle: id ? await getDocumentTitle(id) : 'Canon',
+        });
+      }
+
+      const outcome = await upsertAlert(ctx, {
+        projectId,
+        documentId,
+        rule: 'timeline:death',
+        factIds: [death.factId, eventDate.factId].filter((id): id is Id<'facts'> => !!id),
+        entityIds: [character._id, event._id],
+        type: 'timeline',
+        severity: 'error',
+        title,
+        description: `${character.name} died ${death.label}, but takes part in ${event.name} (${eventDate.label}).`,
+        evidence,
+        suggestedFix: `Move ${event.name} before ${character.name}'s death, or correct either date.`,
+        sources: [`death:${death.label}`, `event:${eventDate.label}`],
+      });
+      if (opensAlert(outcome)) alertsCreated++;
+      if (outcome !== 'suppressed') issues.push({ type: 'timeline', severity: 'error', title });
+    }
+
+    await incrementAlertCount(ctx, projectId, alertsCreated, now);
+
+    return { alertsCreated, issues };
   },
 });
 
@@ -506,6 +1000,16 @@ export const triggerCheck = action({
       throw notFoundError('document', documentId);
     }
 
-    return await ctx.runAction(internal.checks.runCheck, { documentId });
+    const role = await ctx.runQuery(api.projects.getRole, { id: doc.projectId });
+    if (!roleCanEdit(role)) {
+      throw authError('unauthorized', 'You do not have permission to check this document.');
+    }
+
+    const userId = await getAuthUserId(ctx);
+    return await ctx.runAction(internal.checks.runCheck, {
+      documentId,
+      trigger: 'manual',
+      requestedBy: userId ?? undefined,
+    });
   },
 });
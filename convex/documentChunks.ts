@@ -0,0 +1,209 @@
+import { v } from 'convex/values';
+import type { ActionCtx, MutationCtx } from './_generated/server';
+import { internalAction, internalMutation, internalQuery } from './_generated/server';
+import { internal } from './_generated/api';
+import type { Doc, Id } from './_generated/dataModel';
+import {
+  deleteDocumentChunks,
+  isStoredDocument,
+  processingProgressValidator,
+  type ProcessingStage,
+} from './lib/documentChunks';
+import {
+  chunkDocument,
+  chunkStream,
+  estimateChunkCount,
+  readTextStream,
+  type Chunk,
+} from './llm/chunk';
+
+// Text of documents kept only in file storage. Extraction and checks read it through
+// `documentChunkSource`; indexing copies it into search-sized rows and counts its words, since
+// neither the search index nor `wordCount` can see into storage.
+
+export type ChunkSource = {
+  chunks: Iterable<Chunk> | AsyncIterable<Chunk>;
+  // Exact for inline content; estimated from the file size for stored content.
+  totalChunks: number;
+};
+
+/** The document's text in extraction-sized chunks, streamed from storage when not inline. */
+export async function documentChunkSource(
+  ctx: ActionCtx,
+  doc: Doc<'documents'>
+): Promise<ChunkSource | null> {
+  if (doc.content) {
+    const chunks = chunkDocument(doc.content);
+    return { chunks, totalChunks: chunks.length };
+  }
+  if (!doc.storageId) return null;
+
+  const file = await ctx.storage.get(doc.storageId);
+  if (!file) return null;
+  return {
+    chunks: chunkStream(readTextStream(file)),
+    totalChunks: estimateChunkCount(file.size),
+  };
+}
+
+/** Record how many chunks a run has finished. Single-chunk runs are over too soon to report. */
+export async function reportChunkProgress(
+  ctx: ActionCtx,
+  documentId: Id<'documents'>,
+  stage: ProcessingStage,
+  completedChunks: number,
+  totalChunks: number
+): Promise<void> {
+  if (totalChunks <= 1) return;
+  await ctx.runMutation(internal.documents.setProcessingProgress, {
+    id: documentId,
+    progress: { stage, completedChunks, totalChunks: Math.max(totalChunks, completedChunks) },
+  });
+}
+
+export async function clearChunkProgress(
+  ctx: ActionCtx,
+  documentId: Id<'documents'>,
+  totalChunks: number
+): Promise<void> {
+  if (totalChunks <= 1) return;
+  await ctx.runMutation(internal.documents.setProcessingProgress, { id: documentId });
+}
+
+/** Passes text through unchanged, counting words across piece boundaries as it goes. */
+async function* countingWords(
+  source: AsyncIterable<string>,
+  counter: { words: number }
+): AsyncGenerator<string> {
+  let inWord = false;
+  for await (const text of source) {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    counter.words += inWord && /^\S/.test(text) ? words - 1 : words;
+    inWord = /\S$/.test(text);
+    yield text;
+  }
+}
+
+/** Whether an indexing run still describes the document: same file, and no inline text since. */
+async function loadIndexedDocument(
+  ctx: MutationCtx,
+  documentId: Id<'documents'>,
+  storageId: Id<'_storage'>
+): Promise<Doc<'documents'> | null> {
+  const doc = await ctx.db.get(documentId);
+  if (!doc) return null;
+  if (isStoredDocument(doc) && doc.storageId === storageId) return doc;
+
+  if (doc.processingProgress?.stage === 'indexing') {
+    await ctx.db.patch(documentId, { processingProgress: undefined });
+  }
+  return null;
+}
+
+export const getDocument = internalQuery({
+  args: { documentId: v.id('documents') },
+  handler: async (ctx, { documentId }) => {
+    return await ctx.db.get(documentId);
+  },
+});
+
+export const startIndexing = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+    storageId: v.id('_storage'),
+    progress: processingProgressValidator,
+  },
+  handler: async (ctx, { documentId, storageId, progress }) => {
+    const doc = await loadIndexedDocument(ctx, documentId, storageId);
+    if (!doc) return false;
+
+    await deleteDocumentChunks(ctx, documentId);
+    await ctx.db.patch(documentId, { processingProgress: progress });
+    return true;
+  },
+});
+
+export const insertChunk = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+    storageId: v.id('_storage'),
+    chunk: v.object({ index: v.number(), start: v.number(), end: v.number(), text: v.string() }),
+    progress: processingProgressValidator,
+  },
+  handler: async (ctx, { documentId, storageId, chunk, progress }) => {
+    const doc = await loadIndexedDocument(ctx, documentId, storageId);
+    if (!doc) return false;
+
+    await ctx.db.insert('documentChunks', { documentId, projectId: doc.projectId, ...chunk });
+    await ctx.db.patch(documentId, { processingProgress: progress });
+    return true;
+  },
+});
+
+export const finishIndexing = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+    storageId: v.id('_storage'),
+    wordCount: v.number(),
+  },
+  handler: async (ctx, { documentId, storageId, wordCount }) => {
+    const doc = await loadIndexedDocument(ctx, documentId, storageId);
+    if (!doc) return;
+
+    await ctx.db.patch(documentId, { wordCount, processingProgress: undefined });
+  },
+});
+
+/**
+ * Read a stored document's file once, writing its chunks for keyword search and its word count.
+ * Scheduled whenever a document is saved with a file and no inline text; a run that finds the
+ * document has moved on to another file, or to inline text, stops where it is.
+ */
+export const indexStoredContent = internalAction({
+  args: { documentId: v.id('documents') },
+  handler: async (ctx, { documentId }): Promise<{ chunksIndexed: number } | null> => {
+    const doc = await ctx.runQuery(internal.documentChunks.getDocument, { documentId });
+    if (!doc?.storageId || !isStoredDocument(doc)) return null;
+    const storageId = doc.storageId;
+
+    const file = await ctx.storage.get(storageId);
+    if (!file) return null;
+
+    const totalChunks = estimateChunkCount(file.size);
+    const started = await ctx.runMutation(internal.documentChunks.startIndexing, {
+      documentId,
+      storageId,
+      progress: { stage: 'indexing', completedChunks: 0, totalChunks },
+    });
+    if (!started) return null;
+
+    const counter = { words: 0 };
+    let chunksIndexed = 0;
+    for await (const chunk of chunkStream(countingWords(readTextStream(file), counter))) {
+      chunksIndexed++;
+      const current = await ctx.runMutation(internal.documentChunks.insertChunk, {
+        documentId,
+        storageId,
+        chunk: {
+          index: chunk.index,
+          start: chunk.startOffset,
+          end: chunk.endOffset,
+          text: chunk.text,
+        },
+        progress: {
+          stage: 'indexing',
+          completedChunks: chunksIndexed,
+          totalChunks: Math.max(totalChunks, chunksIndexed),
+        },
+      });
+      if (!current) return null;
+    }
+
+    await ctx.runMutation(internal.documentChunks.finishIndexing, {
+      documentId,
+      storageId,
+      wordCount: counter.words,
+    });
+    return { chunksIndexed };
+  },
+});
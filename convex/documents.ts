@@ -1,12 +1,26 @@
 import { v } from 'convex/values';
 import type { Doc, Id } from './_generated/dataModel';
 import type { MutationCtx } from './_generated/server';
-import { mutation, query } from './_generated/server';
+import { internalMutation, mutation, query } from './_generated/server';
+import { internal } from './_generated/api';
+import { scheduleEmbeddingSync } from './embeddings';
 import { requireAuth, requireAuthUser } from './lib/auth';
+import {
+  deleteDocumentChunks,
+  isStoredDocument,
+  processingProgressValidator,
+} from './lib/documentChunks';
 import { authError, limitError, notFoundError } from './lib/errors';
-import { canReadProject, canEditProject } from './lib/projectAccess';
-import { assertStorageIdAvailableForDocument } from './lib/storageAccess';
-import { getDocumentCount, checkResourceLimit } from './lib/subscription';
+import {
+  canReadProject,
+  canEditProject,
+  getProjectRoleForUser,
+  roleCanEdit,
+} from './lib/projectAccess';
+import { assertRevealAllowed } from './lib/reveal';
+import { recordRevision } from './lib/revisions';
+import { assertStorageIdAvailableForDocument, documentStorageIds } from './lib/storageAccess';
+import { getDocumentCount, getProjectOwner, checkResourceLimit } from './lib/subscription';
 
 const contentTypeValidator = v.union(v.literal('text'), v.literal('markdown'), v.literal('file'));
 
@@ -21,7 +35,7 @@ function countWords(text: string): number {
   return text.trim().split(/\s+/).filter(Boolean).length;
 }
 
-async function requireProjectOwnership(
+async function requireProjectEditAccess(
   ctx: MutationCtx,
   projectId: Id<'projects'>,
   userId: Id<'users'>
@@ -30,7 +44,8 @@ async function requireProjectOwnership(
   if (!project) {
     throw notFoundError('project', projectId);
   }
-  if (project.userId !== userId) {
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanEdit(role)) {
     throw authError('unauthorized', 'You do not have permission to access this project.');
   }
   return project;
@@ -45,7 +60,7 @@ async function requireDocumentAccess(
   if (!doc) {
     throw notFoundError('document', documentId);
   }
-  await requireProjectOwnership(ctx, doc.projectId, userId);
+  await requireProjectEditAccess(ctx, doc.projectId, userId);
   return doc;
 }
 
@@ -85,14 +100,15 @@ export const create = mutation({
   },
   handler: async (ctx, { projectId, title, content, storageId, contentType }) => {
     const user = await requireAuthUser(ctx);
-    await requireProjectOwnership(ctx, projectId, user._id);
+    const project = await requireProjectEditAccess(ctx, projectId, user._id);
 
     if (storageId) {
       await assertStorageIdAvailableForDocument(ctx, storageId);
     }
 
+    const owner = await getProjectOwner(ctx, project, user);
     const docCount = await getDocumentCount(ctx, projectId);
-    const limitCheck = checkResourceLimit(user, 'documentsPerProject', docCount);
+    const limitCheck = checkResourceLimit(owner, 'documentsPerProject', docCount);
 
     if (!limitCheck.allowed) {
       throw limitError(
@@ -125,21 +141,25 @@ export const create = mutation({
       processingStatus: 'pending',
     });
 
-    const project = await ctx.db.get(projectId);
-    if (project) {
-      const stats = project.stats ?? {
-        documentCount: 0,
-        entityCount: 0,
-        factCount: 0,
-        alertCount: 0,
-        noteCount: 0,
-      };
-      await ctx.db.patch(projectId, {
-        updatedAt: now,
-        stats: { ...stats, documentCount: stats.documentCount + 1 },
+    if (storageId && !content) {
+      await ctx.scheduler.runAfter(0, internal.documentChunks.indexStoredContent, {
+        documentId: docId,
       });
     }
 
+    const stats = project.stats ?? {
+      documentCount: 0,
+      entityCount: 0,
+      factCount: 0,
+      alertCount: 0,
+      noteCount: 0,
+    };
+    await ctx.db.patch(projectId, {
+      updatedAt: now,
+      stats: { ...stats, documentCount: stats.documentCount + 1 },
+    });
+    await scheduleEmbeddingSync(ctx, projectId);
+
     return docId;
   },
 });
@@ -172,6 +192,28 @@ export const update = mutation({
       ...(contentType !== undefined && { contentType }),
     });
 
+    const updated = await ctx.db.get(id);
+    if (updated && isStoredDocument(updated)) {
+      if (updated.storageId !== doc.storageId || !isStoredDocument(doc)) {
+        await ctx.db.patch(id, { processingStatus: 'pending' });
+        await ctx.scheduler.runAfter(0, internal.documentChunks.indexStoredContent, {
+          documentId: id,
+        });
+      }
+    } else if (isStoredDocument(doc)) {
+      await deleteDocumentChunks(ctx, id);
+    }
+
+    if (updated && (updated.title !== doc.title || updated.content !== doc.content)) {
+      await recordRevision(
+        ctx,
+        { document: doc },
+        { document: updated },
+        { action: 'update', userId }
+      );
+      await scheduleEmbeddingSync(ctx, doc.projectId);
+    }
+
     return id;
   },
 });
@@ -182,8 +224,8 @@ export const remove = mutation({
     const userId = await requireAuth(ctx);
     const doc = await requireDocumentAccess(ctx, id, userId);
 
-    if (doc.storageId) {
-      await ctx.storage.delete(doc.storageId);
+    for (const storageId of documentStorageIds(doc)) {
+      await ctx.storage.delete(storageId);
     }
 
     const facts = await ctx.db
@@ -197,6 +239,40 @@ export const remove = mutation({
       await ctx.db.delete(fact._id);
     }
 
+    const relationships = await ctx.db
+      .query('relationships')
+      .withIndex('by_document', (q) => q.eq('documentId', id))
+      .collect();
+    for (const relationship of relationships) {
+      await ctx.db.delete(relationship._id);
+    }
+
+    const attributes = await ctx.db
+      .query('entityAttributes')
+      .withIndex('by_document', (q) => q.eq('documentId', id))
+      .collect();
+    for (const attribute of attributes) {
+      await ctx.db.delete(attribute._id);
+    }
+
+    const revisions = await ctx.db
+      .query('revisions')
+      .withIndex('by_document', (q) => q.eq('documentId', id))
+      .collect();
+    for (const revision of revisions) {
+      await ctx.db.delete(revision._id);
+    }
+
+    const checkRuns = await ctx.db
+      .query('checkRuns')
+      .withIndex('by_document', (q) => q.eq('documentId', id))
+      .collect();
+    for (const run of checkRuns) {
+      await ctx.db.delete(run._id);
+    }
+
+    await deleteDocumentChunks(ctx, id);
+
     const alertStatuses = ['open', 'resolved', 'dismissed'] as const;
     const alertsByStatus = await Promise.all(
       alertStatuses.map(async (status) => {
@@ -216,6 +292,13 @@ export const remove = mutation({
       if (alert.status === 'open') {
         removedOpenAlerts++;
       }
+      const comments = await ctx.db
+        .query('alertComments')
+        .withIndex('by_alert', (q) => q.eq('alertId', alert._id))
+        .collect();
+      for (const comment of comments) {
+        await ctx.db.delete(comment._id);
+      }
       await ctx.db.delete(alert._id);
     }
 
@@ -240,6 +323,7 @@ export const remove = mutation({
     }
 
     await ctx.db.delete(id);
+    await scheduleEmbeddingSync(ctx, doc.projectId);
     return id;
   },
 });
@@ -251,7 +335,7 @@ export const reorder = mutation({
   },
   handler: async (ctx, { projectId, documentIds }) => {
     const userId = await requireAuth(ctx);
-    await requireProjectOwnership(ctx, projectId, userId);
+    await requireProjectEditAccess(ctx, projectId, userId);
 
     for (let i = 0; i < documentIds.length; i++) {
       await ctx.db.patch(documentIds[i], { orderIndex: i });
@@ -272,12 +356,27 @@ export const updateProcessingStatus = mutation({
 
     await ctx.db.patch(id, {
       processingStatus: status,
+      processingProgress: undefined,
       updatedAt: Date.now(),
       ...(status === 'completed' && { processedAt: Date.now() }),
     });
   },
 });
 
+/** Chunked runs report each finished chunk; leaving out `progress` clears it. */
+export const setProcessingProgress = internalMutation({
+  args: {
+    id: v.id('documents'),
+    progress: v.optional(processingProgressValidator),
+  },
+  handler: async (ctx, { id, progress }) => {
+    const doc = await ctx.db.get(id);
+    if (!doc) return;
+
+    await ctx.db.patch(id, { processingProgress: progress, updatedAt: Date.now() });
+  },
+});
+
 export const search = query({
   args: {
     projectId: v.id('projects'),
@@ -324,11 +423,30 @@ export const listNeedingReview = query({
         .filter((q) => q.eq(q.field('status'), 'pending'))
         .collect();
 
-      if (pendingEntities.length > 0 || pendingFacts.length > 0) {
+      const pendingRelationships = await ctx.db
+        .query('relationships')
+        .withIndex('by_document', (q) => q.eq('documentId', doc._id))
+        .filter((q) => q.eq(q.field('status'), 'pending'))
+        .collect();
+
+      const pendingAttributes = await ctx.db
+        .query('entityAttributes')
+        .withIndex('by_document', (q) => q.eq('documentId', doc._id))
+        .filter((q) => q.eq(q.field('status'), 'pending'))
+        .collect();
+
+      if (
+        pendingEntities.length > 0 ||
+        pendingFacts.length > 0 ||
+        pendingRelationships.length > 0 ||
+        pendingAttributes.length > 0
+      ) {
         docsWithPendingItems.push({
           ...doc,
           pendingEntityCount: pendingEntities.length,
           pendingFactCount: pendingFacts.length,
+          pendingRelationshipCount: pendingRelationships.length,
+          pendingAttributeCount: pendingAttributes.length,
         });
       }
     }
@@ -336,3 +454,45 @@ export const listNeedingReview = query({
     return docsWithPendingItems;
   },
 });
+
+export const revealToPlayers = mutation({
+  args: { id: v.id('documents') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const doc = await requireDocumentAccess(ctx, id, userId);
+
+    const project = await ctx.db.get(doc.projectId);
+    if (!project) {
+      throw notFoundError('project', doc.projectId);
+    }
+    assertRevealAllowed(project, 'Reveal');
+
+    await ctx.db.patch(id, {
+      revealedToViewers: true,
+      revealedAt: Date.now(),
+    });
+
+    return id;
+  },
+});
+
+export const hideFromPlayers = mutation({
+  args: { id: v.id('documents') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const doc = await requireDocumentAccess(ctx, id, userId);
+
+    const project = await ctx.db.get(doc.projectId);
+    if (!project) {
+      throw notFoundError('project', doc.projectId);
+    }
+    assertRevealAllowed(project, 'Hide');
+
+    await ctx.db.patch(id, {
+      revealedToViewers: false,
+      revealedAt: null,
+    });
+
+    return id;
+  },
+});
@@ -0,0 +1,572 @@
+import { v, type Infer } from 'convex/values';
+import { getAuthUserId } from '@convex-dev/auth/server';
+import type { ActionCtx, MutationCtx, QueryCtx } from './_generated/server';
+import { action, internalAction, internalMutation, internalQuery } from './_generated/server';
+import { internal } from './_generated/api';
+import type { Doc, Id } from './_generated/dataModel';
+import { getEmbeddingProvider, hashText, type EmbeddingProvider } from './lib/embeddings';
+import { getProjectRoleForUser, roleCanRead } from './lib/projectAccess';
+import {
+  FIRST_EMBEDDING_SYNC_STAGE,
+  embeddingChunkValidator,
+  embeddingInputs,
+  embeddingSyncStageValidator,
+  nextEmbeddingSyncStage,
+  searchSourceTypeValidator,
+  type EmbeddingChunk,
+  type SearchSource,
+  type SearchSourceType,
+} from './lib/search';
+
+// Stored embeddings and the vector lookups built on them. Edits schedule a background sync per
+// project that pages through its records and re-embeds whatever changed; reads only compare the
+// vectors already stored.
+
+// Waits for a burst of edits to settle before embedding.
+const SYNC_DELAY_MS = 10 * 1000;
+const SYNC_BUDGET_MS = 60 * 1000;
+const SYNC_STALLED_AFTER_MS = 10 * 60 * 1000;
+// Documents carry their full text, so fewer of them fit in one read.
+const DOCUMENT_PAGE_SIZE = 8;
+const SOURCE_PAGE_SIZE = 100;
+const EMBED_BATCH_SIZE = 64;
+// The most a Convex vector search returns.
+const VECTOR_SEARCH_LIMIT = 256;
+const DUPLICATE_SIMILARITY = 0.8;
+const MAX_DUPLICATES = 5;
+const RELATED_SIMILARITY = 0.35;
+const MAX_RELATED_FACTS = 8;
+
+export const embeddingMatchValidator = v.object({
+  sourceType: searchSourceTypeValidator,
+  sourceId: v.string(),
+  chunk: v.union(embeddingChunkValidator, v.null()),
+  score: v.number(),
+});
+
+export type EmbeddingMatch = {
+  sourceType: SearchSourceType;
+  sourceId: string;
+  chunk: EmbeddingChunk | null;
+  score: number;
+};
+
+const embeddingItemValidator = v.object({
+  sourceType: searchSourceTypeValidator,
+  sourceId: v.string(),
+  chunk: v.optional(embeddingChunkValidator),
+  contentHash: v.number(),
+  vector: v.array(v.float64()),
+});
+
+const SOURCE_TABLES = {
+  document: 'documents',
+  entity: 'entities',
+  fact: 'facts',
+  note: 'notes',
+  entityNote: 'entityNotes',
+} as const;
+
+/**
+ * Ask for the project's embeddings to be brought up to date. Called by every mutation that
+ * changes searchable text; a pass already waiting to start picks the change up.
+ */
+export async function scheduleEmbeddingSync(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>
+): Promise<void> {
+  const now = Date.now();
+  const sync = await ctx.db
+    .query('embeddingSyncs')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .unique();
+
+  if (!sync) {
+    await ctx.db.insert('embeddingSyncs', {
+      projectId,
+      stage: FIRST_EMBEDDING_SYNC_STAGE,
+      cursor: null,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(SYNC_DELAY_MS, internal.embeddings.runSync, { projectId });
+    return;
+  }
+
+  if (sync.updatedAt < now - SYNC_STALLED_AFTER_MS) {
+    await ctx.db.patch(sync._id, { updatedAt: now });
+    await ctx.scheduler.runAfter(SYNC_DELAY_MS, internal.embeddings.runSync, { projectId });
+    return;
+  }
+
+  // A pass that started before this change may already be past the record, so ask for another.
+  if (sync.startedAt !== undefined && !sync.rerun) {
+    await ctx.db.patch(sync._id, { rerun: true });
+  }
+}
+
+async function sourcePage(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>,
+  type: SearchSourceType,
+  cursor: string | null
+): Promise<{ sources: SearchSource[]; continueCursor: string; isDone: boolean }> {
+  const numItems = type === 'document' ? DOCUMENT_PAGE_SIZE : SOURCE_PAGE_SIZE;
+  const query = ctx.db
+    .query(SOURCE_TABLES[type])
+    .withIndex('by_project', (q) => q.eq('projectId', projectId));
+  const page = await query.paginate({ cursor, numItems });
+  return {
+    ...page,
+    sources: page.page.map((record) => ({ type, record }) as SearchSource),
+  };
+}
+
+/**
+ * One page of the sync: the texts on it whose embedding is missing, from another provider, or
+ * older than the text, plus embeddings left over from chunks or records that no longer exist.
+ */
+export const listStale = internalQuery({
+  args: {
+    projectId: v.id('projects'),
+    provider: v.string(),
+    stage: embeddingSyncStageValidator,
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, { projectId, provider, stage, cursor }) => {
+    const stale: Array<{
+      sourceType: SearchSourceType;
+      sourceId: string;
+      chunk?: EmbeddingChunk;
+      text: string;
+      contentHash: number;
+    }> = [];
+    const orphanIds: Id<'embeddings'>[] = [];
+
+    if (stage === 'orphans') {
+      const page = await ctx.db
+        .query('embeddings')
+        .withIndex('by_project', (q) => q.eq('projectId', projectId))
+        .paginate({ cursor, numItems: SOURCE_PAGE_SIZE });
+      const exists = new Map<string, boolean>();
+      for (const embedding of page.page) {
+        if (!exists.has(embedding.sourceId)) {
+          const id = ctx.db.normalizeId(SOURCE_TABLES[embedding.sourceType], embedding.sourceId);
+          exists.set(embedding.sourceId, id !== null && (await ctx.db.get(id)) !== null);
+        }
+        if (!exists.get(embedding.sourceId)) orphanIds.push(embedding._id);
+      }
+      return { stale, orphanIds, continueCursor: page.continueCursor, isDone: page.isDone };
+    }
+
+    const page = await sourcePage(ctx, projectId, stage, cursor);
+    for (const source of page.sources) {
+      const existing = await ctx.db
+        .query('embeddings')
+        .withIndex('by_source', (q) => q.eq('sourceId', source.record._id))
+        .collect();
+      const byChunk = new Map(
+        existing.map((embedding) => [embedding.chunk?.index ?? 0, embedding])
+      );
+
+      const inputs = embeddingInputs(source);
+      for (const { text, chunk } of inputs) {
+        const contentHash = hashText(text);
+        const current = byChunk.get(chunk?.index ?? 0);
+        if (current?.provider === provider && current.contentHash === contentHash) continue;
+        stale.push({
+          sourceType: source.type,
+          sourceId: source.record._id,
+          chunk,
+          text,
+          contentHash,
+        });
+      }
+
+      const chunkCount = inputs.length;
+      for (const embedding of existing) {
+        if ((embedding.chunk?.index ?? 0) >= chunkCount) orphanIds.push(embedding._id);
+      }
+    }
+    return { stale, orphanIds, continueCursor: page.continueCursor, isDone: page.isDone };
+  },
+});
+
+async function removeEmbedding(ctx: MutationCtx, embedding: Doc<'embeddings'>) {
+  if (await ctx.db.get(embedding.vectorId)) await ctx.db.delete(embedding.vectorId);
+  await ctx.db.delete(embedding._id);
+}
+
+async function storeEmbeddings(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  provider: string,
+  items: Array<Infer<typeof embeddingItemValidator>>
+) {
+  for (const { vector, ...item } of items) {
+    const rows = await ctx.db
+      .query('embeddings')
+      .withIndex('by_source', (q) => q.eq('sourceId', item.sourceId))
+      .collect();
+    const existing = rows.find((row) => (row.chunk?.index ?? 0) === (item.chunk?.index ?? 0));
+    if (existing) {
+      await ctx.db.patch(existing.vectorId, { vector });
+      await ctx.db.replace(existing._id, {
+        ...item,
+        projectId,
+        provider,
+        vectorId: existing.vectorId,
+        updatedAt: Date.now(),
+      });
+    } else {
+      const vectorId = await ctx.db.insert('embeddingVectors', { projectId, vector });
+      await ctx.db.insert('embeddings', {
+        ...item,
+        projectId,
+        provider,
+        vectorId,
+        updatedAt: Date.now(),
+      });
+    }
+  }
+}
+
+export const store = internalMutation({
+  args: {
+    projectId: v.id('projects'),
+    provider: v.string(),
+    items: v.array(embeddingItemValidator),
+  },
+  handler: async (ctx, { projectId, provider, items }) => {
+    if (!(await ctx.db.get(projectId))) return;
+    await storeEmbeddings(ctx, projectId, provider, items);
+  },
+});
+
+/** Starts a pass unless one is under way; false when nothing asked for a sync. */
+export const startSync = internalMutation({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const sync = await ctx.db
+      .query('embeddingSyncs')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .unique();
+    if (!sync) return null;
+    if (sync.startedAt === undefined) {
+      await ctx.db.patch(sync._id, {
+        stage: FIRST_EMBEDDING_SYNC_STAGE,
+        cursor: null,
+        startedAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      return { stage: FIRST_EMBEDDING_SYNC_STAGE, cursor: null };
+    }
+    await ctx.db.patch(sync._id, { updatedAt: Date.now() });
+    return { stage: sync.stage, cursor: sync.cursor };
+  },
+});
+
+/**
+ * Stores the last vectors of a page, drops its leftovers and moves the cursor past it in the
+ * same transaction. When the pass is done, starts another if an edit came in during it.
+ */
+export const finishPage = internalMutation({
+  args: {
+    projectId: v.id('projects'),
+    provider: v.string(),
+    items: v.array(embeddingItemValidator),
+    removeIds: v.array(v.id('embeddings')),
+    stage: embeddingSyncStageValidator,
+    cursor: v.union(v.string(), v.null()),
+    continueCursor: v.string(),
+    isDone: v.boolean(),
+  },
+  handler: async (
+    ctx,
+    { projectId, provider, items, removeIds, stage, cursor, continueCursor, isDone }
+  ) => {
+    const sync = await ctx.db
+      .query('embeddingSyncs')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .unique();
+    if (!sync || sync.stage !== stage || sync.cursor !== cursor) return null;
+
+    await storeEmbeddings(ctx, projectId, provider, items);
+    for (const id of removeIds) {
+      const embedding = await ctx.db.get(id);
+      if (embedding) await removeEmbedding(ctx, embedding);
+    }
+
+    const nextStage = isDone ? nextEmbeddingSyncStage(stage) : stage;
+    if (nextStage) {
+      const nextCursor = isDone ? null : continueCursor;
+      await ctx.db.patch(sync._id, { stage: nextStage, cursor: nextCursor, updatedAt: Date.now() });
+      return { stage: nextStage, cursor: nextCursor };
+    }
+
+    if (sync.rerun) {
+      await ctx.db.patch(sync._id, {
+        stage: FIRST_EMBEDDING_SYNC_STAGE,
+        cursor: null,
+        startedAt: Date.now(),
+        rerun: false,
+        updatedAt: Date.now(),
+      });
+      return { stage: FIRST_EMBEDDING_SYNC_STAGE, cursor: null };
+    }
+    await ctx.db.delete(sync._id);
+    return null;
+  },
+});
+
+/** Gives up on a sync whose provider cannot be reached, so the next edit starts a fresh one. */
+export const cancelSync = internalMutation({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const sync = await ctx.db
+      .query('embeddingSyncs')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .unique();
+    if (sync) await ctx.db.delete(sync._id);
+  },
+});
+
+/** Embeds whatever in the project changed since it was last embedded, one page at a time. */
+export const runSync = internalAction({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    let provider: EmbeddingProvider;
+    try {
+      provider = getEmbeddingProvider();
+    } catch (error) {
+      await ctx.runMutation(internal.embeddings.cancelSync, { projectId });
+      throw error;
+    }
+
+    const deadline = Date.now() + SYNC_BUDGET_MS;
+    let position = await ctx.runMutation(internal.embeddings.startSync, { projectId });
+    while (position) {
+      if (Date.now() > deadline) {
+        await ctx.scheduler.runAfter(0, internal.embeddings.runSync, { projectId });
+        return;
+      }
+
+      const page = await ctx.runQuery(internal.embeddings.listStale, {
+        projectId,
+        provider: provider.name,
+        ...position,
+      });
+      const items = [];
+      for (let i = 0; i < page.stale.length; i += EMBED_BATCH_SIZE) {
+        const batch = page.stale.slice(i, i + EMBED_BATCH_SIZE);
+        const vectors = await provider.embed(batch.map((item) => item.text));
+        items.push(
+          ...batch.map(({ text: _text, ...item }, index) => ({ ...item, vector: vectors[index] }))
+        );
+        // Store all but the last batch now so no single call carries a page of vectors.
+        if (i + EMBED_BATCH_SIZE < page.stale.length) {
+          await ctx.runMutation(internal.embeddings.store, {
+            projectId,
+            provider: provider.name,
+            items: items.splice(0),
+          });
+        }
+      }
+
+      position = await ctx.runMutation(internal.embeddings.finishPage, {
+        projectId,
+        provider: provider.name,
+        items,
+        removeIds: page.orphanIds,
+        ...position,
+        continueCursor: page.continueCursor,
+        isDone: page.isDone,
+      });
+    }
+  },
+});
+
+/** The stored vectors of one record, one per chunk for documents. */
+export const getVectors = internalQuery({
+  args: { sourceId: v.string(), provider: v.string() },
+  handler: async (ctx, { sourceId, provider }) => {
+    const rows = await ctx.db
+      .query('embeddings')
+      .withIndex('by_source', (q) => q.eq('sourceId', sourceId))
+      .collect();
+    const vectors = [];
+    for (const row of rows) {
+      if (row.provider !== provider) continue;
+      const stored = await ctx.db.get(row.vectorId);
+      if (stored) vectors.push({ vector: stored.vector, chunk: row.chunk ?? null });
+    }
+    return vectors;
+  },
+});
+
+export const getMatchSources = internalQuery({
+  args: { vectorIds: v.array(v.id('embeddingVectors')) },
+  handler: async (ctx, { vectorIds }) => {
+    const rows = await Promise.all(
+      vectorIds.map((vectorId) =>
+        ctx.db
+          .query('embeddings')
+          .withIndex('by_vector', (q) => q.eq('vectorId', vectorId))
+          .unique()
+      )
+    );
+    return rows
+      .filter((row): row is Doc<'embeddings'> => row !== null)
+      .map((row) => ({
+        vectorId: row.vectorId,
+        sourceType: row.sourceType,
+        sourceId: row.sourceId,
+        chunk: row.chunk ?? null,
+        provider: row.provider,
+      }));
+  },
+});
+
+/** Stored records closest to a vector, best first. */
+export async function findNearest(
+  ctx: ActionCtx,
+  projectId: Id<'projects'>,
+  provider: EmbeddingProvider,
+  vector: number[],
+  limit: number = VECTOR_SEARCH_LIMIT
+): Promise<EmbeddingMatch[]> {
+  const hits = await ctx.vectorSearch('embeddingVectors', 'by_vector', {
+    vector,
+    limit,
+    filter: (q) => q.eq('projectId', projectId),
+  });
+  const sources: Array<{
+    vectorId: Id<'embeddingVectors'>;
+    sourceType: SearchSourceType;
+    sourceId: string;
+    chunk: EmbeddingChunk | null;
+    provider: string;
+  }> = await ctx.runQuery(internal.embeddings.getMatchSources, {
+    vectorIds: hits.map((hit) => hit._id),
+  });
+  const sourceById = new Map(sources.map((source) => [source.vectorId, source]));
+
+  return hits.flatMap((hit) => {
+    const source = sourceById.get(hit._id);
+    if (!source || source.provider !== provider.name) return [];
+    return [
+      {
+        sourceType: source.sourceType,
+        sourceId: source.sourceId,
+        chunk: source.chunk,
+        score: hit._score,
+      },
+    ];
+  });
+}
+
+/** The stored vector of an entity; null until the background sync has embedded it. */
+async function entityVector(
+  ctx: ActionCtx,
+  entity: Doc<'entities'>,
+  provider: EmbeddingProvider
+): Promise<number[] | null> {
+  const [own] = await ctx.runQuery(internal.embeddings.getVectors, {
+    sourceId: entity._id,
+    provider: provider.name,
+  });
+  return own?.vector ?? null;
+}
+
+export const getReadableEntity = internalQuery({
+  args: { userId: v.id('users'), entityId: v.id('entities') },
+  handler: async (ctx, { userId, entityId }) => {
+    const entity = await ctx.db.get(entityId);
+    if (!entity) return null;
+    const project = await ctx.db.get(entity.projectId);
+    if (!project || !roleCanRead(await getProjectRoleForUser(ctx, project, userId))) return null;
+    return entity;
+  },
+});
+
+export const getSimilarEntities = internalQuery({
+  args: { entityId: v.id('entities'), matches: v.array(embeddingMatchValidator) },
+  handler: async (ctx, { entityId, matches }) => {
+    const entity = await ctx.db.get(entityId);
+    if (!entity) return [];
+
+    const similar: Array<Doc<'entities'> & { similarity: number }> = [];
+    for (const match of matches) {
+      if (similar.length >= MAX_DUPLICATES) break;
+      if (match.sourceType !== 'entity' || match.score < DUPLICATE_SIMILARITY) continue;
+      const id = ctx.db.normalizeId('entities', match.sourceId);
+      const candidate = id && id !== entityId ? await ctx.db.get(id) : null;
+      if (!candidate || candidate.projectId !== entity.projectId) continue;
+      similar.push({ ...candidate, similarity: match.score });
+    }
+    return similar;
+  },
+});
+
+export const getRelatedFacts = internalQuery({
+  args: { entityId: v.id('entities'), matches: v.array(embeddingMatchValidator) },
+  handler: async (ctx, { entityId, matches }) => {
+    const entity = await ctx.db.get(entityId);
+    if (!entity) return [];
+
+    const related: Array<Doc<'facts'> & { entityName: string | null; similarity: number }> = [];
+    for (const match of matches) {
+      if (related.length >= MAX_RELATED_FACTS) break;
+      if (match.sourceType !== 'fact' || match.score < RELATED_SIMILARITY) continue;
+      const id = ctx.db.normalizeId('facts', match.sourceId);
+      const fact = id ? await ctx.db.get(id) : null;
+      if (!fact || fact.projectId !== entity.projectId || fact.status !== 'confirmed') continue;
+      if (fact.entityId === entityId) continue;
+
+      const owner = fact.entityId ? await ctx.db.get(fact.entityId) : null;
+      related.push({ ...fact, entityName: owner?.name ?? null, similarity: match.score });
+    }
+    return related;
+  },
+});
+
+/**
+ * Entities whose name, aliases and description embed close to this one's, as merge
+ * candidates that plain name matching misses.
+ */
+export const similarEntities = action({
+  args: { entityId: v.id('entities') },
+  handler: async (ctx, { entityId }): Promise<Array<Doc<'entities'> & { similarity: number }>> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const entity = await ctx.runQuery(internal.embeddings.getReadableEntity, { userId, entityId });
+    if (!entity) return [];
+
+    const provider = getEmbeddingProvider();
+    const vector = await entityVector(ctx, entity, provider);
+    if (!vector) return [];
+
+    const matches = await findNearest(ctx, entity.projectId, provider, vector);
+    return await ctx.runQuery(internal.embeddings.getSimilarEntities, { entityId, matches });
+  },
+});
+
+/** Confirmed facts about other entities that read close to this entity. */
+export const relatedFacts = action({
+  args: { entityId: v.id('entities') },
+  handler: async (
+    ctx,
+    { entityId }
+  ): Promise<Array<Doc<'facts'> & { entityName: string | null; similarity: number }>> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const entity = await ctx.runQuery(internal.embeddings.getReadableEntity, { userId, entityId });
+    if (!entity) return [];
+
+    const provider = getEmbeddingProvider();
+    const vector = await entityVector(ctx, entity, provider);
+    if (!vector) return [];
+
+    const matches = await findNearest(ctx, entity.projectId, provider, vector);
+    return await ctx.runQuery(internal.embeddings.getRelatedFacts, { entityId, matches });
+  },
+});
@@ -3,10 +3,26 @@ import { paginationOptsValidator } from 'convex/server';
 import type { MutationCtx, QueryCtx } from './_generated/server';
 import { mutation, query } from './_generated/server';
 import type { Doc, Id } from './_generated/dataModel';
+import { scheduleEmbeddingSync } from './embeddings';
 import { requireAuth, requireAuthUser } from './lib/auth';
-import { authError, conflictError, limitError, notAllowedError, notFoundError } from './lib/errors';
-import { getProjectRole } from './lib/projectAccess';
-import { getEntityCount, checkResourceLimit } from './lib/subscription';
+import { authError, conflictError, limitError, notFoundError } from './lib/errors';
+import {
+  getProjectRole,
+  getProjectRoleForUser,
+  roleCanEdit,
+  roleCanRead,
+  roleCanReadRevealed,
+} from './lib/projectAccess';
+import {
+  assertRevealAllowed,
+  isDocumentRevealed,
+  isEntityRevealed,
+  isFactRevealed,
+  isRelationshipRevealed,
+} from './lib/reveal';
+import { loadCalendars, resolveEventDate } from './lib/calendar';
+import { recordRevision, snapshotEntity, type MergeRecord } from './lib/revisions';
+import { getEntityCount, getProjectOwner, checkResourceLimit } from './lib/subscription';
 
 const entityTypeValidator = v.union(
   v.literal('character'),
@@ -28,11 +44,60 @@ async function getProjectAccess(
   const role = await getProjectRole(ctx, projectId);
 
   return {
-    canRead: role !== null,
-    canEdit: role === 'owner',
+    canRead: roleCanRead(role),
+    canEdit: roleCanEdit(role),
   };
 }
 
+// Players always get the revealed-only view; GMs can opt in to preview it.
+async function getViewScope(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>,
+  playerView: boolean | undefined
+): Promise<{ canView: boolean; revealedOnly: boolean }> {
+  const role = await getProjectRole(ctx, projectId);
+  return {
+    canView: roleCanReadRevealed(role),
+    revealedOnly: role === 'player' || playerView === true,
+  };
+}
+
+async function loadProjectDocuments(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>
+): Promise<Map<Id<'documents'>, Doc<'documents'>>> {
+  const documents = await ctx.db
+    .query('documents')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .collect();
+  return new Map(documents.map((doc) => [doc._id, doc]));
+}
+
+// Non-rejected relationships whose endpoints are both among the given (visible) entities.
+async function loadVisibleRelationships(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>,
+  entitiesById: Map<Id<'entities'>, Doc<'entities'>>,
+  documentsById: Map<Id<'documents'>, Doc<'documents'>>,
+  revealedOnly: boolean
+): Promise<Doc<'relationships'>[]> {
+  const relationships = await ctx.db
+    .query('relationships')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .filter((q) => q.neq(q.field('status'), 'rejected'))
+    .collect();
+
+  return relationships.filter((relationship) => {
+    const source = entitiesById.get(relationship.sourceEntityId);
+    const target = entitiesById.get(relationship.targetEntityId);
+    if (!source || !target) return false;
+    if (!revealedOnly) return true;
+    const document =
+      relationship.documentId ? (documentsById.get(relationship.documentId) ?? null) : null;
+    return isRelationshipRevealed(relationship, source, target, document);
+  });
+}
+
 async function requireProjectAccess(
   ctx: MutationCtx,
   projectId: Id<'projects'>,
@@ -42,12 +107,25 @@ async function requireProjectAccess(
   if (!project) {
     throw notFoundError('project', projectId);
   }
-  if (project.userId !== userId) {
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanEdit(role)) {
     throw authError('unauthorized', 'You do not have permission to access this project.');
   }
   return project;
 }
 
+async function requireProjectEntityType(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  customTypeId: Id<'entityTypes'>
+): Promise<Doc<'entityTypes'>> {
+  const entityType = await ctx.db.get(customTypeId);
+  if (!entityType || entityType.projectId !== projectId) {
+    throw notFoundError('entityType', customTypeId, 'Entity type not found');
+  }
+  return entityType;
+}
+
 async function requireEntityAccess(
   ctx: MutationCtx,
   entityId: Id<'entities'>,
@@ -59,7 +137,7 @@ async function requireEntityAccess(
   }
 
   const project = await ctx.db.get(entity.projectId);
-  if (!project || project.userId !== userId) {
+  if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
     throw authError('unauthorized', 'You do not have permission to access this entity.');
   }
 
@@ -87,7 +165,7 @@ async function moveEntityNotes(
   ctx: MutationCtx,
   sourceId: Id<'entities'>,
   targetId: Id<'entities'>
-): Promise<void> {
+): Promise<Id<'entityNotes'>[]> {
   const notes = await ctx.db
     .query('entityNotes')
     .withIndex('by_entity', (q) => q.eq('entityId', sourceId))
@@ -99,6 +177,8 @@ async function moveEntityNotes(
       updatedAt: Date.now(),
     });
   }
+
+  return notes.map((note) => note._id);
 }
 
 async function deleteEntityNotes(ctx: MutationCtx, entityId: Id<'entities'>): Promise<void> {
@@ -112,20 +192,171 @@ async function deleteEntityNotes(ctx: MutationCtx, entityId: Id<'entities'>): Pr
   }
 }
 
+// Pending chat proposals follow a merged entity; resolved ones go with the source.
+async function moveProposalsForMerge(
+  ctx: MutationCtx,
+  sourceId: Id<'entities'>,
+  targetId: Id<'entities'>
+): Promise<void> {
+  const proposals = await ctx.db
+    .query('canonProposals')
+    .withIndex('by_entity', (q) => q.eq('entityId', sourceId))
+    .collect();
+
+  for (const proposal of proposals) {
+    if (proposal.status === 'pending') {
+      await ctx.db.patch(proposal._id, { entityId: targetId });
+    } else {
+      await ctx.db.delete(proposal._id);
+    }
+  }
+}
+
+async function deleteEntityProposals(ctx: MutationCtx, entityId: Id<'entities'>): Promise<void> {
+  const proposals = await ctx.db
+    .query('canonProposals')
+    .withIndex('by_entity', (q) => q.eq('entityId', entityId))
+    .collect();
+
+  for (const proposal of proposals) {
+    await ctx.db.delete(proposal._id);
+  }
+}
+
+async function listEntityRelationships(
+  ctx: MutationCtx,
+  entityId: Id<'entities'>
+): Promise<Doc<'relationships'>[]> {
+  const [outgoing, incoming] = await Promise.all([
+    ctx.db
+      .query('relationships')
+      .withIndex('by_source', (q) => q.eq('sourceEntityId', entityId))
+      .collect(),
+    ctx.db
+      .query('relationships')
+      .withIndex('by_target', (q) => q.eq('targetEntityId', entityId))
+      .collect(),
+  ]);
+  return [...outgoing, ...incoming];
+}
+
+async function deleteEntityRelationships(
+  ctx: MutationCtx,
+  entityId: Id<'entities'>
+): Promise<void> {
+  const relationships = await listEntityRelationships(ctx, entityId);
+  for (const relationship of relationships) {
+    await ctx.db.delete(relationship._id);
+  }
+}
+
+async function rewireRelationshipsForMerge(
+  ctx: MutationCtx,
+  sourceId: Id<'entities'>,
+  targetId: Id<'entities'>
+): Promise<Pick<MergeRecord, 'relationships' | 'removedRelationships'>> {
+  const relationships = await listEntityRelationships(ctx, sourceId);
+  const record: Pick<MergeRecord, 'relationships' | 'removedRelationships'> = {
+    relationships: [],
+    removedRelationships: [],
+  };
+
+  for (const relationship of relationships) {
+    const sourceEntityId =
+      relationship.sourceEntityId === sourceId ? targetId : relationship.sourceEntityId;
+    const targetEntityId =
+      relationship.targetEntityId === sourceId ? targetId : relationship.targetEntityId;
+
+    // A relationship between the two merged entities would become a self-loop.
+    if (sourceEntityId === targetEntityId) {
+      await ctx.db.delete(relationship._id);
+      record.removedRelationships.push({
+        fromSource: relationship.sourceEntityId === sourceId,
+        type: relationship.type,
+        documentId: relationship.documentId,
+        confidence: relationship.confidence,
+        evidenceSnippet: relationship.evidenceSnippet,
+        status: relationship.status,
+      });
+      continue;
+    }
+
+    await ctx.db.patch(relationship._id, {
+      sourceEntityId,
+      targetEntityId,
+      updatedAt: Date.now(),
+    });
+    record.relationships.push({
+      id: relationship._id,
+      side: relationship.sourceEntityId === sourceId ? 'source' : 'target',
+    });
+  }
+
+  return record;
+}
+
+async function deleteEntityAttributes(ctx: MutationCtx, entityId: Id<'entities'>): Promise<void> {
+  const attributes = await ctx.db
+    .query('entityAttributes')
+    .withIndex('by_entity', (q) => q.eq('entityId', entityId))
+    .collect();
+  for (const attribute of attributes) {
+    await ctx.db.delete(attribute._id);
+  }
+}
+
+async function moveAttributesForMerge(
+  ctx: MutationCtx,
+  sourceId: Id<'entities'>,
+  targetId: Id<'entities'>
+): Promise<Pick<MergeRecord, 'attributeIds' | 'demotedAttributeIds'>> {
+  const [sourceAttributes, targetAttributes] = await Promise.all(
+    [sourceId, targetId].map((entityId) =>
+      ctx.db
+        .query('entityAttributes')
+        .withIndex('by_entity', (q) => q.eq('entityId', entityId))
+        .collect()
+    )
+  );
+  const targetConfirmedKeys = new Set(
+    targetAttributes.filter((a) => a.status === 'confirmed').map((a) => a.key)
+  );
+
+  // The target's confirmed values win; the source's competing ones go back to review.
+  const demotedAttributeIds: Id<'entityAttributes'>[] = [];
+  for (const attribute of sourceAttributes) {
+    const demote = attribute.status === 'confirmed' && targetConfirmedKeys.has(attribute.key);
+    await ctx.db.patch(attribute._id, {
+      entityId: targetId,
+      updatedAt: Date.now(),
+      ...(demote && { status: 'pending' as const }),
+    });
+    if (demote) demotedAttributeIds.push(attribute._id);
+  }
+
+  return { attributeIds: sourceAttributes.map((a) => a._id), demotedAttributeIds };
+}
+
 async function rewireAlertsForMerge(
   ctx: MutationCtx,
   projectId: Id<'projects'>,
   sourceId: Id<'entities'>,
   targetId: Id<'entities'>
-): Promise<void> {
+): Promise<MergeRecord['alerts']> {
   const alerts = await listProjectAlerts(ctx, projectId);
+  const rewired: MergeRecord['alerts'] = [];
 
   for (const alert of alerts) {
     if (!alert.entityIds.includes(sourceId)) continue;
+    rewired.push({ id: alert._id, entityIds: alert.entityIds });
 
-    const updatedEntityIds = [...new Set(alert.entityIds.map((id) => (id === sourceId ? targetId : id)))];
+    const updatedEntityIds = [
+      ...new Set(alert.entityIds.map((id) => (id === sourceId ? targetId : id))),
+    ];
     await ctx.db.patch(alert._id, { entityIds: updatedEntityIds });
   }
+
+  return rewired;
 }
 
 async function cleanupAlertsForRemovedEntity(
@@ -147,6 +378,13 @@ async function cleanupAlertsForRemovedEntity(
     if (!changed) continue;
 
     if (updatedEntityIds.length === 0 && updatedFactIds.length === 0) {
+      const comments = await ctx.db
+        .query('alertComments')
+        .withIndex('by_alert', (q) => q.eq('alertId', alert._id))
+        .collect();
+      for (const comment of comments) {
+        await ctx.db.delete(comment._id);
+      }
       await ctx.db.delete(alert._id);
       if (alert.status === 'open') {
         removedOpenAlerts++;
@@ -168,6 +406,7 @@ export const create = mutation({
     projectId: v.id('projects'),
     name: v.string(),
     type: entityTypeValidator,
+    customTypeId: v.optional(v.id('entityTypes')),
     description: v.optional(v.string()),
     aliases: v.optional(v.array(v.string())),
     firstMentionedIn: v.optional(v.id('documents')),
@@ -175,13 +414,14 @@ export const create = mutation({
   },
   handler: async (
     ctx,
-    { projectId, name, type, description, aliases, firstMentionedIn, status }
+    { projectId, name, type, customTypeId, description, aliases, firstMentionedIn, status }
   ) => {
     const user = await requireAuthUser(ctx);
     const project = await requireProjectAccess(ctx, projectId, user._id);
 
+    const owner = await getProjectOwner(ctx, project, user);
     const entityCount = await getEntityCount(ctx, projectId);
-    const limitCheck = checkResourceLimit(user, 'entitiesPerProject', entityCount);
+    const limitCheck = checkResourceLimit(owner, 'entitiesPerProject', entityCount);
 
     if (!limitCheck.allowed) {
       throw limitError(
@@ -191,11 +431,16 @@ export const create = mutation({
       );
     }
 
+    // A custom type decides the built-in type the entity is stored under.
+    const customType =
+      customTypeId ? await requireProjectEntityType(ctx, projectId, customTypeId) : null;
+
     const now = Date.now();
     const entityId = await ctx.db.insert('entities', {
       projectId,
       name,
-      type,
+      type: customType?.baseType ?? type,
+      customTypeId,
       description,
       aliases: aliases ?? [],
       firstMentionedIn,
@@ -215,6 +460,7 @@ export const create = mutation({
       updatedAt: now,
       stats: { ...stats, entityCount: stats.entityCount + 1 },
     });
+    await scheduleEmbeddingSync(ctx, projectId);
 
     return entityId;
   },
@@ -225,23 +471,36 @@ export const update = mutation({
     id: v.id('entities'),
     name: v.optional(v.string()),
     type: v.optional(entityTypeValidator),
+    customTypeId: v.optional(v.union(v.id('entityTypes'), v.null())),
     description: v.optional(v.string()),
     aliases: v.optional(v.array(v.string())),
     status: v.optional(entityStatusValidator),
   },
-  handler: async (ctx, { id, name, type, description, aliases, status }) => {
+  handler: async (ctx, { id, name, type, customTypeId, description, aliases, status }) => {
     const userId = await requireAuth(ctx);
-    await requireEntityAccess(ctx, id, userId);
+    const entity = await requireEntityAccess(ctx, id, userId);
+
+    // null clears the custom type; the entity keeps whichever built-in type it resolves to.
+    const customType =
+      customTypeId ? await requireProjectEntityType(ctx, entity.projectId, customTypeId) : null;
+    const resolvedType = customType?.baseType ?? type;
 
     await ctx.db.patch(id, {
       updatedAt: Date.now(),
       ...(name !== undefined && { name }),
-      ...(type !== undefined && { type }),
+      ...(resolvedType !== undefined && { type: resolvedType }),
+      ...(customTypeId !== undefined && { customTypeId: customTypeId ?? undefined }),
       ...(description !== undefined && { description }),
       ...(aliases !== undefined && { aliases }),
       ...(status !== undefined && { status }),
     });
 
+    const updated = await ctx.db.get(id);
+    if (updated) {
+      await recordRevision(ctx, { entity }, { entity: updated }, { action: 'update', userId });
+    }
+    await scheduleEmbeddingSync(ctx, entity.projectId);
+
     return id;
   },
 });
@@ -277,11 +536,37 @@ export const merge = mutation({
       await ctx.db.patch(fact._id, { entityId: targetId });
     }
 
-    await moveEntityNotes(ctx, sourceId, targetId);
-    await rewireAlertsForMerge(ctx, source.projectId, sourceId, targetId);
+    const entityNoteIds = await moveEntityNotes(ctx, sourceId, targetId);
+    await moveProposalsForMerge(ctx, sourceId, targetId);
+    const relationships = await rewireRelationshipsForMerge(ctx, sourceId, targetId);
+    const attributes = await moveAttributesForMerge(ctx, sourceId, targetId);
+    const alerts = await rewireAlertsForMerge(ctx, source.projectId, sourceId, targetId);
 
     await ctx.db.delete(sourceId);
 
+    const mergedTarget = await ctx.db.get(targetId);
+    if (mergedTarget) {
+      await recordRevision(
+        ctx,
+        { entity: target },
+        { entity: mergedTarget },
+        {
+          action: 'merge',
+          userId,
+          summary: `Merged ${source.name}`,
+          merge: {
+            sourceId,
+            source: snapshotEntity(source),
+            factIds: factsToUpdate.map((fact) => fact._id),
+            entityNoteIds,
+            ...relationships,
+            ...attributes,
+            alerts,
+          },
+        }
+      );
+    }
+
     const project = await ctx.db.get(source.projectId);
     if (project) {
       const stats = project.stats ?? {
@@ -296,6 +581,7 @@ export const merge = mutation({
         stats: { ...stats, entityCount: Math.max(0, stats.entityCount - 1) },
       });
     }
+    await scheduleEmbeddingSync(ctx, source.projectId);
 
     return targetId;
   },
@@ -439,6 +725,9 @@ export const remove = mutation({
     }
 
     await deleteEntityNotes(ctx, id);
+    await deleteEntityProposals(ctx, id);
+    await deleteEntityRelationships(ctx, id);
+    await deleteEntityAttributes(ctx, id);
     const removedOpenAlertCount = await cleanupAlertsForRemovedEntity(
       ctx,
       entity.projectId,
@@ -467,6 +756,7 @@ export const remove = mutation({
         },
       });
     }
+    await scheduleEmbeddingSync(ctx, entity.projectId);
 
     return id;
   },
@@ -536,6 +826,9 @@ export const reject = mutation({
     }
 
     await deleteEntityNotes(ctx, id);
+    await deleteEntityProposals(ctx, id);
+    await deleteEntityRelationships(ctx, id);
+    await deleteEntityAttributes(ctx, id);
     const removedOpenAlertCount = await cleanupAlertsForRemovedEntity(
       ctx,
       entity.projectId,
@@ -564,6 +857,7 @@ export const reject = mutation({
         },
       });
     }
+    await scheduleEmbeddingSync(ctx, entity.projectId);
 
     return id;
   },
@@ -728,37 +1022,30 @@ export const getWithDetails = query({
       .slice()
       .toSorted((a, b) => a.orderIndex - b.orderIndex);
 
-    const allEntities = await ctx.db
-      .query('entities')
-      .withIndex('by_project', (q) => q.eq('projectId', entity.projectId))
-      .collect();
-
-    const relatedEntityIds = new Set<Id<'entities'>>();
-    for (const fact of facts) {
-      const objectLower = fact.object.toLowerCase().trim();
-      for (const otherEntity of allEntities) {
-        if (otherEntity._id === id) continue;
-        const nameLower = otherEntity.name.toLowerCase().trim();
-        const aliasesLower = otherEntity.aliases.map((a) => a.toLowerCase().trim());
-
-        const nameRegex = new RegExp(`\\b${nameLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
-        const nameIsSingleWord = !nameLower.includes(' ');
-        const nameMinLength = nameIsSingleWord ? 5 : 3;
-        const matchesName = nameLower.length >= nameMinLength && nameRegex.test(objectLower);
-        const matchesAlias = aliasesLower.some((a) => {
-          const aliasIsSingleWord = !a.includes(' ');
-          const aliasMinLength = aliasIsSingleWord ? 5 : 3;
-          if (a.length < aliasMinLength) return false;
-          const aliasRegex = new RegExp(`\\b${a.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
-          return aliasRegex.test(objectLower);
-        });
-        if (matchesName || matchesAlias) {
-          relatedEntityIds.add(otherEntity._id);
-        }
-      }
-    }
-
-    const relatedEntities = allEntities.filter((e) => relatedEntityIds.has(e._id));
+    const [outgoing, incoming] = await Promise.all([
+      ctx.db
+        .query('relationships')
+        .withIndex('by_source', (q) => q.eq('sourceEntityId', id))
+        .collect(),
+      ctx.db
+        .query('relationships')
+        .withIndex('by_target', (q) => q.eq('targetEntityId', id))
+        .collect(),
+    ]);
+    const relatedEntityIds = new Set(
+      [...outgoing, ...incoming]
+        .filter((relationship) => relationship.status !== 'rejected')
+        .map((relationship) =>
+          relationship.sourceEntityId === id ?
+            relationship.targetEntityId
+          : relationship.sourceEntityId
+        )
+    );
+    const relatedEntities = (
+      await Promise.all([...relatedEntityIds].map((relatedId) => ctx.db.get(relatedId)))
+    )
+      .filter((related): related is Doc<'entities'> => related !== null)
+      .toSorted((a, b) => a.name.localeCompare(b.name));
 
     return {
       entity,
@@ -804,65 +1091,131 @@ export const listEvents = query({
   },
 });
 
+type EventDate = { start: number; end: number; label: string };
+
+/**
+ * In-world dates for timeline events. Players only see dates backed by revealed facts, since
+ * infobox attributes carry no reveal flag of their own.
+ */
+async function loadEventDates(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>,
+  events: Doc<'entities'>[],
+  documentsById: Map<Id<'documents'>, Doc<'documents'>>,
+  revealedOnly: boolean
+): Promise<Map<Id<'entities'>, EventDate>> {
+  const calendars = await loadCalendars(ctx, projectId);
+  const dates = new Map<Id<'entities'>, EventDate>();
+
+  for (const event of events) {
+    const facts = await ctx.db
+      .query('facts')
+      .withIndex('by_entity', (q) => q.eq('entityId', event._id).eq('status', 'confirmed'))
+      .collect();
+    const visibleFacts =
+      revealedOnly ?
+        facts.filter((fact) =>
+          isFactRevealed(
+            fact,
+            event,
+            fact.documentId ? (documentsById.get(fact.documentId) ?? null) : null
+          )
+        )
+      : facts;
+    const dateAttribute =
+      revealedOnly ? undefined : (
+        await ctx.db
+          .query('entityAttributes')
+          .withIndex('by_entity', (q) => q.eq('entityId', event._id).eq('key', 'date'))
+          .filter((q) => q.eq(q.field('status'), 'confirmed'))
+          .first()
+      );
+
+    const date = resolveEventDate(dateAttribute ?? undefined, visibleFacts, calendars);
+    if (date) {
+      dates.set(event._id, { start: date.start, end: date.end, label: date.label });
+    }
+  }
+
+  return dates;
+}
+
 export const getTimeline = query({
   args: {
     projectId: v.id('projects'),
     entityFilter: v.optional(v.id('entities')),
     includeAppearances: v.optional(v.boolean()),
+    playerView: v.optional(v.boolean()),
+    order: v.optional(v.union(v.literal('story'), v.literal('inWorld'))),
   },
-  handler: async (ctx, { projectId, entityFilter, includeAppearances = false }) => {
-    const access = await getProjectAccess(ctx, projectId);
-    if (!access.canRead) return { events: [], appearances: [], entities: [] };
+  handler: async (
+    ctx,
+    { projectId, entityFilter, includeAppearances = false, playerView, order = 'story' }
+  ) => {
+    const scope = await getViewScope(ctx, projectId, playerView);
+    if (!scope.canView) return { events: [], appearances: [], entities: [] };
 
-    const allEntities = await ctx.db
+    const confirmedEntities = await ctx.db
       .query('entities')
       .withIndex('by_project', (q) => q.eq('projectId', projectId))
       .filter((q) => q.eq(q.field('status'), 'confirmed'))
       .collect();
+    const allEntities =
+      scope.revealedOnly ? confirmedEntities.filter(isEntityRevealed) : confirmedEntities;
+
+    const documentsById = await loadProjectDocuments(ctx, projectId);
+    const getVisibleDocument = (documentId: Id<'documents'> | undefined) => {
+      const document = documentId ? (documentsById.get(documentId) ?? null) : null;
+      if (!document || (scope.revealedOnly && !isDocumentRevealed(document))) return null;
+      return document;
+    };
 
     const events = allEntities.filter((e) => e.type === 'event');
+    const entitiesById = new Map(allEntities.map((e) => [e._id, e]));
+    const relationships = await loadVisibleRelationships(
+      ctx,
+      projectId,
+      entitiesById,
+      documentsById,
+      scope.revealedOnly
+    );
 
-    const eventsWithDetails = await Promise.all(
-      events.map(async (event) => {
-        const document = event.firstMentionedIn ? await ctx.db.get(event.firstMentionedIn) : null;
-
-        const facts = await ctx.db
-          .query('facts')
-          .withIndex('by_entity', (q) => q.eq('entityId', event._id))
-          .filter((q) => q.neq(q.field('status'), 'rejected'))
-          .collect();
+    const eventDates = await loadEventDates(
+      ctx,
+      projectId,
+      events,
+      documentsById,
+      scope.revealedOnly
+    );
 
-        const involvedEntityIds = new Set<Id<'entities'>>();
-        for (const fact of facts) {
-          const objectLower = fact.object.toLowerCase().trim();
-          for (const entity of allEntities) {
-            if (entity._id === event._id || entity.type === 'event') continue;
-            const nameLower = entity.name.toLowerCase().trim();
-            const nameRegex = new RegExp(
-              `\\b${nameLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`
-            );
-            const nameIsSingleWord = !nameLower.includes(' ');
-            const nameMinLength = nameIsSingleWord ? 5 : 3;
-            if (nameLower.length >= nameMinLength && nameRegex.test(objectLower)) {
-              involvedEntityIds.add(entity._id);
-            }
-          }
+    const eventsWithDetails = events.map((event) => {
+      const document = getVisibleDocument(event.firstMentionedIn);
+
+      const involvedEntityIds = new Set<Id<'entities'>>();
+      for (const relationship of relationships) {
+        const otherId =
+          relationship.sourceEntityId === event._id ? relationship.targetEntityId
+          : relationship.targetEntityId === event._id ? relationship.sourceEntityId
+          : null;
+        if (otherId && entitiesById.get(otherId)?.type !== 'event') {
+          involvedEntityIds.add(otherId);
         }
+      }
 
-        const involvedEntities = allEntities
-          .filter((e) => involvedEntityIds.has(e._id))
-          .map((e) => ({ _id: e._id, name: e.name, type: e.type }));
-
-        return {
-          ...event,
-          document:
-            document ?
-              { _id: document._id, title: document.title, orderIndex: document.orderIndex }
-            : null,
-          involvedEntities,
-        };
-      })
-    );
+      const involvedEntities = allEntities
+        .filter((e) => involvedEntityIds.has(e._id))
+        .map((e) => ({ _id: e._id, name: e.name, type: e.type }));
+
+      return {
+        ...event,
+        document:
+          document ?
+            { _id: document._id, title: document.title, orderIndex: document.orderIndex }
+          : null,
+        date: eventDates.get(event._id) ?? null,
+        involvedEntities,
+      };
+    });
 
     let filteredEvents = eventsWithDetails;
     if (entityFilter) {
@@ -871,7 +1224,13 @@ export const getTimeline = query({
       );
     }
 
+    // In-world order places undated events last, in story order.
     const sortedEvents = filteredEvents.toSorted((a, b) => {
+      if (order === 'inWorld') {
+        const dateA = a.date?.start ?? Infinity;
+        const dateB = b.date?.start ?? Infinity;
+        if (dateA !== dateB) return dateA - dateB;
+      }
       const orderA = a.document?.orderIndex ?? Infinity;
       const orderB = b.document?.orderIndex ?? Infinity;
       return orderA - orderB;
@@ -889,29 +1248,25 @@ export const getTimeline = query({
 
       if (entityFilter) {
         const filtered = nonEvents.filter((e) => e._id === entityFilter);
-        appearances = await Promise.all(
-          filtered.map(async (entity) => {
-            const doc = entity.firstMentionedIn ? await ctx.db.get(entity.firstMentionedIn) : null;
-            return {
-              _id: entity._id,
-              name: entity.name,
-              type: entity.type,
-              document: doc ? { _id: doc._id, title: doc.title, orderIndex: doc.orderIndex } : null,
-            };
-          })
-        );
+        appearances = filtered.map((entity) => {
+          const doc = getVisibleDocument(entity.firstMentionedIn);
+          return {
+            _id: entity._id,
+            name: entity.name,
+            type: entity.type,
+            document: doc ? { _id: doc._id, title: doc.title, orderIndex: doc.orderIndex } : null,
+          };
+        });
       } else {
-        appearances = await Promise.all(
-          nonEvents.map(async (entity) => {
-            const doc = entity.firstMentionedIn ? await ctx.db.get(entity.firstMentionedIn) : null;
-            return {
-              _id: entity._id,
-              name: entity.name,
-              type: entity.type,
-              document: doc ? { _id: doc._id, title: doc.title, orderIndex: doc.orderIndex } : null,
-            };
-          })
-        );
+        appearances = nonEvents.map((entity) => {
+          const doc = getVisibleDocument(entity.firstMentionedIn);
+          return {
+            _id: entity._id,
+            name: entity.name,
+            type: entity.type,
+            document: doc ? { _id: doc._id, title: doc.title, orderIndex: doc.orderIndex } : null,
+          };
+        });
       }
 
       appearances = appearances.toSorted((a, b) => {
@@ -938,71 +1293,45 @@ export const getRelationshipGraph = query({
   args: {
     projectId: v.id('projects'),
     entityFilter: v.optional(v.id('entities')),
+    playerView: v.optional(v.boolean()),
   },
-  handler: async (ctx, { projectId, entityFilter }) => {
-    const access = await getProjectAccess(ctx, projectId);
-    if (!access.canRead) return { nodes: [], edges: [] };
+  handler: async (ctx, { projectId, entityFilter, playerView }) => {
+    const scope = await getViewScope(ctx, projectId, playerView);
+    if (!scope.canView) return { nodes: [], edges: [] };
 
-    const allEntities = await ctx.db
+    const confirmedEntities = await ctx.db
       .query('entities')
       .withIndex('by_project', (q) => q.eq('projectId', projectId))
       .filter((q) => q.eq(q.field('status'), 'confirmed'))
       .collect();
+    const allEntities =
+      scope.revealedOnly ? confirmedEntities.filter(isEntityRevealed) : confirmedEntities;
 
-    const allFacts = await ctx.db
-      .query('facts')
-      .withIndex('by_project', (q) => q.eq('projectId', projectId))
-      .filter((q) => q.neq(q.field('status'), 'rejected'))
-      .collect();
+    const documentsById = await loadProjectDocuments(ctx, projectId);
+    const relationships = await loadVisibleRelationships(
+      ctx,
+      projectId,
+      new Map(allEntities.map((e) => [e._id, e])),
+      documentsById,
+      scope.revealedOnly
+    );
 
     type Edge = {
       source: Id<'entities'>;
       target: Id<'entities'>;
       label: string;
-      factId: Id<'facts'>;
+      relationshipId: Id<'relationships'>;
     };
 
-    const edges: Edge[] = [];
-    const connectedEntityIds = new Set<Id<'entities'>>();
-
-    for (const fact of allFacts) {
-      if (!fact.entityId) continue;
-      const sourceEntity = allEntities.find((e) => e._id === fact.entityId);
-      if (!sourceEntity) continue;
-
-      const objectLower = fact.object.toLowerCase().trim();
-
-      for (const targetEntity of allEntities) {
-        if (targetEntity._id === fact.entityId) continue;
-
-        const nameLower = targetEntity.name.toLowerCase().trim();
-        const aliasesLower = targetEntity.aliases.map((a) => a.toLowerCase().trim());
-
-        const nameRegex = new RegExp(`\\b${nameLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
-        const nameIsSingleWord = !nameLower.includes(' ');
-        const nameMinLength = nameIsSingleWord ? 5 : 3;
-        const matchesName = nameLower.length >= nameMinLength && nameRegex.test(objectLower);
-
-        const matchesAlias = aliasesLower.some((a) => {
-          const aliasIsSingleWord = !a.includes(' ');
-          const aliasMinLength = aliasIsSingleWord ? 5 : 3;
-          if (a.length < aliasMinLength) return false;
-          const aliasRegex = new RegExp(`\\b${a.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
-          return aliasRegex.test(objectLower);
-        });
-
-        if (matchesName || matchesAlias) {
-          edges.push({
-            source: fact.entityId,
-            target: targetEntity._id,
-            label: fact.predicate,
-            factId: fact._id,
-          });
-          connectedEntityIds.add(fact.entityId);
-          connectedEntityIds.add(targetEntity._id);
-        }
-      }
-    }
+    const edges: Edge[] = relationships.map((relationship) => ({
+      source: relationship.sourceEntityId,
+      target: relationship.targetEntityId,
+      label: relationship.type,
+      relationshipId: relationship._id,
+    }));
+    const connectedEntityIds = new Set<Id<'entities'>>(
+      edges.flatMap((edge) => [edge.source, edge.target])
+    );
 
     let filteredEdges = edges;
     let relevantEntityIds = connectedEntityIds;
@@ -1022,6 +1351,7 @@ export const getRelationshipGraph = query({
         id: e._id,
         name: e.name,
         type: e.type,
+        customTypeId: e.customTypeId,
       }));
 
     return { nodes, edges: filteredEdges };
@@ -1040,16 +1370,11 @@ export const revealToPlayers = mutation({
     }
 
     const project = await ctx.db.get(entity.projectId);
-    if (!project || project.userId !== userId) {
+    if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
       throw authError('unauthorized', 'You do not have permission to update this entity.');
     }
 
-    if (project.projectType !== 'ttrpg') {
-      throw notAllowedError('Reveal is only available for TTRPG projects');
-    }
-    if (project.revealToPlayersEnabled === false) {
-      throw notAllowedError('Reveal is disabled for this project');
-    }
+    assertRevealAllowed(project, 'Reveal');
 
     await ctx.db.patch(entityId, {
       revealedToViewers: true,
@@ -1072,16 +1397,11 @@ export const hideFromPlayers = mutation({
     }
 
     const project = await ctx.db.get(entity.projectId);
-    if (!project || project.userId !== userId) {
+    if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
       throw authError('unauthorized', 'You do not have permission to update this entity.');
     }
 
-    if (project.projectType !== 'ttrpg') {
-      throw notAllowedError('Hide is only available for TTRPG projects');
-    }
-    if (project.revealToPlayersEnabled === false) {
-      throw notAllowedError('Reveal is disabled for this project');
-    }
+    assertRevealAllowed(project, 'Hide');
 
     await ctx.db.patch(entityId, {
       revealedToViewers: false,
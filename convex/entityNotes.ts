@@ -1,12 +1,13 @@
 import { v } from 'convex/values';
 import type { Doc, Id } from './_generated/dataModel';
+import { scheduleEmbeddingSync } from './embeddings';
 import type { MutationCtx, QueryCtx } from './_generated/server';
 import { mutation, query } from './_generated/server';
 import { requireAuth } from './lib/auth';
 import { authError, notFoundError } from './lib/errors';
-import { canReadProject } from './lib/projectAccess';
+import { canReadProject, getProjectRoleForUser, roleCanEdit } from './lib/projectAccess';
 
-async function requireEntityOwnership(
+async function requireEntityEditAccess(
   ctx: MutationCtx,
   entityId: Id<'entities'>,
   userId: Id<'users'>
@@ -19,7 +20,8 @@ async function requireEntityOwnership(
   if (!project) {
     throw notFoundError('project', entity.projectId);
   }
-  if (project.userId !== userId) {
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanEdit(role)) {
     throw authError('unauthorized', 'You do not have permission to access this entity.');
   }
   return entity;
@@ -34,7 +36,7 @@ async function requireEntityNoteAccess(
   if (!note) {
     throw notFoundError('entityNote', noteId);
   }
-  await requireEntityOwnership(ctx, note.entityId, userId);
+  await requireEntityEditAccess(ctx, note.entityId, userId);
   return note;
 }
 
@@ -78,7 +80,7 @@ export const create = mutation({
   },
   handler: async (ctx, { entityId, content }) => {
     const userId = await requireAuth(ctx);
-    const entity = await requireEntityOwnership(ctx, entityId, userId);
+    const entity = await requireEntityEditAccess(ctx, entityId, userId);
 
     const now = Date.now();
 
@@ -90,6 +92,7 @@ export const create = mutation({
       createdAt: now,
       updatedAt: now,
     });
+    await scheduleEmbeddingSync(ctx, entity.projectId);
 
     return noteId;
   },
@@ -102,12 +105,13 @@ export const update = mutation({
   },
   handler: async (ctx, { id, content }) => {
     const userId = await requireAuth(ctx);
-    await requireEntityNoteAccess(ctx, id, userId);
+    const note = await requireEntityNoteAccess(ctx, id, userId);
 
     await ctx.db.patch(id, {
       content,
       updatedAt: Date.now(),
     });
+    await scheduleEmbeddingSync(ctx, note.projectId);
 
     return id;
   },
@@ -117,9 +121,10 @@ export const remove = mutation({
   args: { id: v.id('entityNotes') },
   handler: async (ctx, { id }) => {
     const userId = await requireAuth(ctx);
-    await requireEntityNoteAccess(ctx, id, userId);
+    const note = await requireEntityNoteAccess(ctx, id, userId);
 
     await ctx.db.delete(id);
+    await scheduleEmbeddingSync(ctx, note.projectId);
     return id;
   },
 });
@@ -0,0 +1,234 @@
+import { v } from 'convex/values';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import { internalQuery, mutation, query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { requireAuth } from './lib/auth';
+import {
+  BUILT_IN_ENTITY_TYPES,
+  ENTITY_TYPE_ICONS,
+  MAX_ENTITY_TYPE_NAME_LENGTH,
+} from './lib/constants';
+import { authError, conflictError, notFoundError, validationError } from './lib/errors';
+import {
+  getProjectRole,
+  getProjectRoleForUser,
+  roleCanEdit,
+  roleCanReadRevealed,
+} from './lib/projectAccess';
+
+// Project-defined entity types. Each one is stored on top of a built-in base type so that
+// behaviour keyed on the built-ins (timeline events, icons fallback) keeps working.
+
+const baseTypeValidator = v.union(
+  v.literal('character'),
+  v.literal('location'),
+  v.literal('item'),
+  v.literal('concept'),
+  v.literal('event')
+);
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+async function requireProjectAccess(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  userId: Id<'users'>
+): Promise<Doc<'projects'>> {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw notFoundError('project', projectId);
+  }
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanEdit(role)) {
+    throw authError('unauthorized', 'You do not have permission to access this project.');
+  }
+  return project;
+}
+
+async function requireEntityTypeAccess(
+  ctx: MutationCtx,
+  entityTypeId: Id<'entityTypes'>,
+  userId: Id<'users'>
+): Promise<Doc<'entityTypes'>> {
+  const entityType = await ctx.db.get(entityTypeId);
+  if (!entityType) {
+    throw notFoundError('entityType', entityTypeId, 'Entity type not found');
+  }
+  await requireProjectAccess(ctx, entityType.projectId, userId);
+  return entityType;
+}
+
+async function listProjectTypes(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<'projects'>
+): Promise<Doc<'entityTypes'>[]> {
+  const entityTypes = await ctx.db
+    .query('entityTypes')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .collect();
+  return entityTypes.toSorted((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function normalizeEntityTypeName(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  name: string,
+  excludeId?: Id<'entityTypes'>
+): Promise<string> {
+  const normalized = name.trim().replace(/\s+/g, ' ');
+  if (!normalized) {
+    throw validationError('name', 'Entity type name is required');
+  }
+  if (normalized.length > MAX_ENTITY_TYPE_NAME_LENGTH) {
+    throw validationError(
+      'name',
+      `Entity type name must be at most ${MAX_ENTITY_TYPE_NAME_LENGTH} characters`
+    );
+  }
+
+  const lower = normalized.toLowerCase();
+  if ((BUILT_IN_ENTITY_TYPES as readonly string[]).includes(lower)) {
+    throw conflictError(`"${normalized}" is already a built-in entity type`, 'name');
+  }
+
+  const existing = await listProjectTypes(ctx, projectId);
+  if (existing.some((type) => type._id !== excludeId && type.name.toLowerCase() === lower)) {
+    throw conflictError(`An entity type named "${normalized}" already exists`, 'name');
+  }
+
+  return normalized;
+}
+
+export function validateIcon(icon: string): string {
+  if (!(ENTITY_TYPE_ICONS as readonly string[]).includes(icon)) {
+    throw validationError('icon', 'Unknown icon');
+  }
+  return icon;
+}
+
+export function validateColor(color: string): string {
+  if (!COLOR_PATTERN.test(color)) {
+    throw validationError('color', 'Color must be a hex value like #a855f7');
+  }
+  return color.toLowerCase();
+}
+
+export const list = query({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const role = await getProjectRole(ctx, projectId);
+    if (!roleCanReadRevealed(role)) return [];
+
+    return await listProjectTypes(ctx, projectId);
+  },
+});
+
+export const listForExtraction = internalQuery({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const entityTypes = await listProjectTypes(ctx, projectId);
+    return entityTypes.map((type) => ({
+      _id: type._id,
+      name: type.name,
+      description: type.description,
+      baseType: type.baseType,
+    }));
+  },
+});
+
+export const create = mutation({
+  args: {
+    projectId: v.id('projects'),
+    name: v.string(),
+    icon: v.string(),
+    color: v.string(),
+    description: v.optional(v.string()),
+    baseType: baseTypeValidator,
+  },
+  handler: async (ctx, { projectId, name, icon, color, description, baseType }) => {
+    const userId = await requireAuth(ctx);
+    await requireProjectAccess(ctx, projectId, userId);
+
+    const now = Date.now();
+    return await ctx.db.insert('entityTypes', {
+      projectId,
+      name: await normalizeEntityTypeName(ctx, projectId, name),
+      icon: validateIcon(icon),
+      color: validateColor(color),
+      description: description?.trim() || undefined,
+      baseType,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id('entityTypes'),
+    name: v.optional(v.string()),
+    icon: v.optional(v.string()),
+    color: v.optional(v.string()),
+    description: v.optional(v.string()),
+    baseType: v.optional(baseTypeValidator),
+  },
+  handler: async (ctx, { id, name, icon, color, description, baseType }) => {
+    const userId = await requireAuth(ctx);
+    const entityType = await requireEntityTypeAccess(ctx, id, userId);
+    const now = Date.now();
+
+    await ctx.db.patch(id, {
+      updatedAt: now,
+      ...(name !== undefined && {
+        name: await normalizeEntityTypeName(ctx, entityType.projectId, name, id),
+      }),
+      ...(icon !== undefined && { icon: validateIcon(icon) }),
+      ...(color !== undefined && { color: validateColor(color) }),
+      ...(description !== undefined && { description: description.trim() || undefined }),
+      ...(baseType !== undefined && { baseType }),
+    });
+
+    // Entities keep their built-in type in sync with the custom type they belong to.
+    if (baseType !== undefined && baseType !== entityType.baseType) {
+      const entities = await ctx.db
+        .query('entities')
+        .withIndex('by_custom_type', (q) => q.eq('customTypeId', id))
+        .collect();
+      for (const entity of entities) {
+        await ctx.db.patch(entity._id, { type: baseType, updatedAt: now });
+      }
+    }
+
+    return id;
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id('entityTypes') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const entityType = await requireEntityTypeAccess(ctx, id, userId);
+
+    // Entities fall back to the base type rather than being deleted with their type.
+    const entities = await ctx.db
+      .query('entities')
+      .withIndex('by_custom_type', (q) => q.eq('customTypeId', id))
+      .collect();
+    const now = Date.now();
+    for (const entity of entities) {
+      await ctx.db.patch(entity._id, { customTypeId: undefined, updatedAt: now });
+    }
+
+    const templates = await ctx.db
+      .query('attributeTemplates')
+      .withIndex('by_project', (q) => q.eq('projectId', entityType.projectId))
+      .collect();
+    for (const template of templates.filter((t) => t.customTypeId === id)) {
+      await ctx.db.delete(template._id);
+    }
+
+    await ctx.db.delete(id);
+
+    return id;
+  },
+});
@@ -1,42 +1,25 @@
 import { v } from 'convex/values';
+import { strToU8, zipSync } from 'fflate';
+import { api } from './_generated/api';
 import { action, query } from './_generated/server';
-import { getAuthUserId } from './lib/auth';
+import type { Id } from './_generated/dataModel';
+import { canReadProject } from './lib/projectAccess';
+import {
+  PROJECT_EXPORT_FORMAT,
+  PROJECT_EXPORT_VERSION,
+  type ProjectExport,
+} from './lib/projectExport';
+import { isDocumentGmOnly, isDocumentRevealed, isFactRevealed } from './lib/reveal';
+import { buildWikiSite, slugify } from './lib/wikiSite';
 
 const formatValidator = v.union(v.literal('json'), v.literal('markdown'), v.literal('csv'));
 
-type EntityType = 'character' | 'location' | 'item' | 'concept' | 'event';
-type FactStatus = 'pending' | 'confirmed' | 'rejected';
-
-type ExportData = {
-  project: {
-    name: string;
-    description?: string;
-    exportedAt: string;
-  };
-  documents: Array<{
-    title: string;
-    contentType: string;
-    wordCount: number;
-    processingStatus: string;
-    content?: string;
-  }>;
-  entities: Array<{
-    name: string;
-    type: EntityType;
-    description?: string;
-    aliases: string[];
-    status: string;
-  }>;
-  facts: Array<{
-    entityName: string;
-    subject: string;
-    predicate: string;
-    object: string;
-    confidence: number;
-    evidenceSnippet: string;
-    status: FactStatus;
-  }>;
-};
+type EntityType = ProjectExport['entities'][number]['type'];
+type ExportData = ProjectExport;
+
+// Stored documents have no text in the export; their file isn't copied into it.
+const documentText = (doc: ExportData['documents'][number]) =>
+  doc.storedFile ? '[file stored]' : doc.content;
 
 function formatAsJson(data: ExportData): string {
   return JSON.stringify(data, null, 2);
@@ -59,15 +42,16 @@ function formatAsMarkdown(data: ExportData): string {
   if (data.documents.length === 0) {
     lines.push('*No documents*');
   } else {
-    const hasDocumentContent = data.documents.some((doc) => doc.content !== undefined);
+    const hasDocumentContent = data.documents.some((doc) => documentText(doc) !== undefined);
     if (hasDocumentContent) {
       for (const doc of data.documents) {
+        const text = documentText(doc);
         lines.push(`### ${doc.title}`);
         lines.push('');
         lines.push(`*${doc.contentType}, ${doc.wordCount} words, ${doc.processingStatus}*`);
-        if (doc.content !== undefined && doc.content !== '') {
+        if (text !== undefined && text !== '') {
           lines.push('');
-          lines.push(doc.content);
+          lines.push(text);
         }
         lines.push('');
       }
@@ -82,11 +66,21 @@ function formatAsMarkdown(data: ExportData): string {
   lines.push('## Canon Entities');
   lines.push('');
 
-  const entityTypes: EntityType[] = ['character', 'location', 'item', 'concept', 'event'];
-  for (const type of entityTypes) {
-    const typeEntities = data.entities.filter((e) => e.type === type);
+  // Entities with a project-defined type are grouped under that type, not their base type.
+  const builtInTypes: EntityType[] = ['character', 'location', 'item', 'concept', 'event'];
+  const groups = [
+    ...builtInTypes.map((type) => ({
+      heading: `${type.charAt(0).toUpperCase() + type.slice(1)}s`,
+      entities: data.entities.filter((e) => !e.customType && e.type === type),
+    })),
+    ...data.entityTypes.map((type) => ({
+      heading: type.name,
+      entities: data.entities.filter((e) => e.customType === type.name),
+    })),
+  ];
+  for (const { heading, entities: typeEntities } of groups) {
     if (typeEntities.length > 0) {
-      lines.push(`### ${type.charAt(0).toUpperCase() + type.slice(1)}s`);
+      lines.push(`### ${heading}`);
       lines.push('');
       for (const entity of typeEntities) {
         lines.push(`#### ${entity.name}`);
@@ -125,7 +119,7 @@ function formatAsCsv(data: ExportData): string {
     const escapedDesc = escapeCsvValue(entity.description ?? '');
     const escapedAliases = escapeCsvValue(entity.aliases.join('; '));
     lines.push(
-      `"${entity.name}","${entity.type}","${escapedDesc}","${escapedAliases}","${entity.status}"`
+      `"${entity.name}","${entity.customType ?? entity.type}","${escapedDesc}","${escapedAliases}","${entity.status}"`
     );
   }
   lines.push('');
@@ -143,7 +137,7 @@ function formatAsCsv(data: ExportData): string {
   lines.push('# DOCUMENTS');
   lines.push('Title,ContentType,WordCount,Status,Content');
   for (const doc of data.documents) {
-    const escapedContent = escapeCsvValue(doc.content ?? '');
+    const escapedContent = escapeCsvValue(documentText(doc) ?? '');
     lines.push(
       `"${doc.title}","${doc.contentType}",${doc.wordCount},"${doc.processingStatus}","${escapedContent}"`
     );
@@ -153,81 +147,305 @@ function formatAsCsv(data: ExportData): string {
 }
 
 export const gatherExportData = query({
-  args: { projectId: v.id('projects'), includeUnrevealed: v.optional(v.boolean()) },
-  handler: async (ctx, { projectId, includeUnrevealed }): Promise<ExportData | null> => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) return null;
-
+  args: {
+    projectId: v.id('projects'),
+    includeUnrevealed: v.optional(v.boolean()),
+    // Also export the review queue (pending and rejected canon). Ignored for player-safe exports.
+    includePending: v.optional(v.boolean()),
+  },
+  handler: async (
+    ctx,
+    { projectId, includeUnrevealed, includePending }
+  ): Promise<ExportData | null> => {
     const project = await ctx.db.get(projectId);
-    if (!project || project.userId !== userId) return null;
+    if (!project) return null;
+
+    const canRead = await canReadProject(ctx, projectId);
+    if (!canRead) return null;
+
+    const shouldFilterRevealed = project.projectType === 'ttrpg' && includeUnrevealed === false;
+    const withReviewQueue = includePending === true && !shouldFilterRevealed;
 
     const documents = await ctx.db
       .query('documents')
       .withIndex('by_project', (q) => q.eq('projectId', projectId))
       .collect();
 
-    const entities = await ctx.db
-      .query('entities')
-      .withIndex('by_project_status', (q) => q.eq('projectId', projectId).eq('status', 'confirmed'))
+    const entities =
+      withReviewQueue ?
+        await ctx.db
+          .query('entities')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect()
+      : await ctx.db
+          .query('entities')
+          .withIndex('by_project_status', (q) =>
+            q.eq('projectId', projectId).eq('status', 'confirmed')
+          )
+          .collect();
+
+    const facts =
+      withReviewQueue ?
+        await ctx.db
+          .query('facts')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect()
+      : await ctx.db
+          .query('facts')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId).eq('status', 'confirmed'))
+          .collect();
+
+    const relationships =
+      withReviewQueue ?
+        await ctx.db
+          .query('relationships')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect()
+      : await ctx.db
+          .query('relationships')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId).eq('status', 'confirmed'))
+          .collect();
+
+    const entityTypes = await ctx.db
+      .query('entityTypes')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
       .collect();
+    const entityTypeNames = new Map(entityTypes.map((type) => [type._id, type.name]));
 
-    const facts = await ctx.db
-      .query('facts')
-      .withIndex('by_project', (q) => q.eq('projectId', projectId).eq('status', 'confirmed'))
+    const attributeTemplates = await ctx.db
+      .query('attributeTemplates')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const calendars = await ctx.db
+      .query('calendars')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
       .collect();
 
-    const shouldFilterRevealed = project.projectType === 'ttrpg' && includeUnrevealed === false;
-    const includeDocumentContent = !shouldFilterRevealed;
     const visibleEntities =
       shouldFilterRevealed ?
         entities.filter((entity) => entity.revealedToViewers === true)
       : entities;
-    const visibleEntityIds = new Set(visibleEntities.map((entity) => entity._id));
+    const documentsById = new Map(documents.map((doc) => [doc._id, doc]));
+    const entitiesById = new Map(entities.map((entity) => [entity._id, entity]));
     const visibleFacts =
       shouldFilterRevealed ?
-        facts.filter((fact) => !fact.entityId || visibleEntityIds.has(fact.entityId))
+        facts.filter((fact) => {
+          const entity = fact.entityId ? entitiesById.get(fact.entityId) : undefined;
+          if (fact.entityId && !entity) return false;
+          const document = fact.documentId ? (documentsById.get(fact.documentId) ?? null) : null;
+          return isFactRevealed(fact, entity ?? null, document);
+        })
       : facts;
+    // GM-only documents are left out of a player export entirely; unrevealed ones keep only metadata.
+    const visibleDocuments =
+      shouldFilterRevealed ? documents.filter((doc) => !isDocumentGmOnly(doc)) : documents;
+    const includeDocumentContent = (doc: (typeof documents)[number]) =>
+      !shouldFilterRevealed || isDocumentRevealed(doc);
+    const includeEvidence = (documentId: Id<'documents'> | undefined) => {
+      if (!shouldFilterRevealed || !documentId) return true;
+      const document = documentsById.get(documentId);
+      return !!document && isDocumentRevealed(document);
+    };
 
     const entityMap = new Map<string, string>();
     for (const entity of visibleEntities) {
       entityMap.set(entity._id, entity.name);
     }
+    const visibleRelationships = relationships.filter((relationship) => {
+      const source = entityMap.has(relationship.sourceEntityId);
+      const target = entityMap.has(relationship.targetEntityId);
+      if (!source || !target) return false;
+      if (!shouldFilterRevealed || !relationship.documentId) return true;
+      const document = documentsById.get(relationship.documentId);
+      return !document || !isDocumentGmOnly(document);
+    });
+
+    // Attributes have no reveal state of their own, so a player export leaves them out.
+    const entityAttributes =
+      shouldFilterRevealed ? []
+      : withReviewQueue ?
+        await ctx.db
+          .query('entityAttributes')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect()
+      : await ctx.db
+          .query('entityAttributes')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId).eq('status', 'confirmed'))
+          .collect();
+
+    // Notes, entity notes, alerts and suppressions are GM working material, never part of a
+    // player export.
+    const notes =
+      shouldFilterRevealed ?
+        []
+      : await ctx.db
+          .query('notes')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect();
+    const entityNotes =
+      shouldFilterRevealed ?
+        []
+      : await ctx.db
+          .query('entityNotes')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect();
+    const alerts =
+      shouldFilterRevealed ?
+        []
+      : await ctx.db
+          .query('alerts')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect();
+    const alertSuppressions =
+      shouldFilterRevealed ?
+        []
+      : await ctx.db
+          .query('alertSuppressions')
+          .withIndex('by_project', (q) => q.eq('projectId', projectId))
+          .collect();
 
     return {
+      format: PROJECT_EXPORT_FORMAT,
+      version: PROJECT_EXPORT_VERSION,
       project: {
         name: project.name,
         description: project.description,
+        projectType: project.projectType,
+        revealToPlayersEnabled: project.revealToPlayersEnabled,
+        singleValuedPredicates: project.singleValuedPredicates,
         exportedAt: new Date().toISOString(),
       },
-      documents: documents.map((doc) => ({
+      documents: visibleDocuments.map((doc) => ({
+        id: doc._id,
         title: doc.title,
         contentType: doc.contentType,
         wordCount: doc.wordCount,
         processingStatus: doc.processingStatus,
-        ...(includeDocumentContent && {
-          content: doc.content ?? (doc.storageId ? '[file stored]' : ''),
-        }),
+        orderIndex: doc.orderIndex,
+        sourceFormat: doc.sourceFormat,
+        revealedToViewers: doc.revealedToViewers,
+        ...(includeDocumentContent(doc) &&
+          (doc.content === undefined && doc.storageId ?
+            { storedFile: true }
+          : { content: doc.content ?? '' })),
+      })),
+      entityTypes: entityTypes
+        .map((type) => ({
+          id: type._id,
+          name: type.name,
+          icon: type.icon,
+          color: type.color,
+          description: type.description,
+          baseType: type.baseType,
+        }))
+        .toSorted((a, b) => a.name.localeCompare(b.name)),
+      attributeTemplates: attributeTemplates.map((template) => ({
+        id: template._id,
+        entityType: template.entityType,
+        customTypeId: template.customTypeId,
+        fields: template.fields,
       })),
       entities: visibleEntities.map((entity) => ({
+        id: entity._id,
         name: entity.name,
         type: entity.type,
+        customType: entity.customTypeId ? entityTypeNames.get(entity.customTypeId) : undefined,
+        customTypeId: entity.customTypeId,
         description: entity.description,
         aliases: entity.aliases,
         status: entity.status,
+        firstMentionedIn: entity.firstMentionedIn,
+        revealedToViewers: entity.revealedToViewers,
+      })),
+      calendars: calendars.map((calendar) => ({
+        id: calendar._id,
+        name: calendar.name,
+        daysPerYear: calendar.daysPerYear,
+        months: calendar.months,
+        eras: calendar.eras,
+        epochOffset: calendar.epochOffset,
+        isDefault: calendar.isDefault,
       })),
       facts: visibleFacts.map((fact) => ({
+        id: fact._id,
+        entityId: fact.entityId,
+        documentId: fact.documentId,
         entityName: fact.entityId ? (entityMap.get(fact.entityId) ?? 'Unknown') : 'Unlinked',
         subject: fact.subject,
         predicate: fact.predicate,
         object: fact.object,
         confidence: fact.confidence,
-        evidenceSnippet: fact.evidenceSnippet ?? '',
+        evidenceSnippet: includeEvidence(fact.documentId) ? (fact.evidenceSnippet ?? '') : '',
+        evidencePosition: includeEvidence(fact.documentId) ? fact.evidencePosition : undefined,
+        temporalBound: fact.temporalBound,
         status: fact.status,
+        revealedToViewers: fact.revealedToViewers,
+      })),
+      entityAttributes: entityAttributes
+        .filter((attribute) => entitiesById.has(attribute.entityId))
+        .map((attribute) => ({
+          id: attribute._id,
+          entityId: attribute.entityId,
+          key: attribute.key,
+          value: attribute.value,
+          documentId: attribute.documentId,
+          evidenceSnippet: attribute.evidenceSnippet,
+          evidencePosition: attribute.evidencePosition,
+          status: attribute.status,
+        })),
+      relationships: visibleRelationships.map((relationship) => ({
+        id: relationship._id,
+        sourceEntityId: relationship.sourceEntityId,
+        targetEntityId: relationship.targetEntityId,
+        type: relationship.type,
+        documentId: relationship.documentId,
+        confidence: relationship.confidence,
+        evidenceSnippet:
+          includeEvidence(relationship.documentId) ? relationship.evidenceSnippet : undefined,
+        evidencePosition:
+          includeEvidence(relationship.documentId) ? relationship.evidencePosition : undefined,
+        status: relationship.status,
+      })),
+      notes: notes.map((note) => ({
+        id: note._id,
+        title: note.title,
+        content: note.content,
+        tags: note.tags,
+        pinned: note.pinned,
+      })),
+      entityNotes: entityNotes
+        .filter((note) => entitiesById.has(note.entityId))
+        .map((note) => ({ id: note._id, entityId: note.entityId, content: note.content })),
+      alerts: alerts.map((alert) => ({
+        id: alert._id,
+        documentId: alert.documentId,
+        factIds: alert.factIds,
+        entityIds: alert.entityIds,
+        type: alert.type,
+        severity: alert.severity,
+        title: alert.title,
+        description: alert.description,
+        evidence: alert.evidence,
+        suggestedFix: alert.suggestedFix,
+        status: alert.status,
+        resolutionNotes: alert.resolutionNotes,
+        rule: alert.rule,
+        fingerprint: alert.fingerprint,
+      })),
+      alertSuppressions: alertSuppressions.map((suppression) => ({
+        id: suppression._id,
+        rule: suppression.rule,
+        entityIds: suppression.entityIds,
       })),
     };
   },
 });
 
+/**
+ * Export a project as JSON, markdown or CSV. The JSON export is the complete project, review
+ * queue included unless it is player-safe, and can be imported again with `projectImports`.
+ */
 export const exportProject = action({
   args: {
     projectId: v.id('projects'),
@@ -238,7 +456,7 @@ export const exportProject = action({
     const data = await ctx.runQuery(
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       'export:gatherExportData' as any,
-      { projectId, includeUnrevealed }
+      { projectId, includeUnrevealed, includePending: format === 'json' }
     );
 
     if (!data) return null;
@@ -255,3 +473,42 @@ export const exportProject = action({
     }
   },
 });
+
+/**
+ * Export a project as a zipped static HTML wiki: a page per entity with its facts and evidence,
+ * an index per type, document pages, a timeline and a relationship graph. A player-safe export of
+ * a TTRPG project is the player edition, built from revealed canon only.
+ */
+export const exportWikiSite = action({
+  args: {
+    projectId: v.id('projects'),
+    includeUnrevealed: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { projectId, includeUnrevealed }): Promise<ArrayBuffer | null> => {
+    const data: ExportData | null = await ctx.runQuery(api.export.gatherExportData, {
+      projectId,
+      includeUnrevealed,
+    });
+    if (!data) return null;
+
+    const playerEdition = data.project.projectType === 'ttrpg' && includeUnrevealed === false;
+    const { events } = await ctx.runQuery(api.entities.getTimeline, {
+      projectId,
+      order: 'inWorld',
+      playerView: playerEdition,
+    });
+    const files = buildWikiSite({
+      data,
+      timeline: events.map((event) => ({ entityId: event._id, date: event.date?.label ?? null })),
+      playerEdition,
+    });
+
+    const folder = `${slugify(data.project.name)}-wiki`;
+    const zip = zipSync(
+      Object.fromEntries(
+        Object.entries(files).map(([path, content]) => [`${folder}/${path}`, strToU8(content)])
+      )
+    );
+    return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength);
+  },
+});
@@ -3,9 +3,18 @@ import { paginationOptsValidator } from 'convex/server';
 import type { MutationCtx, QueryCtx } from './_generated/server';
 import { mutation, query } from './_generated/server';
 import type { Doc, Id } from './_generated/dataModel';
+import { scheduleEmbeddingSync } from './embeddings';
 import { requireAuth } from './lib/auth';
-import { getProjectRole } from './lib/projectAccess';
+import {
+  getProjectRole,
+  getProjectRoleForUser,
+  roleCanEdit,
+  roleCanRead,
+} from './lib/projectAccess';
 import { authError, notFoundError } from './lib/errors';
+import { assertRevealAllowed } from './lib/reveal';
+import { loadCalendars, normalizeTemporalBound } from './lib/calendar';
+import { recordRevision } from './lib/revisions';
 
 const factStatusValidator = v.union(
   v.literal('pending'),
@@ -24,8 +33,8 @@ async function getProjectAccess(
 ): Promise<{ canRead: boolean; canEdit: boolean }> {
   const role = await getProjectRole(ctx, projectId);
   return {
-    canRead: role !== null,
-    canEdit: role === 'owner',
+    canRead: roleCanRead(role),
+    canEdit: roleCanEdit(role),
   };
 }
 
@@ -38,7 +47,8 @@ async function requireProjectAccess(
   if (!project) {
     throw notFoundError('project', projectId);
   }
-  if (project.userId !== userId) {
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanEdit(role)) {
     throw authError('unauthorized', 'You do not have permission to access this project.');
   }
   return project;
@@ -55,7 +65,7 @@ async function requireFactAccess(
   }
 
   const project = await ctx.db.get(fact.projectId);
-  if (!project || project.userId !== userId) {
+  if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
     throw authError('unauthorized', 'You do not have permission to access this fact.');
   }
 
@@ -110,7 +120,8 @@ export const create = mutation({
       confidence,
       evidenceSnippet,
       evidencePosition,
-      temporalBound,
+      temporalBound:
+        temporalBound && normalizeTemporalBound(temporalBound, await loadCalendars(ctx, projectId)),
       status: status ?? 'pending',
       createdAt: Date.now(),
     });
@@ -129,6 +140,7 @@ export const create = mutation({
         stats: { ...stats, factCount: stats.factCount + 1 },
       });
     }
+    await scheduleEmbeddingSync(ctx, projectId);
 
     return factId;
   },
@@ -320,6 +332,7 @@ export const remove = mutation({
     const fact = await requireFactAccess(ctx, id, userId);
 
     await ctx.db.delete(id);
+    await scheduleEmbeddingSync(ctx, fact.projectId);
 
     if (fact.status !== 'rejected') {
       const project = await ctx.db.get(fact.projectId);
@@ -368,10 +381,21 @@ export const update = mutation({
       ...(object !== undefined && { object }),
       ...(confidence !== undefined && { confidence }),
       ...(evidenceSnippet !== undefined && { evidenceSnippet }),
-      ...(temporalBound !== undefined && { temporalBound }),
+      ...(temporalBound !== undefined && {
+        temporalBound: normalizeTemporalBound(
+          temporalBound,
+          await loadCalendars(ctx, fact.projectId)
+        ),
+      }),
       ...(status !== undefined && { status }),
     });
 
+    const updated = await ctx.db.get(id);
+    if (updated) {
+      await recordRevision(ctx, { fact }, { fact: updated }, { action: 'update', userId });
+    }
+    await scheduleEmbeddingSync(ctx, fact.projectId);
+
     const newStatus = status ?? oldStatus;
     const delta = (newStatus === 'rejected' ? 0 : 1) - (oldStatus === 'rejected' ? 0 : 1);
 
@@ -395,3 +419,45 @@ export const update = mutation({
     return id;
   },
 });
+
+export const revealToPlayers = mutation({
+  args: { id: v.id('facts') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const fact = await requireFactAccess(ctx, id, userId);
+
+    const project = await ctx.db.get(fact.projectId);
+    if (!project) {
+      throw notFoundError('project', fact.projectId);
+    }
+    assertRevealAllowed(project, 'Reveal');
+
+    await ctx.db.patch(id, {
+      revealedToViewers: true,
+      revealedAt: Date.now(),
+    });
+
+    return id;
+  },
+});
+
+export const hideFromPlayers = mutation({
+  args: { id: v.id('facts') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const fact = await requireFactAccess(ctx, id, userId);
+
+    const project = await ctx.db.get(fact.projectId);
+    if (!project) {
+      throw notFoundError('project', fact.projectId);
+    }
+    assertRevealAllowed(project, 'Hide');
+
+    await ctx.db.patch(id, {
+      revealedToViewers: false,
+      revealedAt: null,
+    });
+
+    return id;
+  },
+});
@@ -0,0 +1,33 @@
+import { v, type Infer } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+
+// Filters on the alerts page. Saved presets store these values, and the page applies them with
+// `matchesAlertFilters`, so a preset means the same thing wherever it is loaded. Unset fields
+// match every alert.
+
+export const alertFiltersValidator = v.object({
+  status: v.optional(v.union(v.literal('open'), v.literal('resolved'), v.literal('dismissed'))),
+  type: v.optional(
+    v.union(v.literal('contradiction'), v.literal('timeline'), v.literal('ambiguity'))
+  ),
+  severity: v.optional(v.union(v.literal('error'), v.literal('warning'))),
+  assignedToMe: v.optional(v.boolean()),
+  documentId: v.optional(v.id('documents')),
+  entityId: v.optional(v.id('entities')),
+});
+
+export type AlertFilterValues = Infer<typeof alertFiltersValidator>;
+
+export function matchesAlertFilters(
+  alert: Doc<'alerts'>,
+  filters: AlertFilterValues,
+  viewerId?: Id<'users'>
+): boolean {
+  if (filters.status && alert.status !== filters.status) return false;
+  if (filters.type && alert.type !== filters.type) return false;
+  if (filters.severity && alert.severity !== filters.severity) return false;
+  if (filters.assignedToMe && (!viewerId || alert.assigneeId !== viewerId)) return false;
+  if (filters.documentId && alert.documentId !== filters.documentId) return false;
+  if (filters.entityId && !alert.entityIds.includes(filters.entityId)) return false;
+  return true;
+}
@@ -0,0 +1,227 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import { sha256Hex } from '../llm/utils';
+
+// Alert identity across re-checks. A fingerprint covers the rule that raised an alert, its
+// type, the facts and entities involved and its evidence with case, punctuation and spacing
+// normalized away. Model alerts leave facts out: which canon reaches the prompt varies between
+// runs, so their evidence identifies them instead. A re-check that finds the same issue
+// updates that alert instead of adding another; a dismissed alert stays dismissed until a fact
+// it cites is edited. Suppressions silence one rule for a set of entities altogether.
+
+export type AlertDraft = {
+  projectId: Id<'projects'>;
+  documentId: Id<'documents'>;
+  // Which check raised the alert, e.g. "fact:born_in" or "model:contradiction".
+  rule: string;
+  type: Doc<'alerts'>['type'];
+  severity: Doc<'alerts'>['severity'];
+  title: string;
+  description: string;
+  factIds: Id<'facts'>[];
+  entityIds: Id<'entities'>[];
+  evidence: Doc<'alerts'>['evidence'];
+  suggestedFix?: string;
+  // Values the alert depends on beyond its facts, such as attribute values. Editing any of them
+  // reopens a dismissed alert, just like editing a fact.
+  sources?: string[];
+};
+
+export type UpsertOutcome = 'created' | 'reopened' | 'updated' | 'suppressed';
+
+/** Whether the outcome adds an open alert, and so counts towards the project's alert count. */
+export function opensAlert(outcome: UpsertOutcome): boolean {
+  return outcome === 'created' || outcome === 'reopened';
+}
+
+export function normalizeEvidence(snippet: string): string {
+  return snippet
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export async function fingerprintAlert(draft: AlertDraft): Promise<string> {
+  const isModelAlert = draft.rule.startsWith('model:');
+  return await sha256Hex(
+    [
+      draft.rule,
+      draft.type,
+      draft.entityIds.toSorted().join(','),
+      isModelAlert ? '' : draft.factIds.toSorted().join(','),
+      draft.evidence
+        .map((evidence) => normalizeEvidence(evidence.snippet))
+        .toSorted()
+        .join('|'),
+    ].join('\n')
+  );
+}
+
+/** Changes whenever one of the facts or sources is edited, re-reviewed or deleted. */
+async function signSources(ctx: QueryCtx, draft: AlertDraft): Promise<string> {
+  const parts = (draft.sources ?? []).toSorted();
+  for (const factId of draft.factIds.toSorted()) {
+    const fact = await ctx.db.get(factId);
+    parts.push(
+      fact ? `${factId}:${fact.status}:${fact.predicate}:${fact.object}` : `${factId}:deleted`
+    );
+  }
+  return await sha256Hex(parts.join('\n'));
+}
+
+export function describeAlertRule(rule: string): string {
+  const [kind, detail = ''] = rule.split(':', 2);
+  const label = detail.replace(/_/g, ' ');
+  switch (kind) {
+    case 'fact':
+      return `Conflicting ${label}`;
+    case 'attribute':
+      return `Conflicting ${label} attribute`;
+    case 'timeline':
+      return 'Appears after death';
+    case 'model':
+      return `Vellum ${label} check`;
+    default:
+      return rule;
+  }
+}
+
+/** Whether a suppression covers this rule for every one of its entities. */
+export async function isSuppressed(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>,
+  rule: string,
+  entityIds: Id<'entities'>[]
+): Promise<boolean> {
+  const suppressions = await ctx.db
+    .query('alertSuppressions')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId).eq('rule', rule))
+    .collect();
+  return suppressions.some((suppression) =>
+    suppression.entityIds.every((entityId) => entityIds.includes(entityId))
+  );
+}
+
+export type AlertActivityKind = Exclude<Doc<'alertComments'>['kind'], 'comment'>;
+
+/** Add an entry to the alert's discussion. Omit `userId` for changes made by a check. */
+export async function recordAlertActivity(
+  ctx: MutationCtx,
+  alert: Doc<'alerts'>,
+  kind: AlertActivityKind,
+  options: { userId?: Id<'users'>; assigneeId?: Id<'users'> } = {}
+): Promise<void> {
+  await ctx.db.insert('alertComments', {
+    alertId: alert._id,
+    projectId: alert.projectId,
+    kind,
+    createdAt: Date.now(),
+    ...options,
+  });
+}
+
+/**
+ * Drop deleted facts from the alerts citing them. An alert left citing nothing is deleted with
+ * its discussion; returns how many of those were open.
+ */
+export async function removeFactsFromAlerts(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  factIds: Set<Id<'facts'>>
+): Promise<number> {
+  if (factIds.size === 0) return 0;
+
+  const alerts = await ctx.db
+    .query('alerts')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .collect();
+  let removedOpenAlerts = 0;
+  for (const alert of alerts) {
+    const remaining = alert.factIds.filter((id) => !factIds.has(id));
+    if (remaining.length === alert.factIds.length) continue;
+
+    if (remaining.length === 0 && alert.entityIds.length === 0) {
+      const comments = await ctx.db
+        .query('alertComments')
+        .withIndex('by_alert', (q) => q.eq('alertId', alert._id))
+        .collect();
+      for (const comment of comments) {
+        await ctx.db.delete(comment._id);
+      }
+      await ctx.db.delete(alert._id);
+      if (alert.status === 'open') removedOpenAlerts++;
+      continue;
+    }
+    await ctx.db.patch(alert._id, { factIds: remaining });
+  }
+  return removedOpenAlerts;
+}
+
+/**
+ * Reworded evidence changes the fingerprint; an alert with the same rule and title on the same
+ * document is still the same issue, whatever its status. An open one wins over closed ones.
+ */
+async function findByTitle(ctx: QueryCtx, draft: AlertDraft): Promise<Doc<'alerts'> | null> {
+  const matches = await ctx.db
+    .query('alerts')
+    .withIndex('by_document', (q) => q.eq('documentId', draft.documentId))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field('title'), draft.title),
+        q.or(q.eq(q.field('rule'), draft.rule), q.eq(q.field('rule'), undefined))
+      )
+    )
+    .collect();
+  return (
+    matches.find((alert) => alert.status === 'open') ??
+    matches.toSorted((a, b) => b.createdAt - a.createdAt)[0] ??
+    null
+  );
+}
+
+/**
+ * Record an alert found by a check. Updates the alert it matches instead of inserting a
+ * duplicate, and reopens resolved alerts or dismissed ones whose facts changed.
+ */
+export async function upsertAlert(ctx: MutationCtx, draft: AlertDraft): Promise<UpsertOutcome> {
+  if (await isSuppressed(ctx, draft.projectId, draft.rule, draft.entityIds)) return 'suppressed';
+
+  const { sources: _sources, ...alert } = draft;
+  const fingerprint = await fingerprintAlert(draft);
+  const factSignature = await signSources(ctx, draft);
+  const now = Date.now();
+
+  const existing =
+    (await ctx.db
+      .query('alerts')
+      .withIndex('by_fingerprint', (q) =>
+        q.eq('projectId', draft.projectId).eq('fingerprint', fingerprint)
+      )
+      .first()) ?? (await findByTitle(ctx, draft));
+
+  const fields = { ...alert, fingerprint, factSignature, lastDetectedAt: now };
+
+  if (!existing) {
+    await ctx.db.insert('alerts', { ...fields, status: 'open', createdAt: now });
+    return 'created';
+  }
+
+  if (existing.status === 'open') {
+    await ctx.db.patch(existing._id, fields);
+    return 'updated';
+  }
+
+  if (existing.status === 'dismissed' && existing.factSignature === factSignature) {
+    return 'suppressed';
+  }
+
+  await ctx.db.patch(existing._id, {
+    ...fields,
+    status: 'open',
+    resolvedAt: undefined,
+    resolutionNotes: undefined,
+  });
+  await recordAlertActivity(ctx, existing, 'reopened');
+  return 'reopened';
+}
@@ -0,0 +1,140 @@
+import { v, type Infer } from 'convex/values';
+import type { Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+
+// Structured attributes for entities. Templates describe which fields a type has; values are
+// stored per entity in `entityAttributes` and compared deterministically by the checks.
+
+export const attributeDataTypeValidator = v.union(
+  v.literal('text'),
+  v.literal('number'),
+  v.literal('boolean'),
+  v.literal('date'),
+  v.literal('enum')
+);
+
+export const attributeFieldValidator = v.object({
+  key: v.string(),
+  label: v.string(),
+  dataType: attributeDataTypeValidator,
+  options: v.optional(v.array(v.string())),
+});
+
+export const attributeValueValidator = v.union(v.string(), v.number(), v.boolean());
+
+export type AttributeDataType = Infer<typeof attributeDataTypeValidator>;
+export type AttributeField = Infer<typeof attributeFieldValidator>;
+export type AttributeValue = Infer<typeof attributeValueValidator>;
+
+type BuiltInType = 'character' | 'location' | 'item' | 'concept' | 'event';
+
+export const DEFAULT_ATTRIBUTE_TEMPLATES: Record<BuiltInType, AttributeField[]> = {
+  character: [
+    { key: 'age', label: 'Age', dataType: 'number' },
+    { key: 'species', label: 'Species', dataType: 'text' },
+    { key: 'allegiance', label: 'Allegiance', dataType: 'text' },
+    { key: 'status', label: 'Status', dataType: 'enum', options: ['alive', 'dead', 'unknown'] },
+  ],
+  location: [
+    { key: 'region', label: 'Region', dataType: 'text' },
+    { key: 'population', label: 'Population', dataType: 'number' },
+  ],
+  item: [
+    { key: 'owner', label: 'Owner', dataType: 'text' },
+    { key: 'material', label: 'Material', dataType: 'text' },
+  ],
+  concept: [{ key: 'category', label: 'Category', dataType: 'text' }],
+  event: [
+    { key: 'date', label: 'Date', dataType: 'date' },
+    { key: 'location', label: 'Location', dataType: 'text' },
+  ],
+};
+
+export const MAX_ATTRIBUTE_FIELDS = 20;
+
+export function toAttributeKey(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+const TRUE_WORDS = new Set(['true', 'yes', 'y', '1']);
+const FALSE_WORDS = new Set(['false', 'no', 'n', '0']);
+
+/**
+ * Coerce a raw value (from the UI or the model) into the field's data type.
+ * Returns null when the value cannot be represented, so callers can skip it.
+ */
+export function coerceAttributeValue(
+  field: AttributeField,
+  raw: AttributeValue | null | undefined
+): AttributeValue | null {
+  if (raw === null || raw === undefined) return null;
+
+  switch (field.dataType) {
+    case 'number': {
+      if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+      const match = String(raw)
+        .replace(/,/g, '')
+        .match(/-?\d+(?:\.\d+)?/);
+      return match ? Number(match[0]) : null;
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw;
+      const word = String(raw).trim().toLowerCase();
+      if (TRUE_WORDS.has(word)) return true;
+      if (FALSE_WORDS.has(word)) return false;
+      return null;
+    }
+    case 'enum': {
+      const word = String(raw).trim().toLowerCase();
+      return field.options?.find((option) => option.toLowerCase() === word) ?? null;
+    }
+    default: {
+      const text = String(raw).trim();
+      return text ? text : null;
+    }
+  }
+}
+
+export function attributeValuesEqual(a: AttributeValue, b: AttributeValue): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+  return a === b;
+}
+
+export function formatAttributeValue(value: AttributeValue): string {
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+}
+
+type TemplateTarget = { type: BuiltInType; customTypeId?: Id<'entityTypes'> };
+
+/**
+ * Load a project's template overrides once and resolve the fields for any entity.
+ * A custom type uses its own template, then its base type's, then the defaults.
+ */
+export async function loadTemplateResolver(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<'projects'>
+): Promise<(target: TemplateTarget) => AttributeField[]> {
+  const templates = await ctx.db
+    .query('attributeTemplates')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .collect();
+
+  return (target) => {
+    const custom =
+      target.customTypeId ?
+        templates.find((template) => template.customTypeId === target.customTypeId)
+      : undefined;
+    if (custom) return custom.fields;
+    const base = templates.find(
+      (template) => !template.customTypeId && template.entityType === target.type
+    );
+    return base?.fields ?? DEFAULT_ATTRIBUTE_TEMPLATES[target.type];
+  };
+}
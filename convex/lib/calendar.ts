@@ -0,0 +1,333 @@
+import { v, type Infer } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { AttributeValue } from './attributes';
+import { normalizePredicate } from './contradictions';
+
+// In-world calendars. Temporal bounds are parsed into a normalized range of days on a single
+// project-wide axis, so facts written against different calendars can still be compared.
+
+export const calendarMonthValidator = v.object({
+  name: v.string(),
+  days: v.number(),
+});
+
+export const calendarEraValidator = v.object({
+  name: v.string(),
+  abbreviation: v.optional(v.string()),
+  // Absolute year of the era's year 1. Eras that count backward (like BCE) end there instead.
+  startYear: v.number(),
+  countsBackward: v.optional(v.boolean()),
+});
+
+export const MAX_CALENDAR_NAME_LENGTH = 60;
+export const MAX_CALENDAR_MONTHS = 40;
+export const MAX_CALENDAR_ERAS = 20;
+
+export type CalendarMonth = Infer<typeof calendarMonthValidator>;
+export type CalendarEra = Infer<typeof calendarEraValidator>;
+
+type CalendarLike = {
+  _id?: Id<'calendars'>;
+  daysPerYear: number;
+  months: CalendarMonth[];
+  eras: CalendarEra[];
+  epochOffset: number;
+};
+
+/** Used when a project has no calendars, so plain years still sort. */
+const FALLBACK_CALENDAR: CalendarLike = { daysPerYear: 365, months: [], eras: [], epochOffset: 0 };
+
+export type TemporalRange = {
+  start: number;
+  end: number;
+};
+
+type NormalizedRange = TemporalRange & { calendarId?: Id<'calendars'> };
+
+type DateParts = {
+  calendar?: CalendarLike;
+  era?: CalendarEra;
+  monthIndex?: number;
+  day?: number;
+  year: number;
+};
+
+const FILLER_WORDS = /(^|[^a-z0-9])(?:year|yr|day|of|the|in|on|circa|c)(?=$|[^a-z0-9])/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function wordPattern(token: string): RegExp {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(token.toLowerCase())}(?=$|[^a-z0-9])`);
+}
+
+function parseParts(text: string, calendars: CalendarLike[]): DateParts | null {
+  let rest = text.toLowerCase();
+  let calendar: CalendarLike | undefined;
+  let era: CalendarEra | undefined;
+  let monthIndex: number | undefined;
+
+  // Longest names first, so "Second Age" wins over "Age".
+  const eraTokens = calendars
+    .flatMap((cal) =>
+      cal.eras.flatMap((e) =>
+        [e.name, e.abbreviation]
+          .filter((token): token is string => !!token?.trim())
+          .map((token) => ({ token, calendar: cal, era: e }))
+      )
+    )
+    .toSorted((a, b) => b.token.length - a.token.length);
+  for (const candidate of eraTokens) {
+    const pattern = wordPattern(candidate.token);
+    if (pattern.test(rest)) {
+      calendar = candidate.calendar;
+      era = candidate.era;
+      rest = rest.replace(pattern, '$1 ');
+      break;
+    }
+  }
+
+  const monthTokens = (calendar ? [calendar] : calendars)
+    .flatMap((cal) =>
+      cal.months.map((month, index) => ({ token: month.name, calendar: cal, index }))
+    )
+    .toSorted((a, b) => b.token.length - a.token.length);
+  for (const candidate of monthTokens) {
+    const pattern = wordPattern(candidate.token);
+    if (pattern.test(rest)) {
+      calendar = candidate.calendar;
+      monthIndex = candidate.index;
+      rest = rest.replace(pattern, '$1 ');
+      break;
+    }
+  }
+
+  // Anything left besides numbers and filler words ("Season 5") is not a date we understand.
+  const leftover = rest
+    .replace(/\d+(?:st|nd|rd|th)?/g, ' ')
+    .replace(FILLER_WORDS, ' ')
+    .replace(/[\s,.]+/g, '');
+  if (leftover) return null;
+
+  const numbers = (rest.match(/\d+/g) ?? []).map(Number);
+  if (monthIndex === undefined) {
+    return numbers.length === 1 ? { calendar, era, year: numbers[0] } : null;
+  }
+  if (numbers.length === 1) return { calendar, era, monthIndex, year: numbers[0] };
+  if (numbers.length === 2) return { calendar, era, monthIndex, day: numbers[0], year: numbers[1] };
+  return null;
+}
+
+function toRange(parts: DateParts, fallback: CalendarLike): NormalizedRange | null {
+  const calendar = parts.calendar ?? fallback;
+  const era = parts.era;
+  const absoluteYear =
+    !era ? parts.year
+    : era.countsBackward ? era.startYear - parts.year
+    : era.startYear + parts.year - 1;
+
+  const yearStart = calendar.epochOffset + absoluteYear * calendar.daysPerYear;
+  let range: TemporalRange = { start: yearStart, end: yearStart + calendar.daysPerYear };
+
+  if (parts.monthIndex !== undefined) {
+    const month = calendar.months[parts.monthIndex];
+    const monthStart =
+      yearStart + calendar.months.slice(0, parts.monthIndex).reduce((sum, m) => sum + m.days, 0);
+    range = { start: monthStart, end: monthStart + month.days };
+
+    if (parts.day !== undefined) {
+      if (parts.day < 1 || parts.day > month.days) return null;
+      range = { start: monthStart + parts.day - 1, end: monthStart + parts.day };
+    }
+  }
+
+  return { ...range, calendarId: calendar._id };
+}
+
+/**
+ * Parse a free-text temporal value ("12 Frostmoon 1021 AR", "1020-1025 AR", "Year 3") against
+ * the project's calendars. The first calendar is the default for values that name no era or
+ * month. Returns null for values that cannot be placed, such as relative bounds.
+ */
+export function parseTemporalValue(
+  value: string,
+  calendars: CalendarLike[]
+): NormalizedRange | null {
+  const fallback = calendars[0] ?? FALLBACK_CALENDAR;
+  const text = value.trim().replace(/^between\s+/i, '');
+  if (!text) return null;
+
+  const sides = text.split(/\s+(?:to|until|through|and)\s+|\s*[-–—]\s*(?=\d)/i);
+  if (sides.length > 2) return null;
+
+  const first = parseParts(sides[0], calendars);
+  if (!first) return null;
+  if (sides.length === 1) return toRange(first, fallback);
+
+  const second = parseParts(sides[1], calendars);
+  if (!second) return null;
+  // "1020-1025 AR" names the era once; both ends share it.
+  const start = toRange(
+    { ...first, era: first.era ?? second.era, calendar: first.calendar ?? second.calendar },
+    fallback
+  );
+  const end = toRange(
+    { ...second, era: second.era ?? first.era, calendar: second.calendar ?? first.calendar },
+    fallback
+  );
+  if (!start || !end || end.end < start.start) return null;
+
+  return { start: start.start, end: end.end, calendarId: start.calendarId };
+}
+
+type TemporalBound = NonNullable<Doc<'facts'>['temporalBound']>;
+
+export function normalizeTemporalBound(
+  bound: Pick<TemporalBound, 'type' | 'value'>,
+  calendars: CalendarLike[]
+): TemporalBound {
+  const range = parseTemporalValue(bound.value, calendars);
+  if (!range) return { type: bound.type, value: bound.value };
+  return {
+    type: bound.type,
+    value: bound.value,
+    start: range.start,
+    end: range.end,
+    ...(range.calendarId && { calendarId: range.calendarId }),
+  };
+}
+
+/** The project's calendars, default first. */
+export async function loadCalendars(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<'projects'>
+): Promise<Doc<'calendars'>[]> {
+  const calendars = await ctx.db
+    .query('calendars')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .collect();
+  return calendars.toSorted((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/** Re-parse every temporal bound in a project after its calendars change. */
+export async function renormalizeProjectFacts(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>
+): Promise<void> {
+  const calendars = await loadCalendars(ctx, projectId);
+  const facts = await ctx.db
+    .query('facts')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .collect();
+
+  for (const fact of facts) {
+    if (!fact.temporalBound) continue;
+    const normalized = normalizeTemporalBound(fact.temporalBound, calendars);
+    if (
+      normalized.start !== fact.temporalBound.start ||
+      normalized.end !== fact.temporalBound.end ||
+      normalized.calendarId !== fact.temporalBound.calendarId
+    ) {
+      await ctx.db.patch(fact._id, { temporalBound: normalized });
+    }
+  }
+}
+
+export type DatedSource = TemporalRange & {
+  label: string;
+  factId?: Id<'facts'>;
+  documentId?: Id<'documents'>;
+  evidence?: string;
+};
+
+/**
+ * When an event happened: its confirmed "date" attribute if set, otherwise the earliest
+ * temporal bound among its facts.
+ */
+export function resolveEventDate(
+  dateAttribute:
+    | { value: AttributeValue; documentId?: Id<'documents'>; evidenceSnippet?: string }
+    | undefined,
+  facts: Doc<'facts'>[],
+  calendars: CalendarLike[]
+): DatedSource | null {
+  if (dateAttribute && typeof dateAttribute.value === 'string') {
+    const range = parseTemporalValue(dateAttribute.value, calendars);
+    if (range) {
+      return {
+        start: range.start,
+        end: range.end,
+        label: dateAttribute.value,
+        documentId: dateAttribute.documentId,
+        evidence: dateAttribute.evidenceSnippet,
+      };
+    }
+  }
+
+  let earliest: DatedSource | null = null;
+  for (const fact of facts) {
+    const bound = fact.temporalBound;
+    if (bound?.start === undefined || bound.end === undefined) continue;
+    if (earliest && earliest.start <= bound.start) continue;
+    earliest = {
+      start: bound.start,
+      end: bound.end,
+      label: bound.value,
+      factId: fact._id,
+      documentId: fact.documentId,
+      evidence: fact.evidenceSnippet,
+    };
+  }
+  return earliest;
+}
+
+const DEATH_PREDICATES = new Set([
+  'died',
+  'died_on',
+  'died_in',
+  'died_at',
+  'death',
+  'death_date',
+  'date_of_death',
+  'killed',
+  'killed_in',
+  'was_killed',
+  'slain',
+  'slain_in',
+  'was_slain',
+  'perished',
+  'perished_in',
+]);
+
+/**
+ * When a character died, from facts like "died in 1021 AR" or "was slain at the Battle of
+ * Ashford" (dated through the named event). The earliest death wins.
+ */
+export function resolveDeath(
+  facts: Doc<'facts'>[],
+  eventDatesByName: Map<string, DatedSource>
+): DatedSource | null {
+  let earliest: DatedSource | null = null;
+  for (const fact of facts) {
+    if (!DEATH_PREDICATES.has(normalizePredicate(fact.predicate))) continue;
+
+    const bound = fact.temporalBound;
+    const event = eventDatesByName.get(fact.object.trim().toLowerCase());
+    const range =
+      bound?.start !== undefined && bound.end !== undefined ?
+        { start: bound.start, end: bound.end, label: bound.value }
+      : event ? { start: event.start, end: event.end, label: `at ${fact.object}` }
+      : null;
+    if (!range || (earliest && earliest.start <= range.start)) continue;
+
+    earliest = {
+      ...range,
+      factId: fact._id,
+      documentId: fact.documentId,
+      evidence: fact.evidenceSnippet,
+    };
+  }
+  return earliest;
+}
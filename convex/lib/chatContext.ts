@@ -0,0 +1,233 @@
+import { v, type Infer } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+import { mentionsEntity } from './mentions';
+import type { ProjectRole } from './projectAccess';
+import { isDocumentRevealed, isEntityRevealed, isFactRevealed } from './reveal';
+
+// Per-question canon retrieval for Vellum chat. Entities the question names (or that the name
+// search surfaces) bring their confirmed facts, and the document search adds passages. Every
+// source gets a marker such as [E1] or [D2] that the model cites and the client links back to.
+// Players only ever see what lib/reveal lets them see.
+
+export const chatCitationValidator = v.union(
+  v.object({
+    marker: v.string(),
+    targetType: v.literal('entity'),
+    entityId: v.id('entities'),
+    label: v.string(),
+  }),
+  v.object({
+    marker: v.string(),
+    targetType: v.literal('document'),
+    documentId: v.id('documents'),
+    label: v.string(),
+  })
+);
+
+export type ChatCitation = Infer<typeof chatCitationValidator>;
+
+export type ChatContext = {
+  projectName: string;
+  formattedContext: string;
+  citations: ChatCitation[];
+};
+
+const MAX_ENTITIES = 6;
+const MAX_FACTS_PER_ENTITY = 10;
+const MAX_PASSAGES = 3;
+const PASSAGE_CHARS = 600;
+// Convex search only considers the first 16 terms of a query.
+const MAX_SEARCH_TERMS = 16;
+
+const STOP_WORDS = new Set([
+  'about',
+  'and',
+  'are',
+  'can',
+  'did',
+  'does',
+  'for',
+  'from',
+  'has',
+  'have',
+  'how',
+  'into',
+  'tell',
+  'that',
+  'the',
+  'their',
+  'them',
+  'they',
+  'this',
+  'was',
+  'were',
+  'what',
+  'when',
+  'where',
+  'which',
+  'who',
+  'why',
+  'with',
+  'you',
+]);
+
+function searchTerms(question: string): string[] {
+  const words = question.toLowerCase().match(/[\p{L}\p{N}'-]+/gu) ?? [];
+  return [...new Set(words.filter((word) => word.length >= 3 && !STOP_WORDS.has(word)))].slice(
+    0,
+    MAX_SEARCH_TERMS
+  );
+}
+
+/** A window of the document around the first hit, trimmed to word boundaries. */
+function extractPassage(content: string, needles: string[]): string {
+  const contentLower = content.toLowerCase();
+  const hit =
+    needles
+      .map((needle) => contentLower.indexOf(needle.toLowerCase()))
+      .filter((index) => index >= 0)
+      .toSorted((a, b) => a - b)[0] ?? 0;
+
+  let start = Math.max(0, hit - PASSAGE_CHARS / 3);
+  let end = Math.min(content.length, start + PASSAGE_CHARS);
+  if (start > 0) start = content.indexOf(' ', start) + 1 || start;
+  if (end < content.length) end = content.lastIndexOf(' ', end) || end;
+
+  const passage = content.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${passage}${end < content.length ? '…' : ''}`;
+}
+
+export async function buildChatContext(
+  ctx: QueryCtx,
+  project: Doc<'projects'>,
+  role: ProjectRole,
+  question: string
+): Promise<ChatContext> {
+  const playerOnly = role === 'player';
+  const terms = searchTerms(question);
+
+  const confirmed = await ctx.db
+    .query('entities')
+    .withIndex('by_project_status', (q) => q.eq('projectId', project._id).eq('status', 'confirmed'))
+    .collect();
+  const visible = playerOnly ? confirmed.filter(isEntityRevealed) : confirmed;
+  const visibleIds = new Set(visible.map((entity) => entity._id));
+
+  const nameHits =
+    terms.length > 0 ?
+      await ctx.db
+        .query('entities')
+        .withSearchIndex('search_name', (q) =>
+          q.search('name', terms.join(' ')).eq('projectId', project._id)
+        )
+        .take(MAX_ENTITIES * 2)
+    : [];
+
+  const selected = new Map<Id<'entities'>, Doc<'entities'>>();
+  for (const entity of [
+    ...visible.filter((entity) => mentionsEntity(question, entity)),
+    ...nameHits.filter((entity) => visibleIds.has(entity._id)),
+  ]) {
+    if (selected.size >= MAX_ENTITIES) break;
+    selected.set(entity._id, entity);
+  }
+
+  const documentHits =
+    terms.length > 0 ?
+      await ctx.db
+        .query('documents')
+        .withSearchIndex('search_content', (q) =>
+          q.search('content', terms.join(' ')).eq('projectId', project._id)
+        )
+        .take(MAX_PASSAGES * 2)
+    : [];
+  const passageDocuments = (
+    playerOnly ?
+      documentHits.filter(isDocumentRevealed)
+    : documentHits).slice(0, MAX_PASSAGES);
+
+  const citations: ChatCitation[] = [];
+  const documentMarkers = new Map<Id<'documents'>, string>();
+  const documentCache = new Map<Id<'documents'>, Doc<'documents'> | null>();
+
+  const getDocument = async (documentId: Id<'documents'>) => {
+    if (!documentCache.has(documentId)) {
+      documentCache.set(documentId, await ctx.db.get(documentId));
+    }
+    return documentCache.get(documentId) ?? null;
+  };
+
+  const citeDocument = (document: Doc<'documents'>): string => {
+    let marker = documentMarkers.get(document._id);
+    if (!marker) {
+      marker = `D${documentMarkers.size + 1}`;
+      documentMarkers.set(document._id, marker);
+      citations.push({
+        marker,
+        targetType: 'document',
+        documentId: document._id,
+        label: document.title,
+      });
+    }
+    return marker;
+  };
+
+  // Passages are cited first so they get the low document numbers.
+  const passageSections = passageDocuments.map((document) => {
+    documentCache.set(document._id, document);
+    const marker = citeDocument(document);
+    const needles = [...[...selected.values()].map((entity) => entity.name), ...terms];
+    return `[${marker}] ${document.title}\n"${extractPassage(document.content ?? '', needles)}"`;
+  });
+
+  const entitySections: string[] = [];
+  for (const entity of selected.values()) {
+    const marker = `E${entitySections.length + 1}`;
+    citations.push({ marker, targetType: 'entity', entityId: entity._id, label: entity.name });
+
+    let section = `[${marker}] ${entity.name} (${entity.type})`;
+    if (entity.aliases.length > 0) section += ` — also known as ${entity.aliases.join(', ')}`;
+    if (entity.description) section += `\n${entity.description}`;
+
+    const facts = await ctx.db
+      .query('facts')
+      .withIndex('by_entity', (q) => q.eq('entityId', entity._id).eq('status', 'confirmed'))
+      .collect();
+
+    let factCount = 0;
+    for (const fact of facts) {
+      if (factCount >= MAX_FACTS_PER_ENTITY) break;
+      const document = fact.documentId ? await getDocument(fact.documentId) : null;
+      if (playerOnly && !isFactRevealed(fact, entity, document)) continue;
+
+      section += `\n- ${fact.predicate.replace(/_/g, ' ')}: ${fact.object}`;
+      if (fact.temporalBound) section += ` (${fact.temporalBound.value})`;
+      if (document && (!playerOnly || isDocumentRevealed(document)))
+        section += ` [${citeDocument(document)}]`;
+      factCount++;
+    }
+
+    entitySections.push(section);
+  }
+
+  let formattedContext = `# ${project.name}\n`;
+  if (entitySections.length > 0) {
+    formattedContext += `\n## Entities\n\n${entitySections.join('\n\n')}\n`;
+  }
+  if (passageSections.length > 0) {
+    formattedContext += `\n## Document Passages\n\n${passageSections.join('\n\n')}\n`;
+  }
+  // Documents cited only as fact sources still need a title the model can refer to.
+  const passageIds = new Set(passageDocuments.map((document) => document._id));
+  const sourceLines = citations
+    .filter(
+      (citation) => citation.targetType === 'document' && !passageIds.has(citation.documentId)
+    )
+    .map((citation) => `[${citation.marker}] ${citation.label}`);
+  if (sourceLines.length > 0) {
+    formattedContext += `\n## Sources\n\n${sourceLines.join('\n')}\n`;
+  }
+
+  return { projectName: project.name, formattedContext, citations };
+}
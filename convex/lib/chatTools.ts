@@ -0,0 +1,364 @@
+import { v, type Infer } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+import { roleCanEdit, roleCanReadRevealed, type ProjectRole } from './projectAccess';
+import { isEntityRevealed, isFactRevealed } from './reveal';
+
+// Tools Vellum can call during a project chat. Lookups read canon the way chat retrieval does
+// (players only see what is revealed); proposals never touch canon directly but are filed as
+// pending canonProposals for an editor to confirm from the review queue.
+
+export const canonChangeValidator = v.union(
+  v.object({
+    type: v.literal('fact'),
+    predicate: v.string(),
+    object: v.string(),
+    // A confirmed fact the new one corrects; it is rejected when the proposal is confirmed.
+    replacesFactId: v.optional(v.id('facts')),
+  }),
+  v.object({
+    type: v.literal('description'),
+    description: v.string(),
+  }),
+  v.object({
+    type: v.literal('aliases'),
+    aliases: v.array(v.string()),
+  })
+);
+
+export type CanonChange = Infer<typeof canonChangeValidator>;
+
+export type ChatToolCall = {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+};
+
+export type ChatToolDefinition = {
+  type: 'function';
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+};
+
+const MAX_SEARCH_RESULTS = 8;
+const MAX_FACT_RESULTS = 30;
+const MAX_VALUE_LENGTH = 2000;
+
+const entityIdParameter = {
+  type: 'string',
+  description: 'Entity id as returned by search_entities.',
+};
+
+const reasonParameter = {
+  type: 'string',
+  description: "Why the change is proposed, in the user's words where possible.",
+};
+
+const LOOKUP_TOOLS: ChatToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'search_entities',
+      description: 'Find entities in the project by name or alias. Returns ids for other tools.',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string', description: 'Name or alias to look up.' } },
+        required: ['query'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_entity_facts',
+      description: 'List the confirmed facts recorded for an entity, with their ids.',
+      parameters: {
+        type: 'object',
+        properties: { entityId: entityIdParameter },
+        required: ['entityId'],
+      },
+    },
+  },
+];
+
+const PROPOSAL_TOOLS: ChatToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'propose_fact',
+      description:
+        'Propose a new fact about an entity. If it corrects an existing fact, pass that fact id as replacesFactId. The user confirms it later in the review queue.',
+      parameters: {
+        type: 'object',
+        properties: {
+          entityId: entityIdParameter,
+          predicate: { type: 'string', description: 'snake_case attribute, e.g. "age".' },
+          object: { type: 'string', description: 'The value, e.g. "34".' },
+          replacesFactId: { type: 'string', description: 'Id of the fact this one corrects.' },
+          reason: reasonParameter,
+        },
+        required: ['entityId', 'predicate', 'object'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'propose_description',
+      description:
+        "Propose a replacement for an entity's description. The user confirms it later in the review queue.",
+      parameters: {
+        type: 'object',
+        properties: {
+          entityId: entityIdParameter,
+          description: { type: 'string', description: 'The full new description.' },
+          reason: reasonParameter,
+        },
+        required: ['entityId', 'description'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'propose_aliases',
+      description:
+        "Propose names to merge into an entity's aliases. The user confirms them later in the review queue.",
+      parameters: {
+        type: 'object',
+        properties: {
+          entityId: entityIdParameter,
+          aliases: { type: 'array', items: { type: 'string' } },
+          reason: reasonParameter,
+        },
+        required: ['entityId', 'aliases'],
+      },
+    },
+  },
+];
+
+/** Players and viewers can look things up; only editors get the proposal tools. */
+export function chatToolsForRole(role: ProjectRole): ChatToolDefinition[] {
+  if (!roleCanReadRevealed(role)) return [];
+  return roleCanEdit(role) ? [...LOOKUP_TOOLS, ...PROPOSAL_TOOLS] : LOOKUP_TOOLS;
+}
+
+type ToolScope = {
+  userId: Id<'users'>;
+  project: Doc<'projects'>;
+  role: ProjectRole;
+};
+
+type ToolResult = Record<string, unknown>;
+
+function parseArguments(raw: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ?
+        (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function readString(args: Record<string, unknown>, key: string): string | null {
+  const value = args[key];
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, MAX_VALUE_LENGTH) : null;
+}
+
+async function findEntity(
+  ctx: MutationCtx,
+  { project, role }: ToolScope,
+  rawId: string | null
+): Promise<Doc<'entities'> | null> {
+  const entityId = rawId ? ctx.db.normalizeId('entities', rawId) : null;
+  const entity = entityId ? await ctx.db.get(entityId) : null;
+  if (!entity || entity.projectId !== project._id || entity.status !== 'confirmed') return null;
+  if (role === 'player' && !isEntityRevealed(entity)) return null;
+  return entity;
+}
+
+function describeEntity(entity: Doc<'entities'>) {
+  return {
+    id: entity._id,
+    name: entity.name,
+    type: entity.type,
+    aliases: entity.aliases,
+    description: entity.description ?? null,
+    status: entity.status,
+  };
+}
+
+async function searchEntities(ctx: MutationCtx, scope: ToolScope, args: Record<string, unknown>) {
+  const search = readString(args, 'query');
+  if (!search) return { error: 'query is required' };
+
+  const needle = search.toLowerCase();
+  // Entities awaiting review aren't canon yet, so the model never sees them.
+  const entities = await ctx.db
+    .query('entities')
+    .withIndex('by_project_status', (q) =>
+      q.eq('projectId', scope.project._id).eq('status', 'confirmed')
+    )
+    .collect();
+  const matches = entities
+    .filter((entity) => scope.role !== 'player' || isEntityRevealed(entity))
+    .filter((entity) =>
+      [entity.name, ...entity.aliases].some((name) => name.toLowerCase().includes(needle))
+    )
+    .slice(0, MAX_SEARCH_RESULTS);
+
+  return { entities: matches.map(describeEntity) };
+}
+
+async function getEntityFacts(ctx: MutationCtx, scope: ToolScope, args: Record<string, unknown>) {
+  const entity = await findEntity(ctx, scope, readString(args, 'entityId'));
+  if (!entity) return { error: 'Entity not found' };
+
+  const facts = await ctx.db
+    .query('facts')
+    .withIndex('by_entity', (q) => q.eq('entityId', entity._id).eq('status', 'confirmed'))
+    .take(MAX_FACT_RESULTS);
+
+  const visible: Doc<'facts'>[] = [];
+  for (const fact of facts) {
+    if (scope.role === 'player') {
+      const document = fact.documentId ? await ctx.db.get(fact.documentId) : null;
+      if (!isFactRevealed(fact, entity, document)) continue;
+    }
+    visible.push(fact);
+  }
+
+  return {
+    entity: entity.name,
+    facts: visible.map((fact) => ({
+      id: fact._id,
+      predicate: fact.predicate,
+      object: fact.object,
+      temporalBound: fact.temporalBound?.value ?? null,
+    })),
+  };
+}
+
+async function fileProposal(
+  ctx: MutationCtx,
+  { userId, project }: ToolScope,
+  entity: Doc<'entities'>,
+  change: CanonChange,
+  reason: string | null
+): Promise<ToolResult> {
+  const proposalId = await ctx.db.insert('canonProposals', {
+    projectId: project._id,
+    entityId: entity._id,
+    change,
+    reason: reason ?? undefined,
+    status: 'pending',
+    proposedBy: userId,
+    createdAt: Date.now(),
+  });
+  return {
+    proposalId,
+    status: 'pending',
+    message: 'Filed for review. Nothing changes until the user confirms it in the review queue.',
+  };
+}
+
+async function proposeFact(ctx: MutationCtx, scope: ToolScope, args: Record<string, unknown>) {
+  const entity = await findEntity(ctx, scope, readString(args, 'entityId'));
+  if (!entity) return { error: 'Entity not found' };
+
+  const predicate = readString(args, 'predicate')
+    ?.toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '_')
+    .replace(/^_+|_+$/g, '');
+  const object = readString(args, 'object');
+  if (!predicate || !object) return { error: 'predicate and object are required' };
+
+  let replacesFactId: Id<'facts'> | undefined;
+  const rawReplaces = readString(args, 'replacesFactId');
+  if (rawReplaces) {
+    const factId = ctx.db.normalizeId('facts', rawReplaces);
+    const replaced = factId ? await ctx.db.get(factId) : null;
+    if (!replaced || replaced.entityId !== entity._id) {
+      return { error: 'replacesFactId must be a fact of the same entity' };
+    }
+    replacesFactId = replaced._id;
+  }
+
+  return await fileProposal(
+    ctx,
+    scope,
+    entity,
+    { type: 'fact', predicate, object, replacesFactId },
+    readString(args, 'reason')
+  );
+}
+
+async function proposeDescription(
+  ctx: MutationCtx,
+  scope: ToolScope,
+  args: Record<string, unknown>
+) {
+  const entity = await findEntity(ctx, scope, readString(args, 'entityId'));
+  if (!entity) return { error: 'Entity not found' };
+
+  const description = readString(args, 'description');
+  if (!description) return { error: 'description is required' };
+
+  return await fileProposal(
+    ctx,
+    scope,
+    entity,
+    { type: 'description', description },
+    readString(args, 'reason')
+  );
+}
+
+async function proposeAliases(ctx: MutationCtx, scope: ToolScope, args: Record<string, unknown>) {
+  const entity = await findEntity(ctx, scope, readString(args, 'entityId'));
+  if (!entity) return { error: 'Entity not found' };
+
+  const known = new Set([entity.name, ...entity.aliases].map((name) => name.toLowerCase()));
+  const aliases = [
+    ...new Set(
+      (Array.isArray(args.aliases) ? args.aliases : [])
+        .filter((alias): alias is string => typeof alias === 'string')
+        .map((alias) => alias.trim())
+        .filter((alias) => alias && !known.has(alias.toLowerCase()))
+    ),
+  ];
+  if (aliases.length === 0) return { error: `No new aliases for ${entity.name}` };
+
+  return await fileProposal(
+    ctx,
+    scope,
+    entity,
+    { type: 'aliases', aliases },
+    readString(args, 'reason')
+  );
+}
+
+/** Run one tool call and return the JSON string handed back to the model. */
+export async function executeChatTool(
+  ctx: MutationCtx,
+  scope: ToolScope,
+  name: string,
+  rawArguments: string
+): Promise<string> {
+  const args = parseArguments(rawArguments);
+  if (!args) return JSON.stringify({ error: 'Arguments must be a JSON object' });
+
+  const allowed = chatToolsForRole(scope.role).some((tool) => tool.function.name === name);
+  if (!allowed) return JSON.stringify({ error: `Unknown tool: ${name}` });
+
+  const result =
+    name === 'search_entities' ? await searchEntities(ctx, scope, args)
+    : name === 'get_entity_facts' ? await getEntityFacts(ctx, scope, args)
+    : name === 'propose_fact' ? await proposeFact(ctx, scope, args)
+    : name === 'propose_description' ? await proposeDescription(ctx, scope, args)
+    : await proposeAliases(ctx, scope, args);
+
+  return JSON.stringify(result);
+}
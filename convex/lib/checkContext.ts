@@ -0,0 +1,178 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+import { firstMention } from './mentions';
+
+// Canon selection for continuity checks. Entities the checked text names come first, then their
+// confirmed relationship neighbours, then entities whose facts the embedding search ranked close
+// to the document. Sections are added in that order until the token budget is spent, so a large
+// campaign only sends the canon a passage can actually contradict.
+
+export const CANON_TOKEN_BUDGET = 6000;
+// Facts pulled in by embedding rank alone, on top of the named entities and their neighbours.
+export const MAX_RETRIEVED_FACTS = 60;
+
+export type CanonContextEntity = {
+  id: Id<'entities'>;
+  name: string;
+  type: string;
+  facts: Array<{
+    id: Id<'facts'>;
+    predicate: string;
+    object: string;
+    evidence: string;
+    documentTitle: string;
+  }>;
+};
+
+export type CanonContext = {
+  entities: CanonContextEntity[];
+  formattedContext: string;
+};
+
+type CanonFact = CanonContextEntity['facts'][number];
+
+/** Rough token count for budgeting; English prose averages about four characters a token. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function formatEntityHeader(entity: Pick<CanonContextEntity, 'name' | 'type'>): string {
+  return `\n## Entity: ${entity.name}\nType: ${entity.type}\nFacts:\n`;
+}
+
+function formatFact(fact: CanonFact): string {
+  return `- ${fact.predicate} ${fact.object} [${fact.documentTitle}]\n`;
+}
+
+export function formatCanonContext(entities: CanonContextEntity[]): string {
+  return entities
+    .map((entity) => formatEntityHeader(entity) + entity.facts.map(formatFact).join(''))
+    .join('');
+}
+
+type Candidate = { entity: Doc<'entities'>; facts: Doc<'facts'>[] };
+
+/**
+ * Select the canon to check `text` against. Without `text`, every confirmed entity is a
+ * candidate; `factIds` ranks facts by relevance and brings in the best of them from entities
+ * the text does not name.
+ */
+export async function buildCanonContext(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>,
+  options: { text?: string; factIds?: Id<'facts'>[]; tokenBudget?: number } = {}
+): Promise<CanonContext> {
+  const { text, factIds, tokenBudget = CANON_TOKEN_BUDGET } = options;
+
+  const entities = await ctx.db
+    .query('entities')
+    .withIndex('by_project_status', (q) => q.eq('projectId', projectId).eq('status', 'confirmed'))
+    .collect();
+  const entityById = new Map(entities.map((entity) => [entity._id, entity]));
+  const rank = new Map((factIds ?? []).map((factId, index) => [factId, index]));
+
+  const loadFacts = async (entityId: Id<'entities'>) => {
+    const facts = await ctx.db
+      .query('facts')
+      .withIndex('by_entity', (q) => q.eq('entityId', entityId).eq('status', 'confirmed'))
+      .collect();
+    // Ranked facts lead, so the budget cuts the ones furthest from the text.
+    return facts.toSorted((a, b) => (rank.get(a._id) ?? Infinity) - (rank.get(b._id) ?? Infinity));
+  };
+
+  const candidates: Candidate[] = [];
+  const seen = new Set<Id<'entities'>>();
+  const addCandidate = async (entity: Doc<'entities'>) => {
+    if (seen.has(entity._id)) return;
+    seen.add(entity._id);
+    candidates.push({ entity, facts: await loadFacts(entity._id) });
+  };
+
+  if (text !== undefined) {
+    const mentioned = entities
+      .map((entity) => ({ entity, at: firstMention(text, entity) }))
+      .filter(({ at }) => at >= 0)
+      .toSorted((a, b) => a.at - b.at)
+      .map(({ entity }) => entity);
+    for (const entity of mentioned) await addCandidate(entity);
+
+    for (const entity of mentioned) {
+      const outgoing = await ctx.db
+        .query('relationships')
+        .withIndex('by_source', (q) => q.eq('sourceEntityId', entity._id).eq('status', 'confirmed'))
+        .collect();
+      const incoming = await ctx.db
+        .query('relationships')
+        .withIndex('by_target', (q) => q.eq('targetEntityId', entity._id).eq('status', 'confirmed'))
+        .collect();
+      for (const relationship of [...outgoing, ...incoming]) {
+        const otherId =
+          relationship.sourceEntityId === entity._id ?
+            relationship.targetEntityId
+          : relationship.sourceEntityId;
+        const neighbour = entityById.get(otherId);
+        if (neighbour) await addCandidate(neighbour);
+      }
+    }
+  } else if (!factIds) {
+    for (const entity of entities) await addCandidate(entity);
+  }
+
+  if (factIds) {
+    const retrieved = new Map<Id<'entities'>, Candidate>();
+    let retrievedCount = 0;
+    for (const factId of factIds) {
+      if (retrievedCount >= MAX_RETRIEVED_FACTS) break;
+      const fact = await ctx.db.get(factId);
+      if (fact?.projectId !== projectId || fact.status !== 'confirmed' || !fact.entityId) continue;
+      if (seen.has(fact.entityId)) continue;
+      const entity = entityById.get(fact.entityId);
+      if (!entity) continue;
+      const candidate = retrieved.get(entity._id) ?? { entity, facts: [] };
+      candidate.facts.push(fact);
+      retrieved.set(entity._id, candidate);
+      retrievedCount++;
+    }
+    candidates.push(...retrieved.values());
+  }
+
+  const documents = await ctx.db
+    .query('documents')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .collect();
+  const documentTitleById = new Map(documents.map((doc) => [doc._id, doc.title]));
+
+  const included: CanonContextEntity[] = [];
+  let tokensUsed = 0;
+
+  for (const { entity, facts } of candidates) {
+    const section: CanonContextEntity = {
+      id: entity._id,
+      name: entity.name,
+      type: entity.type,
+      facts: [],
+    };
+    let sectionTokens = estimateTokens(formatEntityHeader(section));
+
+    for (const fact of facts) {
+      const contextFact: CanonFact = {
+        id: fact._id,
+        predicate: fact.predicate,
+        object: fact.object,
+        evidence: fact.evidenceSnippet ?? '',
+        documentTitle:
+          fact.documentId ? (documentTitleById.get(fact.documentId) ?? 'Unknown') : 'Unknown',
+      };
+      const factTokens = estimateTokens(formatFact(contextFact));
+      if (tokensUsed + sectionTokens + factTokens > tokenBudget) break;
+      section.facts.push(contextFact);
+      sectionTokens += factTokens;
+    }
+
+    if (section.facts.length === 0) continue;
+    included.push(section);
+    tokensUsed += sectionTokens;
+  }
+
+  return { entities: included, formattedContext: formatCanonContext(included) };
+}
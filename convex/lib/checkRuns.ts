@@ -0,0 +1,56 @@
+import { v, type Infer } from 'convex/values';
+
+// Shapes stored on each continuity check run, shared by the schema, the check action and the
+// history panel that compares two runs of the same document.
+
+export const checkSummaryValidator = v.object({
+  totalIssues: v.number(),
+  errors: v.number(),
+  warnings: v.number(),
+  checkedEntities: v.array(v.string()),
+});
+
+export const checkIssueValidator = v.object({
+  type: v.union(v.literal('contradiction'), v.literal('timeline'), v.literal('ambiguity')),
+  severity: v.union(v.literal('error'), v.literal('warning')),
+  title: v.string(),
+});
+
+export const checkUsageValidator = v.object({
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+  totalTokens: v.number(),
+});
+
+export type CheckSummary = Infer<typeof checkSummaryValidator>;
+export type CheckIssue = Infer<typeof checkIssueValidator>;
+export type CheckUsage = Infer<typeof checkUsageValidator>;
+
+export type CheckRunComparison = {
+  added: CheckIssue[];
+  resolved: CheckIssue[];
+  unchanged: CheckIssue[];
+  addedEntities: string[];
+  droppedEntities: string[];
+};
+
+/** What changed between an earlier and a later run. Issues are matched by title. */
+export function compareCheckRuns(
+  before: { issues?: CheckIssue[]; summary?: CheckSummary },
+  after: { issues?: CheckIssue[]; summary?: CheckSummary }
+): CheckRunComparison {
+  const beforeIssues = before.issues ?? [];
+  const afterIssues = after.issues ?? [];
+  const beforeTitles = new Set(beforeIssues.map((issue) => issue.title));
+  const afterTitles = new Set(afterIssues.map((issue) => issue.title));
+  const beforeEntities = new Set(before.summary?.checkedEntities ?? []);
+  const afterEntities = new Set(after.summary?.checkedEntities ?? []);
+
+  return {
+    added: afterIssues.filter((issue) => !beforeTitles.has(issue.title)),
+    resolved: beforeIssues.filter((issue) => !afterTitles.has(issue.title)),
+    unchanged: afterIssues.filter((issue) => beforeTitles.has(issue.title)),
+    addedEntities: [...afterEntities].filter((name) => !beforeEntities.has(name)),
+    droppedEntities: [...beforeEntities].filter((name) => !afterEntities.has(name)),
+  };
+}
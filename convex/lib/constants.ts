@@ -9,3 +9,35 @@ export const MIN_PASSWORD_LENGTH = 8;
 
 /** Maximum password length */
 export const MAX_PASSWORD_LENGTH = 128;
+
+/** Built-in entity types every project has */
+export const BUILT_IN_ENTITY_TYPES = ['character', 'location', 'item', 'concept', 'event'] as const;
+
+/** Icon keys a project-defined entity type can use */
+export const ENTITY_TYPE_ICONS = [
+  'user',
+  'users',
+  'map-pin',
+  'castle',
+  'landmark',
+  'package',
+  'gem',
+  'swords',
+  'shield',
+  'crown',
+  'lightbulb',
+  'sparkles',
+  'flame',
+  'scroll',
+  'book-open',
+  'skull',
+  'ship',
+  'flag',
+  'calendar',
+] as const;
+
+/** Maximum length of a custom entity type name */
+export const MAX_ENTITY_TYPE_NAME_LENGTH = 40;
+
+/** Maximum size of text stored inline in a document; longer text stays in storage (900KB) */
+export const MAX_INLINE_CONTENT_BYTES = 900 * 1024;
@@ -0,0 +1,98 @@
+import type { Doc, Id } from '../_generated/dataModel';
+
+// Rule-based contradiction detection over facts. A predicate is single-valued when an entity
+// can only hold one object for it at a time ("age", "born_in"), so two different objects for
+// the same entity are a contradiction that needs no model to spot.
+
+export const DEFAULT_SINGLE_VALUED_PREDICATES = [
+  'age',
+  'born_in',
+  'birthplace',
+  'birth_date',
+  'died_in',
+  'death_date',
+  'eye_color',
+  'hair_color',
+  'height',
+  'species',
+  'gender',
+  'mother',
+  'father',
+];
+
+export const MAX_SINGLE_VALUED_PREDICATES = 100;
+
+/** Normalize a predicate the same way manual facts are stored: `Eye Color` → `eye_color`. */
+export function normalizePredicate(predicate: string): string {
+  return predicate
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function normalizeObject(object: string): string {
+  return object
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.,;:!]+$/, '');
+}
+
+export function getSingleValuedPredicates(project: Doc<'projects'>): Set<string> {
+  return new Set(
+    (project.singleValuedPredicates ?? DEFAULT_SINGLE_VALUED_PREDICATES).map(normalizePredicate)
+  );
+}
+
+type FactLike = {
+  _id: Id<'facts'>;
+  entityId?: Id<'entities'>;
+  predicate: string;
+  object: string;
+};
+
+export type FactContradiction<T extends FactLike> = {
+  entityId: Id<'entities'>;
+  predicate: string;
+  incoming: T[];
+  canon: T[];
+};
+
+/**
+ * Pair incoming facts with canon facts that give a different object for the same entity and
+ * single-valued predicate. Results are grouped per entity and predicate.
+ */
+export function findFactContradictions<T extends FactLike>(
+  incoming: T[],
+  canon: T[],
+  predicates: Set<string>
+): FactContradiction<T>[] {
+  const groups = new Map<string, FactContradiction<T>>();
+
+  for (const fact of incoming) {
+    const entityId = fact.entityId;
+    const predicate = normalizePredicate(fact.predicate);
+    if (!entityId || !predicates.has(predicate)) continue;
+    const object = normalizeObject(fact.object);
+
+    const conflicting = canon.filter(
+      (other) =>
+        other._id !== fact._id &&
+        other.entityId === entityId &&
+        normalizePredicate(other.predicate) === predicate &&
+        normalizeObject(other.object) !== object
+    );
+    if (conflicting.length === 0) continue;
+
+    const key = `${entityId}:${predicate}`;
+    const group = groups.get(key) ?? { entityId, predicate, incoming: [], canon: [] };
+    group.incoming.push(fact);
+    for (const other of conflicting) {
+      if (!group.canon.includes(other)) group.canon.push(other);
+    }
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
@@ -0,0 +1,40 @@
+import { v, type Infer } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+
+// Documents too long to store inline keep their text in file storage only. Everything that reads
+// document text streams it from there chunk by chunk, and reports how far it has got on the
+// document while it works.
+
+export const processingStageValidator = v.union(
+  v.literal('indexing'),
+  v.literal('extraction'),
+  v.literal('check')
+);
+
+export const processingProgressValidator = v.object({
+  stage: processingStageValidator,
+  completedChunks: v.number(),
+  totalChunks: v.number(),
+});
+
+export type ProcessingStage = Infer<typeof processingStageValidator>;
+export type ProcessingProgress = Infer<typeof processingProgressValidator>;
+
+/** Whether the document's text lives only in file storage. */
+export function isStoredDocument(doc: Doc<'documents'>): boolean {
+  return !doc.content && !!doc.storageId;
+}
+
+export async function deleteDocumentChunks(
+  ctx: MutationCtx,
+  documentId: Id<'documents'>
+): Promise<void> {
+  const chunks = await ctx.db
+    .query('documentChunks')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .collect();
+  for (const chunk of chunks) {
+    await ctx.db.delete(chunk._id);
+  }
+}
@@ -0,0 +1,143 @@
+import { apiError, configError } from './errors';
+
+// Embedding providers turn text into vectors for semantic search and retrieval. Providers are
+// picked with the EMBEDDING_PROVIDER env var and default to OpenRouter; the local provider needs
+// no network and always returns the same vector for the same text, so it doubles as the test
+// stand-in.
+
+export type EmbeddingProvider = {
+  /** Stored with each vector so a provider switch re-embeds instead of mixing vector spaces. */
+  name: string;
+  dimensions: number;
+  embed: (texts: string[]) => Promise<number[][]>;
+};
+
+/** Fixed by the vector index, so every provider must return vectors of this size. */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const DEFAULT_EMBEDDING_MODEL = 'openai/text-embedding-3-small';
+
+/** FNV-1a, used for feature hashing and to notice when a source's text has changed. */
+export function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map((value) => value / length);
+}
+
+/**
+ * Hashed bag of words plus character trigrams, so "ranger" and "rangers" land close together.
+ * It only captures word overlap, not meaning, but ranks the same way every time.
+ */
+export function localEmbedding(text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] {
+  const vector = Array.from<number>({ length: dimensions }).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  const addFeature = (feature: string, weight: number) => {
+    const hash = hashText(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  for (const word of words) {
+    addFeature(`w:${word}`, 1);
+    const padded = `^${word}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(`t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+
+  return normalize(vector);
+}
+
+export function createLocalEmbeddingProvider(
+  dimensions: number = EMBEDDING_DIMENSIONS
+): EmbeddingProvider {
+  return {
+    name: `local-${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map((text) => localEmbedding(text, dimensions)),
+  };
+}
+
+export function createOpenRouterEmbeddingProvider(
+  apiKey: string,
+  model: string = DEFAULT_EMBEDDING_MODEL
+): EmbeddingProvider {
+  return {
+    name: `openrouter:${model}`,
+    dimensions: EMBEDDING_DIMENSIONS,
+    embed: async (texts) => {
+      if (texts.length === 0) return [];
+
+      const response = await fetch('https://openrouter.ai/api/v1/embeddings', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': 'https://realmsync.app',
+          'X-Title': 'Realm Sync',
+        },
+        body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw apiError(response.status, 'OpenRouter API error', {
+          statusText: response.statusText,
+          errorText,
+        });
+      }
+
+      const data = (await response.json()) as {
+        data?: Array<{ index: number; embedding: number[] }>;
+      };
+      const vectors = (data.data ?? [])
+        .toSorted((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+      if (
+        vectors.length !== texts.length ||
+        vectors.some((vector) => vector.length !== EMBEDDING_DIMENSIONS)
+      ) {
+        throw apiError(500, 'Invalid embedding response from OpenRouter API', { model });
+      }
+      return vectors;
+    },
+  };
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const provider = process.env.EMBEDDING_PROVIDER ?? 'openrouter';
+  switch (provider) {
+    case 'local':
+      return createLocalEmbeddingProvider();
+    case 'openrouter': {
+      const apiKey = process.env.OPENROUTER_API_KEY;
+      if (!apiKey) {
+        throw configError('OPENROUTER_API_KEY', 'OPENROUTER_API_KEY not configured');
+      }
+      return createOpenRouterEmbeddingProvider(apiKey, process.env.EMBEDDING_MODEL);
+    }
+    default:
+      throw configError('EMBEDDING_PROVIDER', `Unknown embedding provider: ${provider}`);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
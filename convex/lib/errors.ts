@@ -70,6 +70,15 @@ const notAllowedError = (message: string, reason?: string): ConvexError<AppError
 const rateLimitError = (message: string, details?: Details): ConvexError<AppErrorData> =>
   toConvexError(buildErrorData('rate_limited', message, details));
 
+/** The message to show for an error, unwrapping the app's own errors from their JSON form. */
+function describeError(error: unknown): string {
+  if (error instanceof ConvexError) {
+    const data = error.data as { message?: unknown };
+    if (typeof data.message === 'string') return data.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
 function capitalize(value: string): string {
   return value.charAt(0).toUpperCase() + value.slice(1);
 }
@@ -85,4 +94,5 @@ export {
   notAllowedError,
   rateLimitError,
   toConvexError,
+  describeError,
 };
@@ -0,0 +1,151 @@
+import type { FunctionReference } from 'convex/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { ActionCtx, MutationCtx, QueryCtx } from '../_generated/server';
+import { conflictError, describeError, notFoundError } from './errors';
+
+// The batched background job behind project and vault imports. A job writes one stage at a
+// time, a batch per mutation, and each batch moves the job's stage and cursor in the same
+// transaction as the rows it writes, so a batch is never applied twice and a failed or stalled
+// job resumes exactly where it stopped. After the last stage, `cleanup` clears the job's id map
+// and completes it.
+
+type ImportJob = Doc<'projectImports'> | Doc<'vaultImports'>;
+type ImportJobId = ImportJob['_id'];
+type ImportJobFor<I extends ImportJobId> =
+  I extends Id<'projectImports'> ? Doc<'projectImports'> : Doc<'vaultImports'>;
+
+export type ImportProgress<J extends ImportJob> = { stage: J['stage']; cursor: number };
+
+/** The job's own functions, which a run reschedules or reports failure to. */
+export type ImportJobFunctions = {
+  run: FunctionReference<'action', 'internal', { importId: ImportJobId }>;
+  fail: FunctionReference<'mutation', 'internal', { importId: ImportJobId; error: string }>;
+};
+
+// Time one run spends importing before handing over to a fresh one.
+const RUN_BUDGET_MS = 60_000;
+// A running job that hasn't moved for this long has lost its runner and may be resumed.
+const STALLED_AFTER_MS = 10 * 60_000;
+const ID_MAP_CLEANUP_BATCH = 500;
+
+export function isStalled(job: ImportJob): boolean {
+  return job.status === 'running' && Date.now() - job.updatedAt > STALLED_AFTER_MS;
+}
+
+/**
+ * Import from the job's saved position until it is done, fails or runs out of time, then hand
+ * over to a fresh run. `start` reads what the job imports and returns the step that writes the
+ * batch at a position, or clears the id map, and returns where to continue or null to stop.
+ */
+export async function runImportJob<J extends ImportJob>(
+  ctx: ActionCtx,
+  job: J | null,
+  functions: ImportJobFunctions,
+  start: (job: J) => Promise<(progress: ImportProgress<J>) => Promise<ImportProgress<J> | null>>
+): Promise<void> {
+  if (!job || job.status !== 'running') return;
+  const importId = job._id;
+
+  try {
+    const step = await start(job);
+    const deadline = Date.now() + RUN_BUDGET_MS;
+    let progress: ImportProgress<J> | null = { stage: job.stage, cursor: job.cursor };
+
+    while (progress && Date.now() < deadline) {
+      progress = await step(progress);
+    }
+    if (progress) {
+      await ctx.scheduler.runAfter(0, functions.run, { importId });
+    }
+  } catch (error) {
+    await ctx.runMutation(functions.fail, { importId, error: describeError(error) });
+  }
+}
+
+async function takeIdMapRows(
+  ctx: MutationCtx,
+  importId: ImportJobId
+): Promise<(Doc<'projectImportIds'> | Doc<'vaultImportIds'>)[]> {
+  // Only an id of that table normalizes as one.
+  const projectImportId = ctx.db.normalizeId('projectImports', importId);
+  if (projectImportId) {
+    return await ctx.db
+      .query('projectImportIds')
+      .withIndex('by_import', (q) => q.eq('importId', projectImportId))
+      .take(ID_MAP_CLEANUP_BATCH);
+  }
+  return await ctx.db
+    .query('vaultImportIds')
+    .withIndex('by_import', (q) => q.eq('importId', importId as Id<'vaultImports'>))
+    .take(ID_MAP_CLEANUP_BATCH);
+}
+
+/**
+ * Drop a batch of the job's id map; once it is empty, mark the job completed, delete its upload
+ * and call `onComplete`. Returns where to continue, or null to stop.
+ */
+export async function clearImportIdMap<I extends ImportJobId>(
+  ctx: MutationCtx,
+  importId: I,
+  onComplete: (job: ImportJobFor<I>) => Promise<void>
+): Promise<{ stage: 'cleanup'; cursor: number } | null> {
+  const job = (await ctx.db.get(importId)) as ImportJobFor<I> | null;
+  if (!job || job.status !== 'running' || job.stage !== 'cleanup') return null;
+
+  const rows = await takeIdMapRows(ctx, importId);
+  for (const row of rows) {
+    await ctx.db.delete(row._id);
+  }
+  if (rows.length === ID_MAP_CLEANUP_BATCH) {
+    await ctx.db.patch(importId, { updatedAt: Date.now() });
+    return { stage: 'cleanup', cursor: 0 };
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(importId, { status: 'completed', updatedAt: now, completedAt: now });
+  await ctx.storage.delete(job.storageId);
+  await onComplete(job);
+  return null;
+}
+
+export async function failImportJob(
+  ctx: MutationCtx,
+  importId: ImportJobId,
+  error: string
+): Promise<void> {
+  const job = await ctx.db.get(importId);
+  if (!job || job.status !== 'running') return;
+  await ctx.db.patch(importId, { status: 'failed', error, updatedAt: Date.now() });
+}
+
+/** Pick a failed or stalled job back up from the last batch it finished. */
+export async function resumeImportJob(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  id: ImportJobId,
+  functions: ImportJobFunctions
+): Promise<void> {
+  const job = await ctx.db.get(id);
+  if (!job || job.userId !== userId) {
+    throw notFoundError('import', id);
+  }
+  if (job.status === 'completed') {
+    throw conflictError('This import has already finished.');
+  }
+  if (job.status === 'running' && !isStalled(job)) return;
+
+  await ctx.db.patch(id, { status: 'running', error: undefined, updatedAt: Date.now() });
+  await ctx.scheduler.runAfter(0, functions.run, { importId: id });
+}
+
+/** The user's own job, with whether it has stalled. */
+export async function getImportJob<I extends ImportJobId>(
+  ctx: QueryCtx,
+  userId: Id<'users'> | null,
+  id: I
+): Promise<(ImportJobFor<I> & { stalled: boolean }) | null> {
+  if (!userId) return null;
+  const job = (await ctx.db.get(id)) as ImportJobFor<I> | null;
+  if (!job || job.userId !== userId) return null;
+  return { ...job, stalled: isStalled(job) };
+}
@@ -0,0 +1,527 @@
+import { v, type Infer } from 'convex/values';
+import { strFromU8, unzipSync } from 'fflate';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { validationError } from './errors';
+
+// Converts uploaded manuscripts (Word, EPUB, HTML and PDFs with a text layer) into markdown.
+// Converters produce a list of blocks (headings, paragraphs, list items, scene breaks) so
+// chapter splitting works the same way for every format.
+
+export const manuscriptFormatValidator = v.union(
+  v.literal('docx'),
+  v.literal('epub'),
+  v.literal('html'),
+  v.literal('pdf')
+);
+
+export type ManuscriptFormat = Infer<typeof manuscriptFormatValidator>;
+
+export type ManuscriptChapter = {
+  title: string;
+  content: string;
+};
+
+/** Formats the importer accepts, for the upload input's `accept` attribute. */
+export const MANUSCRIPT_FILE_ACCEPT =
+  '.docx,.epub,.html,.htm,.xhtml,.pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/epub+zip,text/html,application/pdf';
+
+const FORMAT_BY_EXTENSION: Record<string, ManuscriptFormat> = {
+  docx: 'docx',
+  epub: 'epub',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  pdf: 'pdf',
+};
+
+const FORMAT_BY_MIME_TYPE: Record<string, ManuscriptFormat> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/epub+zip': 'epub',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/pdf': 'pdf',
+};
+
+export function detectManuscriptFormat(
+  fileName: string,
+  mimeType?: string
+): ManuscriptFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension && extension in FORMAT_BY_EXTENSION) return FORMAT_BY_EXTENSION[extension];
+  const baseType = mimeType?.split(';')[0].trim().toLowerCase();
+  return (baseType && FORMAT_BY_MIME_TYPE[baseType]) || null;
+}
+
+function fileError(message: string) {
+  return validationError('file', message);
+}
+
+// Every converter produces the same blocks, which then render to markdown.
+
+type TextBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string; prefix?: string };
+
+type Block = TextBlock | { kind: 'break' };
+
+// Stands in for a hard line break until whitespace has been collapsed.
+const LINE_BREAK = '\uE000';
+
+function normalizeInline(text: string): string {
+  return text
+    .replace(/[ \t\r\n\f ]+/g, ' ')
+    .replace(/ ?\uE000 ?/g, LINE_BREAK)
+    .trim()
+    .replace(/^\uE000+|\uE000+$/g, '');
+}
+
+function blocksToMarkdown(blocks: Block[]): string {
+  const lines: string[] = [];
+  for (const block of blocks) {
+    if (block.kind === 'break') {
+      if (lines.length > 0 && lines.at(-1) !== '***') lines.push('***');
+      continue;
+    }
+    const text = normalizeInline(block.text);
+    if (!text) continue;
+    if (block.kind === 'heading') {
+      lines.push(`${'#'.repeat(block.level)} ${text.replaceAll(LINE_BREAK, ' ')}`);
+    } else {
+      const prefix = block.prefix ?? '';
+      const continuation = prefix.startsWith('>') ? '  \n> ' : '  \n';
+      lines.push(prefix + text.replaceAll(LINE_BREAK, continuation));
+    }
+  }
+  if (lines.at(-1) === '***') lines.pop();
+  return lines.join('\n\n');
+}
+
+function emphasize(text: string, bold: boolean, italic: boolean): string {
+  const marker = (bold ? '**' : '') + (italic ? '*' : '');
+  if (!marker) return text;
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+// HTML, which also reads the chapter files inside an EPUB.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  shy: '',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code =
+        name[1] === 'x' || name[1] === 'X' ?
+          Number.parseInt(name.slice(2), 16)
+        : Number.parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ?
+          String.fromCodePoint(code)
+        : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'nav']);
+const BLOCK_TAGS = new Set([
+  'p',
+  'div',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'main',
+  'aside',
+  'figure',
+  'figcaption',
+  'pre',
+  'tr',
+  'dt',
+  'dd',
+  'body',
+]);
+
+function htmlToBlocks(html: string): Block[] {
+  const blocks: Block[] = [];
+  const lists: Array<{ ordered: boolean; count: number }> = [];
+  const emphasis: Array<{ block: TextBlock; start: number }> = [];
+  let current: TextBlock | null = null;
+  let quoteDepth = 0;
+  let skipping: string | null = null;
+  let skipDepth = 0;
+
+  function flush() {
+    if (current) blocks.push(current);
+    current = null;
+  }
+
+  function paragraph(prefix?: string): TextBlock {
+    const quote = quoteDepth > 0 ? '> '.repeat(quoteDepth) : '';
+    return { kind: 'paragraph', text: '', prefix: quote + (prefix ?? '') || undefined };
+  }
+
+  function currentBlock(): TextBlock {
+    current ??= paragraph();
+    return current;
+  }
+
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+  const tokens = body.matchAll(
+    /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([a-z][\w:-]*)([^>]*)>|([^<]+)/gi
+  );
+
+  for (const token of tokens) {
+    const [, cdata, closing, rawTag, , text] = token;
+    if (text !== undefined || cdata !== undefined) {
+      if (!skipping) currentBlock().text += decodeEntities(text ?? cdata);
+      continue;
+    }
+    if (!rawTag) continue;
+
+    const tag = rawTag.toLowerCase().replace(/^.*:/, '');
+    const selfClosing = token[0].endsWith('/>');
+
+    if (skipping) {
+      if (tag === skipping && closing) skipDepth--;
+      else if (tag === skipping && !selfClosing) skipDepth++;
+      if (skipDepth === 0) skipping = null;
+      continue;
+    }
+    if (SKIPPED_TAGS.has(tag)) {
+      if (!closing && !selfClosing) {
+        skipping = tag;
+        skipDepth = 1;
+      }
+      continue;
+    }
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      if (!closing) current = { kind: 'heading', level: Number(heading[1]), text: '' };
+      continue;
+    }
+
+    switch (tag) {
+      case 'br':
+        currentBlock().text += LINE_BREAK;
+        break;
+      case 'hr':
+        flush();
+        blocks.push({ kind: 'break' });
+        break;
+      case 'em':
+      case 'i':
+      case 'cite':
+      case 'strong':
+      case 'b': {
+        if (!closing) {
+          const block = currentBlock();
+          emphasis.push({ block, start: block.text.length });
+          break;
+        }
+        // Emphasis that spans blocks is dropped rather than left unbalanced.
+        const open = emphasis.pop();
+        if (!open || open.block !== current) break;
+        const { block, start } = open;
+        const bold = tag === 'strong' || tag === 'b';
+        block.text = block.text.slice(0, start) + emphasize(block.text.slice(start), bold, !bold);
+        break;
+      }
+      case 'blockquote':
+        flush();
+        quoteDepth = Math.max(0, quoteDepth + (closing ? -1 : 1));
+        break;
+      case 'ul':
+      case 'ol':
+        flush();
+        if (closing) lists.pop();
+        else if (!selfClosing) lists.push({ ordered: tag === 'ol', count: 0 });
+        break;
+      case 'li': {
+        flush();
+        const list = lists.at(-1);
+        if (!closing) {
+          const indent = '  '.repeat(Math.max(0, lists.length - 1));
+          const marker = list?.ordered ? `${++list.count}. ` : '- ';
+          current = paragraph(indent + marker);
+        }
+        break;
+      }
+      case 'td':
+      case 'th':
+        if (closing) currentBlock().text += ' ';
+        break;
+      default:
+        if (BLOCK_TAGS.has(tag)) flush();
+    }
+  }
+  flush();
+  return blocks;
+}
+
+export function htmlToMarkdown(html: string): string {
+  return blocksToMarkdown(htmlToBlocks(html));
+}
+
+// DOCX, read from word/document.xml.
+
+function attribute(xml: string, name: string): string | undefined {
+  return new RegExp(`${name}="([^"]*)"`).exec(xml)?.[1];
+}
+
+function isToggleOn(properties: string, tag: string): boolean {
+  const match = new RegExp(`<w:${tag}(\\s[^>]*)?/>`).exec(properties);
+  if (!match) return false;
+  const value = match[1] ? attribute(match[1], 'w:val') : undefined;
+  return value === undefined || !['0', 'false', 'off'].includes(value);
+}
+
+function headingLevelFromOutline(properties: string): number | undefined {
+  const outline = /<w:outlineLvl w:val="(\d)"/.exec(properties);
+  if (!outline) return undefined;
+  const level = Number(outline[1]) + 1;
+  return level <= 6 ? level : undefined;
+}
+
+/** Map paragraph style ids to heading levels, from their names ("heading 2", "Title"). */
+function readHeadingStyles(stylesXml: string | undefined): Map<string, number> {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+  for (const style of stylesXml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const id = attribute(style[1], 'w:styleId');
+    if (!id) continue;
+    const name = attribute(/<w:name\b[^>]*>/.exec(style[2])?.[0] ?? '', 'w:val')?.toLowerCase();
+    const named = name && /^heading ([1-6])$/.exec(name);
+    const level =
+      named ? Number(named[1])
+      : name === 'title' ? 1
+      : headingLevelFromOutline(style[2]);
+    if (level) levels.set(id, level);
+  }
+  return levels;
+}
+
+function readDocxParagraph(xml: string, headingStyles: Map<string, number>): Block {
+  const properties = /<w:pPr>([\s\S]*?)<\/w:pPr>/.exec(xml)?.[1] ?? '';
+  const styleId = attribute(/<w:pStyle\b[^>]*>/.exec(properties)?.[0] ?? '', 'w:val');
+  const level =
+    headingLevelFromOutline(properties) ?? (styleId ? headingStyles.get(styleId) : undefined);
+
+  const runs: Array<{ text: string; bold: boolean; italic: boolean }> = [];
+  for (const run of xml.matchAll(/<w:r\b[^>]*>([\s\S]*?)<\/w:r>/g)) {
+    const runProperties = /<w:rPr>([\s\S]*?)<\/w:rPr>/.exec(run[1])?.[1] ?? '';
+    const bold = level === undefined && isToggleOn(runProperties, 'b');
+    const italic = isToggleOn(runProperties, 'i');
+    let text = '';
+    for (const part of run[1].matchAll(
+      /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr|noBreakHyphen)\b([^>]*)\/>/g
+    )) {
+      if (part[1] !== undefined) text += decodeEntities(part[1]);
+      else if (part[2] === 'tab') text += ' ';
+      else if (part[2] === 'noBreakHyphen') text += '-';
+      else if (attribute(part[3], 'w:type') !== 'page') text += LINE_BREAK;
+    }
+    const previous = runs.at(-1);
+    if (previous && previous.bold === bold && previous.italic === italic) previous.text += text;
+    else runs.push({ text, bold, italic });
+  }
+
+  const text = runs.map((run) => emphasize(run.text, run.bold, run.italic)).join('');
+  if (level !== undefined) return { kind: 'heading', level, text };
+
+  const isListItem = /<w:numPr>/.test(properties);
+  return { kind: 'paragraph', text, prefix: isListItem ? '- ' : undefined };
+}
+
+function unzip(bytes: Uint8Array, wanted: (name: string) => boolean): Record<string, Uint8Array> {
+  try {
+    return unzipSync(bytes, { filter: (file) => wanted(file.name) });
+  } catch {
+    throw fileError('The file is damaged or is not a valid archive.');
+  }
+}
+
+export function docxToMarkdown(bytes: Uint8Array): string {
+  const files = unzip(bytes, (name) => name === 'word/document.xml' || name === 'word/styles.xml');
+  const documentXml = files['word/document.xml'];
+  if (!documentXml) {
+    throw fileError('The file is not a Word document.');
+  }
+  const headingStyles = readHeadingStyles(
+    files['word/styles.xml'] ? strFromU8(files['word/styles.xml']) : undefined
+  );
+
+  const body = strFromU8(documentXml);
+  const blocks: Block[] = [];
+  for (const paragraph of body.matchAll(/<w:p\b[^>]*\/>|<w:p\b[^>]*>([\s\S]*?)<\/w:p>/g)) {
+    const block = readDocxParagraph(paragraph[1] ?? '', headingStyles);
+    // Writers mark scene breaks with a centered "***" or "#" paragraph.
+    if (block.kind === 'paragraph' && /^\s*(\*\s*){3,}$|^\s*#\s*$/.test(block.text)) {
+      blocks.push({ kind: 'break' });
+    } else {
+      blocks.push(block);
+    }
+  }
+  return blocksToMarkdown(blocks);
+}
+
+// EPUB.
+
+function resolvePath(base: string, href: string): string {
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+export function epubToMarkdown(bytes: Uint8Array): string {
+  const files = unzip(bytes, () => true);
+  const container = files['META-INF/container.xml'];
+  const rootPath = container && attribute(strFromU8(container), 'full-path');
+  const opf = rootPath ? files[rootPath] : undefined;
+  if (!rootPath || !opf) {
+    throw fileError('The file is not a valid EPUB.');
+  }
+
+  const packageXml = strFromU8(opf);
+  const manifest = new Map<string, { href: string; properties: string }>();
+  for (const item of packageXml.matchAll(/<(?:opf:)?item\b([^>]*)\/?>/g)) {
+    const id = attribute(item[1], 'id');
+    const href = attribute(item[1], 'href');
+    if (id && href) manifest.set(id, { href, properties: attribute(item[1], 'properties') ?? '' });
+  }
+
+  const sections: string[] = [];
+  for (const itemref of packageXml.matchAll(/<(?:opf:)?itemref\b([^>]*)\/?>/g)) {
+    const item = manifest.get(attribute(itemref[1], 'idref') ?? '');
+    if (!item || item.properties.split(/\s+/).includes('nav')) continue;
+    if (attribute(itemref[1], 'linear') === 'no') continue;
+    const file = files[resolvePath(rootPath, item.href)];
+    if (!file) continue;
+    const markdown = htmlToMarkdown(strFromU8(file));
+    if (markdown) sections.push(markdown);
+  }
+  return sections.join('\n\n');
+}
+
+// PDF.
+
+const CHAPTER_LINE = /^(chapter|part|book|prologue|epilogue|interlude)\b.{0,60}$/i;
+
+/** Join a page's text lines into paragraphs, dropping bare page numbers. */
+function pdfPageToBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph = '';
+
+  function flush() {
+    if (paragraph.trim()) blocks.push({ kind: 'paragraph', text: paragraph });
+    paragraph = '';
+  }
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+    if (/^\d{1,4}$/.test(line)) continue;
+    if (CHAPTER_LINE.test(line)) {
+      flush();
+      blocks.push({ kind: 'heading', level: 1, text: line });
+      continue;
+    }
+    // Rejoin words hyphenated across a line break.
+    paragraph = paragraph.endsWith('-') ? paragraph.slice(0, -1) + line : `${paragraph} ${line}`;
+    if (/[.!?…"”’]$/.test(line) && line.length < 60) flush();
+  }
+  flush();
+  return blocks;
+}
+
+export async function pdfToMarkdown(bytes: Uint8Array): Promise<string> {
+  let pages: string[];
+  try {
+    const pdf = await getDocumentProxy(bytes);
+    ({ text: pages } = await extractText(pdf, { mergePages: false }));
+  } catch {
+    throw fileError('The file is damaged or is not a PDF.');
+  }
+  const markdown = blocksToMarkdown(pages.flatMap(pdfPageToBlocks));
+  if (!markdown) {
+    throw fileError(
+      'This PDF has no text layer. Export it with selectable text or run it through OCR first.'
+    );
+  }
+  return markdown;
+}
+
+export async function convertManuscript(
+  bytes: Uint8Array,
+  format: ManuscriptFormat
+): Promise<string> {
+  switch (format) {
+    case 'docx':
+      return docxToMarkdown(bytes);
+    case 'epub':
+      return epubToMarkdown(bytes);
+    case 'html':
+      return htmlToMarkdown(new TextDecoder().decode(bytes));
+    case 'pdf':
+      return await pdfToMarkdown(bytes);
+  }
+}
+
+function plainHeading(text: string): string {
+  return text.replace(/[*_`]/g, '').trim();
+}
+
+/**
+ * Split a manuscript at the highest heading level that occurs more than once, so a book title
+ * above "## Chapter" headings stays with the first chapter. Returns one chapter when there is
+ * nothing to split on.
+ */
+export function splitIntoChapters(markdown: string, fallbackTitle: string): ManuscriptChapter[] {
+  const headings = [...markdown.matchAll(/^(#{1,6}) (.+)$/gm)];
+  const counts = new Map<number, number>();
+  for (const heading of headings) {
+    const level = heading[1].length;
+    counts.set(level, (counts.get(level) ?? 0) + 1);
+  }
+  const splitLevel = [...counts.entries()]
+    .filter(([, count]) => count > 1)
+    .map(([level]) => level)
+    .toSorted((a, b) => a - b)[0];
+  if (splitLevel === undefined) {
+    return [{ title: fallbackTitle, content: markdown }];
+  }
+
+  const starts = headings.filter((heading) => heading[1].length === splitLevel);
+  return starts.map((heading, index) => {
+    const start = index === 0 ? 0 : heading.index;
+    const end = starts[index + 1]?.index ?? markdown.length;
+    return {
+      title: plainHeading(heading[2]) || `${fallbackTitle} ${index + 1}`,
+      content: markdown.slice(start, end).trim(),
+    };
+  });
+}
@@ -0,0 +1,31 @@
+import type { Doc } from '../_generated/dataModel';
+
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Offset of the first whole-word mention of the entity's name or an alias, or -1. */
+export function firstMention(text: string, entity: Doc<'entities'>): number {
+  const textLower = text.toLowerCase();
+  let first = -1;
+  for (const candidate of [entity.name, ...entity.aliases]) {
+    const term = candidate.toLowerCase().trim();
+    if (term.length < 3) continue;
+    const index = textLower.search(new RegExp(`\\b${escapeRegex(term)}\\b`));
+    if (index >= 0 && (first < 0 || index < first)) first = index;
+  }
+  return first;
+}
+
+export function mentionsEntity(text: string, entity: Doc<'entities'>): boolean {
+  return firstMention(text, entity) >= 0;
+}
+
+// Comments mention entities as @[Name], which keeps multi-word names unambiguous.
+export const ENTITY_MENTION_PATTERN = /@\[([^\]\n]+)\]/g;
+
+/** Names mentioned as @[Name] in the order they appear, without duplicates. */
+export function parseEntityMentions(text: string): string[] {
+  const names = [...text.matchAll(ENTITY_MENTION_PATTERN)].map((match) => match[1].trim());
+  return [...new Set(names.filter(Boolean))];
+}
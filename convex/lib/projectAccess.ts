@@ -2,7 +2,52 @@ import type { Doc, Id } from '../_generated/dataModel';
 import type { MutationCtx, QueryCtx } from '../_generated/server';
 import { getAuthUserId } from './auth';
 
-export type ProjectRole = 'owner' | null;
+export type ShareRole = 'editor' | 'viewer';
+
+// A player is a viewer of a TTRPG project with reveal enabled: they only see revealed canon.
+export type ProjectRole = 'owner' | ShareRole | 'player' | null;
+
+export function isPlayerRevealProject(project: Doc<'projects'>): boolean {
+  return project.projectType === 'ttrpg' && project.revealToPlayersEnabled !== false;
+}
+
+export function roleCanRead(role: ProjectRole): boolean {
+  return role !== null && role !== 'player';
+}
+
+export function roleCanReadRevealed(role: ProjectRole): boolean {
+  return role !== null;
+}
+
+export function roleCanEdit(role: ProjectRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+export async function getProjectRoleForUser(
+  ctx: QueryCtx | MutationCtx,
+  project: Doc<'projects'>,
+  userId: Id<'users'>
+): Promise<ProjectRole> {
+  if (project.userId === userId) {
+    return 'owner';
+  }
+
+  const share = await ctx.db
+    .query('projectShares')
+    .withIndex('by_user', (q) => q.eq('sharedWithUserId', userId).eq('projectId', project._id))
+    .first();
+
+  // Pending invitations grant nothing until accepted.
+  if (!share || share.acceptedAt === undefined) {
+    return null;
+  }
+
+  if (share.role === 'viewer' && isPlayerRevealProject(project)) {
+    return 'player';
+  }
+
+  return share.role;
+}
 
 export async function getProjectRole(
   ctx: QueryCtx | MutationCtx,
@@ -14,11 +59,7 @@ export async function getProjectRole(
   const project = await ctx.db.get(projectId);
   if (!project) return null;
 
-  if (project.userId === userId) {
-    return 'owner';
-  }
-
-  return null;
+  return await getProjectRoleForUser(ctx, project, userId);
 }
 
 export async function canReadProject(
@@ -26,7 +67,7 @@ export async function canReadProject(
   projectId: Id<'projects'>
 ): Promise<boolean> {
   const role = await getProjectRole(ctx, projectId);
-  return role !== null;
+  return roleCanRead(role);
 }
 
 export async function canEditProject(
@@ -34,7 +75,7 @@ export async function canEditProject(
   projectId: Id<'projects'>
 ): Promise<boolean> {
   const role = await getProjectRole(ctx, projectId);
-  return role === 'owner';
+  return roleCanEdit(role);
 }
 
 export async function isProjectOwner(
@@ -55,9 +96,8 @@ export async function getProjectWithRole(
   const project = await ctx.db.get(projectId);
   if (!project) return null;
 
-  if (project.userId === userId) {
-    return { project, role: 'owner' };
-  }
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanRead(role)) return null;
 
-  return null;
+  return { project, role };
 }
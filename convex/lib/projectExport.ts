@@ -0,0 +1,626 @@
+import { v, type Infer } from 'convex/values';
+import { z } from 'zod';
+import { attributeFieldValidator, attributeValueValidator } from './attributes';
+import { MAX_INLINE_CONTENT_BYTES } from './constants';
+import { validationError } from './errors';
+import { parseJsonOrThrow } from './json';
+
+// The JSON project export, and reading it back for import. Every record carries the id it had in
+// the exporting project so references (a fact's entity, an alert's documents) survive the trip;
+// the importer maps them onto the new ids. Older exports are upgraded on read: unversioned ones
+// had no ids and link facts to entities by name, and version 1 had no attributes or suppressions.
+
+export const PROJECT_EXPORT_FORMAT = 'realm-sync-project';
+export const PROJECT_EXPORT_VERSION = 2;
+
+const fitsInline = (content: string) =>
+  new TextEncoder().encode(content).length <= MAX_INLINE_CONTENT_BYTES;
+
+const baseTypeSchema = z.enum(['character', 'location', 'item', 'concept', 'event']);
+const reviewStatusSchema = z.enum(['pending', 'confirmed', 'rejected']);
+const positionSchema = z.object({ start: z.number(), end: z.number() });
+
+const projectSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().optional(),
+  projectType: z
+    .enum(['ttrpg', 'original-fiction', 'fanfiction', 'game-design', 'general'])
+    .optional(),
+  revealToPlayersEnabled: z.boolean().optional(),
+  singleValuedPredicates: z.array(z.string()).optional(),
+  exportedAt: z.string(),
+});
+
+const documentSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  contentType: z.enum(['text', 'markdown', 'file']),
+  wordCount: z.number(),
+  processingStatus: z.enum(['pending', 'processing', 'completed', 'failed']),
+  // Unset for player-safe exports of unrevealed documents, and for text kept only in storage.
+  content: z.string().refine(fitsInline, 'Document text is too long to store inline.').optional(),
+  storedFile: z.boolean().optional(),
+  orderIndex: z.number(),
+  sourceFormat: z.enum(['docx', 'epub', 'html', 'pdf']).optional(),
+  revealedToViewers: z.boolean().optional(),
+});
+
+const entityTypeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  icon: z.string(),
+  color: z.string(),
+  description: z.string().optional(),
+  baseType: baseTypeSchema,
+});
+
+const entitySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: baseTypeSchema,
+  customType: z.string().optional(),
+  customTypeId: z.string().optional(),
+  description: z.string().optional(),
+  aliases: z.array(z.string()),
+  status: z.enum(['pending', 'confirmed']),
+  firstMentionedIn: z.string().optional(),
+  revealedToViewers: z.boolean().optional(),
+});
+
+const attributeTemplateSchema = z.object({
+  id: z.string(),
+  entityType: baseTypeSchema,
+  customTypeId: z.string().optional(),
+  fields: z.array(
+    z.object({
+      key: z.string(),
+      label: z.string(),
+      dataType: z.enum(['text', 'number', 'boolean', 'date', 'enum']),
+      options: z.array(z.string()).optional(),
+    })
+  ),
+});
+
+const calendarSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  daysPerYear: z.number(),
+  months: z.array(z.object({ name: z.string(), days: z.number() })),
+  eras: z.array(
+    z.object({
+      name: z.string(),
+      abbreviation: z.string().optional(),
+      startYear: z.number(),
+      countsBackward: z.boolean().optional(),
+    })
+  ),
+  epochOffset: z.number(),
+  isDefault: z.boolean(),
+});
+
+const factSchema = z.object({
+  id: z.string(),
+  entityId: z.string().optional(),
+  documentId: z.string().optional(),
+  entityName: z.string(),
+  subject: z.string(),
+  predicate: z.string(),
+  object: z.string(),
+  confidence: z.number(),
+  evidenceSnippet: z.string(),
+  evidencePosition: positionSchema.optional(),
+  temporalBound: z
+    .object({
+      type: z.enum(['point', 'range', 'relative']),
+      value: z.string(),
+      start: z.number().optional(),
+      end: z.number().optional(),
+      calendarId: z.string().optional(),
+    })
+    .optional(),
+  status: reviewStatusSchema,
+  revealedToViewers: z.boolean().optional(),
+});
+
+const entityAttributeSchema = z.object({
+  id: z.string(),
+  entityId: z.string(),
+  key: z.string(),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+  documentId: z.string().optional(),
+  evidenceSnippet: z.string().optional(),
+  evidencePosition: positionSchema.optional(),
+  status: reviewStatusSchema,
+});
+
+const relationshipSchema = z.object({
+  id: z.string(),
+  sourceEntityId: z.string(),
+  targetEntityId: z.string(),
+  type: z.string(),
+  documentId: z.string().optional(),
+  confidence: z.number(),
+  evidenceSnippet: z.string().optional(),
+  evidencePosition: positionSchema.optional(),
+  status: reviewStatusSchema,
+});
+
+const noteSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  content: z.string(),
+  tags: z.array(z.string()).optional(),
+  pinned: z.boolean(),
+});
+
+const entityNoteSchema = z.object({
+  id: z.string(),
+  entityId: z.string(),
+  content: z.string(),
+});
+
+const alertSchema = z.object({
+  id: z.string(),
+  documentId: z.string(),
+  factIds: z.array(z.string()),
+  entityIds: z.array(z.string()),
+  type: z.enum(['contradiction', 'timeline', 'ambiguity']),
+  severity: z.enum(['error', 'warning']),
+  title: z.string(),
+  description: z.string(),
+  evidence: z.array(
+    z.object({ snippet: z.string(), documentId: z.string(), documentTitle: z.string() })
+  ),
+  suggestedFix: z.string().optional(),
+  status: z.enum(['open', 'resolved', 'dismissed']),
+  resolutionNotes: z.string().optional(),
+  rule: z.string().optional(),
+  fingerprint: z.string().optional(),
+});
+
+const alertSuppressionSchema = z.object({
+  id: z.string(),
+  rule: z.string(),
+  entityIds: z.array(z.string()),
+});
+
+const projectExportSchema = z.object({
+  format: z.literal(PROJECT_EXPORT_FORMAT),
+  version: z.literal(PROJECT_EXPORT_VERSION),
+  project: projectSchema,
+  documents: z.array(documentSchema),
+  entityTypes: z.array(entityTypeSchema),
+  attributeTemplates: z.array(attributeTemplateSchema),
+  entities: z.array(entitySchema),
+  calendars: z.array(calendarSchema),
+  facts: z.array(factSchema),
+  entityAttributes: z.array(entityAttributeSchema),
+  relationships: z.array(relationshipSchema),
+  notes: z.array(noteSchema),
+  entityNotes: z.array(entityNoteSchema),
+  alerts: z.array(alertSchema),
+  alertSuppressions: z.array(alertSuppressionSchema),
+});
+
+const exportV1Schema = projectExportSchema
+  .omit({ attributeTemplates: true, entityAttributes: true, alertSuppressions: true })
+  .extend({ version: z.literal(1) });
+
+// The export as written before `version` existed: names instead of ids, canon only.
+const legacyExportSchema = z.object({
+  project: projectSchema.pick({ name: true, description: true, exportedAt: true }),
+  documents: z.array(
+    documentSchema.pick({
+      title: true,
+      contentType: true,
+      wordCount: true,
+      processingStatus: true,
+      content: true,
+    })
+  ),
+  entityTypes: z.array(entityTypeSchema.omit({ id: true })),
+  entities: z.array(
+    entitySchema.pick({
+      name: true,
+      type: true,
+      customType: true,
+      description: true,
+      aliases: true,
+      status: true,
+    })
+  ),
+  facts: z.array(
+    factSchema.pick({
+      entityName: true,
+      subject: true,
+      predicate: true,
+      object: true,
+      confidence: true,
+      evidenceSnippet: true,
+      status: true,
+    })
+  ),
+});
+
+export type ProjectExport = z.infer<typeof projectExportSchema>;
+type LegacyProjectExport = z.infer<typeof legacyExportSchema>;
+type ProjectExportV1 = z.infer<typeof exportV1Schema>;
+
+/** Tables an import writes, in the order references between them require. */
+export const PROJECT_IMPORT_STAGES = [
+  'entityTypes',
+  'attributeTemplates',
+  'calendars',
+  'documents',
+  'entities',
+  'facts',
+  'entityAttributes',
+  'relationships',
+  'notes',
+  'entityNotes',
+  'alerts',
+  'alertSuppressions',
+] as const;
+
+export type ProjectImportStage = (typeof PROJECT_IMPORT_STAGES)[number];
+type ProjectImportRecord<S extends ProjectImportStage> = ProjectExport[S][number];
+
+export const projectImportStageValidator = v.union(
+  v.literal('entityTypes'),
+  v.literal('attributeTemplates'),
+  v.literal('calendars'),
+  v.literal('documents'),
+  v.literal('entities'),
+  v.literal('facts'),
+  v.literal('entityAttributes'),
+  v.literal('relationships'),
+  v.literal('notes'),
+  v.literal('entityNotes'),
+  v.literal('alerts'),
+  v.literal('alertSuppressions'),
+  // Every table is written; the id map is being cleared.
+  v.literal('cleanup')
+);
+
+const baseTypeValidator = v.union(
+  v.literal('character'),
+  v.literal('location'),
+  v.literal('item'),
+  v.literal('concept'),
+  v.literal('event')
+);
+const reviewStatusValidator = v.union(
+  v.literal('pending'),
+  v.literal('confirmed'),
+  v.literal('rejected')
+);
+const positionValidator = v.object({ start: v.number(), end: v.number() });
+
+// The records above as a batch carries them from the import action to its mutation, once
+// `parseProjectExport` has checked them. Keep these in step with the zod schemas.
+const batchRecordValidators = {
+  entityTypes: v.object({
+    id: v.string(),
+    name: v.string(),
+    icon: v.string(),
+    color: v.string(),
+    description: v.optional(v.string()),
+    baseType: baseTypeValidator,
+  }),
+  attributeTemplates: v.object({
+    id: v.string(),
+    entityType: baseTypeValidator,
+    customTypeId: v.optional(v.string()),
+    fields: v.array(attributeFieldValidator),
+  }),
+  calendars: v.object({
+    id: v.string(),
+    name: v.string(),
+    daysPerYear: v.number(),
+    months: v.array(v.object({ name: v.string(), days: v.number() })),
+    eras: v.array(
+      v.object({
+        name: v.string(),
+        abbreviation: v.optional(v.string()),
+        startYear: v.number(),
+        countsBackward: v.optional(v.boolean()),
+      })
+    ),
+    epochOffset: v.number(),
+    isDefault: v.boolean(),
+  }),
+  documents: v.object({
+    id: v.string(),
+    title: v.string(),
+    contentType: v.union(v.literal('text'), v.literal('markdown'), v.literal('file')),
+    wordCount: v.number(),
+    processingStatus: v.union(
+      v.literal('pending'),
+      v.literal('processing'),
+      v.literal('completed'),
+      v.literal('failed')
+    ),
+    content: v.optional(v.string()),
+    storedFile: v.optional(v.boolean()),
+    orderIndex: v.number(),
+    sourceFormat: v.optional(
+      v.union(v.literal('docx'), v.literal('epub'), v.literal('html'), v.literal('pdf'))
+    ),
+    revealedToViewers: v.optional(v.boolean()),
+  }),
+  entities: v.object({
+    id: v.string(),
+    name: v.string(),
+    type: baseTypeValidator,
+    customType: v.optional(v.string()),
+    customTypeId: v.optional(v.string()),
+    description: v.optional(v.string()),
+    aliases: v.array(v.string()),
+    status: v.union(v.literal('pending'), v.literal('confirmed')),
+    firstMentionedIn: v.optional(v.string()),
+    revealedToViewers: v.optional(v.boolean()),
+  }),
+  facts: v.object({
+    id: v.string(),
+    entityId: v.optional(v.string()),
+    documentId: v.optional(v.string()),
+    entityName: v.string(),
+    subject: v.string(),
+    predicate: v.string(),
+    object: v.string(),
+    confidence: v.number(),
+    evidenceSnippet: v.string(),
+    evidencePosition: v.optional(positionValidator),
+    temporalBound: v.optional(
+      v.object({
+        type: v.union(v.literal('point'), v.literal('range'), v.literal('relative')),
+        value: v.string(),
+        start: v.optional(v.number()),
+        end: v.optional(v.number()),
+        calendarId: v.optional(v.string()),
+      })
+    ),
+    status: reviewStatusValidator,
+    revealedToViewers: v.optional(v.boolean()),
+  }),
+  entityAttributes: v.object({
+    id: v.string(),
+    entityId: v.string(),
+    key: v.string(),
+    value: attributeValueValidator,
+    documentId: v.optional(v.string()),
+    evidenceSnippet: v.optional(v.string()),
+    evidencePosition: v.optional(positionValidator),
+    status: reviewStatusValidator,
+  }),
+  relationships: v.object({
+    id: v.string(),
+    sourceEntityId: v.string(),
+    targetEntityId: v.string(),
+    type: v.string(),
+    documentId: v.optional(v.string()),
+    confidence: v.number(),
+    evidenceSnippet: v.optional(v.string()),
+    evidencePosition: v.optional(positionValidator),
+    status: reviewStatusValidator,
+  }),
+  notes: v.object({
+    id: v.string(),
+    title: v.string(),
+    content: v.string(),
+    tags: v.optional(v.array(v.string())),
+    pinned: v.boolean(),
+  }),
+  entityNotes: v.object({ id: v.string(), entityId: v.string(), content: v.string() }),
+  alerts: v.object({
+    id: v.string(),
+    documentId: v.string(),
+    factIds: v.array(v.string()),
+    entityIds: v.array(v.string()),
+    type: v.union(v.literal('contradiction'), v.literal('timeline'), v.literal('ambiguity')),
+    severity: v.union(v.literal('error'), v.literal('warning')),
+    title: v.string(),
+    description: v.string(),
+    evidence: v.array(
+      v.object({ snippet: v.string(), documentId: v.string(), documentTitle: v.string() })
+    ),
+    suggestedFix: v.optional(v.string()),
+    status: v.union(v.literal('open'), v.literal('resolved'), v.literal('dismissed')),
+    resolutionNotes: v.optional(v.string()),
+    rule: v.optional(v.string()),
+    fingerprint: v.optional(v.string()),
+  }),
+  alertSuppressions: v.object({ id: v.string(), rule: v.string(), entityIds: v.array(v.string()) }),
+};
+
+/** One batch of one stage's records. */
+export const projectImportBatchValidator = v.union(
+  v.object({
+    stage: v.literal('entityTypes'),
+    records: v.array(batchRecordValidators.entityTypes),
+  }),
+  v.object({
+    stage: v.literal('attributeTemplates'),
+    records: v.array(batchRecordValidators.attributeTemplates),
+  }),
+  v.object({ stage: v.literal('calendars'), records: v.array(batchRecordValidators.calendars) }),
+  v.object({ stage: v.literal('documents'), records: v.array(batchRecordValidators.documents) }),
+  v.object({ stage: v.literal('entities'), records: v.array(batchRecordValidators.entities) }),
+  v.object({ stage: v.literal('facts'), records: v.array(batchRecordValidators.facts) }),
+  v.object({
+    stage: v.literal('entityAttributes'),
+    records: v.array(batchRecordValidators.entityAttributes),
+  }),
+  v.object({
+    stage: v.literal('relationships'),
+    records: v.array(batchRecordValidators.relationships),
+  }),
+  v.object({ stage: v.literal('notes'), records: v.array(batchRecordValidators.notes) }),
+  v.object({
+    stage: v.literal('entityNotes'),
+    records: v.array(batchRecordValidators.entityNotes),
+  }),
+  v.object({ stage: v.literal('alerts'), records: v.array(batchRecordValidators.alerts) }),
+  v.object({
+    stage: v.literal('alertSuppressions'),
+    records: v.array(batchRecordValidators.alertSuppressions),
+  })
+);
+
+export type ProjectImportBatch = Infer<typeof projectImportBatchValidator>;
+
+// Records whose ids later records point at, keyed by the table they were imported into.
+export const mappedTableValidator = v.union(
+  v.literal('entityTypes'),
+  v.literal('calendars'),
+  v.literal('documents'),
+  v.literal('entities'),
+  v.literal('facts')
+);
+
+export type MappedTable = Infer<typeof mappedTableValidator>;
+
+const MAX_BATCH_RECORDS = 100;
+// Well under the argument size of a single mutation, even for documents near the inline limit.
+const MAX_BATCH_BYTES = 2 * 1024 * 1024;
+
+function upgradeLegacyExport(legacy: LegacyProjectExport): ProjectExport {
+  const entityTypes = legacy.entityTypes.map((type, index) => ({
+    ...type,
+    id: `entityType:${index}`,
+  }));
+  const typeIds = new Map(entityTypes.map((type) => [type.name, type.id]));
+  const entities = legacy.entities.map((entity, index) => ({
+    ...entity,
+    id: `entity:${index}`,
+    customTypeId: entity.customType ? typeIds.get(entity.customType) : undefined,
+  }));
+  const entityIds = new Map<string, string>();
+  for (const entity of entities) {
+    if (!entityIds.has(entity.name)) entityIds.set(entity.name, entity.id);
+  }
+
+  return {
+    format: PROJECT_EXPORT_FORMAT,
+    version: PROJECT_EXPORT_VERSION,
+    project: legacy.project,
+    documents: legacy.documents.map((doc, index) => ({
+      ...doc,
+      id: `document:${index}`,
+      orderIndex: index,
+      ...(doc.content === '[file stored]' && { content: undefined, storedFile: true }),
+    })),
+    entityTypes,
+    attributeTemplates: [],
+    entities,
+    calendars: [],
+    facts: legacy.facts.map((fact, index) => ({
+      ...fact,
+      id: `fact:${index}`,
+      entityId: entityIds.get(fact.entityName),
+    })),
+    entityAttributes: [],
+    relationships: [],
+    notes: [],
+    entityNotes: [],
+    alerts: [],
+    alertSuppressions: [],
+  };
+}
+
+function upgradeExportV1(data: ProjectExportV1): ProjectExport {
+  return {
+    ...data,
+    version: PROJECT_EXPORT_VERSION,
+    attributeTemplates: [],
+    entityAttributes: [],
+    alertSuppressions: [],
+  };
+}
+
+function parseWith<T>(schema: z.ZodType<T>, data: unknown): T {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const [issue] = result.error.issues;
+  const path = issue.path.join('.');
+  throw validationError(
+    'file',
+    `This is not a valid project export${path ? ` (${path}: ${issue.message})` : `: ${issue.message}`}`
+  );
+}
+
+function assertUniqueIds(data: ProjectExport): void {
+  for (const stage of PROJECT_IMPORT_STAGES) {
+    const ids = new Set<string>();
+    for (const record of data[stage]) {
+      if (ids.has(record.id)) {
+        throw validationError(
+          'file',
+          `This is not a valid project export (${stage}: "${record.id}" appears twice)`
+        );
+      }
+      ids.add(record.id);
+    }
+  }
+}
+
+/** Read and validate an exported project, upgrading unversioned exports to the current version. */
+export function parseProjectExport(text: string): ProjectExport {
+  const data = parseJsonOrThrow(text);
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw validationError('file', 'This is not a project export.');
+  }
+
+  const version = (data as { version?: unknown }).version;
+  if (version === undefined) {
+    return upgradeLegacyExport(parseWith(legacyExportSchema, data));
+  }
+  if (typeof version === 'number' && version > PROJECT_EXPORT_VERSION) {
+    throw validationError(
+      'file',
+      `This export was made by a newer version of the app (format ${version}) and can't be imported yet.`
+    );
+  }
+
+  const parsed =
+    version === 1 ?
+      upgradeExportV1(parseWith(exportV1Schema, data))
+    : parseWith(projectExportSchema, data);
+  assertUniqueIds(parsed);
+  return parsed;
+}
+
+export function countImportRecords(data: ProjectExport): number {
+  return PROJECT_IMPORT_STAGES.reduce((total, stage) => total + data[stage].length, 0);
+}
+
+/** The next slice of a stage to import, bounded by count and size. */
+export function nextImportBatch(
+  data: ProjectExport,
+  stage: ProjectImportStage,
+  cursor: number
+): ProjectImportBatch {
+  const records: ProjectImportRecord<typeof stage>[] = [];
+  let bytes = 0;
+  for (const record of data[stage].slice(cursor, cursor + MAX_BATCH_RECORDS)) {
+    bytes += JSON.stringify(record).length;
+    if (records.length > 0 && bytes > MAX_BATCH_BYTES) break;
+    records.push(record);
+  }
+  // The records were all taken from `data[stage]`, which TypeScript can't follow through `stage`.
+  return { stage, records } as ProjectImportBatch;
+}
+
+/** The stage after `stage`, skipping empty ones; `cleanup` once every table is done. */
+export function nextImportStage(
+  data: ProjectExport,
+  stage: ProjectImportStage
+): ProjectImportStage | 'cleanup' {
+  const index = PROJECT_IMPORT_STAGES.indexOf(stage);
+  return PROJECT_IMPORT_STAGES.slice(index + 1).find((next) => data[next].length > 0) ?? 'cleanup';
+}
+
+export function firstImportStage(data: ProjectExport): ProjectImportStage | 'cleanup' {
+  return PROJECT_IMPORT_STAGES.find((stage) => data[stage].length > 0) ?? 'cleanup';
+}
@@ -0,0 +1,53 @@
+import type { Doc } from '../_generated/dataModel';
+import { notAllowedError } from './errors';
+
+/**
+ * Player visibility rules shared by every derived view (player wiki, graph, timeline, export).
+ *
+ * Entities and documents are hidden until revealed. Facts follow their entity unless the GM
+ * marks them GM-only, or they were extracted from a GM-only document. Relationships need both
+ * ends revealed.
+ */
+
+export function assertRevealAllowed(project: Doc<'projects'>, action: 'Reveal' | 'Hide'): void {
+  if (project.projectType !== 'ttrpg') {
+    throw notAllowedError(`${action} is only available for TTRPG projects`);
+  }
+  if (project.revealToPlayersEnabled === false) {
+    throw notAllowedError('Reveal is disabled for this project');
+  }
+}
+
+export function isEntityRevealed(entity: Doc<'entities'>): boolean {
+  return entity.status === 'confirmed' && entity.revealedToViewers === true;
+}
+
+export function isDocumentRevealed(document: Doc<'documents'>): boolean {
+  return document.revealedToViewers === true;
+}
+
+export function isDocumentGmOnly(document: Doc<'documents'>): boolean {
+  return document.revealedToViewers === false;
+}
+
+export function isFactRevealed(
+  fact: Doc<'facts'>,
+  entity: Doc<'entities'> | null,
+  document: Doc<'documents'> | null
+): boolean {
+  if (fact.status !== 'confirmed') return false;
+  if (entity && !isEntityRevealed(entity)) return false;
+  if (fact.revealedToViewers !== undefined) return fact.revealedToViewers;
+  return !document || !isDocumentGmOnly(document);
+}
+
+export function isRelationshipRevealed(
+  relationship: Doc<'relationships'>,
+  source: Doc<'entities'>,
+  target: Doc<'entities'>,
+  document: Doc<'documents'> | null
+): boolean {
+  if (relationship.status !== 'confirmed') return false;
+  if (!isEntityRevealed(source) || !isEntityRevealed(target)) return false;
+  return !document || !isDocumentGmOnly(document);
+}
@@ -0,0 +1,284 @@
+import { v, type Infer } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+
+// Append-only revision log. Each row snapshots a record's editable fields as they stood after
+// the change, so a diff compares a revision with the one before it and a revert copies a
+// snapshot back. Records edited before the log existed get an "initial" row on first change.
+
+// Autosaved document edits by one user fold into their latest revision while it is this
+// recent, so the history keeps one entry per editing session rather than one per pause.
+export const DOCUMENT_REVISION_WINDOW_MS = 10 * 60 * 1000;
+
+const entityTypeValidator = v.union(
+  v.literal('character'),
+  v.literal('location'),
+  v.literal('item'),
+  v.literal('concept'),
+  v.literal('event')
+);
+
+export const entitySnapshotValidator = v.object({
+  name: v.string(),
+  type: entityTypeValidator,
+  customTypeId: v.optional(v.id('entityTypes')),
+  description: v.optional(v.string()),
+  aliases: v.array(v.string()),
+  status: v.union(v.literal('pending'), v.literal('confirmed')),
+  firstMentionedIn: v.optional(v.id('documents')),
+  revealedToViewers: v.optional(v.boolean()),
+});
+
+export const factSnapshotValidator = v.object({
+  entityId: v.optional(v.id('entities')),
+  subject: v.string(),
+  predicate: v.string(),
+  object: v.string(),
+  confidence: v.number(),
+  evidenceSnippet: v.optional(v.string()),
+  evidencePosition: v.optional(v.object({ start: v.number(), end: v.number() })),
+  temporalBound: v.optional(
+    v.object({
+      type: v.union(v.literal('point'), v.literal('range'), v.literal('relative')),
+      value: v.string(),
+      start: v.optional(v.number()),
+      end: v.optional(v.number()),
+      calendarId: v.optional(v.id('calendars')),
+    })
+  ),
+  status: v.union(v.literal('pending'), v.literal('confirmed'), v.literal('rejected')),
+});
+
+export const documentSnapshotValidator = v.object({
+  title: v.string(),
+  content: v.optional(v.string()),
+  contentType: v.union(v.literal('text'), v.literal('markdown'), v.literal('file')),
+});
+
+/** What a merge moved onto the target, so it can be undone. */
+export const mergeRecordValidator = v.object({
+  sourceId: v.id('entities'),
+  source: entitySnapshotValidator,
+  factIds: v.array(v.id('facts')),
+  entityNoteIds: v.array(v.id('entityNotes')),
+  attributeIds: v.array(v.id('entityAttributes')),
+  demotedAttributeIds: v.array(v.id('entityAttributes')),
+  relationships: v.array(
+    v.object({
+      id: v.id('relationships'),
+      side: v.union(v.literal('source'), v.literal('target')),
+    })
+  ),
+  // Relationships between the two entities are deleted by the merge rather than rewired.
+  removedRelationships: v.array(
+    v.object({
+      fromSource: v.boolean(),
+      type: v.string(),
+      documentId: v.optional(v.id('documents')),
+      confidence: v.number(),
+      evidenceSnippet: v.optional(v.string()),
+      status: v.union(v.literal('pending'), v.literal('confirmed'), v.literal('rejected')),
+    })
+  ),
+  alerts: v.array(v.object({ id: v.id('alerts'), entityIds: v.array(v.id('entities')) })),
+});
+
+export const revisionActionValidator = v.union(
+  v.literal('initial'),
+  v.literal('update'),
+  v.literal('revert'),
+  v.literal('merge'),
+  v.literal('unmerge')
+);
+
+export type EntitySnapshot = Infer<typeof entitySnapshotValidator>;
+export type FactSnapshot = Infer<typeof factSnapshotValidator>;
+export type DocumentSnapshot = Infer<typeof documentSnapshotValidator>;
+export type MergeRecord = Infer<typeof mergeRecordValidator>;
+export type RevisionAction = Infer<typeof revisionActionValidator>;
+
+export function snapshotEntity(entity: Doc<'entities'>): EntitySnapshot {
+  return {
+    name: entity.name,
+    type: entity.type,
+    customTypeId: entity.customTypeId,
+    description: entity.description,
+    aliases: entity.aliases,
+    status: entity.status,
+    firstMentionedIn: entity.firstMentionedIn,
+    revealedToViewers: entity.revealedToViewers,
+  };
+}
+
+export function snapshotFact(fact: Doc<'facts'>): FactSnapshot {
+  return {
+    entityId: fact.entityId,
+    subject: fact.subject,
+    predicate: fact.predicate,
+    object: fact.object,
+    confidence: fact.confidence,
+    evidenceSnippet: fact.evidenceSnippet,
+    evidencePosition: fact.evidencePosition,
+    temporalBound: fact.temporalBound,
+    status: fact.status,
+  };
+}
+
+export function snapshotDocument(document: Doc<'documents'>): DocumentSnapshot {
+  return { title: document.title, content: document.content, contentType: document.contentType };
+}
+
+export type FieldChange = { field: string; before: unknown; after: unknown };
+
+/** Field-level differences between two snapshots; `before` is null for the first revision. */
+export function diffSnapshots<T extends Record<string, unknown>>(
+  before: T | null,
+  after: T
+): FieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const previous = before?.[field];
+    const next = after[field];
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ field, before: previous, after: next });
+    }
+  }
+  return changes;
+}
+
+type RevisionTarget =
+  | { entity: Doc<'entities'> }
+  | { fact: Doc<'facts'> }
+  | { document: Doc<'documents'> };
+
+type RecordRevisionArgs = {
+  action: RevisionAction;
+  userId?: Id<'users'>;
+  summary?: string;
+  merge?: MergeRecord;
+  revertedId?: Id<'revisions'>;
+};
+
+async function hasRevisions(ctx: MutationCtx, target: RevisionTarget): Promise<boolean> {
+  const existing =
+    'entity' in target ?
+      await ctx.db
+        .query('revisions')
+        .withIndex('by_entity', (q) => q.eq('entityId', target.entity._id))
+        .filter((q) => q.eq(q.field('targetType'), 'entity'))
+        .first()
+    : 'fact' in target ?
+      await ctx.db
+        .query('revisions')
+        .withIndex('by_fact', (q) => q.eq('factId', target.fact._id))
+        .first()
+    : await ctx.db
+        .query('revisions')
+        .withIndex('by_document', (q) => q.eq('documentId', target.document._id))
+        .filter((q) => q.eq(q.field('targetType'), 'document'))
+        .first();
+  return existing !== null;
+}
+
+export async function latestDocumentRevision(
+  ctx: MutationCtx,
+  documentId: Id<'documents'>
+): Promise<Doc<'revisions'> | null> {
+  return await ctx.db
+    .query('revisions')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .filter((q) => q.eq(q.field('targetType'), 'document'))
+    .order('desc')
+    .first();
+}
+
+function revisionFields(target: RevisionTarget) {
+  if ('entity' in target) {
+    return {
+      projectId: target.entity.projectId,
+      targetType: 'entity' as const,
+      entityId: target.entity._id,
+      entity: snapshotEntity(target.entity),
+    };
+  }
+  if ('fact' in target) {
+    // Fact revisions are also filed under their entity, for the entity page history.
+    return {
+      projectId: target.fact.projectId,
+      targetType: 'fact' as const,
+      factId: target.fact._id,
+      entityId: target.fact.entityId,
+      fact: snapshotFact(target.fact),
+    };
+  }
+  return {
+    projectId: target.document.projectId,
+    targetType: 'document' as const,
+    documentId: target.document._id,
+    document: snapshotDocument(target.document),
+  };
+}
+
+/**
+ * Log a change to an entity, fact or document. Call with the record as it was before the
+ * change and as it is after; the "before" state is only stored when it is the first revision.
+ */
+export async function recordRevision(
+  ctx: MutationCtx,
+  before: RevisionTarget | null,
+  after: RevisionTarget,
+  { action, userId, summary, merge, revertedId }: RecordRevisionArgs
+): Promise<Id<'revisions'>> {
+  if (before && !(await hasRevisions(ctx, before))) {
+    const baseline =
+      'entity' in before ? before.entity
+      : 'fact' in before ? before.fact
+      : before.document;
+    await ctx.db.insert('revisions', {
+      ...revisionFields(before),
+      action: 'initial',
+      createdAt: 'updatedAt' in baseline ? baseline.updatedAt : baseline.createdAt,
+    });
+  }
+
+  if ('document' in after && action === 'update' && userId && !summary) {
+    const latest = await latestDocumentRevision(ctx, after.document._id);
+    if (
+      latest?.action === 'update' &&
+      latest.userId === userId &&
+      !latest.summary &&
+      latest._id !== after.document.extractedRevisionId &&
+      Date.now() - latest.createdAt < DOCUMENT_REVISION_WINDOW_MS
+    ) {
+      await ctx.db.patch(latest._id, { document: snapshotDocument(after.document) });
+      return latest._id;
+    }
+  }
+
+  return await ctx.db.insert('revisions', {
+    ...revisionFields(after),
+    action,
+    userId,
+    summary,
+    merge,
+    revertedId,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * The revision holding a document's current title and content, recording one if the latest
+ * revision is out of date. Extraction pins it so the next run can diff against it.
+ */
+export async function currentDocumentRevision(
+  ctx: MutationCtx,
+  document: Doc<'documents'>
+): Promise<Id<'revisions'>> {
+  const latest = await latestDocumentRevision(ctx, document._id);
+  const snapshot = latest?.document;
+  if (latest && snapshot?.content === document.content && snapshot?.title === document.title) {
+    return latest._id;
+  }
+  return await recordRevision(ctx, null, { document }, { action: latest ? 'update' : 'initial' });
+}
@@ -0,0 +1,185 @@
+import { v, type Infer } from 'convex/values';
+import type { Doc } from '../_generated/dataModel';
+import { chunkDocument } from '../llm/chunk';
+
+// Shared pieces of canon search: which records are searchable, how a match is scored so
+// results from different indexes can be ranked together, and the snippet shown for each hit.
+
+export const searchSourceTypeValidator = v.union(
+  v.literal('document'),
+  v.literal('entity'),
+  v.literal('fact'),
+  v.literal('note'),
+  v.literal('entityNote')
+);
+
+export type SearchSourceType = Infer<typeof searchSourceTypeValidator>;
+
+export const SEARCH_SOURCE_TYPES: SearchSourceType[] = [
+  'document',
+  'entity',
+  'fact',
+  'note',
+  'entityNote',
+];
+
+export type SearchHighlight = { start: number; end: number };
+
+export type SearchSnippet = { text: string; highlights: SearchHighlight[] };
+
+const SNIPPET_CHARS = 220;
+// Notes are embedded from their opening; documents are embedded in chunks of this size.
+const MAX_EMBEDDED_CHARS = 4000;
+const DOCUMENT_CHUNK_CHARS = 2000;
+const DOCUMENT_CHUNK_OVERLAP = 200;
+
+export function searchTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}'-]+/gu) ?? [];
+  return [...new Set(words)];
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Word-start matches, mirroring how the search index matches a term as a prefix. */
+function termPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null;
+  const alternatives = terms.toSorted((a, b) => b.length - a.length).map(escapeRegex);
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+}
+
+function findMatches(text: string, terms: string[]): SearchHighlight[] {
+  const pattern = termPattern(terms);
+  if (!pattern) return [];
+  return [...text.matchAll(pattern)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/** A window of the text around the first match, with offsets of every match inside it. */
+export function buildSnippet(
+  text: string,
+  terms: string[],
+  maxChars: number = SNIPPET_CHARS
+): SearchSnippet {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const matches = findMatches(flat, terms);
+  const first = matches[0]?.start ?? 0;
+
+  let start = Math.max(0, first - Math.floor(maxChars / 3));
+  let end = Math.min(flat.length, start + maxChars);
+  if (start > 0) start = flat.indexOf(' ', start) + 1 || start;
+  if (end < flat.length) end = flat.lastIndexOf(' ', end) || end;
+  if (end <= start) end = Math.min(flat.length, start + maxChars);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < flat.length ? '…' : '';
+  const highlights = matches
+    .filter((match) => match.start >= start && match.end <= end)
+    .map((match) => ({
+      start: match.start - start + prefix.length,
+      end: match.end - start + prefix.length,
+    }));
+
+  return { text: `${prefix}${flat.slice(start, end)}${suffix}`, highlights };
+}
+
+/**
+ * Share of query terms found, each counted at the weight of the best field it appears in, plus
+ * a bonus when the whole query appears verbatim. Titles and names outrank body text.
+ */
+export function scoreMatch(fields: Array<{ text: string; weight: number }>, terms: string[]) {
+  if (terms.length === 0) return 0;
+
+  let total = 0;
+  for (const term of terms) {
+    total += Math.max(
+      0,
+      ...fields
+        .filter((field) => findMatches(field.text, [term]).length > 0)
+        .map((field) => field.weight)
+    );
+  }
+
+  const phrase = terms.join(' ');
+  const phraseBonus =
+    terms.length > 1 && fields.some((field) => field.text.toLowerCase().includes(phrase)) ? 1 : 0;
+
+  return total / terms.length + phraseBonus;
+}
+
+export type SearchSource =
+  // `text` is the matching chunk of a document whose text is only in file storage.
+  | { type: 'document'; record: Doc<'documents'>; text?: string }
+  | { type: 'entity'; record: Doc<'entities'> }
+  | { type: 'fact'; record: Doc<'facts'> }
+  | { type: 'note'; record: Doc<'notes'> }
+  | { type: 'entityNote'; record: Doc<'entityNotes'> };
+
+export const embeddingChunkValidator = v.object({
+  index: v.number(),
+  start: v.number(),
+  end: v.number(),
+});
+
+export type EmbeddingChunk = Infer<typeof embeddingChunkValidator>;
+
+/** The texts a record is embedded from: one per chunk for documents, a single one otherwise. */
+export function embeddingInputs(
+  source: SearchSource
+): Array<{ text: string; chunk?: EmbeddingChunk }> {
+  switch (source.type) {
+    case 'document': {
+      const { title, content = '' } = source.record;
+      if (!content.trim()) return [{ text: title }];
+      return chunkDocument(content, DOCUMENT_CHUNK_CHARS, DOCUMENT_CHUNK_OVERLAP).map((chunk) => ({
+        text: `${title}\n${chunk.text}`,
+        chunk: { index: chunk.index, start: chunk.startOffset, end: chunk.endOffset },
+      }));
+    }
+    case 'entity':
+      return [
+        {
+          text: [
+            source.record.name,
+            ...source.record.aliases,
+            source.record.description ?? '',
+          ].join('\n'),
+        },
+      ];
+    case 'fact':
+      return [
+        {
+          text: `${source.record.subject} ${source.record.predicate.replace(/_/g, ' ')} ${source.record.object}`,
+        },
+      ];
+    case 'note':
+      return [
+        { text: `${source.record.title}\n${source.record.content.slice(0, MAX_EMBEDDED_CHARS)}` },
+      ];
+    case 'entityNote':
+      return [{ text: source.record.content.slice(0, MAX_EMBEDDED_CHARS) }];
+  }
+}
+
+/** The sync works through each source table in turn, then drops embeddings of deleted records. */
+export const embeddingSyncStageValidator = v.union(
+  v.literal('document'),
+  v.literal('entity'),
+  v.literal('fact'),
+  v.literal('note'),
+  v.literal('entityNote'),
+  v.literal('orphans')
+);
+
+export type EmbeddingSyncStage = Infer<typeof embeddingSyncStageValidator>;
+
+const EMBEDDING_SYNC_STAGES: EmbeddingSyncStage[] = [...SEARCH_SOURCE_TYPES, 'orphans'];
+
+export const FIRST_EMBEDDING_SYNC_STAGE: EmbeddingSyncStage = EMBEDDING_SYNC_STAGES[0];
+
+export function nextEmbeddingSyncStage(stage: EmbeddingSyncStage): EmbeddingSyncStage | null {
+  return EMBEDDING_SYNC_STAGES[EMBEDDING_SYNC_STAGES.indexOf(stage) + 1] ?? null;
+}
@@ -2,12 +2,35 @@ import type { Doc, Id } from '../_generated/dataModel';
 import type { MutationCtx, QueryCtx } from '../_generated/server';
 import { requireAuthUser } from './auth';
 import { authError, conflictError, notFoundError } from './errors';
+import { getProjectRoleForUser, roleCanEdit, roleCanRead } from './projectAccess';
 
 type StorageAccess = {
   user: Doc<'users'>;
   document?: Doc<'documents'>;
 };
 
+/** Every stored file a document owns, to delete along with it. */
+export function documentStorageIds(doc: Doc<'documents'>): Id<'_storage'>[] {
+  return [doc.storageId, doc.sourceFileId].filter((id): id is Id<'_storage'> => !!id);
+}
+
+async function findDocumentsByStorage(
+  ctx: QueryCtx | MutationCtx,
+  storageId: Id<'_storage'>
+): Promise<Doc<'documents'>[]> {
+  const [text, sources] = await Promise.all([
+    ctx.db
+      .query('documents')
+      .withIndex('by_storage', (q) => q.eq('storageId', storageId))
+      .collect(),
+    ctx.db
+      .query('documents')
+      .withIndex('by_source_file', (q) => q.eq('sourceFileId', storageId))
+      .collect(),
+  ]);
+  return [...text, ...sources];
+}
+
 function storageIdConflict() {
   throw conflictError('File already in use');
 }
@@ -26,11 +49,7 @@ export async function assertStorageIdAvailableForAvatar(
     storageIdConflict();
   }
 
-  const document = await ctx.db
-    .query('documents')
-    .withIndex('by_storage', (q) => q.eq('storageId', storageId))
-    .first();
-
+  const [document] = await findDocumentsByStorage(ctx, storageId);
   if (document) {
     storageIdConflict();
   }
@@ -50,20 +69,42 @@ export async function assertStorageIdAvailableForDocument(
     storageIdConflict();
   }
 
-  const documents = await ctx.db
-    .query('documents')
-    .withIndex('by_storage', (q) => q.eq('storageId', storageId))
-    .collect();
-
+  const documents = await findDocumentsByStorage(ctx, storageId);
   const conflict = documents.find((doc) => doc._id !== ignoreDocumentId);
   if (conflict) {
     storageIdConflict();
   }
 }
 
-export async function requireStorageAccess(
+/**
+ * An upload an import may read and delete once it is done: not a document's or avatar's file,
+ * and not the upload of an import already under way.
+ */
+export async function assertStorageIdAvailableForImport(
   ctx: QueryCtx | MutationCtx,
   storageId: Id<'_storage'>
+): Promise<void> {
+  await assertStorageIdAvailableForDocument(ctx, storageId);
+
+  const [projectImport, vaultImport] = await Promise.all([
+    ctx.db
+      .query('projectImports')
+      .withIndex('by_storage', (q) => q.eq('storageId', storageId))
+      .first(),
+    ctx.db
+      .query('vaultImports')
+      .withIndex('by_storage', (q) => q.eq('storageId', storageId))
+      .first(),
+  ]);
+  if (projectImport || vaultImport) {
+    storageIdConflict();
+  }
+}
+
+export async function requireStorageAccess(
+  ctx: QueryCtx | MutationCtx,
+  storageId: Id<'_storage'>,
+  access: 'read' | 'edit' = 'read'
 ): Promise<StorageAccess> {
   const user = await requireAuthUser(ctx);
 
@@ -71,17 +112,15 @@ export async function requireStorageAccess(
     return { user };
   }
 
-  const document = await ctx.db
-    .query('documents')
-    .withIndex('by_storage', (q) => q.eq('storageId', storageId))
-    .first();
-
+  const [document] = await findDocumentsByStorage(ctx, storageId);
   if (!document) {
     throw notFoundError('file', storageId);
   }
 
   const project = await ctx.db.get(document.projectId);
-  if (!project || project.userId !== user._id) {
+  const role = project ? await getProjectRoleForUser(ctx, project, user._id) : null;
+  const allowed = access === 'edit' ? roleCanEdit(role) : roleCanRead(role);
+  if (!allowed) {
     throw authError('unauthorized', 'You do not have permission to access this file.');
   }
 
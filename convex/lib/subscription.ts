@@ -162,3 +162,13 @@ export async function getEntityCount(
     .collect();
   return entities.length;
 }
+
+// Per-project limits follow the owner's tier, even when a collaborator is acting.
+export async function getProjectOwner(
+  ctx: QueryCtx | MutationCtx,
+  project: Doc<'projects'>,
+  actingUser: Doc<'users'>
+): Promise<Doc<'users'>> {
+  if (project.userId === actingUser._id) return actingUser;
+  return (await ctx.db.get(project.userId)) ?? actingUser;
+}
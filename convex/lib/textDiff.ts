@@ -0,0 +1,171 @@
+// Token-level text diff shared by the document history view (line tokens) and incremental
+// extraction (paragraph tokens). Tokens keep their trailing separator, so concatenating them
+// gives back the original text and every segment carries exact character offsets.
+
+export type DiffSegment = {
+  type: 'equal' | 'change';
+  before: string;
+  after: string;
+  beforeStart: number;
+  afterStart: number;
+};
+
+/** A changed span, as offsets into the old and the new text. */
+export type TextChange = {
+  beforeStart: number;
+  beforeEnd: number;
+  afterStart: number;
+  afterEnd: number;
+};
+
+// Above this many token comparisons the unmatched middle is reported as a single change
+// instead of running the quadratic LCS.
+const MAX_DIFF_CELLS = 4_000_000;
+
+function splitAfter(text: string, separator: RegExp): string[] {
+  const tokens: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(separator)) {
+    const end = match.index + match[0].length;
+    tokens.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) tokens.push(text.slice(start));
+  return tokens;
+}
+
+export function splitLines(text: string): string[] {
+  return splitAfter(text, /\n/g);
+}
+
+/** Paragraphs separated by blank lines, each keeping the blank lines that follow it. */
+export function splitParagraphs(text: string): string[] {
+  return splitAfter(text, /\n\s*\n/g);
+}
+
+type Op = { equal: boolean; before: string[]; after: string[] };
+
+function diffMiddle(before: string[], after: string[]): Op[] {
+  const n = before.length;
+  const m = after.length;
+  if (n === 0 || m === 0 || n * m > MAX_DIFF_CELLS) {
+    return n + m === 0 ? [] : [{ equal: false, before, after }];
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of before[i:] and after[j:]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        before[i] === after[j] ?
+          lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  const push = (equal: boolean, from: string | null, to: string | null) => {
+    let last = ops.at(-1);
+    if (!last || last.equal !== equal) {
+      last = { equal, before: [], after: [] };
+      ops.push(last);
+    }
+    if (from !== null) last.before.push(from);
+    if (to !== null) last.after.push(to);
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      push(true, before[i++], after[j++]);
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      push(false, before[i++], null);
+    } else {
+      push(false, null, after[j++]);
+    }
+  }
+  while (i < n) push(false, before[i++], null);
+  while (j < m) push(false, null, after[j++]);
+  return ops;
+}
+
+/** Diff two texts token by token, returning alternating equal and changed segments. */
+export function diffText(
+  before: string,
+  after: string,
+  split: (text: string) => string[] = splitLines
+): DiffSegment[] {
+  const a = split(before);
+  const b = split(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: Op[] = [
+    { equal: true, before: a.slice(0, prefix), after: b.slice(0, prefix) },
+    ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    { equal: true, before: a.slice(a.length - suffix), after: b.slice(b.length - suffix) },
+  ];
+
+  const segments: DiffSegment[] = [];
+  let beforeStart = 0;
+  let afterStart = 0;
+  for (const op of ops) {
+    if (op.before.length === 0 && op.after.length === 0) continue;
+    const segment: DiffSegment = {
+      type: op.equal ? 'equal' : 'change',
+      before: op.before.join(''),
+      after: op.after.join(''),
+      beforeStart,
+      afterStart,
+    };
+    const last = segments.at(-1);
+    if (last?.type === segment.type) {
+      last.before += segment.before;
+      last.after += segment.after;
+    } else {
+      segments.push(segment);
+    }
+    beforeStart += segment.before.length;
+    afterStart += segment.after.length;
+  }
+  return segments;
+}
+
+export function changedRanges(segments: DiffSegment[]): TextChange[] {
+  return segments
+    .filter((segment) => segment.type === 'change')
+    .map((segment) => ({
+      beforeStart: segment.beforeStart,
+      beforeEnd: segment.beforeStart + segment.before.length,
+      afterStart: segment.afterStart,
+      afterEnd: segment.afterStart + segment.after.length,
+    }));
+}
+
+/**
+ * Carry a range in the old text over to the new one. Returns null when the range overlaps a
+ * change, since its text may no longer exist.
+ */
+export function mapRange(
+  range: { start: number; end: number },
+  changes: TextChange[]
+): { start: number; end: number } | null {
+  let shift = 0;
+  for (const change of changes) {
+    if (range.start < change.beforeEnd && range.end > change.beforeStart) return null;
+    if (change.beforeEnd <= range.start) {
+      shift = change.afterEnd - change.beforeEnd;
+    }
+  }
+  return { start: range.start + shift, end: range.end + shift };
+}
@@ -0,0 +1,803 @@
+import { v, type Infer } from 'convex/values';
+import { strFromU8, unzipSync } from 'fflate';
+import type { Id } from '../_generated/dataModel';
+import { MAX_INLINE_CONTENT_BYTES } from './constants';
+import { validationError } from './errors';
+
+// Reads an existing wiki into notes: a zip of markdown files (an Obsidian vault or any folder of
+// notes with frontmatter and [[wikilinks]]), or a World Anvil JSON export. Both formats produce
+// the same notes, so planning what to create from them doesn't care where they came from.
+
+export const vaultFormatValidator = v.union(v.literal('markdown'), v.literal('worldanvil'));
+
+export type VaultFormat = Infer<typeof vaultFormatValidator>;
+
+export const vaultLinkValidator = v.object({
+  target: v.string(),
+  type: v.string(),
+  evidence: v.string(),
+  // Where the evidence sits in the note's content; absent for links made in frontmatter.
+  start: v.optional(v.number()),
+  end: v.optional(v.number()),
+});
+
+export const vaultNoteValidator = v.object({
+  title: v.string(),
+  path: v.string(),
+  content: v.string(),
+  aliases: v.array(v.string()),
+  description: v.optional(v.string()),
+  // A type the note declares outright; notes without one are typed from tags or folders, if any.
+  declaredType: v.optional(v.string()),
+  typeHints: v.array(v.string()),
+  links: v.array(vaultLinkValidator),
+});
+
+export type VaultLink = Infer<typeof vaultLinkValidator>;
+export type VaultNote = Infer<typeof vaultNoteValidator>;
+
+export type SkippedVaultFile = { path: string; reason: string };
+
+export type VaultArchive = {
+  format: VaultFormat;
+  notes: VaultNote[];
+  skipped: SkippedVaultFile[];
+};
+
+/** Files the importer accepts, for the upload input's `accept` attribute. */
+export const VAULT_FILE_ACCEPT = '.zip,.json,application/zip,application/json';
+
+// Relationship type for a link written in a note's body rather than under a frontmatter key.
+export const BODY_LINK_TYPE = 'mentions';
+
+const MAX_EVIDENCE_CHARS = 300;
+
+function fileError(message: string) {
+  return validationError('file', message);
+}
+
+export function fitsInline(content: string): boolean {
+  return new TextEncoder().encode(content).length <= MAX_INLINE_CONTENT_BYTES;
+}
+
+/** Lowercased and trimmed, so names can be matched the way wikilinks match note titles. */
+export function vaultKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// Links, which both vault formats turn into relationships.
+
+type FoundLink = { target: string; start: number; end: number };
+
+/**
+ * Replace every match of `pattern` with the text a reader sees, recording where each link
+ * landed in the result. `read` returns null for matches that should simply disappear.
+ */
+function replaceLinks(
+  text: string,
+  pattern: RegExp,
+  read: (match: RegExpMatchArray) => { target: string; label: string } | null
+): { content: string; links: FoundLink[] } {
+  let content = '';
+  let last = 0;
+  const links: FoundLink[] = [];
+  for (const match of text.matchAll(pattern)) {
+    content += text.slice(last, match.index);
+    last = (match.index ?? 0) + match[0].length;
+    const link = read(match);
+    if (!link) continue;
+    if (link.target) {
+      links.push({
+        target: link.target,
+        start: content.length,
+        end: content.length + link.label.length,
+      });
+    }
+    content += link.label;
+  }
+  content += text.slice(last);
+  return { content, links };
+}
+
+/** The line holding a link, clipped to a readable length around it. */
+function evidenceFor(content: string, { target, start, end }: FoundLink): VaultLink {
+  let lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  let lineEnd = content.indexOf('\n', end);
+  if (lineEnd < 0) lineEnd = content.length;
+  const slack = Math.max(0, Math.floor((MAX_EVIDENCE_CHARS - (end - start)) / 2));
+  lineStart = Math.max(lineStart, start - slack);
+  lineEnd = Math.min(lineEnd, end + slack);
+  while (lineStart < start && /\s/.test(content[lineStart])) lineStart++;
+  while (lineEnd > end && /\s/.test(content[lineEnd - 1])) lineEnd--;
+  return {
+    target,
+    type: BODY_LINK_TYPE,
+    evidence: content.slice(lineStart, lineEnd),
+    start: lineStart,
+    end: lineEnd,
+  };
+}
+
+// One link per target and type, leaving out links back to the note itself, and plain mentions of
+// a target the note already links to under a named relationship.
+function uniqueLinks(links: VaultLink[], title: string): VaultLink[] {
+  const seen = new Set<string>();
+  const named = new Set(
+    links.filter((link) => link.type !== BODY_LINK_TYPE).map((link) => vaultKey(link.target))
+  );
+  return links.filter((link) => {
+    const target = vaultKey(link.target);
+    const key = `${target}\u0000${link.type}`;
+    if (target === vaultKey(title) || seen.has(key)) return false;
+    if (link.type === BODY_LINK_TYPE && named.has(target)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Markdown vaults.
+
+// [[Target]], [[Target|label]], [[Target#Heading]] and embeds written as ![[file.png]].
+const WIKILINK_PATTERN = /(!?)\[\[([^\]|#\n]*)(#[^\]|\n]*)?(?:\|([^\]\n]*))?\]\]/g;
+
+// Embedded images and notes, which have no text of their own to keep.
+const EMBED_PATTERN = /!\[\[[^\]\n]*\]\]/g;
+
+// Obsidian links may include the folder; notes are matched by name alone.
+function linkTarget(raw: string): string {
+  return raw.split('/').pop()?.trim() ?? '';
+}
+
+function flattenWikilinks(text: string): { content: string; links: FoundLink[] } {
+  return replaceLinks(text, WIKILINK_PATTERN, (match) => {
+    if (match[1]) return null;
+    const target = linkTarget(match[2]);
+    const label = match[4]?.trim() || target || match[3]?.slice(1).trim() || '';
+    return { target, label };
+  });
+}
+
+type Frontmatter = Record<string, string[]>;
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  const quoted = /^(['"])(.*)\1$/.exec(trimmed);
+  return quoted ? quoted[2] : trimmed;
+}
+
+function splitInlineList(value: string): string[] {
+  const inner = value.trim().slice(1, -1);
+  return inner.split(',').map(unquote).filter(Boolean);
+}
+
+/**
+ * The simple YAML notes use for frontmatter: `key: value`, `key: [a, b]` and `key:` followed by
+ * `- item` lines. Every value comes back as a list. Anything fancier is ignored.
+ */
+export function parseFrontmatter(text: string): { data: Frontmatter; body: string } {
+  const match = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) return { data: {}, body: text };
+
+  const data: Frontmatter = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = /^\s+-\s+(.*)$|^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      const value = unquote(item[1] ?? item[2]);
+      if (value) data[listKey].push(value);
+      continue;
+    }
+    const entry = /^([A-Za-z_][\w -]*?)\s*:\s*(.*)$/.exec(line);
+    if (!entry) continue;
+    const key = entry[1].trim().toLowerCase();
+    const value = entry[2].trim();
+    if (!value) {
+      data[key] = [];
+      listKey = key;
+    } else {
+      data[key] =
+        value.startsWith('[') && value.endsWith(']') && !value.startsWith('[[') ?
+          splitInlineList(value)
+        : [unquote(value)];
+      listKey = null;
+    }
+  }
+  return { data, body: text.slice(match[0].length) };
+}
+
+// Frontmatter keys that describe the note itself; any other key holding wikilinks is a
+// relationship named after the key.
+const NOTE_KEYS = new Set([
+  'title',
+  'aliases',
+  'alias',
+  'tags',
+  'tag',
+  'type',
+  'category',
+  'kind',
+  'description',
+  'summary',
+  'cssclass',
+  'cssclasses',
+  'publish',
+  'permalink',
+]);
+
+function firstValue(data: Frontmatter, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = data[key]?.find(Boolean);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function relationshipType(key: string): string {
+  return key.replace(/[_-]+/g, ' ').trim();
+}
+
+function frontmatterLinks(data: Frontmatter): VaultLink[] {
+  const links: VaultLink[] = [];
+  for (const [key, values] of Object.entries(data)) {
+    if (NOTE_KEYS.has(key)) continue;
+    for (const value of values) {
+      for (const link of flattenWikilinks(value).links) {
+        if (!link.target) continue;
+        links.push({
+          target: link.target,
+          type: relationshipType(key),
+          evidence: `${key}: ${link.target}`,
+        });
+      }
+    }
+  }
+  return links;
+}
+
+function isIgnoredPath(path: string): boolean {
+  return path
+    .split('/')
+    .some((segment) => segment.startsWith('.') || segment === '__MACOSX' || segment === '');
+}
+
+/** One markdown note, typed from its frontmatter, its tags, or the folders it sits in. */
+export function parseMarkdownNote(path: string, text: string): VaultNote {
+  const segments = path.split('/');
+  const fileName = segments.pop() ?? path;
+  const { data, body } = parseFrontmatter(text.replace(/^\uFEFF/, ''));
+  const { content, links } = flattenWikilinks(
+    body
+      .replace(EMBED_PATTERN, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  );
+  const title = firstValue(data, 'title') ?? fileName.replace(/\.(md|markdown)$/i, '');
+
+  const tags = [...(data.tags ?? []), ...(data.tag ?? [])].flatMap((tag) =>
+    tag.replace(/^#/, '').split('/')
+  );
+
+  return {
+    title: title.trim(),
+    path,
+    content,
+    aliases: [...(data.aliases ?? []), ...(data.alias ?? [])].filter(
+      (alias) => vaultKey(alias) !== vaultKey(title)
+    ),
+    description: firstValue(data, 'description', 'summary'),
+    declaredType: firstValue(data, 'type', 'category', 'kind'),
+    typeHints: [...tags, ...segments.toReversed()],
+    links: uniqueLinks(
+      [...frontmatterLinks(data), ...links.map((link) => evidenceFor(content, link))],
+      title
+    ),
+  };
+}
+
+// World Anvil exports.
+
+// Mentions look like @[Aria Vance](person:1f2e...); the id finds the article when titles differ.
+const WORLD_ANVIL_MENTION_PATTERN = /@\[([^\]\n]+)\]\(([\w-]+):([^)\s]+)\)/g;
+
+/** World Anvil's BBCode, as markdown. Unknown tags are dropped and their text kept. */
+export function bbcodeToMarkdown(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\[br\]/gi, '\n')
+    .replace(/\[h(\d)\]([\s\S]*?)\[\/h\1\]/gi, (_, level: string, heading: string) => {
+      return `\n\n${'#'.repeat(Math.min(Number(level), 6))} ${heading.trim()}\n\n`;
+    })
+    .replace(/\[b\]([\s\S]*?)\[\/b\]/gi, '**$1**')
+    .replace(/\[i\]([\s\S]*?)\[\/i\]/gi, '*$1*')
+    .replace(/\[s\]([\s\S]*?)\[\/s\]/gi, '~~$1~~')
+    .replace(/\[img[^\]]*\][\s\S]*?\[\/img\]/gi, '')
+    .replace(/\[quote[^\]]*\]([\s\S]*?)\[\/quote\]/gi, (_, quote: string) => {
+      const lines = quote.trim().split('\n');
+      return `\n\n${lines.map((line) => `> ${line}`).join('\n')}\n\n`;
+    })
+    .replace(/\[li\]([\s\S]*?)(?:\[\/li\]|(?=\[li\]|\[\/[uo]l\]))/gi, '\n- $1')
+    .replace(/(?<!@)\[\/?(?!url\b)[a-z][\w-]*(?:[=:][^\]]*)?\]/gi, '')
+    .replace(/\[url=([^\]]+)\]([\s\S]*?)\[\/url\]/gi, '[$2]($1)')
+    .replace(/\[url\]([\s\S]*?)\[\/url\]/gi, '$1')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+type WorldAnvilArticle = Record<string, unknown>;
+
+function stringField(article: WorldAnvilArticle, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = article[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+function listField(article: WorldAnvilArticle, ...keys: string[]): string[] {
+  return keys.flatMap((key) => {
+    const value = article[key];
+    if (Array.isArray(value)) {
+      return value.filter((item): item is string => typeof item === 'string');
+    }
+    return typeof value === 'string' ? value.split(',') : [];
+  });
+}
+
+function isArticle(value: unknown): value is WorldAnvilArticle {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    typeof (value as WorldAnvilArticle).title === 'string'
+  );
+}
+
+/** Articles in a parsed export: a list, `{ articles: [...] }`, or a single article. */
+export function worldAnvilArticles(json: unknown): WorldAnvilArticle[] {
+  if (Array.isArray(json)) return json.filter(isArticle);
+  if (
+    json &&
+    typeof json === 'object' &&
+    Array.isArray((json as { articles?: unknown }).articles)
+  ) {
+    return (json as { articles: unknown[] }).articles.filter(isArticle);
+  }
+  return isArticle(json) ? [json] : [];
+}
+
+/** World Anvil articles as notes. Generic articles and prose become documents only. */
+export function parseWorldAnvilArticles(
+  articles: WorldAnvilArticle[],
+  source: string
+): VaultNote[] {
+  const titleById = new Map<string, string>();
+  for (const article of articles) {
+    const id = stringField(article, 'id');
+    if (id) titleById.set(id, String(article.title).trim());
+  }
+
+  return articles.map((article) => {
+    const title = String(article.title).trim();
+    const markdown = bbcodeToMarkdown(stringField(article, 'content') ?? '');
+    const { content, links } = replaceLinks(markdown, WORLD_ANVIL_MENTION_PATTERN, (match) => ({
+      target: titleById.get(match[3]) ?? match[1].trim(),
+      label: match[1].trim(),
+    }));
+    const articleType = stringField(article, 'entityClass', 'templateType', 'type');
+    const excerpt = stringField(article, 'excerpt', 'subheading');
+
+    return {
+      title,
+      path: `${source}/${stringField(article, 'slug', 'id') ?? title}`,
+      content,
+      aliases: listField(article, 'aliases', 'nickname', 'alternativeNames')
+        .map((alias) => alias.trim())
+        .filter((alias) => alias && vaultKey(alias) !== vaultKey(title)),
+      description: excerpt && bbcodeToMarkdown(excerpt),
+      declaredType: articleType,
+      typeHints: listField(article, 'tags').map((tag) => tag.trim()),
+      links: uniqueLinks(
+        links.map((link) => evidenceFor(content, link)),
+        title
+      ),
+    };
+  });
+}
+
+// Reading the uploaded archive.
+
+function parseJson(bytes: Uint8Array, path: string): unknown {
+  try {
+    return JSON.parse(strFromU8(bytes));
+  } catch {
+    throw fileError(`${path} is not valid JSON.`);
+  }
+}
+
+function isZip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x50 && bytes[1] === 0x4b;
+}
+
+/**
+ * Notes from an uploaded vault. Notes too long to store inline, and notes whose title repeats an
+ * earlier one, are skipped and listed rather than failing the whole import.
+ */
+export function readVaultArchive(bytes: Uint8Array, fileName: string): VaultArchive {
+  let format: VaultFormat;
+  let notes: VaultNote[];
+
+  if (!isZip(bytes)) {
+    if (!/\.json$/i.test(fileName) && bytes[0] !== 0x7b && bytes[0] !== 0x5b) {
+      throw fileError('Upload a zip of markdown notes, or a World Anvil JSON export.');
+    }
+    format = 'worldanvil';
+    notes = parseWorldAnvilArticles(worldAnvilArticles(parseJson(bytes, fileName)), fileName);
+  } else {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(bytes);
+    } catch {
+      throw fileError('This zip file could not be read.');
+    }
+    const paths = Object.keys(files)
+      .filter((path) => !isIgnoredPath(path))
+      .toSorted();
+    const markdownPaths = paths.filter((path) => /\.(md|markdown)$/i.test(path));
+
+    if (markdownPaths.length > 0) {
+      format = 'markdown';
+      notes = markdownPaths.map((path) => parseMarkdownNote(path, strFromU8(files[path])));
+    } else {
+      format = 'worldanvil';
+      notes = paths
+        .filter((path) => /\.json$/i.test(path))
+        .flatMap((path) =>
+          parseWorldAnvilArticles(worldAnvilArticles(parseJson(files[path], path)), path)
+        );
+    }
+  }
+
+  if (notes.length === 0) {
+    throw fileError('No markdown notes or World Anvil articles were found in this file.');
+  }
+
+  const skipped: SkippedVaultFile[] = [];
+  const titles = new Set<string>();
+  const kept = notes.filter((note) => {
+    const key = vaultKey(note.title);
+    let reason: string | null = null;
+    if (!key) reason = 'Note has no title.';
+    else if (titles.has(key)) reason = `Another note is already titled "${note.title}".`;
+    else if (!fitsInline(note.content)) reason = 'Note is too long to store as one document.';
+    if (reason) {
+      skipped.push({ path: note.path, reason });
+      return false;
+    }
+    titles.add(key);
+    return true;
+  });
+
+  return { format, notes: kept, skipped };
+}
+
+// Planning what an import creates.
+
+type EntityType = 'character' | 'location' | 'item' | 'concept' | 'event';
+
+// Words vaults and World Anvil use for kinds of article, by the built-in type they map to.
+const TYPE_WORDS: Record<EntityType, string[]> = {
+  character: ['character', 'person', 'people', 'npc', 'pc', 'deity', 'god', 'creature'],
+  location: [
+    'location',
+    'place',
+    'settlement',
+    'city',
+    'town',
+    'village',
+    'region',
+    'country',
+    'landmark',
+    'building',
+    'geography',
+    'geographic location',
+    'planet',
+  ],
+  item: ['item', 'artifact', 'artefact', 'object', 'weapon', 'material', 'vehicle', 'technology'],
+  concept: [
+    'concept',
+    'faction',
+    'organization',
+    'organisation',
+    'religion',
+    'species',
+    'ethnicity',
+    'culture',
+    'language',
+    'magic',
+    'spell',
+    'tradition',
+    'profession',
+    'rank',
+    'law',
+    'myth',
+    'condition',
+    'lore',
+  ],
+  event: ['event', 'history', 'battle', 'war', 'military conflict', 'conflict'],
+};
+
+// Declared types for writing rather than things in the world, such as World Anvil's generic
+// articles; notes declaring one become documents only.
+const DOCUMENT_WORDS = new Set(['article', 'generic', 'prose', 'report', 'document', 'note']);
+
+const TYPE_BY_WORD = new Map(
+  Object.entries(TYPE_WORDS).flatMap(([type, words]) =>
+    words.map((word) => [word, type as EntityType])
+  )
+);
+
+function builtInTypeFor(word: string): EntityType | undefined {
+  const normalized = word.toLowerCase().replace(/[_-]+/g, ' ').trim();
+  return (
+    TYPE_BY_WORD.get(normalized) ??
+    TYPE_BY_WORD.get(normalized.replace(/ies$/, 'y')) ??
+    TYPE_BY_WORD.get(normalized.replace(/s$/, ''))
+  );
+}
+
+const entityTypeValidator = v.union(
+  v.literal('character'),
+  v.literal('location'),
+  v.literal('item'),
+  v.literal('concept'),
+  v.literal('event')
+);
+
+export const vaultImportContextValidator = v.object({
+  customTypes: v.array(
+    v.object({ _id: v.id('entityTypes'), name: v.string(), baseType: entityTypeValidator })
+  ),
+  // Entities already in the project whose name matches a note title or link target.
+  existing: v.array(
+    v.object({ _id: v.id('entities'), name: v.string(), type: entityTypeValidator })
+  ),
+});
+
+export type VaultImportContext = Infer<typeof vaultImportContextValidator>;
+
+export type ResolvedNoteType = {
+  type: EntityType;
+  customTypeId?: Id<'entityTypes'>;
+  label: string;
+};
+
+/**
+ * The entity type a note describes: a declared type, else the first tag or folder that names one.
+ * A declared type nothing recognizes still makes the note an entity, as a concept. Null means the
+ * note is a document only.
+ */
+export function resolveNoteType(
+  note: Pick<VaultNote, 'declaredType' | 'typeHints'>,
+  customTypes: VaultImportContext['customTypes']
+): ResolvedNoteType | null {
+  const resolve = (word: string): ResolvedNoteType | null => {
+    const custom = customTypes.find((type) => vaultKey(type.name) === vaultKey(word));
+    if (custom) return { type: custom.baseType, customTypeId: custom._id, label: custom.name };
+    const builtIn = builtInTypeFor(word);
+    return builtIn ? { type: builtIn, label: builtIn } : null;
+  };
+
+  if (note.declaredType) {
+    if (DOCUMENT_WORDS.has(vaultKey(note.declaredType))) return null;
+    return resolve(note.declaredType) ?? { type: 'concept', label: 'concept' };
+  }
+  for (const hint of note.typeHints) {
+    const resolved = resolve(hint);
+    if (resolved) return resolved;
+  }
+  return null;
+}
+
+export const entityResolutionValidator = v.union(
+  v.literal('merge'),
+  v.literal('skip'),
+  v.literal('create')
+);
+
+export type EntityResolution = Infer<typeof entityResolutionValidator>;
+
+export type PlannedEntity = ResolvedNoteType & {
+  name: string;
+  aliases: string[];
+  description?: string;
+  noteIndex: number;
+  // An entity already in the project under the same name.
+  conflict: VaultImportContext['existing'][number] | null;
+};
+
+export const plannedRelationshipValidator = v.object({
+  ...vaultLinkValidator.fields,
+  source: v.string(),
+  noteIndex: v.number(),
+});
+
+export type PlannedRelationship = Infer<typeof plannedRelationshipValidator>;
+
+export type VaultImportPlan = {
+  entities: PlannedEntity[];
+  relationships: PlannedRelationship[];
+  // Link targets that are neither a typed note nor an existing entity.
+  unresolvedLinks: string[];
+};
+
+/** What importing the notes would create, and which entities collide with existing ones. */
+export function planVaultImport(notes: VaultNote[], context: VaultImportContext): VaultImportPlan {
+  const existingByName = new Map(context.existing.map((entity) => [entity.name, entity]));
+  const entities: PlannedEntity[] = [];
+  for (const [noteIndex, note] of notes.entries()) {
+    const resolved = resolveNoteType(note, context.customTypes);
+    if (!resolved) continue;
+    entities.push({
+      ...resolved,
+      name: note.title,
+      aliases: [...new Set(note.aliases)],
+      description: note.description,
+      noteIndex,
+      conflict: existingByName.get(note.title) ?? null,
+    });
+  }
+
+  const plannedKeys = new Set(entities.map((entity) => vaultKey(entity.name)));
+  const existingNames = new Set(context.existing.map((entity) => entity.name));
+  const relationships: PlannedRelationship[] = [];
+  const unresolved = new Set<string>();
+  for (const entity of entities) {
+    for (const link of notes[entity.noteIndex].links) {
+      if (plannedKeys.has(vaultKey(link.target)) || existingNames.has(link.target)) {
+        relationships.push({ ...link, source: entity.name, noteIndex: entity.noteIndex });
+      } else {
+        unresolved.add(link.target);
+      }
+    }
+  }
+
+  return { entities, relationships, unresolvedLinks: [...unresolved].toSorted() };
+}
+
+// An import writes documents, then entities, then relationships, a batch at a time. Every run
+// rebuilds the same records from the upload and the context saved when the import started, so a
+// batch's cursor means the same thing however many runs it takes.
+
+export const vaultImportStageValidator = v.union(
+  v.literal('documents'),
+  v.literal('entities'),
+  v.literal('relationships'),
+  // Every record is written; the id map is being cleared.
+  v.literal('cleanup')
+);
+
+export type VaultImportStage = Exclude<Infer<typeof vaultImportStageValidator>, 'cleanup'>;
+
+const VAULT_IMPORT_STAGES: VaultImportStage[] = ['documents', 'entities', 'relationships'];
+
+export const vaultImportResultValidator = v.object({
+  documentsCreated: v.number(),
+  entitiesCreated: v.number(),
+  entitiesMerged: v.number(),
+  entitiesSkipped: v.number(),
+  relationshipsCreated: v.number(),
+});
+
+export type VaultImportResult = Infer<typeof vaultImportResultValidator>;
+
+const vaultDocumentRecordValidator = v.object({
+  noteIndex: v.number(),
+  title: v.string(),
+  content: v.string(),
+});
+
+const vaultEntityRecordValidator = v.object({
+  name: v.string(),
+  type: entityTypeValidator,
+  customTypeId: v.optional(v.id('entityTypes')),
+  aliases: v.array(v.string()),
+  description: v.optional(v.string()),
+  noteIndex: v.number(),
+  resolution: entityResolutionValidator,
+  // The existing entity of the same name, for a merge.
+  conflictId: v.optional(v.id('entities')),
+});
+
+/** One batch of one stage's records. */
+export const vaultImportBatchValidator = v.union(
+  v.object({ stage: v.literal('documents'), records: v.array(vaultDocumentRecordValidator) }),
+  v.object({ stage: v.literal('entities'), records: v.array(vaultEntityRecordValidator) }),
+  v.object({
+    stage: v.literal('relationships'),
+    records: v.array(plannedRelationshipValidator),
+  })
+);
+
+export type VaultImportBatch = Infer<typeof vaultImportBatchValidator>;
+
+export type VaultImportRecords = {
+  documents: Infer<typeof vaultDocumentRecordValidator>[];
+  entities: Infer<typeof vaultEntityRecordValidator>[];
+  relationships: PlannedRelationship[];
+};
+
+const MAX_BATCH_RECORDS = 100;
+// Well under the argument size of a single mutation, even for notes near the inline limit.
+const MAX_BATCH_BYTES = 2 * 1024 * 1024;
+
+/**
+ * What the import writes: notes with text as documents, planned entities with how each is
+ * resolved, and the relationships between entities that aren't skipped. Entities that collide with
+ * an existing one merge into it unless `resolutions` says otherwise.
+ */
+export function vaultImportRecords(
+  notes: VaultNote[],
+  plan: VaultImportPlan,
+  resolutions: { name: string; resolution: EntityResolution }[]
+): VaultImportRecords {
+  const resolutionByName = new Map(resolutions.map(({ name, resolution }) => [name, resolution]));
+  const entities = plan.entities.map((entity) => ({
+    name: entity.name,
+    type: entity.type,
+    customTypeId: entity.customTypeId,
+    aliases: entity.aliases,
+    description: entity.description,
+    noteIndex: entity.noteIndex,
+    resolution:
+      entity.conflict ? (resolutionByName.get(entity.name) ?? 'merge') : ('create' as const),
+    conflictId: entity.conflict?._id,
+  }));
+  const skippedKeys = new Set(
+    entities.filter((entity) => entity.resolution === 'skip').map((entity) => vaultKey(entity.name))
+  );
+
+  return {
+    documents: [...notes.entries()]
+      .filter(([, note]) => note.content.trim())
+      .map(([noteIndex, note]) => ({ noteIndex, title: note.title, content: note.content })),
+    entities,
+    relationships: plan.relationships.filter(
+      (link) => !skippedKeys.has(vaultKey(link.source)) && !skippedKeys.has(vaultKey(link.target))
+    ),
+  };
+}
+
+export function countVaultImportRecords(records: VaultImportRecords): number {
+  return VAULT_IMPORT_STAGES.reduce((total, stage) => total + records[stage].length, 0);
+}
+
+/** The next slice of a stage to import, bounded by count and size. */
+export function nextVaultImportBatch(
+  records: VaultImportRecords,
+  stage: VaultImportStage,
+  cursor: number
+): VaultImportBatch {
+  const batch: VaultImportRecords[VaultImportStage][number][] = [];
+  let bytes = 0;
+  for (const record of records[stage].slice(cursor, cursor + MAX_BATCH_RECORDS)) {
+    bytes += JSON.stringify(record).length;
+    if (batch.length > 0 && bytes > MAX_BATCH_BYTES) break;
+    batch.push(record);
+  }
+  // The records were all taken from `records[stage]`, which TypeScript can't follow through `stage`.
+  return { stage, records: batch } as VaultImportBatch;
+}
+
+/** The stage after `stage`, skipping empty ones; `cleanup` once every stage is done. */
+export function nextVaultImportStage(
+  records: VaultImportRecords,
+  stage: VaultImportStage
+): VaultImportStage | 'cleanup' {
+  const index = VAULT_IMPORT_STAGES.indexOf(stage);
+  return VAULT_IMPORT_STAGES.slice(index + 1).find((next) => records[next].length > 0) ?? 'cleanup';
+}
+
+export function firstVaultImportStage(records: VaultImportRecords): VaultImportStage | 'cleanup' {
+  return VAULT_IMPORT_STAGES.find((stage) => records[stage].length > 0) ?? 'cleanup';
+}
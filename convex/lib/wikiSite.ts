@@ -0,0 +1,440 @@
+import type { ProjectExport } from './projectExport';
+
+// A static HTML wiki built from a project export, for reading offline. Pages link to each other
+// by relative path so the unzipped folder works straight from disk, with no scripts. Everything
+// on a page comes from the export, so a player-safe export makes a player edition.
+
+type EntityType = ProjectExport['entities'][number]['type'];
+type ExportedEntity = ProjectExport['entities'][number];
+type ExportedDocument = ProjectExport['documents'][number];
+
+export type WikiTimelineEvent = {
+  entityId: string;
+  date: string | null; // In-world date label; null when the project can't place the event
+};
+
+export type WikiSiteInput = {
+  data: ProjectExport;
+  timeline: WikiTimelineEvent[]; // Events in in-world order
+  playerEdition: boolean;
+};
+
+const BUILT_IN_TYPES: EntityType[] = ['character', 'location', 'item', 'concept', 'event'];
+
+const TYPE_LABELS: Record<EntityType, string> = {
+  character: 'Characters',
+  location: 'Locations',
+  item: 'Items',
+  concept: 'Concepts',
+  event: 'Events',
+};
+
+// Same hues as the app's entity colors.
+const TYPE_COLORS: Record<EntityType, string> = {
+  character: 'oklch(0.6 0.17 197)',
+  location: 'oklch(0.6 0.15 165)',
+  item: 'oklch(0.7 0.16 55)',
+  concept: 'oklch(0.6 0.2 300)',
+  event: 'oklch(0.6 0.14 250)',
+};
+
+const STYLESHEET = `:root { color-scheme: light dark; --accent: oklch(0.55 0.12 265); }
+body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; margin: 0; }
+header { border-bottom: 1px solid color-mix(in oklch, currentColor 20%, transparent); padding: 1rem 1.5rem; }
+header a.home { font-weight: bold; text-decoration: none; }
+nav { display: flex; flex-wrap: wrap; gap: 0.75rem; margin-top: 0.5rem; font-size: 0.9rem; }
+main { max-width: 52rem; margin: 0 auto; padding: 1.5rem; }
+footer { font-size: 0.8rem; opacity: 0.7; text-align: center; padding: 2rem 1rem; }
+a { color: var(--accent); }
+.type { display: inline-block; font-size: 0.8rem; padding: 0.1rem 0.5rem; border-radius: 999px; color: white; text-decoration: none; }
+.aliases, .meta { opacity: 0.75; font-style: italic; }
+.facts li { margin-bottom: 0.75rem; }
+blockquote { margin: 0.25rem 0 0 0; padding-left: 0.75rem; border-left: 3px solid color-mix(in oklch, currentColor 25%, transparent); font-size: 0.9rem; }
+ol.timeline { list-style: none; padding: 0; }
+ol.timeline li { border-left: 3px solid var(--accent); padding: 0 0 1rem 1rem; }
+.date { font-weight: bold; }
+svg { width: 100%; height: auto; }
+svg text { font-size: 12px; fill: currentColor; }
+svg line { stroke: currentColor; stroke-opacity: 0.35; }
+.notice { padding: 0.75rem 1rem; border-radius: 0.5rem; background: color-mix(in oklch, currentColor 8%, transparent); }
+`;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function slugify(text: string): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return slug || 'page';
+}
+
+function uniqueSlug(name: string, used: Set<string>): string {
+  const base = slugify(name);
+  let slug = base;
+  for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+  used.add(slug);
+  return slug;
+}
+
+/** File names for a folder of pages, unique in first-come order. */
+function assignSlugs<T>(
+  items: T[],
+  key: (item: T) => string,
+  name: (item: T) => string
+): Map<string, string> {
+  const used = new Set<string>();
+  return new Map(items.map((item) => [key(item), uniqueSlug(name(item), used)]));
+}
+
+function renderInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*?)\*/g, '$1<em>$2</em>');
+}
+
+/** Headings, lists and paragraphs of markdown or plain text; other markup stays as text. */
+export function renderDocumentText(text: string): string {
+  const blocks = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map((block) => block.trim())
+    .filter(Boolean);
+
+  return blocks
+    .map((block) => {
+      const lines = block.split('\n');
+      const heading = /^(#{1,4})\s+(.*)$/.exec(block);
+      if (heading && lines.length === 1) {
+        // The page title is the only h1.
+        const level = heading[1].length + 1;
+        return `<h${level}>${renderInline(heading[2])}</h${level}>`;
+      }
+      if (lines.every((line) => /^\s*[-*]\s+/.test(line))) {
+        const items = lines.map(
+          (line) => `<li>${renderInline(line.replace(/^\s*[-*]\s+/, ''))}</li>`
+        );
+        return `<ul>${items.join('')}</ul>`;
+      }
+      return `<p>${lines.map(renderInline).join('<br>')}</p>`;
+    })
+    .join('\n');
+}
+
+type TypePage = { slug: string; label: string; color: string; entities: ExportedEntity[] };
+
+function groupByType(data: ProjectExport): TypePage[] {
+  const customTypes = new Map(data.entityTypes.map((type) => [type.name, type]));
+  const groups: Array<Omit<TypePage, 'slug'>> = [
+    ...BUILT_IN_TYPES.map((type) => ({
+      label: TYPE_LABELS[type],
+      color: TYPE_COLORS[type],
+      entities: data.entities.filter(
+        (entity) =>
+          entity.type === type && !(entity.customType && customTypes.has(entity.customType))
+      ),
+    })),
+    ...data.entityTypes.map((type) => ({
+      label: type.name,
+      color: TYPE_COLORS[type.baseType],
+      entities: data.entities.filter((entity) => entity.customType === type.name),
+    })),
+  ];
+  const used = new Set<string>();
+  return groups
+    .filter((group) => group.entities.length > 0)
+    .map((group) => ({
+      ...group,
+      slug: uniqueSlug(group.label, used),
+      entities: group.entities.toSorted((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
+
+/** Every page of the site, keyed by path inside the site folder. */
+export function buildWikiSite({
+  data,
+  timeline,
+  playerEdition,
+}: WikiSiteInput): Record<string, string> {
+  const { project } = data;
+  const typePages = groupByType(data);
+  const typeOf = new Map<string, TypePage>();
+  for (const page of typePages) {
+    for (const entity of page.entities) typeOf.set(entity.id, page);
+  }
+
+  const entitySlugs = assignSlugs(
+    data.entities,
+    (entity) => entity.id,
+    (entity) => entity.name
+  );
+  const documentSlugs = assignSlugs(
+    data.documents,
+    (doc) => doc.id,
+    (doc) => doc.title
+  );
+  const entitiesById = new Map(data.entities.map((entity) => [entity.id, entity]));
+  const documentsById = new Map(data.documents.map((doc) => [doc.id, doc]));
+  const documents = data.documents.toSorted((a, b) => a.orderIndex - b.orderIndex);
+  const relationships = data.relationships.filter(
+    (relationship) =>
+      entitiesById.has(relationship.sourceEntityId) && entitiesById.has(relationship.targetEntityId)
+  );
+
+  const entityLink = (id: string, root: string) => {
+    const entity = entitiesById.get(id);
+    if (!entity) return '';
+    return `<a href="${root}entities/${entitySlugs.get(id)}.html">${escapeHtml(entity.name)}</a>`;
+  };
+  const documentLink = (id: string | undefined, root: string) => {
+    const doc = id ? documentsById.get(id) : undefined;
+    if (!doc) return '';
+    return `<a href="${root}documents/${documentSlugs.get(doc.id)}.html">${escapeHtml(doc.title)}</a>`;
+  };
+  const typeBadge = (entity: ExportedEntity, root: string) => {
+    const page = typeOf.get(entity.id);
+    if (!page) return '';
+    return `<a class="type" style="background:${page.color}" href="${root}types/${page.slug}.html">${escapeHtml(page.label)}</a>`;
+  };
+
+  const layout = (title: string, root: string, body: string) => {
+    const nav = [
+      ...typePages.map(
+        (page) => `<a href="${root}types/${page.slug}.html">${escapeHtml(page.label)}</a>`
+      ),
+      `<a href="${root}documents.html">Documents</a>`,
+      `<a href="${root}timeline.html">Timeline</a>`,
+      `<a href="${root}graph.html">Relationships</a>`,
+    ];
+    const pageTitle = title === project.name ? title : `${title} · ${project.name}`;
+    return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(pageTitle)}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+<header>
+<a class="home" href="${root}index.html">${escapeHtml(project.name)}</a>
+<nav>${nav.join('\n')}</nav>
+</header>
+<main>
+${body}
+</main>
+<footer>${playerEdition ? 'Player edition. ' : ''}Exported ${escapeHtml(project.exportedAt.slice(0, 10))}.</footer>
+</body>
+</html>
+`;
+  };
+
+  const entityList = (entities: ExportedEntity[], root: string) =>
+    `<ul>${entities
+      .map(
+        (entity) =>
+          `<li>${entityLink(entity.id, root)}${entity.description ? ` — ${renderInline(entity.description)}` : ''}</li>`
+      )
+      .join('\n')}</ul>`;
+
+  const files: Record<string, string> = { 'style.css': STYLESHEET };
+
+  files['index.html'] = layout(
+    project.name,
+    '',
+    [
+      `<h1>${escapeHtml(project.name)}</h1>`,
+      project.description ? `<p>${renderInline(project.description)}</p>` : '',
+      playerEdition ?
+        '<p class="notice">Player edition: only what has been revealed to players is included.</p>'
+      : '',
+      '<h2>Browse</h2>',
+      typePages.length ?
+        `<ul>${typePages
+          .map(
+            (page) =>
+              `<li><a href="types/${page.slug}.html">${escapeHtml(page.label)}</a> (${page.entities.length})</li>`
+          )
+          .join('\n')}</ul>`
+      : '<p class="meta">No entities yet.</p>',
+      `<p><a href="documents.html">Documents</a> (${documents.length}) · <a href="timeline.html">Timeline</a> · <a href="graph.html">Relationship graph</a></p>`,
+    ].join('\n')
+  );
+
+  for (const page of typePages) {
+    files[`types/${page.slug}.html`] = layout(
+      page.label,
+      '../',
+      `<h1>${escapeHtml(page.label)}</h1>\n${entityList(page.entities, '../')}`
+    );
+  }
+
+  for (const entity of data.entities) {
+    const facts = data.facts.filter((fact) => fact.entityId === entity.id);
+    const outgoing = relationships.filter((r) => r.sourceEntityId === entity.id);
+    const incoming = relationships.filter((r) => r.targetEntityId === entity.id);
+    const sections = [
+      `<h1>${escapeHtml(entity.name)}</h1>`,
+      `<p>${typeBadge(entity, '../')}</p>`,
+      entity.aliases.length ?
+        `<p class="aliases">Also known as ${entity.aliases.map(escapeHtml).join(', ')}</p>`
+      : '',
+      entity.description ? `<p>${renderInline(entity.description)}</p>` : '',
+      entity.firstMentionedIn && documentsById.has(entity.firstMentionedIn) ?
+        `<p class="meta">First mentioned in ${documentLink(entity.firstMentionedIn, '../')}</p>`
+      : '',
+    ];
+    if (facts.length) {
+      sections.push(
+        '<h2>Facts</h2>',
+        `<ul class="facts">${facts
+          .map((fact) => {
+            const when =
+              fact.temporalBound ?
+                ` <span class="meta">(${escapeHtml(fact.temporalBound.value)})</span>`
+              : '';
+            const source = documentLink(fact.documentId, '../');
+            const evidence =
+              fact.evidenceSnippet ?
+                `<blockquote>“${escapeHtml(fact.evidenceSnippet)}”${source ? ` — ${source}` : ''}</blockquote>`
+              : '';
+            return `<li>${escapeHtml(`${fact.subject} ${fact.predicate} ${fact.object}`)}${when}${evidence}</li>`;
+          })
+          .join('\n')}</ul>`
+      );
+    }
+    if (outgoing.length || incoming.length) {
+      const line = (r: (typeof relationships)[number]) =>
+        `<li>${entityLink(r.sourceEntityId, '../')} ${escapeHtml(r.type)} ${entityLink(r.targetEntityId, '../')}</li>`;
+      sections.push(
+        '<h2>Relationships</h2>',
+        `<ul>${[...outgoing, ...incoming].map(line).join('\n')}</ul>`
+      );
+    }
+    files[`entities/${entitySlugs.get(entity.id)}.html`] = layout(
+      entity.name,
+      '../',
+      sections.filter(Boolean).join('\n')
+    );
+  }
+
+  files['documents.html'] = layout(
+    'Documents',
+    '',
+    documents.length ?
+      `<h1>Documents</h1>\n<ol>${documents.map((doc) => `<li>${documentLink(doc.id, '')}</li>`).join('\n')}</ol>`
+    : '<h1>Documents</h1>\n<p class="meta">No documents yet.</p>'
+  );
+
+  for (const doc of documents) {
+    files[`documents/${documentSlugs.get(doc.id)}.html`] = layout(
+      doc.title,
+      '../',
+      `<h1>${escapeHtml(doc.title)}</h1>\n${documentBody(doc)}`
+    );
+  }
+
+  const events = timeline.filter((event) => entitiesById.has(event.entityId));
+  files['timeline.html'] = layout(
+    'Timeline',
+    '',
+    events.length ?
+      `<h1>Timeline</h1>\n<ol class="timeline">${events
+        .map((event) => {
+          const entity = entitiesById.get(event.entityId)!;
+          const source = documentLink(entity.firstMentionedIn, '');
+          return [
+            '<li>',
+            `<div class="date">${event.date ? escapeHtml(event.date) : 'Undated'}</div>`,
+            `<div>${entityLink(entity.id, '')}</div>`,
+            entity.description ? `<div>${renderInline(entity.description)}</div>` : '',
+            source ? `<div class="meta">First mentioned in ${source}</div>` : '',
+            '</li>',
+          ].join('');
+        })
+        .join('\n')}</ol>`
+    : '<h1>Timeline</h1>\n<p class="meta">No events yet.</p>'
+  );
+
+  files['graph.html'] = layout(
+    'Relationships',
+    '',
+    `<h1>Relationships</h1>\n${relationshipGraph(data.entities, relationships, entitySlugs, typeOf)}`
+  );
+
+  return files;
+}
+
+function documentBody(doc: ExportedDocument): string {
+  if (doc.storedFile) {
+    return '<p class="notice">This document is an uploaded file too long to include here.</p>';
+  }
+  if (doc.content === undefined) {
+    return '<p class="notice">This document has not been revealed yet.</p>';
+  }
+  return renderDocumentText(doc.content) || '<p class="meta">This document is empty.</p>';
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/** An SVG of every related entity on a circle, grouped by type, each linking to its page. */
+function relationshipGraph(
+  entities: ExportedEntity[],
+  relationships: ProjectExport['relationships'],
+  entitySlugs: Map<string, string>,
+  typeOf: Map<string, TypePage>
+): string {
+  const related = new Set(relationships.flatMap((r) => [r.sourceEntityId, r.targetEntityId]));
+  const nodes = entities
+    .filter((entity) => related.has(entity.id))
+    .toSorted(
+      (a, b) =>
+        (typeOf.get(a.id)?.label ?? '').localeCompare(typeOf.get(b.id)?.label ?? '') ||
+        a.name.localeCompare(b.name)
+    );
+  if (nodes.length === 0) {
+    return '<p class="meta">No relationships yet.</p>';
+  }
+
+  const radius = Math.max(160, nodes.length * 14);
+  const margin = 180; // Room for labels outside the circle
+  const size = 2 * (radius + margin);
+  const center = size / 2;
+  const positions = new Map(
+    nodes.map((node, index) => {
+      const angle = (2 * Math.PI * index) / nodes.length - Math.PI / 2;
+      return [
+        node.id,
+        { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) },
+      ];
+    })
+  );
+
+  const edges = relationships.map((r) => {
+    const from = positions.get(r.sourceEntityId)!;
+    const to = positions.get(r.targetEntityId)!;
+    return `<line x1="${round(from.x)}" y1="${round(from.y)}" x2="${round(to.x)}" y2="${round(to.y)}"><title>${escapeHtml(r.type)}</title></line>`;
+  });
+  const labels = nodes.map((node) => {
+    const { x, y } = positions.get(node.id)!;
+    const anchor = x >= center ? 'start' : 'end';
+    const offset = x >= center ? 12 : -12;
+    const color = typeOf.get(node.id)?.color ?? 'currentColor';
+    return `<a href="entities/${entitySlugs.get(node.id)}.html"><circle cx="${round(x)}" cy="${round(y)}" r="8" fill="${color}"/><text x="${round(x + offset)}" y="${round(y + 4)}" text-anchor="${anchor}">${escapeHtml(node.name)}</text></a>`;
+  });
+
+  return `<svg viewBox="0 0 ${size} ${size}" role="img" aria-label="Relationship graph">
+${edges.join('\n')}
+${labels.join('\n')}
+</svg>`;
+}
@@ -51,6 +51,92 @@ export function chunkDocument(
   return chunks;
 }
 
+/**
+ * Chunk text that arrives in pieces, such as a file read from storage, without holding all of
+ * it at once. Yields the same chunks as `chunkDocument` would for the joined text: only the
+ * current chunk and the few characters after it that boundary detection looks at are buffered.
+ */
+export async function* chunkStream(
+  source: AsyncIterable<string>,
+  maxChars: number = MAX_CHUNK_CHARS,
+  overlapChars: number = OVERLAP_CHARS
+): AsyncGenerator<Chunk> {
+  const pieces = source[Symbol.asyncIterator]();
+  let buffer = '';
+  let bufferStart = 0;
+  let done = false;
+
+  // Boundary detection reads up to two characters past the end of a chunk.
+  const fill = async (length: number) => {
+    while (!done && buffer.length < length) {
+      const next = await pieces.next();
+      if (next.done) done = true;
+      else buffer += next.value;
+    }
+  };
+
+  await fill(maxChars + 2);
+  if (done && buffer.length <= maxChars) {
+    yield { text: buffer, startOffset: 0, endOffset: buffer.length, index: 0 };
+    return;
+  }
+
+  let currentPos = 0;
+  let chunkIndex = 0;
+
+  while (true) {
+    await fill(currentPos + maxChars + 2);
+    if (currentPos >= buffer.length) break;
+
+    let endPos = Math.min(currentPos + maxChars, buffer.length);
+    if (endPos < buffer.length) {
+      endPos = findParagraphBoundary(buffer, currentPos, endPos);
+    }
+
+    yield {
+      text: buffer.slice(currentPos, endPos),
+      startOffset: bufferStart + currentPos,
+      endOffset: bufferStart + endPos,
+      index: chunkIndex,
+    };
+    chunkIndex++;
+
+    if (endPos >= buffer.length) break;
+
+    currentPos = findParagraphStart(buffer, endPos - overlapChars, endPos);
+    bufferStart += currentPos;
+    buffer = buffer.slice(currentPos);
+    currentPos = 0;
+  }
+}
+
+/** Decode a stored file as UTF-8 text, one piece per block read from storage. */
+export async function* readTextStream(blob: Blob): AsyncGenerator<string> {
+  const reader = blob.stream().getReader();
+  const decoder = new TextDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const text = decoder.decode(value, { stream: true });
+    if (text) yield text;
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+/**
+ * Roughly how many chunks a stored file of this size will produce, for progress reporting before
+ * it has been read. Chunks ending early at paragraph breaks can make the real count higher.
+ */
+export function estimateChunkCount(
+  byteLength: number,
+  maxChars: number = MAX_CHUNK_CHARS,
+  overlapChars: number = OVERLAP_CHARS
+): number {
+  if (byteLength <= maxChars) return 1;
+  return Math.ceil((byteLength - overlapChars) / (maxChars - overlapChars));
+}
+
 function findParagraphBoundary(content: string, start: number, maxEnd: number): number {
   const searchStart = Math.max(start + MIN_CHUNK_CHARS, maxEnd - 2000);
 
@@ -96,21 +182,62 @@ function findParagraphStart(content: string, targetPos: number, maxPos: number):
   return targetPos;
 }
 
+/**
+ * Chunk only the changed parts of a document. Changes closer together than a minimum chunk
+ * are sent as one span; long spans are split with the same boundaries as a full extraction.
+ */
+export function chunkChangedRanges(
+  content: string,
+  changes: Array<{ afterStart: number; afterEnd: number }>,
+  maxChars: number = MAX_CHUNK_CHARS,
+  overlapChars: number = OVERLAP_CHARS
+): Chunk[] {
+  const spans: Array<{ start: number; end: number }> = [];
+  for (const change of changes) {
+    if (change.afterEnd <= change.afterStart) continue;
+    const last = spans.at(-1);
+    if (last && change.afterStart - last.end < MIN_CHUNK_CHARS) {
+      last.end = change.afterEnd;
+    } else {
+      spans.push({ start: change.afterStart, end: change.afterEnd });
+    }
+  }
+
+  return spans
+    .flatMap((span) =>
+      chunkDocument(content.slice(span.start, span.end), maxChars, overlapChars).map((chunk) => ({
+        ...chunk,
+        startOffset: chunk.startOffset + span.start,
+        endOffset: chunk.endOffset + span.start,
+      }))
+    )
+    .map((chunk, index) => ({ ...chunk, index }));
+}
+
 export function needsChunking(content: string, maxChars: number = MAX_CHUNK_CHARS): boolean {
   return content.length > maxChars;
 }
 
+/**
+ * Position of quoted evidence in the document. Without the full content (documents read from
+ * storage), loosely quoted evidence is only looked for within the chunk it came from.
+ */
 export function mapEvidenceToDocument(
   evidence: string,
   chunk: Chunk,
-  documentContent: string
+  documentContent?: string
 ): { start: number; end: number } | null {
   if (typeof evidence !== 'string' || !evidence) return null;
 
   const evidenceInChunk = chunk.text.indexOf(evidence);
   if (evidenceInChunk === -1) {
-    const fuzzyMatch = findFuzzyMatch(documentContent, evidence);
-    return fuzzyMatch;
+    if (documentContent !== undefined) {
+      return findFuzzyMatch(documentContent, evidence);
+    }
+    const fuzzyMatch = findFuzzyMatch(chunk.text, evidence);
+    return fuzzyMatch ?
+        { start: chunk.startOffset + fuzzyMatch.start, end: chunk.startOffset + fuzzyMatch.end }
+      : null;
   }
 
   const absoluteStart = chunk.startOffset + evidenceInChunk;
@@ -1,10 +1,36 @@
-import { internalAction, internalMutation, action } from '../_generated/server';
+import { internalAction, internalMutation, internalQuery, action } from '../_generated/server';
 import { api, internal } from '../_generated/api';
 import { v } from 'convex/values';
+import type { ActionCtx } from '../_generated/server';
 import type { Id } from '../_generated/dataModel';
-import { chunkDocument, needsChunking, mapEvidenceToDocument, type Chunk } from './chunk';
+import {
+  chunkChangedRanges,
+  chunkDocument,
+  needsChunking,
+  mapEvidenceToDocument,
+  type Chunk,
+} from './chunk';
+import { documentChunkSource, reportChunkProgress } from '../documentChunks';
+import { scheduleEmbeddingSync } from '../embeddings';
+import { removeFactsFromAlerts } from '../lib/alerts';
+import { isStoredDocument } from '../lib/documentChunks';
 import { apiError, configError, limitError, notFoundError } from '../lib/errors';
 import { parseJsonOrThrow } from '../lib/json';
+import {
+  attributeValuesEqual,
+  coerceAttributeValue,
+  loadTemplateResolver,
+  type AttributeField,
+} from '../lib/attributes';
+import { loadCalendars, normalizeTemporalBound } from '../lib/calendar';
+import { currentDocumentRevision, recordRevision } from '../lib/revisions';
+import {
+  changedRanges,
+  diffText,
+  mapRange,
+  splitParagraphs,
+  type TextChange,
+} from '../lib/textDiff';
 
 export const PROMPT_VERSION = 'v1';
 
@@ -22,6 +48,62 @@ PRINCIPLES:
 
 OUTPUT: Return structured JSON matching the provided schema.`;
 
+type EntityType = 'character' | 'location' | 'item' | 'concept' | 'event';
+
+const BUILT_IN_ENTITY_TYPES: EntityType[] = ['character', 'location', 'item', 'concept', 'event'];
+
+// Project-defined types offered to the model alongside the built-ins.
+type CustomEntityType = {
+  name: string;
+  description?: string;
+  baseType: EntityType;
+};
+
+// Attribute fields the model may fill for each entity type.
+type AttributeTemplate = {
+  typeName: string;
+  fields: AttributeField[];
+};
+
+function describeField(field: AttributeField): string {
+  const options = field.options?.length ? `: one of ${field.options.join(', ')}` : '';
+  return `${field.key} (${field.dataType}${options})`;
+}
+
+export function buildSystemPrompt(
+  customTypes: CustomEntityType[],
+  templates: AttributeTemplate[] = []
+): string {
+  let prompt = VELLUM_SYSTEM_PROMPT;
+
+  if (customTypes.length > 0) {
+    const typeLines = customTypes.map((type) => {
+      const description = type.description ? `: ${type.description}` : '';
+      return `- ${type.name} (a kind of ${type.baseType})${description}`;
+    });
+
+    prompt += `
+
+PROJECT ENTITY TYPES:
+This project also defines the following entity types. Prefer them over the built-in types when they fit.
+${typeLines.join('\n')}`;
+  }
+
+  if (templates.length > 0) {
+    const templateLines = templates.map(
+      (template) => `- ${template.typeName}: ${template.fields.map(describeField).join(', ')}`
+    );
+
+    prompt += `
+
+ATTRIBUTES:
+Fill these attribute keys for an entity only when the text states the value explicitly. Quote the evidence.
+${templateLines.join('\n')}`;
+  }
+
+  return prompt;
+}
+
 export const EXTRACTION_SCHEMA = {
   type: 'object',
   properties: {
@@ -76,15 +158,66 @@ export const EXTRACTION_SCHEMA = {
         additionalProperties: false,
       },
     },
+    attributes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          entityName: { type: 'string' },
+          key: { type: 'string' },
+          value: { type: 'string' },
+          evidence: { type: 'string' },
+        },
+        required: ['entityName', 'key', 'value', 'evidence'],
+        additionalProperties: false,
+      },
+    },
   },
-  required: ['entities', 'facts', 'relationships'],
+  required: ['entities', 'facts', 'relationships', 'attributes'],
   additionalProperties: false,
 } as const;
 
+export function buildExtractionSchema(customTypes: CustomEntityType[]) {
+  return {
+    ...EXTRACTION_SCHEMA,
+    properties: {
+      ...EXTRACTION_SCHEMA.properties,
+      entities: {
+        ...EXTRACTION_SCHEMA.properties.entities,
+        items: {
+          ...EXTRACTION_SCHEMA.properties.entities.items,
+          properties: {
+            ...EXTRACTION_SCHEMA.properties.entities.items.properties,
+            type: { enum: [...BUILT_IN_ENTITY_TYPES, ...customTypes.map((type) => type.name)] },
+          },
+        },
+      },
+    },
+  };
+}
+
+// Cache keys must change when the project's types or templates do, since the model's output
+// depends on them.
+function withTypeSignature(
+  content: string,
+  customTypes: CustomEntityType[],
+  templates: AttributeTemplate[] = []
+): string {
+  if (customTypes.length === 0 && templates.length === 0) return content;
+  const signature = [
+    ...customTypes.map((type) => `${type.name}|${type.baseType}|${type.description ?? ''}`),
+    ...templates.map(
+      (template) => `${template.typeName}:${template.fields.map(describeField).join(',')}`
+    ),
+  ].join(';');
+  return `${signature}\n${content}`;
+}
+
 type ExtractionResult = {
   entities: Array<{
     name: string;
-    type: 'character' | 'location' | 'item' | 'concept' | 'event';
+    type: EntityType;
+    customType?: string;
     description?: string;
     aliases?: string[];
   }>;
@@ -114,9 +247,25 @@ type ExtractionResult = {
       end: number;
     };
   }>;
+  attributes?: Array<{
+    entityName: string;
+    key: string;
+    value: string;
+    evidence: string;
+    evidencePosition?: {
+      start: number;
+      end: number;
+    };
+  }>;
 };
 
-async function callLLM(content: string, apiKey: string, model: string): Promise<ExtractionResult> {
+async function callLLM(
+  content: string,
+  apiKey: string,
+  model: string,
+  customTypes: CustomEntityType[],
+  templates: AttributeTemplate[]
+): Promise<ExtractionResult> {
   const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
     method: 'POST',
     headers: {
@@ -128,7 +277,7 @@ async function callLLM(content: string, apiKey: string, model: string): Promise<
     body: JSON.stringify({
       model,
       messages: [
-        { role: 'system', content: VELLUM_SYSTEM_PROMPT },
+        { role: 'system', content: buildSystemPrompt(customTypes, templates) },
         { role: 'user', content },
       ],
       response_format: {
@@ -136,7 +285,7 @@ async function callLLM(content: string, apiKey: string, model: string): Promise<
         json_schema: {
           name: 'canon_extraction',
           strict: true,
-          schema: EXTRACTION_SCHEMA,
+          schema: buildExtractionSchema(customTypes),
         },
       },
     }),
@@ -162,24 +311,24 @@ async function callLLM(content: string, apiKey: string, model: string): Promise<
   }
 
   const parsed = parseJsonOrThrow(llmResponse);
-  return normalizeExtractionResult(parsed);
+  return normalizeExtractionResult(parsed, customTypes);
 }
 
-type EntityType = 'character' | 'location' | 'item' | 'concept' | 'event';
+const VALID_ENTITY_TYPES: Set<string> = new Set(BUILT_IN_ENTITY_TYPES);
 
-const VALID_ENTITY_TYPES: Set<string> = new Set([
-  'character',
-  'location',
-  'item',
-  'concept',
-  'event',
-]);
-
-// Map invalid LLM entity types to valid ones
-function normalizeEntityType(rawType: unknown): EntityType {
-  const type = (typeof rawType === 'string' ? rawType : '').toLowerCase();
+// Map invalid LLM entity types to valid ones. Project types resolve to their base type and
+// keep their name so the entity can be linked to the custom type when it is stored.
+export function normalizeEntityType(
+  rawType: unknown,
+  customTypes: CustomEntityType[] = []
+): { type: EntityType; customType?: string } {
+  const type = (typeof rawType === 'string' ? rawType : '').trim().toLowerCase();
   if (VALID_ENTITY_TYPES.has(type)) {
-    return type as EntityType;
+    return { type: type as EntityType };
+  }
+  const customType = customTypes.find((custom) => custom.name.toLowerCase() === type);
+  if (customType) {
+    return { type: customType.baseType, customType: customType.name };
   }
   // Map common LLM hallucinations to valid types
   const typeMap: Record<string, EntityType> = {
@@ -201,15 +350,19 @@ function normalizeEntityType(rawType: unknown): EntityType {
     occurrence: 'event',
     incident: 'event',
   };
-  return typeMap[type] ?? 'concept';
+  return { type: typeMap[type] ?? 'concept' };
 }
 
-function normalizeExtractionResult(raw: unknown): ExtractionResult {
+function normalizeExtractionResult(
+  raw: unknown,
+  customTypes: CustomEntityType[] = []
+): ExtractionResult {
   const result = raw as Record<string, unknown>;
 
   const entities: ExtractionResult['entities'] = [];
   const facts: ExtractionResult['facts'] = [];
   const relationships: ExtractionResult['relationships'] = [];
+  const attributes: NonNullable<ExtractionResult['attributes']> = [];
 
   // Normalize entities: handle object-keyed format {name: {type, ...}} → [{name, type, ...}]
   // Strip extra fields (LLMs sometimes add confidence/evidence to entities despite schema)
@@ -218,7 +371,7 @@ function normalizeExtractionResult(raw: unknown): ExtractionResult {
       for (const e of result.entities as Array<Record<string, unknown>>) {
         entities.push({
           name: e.name as string,
-          type: normalizeEntityType(e.type),
+          ...normalizeEntityType(e.customType ?? e.type, customTypes),
           description: e.description as string | undefined,
           aliases: e.aliases as string[] | undefined,
         });
@@ -228,7 +381,7 @@ function normalizeExtractionResult(raw: unknown): ExtractionResult {
         const entityData = data as Record<string, unknown>;
         entities.push({
           name,
-          type: normalizeEntityType(entityData.type),
+          ...normalizeEntityType(entityData.customType ?? entityData.type, customTypes),
           description: entityData.description as string | undefined,
           aliases: entityData.aliases as string[] | undefined,
         });
@@ -286,13 +439,33 @@ function normalizeExtractionResult(raw: unknown): ExtractionResult {
     }
   }
 
-  return { entities, facts, relationships };
+  if (Array.isArray(result.attributes)) {
+    for (const a of result.attributes as Array<Record<string, unknown>>) {
+      const value = a.value;
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        continue;
+      }
+      const rawEvidence = a.evidence;
+      const evidence =
+        Array.isArray(rawEvidence) ? rawEvidence.join(' ') : ((rawEvidence as string) ?? '');
+      attributes.push({
+        entityName: (a.entityName as string) ?? '',
+        key: (a.key as string) ?? '',
+        value: String(value),
+        evidence,
+        evidencePosition: a.evidencePosition as { start: number; end: number } | undefined,
+      });
+    }
+  }
+
+  return { entities, facts, relationships, attributes };
 }
 
 function mergeExtractionResults(results: ExtractionResult[]): ExtractionResult {
   const entityMap = new Map<string, ExtractionResult['entities'][0]>();
   const facts: ExtractionResult['facts'] = [];
   const relationships: ExtractionResult['relationships'] = [];
+  const attributes: NonNullable<ExtractionResult['attributes']> = [];
 
   for (const result of results) {
     for (const entity of result.entities ?? []) {
@@ -313,19 +486,21 @@ function mergeExtractionResults(results: ExtractionResult[]): ExtractionResult {
 
     facts.push(...(result.facts ?? []));
     relationships.push(...(result.relationships ?? []));
+    attributes.push(...(result.attributes ?? []));
   }
 
   return {
     entities: Array.from(entityMap.values()),
     facts,
     relationships,
+    attributes,
   };
 }
 
 function adjustEvidencePositions(
   result: ExtractionResult,
   chunk: Chunk,
-  documentContent: string
+  documentContent?: string
 ): ExtractionResult {
   const adjustedFacts = (result.facts ?? []).map((fact) => {
     const position = mapEvidenceToDocument(fact.evidence, chunk, documentContent);
@@ -343,23 +518,144 @@ function adjustEvidencePositions(
     };
   });
 
+  const adjustedAttributes = (result.attributes ?? []).map((attribute) => {
+    const position = mapEvidenceToDocument(attribute.evidence, chunk, documentContent);
+    return {
+      ...attribute,
+      evidencePosition: position ?? undefined,
+    };
+  });
+
   return {
     entities: result.entities ?? [],
     facts: adjustedFacts,
     relationships: adjustedRelationships,
+    attributes: adjustedAttributes,
   };
 }
 
+const textChangeValidator = v.object({
+  beforeStart: v.number(),
+  beforeEnd: v.number(),
+  afterStart: v.number(),
+  afterEnd: v.number(),
+});
+
+/**
+ * Extract chunk by chunk, reporting progress on the document after each one. `content` is left
+ * out when the chunks are streamed from storage.
+ */
+async function extractChunks(
+  ctx: ActionCtx,
+  chunks: Iterable<Chunk> | AsyncIterable<Chunk>,
+  content: string | undefined,
+  options: {
+    apiKey: string;
+    model: string;
+    customTypes: CustomEntityType[];
+    templates: AttributeTemplate[];
+    documentId: Id<'documents'>;
+    totalChunks: number;
+  }
+): Promise<ExtractionResult> {
+  const { apiKey, model, customTypes, templates, documentId, totalChunks } = options;
+  const chunkResults: ExtractionResult[] = [];
+
+  for await (const chunk of chunks) {
+    const chunkHash: string = await ctx.runQuery(internal.llm.utils.computeHash, {
+      content: withTypeSignature(chunk.text, customTypes, templates),
+    });
+
+    const cachedChunk: ExtractionResult | null = await ctx.runQuery(internal.llm.cache.checkCache, {
+      inputHash: chunkHash,
+      promptVersion: PROMPT_VERSION,
+    });
+
+    let chunkResult: ExtractionResult;
+    if (cachedChunk) {
+      chunkResult = normalizeExtractionResult(cachedChunk, customTypes);
+    } else {
+      chunkResult = await callLLM(chunk.text, apiKey, model, customTypes, templates);
+
+      await ctx.runMutation(internal.llm.cache.saveToCache, {
+        inputHash: chunkHash,
+        promptVersion: PROMPT_VERSION,
+        modelId: model,
+        response: chunkResult,
+      });
+    }
+
+    chunkResults.push(adjustEvidencePositions(chunkResult, chunk, content));
+    await reportChunkProgress(ctx, documentId, 'extraction', chunkResults.length, totalChunks);
+  }
+
+  return mergeExtractionResults(chunkResults);
+}
+
 export const extractFromDocument = internalAction({
-  args: { documentId: v.id('documents') },
-  handler: async (ctx, { documentId }): Promise<ExtractionResult> => {
+  args: {
+    documentId: v.id('documents'),
+    // When set, only the changed spans of the document are extracted.
+    changes: v.optional(v.array(textChangeValidator)),
+  },
+  handler: async (ctx, { documentId, changes }): Promise<ExtractionResult> => {
     const doc = await ctx.runQuery(api.documents.get, { id: documentId });
-    if (!doc || !doc.content) {
+    if (!doc || (!doc.content && !isStoredDocument(doc))) {
       throw notFoundError('document', documentId, 'Document not found or empty');
     }
 
+    const customTypes = await ctx.runQuery(internal.entityTypes.listForExtraction, {
+      projectId: doc.projectId,
+    });
+    const templates = await ctx.runQuery(internal.attributes.listTemplatesForExtraction, {
+      projectId: doc.projectId,
+    });
+
+    const apiKey = process.env.OPENROUTER_API_KEY;
+    const model = process.env.MODEL;
+
+    // Stored text is never held whole, so it is only cached chunk by chunk.
+    if (!doc.content) {
+      if (!apiKey) {
+        throw configError('OPENROUTER_API_KEY', 'OPENROUTER_API_KEY not configured');
+      }
+      if (!model) {
+        throw configError('MODEL', 'MODEL not configured');
+      }
+      const source = await documentChunkSource(ctx, doc);
+      if (!source) {
+        throw notFoundError('file', doc.storageId);
+      }
+      return await extractChunks(ctx, source.chunks, undefined, {
+        apiKey,
+        model,
+        customTypes,
+        templates,
+        documentId,
+        totalChunks: source.totalChunks,
+      });
+    }
+
+    if (changes) {
+      if (!apiKey) {
+        throw configError('OPENROUTER_API_KEY', 'OPENROUTER_API_KEY not configured');
+      }
+      if (!model) {
+        throw configError('MODEL', 'MODEL not configured');
+      }
+      const chunks = chunkChangedRanges(doc.content, changes);
+      return await extractChunks(ctx, chunks, doc.content, {
+        apiKey,
+        model,
+        customTypes,
+        templates,
+        documentId,
+        totalChunks: chunks.length,
+      });
+    }
+
     const contentHash: string = await ctx.runQuery(internal.llm.utils.computeHash, {
-      content: doc.content,
+      content: withTypeSignature(doc.content, customTypes, templates),
     });
 
     const cached = await ctx.runQuery(internal.llm.cache.checkCache, {
@@ -368,15 +664,13 @@ export const extractFromDocument = internalAction({
     });
 
     if (cached) {
-      return normalizeExtractionResult(cached);
+      return normalizeExtractionResult(cached, customTypes);
     }
 
-    const apiKey = process.env.OPENROUTER_API_KEY;
     if (!apiKey) {
       throw configError('OPENROUTER_API_KEY', 'OPENROUTER_API_KEY not configured');
     }
 
-    const model = process.env.MODEL;
     if (!model) {
       throw configError('MODEL', 'MODEL not configured');
     }
@@ -385,39 +679,16 @@ export const extractFromDocument = internalAction({
 
     if (needsChunking(doc.content)) {
       const chunks = chunkDocument(doc.content);
-      const chunkResults: ExtractionResult[] = [];
-
-      for (const chunk of chunks) {
-        const chunkHash: string = await ctx.runQuery(internal.llm.utils.computeHash, {
-          content: chunk.text,
-        });
-
-        const cachedChunk: ExtractionResult | null = await ctx.runQuery(
-          internal.llm.cache.checkCache,
-          { inputHash: chunkHash, promptVersion: PROMPT_VERSION }
-        );
-
-        let chunkResult: ExtractionResult;
-        if (cachedChunk) {
-          chunkResult = normalizeExtractionResult(cachedChunk);
-        } else {
-          chunkResult = await callLLM(chunk.text, apiKey, model);
-
-          await ctx.runMutation(internal.llm.cache.saveToCache, {
-            inputHash: chunkHash,
-            promptVersion: PROMPT_VERSION,
-            modelId: model,
-            response: chunkResult,
-          });
-        }
-
-        const adjustedResult = adjustEvidencePositions(chunkResult, chunk, doc.content);
-        chunkResults.push(adjustedResult);
-      }
-
-      result = mergeExtractionResults(chunkResults);
+      result = await extractChunks(ctx, chunks, doc.content, {
+        apiKey,
+        model,
+        customTypes,
+        templates,
+        documentId,
+        totalChunks: chunks.length,
+      });
     } else {
-      const rawResult = await callLLM(doc.content, apiKey, model);
+      const rawResult = await callLLM(doc.content, apiKey, model, customTypes, templates);
       const fullDocChunk: Chunk = {
         text: doc.content,
         startOffset: 0,
@@ -449,6 +720,7 @@ const extractionResultValidator = v.object({
         v.literal('concept'),
         v.literal('event')
       ),
+      customType: v.optional(v.string()),
       description: v.optional(v.string()),
       aliases: v.optional(v.array(v.string())),
     })
@@ -489,6 +761,33 @@ const extractionResultValidator = v.object({
       ),
     })
   ),
+  attributes: v.optional(
+    v.array(
+      v.object({
+        entityName: v.string(),
+        key: v.string(),
+        value: v.string(),
+        evidence: v.string(),
+        evidencePosition: v.optional(
+          v.object({
+            start: v.number(),
+            end: v.number(),
+          })
+        ),
+      })
+    )
+  ),
+});
+
+/** Content of the revision the document was last extracted from, if it is still stored. */
+export const getExtractionBaseline = internalQuery({
+  args: { documentId: v.id('documents') },
+  handler: async (ctx, { documentId }): Promise<string | null> => {
+    const doc = await ctx.db.get(documentId);
+    if (!doc?.extractedRevisionId) return null;
+    const revision = await ctx.db.get(doc.extractedRevisionId);
+    return revision?.document?.content ?? null;
+  },
 });
 
 export const chunkAndExtract = action({
@@ -498,7 +797,14 @@ export const chunkAndExtract = action({
   handler: async (
     ctx,
     { documentId }
-  ): Promise<{ entitiesCreated: number; factsCreated: number }> => {
+  ): Promise<{
+    entitiesCreated: number;
+    factsCreated: number;
+    relationshipsCreated: number;
+    attributesCreated: number;
+    factsInvalidated: number;
+    factsReturnedToReview: number;
+  }> => {
     const doc = await ctx.runQuery(api.documents.get, { id: documentId });
     if (!doc) {
       throw notFoundError('document', documentId);
@@ -530,14 +836,32 @@ export const chunkAndExtract = action({
     });
 
     try {
+      // After the first extraction, only paragraphs changed since the last run are re-read.
+      const baseline = await ctx.runQuery(internal.llm.extract.getExtractionBaseline, {
+        documentId,
+      });
+      const changes: TextChange[] | undefined =
+        baseline !== null && doc.content ?
+          changedRanges(diffText(baseline, doc.content, splitParagraphs))
+        : undefined;
+
+      if (changes?.every((change) => change.afterEnd === change.afterStart)) {
+        return await ctx.runMutation(internal.llm.extract.processExtractionResult, {
+          documentId,
+          result: { entities: [], facts: [], relationships: [] },
+          changes,
+        });
+      }
+
       const result: ExtractionResult = await ctx.runAction(
         internal.llm.extract.extractFromDocument,
-        { documentId }
+        { documentId, changes }
       );
 
       const processResult = await ctx.runMutation(internal.llm.extract.processExtractionResult, {
         documentId,
         result,
+        changes,
       });
 
       await ctx.runMutation(internal.usage.incrementExtractionUsage, {
@@ -559,8 +883,10 @@ export const processExtractionResult = internalMutation({
   args: {
     documentId: v.id('documents'),
     result: extractionResultValidator,
+    // Set for incremental runs: what changed since the content the last extraction read.
+    changes: v.optional(v.array(textChangeValidator)),
   },
-  handler: async (ctx, { documentId, result }) => {
+  handler: async (ctx, { documentId, result, changes }) => {
     const doc = await ctx.db.get(documentId);
     if (!doc) {
       throw notFoundError('document', documentId);
@@ -569,9 +895,86 @@ export const processExtractionResult = internalMutation({
     const projectId = doc.projectId;
     const now = Date.now();
 
+    let invalidatedFactCount = 0;
+    let reviewedFactCount = 0;
+    let removedOpenAlertCount = 0;
+    if (changes) {
+      // Pending facts quoted from changed text are dropped and confirmed ones go back to review,
+      // since their evidence no longer reads the same. The rest move with the text around them.
+      const existingFacts = await ctx.db
+        .query('facts')
+        .withIndex('by_document', (q) => q.eq('documentId', documentId))
+        .collect();
+      const removedFactIds = new Set<Id<'facts'>>();
+      for (const fact of existingFacts) {
+        if (!fact.evidencePosition) continue;
+        const evidencePosition = mapRange(fact.evidencePosition, changes);
+        if (evidencePosition) {
+          if (evidencePosition.start !== fact.evidencePosition.start) {
+            await ctx.db.patch(fact._id, { evidencePosition });
+          }
+        } else if (fact.status === 'pending') {
+          await ctx.db.delete(fact._id);
+          removedFactIds.add(fact._id);
+          invalidatedFactCount++;
+        } else if (fact.status === 'confirmed') {
+          await ctx.db.patch(fact._id, { status: 'pending', evidencePosition: undefined });
+          const reviewed = await ctx.db.get(fact._id);
+          if (reviewed) {
+            await recordRevision(
+              ctx,
+              { fact },
+              { fact: reviewed },
+              { action: 'update', summary: `Evidence edited in ${doc.title}` }
+            );
+          }
+          reviewedFactCount++;
+        } else {
+          await ctx.db.patch(fact._id, { evidencePosition: undefined });
+        }
+      }
+      removedOpenAlertCount = await removeFactsFromAlerts(ctx, projectId, removedFactIds);
+
+      // Relationships and attributes are deduplicated on re-extraction, so they are kept and
+      // only lose positions that no longer point at their evidence.
+      const relationships = await ctx.db
+        .query('relationships')
+        .withIndex('by_document', (q) => q.eq('documentId', documentId))
+        .collect();
+      const attributes = await ctx.db
+        .query('entityAttributes')
+        .withIndex('by_document', (q) => q.eq('documentId', documentId))
+        .collect();
+      for (const record of [...relationships, ...attributes]) {
+        if (!record.evidencePosition) continue;
+        const evidencePosition = mapRange(record.evidencePosition, changes) ?? undefined;
+        if (evidencePosition?.start !== record.evidencePosition.start) {
+          await ctx.db.patch(record._id, { evidencePosition });
+        }
+      }
+    }
+
+    // Chunks around a change carry unchanged text too; facts quoted from it are already stored.
+    const isFromChangedText = (position?: { start: number; end: number }) =>
+      !changes ||
+      !position ||
+      changes.some(
+        (change) => position.start < change.afterEnd && position.end > change.afterStart
+      );
+
+    const entityTypes = await ctx.db
+      .query('entityTypes')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+    const entityTypesByName = new Map(entityTypes.map((type) => [type.name.toLowerCase(), type]));
+
+    const calendars = await loadCalendars(ctx, projectId);
+
     const entityNameToId = new Map<string, Id<'entities'>>();
     let newEntityCount = 0;
     let newFactCount = 0;
+    let newRelationshipCount = 0;
+    let newAttributeCount = 0;
 
     for (const extractedEntity of result.entities) {
       const existing = await ctx.db
@@ -582,10 +985,16 @@ export const processExtractionResult = internalMutation({
       if (existing) {
         entityNameToId.set(extractedEntity.name, existing._id);
       } else {
+        // The type may have been renamed or deleted since extraction ran.
+        const customType =
+          extractedEntity.customType ?
+            entityTypesByName.get(extractedEntity.customType.toLowerCase())
+          : undefined;
         const entityId = await ctx.db.insert('entities', {
           projectId,
           name: extractedEntity.name,
-          type: extractedEntity.type,
+          type: customType?.baseType ?? extractedEntity.type,
+          customTypeId: customType?._id,
           description: extractedEntity.description,
           aliases: extractedEntity.aliases ?? [],
           firstMentionedIn: documentId,
@@ -598,9 +1007,22 @@ export const processExtractionResult = internalMutation({
       }
     }
 
+    // Relationship endpoints may name canon that was not re-extracted from this document.
+    async function resolveEntityId(name: string): Promise<Id<'entities'> | null> {
+      const known = entityNameToId.get(name);
+      if (known) return known;
+      const existing = await ctx.db
+        .query('entities')
+        .withIndex('by_name', (q) => q.eq('projectId', projectId).eq('name', name))
+        .first();
+      if (!existing) return null;
+      entityNameToId.set(name, existing._id);
+      return existing._id;
+    }
+
     for (const extractedFact of result.facts) {
       const entityId = entityNameToId.get(extractedFact.entityName);
-      if (!entityId) continue;
+      if (!entityId || !isFromChangedText(extractedFact.evidencePosition)) continue;
 
       await ctx.db.insert('facts', {
         projectId,
@@ -612,7 +1034,9 @@ export const processExtractionResult = internalMutation({
         confidence: extractedFact.confidence,
         evidenceSnippet: extractedFact.evidence,
         evidencePosition: extractedFact.evidencePosition,
-        temporalBound: extractedFact.temporalBound,
+        temporalBound:
+          extractedFact.temporalBound &&
+          normalizeTemporalBound(extractedFact.temporalBound, calendars),
         status: 'pending',
         createdAt: now,
       });
@@ -620,30 +1044,84 @@ export const processExtractionResult = internalMutation({
     }
 
     for (const relationship of result.relationships) {
-      const sourceEntityId = entityNameToId.get(relationship.sourceEntity);
-      if (!sourceEntityId) continue;
+      const sourceEntityId = await resolveEntityId(relationship.sourceEntity);
+      const targetEntityId = await resolveEntityId(relationship.targetEntity);
+      if (!sourceEntityId || !targetEntityId || sourceEntityId === targetEntityId) continue;
 
-      await ctx.db.insert('facts', {
+      const type = relationship.relationshipType.trim();
+      if (!type) continue;
+
+      const existing = await ctx.db
+        .query('relationships')
+        .withIndex('by_source', (q) => q.eq('sourceEntityId', sourceEntityId))
+        .filter((q) =>
+          q.and(
+            q.eq(q.field('targetEntityId'), targetEntityId),
+            q.eq(q.field('type'), type),
+            q.neq(q.field('status'), 'rejected')
+          )
+        )
+        .first();
+      if (existing) continue;
+
+      await ctx.db.insert('relationships', {
         projectId,
-        entityId: sourceEntityId,
+        sourceEntityId,
+        targetEntityId,
+        type,
         documentId,
-        subject: relationship.sourceEntity,
-        predicate: relationship.relationshipType,
-        object: relationship.targetEntity,
         confidence: 1.0,
         evidenceSnippet: relationship.evidence,
         evidencePosition: relationship.evidencePosition,
         status: 'pending',
         createdAt: now,
+        updatedAt: now,
       });
-      newFactCount++;
+      newRelationshipCount++;
+    }
+
+    const resolveTemplate = await loadTemplateResolver(ctx, projectId);
+    for (const attribute of result.attributes ?? []) {
+      const entityId = await resolveEntityId(attribute.entityName);
+      if (!entityId) continue;
+      const entity = await ctx.db.get(entityId);
+      if (!entity) continue;
+
+      const field = resolveTemplate(entity).find((f) => f.key === attribute.key);
+      if (!field) continue;
+      const value = coerceAttributeValue(field, attribute.value);
+      if (value === null) continue;
+
+      const existing = await ctx.db
+        .query('entityAttributes')
+        .withIndex('by_entity', (q) => q.eq('entityId', entityId).eq('key', field.key))
+        .filter((q) => q.neq(q.field('status'), 'rejected'))
+        .collect();
+      if (existing.some((a) => attributeValuesEqual(a.value, value))) continue;
+
+      await ctx.db.insert('entityAttributes', {
+        projectId,
+        entityId,
+        key: field.key,
+        value,
+        documentId,
+        evidenceSnippet: attribute.evidence,
+        evidencePosition: attribute.evidencePosition,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+      });
+      newAttributeCount++;
     }
 
     await ctx.db.patch(documentId, {
       processingStatus: 'completed',
+      processingProgress: undefined,
       processedAt: now,
       updatedAt: now,
+      extractedRevisionId: await currentDocumentRevision(ctx, doc),
     });
+    await scheduleEmbeddingSync(ctx, projectId);
 
     const project = await ctx.db.get(projectId);
     if (project) {
@@ -659,7 +1137,8 @@ export const processExtractionResult = internalMutation({
         stats: {
           ...stats,
           entityCount: stats.entityCount + newEntityCount,
-          factCount: stats.factCount + newFactCount,
+          factCount: Math.max(0, stats.factCount + newFactCount - invalidatedFactCount),
+          alertCount: Math.max(0, stats.alertCount - removedOpenAlertCount),
         },
       });
 
@@ -669,6 +1148,13 @@ export const processExtractionResult = internalMutation({
       }
     }
 
-    return { entitiesCreated: newEntityCount, factsCreated: newFactCount };
+    return {
+      entitiesCreated: newEntityCount,
+      factsCreated: newFactCount,
+      relationshipsCreated: newRelationshipCount,
+      attributesCreated: newAttributeCount,
+      factsInvalidated: invalidatedFactCount,
+      factsReturnedToReview: reviewedFactCount,
+    };
   },
 });
@@ -0,0 +1,162 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+import { v } from 'convex/values';
+import { action, internalMutation } from './_generated/server';
+import { api, internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
+import { scheduleEmbeddingSync } from './embeddings';
+import { MAX_INLINE_CONTENT_BYTES } from './lib/constants';
+import { authError, limitError, notFoundError, validationError } from './lib/errors';
+import {
+  convertManuscript,
+  detectManuscriptFormat,
+  manuscriptFormatValidator,
+  splitIntoChapters,
+} from './lib/manuscripts';
+import { getProjectRoleForUser, roleCanEdit } from './lib/projectAccess';
+import { assertStorageIdAvailableForDocument } from './lib/storageAccess';
+import { checkResourceLimit, getDocumentCount, getProjectOwner } from './lib/subscription';
+
+// Manuscript import: an uploaded DOCX, EPUB, HTML or PDF file is converted to markdown and
+// stored as one document, or as one document per chapter when `split` is set. The original file
+// stays in storage as the first document's `sourceFileId`.
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+export const importFile = action({
+  args: {
+    projectId: v.id('projects'),
+    storageId: v.id('_storage'),
+    fileName: v.string(),
+    title: v.optional(v.string()),
+    split: v.optional(v.boolean()),
+  },
+  handler: async (
+    ctx,
+    { projectId, storageId, fileName, title, split }
+  ): Promise<Id<'documents'>[]> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw authError('unauthenticated', 'You must be signed in to import documents.');
+    }
+    const role = await ctx.runQuery(api.projects.getRole, { id: projectId });
+    if (!roleCanEdit(role)) {
+      throw authError('unauthorized', 'You do not have permission to access this project.');
+    }
+
+    const file = await ctx.storage.get(storageId);
+    if (!file) {
+      throw notFoundError('file', storageId);
+    }
+    const format = detectManuscriptFormat(fileName, file.type);
+    if (!format) {
+      throw validationError('file', 'Upload a DOCX, EPUB, HTML or PDF file.');
+    }
+
+    const markdown = await convertManuscript(new Uint8Array(await file.arrayBuffer()), format);
+    if (!markdown.trim()) {
+      throw validationError('file', 'No text was found in this file.');
+    }
+
+    const baseTitle = title?.trim() || fileName.replace(/\.[^/.]+$/, '');
+    const chapters =
+      split ? splitIntoChapters(markdown, baseTitle) : [{ title: baseTitle, content: markdown }];
+
+    const encoder = new TextEncoder();
+    if (
+      chapters.some((chapter) => encoder.encode(chapter.content).length > MAX_INLINE_CONTENT_BYTES)
+    ) {
+      throw validationError(
+        'file',
+        split ?
+          'A chapter in this file is too long to store as one document.'
+        : 'This file is too long to store as one document. Import it split into chapters instead.'
+      );
+    }
+
+    return await ctx.runMutation(internal.manuscripts.createDocuments, {
+      projectId,
+      userId,
+      storageId,
+      format,
+      chapters,
+    });
+  },
+});
+
+export const createDocuments = internalMutation({
+  args: {
+    projectId: v.id('projects'),
+    userId: v.id('users'),
+    storageId: v.id('_storage'),
+    format: manuscriptFormatValidator,
+    chapters: v.array(v.object({ title: v.string(), content: v.string() })),
+  },
+  handler: async (ctx, { projectId, userId, storageId, format, chapters }) => {
+    const [project, user] = await Promise.all([ctx.db.get(projectId), ctx.db.get(userId)]);
+    if (!project || !user) {
+      throw notFoundError('project', projectId);
+    }
+    if (!roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
+      throw authError('unauthorized', 'You do not have permission to access this project.');
+    }
+    await assertStorageIdAvailableForDocument(ctx, storageId);
+
+    const owner = await getProjectOwner(ctx, project, user);
+    const docCount = await getDocumentCount(ctx, projectId);
+    const limitCheck = checkResourceLimit(
+      owner,
+      'documentsPerProject',
+      docCount + chapters.length - 1
+    );
+    if (!limitCheck.allowed) {
+      throw limitError(
+        'documentsPerProject',
+        limitCheck.limit,
+        `Document limit reached. Free tier allows ${limitCheck.limit} documents per project, and this file would add ${chapters.length}. Upgrade to Realm Unlimited for unlimited documents.`
+      );
+    }
+
+    const existingDocs = await ctx.db
+      .query('documents')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+    const maxOrderIndex = existingDocs.reduce((max, doc) => Math.max(max, doc.orderIndex), -1);
+
+    const now = Date.now();
+    const documentIds: Id<'documents'>[] = [];
+    for (const [index, chapter] of chapters.entries()) {
+      documentIds.push(
+        await ctx.db.insert('documents', {
+          projectId,
+          title: chapter.title,
+          content: chapter.content,
+          sourceFileId: index === 0 ? storageId : undefined,
+          contentType: 'markdown',
+          sourceFormat: format,
+          orderIndex: maxOrderIndex + 1 + index,
+          wordCount: countWords(chapter.content),
+          createdAt: now,
+          updatedAt: now,
+          processingStatus: 'pending',
+        })
+      );
+    }
+
+    const stats = project.stats ?? {
+      documentCount: 0,
+      entityCount: 0,
+      factCount: 0,
+      alertCount: 0,
+      noteCount: 0,
+    };
+    await ctx.db.patch(projectId, {
+      updatedAt: now,
+      stats: { ...stats, documentCount: stats.documentCount + chapters.length },
+    });
+    await scheduleEmbeddingSync(ctx, projectId);
+
+    return documentIds;
+  },
+});
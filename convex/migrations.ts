@@ -1,4 +1,5 @@
 import { internalMutation } from './_generated/server';
+import type { Id } from './_generated/dataModel';
 
 /**
  * Migration: Add noteCount to project stats
@@ -76,6 +77,81 @@ export const migrateAddRevealFields = internalMutation({
   },
 });
 
+/**
+ * Migration: Backfill the relationships table from facts
+ *
+ * Before relationships were stored separately, extraction flattened them into facts whose object
+ * is another entity's name. Only exact name or alias matches are converted; the facts are kept.
+ */
+export const migrateBackfillRelationships = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const projects = await ctx.db.query('projects').collect();
+
+    let migrated = 0;
+    for (const project of projects) {
+      const entities = await ctx.db
+        .query('entities')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      const entityIdsByName = new Map<string, Id<'entities'> | null>();
+      for (const entity of entities) {
+        for (const name of [entity.name, ...entity.aliases]) {
+          const key = name.toLowerCase().trim();
+          const existing = entityIdsByName.get(key);
+          // Names shared by several entities are ambiguous and skipped.
+          entityIdsByName.set(
+            key,
+            existing === undefined || existing === entity._id ? entity._id : null
+          );
+        }
+      }
+
+      const existingRelationships = await ctx.db
+        .query('relationships')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      const existingKeys = new Set(
+        existingRelationships.map((r) => `${r.sourceEntityId}:${r.targetEntityId}:${r.type}`)
+      );
+
+      const facts = await ctx.db
+        .query('facts')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const fact of facts) {
+        if (!fact.entityId || fact.status === 'rejected') continue;
+        const targetEntityId = entityIdsByName.get(fact.object.toLowerCase().trim());
+        if (!targetEntityId || targetEntityId === fact.entityId) continue;
+
+        const key = `${fact.entityId}:${targetEntityId}:${fact.predicate}`;
+        if (existingKeys.has(key)) continue;
+        existingKeys.add(key);
+
+        await ctx.db.insert('relationships', {
+          projectId: project._id,
+          sourceEntityId: fact.entityId,
+          targetEntityId,
+          type: fact.predicate,
+          documentId: fact.documentId,
+          confidence: fact.confidence,
+          evidenceSnippet: fact.evidenceSnippet,
+          evidencePosition: fact.evidencePosition,
+          status: fact.status,
+          createdAt: fact.createdAt,
+          updatedAt: Date.now(),
+        });
+        migrated++;
+      }
+    }
+
+    console.log(`Migrated ${migrated} facts to relationships`);
+    return { migrated };
+  },
+});
+
 export const cleanupOrphanedAuthData = internalMutation({
   args: {},
   handler: async (ctx) => {
@@ -151,3 +227,38 @@ export const cleanupOrphanedAuthData = internalMutation({
     };
   },
 });
+
+/**
+ * Migration: Move pre-thread chat history into threads
+ *
+ * Each user's loose messages become one "Earlier conversation" thread, dated from the first
+ * message and last touched at the latest one.
+ */
+export const migrateChatThreads = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const messages = await ctx.db
+      .query('chatMessages')
+      .withIndex('by_thread', (q) => q.eq('threadId', undefined))
+      .collect();
+
+    const threadByUser = new Map<Id<'users'>, Id<'chatThreads'>>();
+    for (const message of messages.toSorted((a, b) => a.createdAt - b.createdAt)) {
+      let threadId = threadByUser.get(message.userId);
+      if (!threadId) {
+        threadId = await ctx.db.insert('chatThreads', {
+          userId: message.userId,
+          title: 'Earlier conversation',
+          createdAt: message.createdAt,
+          updatedAt: message.createdAt,
+        });
+        threadByUser.set(message.userId, threadId);
+      }
+      await ctx.db.patch(message._id, { threadId });
+      await ctx.db.patch(threadId, { updatedAt: message.createdAt });
+    }
+
+    console.log(`Migrated ${messages.length} chat messages into ${threadByUser.size} threads`);
+    return { migrated: messages.length, threads: threadByUser.size };
+  },
+});
@@ -1,13 +1,14 @@
 import { v } from 'convex/values';
 import { paginationOptsValidator } from 'convex/server';
 import type { Doc, Id } from './_generated/dataModel';
+import { scheduleEmbeddingSync } from './embeddings';
 import type { MutationCtx } from './_generated/server';
 import { mutation, query } from './_generated/server';
 import { requireAuth } from './lib/auth';
 import { authError, notFoundError } from './lib/errors';
-import { canReadProject } from './lib/projectAccess';
+import { canReadProject, getProjectRoleForUser, roleCanEdit } from './lib/projectAccess';
 
-async function requireProjectOwnership(
+async function requireProjectEditAccess(
   ctx: MutationCtx,
   projectId: Id<'projects'>,
   userId: Id<'users'>
@@ -16,7 +17,8 @@ async function requireProjectOwnership(
   if (!project) {
     throw notFoundError('project', projectId);
   }
-  if (project.userId !== userId) {
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanEdit(role)) {
     throw authError('unauthorized', 'You do not have permission to access this project.');
   }
   return project;
@@ -31,7 +33,7 @@ async function requireNoteAccess(
   if (!note) {
     throw notFoundError('note', noteId);
   }
-  await requireProjectOwnership(ctx, note.projectId, userId);
+  await requireProjectEditAccess(ctx, note.projectId, userId);
   return note;
 }
 
@@ -109,7 +111,7 @@ export const create = mutation({
   },
   handler: async (ctx, { projectId, title, content, tags, pinned }) => {
     const userId = await requireAuth(ctx);
-    await requireProjectOwnership(ctx, projectId, userId);
+    await requireProjectEditAccess(ctx, projectId, userId);
 
     const now = Date.now();
 
@@ -138,6 +140,7 @@ export const create = mutation({
         stats: { ...stats, noteCount: (stats.noteCount ?? 0) + 1 },
       });
     }
+    await scheduleEmbeddingSync(ctx, projectId);
 
     return noteId;
   },
@@ -153,7 +156,7 @@ export const update = mutation({
   },
   handler: async (ctx, { id, title, content, tags, pinned }) => {
     const userId = await requireAuth(ctx);
-    await requireNoteAccess(ctx, id, userId);
+    const note = await requireNoteAccess(ctx, id, userId);
 
     await ctx.db.patch(id, {
       updatedAt: Date.now(),
@@ -162,6 +165,9 @@ export const update = mutation({
       ...(tags !== undefined && { tags }),
       ...(pinned !== undefined && { pinned }),
     });
+    if (title !== undefined || content !== undefined) {
+      await scheduleEmbeddingSync(ctx, note.projectId);
+    }
 
     return id;
   },
@@ -189,6 +195,7 @@ export const remove = mutation({
     }
 
     await ctx.db.delete(id);
+    await scheduleEmbeddingSync(ctx, note.projectId);
     return id;
   },
 });
@@ -0,0 +1,253 @@
+import { v } from 'convex/values';
+import type { QueryCtx } from './_generated/server';
+import { query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { getProjectRole, roleCanReadRevealed } from './lib/projectAccess';
+import { isDocumentRevealed, isEntityRevealed, isFactRevealed } from './lib/reveal';
+
+// Read-only player wiki. Everything here is filtered server-side by the rules in lib/reveal.
+
+const entityTypeValidator = v.union(
+  v.literal('character'),
+  v.literal('location'),
+  v.literal('item'),
+  v.literal('concept'),
+  v.literal('event')
+);
+
+type PlayerEntity = Pick<
+  Doc<'entities'>,
+  '_id' | 'name' | 'type' | 'customTypeId' | 'description' | 'aliases' | 'revealedAt'
+>;
+
+function toPlayerEntity(entity: Doc<'entities'>): PlayerEntity {
+  return {
+    _id: entity._id,
+    name: entity.name,
+    type: entity.type,
+    customTypeId: entity.customTypeId,
+    description: entity.description,
+    aliases: entity.aliases,
+    revealedAt: entity.revealedAt,
+  };
+}
+
+async function canViewProject(ctx: QueryCtx, projectId: Id<'projects'>): Promise<boolean> {
+  const role = await getProjectRole(ctx, projectId);
+  return roleCanReadRevealed(role);
+}
+
+async function listRevealedEntities(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>
+): Promise<Doc<'entities'>[]> {
+  return await ctx.db
+    .query('entities')
+    .withIndex('by_project_status', (q) => q.eq('projectId', projectId).eq('status', 'confirmed'))
+    .filter((q) => q.eq(q.field('revealedToViewers'), true))
+    .collect();
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mentionsEntity(text: string, entity: Doc<'entities'>): boolean {
+  const textLower = text.toLowerCase();
+  return [entity.name, ...entity.aliases].some((candidate) => {
+    const term = candidate.toLowerCase().trim();
+    const minLength = term.includes(' ') ? 3 : 5;
+    if (term.length < minLength) return false;
+    return new RegExp(`\\b${escapeRegex(term)}\\b`).test(textLower);
+  });
+}
+
+export const getProject = query({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const project = await ctx.db.get(projectId);
+    if (!project) return null;
+
+    if (!(await canViewProject(ctx, projectId))) return null;
+
+    return {
+      _id: project._id,
+      name: project.name,
+      description: project.description,
+      projectType: project.projectType,
+    };
+  },
+});
+
+export const listEntities = query({
+  args: {
+    projectId: v.id('projects'),
+    type: v.optional(entityTypeValidator),
+  },
+  handler: async (ctx, { projectId, type }) => {
+    if (!(await canViewProject(ctx, projectId))) return [];
+
+    const entities = await listRevealedEntities(ctx, projectId);
+
+    return entities
+      .filter((entity) => !type || entity.type === type)
+      .map(toPlayerEntity)
+      .toSorted((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+export const search = query({
+  args: {
+    projectId: v.id('projects'),
+    query: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { projectId, query, limit = 20 }) => {
+    if (!(await canViewProject(ctx, projectId))) return [];
+    if (!query.trim()) return [];
+
+    // Over-fetch so that hidden matches do not crowd out revealed ones.
+    const [nameResults, descriptionResults] = await Promise.all([
+      ctx.db
+        .query('entities')
+        .withSearchIndex('search_name', (q) => q.search('name', query).eq('projectId', projectId))
+        .take(limit * 4),
+      ctx.db
+        .query('entities')
+        .withSearchIndex('search_description', (q) =>
+          q.search('description', query).eq('projectId', projectId)
+        )
+        .take(limit * 4),
+    ]);
+
+    const seen = new Set<string>();
+    const combined: PlayerEntity[] = [];
+
+    for (const entity of [...nameResults, ...descriptionResults]) {
+      if (!isEntityRevealed(entity) || seen.has(entity._id)) continue;
+      seen.add(entity._id);
+      combined.push(toPlayerEntity(entity));
+      if (combined.length >= limit) break;
+    }
+
+    return combined;
+  },
+});
+
+export const getEntity = query({
+  args: { entityId: v.id('entities') },
+  handler: async (ctx, { entityId }) => {
+    const entity = await ctx.db.get(entityId);
+    if (!entity || !isEntityRevealed(entity)) return null;
+
+    if (!(await canViewProject(ctx, entity.projectId))) return null;
+
+    const facts = await ctx.db
+      .query('facts')
+      .withIndex('by_entity', (q) => q.eq('entityId', entityId).eq('status', 'confirmed'))
+      .collect();
+
+    const others = (await listRevealedEntities(ctx, entity.projectId)).filter(
+      (other) => other._id !== entityId
+    );
+
+    const documentIds = [
+      ...new Set(facts.map((f) => f.documentId).filter((id): id is Id<'documents'> => !!id)),
+    ];
+    const documents = await Promise.all(documentIds.map((id) => ctx.db.get(id)));
+    const documentsById = new Map(
+      documents.filter((doc): doc is Doc<'documents'> => doc !== null).map((doc) => [doc._id, doc])
+    );
+    const getDocument = (fact: Doc<'facts'>) =>
+      fact.documentId ? (documentsById.get(fact.documentId) ?? null) : null;
+
+    const relatedEntityIds = new Set<Id<'entities'>>();
+    const visibleFacts = facts.filter((fact) => isFactRevealed(fact, entity, getDocument(fact)));
+    const playerFacts = visibleFacts.map((fact) => {
+      const linkedEntities = others
+        .filter((other) => mentionsEntity(fact.object, other))
+        .map((other) => ({ _id: other._id, name: other.name, type: other.type }));
+      for (const linked of linkedEntities) {
+        relatedEntityIds.add(linked._id);
+      }
+
+      // Evidence quotes its source document, so it is only shown once that document is revealed.
+      const document = getDocument(fact);
+      const source = document && isDocumentRevealed(document) ? document : null;
+      return {
+        _id: fact._id,
+        subject: fact.subject,
+        predicate: fact.predicate,
+        object: fact.object,
+        temporalBound: fact.temporalBound,
+        evidenceSnippet: source ? fact.evidenceSnippet : undefined,
+        document: source ? { _id: source._id, title: source.title } : null,
+        linkedEntities,
+      };
+    });
+
+    // Backlinks: revealed entities whose own facts point at this one.
+    for (const other of others) {
+      if (relatedEntityIds.has(other._id)) continue;
+      const otherFacts = await ctx.db
+        .query('facts')
+        .withIndex('by_entity', (q) => q.eq('entityId', other._id).eq('status', 'confirmed'))
+        .collect();
+      for (const fact of otherFacts) {
+        if (!mentionsEntity(fact.object, entity)) continue;
+        const document = fact.documentId ? await ctx.db.get(fact.documentId) : null;
+        if (isFactRevealed(fact, other, document)) {
+          relatedEntityIds.add(other._id);
+          break;
+        }
+      }
+    }
+
+    return {
+      entity: toPlayerEntity(entity),
+      facts: playerFacts,
+      relatedEntities: others
+        .filter((other) => relatedEntityIds.has(other._id))
+        .map(toPlayerEntity)
+        .toSorted((a, b) => a.name.localeCompare(b.name)),
+    };
+  },
+});
+
+export const listDocuments = query({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    if (!(await canViewProject(ctx, projectId))) return [];
+
+    const documents = await ctx.db
+      .query('documents')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    return documents.filter(isDocumentRevealed).map((doc) => ({
+      _id: doc._id,
+      title: doc.title,
+      orderIndex: doc.orderIndex,
+      wordCount: doc.wordCount,
+      revealedAt: doc.revealedAt,
+    }));
+  },
+});
+
+export const getDocument = query({
+  args: { documentId: v.id('documents') },
+  handler: async (ctx, { documentId }) => {
+    const doc = await ctx.db.get(documentId);
+    if (!doc || !isDocumentRevealed(doc)) return null;
+
+    if (!(await canViewProject(ctx, doc.projectId))) return null;
+
+    return {
+      _id: doc._id,
+      title: doc.title,
+      content: doc.content,
+      contentType: doc.contentType,
+      revealedAt: doc.revealedAt,
+    };
+  },
+});
@@ -0,0 +1,627 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+import { v } from 'convex/values';
+import type { ActionCtx, MutationCtx } from './_generated/server';
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from './_generated/server';
+import { internal } from './_generated/api';
+import type { Doc, Id } from './_generated/dataModel';
+import { normalizeCalendarName, validateCalendarStructure } from './calendars';
+import { scheduleEmbeddingSync } from './embeddings';
+import { normalizeEntityTypeName, validateColor, validateIcon } from './entityTypes';
+import { requireAuth } from './lib/auth';
+import { authError, limitError, notFoundError } from './lib/errors';
+import {
+  clearImportIdMap,
+  failImportJob,
+  getImportJob,
+  isStalled,
+  resumeImportJob,
+  runImportJob,
+} from './lib/importJobs';
+import {
+  countImportRecords,
+  firstImportStage,
+  nextImportBatch,
+  nextImportStage,
+  parseProjectExport,
+  projectImportBatchValidator,
+  projectImportStageValidator,
+  type MappedTable,
+  type ProjectExport,
+  type ProjectImportBatch,
+  type ProjectImportStage,
+} from './lib/projectExport';
+import { assertStorageIdAvailableForDocument } from './lib/storageAccess';
+import { checkResourceLimit, getProjectCount } from './lib/subscription';
+import { projectTypeValidator } from './projects';
+
+// Project import: rebuilds a project from its JSON export as a background job (see
+// `lib/importJobs`). `importProject` validates the upload, creates the empty project and the job,
+// and schedules `run`, which writes one table at a time in batches.
+
+type ImportProgress = { stage: ProjectImportStage | 'cleanup'; cursor: number };
+
+type ProjectStats = NonNullable<Doc<'projects'>['stats']>;
+
+const jobFunctions = {
+  run: internal.projectImports.run,
+  fail: internal.projectImports.fail,
+};
+
+async function readExport(ctx: ActionCtx, storageId: Id<'_storage'>): Promise<ProjectExport> {
+  const file = await ctx.storage.get(storageId);
+  if (!file) {
+    throw notFoundError('file', storageId);
+  }
+  return parseProjectExport(await file.text());
+}
+
+async function mappedId<T extends MappedTable>(
+  ctx: MutationCtx,
+  importId: Id<'projectImports'>,
+  table: T,
+  sourceId: string | undefined
+): Promise<Id<T> | undefined> {
+  if (!sourceId) return undefined;
+  const row = await ctx.db
+    .query('projectImportIds')
+    .withIndex('by_import', (q) =>
+      q.eq('importId', importId).eq('table', table).eq('sourceId', sourceId)
+    )
+    .unique();
+  return row ? (row.targetId as Id<T>) : undefined;
+}
+
+async function mappedIds<T extends MappedTable>(
+  ctx: MutationCtx,
+  importId: Id<'projectImports'>,
+  table: T,
+  sourceIds: string[]
+): Promise<Id<T>[]> {
+  const ids = await Promise.all(sourceIds.map((id) => mappedId(ctx, importId, table, id)));
+  return ids.filter((id): id is Id<T> => id !== undefined);
+}
+
+async function recordId(
+  ctx: MutationCtx,
+  importId: Id<'projectImports'>,
+  table: MappedTable,
+  sourceId: string,
+  targetId: string
+): Promise<void> {
+  await ctx.db.insert('projectImportIds', { importId, table, sourceId, targetId });
+}
+
+/** Write one batch of a stage, returning how the project's counters change. */
+async function importRecords(
+  ctx: MutationCtx,
+  job: Doc<'projectImports'>,
+  batch: ProjectImportBatch
+): Promise<Partial<ProjectStats>> {
+  const { _id: importId, projectId, userId } = job;
+  const now = Date.now();
+
+  switch (batch.stage) {
+    case 'entityTypes': {
+      for (const record of batch.records) {
+        const id = await ctx.db.insert('entityTypes', {
+          projectId,
+          name: await normalizeEntityTypeName(ctx, projectId, record.name),
+          icon: validateIcon(record.icon),
+          color: validateColor(record.color),
+          description: record.description?.trim() || undefined,
+          baseType: record.baseType,
+          createdAt: now,
+          updatedAt: now,
+        });
+        await recordId(ctx, importId, 'entityTypes', record.id, id);
+      }
+      return {};
+    }
+
+    case 'attributeTemplates': {
+      for (const record of batch.records) {
+        const customTypeId = await mappedId(ctx, importId, 'entityTypes', record.customTypeId);
+        // Without its custom type the template would override the built-in type's instead.
+        if (record.customTypeId && !customTypeId) continue;
+        await ctx.db.insert('attributeTemplates', {
+          projectId,
+          entityType: record.entityType,
+          customTypeId,
+          fields: record.fields,
+          updatedAt: now,
+        });
+      }
+      return {};
+    }
+
+    case 'calendars': {
+      for (const record of batch.records) {
+        const id = await ctx.db.insert('calendars', {
+          projectId,
+          name: await normalizeCalendarName(ctx, projectId, record.name),
+          daysPerYear: record.daysPerYear,
+          ...validateCalendarStructure(record.daysPerYear, record.months, record.eras),
+          epochOffset: Math.round(record.epochOffset),
+          isDefault: record.isDefault,
+          createdAt: now,
+          updatedAt: now,
+        });
+        await recordId(ctx, importId, 'calendars', record.id, id);
+      }
+      return {};
+    }
+
+    case 'documents': {
+      for (const record of batch.records) {
+        // Text withheld from the export (stored files, player-safe exports) comes back empty.
+        const id = await ctx.db.insert('documents', {
+          projectId,
+          title: record.title,
+          content: record.content ?? '',
+          contentType: record.contentType,
+          sourceFormat: record.sourceFormat,
+          orderIndex: record.orderIndex,
+          wordCount: record.content ? record.wordCount : 0,
+          createdAt: now,
+          updatedAt: now,
+          processingStatus:
+            record.processingStatus === 'processing' ? 'pending' : record.processingStatus,
+          revealedToViewers: record.revealedToViewers,
+        });
+        await recordId(ctx, importId, 'documents', record.id, id);
+      }
+      return { documentCount: batch.records.length };
+    }
+
+    case 'entities': {
+      for (const record of batch.records) {
+        const id = await ctx.db.insert('entities', {
+          projectId,
+          name: record.name,
+          type: record.type,
+          customTypeId: await mappedId(ctx, importId, 'entityTypes', record.customTypeId),
+          description: record.description,
+          aliases: record.aliases,
+          firstMentionedIn: await mappedId(ctx, importId, 'documents', record.firstMentionedIn),
+          status: record.status,
+          revealedToViewers: record.revealedToViewers,
+          revealedAt: record.revealedToViewers ? now : undefined,
+          createdAt: now,
+          updatedAt: now,
+        });
+        await recordId(ctx, importId, 'entities', record.id, id);
+      }
+      return { entityCount: batch.records.length };
+    }
+
+    case 'facts': {
+      let confirmed = 0;
+      for (const record of batch.records) {
+        const { temporalBound } = record;
+        const id = await ctx.db.insert('facts', {
+          projectId,
+          entityId: await mappedId(ctx, importId, 'entities', record.entityId),
+          documentId: await mappedId(ctx, importId, 'documents', record.documentId),
+          subject: record.subject,
+          predicate: record.predicate,
+          object: record.object,
+          confidence: record.confidence,
+          evidenceSnippet: record.evidenceSnippet || undefined,
+          evidencePosition: record.evidencePosition,
+          temporalBound: temporalBound && {
+            ...temporalBound,
+            calendarId: await mappedId(ctx, importId, 'calendars', temporalBound.calendarId),
+          },
+          status: record.status,
+          revealedToViewers: record.revealedToViewers,
+          revealedAt: record.revealedToViewers ? now : undefined,
+          createdAt: now,
+        });
+        await recordId(ctx, importId, 'facts', record.id, id);
+        if (record.status === 'confirmed') confirmed++;
+      }
+      return { factCount: confirmed };
+    }
+
+    case 'entityAttributes': {
+      for (const record of batch.records) {
+        const entityId = await mappedId(ctx, importId, 'entities', record.entityId);
+        if (!entityId) continue;
+        await ctx.db.insert('entityAttributes', {
+          projectId,
+          entityId,
+          key: record.key,
+          value: record.value,
+          documentId: await mappedId(ctx, importId, 'documents', record.documentId),
+          evidenceSnippet: record.evidenceSnippet,
+          evidencePosition: record.evidencePosition,
+          status: record.status,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      return {};
+    }
+
+    case 'relationships': {
+      for (const record of batch.records) {
+        const sourceEntityId = await mappedId(ctx, importId, 'entities', record.sourceEntityId);
+        const targetEntityId = await mappedId(ctx, importId, 'entities', record.targetEntityId);
+        if (!sourceEntityId || !targetEntityId) continue;
+
+        await ctx.db.insert('relationships', {
+          projectId,
+          sourceEntityId,
+          targetEntityId,
+          type: record.type,
+          documentId: await mappedId(ctx, importId, 'documents', record.documentId),
+          confidence: record.confidence,
+          evidenceSnippet: record.evidenceSnippet,
+          evidencePosition: record.evidencePosition,
+          status: record.status,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      return {};
+    }
+
+    case 'notes': {
+      for (const record of batch.records) {
+        await ctx.db.insert('notes', {
+          projectId,
+          userId,
+          title: record.title,
+          content: record.content,
+          tags: record.tags,
+          pinned: record.pinned,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      return { noteCount: batch.records.length };
+    }
+
+    case 'entityNotes': {
+      for (const record of batch.records) {
+        const entityId = await mappedId(ctx, importId, 'entities', record.entityId);
+        if (!entityId) continue;
+        await ctx.db.insert('entityNotes', {
+          entityId,
+          projectId,
+          userId,
+          content: record.content,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      return {};
+    }
+
+    case 'alerts': {
+      let open = 0;
+      for (const record of batch.records) {
+        const documentId = await mappedId(ctx, importId, 'documents', record.documentId);
+        if (!documentId) continue;
+
+        const evidence = [];
+        for (const item of record.evidence) {
+          const evidenceDocumentId = await mappedId(ctx, importId, 'documents', item.documentId);
+          if (evidenceDocumentId) evidence.push({ ...item, documentId: evidenceDocumentId });
+        }
+        await ctx.db.insert('alerts', {
+          projectId,
+          documentId,
+          factIds: await mappedIds(ctx, importId, 'facts', record.factIds),
+          entityIds: await mappedIds(ctx, importId, 'entities', record.entityIds),
+          type: record.type,
+          severity: record.severity,
+          title: record.title,
+          description: record.description,
+          evidence,
+          suggestedFix: record.suggestedFix,
+          status: record.status,
+          resolutionNotes: record.resolutionNotes,
+          rule: record.rule,
+          fingerprint: record.fingerprint,
+          createdAt: now,
+          resolvedAt: record.status === 'open' ? undefined : now,
+        });
+        if (record.status === 'open') open++;
+      }
+      return { alertCount: open };
+    }
+
+    case 'alertSuppressions': {
+      for (const record of batch.records) {
+        const entityIds = await mappedIds(ctx, importId, 'entities', record.entityIds);
+        if (entityIds.length === 0) continue;
+        await ctx.db.insert('alertSuppressions', {
+          projectId,
+          rule: record.rule,
+          entityIds,
+          createdBy: userId,
+          createdAt: now,
+        });
+      }
+      return {};
+    }
+  }
+}
+
+async function addToStats(
+  ctx: MutationCtx,
+  project: Doc<'projects'>,
+  delta: Partial<ProjectStats>
+): Promise<void> {
+  const stats = project.stats ?? {
+    documentCount: 0,
+    entityCount: 0,
+    factCount: 0,
+    alertCount: 0,
+    noteCount: 0,
+  };
+  await ctx.db.patch(project._id, {
+    stats: {
+      documentCount: stats.documentCount + (delta.documentCount ?? 0),
+      entityCount: stats.entityCount + (delta.entityCount ?? 0),
+      factCount: stats.factCount + (delta.factCount ?? 0),
+      alertCount: stats.alertCount + (delta.alertCount ?? 0),
+      noteCount: (stats.noteCount ?? 0) + (delta.noteCount ?? 0),
+    },
+    updatedAt: Date.now(),
+  });
+}
+
+/** Start importing an uploaded JSON export into a new project. Returns before the data is in. */
+export const importProject = action({
+  args: { storageId: v.id('_storage') },
+  handler: async (
+    ctx,
+    { storageId }
+  ): Promise<{ importId: Id<'projectImports'>; projectId: Id<'projects'> }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw authError('unauthenticated', 'You must be signed in to import a project.');
+    }
+    await ctx.runQuery(internal.vaultImport.assertUploadAvailable, { storageId });
+
+    const data = await readExport(ctx, storageId);
+    return await ctx.runMutation(internal.projectImports.createImport, {
+      userId,
+      storageId,
+      project: {
+        name: data.project.name,
+        description: data.project.description,
+        projectType: data.project.projectType,
+        revealToPlayersEnabled: data.project.revealToPlayersEnabled,
+        singleValuedPredicates: data.project.singleValuedPredicates,
+      },
+      documentCount: data.documents.length,
+      entityCount: data.entities.length,
+      totalRecords: countImportRecords(data),
+      stage: firstImportStage(data),
+    });
+  },
+});
+
+export const createImport = internalMutation({
+  args: {
+    userId: v.id('users'),
+    storageId: v.id('_storage'),
+    project: v.object({
+      name: v.string(),
+      description: v.optional(v.string()),
+      projectType: projectTypeValidator,
+      revealToPlayersEnabled: v.optional(v.boolean()),
+      singleValuedPredicates: v.optional(v.array(v.string())),
+    }),
+    documentCount: v.number(),
+    entityCount: v.number(),
+    totalRecords: v.number(),
+    stage: projectImportStageValidator,
+  },
+  handler: async (
+    ctx,
+    { userId, storageId, project, documentCount, entityCount, totalRecords, stage }
+  ) => {
+    const user = await ctx.db.get(userId);
+    if (!user) {
+      throw notFoundError('user', userId);
+    }
+    await assertStorageIdAvailableForDocument(ctx, storageId);
+
+    const projectLimit = checkResourceLimit(user, 'projects', await getProjectCount(ctx, userId));
+    if (!projectLimit.allowed) {
+      throw limitError(
+        'projects',
+        projectLimit.limit,
+        `Project limit reached. Free tier allows ${projectLimit.limit} projects. Upgrade to Realm Unlimited for unlimited projects.`
+      );
+    }
+    const documentLimit = checkResourceLimit(user, 'documentsPerProject', documentCount - 1);
+    if (!documentLimit.allowed) {
+      throw limitError(
+        'documentsPerProject',
+        documentLimit.limit,
+        `Document limit reached. Free tier allows ${documentLimit.limit} documents per project, and this export has ${documentCount}. Upgrade to Realm Unlimited for unlimited documents.`
+      );
+    }
+    const entityLimit = checkResourceLimit(user, 'entitiesPerProject', entityCount - 1);
+    if (!entityLimit.allowed) {
+      throw limitError(
+        'entitiesPerProject',
+        entityLimit.limit,
+        `Entity limit reached. Free tier allows ${entityLimit.limit} entities per project, and this export has ${entityCount}. Upgrade to Realm Unlimited for unlimited entities.`
+      );
+    }
+
+    const now = Date.now();
+    const projectId = await ctx.db.insert('projects', {
+      userId,
+      ...project,
+      createdAt: now,
+      updatedAt: now,
+      stats: { documentCount: 0, entityCount: 0, factCount: 0, alertCount: 0, noteCount: 0 },
+    });
+    const importId = await ctx.db.insert('projectImports', {
+      userId,
+      projectId,
+      storageId,
+      status: 'running',
+      stage,
+      cursor: 0,
+      importedRecords: 0,
+      totalRecords,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.projectImports.run, { importId });
+    return { importId, projectId };
+  },
+});
+
+export const getJob = internalQuery({
+  args: { importId: v.id('projectImports') },
+  handler: async (ctx, { importId }) => {
+    return await ctx.db.get(importId);
+  },
+});
+
+/** Import batches from the job's saved position until done, failed, or out of time. */
+export const run = internalAction({
+  args: { importId: v.id('projectImports') },
+  handler: async (ctx, { importId }) => {
+    const job = await ctx.runQuery(internal.projectImports.getJob, { importId });
+    await runImportJob(ctx, job, jobFunctions, async ({ storageId }) => {
+      const data = await readExport(ctx, storageId);
+      return async ({ stage, cursor }) =>
+        stage === 'cleanup' ?
+          await ctx.runMutation(internal.projectImports.clearIdMap, { importId })
+        : await ctx.runMutation(internal.projectImports.importBatch, {
+            importId,
+            cursor,
+            batch: nextImportBatch(data, stage, cursor),
+            stageSize: data[stage].length,
+            nextStage: nextImportStage(data, stage),
+          });
+    });
+  },
+});
+
+/**
+ * Write one batch and advance the job past it. A batch for any other position than the job's
+ * own (a second runner, a retried call) is ignored. Returns where to continue, or null to stop.
+ */
+export const importBatch = internalMutation({
+  args: {
+    importId: v.id('projectImports'),
+    cursor: v.number(),
+    batch: projectImportBatchValidator,
+    stageSize: v.number(),
+    nextStage: projectImportStageValidator,
+  },
+  handler: async (
+    ctx,
+    { importId, cursor, batch, stageSize, nextStage }
+  ): Promise<ImportProgress | null> => {
+    const { stage, records } = batch;
+    const job = await ctx.db.get(importId);
+    if (!job || job.status !== 'running' || job.stage !== stage || job.cursor !== cursor) {
+      return null;
+    }
+    const project = await ctx.db.get(job.projectId);
+    if (!project) {
+      await ctx.db.patch(importId, {
+        status: 'failed',
+        error: 'The project was deleted before the import finished.',
+        updatedAt: Date.now(),
+      });
+      return null;
+    }
+
+    await addToStats(ctx, project, await importRecords(ctx, job, batch));
+
+    // Text kept in file storage isn't in the export, so these documents arrive empty.
+    const withoutText =
+      batch.stage === 'documents' ?
+        batch.records.filter((record) => record.storedFile).map((record) => record.title)
+      : [];
+
+    const next: ImportProgress =
+      cursor + records.length >= stageSize ?
+        { stage: nextStage, cursor: 0 }
+      : { stage, cursor: cursor + records.length };
+    await ctx.db.patch(importId, {
+      ...next,
+      importedRecords: job.importedRecords + records.length,
+      ...(withoutText.length > 0 && {
+        documentsWithoutText: [...(job.documentsWithoutText ?? []), ...withoutText],
+      }),
+      updatedAt: Date.now(),
+    });
+    return next;
+  },
+});
+
+/** Drop the job's id map a batch at a time, then mark it completed and delete the upload. */
+export const clearIdMap = internalMutation({
+  args: { importId: v.id('projectImports') },
+  handler: async (ctx, { importId }): Promise<ImportProgress | null> => {
+    return await clearImportIdMap(ctx, importId, (job) =>
+      scheduleEmbeddingSync(ctx, job.projectId)
+    );
+  },
+});
+
+export const fail = internalMutation({
+  args: { importId: v.id('projectImports'), error: v.string() },
+  handler: async (ctx, { importId, error }) => {
+    await failImportJob(ctx, importId, error);
+  },
+});
+
+/** Pick a failed or stalled import back up from the last batch it finished. */
+export const resume = mutation({
+  args: { id: v.id('projectImports') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    await resumeImportJob(ctx, userId, id, jobFunctions);
+  },
+});
+
+export const get = query({
+  args: { id: v.id('projectImports') },
+  handler: async (ctx, { id }) => {
+    return await getImportJob(ctx, await getAuthUserId(ctx), id);
+  },
+});
+
+/** The user's imports that still need attention: running, or failed and waiting to resume. */
+export const listUnfinished = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const jobs = await ctx.db
+      .query('projectImports')
+      .withIndex('by_user', (q) => q.eq('userId', userId))
+      .order('desc')
+      .take(20);
+    const unfinished = jobs.filter((job) => job.status !== 'completed');
+    return await Promise.all(
+      unfinished.map(async (job) => ({
+        ...job,
+        stalled: isStalled(job),
+        projectName: (await ctx.db.get(job.projectId))?.name ?? 'Imported project',
+      }))
+    );
+  },
+});
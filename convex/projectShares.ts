@@ -0,0 +1,221 @@
+import { v } from 'convex/values';
+import { z } from 'zod';
+import type { Doc, Id } from './_generated/dataModel';
+import type { MutationCtx } from './_generated/server';
+import { mutation, query } from './_generated/server';
+import { getAuthUserId, getCurrentUser, requireAuth, requireAuthUser } from './lib/auth';
+import { authError, conflictError, notFoundError, validationError } from './lib/errors';
+import { canEditProject, isPlayerRevealProject } from './lib/projectAccess';
+
+const shareRoleValidator = v.union(v.literal('editor'), v.literal('viewer'));
+
+function normalizeEmail(email: string): string {
+  return email.toLowerCase().trim();
+}
+
+async function requireProjectOwner(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  userId: Id<'users'>
+): Promise<Doc<'projects'>> {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw notFoundError('project', projectId);
+  }
+  if (project.userId !== userId) {
+    throw authError('unauthorized', 'Only the project owner can manage collaborators.');
+  }
+  return project;
+}
+
+async function requireShare(ctx: MutationCtx, shareId: Id<'projectShares'>) {
+  const share = await ctx.db.get(shareId);
+  if (!share) {
+    throw notFoundError('share', shareId);
+  }
+  return share;
+}
+
+export const listByProject = query({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    // Collaborators' emails are only for those who manage the project, not viewers or players.
+    const canEdit = await canEditProject(ctx, projectId);
+    if (!canEdit) return [];
+
+    const shares = await ctx.db
+      .query('projectShares')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    return await Promise.all(
+      shares.map(async (share) => {
+        const member = share.sharedWithUserId ? await ctx.db.get(share.sharedWithUserId) : null;
+        return {
+          ...share,
+          memberName: member?.name ?? null,
+        };
+      })
+    );
+  },
+});
+
+export const listSharedWithMe = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const shares = await ctx.db
+      .query('projectShares')
+      .withIndex('by_user', (q) => q.eq('sharedWithUserId', userId))
+      .collect();
+
+    const projects = await Promise.all(
+      shares.map(async (share) => {
+        const project = await ctx.db.get(share.projectId);
+        if (!project) return null;
+        const role =
+          share.role === 'viewer' && isPlayerRevealProject(project) ?
+            ('player' as const)
+          : share.role;
+        return { project, role, shareId: share._id };
+      })
+    );
+
+    return projects
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+      .toSorted((a, b) => b.project.updatedAt - a.project.updatedAt);
+  },
+});
+
+export const listMyInvites = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user?.email) return [];
+
+    const invites = await ctx.db
+      .query('projectShares')
+      .withIndex('by_email', (q) => q.eq('sharedWithEmail', normalizeEmail(user.email ?? '')))
+      .filter((q) => q.eq(q.field('acceptedAt'), undefined))
+      .collect();
+
+    const withDetails = await Promise.all(
+      invites.map(async (invite) => {
+        const project = await ctx.db.get(invite.projectId);
+        if (!project) return null;
+        const inviter = await ctx.db.get(invite.invitedBy);
+        return {
+          _id: invite._id,
+          role: invite.role,
+          createdAt: invite.createdAt,
+          projectId: project._id,
+          projectName: project.name,
+          invitedByName: inviter?.name ?? inviter?.email ?? 'Someone',
+        };
+      })
+    );
+
+    return withDetails.filter((invite): invite is NonNullable<typeof invite> => invite !== null);
+  },
+});
+
+export const invite = mutation({
+  args: {
+    projectId: v.id('projects'),
+    email: v.string(),
+    role: shareRoleValidator,
+  },
+  handler: async (ctx, { projectId, email, role }) => {
+    const user = await requireAuthUser(ctx);
+    await requireProjectOwner(ctx, projectId, user._id);
+
+    const normalized = normalizeEmail(email);
+    if (!z.string().email().safeParse(normalized).success) {
+      throw validationError('email', 'Invalid email format');
+    }
+
+    if (user.email && normalizeEmail(user.email) === normalized) {
+      throw validationError('email', 'You already own this project');
+    }
+
+    const existing = await ctx.db
+      .query('projectShares')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .filter((q) => q.eq(q.field('sharedWithEmail'), normalized))
+      .first();
+
+    if (existing) {
+      throw conflictError('This email has already been invited', 'email');
+    }
+
+    return await ctx.db.insert('projectShares', {
+      projectId,
+      sharedWithEmail: normalized,
+      role,
+      invitedBy: user._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const accept = mutation({
+  args: { id: v.id('projectShares') },
+  handler: async (ctx, { id }) => {
+    const user = await requireAuthUser(ctx);
+    const share = await requireShare(ctx, id);
+
+    if (!user.email || normalizeEmail(user.email) !== share.sharedWithEmail) {
+      throw authError('unauthorized', 'This invitation was sent to a different email address.');
+    }
+
+    if (share.acceptedAt !== undefined) {
+      throw conflictError('Invitation already accepted');
+    }
+
+    await ctx.db.patch(id, {
+      sharedWithUserId: user._id,
+      acceptedAt: Date.now(),
+    });
+
+    return share.projectId;
+  },
+});
+
+export const updateRole = mutation({
+  args: {
+    id: v.id('projectShares'),
+    role: shareRoleValidator,
+  },
+  handler: async (ctx, { id, role }) => {
+    const userId = await requireAuth(ctx);
+    const share = await requireShare(ctx, id);
+    await requireProjectOwner(ctx, share.projectId, userId);
+
+    await ctx.db.patch(id, { role });
+    return id;
+  },
+});
+
+// Owners revoke access; invitees decline an invite or leave a project they joined.
+export const remove = mutation({
+  args: { id: v.id('projectShares') },
+  handler: async (ctx, { id }) => {
+    const user = await requireAuthUser(ctx);
+    const share = await requireShare(ctx, id);
+
+    const project = await ctx.db.get(share.projectId);
+    const isOwner = project?.userId === user._id;
+    const isInvitee =
+      share.sharedWithUserId === user._id ||
+      (!!user.email && normalizeEmail(user.email) === share.sharedWithEmail);
+
+    if (!isOwner && !isInvitee) {
+      throw authError('unauthorized', 'You do not have permission to remove this collaborator.');
+    }
+
+    await ctx.db.delete(id);
+    return id;
+  },
+});
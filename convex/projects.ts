@@ -3,8 +3,10 @@ import type { Doc, Id } from './_generated/dataModel';
 import type { MutationCtx } from './_generated/server';
 import { mutation, query } from './_generated/server';
 import { getAuthUserId, requireAuth, requireAuthUser } from './lib/auth';
-import { authError, limitError, notFoundError } from './lib/errors';
-import { getProjectRole, canReadProject } from './lib/projectAccess';
+import { MAX_SINGLE_VALUED_PREDICATES, normalizePredicate } from './lib/contradictions';
+import { authError, limitError, notFoundError, validationError } from './lib/errors';
+import { getProjectRole, canReadProject, roleCanRead } from './lib/projectAccess';
+import { documentStorageIds } from './lib/storageAccess';
 import { getProjectCount, checkResourceLimit } from './lib/subscription';
 
 async function requireProjectAccess(
@@ -49,7 +51,14 @@ export const get = query({
   },
 });
 
-const projectTypeValidator = v.optional(
+export const getRole = query({
+  args: { id: v.id('projects') },
+  handler: async (ctx, { id }) => {
+    return await getProjectRole(ctx, id);
+  },
+});
+
+export const projectTypeValidator = v.optional(
   v.union(
     v.literal('ttrpg'),
     v.literal('original-fiction'),
@@ -108,8 +117,12 @@ export const update = mutation({
     description: v.optional(v.string()),
     projectType: projectTypeValidator,
     revealToPlayersEnabled: v.optional(v.boolean()),
+    singleValuedPredicates: v.optional(v.array(v.string())),
   },
-  handler: async (ctx, { id, name, description, projectType, revealToPlayersEnabled }) => {
+  handler: async (
+    ctx,
+    { id, name, description, projectType, revealToPlayersEnabled, singleValuedPredicates }
+  ) => {
     const userId = await requireAuth(ctx);
     const project = await requireProjectAccess(ctx, id, userId);
 
@@ -120,6 +133,18 @@ export const update = mutation({
     if (revealToPlayersEnabled !== undefined) {
       updates.revealToPlayersEnabled = revealToPlayersEnabled;
     }
+    if (singleValuedPredicates !== undefined) {
+      const predicates = [...new Set(singleValuedPredicates.map(normalizePredicate))].filter(
+        Boolean
+      );
+      if (predicates.length > MAX_SINGLE_VALUED_PREDICATES) {
+        throw validationError(
+          'singleValuedPredicates',
+          `At most ${MAX_SINGLE_VALUED_PREDICATES} single-valued predicates are allowed`
+        );
+      }
+      updates.singleValuedPredicates = predicates;
+    }
 
     await ctx.db.patch(id, updates);
     return id;
@@ -138,8 +163,8 @@ export const remove = mutation({
       .collect();
 
     for (const doc of documents) {
-      if (doc.storageId) {
-        await ctx.storage.delete(doc.storageId);
+      for (const storageId of documentStorageIds(doc)) {
+        await ctx.storage.delete(storageId);
       }
       await ctx.db.delete(doc._id);
     }
@@ -162,6 +187,133 @@ export const remove = mutation({
       await ctx.db.delete(fact._id);
     }
 
+    const relationships = await ctx.db
+      .query('relationships')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const relationship of relationships) {
+      await ctx.db.delete(relationship._id);
+    }
+
+    const entityTypes = await ctx.db
+      .query('entityTypes')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const entityType of entityTypes) {
+      await ctx.db.delete(entityType._id);
+    }
+
+    const attributeTemplates = await ctx.db
+      .query('attributeTemplates')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const template of attributeTemplates) {
+      await ctx.db.delete(template._id);
+    }
+
+    const calendars = await ctx.db
+      .query('calendars')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const calendar of calendars) {
+      await ctx.db.delete(calendar._id);
+    }
+
+    const revisions = await ctx.db
+      .query('revisions')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const revision of revisions) {
+      await ctx.db.delete(revision._id);
+    }
+
+    const proposals = await ctx.db
+      .query('canonProposals')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const proposal of proposals) {
+      await ctx.db.delete(proposal._id);
+    }
+
+    const embeddings = await ctx.db
+      .query('embeddings')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const embedding of embeddings) {
+      await ctx.db.delete(embedding.vectorId);
+      await ctx.db.delete(embedding._id);
+    }
+
+    const embeddingSyncs = await ctx.db
+      .query('embeddingSyncs')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const sync of embeddingSyncs) {
+      await ctx.db.delete(sync._id);
+    }
+
+    const documentChunks = await ctx.db
+      .query('documentChunks')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const chunk of documentChunks) {
+      await ctx.db.delete(chunk._id);
+    }
+
+    const checkRuns = await ctx.db
+      .query('checkRuns')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const run of checkRuns) {
+      await ctx.db.delete(run._id);
+    }
+
+    const suppressions = await ctx.db
+      .query('alertSuppressions')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const suppression of suppressions) {
+      await ctx.db.delete(suppression._id);
+    }
+
+    const alertComments = await ctx.db
+      .query('alertComments')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const comment of alertComments) {
+      await ctx.db.delete(comment._id);
+    }
+
+    const filterPresets = await ctx.db
+      .query('alertFilterPresets')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const preset of filterPresets) {
+      await ctx.db.delete(preset._id);
+    }
+
+    const attributes = await ctx.db
+      .query('entityAttributes')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const attribute of attributes) {
+      await ctx.db.delete(attribute._id);
+    }
+
     const alerts = await ctx.db
       .query('alerts')
       .withIndex('by_project', (q) => q.eq('projectId', id))
@@ -171,6 +323,69 @@ export const remove = mutation({
       await ctx.db.delete(alert._id);
     }
 
+    const shares = await ctx.db
+      .query('projectShares')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const share of shares) {
+      await ctx.db.delete(share._id);
+    }
+
+    const chatThreads = await ctx.db
+      .query('chatThreads')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const thread of chatThreads) {
+      const messages = await ctx.db
+        .query('chatMessages')
+        .withIndex('by_thread', (q) => q.eq('threadId', thread._id))
+        .collect();
+      for (const message of messages) {
+        await ctx.db.delete(message._id);
+      }
+      await ctx.db.delete(thread._id);
+    }
+
+    const imports = await ctx.db
+      .query('projectImports')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const job of imports) {
+      const idMap = await ctx.db
+        .query('projectImportIds')
+        .withIndex('by_import', (q) => q.eq('importId', job._id))
+        .collect();
+      for (const row of idMap) {
+        await ctx.db.delete(row._id);
+      }
+      if (job.status !== 'completed') {
+        await ctx.storage.delete(job.storageId);
+      }
+      await ctx.db.delete(job._id);
+    }
+
+    const vaultImports = await ctx.db
+      .query('vaultImports')
+      .withIndex('by_project', (q) => q.eq('projectId', id))
+      .collect();
+
+    for (const job of vaultImports) {
+      const idMap = await ctx.db
+        .query('vaultImportIds')
+        .withIndex('by_import', (q) => q.eq('importId', job._id))
+        .collect();
+      for (const row of idMap) {
+        await ctx.db.delete(row._id);
+      }
+      if (job.status !== 'completed') {
+        await ctx.storage.delete(job.storageId);
+      }
+      await ctx.db.delete(job._id);
+    }
+
     await ctx.db.delete(id);
     return id;
   },
@@ -216,7 +431,7 @@ export const getCanonStats = query({
   args: { projectId: v.id('projects') },
   handler: async (ctx, { projectId }) => {
     const role = await getProjectRole(ctx, projectId);
-    if (!role) return null;
+    if (!roleCanRead(role)) return null;
 
     const project = await ctx.db.get(projectId);
     if (!project) return null;
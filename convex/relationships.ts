@@ -0,0 +1,323 @@
+import { v } from 'convex/values';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import { mutation, query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { requireAuth } from './lib/auth';
+import {
+  getProjectRole,
+  getProjectRoleForUser,
+  roleCanEdit,
+  roleCanRead,
+} from './lib/projectAccess';
+import { authError, conflictError, notFoundError, validationError } from './lib/errors';
+
+const relationshipStatusValidator = v.union(
+  v.literal('pending'),
+  v.literal('confirmed'),
+  v.literal('rejected')
+);
+
+async function getProjectAccess(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<'projects'>
+): Promise<{ canRead: boolean; canEdit: boolean }> {
+  const role = await getProjectRole(ctx, projectId);
+  return {
+    canRead: roleCanRead(role),
+    canEdit: roleCanEdit(role),
+  };
+}
+
+async function requireProjectAccess(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  userId: Id<'users'>
+): Promise<Doc<'projects'>> {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw notFoundError('project', projectId);
+  }
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanEdit(role)) {
+    throw authError('unauthorized', 'You do not have permission to access this project.');
+  }
+  return project;
+}
+
+async function requireRelationshipAccess(
+  ctx: MutationCtx,
+  relationshipId: Id<'relationships'>,
+  userId: Id<'users'>
+): Promise<Doc<'relationships'>> {
+  const relationship = await ctx.db.get(relationshipId);
+  if (!relationship) {
+    throw notFoundError('relationship', relationshipId);
+  }
+
+  const project = await ctx.db.get(relationship.projectId);
+  if (!project || !roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
+    throw authError('unauthorized', 'You do not have permission to access this relationship.');
+  }
+
+  return relationship;
+}
+
+async function requireProjectEntity(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  entityId: Id<'entities'>
+): Promise<Doc<'entities'>> {
+  const entity = await ctx.db.get(entityId);
+  if (!entity || entity.projectId !== projectId) {
+    throw notFoundError('entity', entityId);
+  }
+  return entity;
+}
+
+function normalizeType(type: string): string {
+  const normalized = type.trim();
+  if (!normalized) {
+    throw validationError('type', 'Relationship type is required');
+  }
+  return normalized;
+}
+
+async function withEntityNames(ctx: QueryCtx, relationships: Doc<'relationships'>[]) {
+  const entityIds = [
+    ...new Set(relationships.flatMap((r) => [r.sourceEntityId, r.targetEntityId])),
+  ];
+  const entities = await Promise.all(entityIds.map((id) => ctx.db.get(id)));
+  const entitiesById = new Map(
+    entities
+      .filter((entity): entity is Doc<'entities'> => entity !== null)
+      .map((entity) => [entity._id, entity])
+  );
+
+  const summarize = (id: Id<'entities'>) => {
+    const entity = entitiesById.get(id);
+    return entity ? { _id: entity._id, name: entity.name, type: entity.type } : null;
+  };
+
+  return relationships.map((relationship) => ({
+    ...relationship,
+    source: summarize(relationship.sourceEntityId),
+    target: summarize(relationship.targetEntityId),
+  }));
+}
+
+export const create = mutation({
+  args: {
+    projectId: v.id('projects'),
+    sourceEntityId: v.id('entities'),
+    targetEntityId: v.id('entities'),
+    type: v.string(),
+    documentId: v.optional(v.id('documents')),
+    confidence: v.optional(v.number()),
+    evidenceSnippet: v.optional(v.string()),
+    evidencePosition: v.optional(
+      v.object({
+        start: v.number(),
+        end: v.number(),
+      })
+    ),
+    status: v.optional(relationshipStatusValidator),
+  },
+  handler: async (
+    ctx,
+    {
+      projectId,
+      sourceEntityId,
+      targetEntityId,
+      type,
+      documentId,
+      confidence,
+      evidenceSnippet,
+      evidencePosition,
+      status,
+    }
+  ) => {
+    const userId = await requireAuth(ctx);
+    await requireProjectAccess(ctx, projectId, userId);
+
+    if (sourceEntityId === targetEntityId) {
+      throw validationError('targetEntityId', 'A relationship needs two different entities');
+    }
+    await requireProjectEntity(ctx, projectId, sourceEntityId);
+    await requireProjectEntity(ctx, projectId, targetEntityId);
+    const normalizedType = normalizeType(type);
+
+    const duplicate = await ctx.db
+      .query('relationships')
+      .withIndex('by_source', (q) => q.eq('sourceEntityId', sourceEntityId))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field('targetEntityId'), targetEntityId),
+          q.eq(q.field('type'), normalizedType),
+          q.neq(q.field('status'), 'rejected')
+        )
+      )
+      .first();
+    if (duplicate) {
+      throw conflictError('This relationship already exists', 'type');
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert('relationships', {
+      projectId,
+      sourceEntityId,
+      targetEntityId,
+      type: normalizedType,
+      documentId,
+      confidence: confidence ?? 1.0,
+      evidenceSnippet,
+      evidencePosition,
+      status: status ?? 'confirmed',
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id('relationships'),
+    type: v.optional(v.string()),
+    evidenceSnippet: v.optional(v.string()),
+    status: v.optional(relationshipStatusValidator),
+  },
+  handler: async (ctx, { id, type, evidenceSnippet, status }) => {
+    const userId = await requireAuth(ctx);
+    await requireRelationshipAccess(ctx, id, userId);
+
+    await ctx.db.patch(id, {
+      updatedAt: Date.now(),
+      ...(type !== undefined && { type: normalizeType(type) }),
+      ...(evidenceSnippet !== undefined && { evidenceSnippet }),
+      ...(status !== undefined && { status }),
+    });
+
+    return id;
+  },
+});
+
+export const confirm = mutation({
+  args: { id: v.id('relationships') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    await requireRelationshipAccess(ctx, id, userId);
+
+    await ctx.db.patch(id, { status: 'confirmed', updatedAt: Date.now() });
+
+    return id;
+  },
+});
+
+export const reject = mutation({
+  args: { id: v.id('relationships') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    await requireRelationshipAccess(ctx, id, userId);
+
+    await ctx.db.patch(id, { status: 'rejected', updatedAt: Date.now() });
+
+    return id;
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id('relationships') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    await requireRelationshipAccess(ctx, id, userId);
+
+    await ctx.db.delete(id);
+
+    return id;
+  },
+});
+
+export const get = query({
+  args: { id: v.id('relationships') },
+  handler: async (ctx, { id }) => {
+    const relationship = await ctx.db.get(id);
+    if (!relationship) return null;
+
+    const access = await getProjectAccess(ctx, relationship.projectId);
+    if (!access.canRead) return null;
+
+    return relationship;
+  },
+});
+
+export const listByEntity = query({
+  args: {
+    entityId: v.id('entities'),
+    status: v.optional(relationshipStatusValidator),
+  },
+  handler: async (ctx, { entityId, status }) => {
+    const entity = await ctx.db.get(entityId);
+    if (!entity) return [];
+
+    const access = await getProjectAccess(ctx, entity.projectId);
+    if (!access.canRead) return [];
+
+    const [outgoing, incoming] = await Promise.all([
+      ctx.db
+        .query('relationships')
+        .withIndex('by_source', (q) =>
+          status ?
+            q.eq('sourceEntityId', entityId).eq('status', status)
+          : q.eq('sourceEntityId', entityId)
+        )
+        .collect(),
+      ctx.db
+        .query('relationships')
+        .withIndex('by_target', (q) =>
+          status ?
+            q.eq('targetEntityId', entityId).eq('status', status)
+          : q.eq('targetEntityId', entityId)
+        )
+        .collect(),
+    ]);
+
+    const relationships = await withEntityNames(ctx, [...outgoing, ...incoming]);
+    return relationships.map((relationship) => ({
+      ...relationship,
+      direction:
+        relationship.sourceEntityId === entityId ? ('outgoing' as const) : ('incoming' as const),
+    }));
+  },
+});
+
+export const listByDocument = query({
+  args: { documentId: v.id('documents') },
+  handler: async (ctx, { documentId }) => {
+    const doc = await ctx.db.get(documentId);
+    if (!doc) return [];
+
+    const access = await getProjectAccess(ctx, doc.projectId);
+    if (!access.canRead) return [];
+
+    const relationships = await ctx.db
+      .query('relationships')
+      .withIndex('by_document', (q) => q.eq('documentId', documentId))
+      .collect();
+
+    return await withEntityNames(ctx, relationships);
+  },
+});
+
+export const listPending = query({
+  args: { projectId: v.id('projects') },
+  handler: async (ctx, { projectId }) => {
+    const access = await getProjectAccess(ctx, projectId);
+    if (!access.canEdit) return [];
+
+    const relationships = await ctx.db
+      .query('relationships')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId).eq('status', 'pending'))
+      .collect();
+
+    return await withEntityNames(ctx, relationships);
+  },
+});
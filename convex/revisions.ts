@@ -0,0 +1,475 @@
+import { v } from 'convex/values';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import { mutation, query } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { scheduleEmbeddingSync } from './embeddings';
+import { requireAuth } from './lib/auth';
+import { authError, conflictError, notFoundError, validationError } from './lib/errors';
+import {
+  getProjectRole,
+  getProjectRoleForUser,
+  roleCanEdit,
+  roleCanRead,
+} from './lib/projectAccess';
+import {
+  diffSnapshots,
+  recordRevision,
+  type EntitySnapshot,
+  type FactSnapshot,
+  type DocumentSnapshot,
+  type FieldChange,
+} from './lib/revisions';
+
+// Revision history for entities, facts and documents, with revert and un-merge. Rows are
+// never edited: reverting appends a new revision that copies an older snapshot back.
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+async function requireProjectAccess(
+  ctx: MutationCtx,
+  projectId: Id<'projects'>,
+  userId: Id<'users'>
+): Promise<Doc<'projects'>> {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw notFoundError('project', projectId);
+  }
+  const role = await getProjectRoleForUser(ctx, project, userId);
+  if (!roleCanEdit(role)) {
+    throw authError('unauthorized', 'You do not have permission to access this project.');
+  }
+  return project;
+}
+
+async function requireRevisionAccess(
+  ctx: MutationCtx,
+  revisionId: Id<'revisions'>,
+  userId: Id<'users'>
+): Promise<Doc<'revisions'>> {
+  const revision = await ctx.db.get(revisionId);
+  if (!revision) {
+    throw notFoundError('revision', revisionId, 'Revision not found');
+  }
+  await requireProjectAccess(ctx, revision.projectId, userId);
+  return revision;
+}
+
+function targetKey(revision: Doc<'revisions'>): string {
+  return `${revision.targetType}:${revision.entityId ?? ''}:${revision.factId ?? ''}:${revision.documentId ?? ''}`;
+}
+
+function snapshotOf(
+  revision: Doc<'revisions'>
+): EntitySnapshot | FactSnapshot | DocumentSnapshot | undefined {
+  return revision.entity ?? revision.fact ?? revision.document;
+}
+
+type RevisionEntry = {
+  _id: Id<'revisions'>;
+  targetType: Doc<'revisions'>['targetType'];
+  factId?: Id<'facts'>;
+  action: Doc<'revisions'>['action'];
+  label: string;
+  summary?: string;
+  userName: string | null;
+  createdAt: number;
+  changes: FieldChange[];
+  isLatest: boolean;
+  canUnmerge: boolean;
+};
+
+/** Pair each revision with the changes since the previous revision of the same record. */
+async function describeRevisions(
+  ctx: QueryCtx,
+  revisions: Doc<'revisions'>[]
+): Promise<RevisionEntry[]> {
+  const ordered = revisions.toSorted((a, b) => a._creationTime - b._creationTime);
+  const previous = new Map<string, Doc<'revisions'>>();
+  const latest = new Map<string, Id<'revisions'>>();
+  const unmerged = new Set(
+    ordered.filter((r) => r.action === 'unmerge' && r.revertedId).map((r) => r.revertedId)
+  );
+  const userNames = new Map<Id<'users'>, string | null>();
+
+  const entries: RevisionEntry[] = [];
+  for (const revision of ordered) {
+    const key = targetKey(revision);
+    const before = previous.get(key);
+    previous.set(key, revision);
+    latest.set(key, revision._id);
+
+    const snapshot = snapshotOf(revision);
+    const beforeSnapshot = before ? snapshotOf(before) : undefined;
+    const changes =
+      revision.action === 'initial' || !snapshot ?
+        []
+      : diffSnapshots(
+          (beforeSnapshot ?? null) as Record<string, unknown> | null,
+          snapshot as Record<string, unknown>
+        );
+
+    if (revision.userId && !userNames.has(revision.userId)) {
+      userNames.set(revision.userId, (await ctx.db.get(revision.userId))?.name ?? null);
+    }
+
+    entries.push({
+      _id: revision._id,
+      targetType: revision.targetType,
+      factId: revision.factId,
+      action: revision.action,
+      label:
+        revision.fact ?
+          `${revision.fact.subject} ${revision.fact.predicate} ${revision.fact.object}`
+        : revision.entity ? revision.entity.name
+        : (revision.document?.title ?? ''),
+      summary: revision.summary,
+      userName: revision.userId ? (userNames.get(revision.userId) ?? null) : null,
+      createdAt: revision.createdAt,
+      changes,
+      isLatest: false,
+      canUnmerge: revision.action === 'merge' && !unmerged.has(revision._id),
+    });
+  }
+
+  const latestIds = new Set(latest.values());
+  return entries.map((entry) => ({ ...entry, isLatest: latestIds.has(entry._id) })).toReversed();
+}
+
+export const listByEntity = query({
+  args: { entityId: v.id('entities') },
+  handler: async (ctx, { entityId }) => {
+    const entity = await ctx.db.get(entityId);
+    if (!entity) return [];
+    const role = await getProjectRole(ctx, entity.projectId);
+    if (!roleCanRead(role)) return [];
+
+    const revisions = await ctx.db
+      .query('revisions')
+      .withIndex('by_entity', (q) => q.eq('entityId', entityId))
+      .collect();
+
+    // An entity split back out of a merge keeps the history it had before the merge.
+    const restoredFrom = revisions.find((r) => r.action === 'unmerge' && r.targetType === 'entity');
+    const mergeRevision =
+      restoredFrom?.revertedId ? await ctx.db.get(restoredFrom.revertedId) : null;
+    const sourceId = mergeRevision?.merge?.sourceId;
+    if (sourceId && sourceId !== entityId) {
+      const earlier = await ctx.db
+        .query('revisions')
+        .withIndex('by_entity', (q) => q.eq('entityId', sourceId))
+        .collect();
+      revisions.push(...earlier);
+    }
+
+    return await describeRevisions(ctx, revisions);
+  },
+});
+
+export const listByDocument = query({
+  args: { documentId: v.id('documents') },
+  handler: async (ctx, { documentId }) => {
+    const document = await ctx.db.get(documentId);
+    if (!document) return [];
+    const role = await getProjectRole(ctx, document.projectId);
+    if (!roleCanRead(role)) return [];
+
+    const revisions = await ctx.db
+      .query('revisions')
+      .withIndex('by_document', (q) => q.eq('documentId', documentId))
+      .filter((q) => q.eq(q.field('targetType'), 'document'))
+      .collect();
+    const entries = await describeRevisions(ctx, revisions);
+    // Content can be large; the diff view loads it per revision through compareDocument.
+    return entries.map((entry) => ({
+      ...entry,
+      changes: entry.changes.map((change) =>
+        change.field === 'content' ? { field: change.field, before: null, after: null } : change
+      ),
+    }));
+  },
+});
+
+/** A document revision alongside the revision before it, for a side-by-side diff. */
+export const compareDocument = query({
+  args: { id: v.id('revisions') },
+  handler: async (ctx, { id }) => {
+    const revision = await ctx.db.get(id);
+    if (revision?.targetType !== 'document' || !revision.document || !revision.documentId) {
+      return null;
+    }
+    const role = await getProjectRole(ctx, revision.projectId);
+    if (!roleCanRead(role)) return null;
+
+    const previous = await ctx.db
+      .query('revisions')
+      .withIndex('by_document', (q) => q.eq('documentId', revision.documentId))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field('targetType'), 'document'),
+          q.lt(q.field('_creationTime'), revision._creationTime)
+        )
+      )
+      .order('desc')
+      .first();
+
+    return {
+      before: previous?.document ?? null,
+      after: revision.document,
+    };
+  },
+});
+
+async function adjustFactCount(ctx: MutationCtx, projectId: Id<'projects'>, delta: number) {
+  if (delta === 0) return;
+  const project = await ctx.db.get(projectId);
+  if (!project) return;
+  const stats = project.stats ?? {
+    documentCount: 0,
+    entityCount: 0,
+    factCount: 0,
+    alertCount: 0,
+    noteCount: 0,
+  };
+  await ctx.db.patch(projectId, {
+    updatedAt: Date.now(),
+    stats: { ...stats, factCount: Math.max(0, stats.factCount + delta) },
+  });
+}
+
+export const revert = mutation({
+  args: { id: v.id('revisions') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const revision = await requireRevisionAccess(ctx, id, userId);
+    const revertOptions = { action: 'revert' as const, userId, revertedId: id };
+
+    if (revision.targetType === 'entity' && revision.entity && revision.entityId) {
+      const entity = await ctx.db.get(revision.entityId);
+      if (!entity) {
+        throw notFoundError('entity', revision.entityId);
+      }
+      const { customTypeId, ...snapshot } = revision.entity;
+      // The custom type may have been deleted since; the entity keeps its built-in type then.
+      const customType = customTypeId ? await ctx.db.get(customTypeId) : null;
+      await ctx.db.patch(entity._id, {
+        ...snapshot,
+        customTypeId: customType?._id,
+        updatedAt: Date.now(),
+      });
+      const updated = await ctx.db.get(entity._id);
+      if (updated) {
+        await recordRevision(ctx, { entity }, { entity: updated }, revertOptions);
+      }
+      await scheduleEmbeddingSync(ctx, revision.projectId);
+      return entity._id;
+    }
+
+    if (revision.targetType === 'fact' && revision.fact && revision.factId) {
+      const fact = await ctx.db.get(revision.factId);
+      if (!fact) {
+        throw notFoundError('fact', revision.factId);
+      }
+      const { entityId, ...snapshot } = revision.fact;
+      const entity = entityId ? await ctx.db.get(entityId) : null;
+      await ctx.db.patch(fact._id, { ...snapshot, entityId: entity?._id ?? fact.entityId });
+
+      const wasCounted = fact.status !== 'rejected';
+      const isCounted = snapshot.status !== 'rejected';
+      await adjustFactCount(ctx, fact.projectId, Number(isCounted) - Number(wasCounted));
+
+      const updated = await ctx.db.get(fact._id);
+      if (updated) {
+        await recordRevision(ctx, { fact }, { fact: updated }, revertOptions);
+      }
+      await scheduleEmbeddingSync(ctx, revision.projectId);
+      return fact._id;
+    }
+
+    if (revision.targetType === 'document' && revision.document && revision.documentId) {
+      const document = await ctx.db.get(revision.documentId);
+      if (!document) {
+        throw notFoundError('document', revision.documentId);
+      }
+      const { title, content } = revision.document;
+      await ctx.db.patch(document._id, {
+        title,
+        updatedAt: Date.now(),
+        ...(content !== document.content && {
+          content,
+          wordCount: content ? countWords(content) : 0,
+          processingStatus: 'pending' as const,
+        }),
+      });
+      const updated = await ctx.db.get(document._id);
+      if (updated) {
+        await recordRevision(ctx, { document }, { document: updated }, revertOptions);
+      }
+      await scheduleEmbeddingSync(ctx, revision.projectId);
+      return document._id;
+    }
+
+    throw validationError('id', 'This revision cannot be reverted');
+  },
+});
+
+/**
+ * Undo a merge: recreate the merged-away entity and move back whatever the merge moved onto
+ * the target, as long as it still belongs to the target.
+ */
+export const unmerge = mutation({
+  args: { id: v.id('revisions') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    const revision = await requireRevisionAccess(ctx, id, userId);
+    const merge = revision.merge;
+    if (revision.action !== 'merge' || !merge || !revision.entityId) {
+      throw validationError('id', 'This revision is not a merge');
+    }
+
+    const undone = await ctx.db
+      .query('revisions')
+      .withIndex('by_entity', (q) => q.eq('entityId', revision.entityId))
+      .filter((q) => q.and(q.eq(q.field('action'), 'unmerge'), q.eq(q.field('revertedId'), id)))
+      .first();
+    if (undone) {
+      throw conflictError('This merge has already been undone');
+    }
+
+    const target = await ctx.db.get(revision.entityId);
+    if (!target) {
+      throw notFoundError('entity', revision.entityId);
+    }
+    const targetId = target._id;
+
+    const now = Date.now();
+    const { customTypeId, ...source } = merge.source;
+    const customType = customTypeId ? await ctx.db.get(customTypeId) : null;
+    const restoredId = await ctx.db.insert('entities', {
+      ...source,
+      projectId: target.projectId,
+      customTypeId: customType?._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    for (const factId of merge.factIds) {
+      const fact = await ctx.db.get(factId);
+      if (fact?.entityId === targetId) {
+        await ctx.db.patch(factId, { entityId: restoredId });
+      }
+    }
+
+    for (const noteId of merge.entityNoteIds) {
+      const note = await ctx.db.get(noteId);
+      if (note?.entityId === targetId) {
+        await ctx.db.patch(noteId, { entityId: restoredId, updatedAt: now });
+      }
+    }
+
+    const demoted = new Set(merge.demotedAttributeIds);
+    for (const attributeId of merge.attributeIds) {
+      const attribute = await ctx.db.get(attributeId);
+      if (attribute?.entityId !== targetId) continue;
+      await ctx.db.patch(attributeId, {
+        entityId: restoredId,
+        updatedAt: now,
+        ...(demoted.has(attributeId) &&
+          attribute.status === 'pending' && { status: 'confirmed' as const }),
+      });
+    }
+
+    for (const { id: relationshipId, side } of merge.relationships) {
+      const relationship = await ctx.db.get(relationshipId);
+      if (!relationship) continue;
+      if (side === 'source' && relationship.sourceEntityId === targetId) {
+        await ctx.db.patch(relationshipId, { sourceEntityId: restoredId, updatedAt: now });
+      } else if (side === 'target' && relationship.targetEntityId === targetId) {
+        await ctx.db.patch(relationshipId, { targetEntityId: restoredId, updatedAt: now });
+      }
+    }
+
+    for (const removed of merge.removedRelationships) {
+      const { fromSource, ...relationship } = removed;
+      await ctx.db.insert('relationships', {
+        ...relationship,
+        projectId: target.projectId,
+        sourceEntityId: fromSource ? restoredId : targetId,
+        targetEntityId: fromSource ? targetId : restoredId,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    for (const { id: alertId, entityIds } of merge.alerts) {
+      const alert = await ctx.db.get(alertId);
+      if (!alert) continue;
+      const restoredEntityIds = alert.entityIds.filter(
+        (entityId) => entityId !== targetId || entityIds.includes(targetId)
+      );
+      await ctx.db.patch(alertId, {
+        entityIds: [...new Set([...restoredEntityIds, restoredId])],
+      });
+    }
+
+    // Drop the aliases the merge added, unless the target had them already.
+    const beforeMerge = await ctx.db
+      .query('revisions')
+      .withIndex('by_entity', (q) => q.eq('entityId', targetId))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field('targetType'), 'entity'),
+          q.lt(q.field('_creationTime'), revision._creationTime)
+        )
+      )
+      .order('desc')
+      .first();
+    const previousAliases = new Set(beforeMerge?.entity?.aliases ?? []);
+    const addedAliases = new Set(
+      (revision.entity?.aliases ?? []).filter((alias) => !previousAliases.has(alias))
+    );
+    await ctx.db.patch(targetId, {
+      aliases: target.aliases.filter((alias) => !addedAliases.has(alias)),
+      updatedAt: now,
+    });
+
+    const project = await ctx.db.get(target.projectId);
+    if (project) {
+      const stats = project.stats ?? {
+        documentCount: 0,
+        entityCount: 0,
+        factCount: 0,
+        alertCount: 0,
+        noteCount: 0,
+      };
+      await ctx.db.patch(project._id, {
+        updatedAt: now,
+        stats: { ...stats, entityCount: stats.entityCount + 1 },
+      });
+    }
+
+    const summary = `Split ${source.name} back out of ${target.name}`;
+    const updatedTarget = await ctx.db.get(targetId);
+    if (updatedTarget) {
+      await recordRevision(
+        ctx,
+        { entity: target },
+        { entity: updatedTarget },
+        { action: 'unmerge', userId, summary, revertedId: id }
+      );
+    }
+    const restored = await ctx.db.get(restoredId);
+    if (restored) {
+      await recordRevision(
+        ctx,
+        null,
+        { entity: restored },
+        { action: 'unmerge', userId, summary, revertedId: id }
+      );
+    }
+
+    await scheduleEmbeddingSync(ctx, revision.projectId);
+    return restoredId;
+  },
+});
@@ -1,6 +1,34 @@
 import { defineSchema, defineTable } from 'convex/server';
 import { authTables } from '@convex-dev/auth/server';
 import { v } from 'convex/values';
+import { alertFiltersValidator } from './lib/alertFilters';
+import { attributeFieldValidator, attributeValueValidator } from './lib/attributes';
+import { calendarEraValidator, calendarMonthValidator } from './lib/calendar';
+import { chatCitationValidator } from './lib/chatContext';
+import { checkIssueValidator, checkSummaryValidator, checkUsageValidator } from './lib/checkRuns';
+import { canonChangeValidator } from './lib/chatTools';
+import { processingProgressValidator } from './lib/documentChunks';
+import { EMBEDDING_DIMENSIONS } from './lib/embeddings';
+import { manuscriptFormatValidator } from './lib/manuscripts';
+import { mappedTableValidator, projectImportStageValidator } from './lib/projectExport';
+import {
+  embeddingChunkValidator,
+  embeddingSyncStageValidator,
+  searchSourceTypeValidator,
+} from './lib/search';
+import {
+  entityResolutionValidator,
+  vaultImportContextValidator,
+  vaultImportResultValidator,
+  vaultImportStageValidator,
+} from './lib/vaults';
+import {
+  documentSnapshotValidator,
+  entitySnapshotValidator,
+  factSnapshotValidator,
+  mergeRecordValidator,
+  revisionActionValidator,
+} from './lib/revisions';
 
 export default defineSchema({
   ...authTables,
@@ -84,6 +112,8 @@ export default defineSchema({
       )
     ),
     revealToPlayersEnabled: v.optional(v.boolean()),
+    // Predicates checked for rule-based contradictions; unset means the defaults.
+    singleValuedPredicates: v.optional(v.array(v.string())),
     createdAt: v.number(),
     updatedAt: v.number(),
     stats: v.optional(
@@ -97,34 +127,188 @@ export default defineSchema({
     ),
   }).index('by_user', ['userId', 'updatedAt']),
 
+  // Project Shares (collaborator invitations and memberships)
+  projectShares: defineTable({
+    projectId: v.id('projects'),
+    sharedWithEmail: v.string(),
+    sharedWithUserId: v.optional(v.id('users')), // Set when invite accepted
+    role: v.union(v.literal('editor'), v.literal('viewer')),
+    invitedBy: v.id('users'),
+    acceptedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index('by_project', ['projectId'])
+    .index('by_email', ['sharedWithEmail'])
+    .index('by_user', ['sharedWithUserId', 'projectId']),
+
+  // Project Imports (background jobs that rebuild a project from its JSON export)
+  projectImports: defineTable({
+    userId: v.id('users'),
+    projectId: v.id('projects'), // Created up front and filled in as the job runs
+    storageId: v.id('_storage'), // The uploaded export, deleted once the import completes
+    status: v.union(v.literal('running'), v.literal('completed'), v.literal('failed')),
+    stage: projectImportStageValidator,
+    cursor: v.number(), // Records of the current stage already imported
+    importedRecords: v.number(),
+    totalRecords: v.number(),
+    error: v.optional(v.string()),
+    // Titles of documents whose text was in file storage and so not in the export
+    documentsWithoutText: v.optional(v.array(v.string())),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index('by_user', ['userId', 'createdAt'])
+    .index('by_project', ['projectId'])
+    .index('by_storage', ['storageId']),
+
+  // Ids from the export mapped to the records an import created for them; cleared on completion
+  projectImportIds: defineTable({
+    importId: v.id('projectImports'),
+    table: mappedTableValidator,
+    sourceId: v.string(),
+    targetId: v.string(),
+  }).index('by_import', ['importId', 'table', 'sourceId']),
+
+  // Vault Imports (background jobs that add an uploaded vault's notes to a project)
+  vaultImports: defineTable({
+    userId: v.id('users'),
+    projectId: v.id('projects'),
+    storageId: v.id('_storage'), // The uploaded vault, deleted once the import completes
+    fileName: v.string(),
+    resolutions: v.array(v.object({ name: v.string(), resolution: entityResolutionValidator })),
+    context: vaultImportContextValidator, // The project's types and clashing entities at the start
+    firstOrderIndex: v.number(), // Where the vault's documents start in the project's order
+    status: v.union(v.literal('running'), v.literal('completed'), v.literal('failed')),
+    stage: vaultImportStageValidator,
+    cursor: v.number(), // Records of the current stage already imported
+    importedRecords: v.number(),
+    totalRecords: v.number(),
+    result: vaultImportResultValidator,
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index('by_user', ['userId', 'createdAt'])
+    .index('by_project', ['projectId'])
+    .index('by_storage', ['storageId']),
+
+  // Notes and entities a vault import created, by note index or vault key; cleared on completion
+  vaultImportIds: defineTable({
+    importId: v.id('vaultImports'),
+    table: v.union(v.literal('documents'), v.literal('entities')),
+    sourceId: v.string(),
+    targetId: v.string(),
+  }).index('by_import', ['importId', 'table', 'sourceId']),
+
   // Documents
   documents: defineTable({
     projectId: v.id('projects'),
     title: v.string(),
-    content: v.optional(v.string()), // Inline content ≤1MB
-    storageId: v.optional(v.id('_storage')), // File reference >1MB
+    content: v.optional(v.string()), // Inline content ≤900KB
+    storageId: v.optional(v.id('_storage')), // Uploaded file; the only copy of longer text
     contentType: v.union(v.literal('text'), v.literal('markdown'), v.literal('file')),
+    sourceFormat: v.optional(manuscriptFormatValidator), // Set when content was converted from an upload
+    sourceFileId: v.optional(v.id('_storage')), // The imported manuscript; never read as text
     orderIndex: v.number(),
     wordCount: v.number(),
     createdAt: v.number(),
     updatedAt: v.number(),
     processedAt: v.optional(v.number()),
+    extractedRevisionId: v.optional(v.id('revisions')), // Content the last extraction read
     processingStatus: v.union(
       v.literal('pending'),
       v.literal('processing'),
       v.literal('completed'),
       v.literal('failed')
     ),
+    processingProgress: v.optional(processingProgressValidator), // Set while a chunked run is going
+    revealedToViewers: v.optional(v.boolean()), // false marks the document GM-only
+    revealedAt: v.optional(v.union(v.number(), v.null())),
   })
     .index('by_project', ['projectId', 'orderIndex'])
     .index('by_project_status', ['projectId', 'processingStatus'])
     .index('by_storage', ['storageId'])
+    .index('by_source_file', ['sourceFileId'])
     .searchIndex('search_content', {
       searchField: 'content',
       filterFields: ['projectId'],
+    })
+    .searchIndex('search_title', {
+      searchField: 'title',
+      filterFields: ['projectId'],
+    }),
+
+  // Keyword search over documents whose text is only in file storage
+  documentChunks: defineTable({
+    documentId: v.id('documents'),
+    projectId: v.id('projects'),
+    index: v.number(),
+    start: v.number(),
+    end: v.number(),
+    text: v.string(),
+  })
+    .index('by_document', ['documentId', 'index'])
+    .index('by_project', ['projectId'])
+    .searchIndex('search_text', {
+      searchField: 'text',
+      filterFields: ['projectId', 'documentId'],
     }),
 
   // Entities
+  entityTypes: defineTable({
+    projectId: v.id('projects'),
+    name: v.string(),
+    icon: v.string(),
+    color: v.string(),
+    description: v.optional(v.string()),
+    baseType: v.union(
+      v.literal('character'),
+      v.literal('location'),
+      v.literal('item'),
+      v.literal('concept'),
+      v.literal('event')
+    ),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index('by_project', ['projectId']),
+
+  attributeTemplates: defineTable({
+    projectId: v.id('projects'),
+    entityType: v.union(
+      v.literal('character'),
+      v.literal('location'),
+      v.literal('item'),
+      v.literal('concept'),
+      v.literal('event')
+    ),
+    customTypeId: v.optional(v.id('entityTypes')),
+    fields: v.array(attributeFieldValidator),
+    updatedAt: v.number(),
+  }).index('by_project', ['projectId']),
+
+  entityAttributes: defineTable({
+    projectId: v.id('projects'),
+    entityId: v.id('entities'),
+    key: v.string(),
+    value: attributeValueValidator,
+    documentId: v.optional(v.id('documents')),
+    evidenceSnippet: v.optional(v.string()),
+    evidencePosition: v.optional(
+      v.object({
+        start: v.number(),
+        end: v.number(),
+      })
+    ),
+    status: v.union(v.literal('pending'), v.literal('confirmed'), v.literal('rejected')),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_entity', ['entityId', 'key'])
+    .index('by_project', ['projectId', 'status'])
+    .index('by_document', ['documentId']),
+
   entities: defineTable({
     projectId: v.id('projects'),
     name: v.string(),
@@ -135,6 +319,7 @@ export default defineSchema({
       v.literal('concept'),
       v.literal('event')
     ),
+    customTypeId: v.optional(v.id('entityTypes')),
     description: v.optional(v.string()),
     aliases: v.array(v.string()),
     firstMentionedIn: v.optional(v.id('documents')),
@@ -147,15 +332,29 @@ export default defineSchema({
     .index('by_project', ['projectId', 'type'])
     .index('by_project_status', ['projectId', 'status'])
     .index('by_name', ['projectId', 'name'])
+    .index('by_custom_type', ['customTypeId'])
     .searchIndex('search_name', {
       searchField: 'name',
-      filterFields: ['projectId'],
+      filterFields: ['projectId', 'status'],
     })
     .searchIndex('search_description', {
       searchField: 'description',
-      filterFields: ['projectId'],
+      filterFields: ['projectId', 'status'],
     }),
 
+  // Calendars
+  calendars: defineTable({
+    projectId: v.id('projects'),
+    name: v.string(),
+    daysPerYear: v.number(),
+    months: v.array(calendarMonthValidator),
+    eras: v.array(calendarEraValidator),
+    epochOffset: v.number(), // Days added to every date, to line this calendar up with others
+    isDefault: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index('by_project', ['projectId']),
+
   // Facts
   facts: defineTable({
     projectId: v.id('projects'),
@@ -176,14 +375,90 @@ export default defineSchema({
       v.object({
         type: v.union(v.literal('point'), v.literal('range'), v.literal('relative')),
         value: v.string(),
+        // Normalized range in days since the project epoch; unset when the value can't be placed
+        start: v.optional(v.number()),
+        end: v.optional(v.number()),
+        calendarId: v.optional(v.id('calendars')),
       })
     ),
     status: v.union(v.literal('pending'), v.literal('confirmed'), v.literal('rejected')),
+    revealedToViewers: v.optional(v.boolean()), // Unset follows the entity; false is GM-only
+    revealedAt: v.optional(v.union(v.number(), v.null())),
     createdAt: v.number(),
   })
     .index('by_entity', ['entityId', 'status'])
     .index('by_document', ['documentId'])
-    .index('by_project', ['projectId', 'status']),
+    .index('by_project', ['projectId', 'status'])
+    .searchIndex('search_object', {
+      searchField: 'object',
+      filterFields: ['projectId', 'status', 'documentId'],
+    })
+    .searchIndex('search_evidence', {
+      searchField: 'evidenceSnippet',
+      filterFields: ['projectId', 'status', 'documentId'],
+    }),
+
+  // Relationships (typed edges between two entities)
+  relationships: defineTable({
+    projectId: v.id('projects'),
+    sourceEntityId: v.id('entities'),
+    targetEntityId: v.id('entities'),
+    type: v.string(),
+    documentId: v.optional(v.id('documents')),
+    confidence: v.number(),
+    evidenceSnippet: v.optional(v.string()),
+    evidencePosition: v.optional(
+      v.object({
+        start: v.number(),
+        end: v.number(),
+      })
+    ),
+    status: v.union(v.literal('pending'), v.literal('confirmed'), v.literal('rejected')),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_project', ['projectId', 'status'])
+    .index('by_source', ['sourceEntityId', 'status'])
+    .index('by_target', ['targetEntityId', 'status'])
+    .index('by_document', ['documentId']),
+
+  // Revision history (append-only)
+  revisions: defineTable({
+    projectId: v.id('projects'),
+    targetType: v.union(v.literal('entity'), v.literal('fact'), v.literal('document')),
+    entityId: v.optional(v.id('entities')),
+    factId: v.optional(v.id('facts')),
+    documentId: v.optional(v.id('documents')),
+    action: revisionActionValidator,
+    // State after the change; only the snapshot matching targetType is set
+    entity: v.optional(entitySnapshotValidator),
+    fact: v.optional(factSnapshotValidator),
+    document: v.optional(documentSnapshotValidator),
+    merge: v.optional(mergeRecordValidator),
+    revertedId: v.optional(v.id('revisions')), // Revision restored by a revert or unmerge
+    summary: v.optional(v.string()),
+    userId: v.optional(v.id('users')),
+    createdAt: v.number(),
+  })
+    .index('by_entity', ['entityId'])
+    .index('by_fact', ['factId'])
+    .index('by_document', ['documentId'])
+    .index('by_project', ['projectId']),
+
+  // Canon proposals (edits suggested by Vellum chat, applied only once confirmed in review)
+  canonProposals: defineTable({
+    projectId: v.id('projects'),
+    entityId: v.id('entities'),
+    change: canonChangeValidator,
+    reason: v.optional(v.string()),
+    status: v.union(v.literal('pending'), v.literal('confirmed'), v.literal('rejected')),
+    proposedBy: v.id('users'),
+    resolvedBy: v.optional(v.id('users')),
+    createdAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index('by_project', ['projectId', 'status'])
+    .index('by_entity', ['entityId']),
 
   // Alerts (Placeholder for Phase 4)
   alerts: defineTable({
@@ -205,19 +480,108 @@ export default defineSchema({
     suggestedFix: v.optional(v.string()),
     status: v.union(v.literal('open'), v.literal('resolved'), v.literal('dismissed')),
     resolutionNotes: v.optional(v.string()),
+    rule: v.optional(v.string()), // Check that raised the alert, e.g. "fact:born_in"
+    fingerprint: v.optional(v.string()), // Identity across re-checks, see lib/alerts.ts
+    factSignature: v.optional(v.string()), // Hash of the cited facts when last detected
+    lastDetectedAt: v.optional(v.number()),
+    assigneeId: v.optional(v.id('users')),
     createdAt: v.number(),
     resolvedAt: v.optional(v.number()),
   })
     .index('by_project', ['projectId', 'status'])
-    .index('by_document', ['documentId']),
+    .index('by_document', ['documentId'])
+    .index('by_fingerprint', ['projectId', 'fingerprint'])
+    .index('by_assignee', ['assigneeId']),
+
+  // Alert Comments (discussion and activity on an alert, oldest first)
+  alertComments: defineTable({
+    alertId: v.id('alerts'),
+    projectId: v.id('projects'),
+    userId: v.optional(v.id('users')), // Unset for changes made by a continuity check
+    kind: v.union(
+      v.literal('comment'),
+      v.literal('assigned'),
+      v.literal('unassigned'),
+      v.literal('resolved'),
+      v.literal('dismissed'),
+      v.literal('reopened')
+    ),
+    body: v.optional(v.string()), // Comments only; may contain @[Entity] mentions
+    mentionedEntityIds: v.optional(v.array(v.id('entities'))),
+    assigneeId: v.optional(v.id('users')), // "assigned" entries only
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  })
+    .index('by_alert', ['alertId', 'createdAt'])
+    .index('by_project', ['projectId'])
+    .index('by_user', ['userId']),
+
+  // Alert Filter Presets (named filter sets a user saved on a project's alerts page)
+  alertFilterPresets: defineTable({
+    userId: v.id('users'),
+    projectId: v.id('projects'),
+    name: v.string(),
+    filters: alertFiltersValidator,
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_user', ['userId', 'projectId'])
+    .index('by_project', ['projectId']),
+
+  // Alert Suppressions ("ignore this rule for these entities")
+  alertSuppressions: defineTable({
+    projectId: v.id('projects'),
+    rule: v.string(),
+    entityIds: v.array(v.id('entities')),
+    createdBy: v.id('users'),
+    createdAt: v.number(),
+  }).index('by_project', ['projectId', 'rule']),
+
+  // Check Runs (one row per continuity check of a document, kept as its check history)
+  checkRuns: defineTable({
+    projectId: v.id('projects'),
+    documentId: v.id('documents'),
+    status: v.union(v.literal('running'), v.literal('completed'), v.literal('failed')),
+    trigger: v.union(v.literal('extraction'), v.literal('manual')),
+    requestedBy: v.optional(v.id('users')), // Manual runs only
+    model: v.optional(v.string()),
+    promptVersion: v.string(),
+    startedAt: v.number(),
+    completedAt: v.optional(v.number()),
+    chunkCount: v.optional(v.number()),
+    cachedChunks: v.optional(v.number()), // Chunks answered from llmCache without a model call
+    usage: v.optional(checkUsageValidator),
+    summary: v.optional(checkSummaryValidator),
+    issues: v.optional(v.array(checkIssueValidator)), // Rule-based and model issues, for comparing runs
+    alertsCreated: v.optional(v.number()), // Model and rule-based alerts raised by this run
+    error: v.optional(v.string()),
+  })
+    .index('by_document', ['documentId', 'startedAt'])
+    .index('by_project', ['projectId', 'startedAt']),
+
+  // Chat Threads (named Vellum conversations, optionally scoped to a project)
+  chatThreads: defineTable({
+    userId: v.id('users'),
+    projectId: v.optional(v.id('projects')), // Unset for general chat
+    title: v.string(),
+    forkedFromThreadId: v.optional(v.id('chatThreads')),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_user', ['userId', 'updatedAt'])
+    .index('by_project', ['projectId']),
 
   // Chat Messages (Vellum conversation history)
   chatMessages: defineTable({
     userId: v.id('users'),
+    threadId: v.optional(v.id('chatThreads')), // Unset only on messages from before threads
     role: v.union(v.literal('user'), v.literal('assistant')),
     content: v.string(),
+    citations: v.optional(v.array(chatCitationValidator)),
     createdAt: v.number(),
-  }).index('by_user', ['userId', 'createdAt']),
+  })
+    .index('by_user', ['userId', 'createdAt'])
+    .index('by_thread', ['threadId', 'createdAt']),
 
   // Chat Streams (ephemeral auth for streaming)
   chatStreams: defineTable({
@@ -227,6 +591,15 @@ export default defineSchema({
     createdAt: v.number(),
     expiresAt: v.number(),
     usedAt: v.optional(v.number()),
+    projectId: v.optional(v.id('projects')),
+    // Canon retrieved for the question when the stream was created, replayed by streamChat
+    context: v.optional(
+      v.object({
+        projectName: v.string(),
+        formattedContext: v.string(),
+        citations: v.array(chatCitationValidator),
+      })
+    ),
   })
     .index('by_stream', ['streamId'])
     .index('by_expires_at', ['expiresAt'])
@@ -259,6 +632,10 @@ export default defineSchema({
     .searchIndex('search_content', {
       searchField: 'content',
       filterFields: ['projectId'],
+    })
+    .searchIndex('search_title', {
+      searchField: 'title',
+      filterFields: ['projectId'],
     }),
 
   // Entity Notes (entity-level annotations)
@@ -272,5 +649,44 @@ export default defineSchema({
   })
     .index('by_entity', ['entityId', 'updatedAt'])
     .index('by_project', ['projectId'])
-    .index('by_user', ['userId']),
+    .index('by_user', ['userId'])
+    .searchIndex('search_content', {
+      searchField: 'content',
+      filterFields: ['projectId'],
+    }),
+
+  // Embeddings (one row per searchable record or document chunk, for semantic search)
+  embeddings: defineTable({
+    projectId: v.id('projects'),
+    sourceType: searchSourceTypeValidator,
+    sourceId: v.string(), // Id in the table sourceType names
+    chunk: v.optional(embeddingChunkValidator), // Documents only: which span of the content
+    provider: v.string(),
+    contentHash: v.number(), // Hash of the embedded text; a mismatch means re-embed
+    vectorId: v.id('embeddingVectors'),
+    updatedAt: v.number(),
+  })
+    .index('by_project', ['projectId', 'sourceType'])
+    .index('by_source', ['sourceId'])
+    .index('by_vector', ['vectorId']),
+
+  // Embedding Vectors (kept apart from embeddings so staleness checks never read a vector)
+  embeddingVectors: defineTable({
+    projectId: v.id('projects'),
+    vector: v.array(v.float64()),
+  }).vectorIndex('by_vector', {
+    vectorField: 'vector',
+    dimensions: EMBEDDING_DIMENSIONS,
+    filterFields: ['projectId'],
+  }),
+
+  // Embedding Syncs (one background job per project that brings its embeddings up to date)
+  embeddingSyncs: defineTable({
+    projectId: v.id('projects'),
+    stage: embeddingSyncStageValidator,
+    cursor: v.union(v.string(), v.null()),
+    startedAt: v.optional(v.number()), // Start of the pass under way; unset until it runs
+    rerun: v.optional(v.boolean()), // Something changed during the pass, so run another
+    updatedAt: v.number(),
+  }).index('by_project', ['projectId']),
 });
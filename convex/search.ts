@@ -0,0 +1,463 @@
+import { v } from 'convex/values';
+import { getAuthUserId } from '@convex-dev/auth/server';
+import type { QueryCtx } from './_generated/server';
+import { action, internalQuery, query } from './_generated/server';
+import { internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
+import { embeddingMatchValidator, findNearest, type EmbeddingMatch } from './embeddings';
+import { getEmbeddingProvider } from './lib/embeddings';
+import { getProjectRole, getProjectRoleForUser, roleCanRead } from './lib/projectAccess';
+import {
+  SEARCH_SOURCE_TYPES,
+  buildSnippet,
+  scoreMatch,
+  searchSourceTypeValidator,
+  searchTerms,
+  type SearchSnippet,
+  type SearchSource,
+  type SearchSourceType,
+} from './lib/search';
+
+// Unified canon search. Keyword results come from the per-table search indexes and are
+// re-scored so different types rank together; semantic results compare stored embeddings.
+
+const PER_INDEX_LIMIT = 25;
+const DEFAULT_LIMIT = 50;
+const SEMANTIC_LIMIT = 10;
+const MIN_SIMILARITY = 0.2;
+
+const statusValidator = v.union(
+  v.literal('pending'),
+  v.literal('confirmed'),
+  v.literal('rejected')
+);
+
+const filterArgs = {
+  types: v.optional(v.array(searchSourceTypeValidator)),
+  status: v.optional(statusValidator),
+  documentId: v.optional(v.id('documents')),
+};
+
+type SearchFilters = {
+  types?: SearchSourceType[];
+  status?: 'pending' | 'confirmed' | 'rejected';
+  documentId?: Id<'documents'>;
+};
+
+export type CanonSearchResult = {
+  type: SearchSourceType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  snippet: SearchSnippet;
+  status: 'pending' | 'confirmed' | 'rejected' | null;
+  entityId: Id<'entities'> | null;
+  documentId: Id<'documents'> | null;
+  score: number;
+};
+
+/**
+ * Status and document filters only apply to canon (entities and facts, plus the document
+ * itself), so setting one narrows results to those types. Rejected facts stay hidden unless
+ * asked for.
+ */
+function matchesFilters(source: SearchSource, filters: SearchFilters): boolean {
+  const types = filters.types ?? SEARCH_SOURCE_TYPES;
+  if (!types.includes(source.type)) return false;
+
+  switch (source.type) {
+    case 'document':
+      return !filters.status && (!filters.documentId || source.record._id === filters.documentId);
+    case 'entity':
+      return (
+        (!filters.status || source.record.status === filters.status) &&
+        (!filters.documentId || source.record.firstMentionedIn === filters.documentId)
+      );
+    case 'fact':
+      return (
+        (filters.status ?
+          source.record.status === filters.status
+        : source.record.status !== 'rejected') &&
+        (!filters.documentId || source.record.documentId === filters.documentId)
+      );
+    case 'note':
+    case 'entityNote':
+      return !filters.status && !filters.documentId;
+  }
+}
+
+function firstMatchingText(texts: Array<string | undefined>, terms: string[]): string {
+  const present = texts.filter((text): text is string => !!text);
+  return present.find((text) => scoreMatch([{ text, weight: 1 }], terms) > 0) ?? present[0] ?? '';
+}
+
+/** Keyword results are scored from the terms; semantic ones carry their vector match. */
+async function toResult(
+  ctx: QueryCtx,
+  source: SearchSource,
+  terms: string[],
+  match?: EmbeddingMatch
+): Promise<CanonSearchResult> {
+  const result = (
+    fields: Array<{ text: string; weight: number }>,
+    rest: Omit<CanonSearchResult, 'type' | 'id' | 'score'>
+  ): CanonSearchResult => ({
+    type: source.type,
+    id: source.record._id,
+    score: match?.score ?? scoreMatch(fields, terms),
+    ...rest,
+  });
+
+  switch (source.type) {
+    case 'document': {
+      const doc = source.record;
+      const content = source.text ?? doc.content ?? '';
+      return result(
+        [
+          { text: doc.title, weight: 3 },
+          { text: content, weight: 1 },
+        ],
+        {
+          title: doc.title,
+          subtitle: null,
+          snippet: buildSnippet(
+            match?.chunk ? content.slice(match.chunk.start, match.chunk.end) : content,
+            terms
+          ),
+          status: null,
+          entityId: null,
+          documentId: doc._id,
+        }
+      );
+    }
+    case 'entity': {
+      const entity = source.record;
+      return result(
+        [
+          { text: entity.name, weight: 3 },
+          { text: entity.aliases.join(' '), weight: 2 },
+          { text: entity.description ?? '', weight: 1 },
+        ],
+        {
+          title: entity.name,
+          subtitle: entity.type,
+          snippet: buildSnippet(
+            firstMatchingText([entity.description, entity.aliases.join(', ')], terms),
+            terms
+          ),
+          status: entity.status,
+          entityId: entity._id,
+          documentId: entity.firstMentionedIn ?? null,
+        }
+      );
+    }
+    case 'fact': {
+      const fact = source.record;
+      const statement = `${fact.predicate.replace(/_/g, ' ')}: ${fact.object}`;
+      return result(
+        [
+          { text: fact.object, weight: 2 },
+          { text: fact.subject, weight: 2 },
+          { text: fact.predicate.replace(/_/g, ' '), weight: 1 },
+          { text: fact.evidenceSnippet ?? '', weight: 1 },
+        ],
+        {
+          title: fact.subject,
+          subtitle: statement,
+          snippet: buildSnippet(firstMatchingText([statement, fact.evidenceSnippet], terms), terms),
+          status: fact.status,
+          entityId: fact.entityId ?? null,
+          documentId: fact.documentId ?? null,
+        }
+      );
+    }
+    case 'note': {
+      const note = source.record;
+      const tags = note.tags ?? [];
+      return result(
+        [
+          { text: note.title, weight: 3 },
+          { text: tags.join(' '), weight: 2 },
+          { text: note.content, weight: 1 },
+        ],
+        {
+          title: note.title,
+          subtitle: tags.length > 0 ? tags.join(', ') : null,
+          snippet: buildSnippet(note.content, terms),
+          status: null,
+          entityId: null,
+          documentId: null,
+        }
+      );
+    }
+    case 'entityNote': {
+      const note = source.record;
+      const entity = await ctx.db.get(note.entityId);
+      return result(
+        [
+          { text: entity?.name ?? '', weight: 2 },
+          { text: note.content, weight: 1 },
+        ],
+        {
+          title: entity?.name ?? 'Unknown entity',
+          subtitle: 'Entity note',
+          snippet: buildSnippet(note.content, terms),
+          status: null,
+          entityId: note.entityId,
+          documentId: null,
+        }
+      );
+    }
+  }
+}
+
+async function keywordSources(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>,
+  text: string,
+  filters: SearchFilters
+): Promise<SearchSource[]> {
+  const types = filters.types ?? SEARCH_SOURCE_TYPES;
+  const { status, documentId } = filters;
+
+  const [storedChunks, documents, entities, facts, notes, entityNotes] = await Promise.all([
+    !types.includes('document') ?
+      []
+    : ctx.db
+        .query('documentChunks')
+        .withSearchIndex('search_text', (q) => {
+          const search = q.search('text', text).eq('projectId', projectId);
+          return documentId ? search.eq('documentId', documentId) : search;
+        })
+        .take(PER_INDEX_LIMIT),
+    !types.includes('document') ? []
+    : documentId ?
+      ctx.db.get(documentId).then((doc) => (doc && doc.projectId === projectId ? [doc] : []))
+    : Promise.all([
+        ctx.db
+          .query('documents')
+          .withSearchIndex('search_title', (q) =>
+            q.search('title', text).eq('projectId', projectId)
+          )
+          .take(PER_INDEX_LIMIT),
+        ctx.db
+          .query('documents')
+          .withSearchIndex('search_content', (q) =>
+            q.search('content', text).eq('projectId', projectId)
+          )
+          .take(PER_INDEX_LIMIT),
+      ]).then((results) => results.flat()),
+    !types.includes('entity') ?
+      []
+    : Promise.all(
+        (['name', 'description'] as const).map((field) =>
+          ctx.db
+            .query('entities')
+            .withSearchIndex(`search_${field}`, (q) => {
+              const search = q.search(field, text).eq('projectId', projectId);
+              return status && status !== 'rejected' ? search.eq('status', status) : search;
+            })
+            .take(PER_INDEX_LIMIT)
+        )
+      ).then((results) => results.flat()),
+    !types.includes('fact') ?
+      []
+    : Promise.all(
+        (
+          [
+            ['search_object', 'object'],
+            ['search_evidence', 'evidenceSnippet'],
+          ] as const
+        ).map(([index, field]) =>
+          ctx.db
+            .query('facts')
+            .withSearchIndex(index, (q) => {
+              let search = q.search(field, text).eq('projectId', projectId);
+              if (status) search = search.eq('status', status);
+              if (documentId) search = search.eq('documentId', documentId);
+              return search;
+            })
+            .take(PER_INDEX_LIMIT)
+        )
+      ).then((results) => results.flat()),
+    !types.includes('note') ?
+      []
+    : Promise.all(
+        (['title', 'content'] as const).map((field) =>
+          ctx.db
+            .query('notes')
+            .withSearchIndex(`search_${field}`, (q) =>
+              q.search(field, text).eq('projectId', projectId)
+            )
+            .take(PER_INDEX_LIMIT)
+        )
+      ).then((results) => results.flat()),
+    !types.includes('entityNote') ?
+      []
+    : ctx.db
+        .query('entityNotes')
+        .withSearchIndex('search_content', (q) =>
+          q.search('content', text).eq('projectId', projectId)
+        )
+        .take(PER_INDEX_LIMIT),
+  ]);
+
+  // Listed first so a stored document keeps the chunk that matched when it also matches by title.
+  const storedDocuments = await Promise.all(
+    storedChunks.map(async (chunk) => {
+      const record = await ctx.db.get(chunk.documentId);
+      return record ? { type: 'document' as const, record, text: chunk.text } : null;
+    })
+  );
+
+  return [
+    ...storedDocuments.filter((source) => source !== null),
+    ...documents.map((record) => ({ type: 'document' as const, record })),
+    ...entities.map((record) => ({ type: 'entity' as const, record })),
+    ...facts.map((record) => ({ type: 'fact' as const, record })),
+    ...notes.map((record) => ({ type: 'note' as const, record })),
+    ...entityNotes.map((record) => ({ type: 'entityNote' as const, record })),
+  ];
+}
+
+export const canon = query({
+  args: {
+    projectId: v.id('projects'),
+    query: v.string(),
+    limit: v.optional(v.number()),
+    ...filterArgs,
+  },
+  handler: async (
+    ctx,
+    { projectId, query: text, limit = DEFAULT_LIMIT, ...filters }
+  ): Promise<CanonSearchResult[]> => {
+    const role = await getProjectRole(ctx, projectId);
+    if (!roleCanRead(role)) return [];
+
+    const terms = searchTerms(text);
+    if (terms.length === 0) return [];
+
+    const seen = new Set<string>();
+    const results: CanonSearchResult[] = [];
+    for (const source of await keywordSources(ctx, projectId, text.trim(), filters)) {
+      if (seen.has(source.record._id) || !matchesFilters(source, filters)) continue;
+      seen.add(source.record._id);
+
+      const result = await toResult(ctx, source, terms);
+      if (result.score > 0) results.push(result);
+    }
+
+    return results.toSorted((a, b) => b.score - a.score).slice(0, limit);
+  },
+});
+
+async function loadSource(
+  ctx: QueryCtx,
+  type: SearchSourceType,
+  id: string
+): Promise<SearchSource | null> {
+  switch (type) {
+    case 'document': {
+      const docId = ctx.db.normalizeId('documents', id);
+      const record = docId ? await ctx.db.get(docId) : null;
+      return record ? { type, record } : null;
+    }
+    case 'entity': {
+      const entityId = ctx.db.normalizeId('entities', id);
+      const record = entityId ? await ctx.db.get(entityId) : null;
+      return record ? { type, record } : null;
+    }
+    case 'fact': {
+      const factId = ctx.db.normalizeId('facts', id);
+      const record = factId ? await ctx.db.get(factId) : null;
+      return record ? { type, record } : null;
+    }
+    case 'note': {
+      const noteId = ctx.db.normalizeId('notes', id);
+      const record = noteId ? await ctx.db.get(noteId) : null;
+      return record ? { type, record } : null;
+    }
+    case 'entityNote': {
+      const noteId = ctx.db.normalizeId('entityNotes', id);
+      const record = noteId ? await ctx.db.get(noteId) : null;
+      return record ? { type, record } : null;
+    }
+  }
+}
+
+export const canSearch = internalQuery({
+  args: { userId: v.id('users'), projectId: v.id('projects') },
+  handler: async (ctx, { userId, projectId }) => {
+    const project = await ctx.db.get(projectId);
+    return !!project && roleCanRead(await getProjectRoleForUser(ctx, project, userId));
+  },
+});
+
+export const hydrateMatches = internalQuery({
+  args: {
+    userId: v.id('users'),
+    projectId: v.id('projects'),
+    matches: v.array(embeddingMatchValidator),
+    query: v.string(),
+    limit: v.number(),
+    ...filterArgs,
+  },
+  handler: async (
+    ctx,
+    { userId, projectId, matches, query: text, limit, ...filters }
+  ): Promise<CanonSearchResult[]> => {
+    const project = await ctx.db.get(projectId);
+    if (!project || !roleCanRead(await getProjectRoleForUser(ctx, project, userId))) return [];
+
+    const terms = searchTerms(text);
+    const seen = new Set<string>();
+    const results: CanonSearchResult[] = [];
+    for (const match of matches) {
+      if (results.length >= limit) break;
+      // Matches arrive best first, so a document keeps the score of its closest chunk.
+      if (match.score < MIN_SIMILARITY || seen.has(match.sourceId)) continue;
+      seen.add(match.sourceId);
+
+      const source = await loadSource(ctx, match.sourceType, match.sourceId);
+      if (!source || source.record.projectId !== projectId) continue;
+      if (!matchesFilters(source, filters)) continue;
+      results.push(await toResult(ctx, source, terms, match));
+    }
+    return results;
+  },
+});
+
+/**
+ * Records whose meaning is close to the query even when they share no keywords. Only the
+ * embeddings already stored are compared; records not yet embedded are left out.
+ */
+export const semantic = action({
+  args: {
+    projectId: v.id('projects'),
+    query: v.string(),
+    limit: v.optional(v.number()),
+    ...filterArgs,
+  },
+  handler: async (
+    ctx,
+    { projectId, query: text, limit = SEMANTIC_LIMIT, ...filters }
+  ): Promise<CanonSearchResult[]> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId || !text.trim()) return [];
+    const canRead = await ctx.runQuery(internal.search.canSearch, { userId, projectId });
+    if (!canRead) return [];
+
+    const provider = getEmbeddingProvider();
+    const [vector] = await provider.embed([text]);
+    const matches = await findNearest(ctx, projectId, provider, vector);
+
+    return await ctx.runQuery(internal.search.hydrateMatches, {
+      userId,
+      projectId,
+      matches,
+      query: text,
+      limit,
+      ...filters,
+    });
+  },
+});
@@ -1,6 +1,8 @@
 import { internalMutation } from './_generated/server';
 import { v } from 'convex/values';
+import { scheduleEmbeddingSync } from './embeddings';
 import { DEMO_EMAIL } from './lib/demo';
+import { documentStorageIds } from './lib/storageAccess';
 
 export const resetDemoAccount = internalMutation({
   args: {},
@@ -29,8 +31,8 @@ export const resetDemoAccount = internalMutation({
         .collect();
 
       for (const doc of documents) {
-        if (doc.storageId) {
-          await ctx.storage.delete(doc.storageId).catch(() => {});
+        for (const storageId of documentStorageIds(doc)) {
+          await ctx.storage.delete(storageId).catch(() => {});
         }
         await ctx.db.delete(doc._id);
       }
@@ -53,6 +55,133 @@ export const resetDemoAccount = internalMutation({
         await ctx.db.delete(fact._id);
       }
 
+      const relationships = await ctx.db
+        .query('relationships')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const relationship of relationships) {
+        await ctx.db.delete(relationship._id);
+      }
+
+      const entityTypes = await ctx.db
+        .query('entityTypes')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const entityType of entityTypes) {
+        await ctx.db.delete(entityType._id);
+      }
+
+      const attributeTemplates = await ctx.db
+        .query('attributeTemplates')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const template of attributeTemplates) {
+        await ctx.db.delete(template._id);
+      }
+
+      const calendars = await ctx.db
+        .query('calendars')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const calendar of calendars) {
+        await ctx.db.delete(calendar._id);
+      }
+
+      const revisions = await ctx.db
+        .query('revisions')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const revision of revisions) {
+        await ctx.db.delete(revision._id);
+      }
+
+      const proposals = await ctx.db
+        .query('canonProposals')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const proposal of proposals) {
+        await ctx.db.delete(proposal._id);
+      }
+
+      const embeddings = await ctx.db
+        .query('embeddings')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const embedding of embeddings) {
+        await ctx.db.delete(embedding.vectorId);
+        await ctx.db.delete(embedding._id);
+      }
+
+      const embeddingSyncs = await ctx.db
+        .query('embeddingSyncs')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const sync of embeddingSyncs) {
+        await ctx.db.delete(sync._id);
+      }
+
+      const documentChunks = await ctx.db
+        .query('documentChunks')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const chunk of documentChunks) {
+        await ctx.db.delete(chunk._id);
+      }
+
+      const checkRuns = await ctx.db
+        .query('checkRuns')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const run of checkRuns) {
+        await ctx.db.delete(run._id);
+      }
+
+      const suppressions = await ctx.db
+        .query('alertSuppressions')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const suppression of suppressions) {
+        await ctx.db.delete(suppression._id);
+      }
+
+      const alertComments = await ctx.db
+        .query('alertComments')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const comment of alertComments) {
+        await ctx.db.delete(comment._id);
+      }
+
+      const filterPresets = await ctx.db
+        .query('alertFilterPresets')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const preset of filterPresets) {
+        await ctx.db.delete(preset._id);
+      }
+
+      const attributes = await ctx.db
+        .query('entityAttributes')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+
+      for (const attribute of attributes) {
+        await ctx.db.delete(attribute._id);
+      }
+
       const alerts = await ctx.db
         .query('alerts')
         .withIndex('by_project', (q) => q.eq('projectId', project._id))
@@ -92,6 +221,15 @@ export const resetDemoAccount = internalMutation({
       await ctx.db.delete(msg._id);
     }
 
+    const chatThreads = await ctx.db
+      .query('chatThreads')
+      .withIndex('by_user', (q) => q.eq('userId', demoUser._id))
+      .collect();
+
+    for (const thread of chatThreads) {
+      await ctx.db.delete(thread._id);
+    }
+
     console.log(
       `[resetDemoAccount] Deleted ${projects.length} projects, ${chatMessages.length} chat messages`
     );
@@ -414,6 +552,20 @@ At the Festival of Green Leaves, celebrated on the first full moon of spring, th
       createdAt: now,
     });
 
+    await ctx.db.insert('relationships', {
+      projectId,
+      sourceEntityId: miraId,
+      targetEntityId: aldricId,
+      type: 'is_daughter_of',
+      documentId: doc1Id,
+      confidence: 1.0,
+      evidenceSnippet: "Lady Mira, Sir Aldric's daughter",
+      evidencePosition: { start: 350, end: 382 },
+      status: 'confirmed',
+      createdAt: now,
+      updatedAt: now,
+    });
+
     await ctx.db.insert('facts', {
       projectId,
       entityId: miraId,
@@ -638,6 +790,8 @@ At the Festival of Green Leaves, celebrated on the first full moon of spring, th
       updatedAt: now,
     });
 
+    await scheduleEmbeddingSync(ctx, projectId);
+
     return { projectId, documentIds: [doc1Id, doc2Id, doc3Id] };
   },
 });
@@ -665,6 +819,76 @@ export const clearSeedData = internalMutation({
       .withIndex('by_project', (q) => q.eq('projectId', projectId))
       .collect();
 
+    const relationships = await ctx.db
+      .query('relationships')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const entityTypes = await ctx.db
+      .query('entityTypes')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const attributeTemplates = await ctx.db
+      .query('attributeTemplates')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const attributes = await ctx.db
+      .query('entityAttributes')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const calendars = await ctx.db
+      .query('calendars')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const revisions = await ctx.db
+      .query('revisions')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const proposals = await ctx.db
+      .query('canonProposals')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const embeddings = await ctx.db
+      .query('embeddings')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const embeddingSyncs = await ctx.db
+      .query('embeddingSyncs')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const documentChunks = await ctx.db
+      .query('documentChunks')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const checkRuns = await ctx.db
+      .query('checkRuns')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const suppressions = await ctx.db
+      .query('alertSuppressions')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const alertComments = await ctx.db
+      .query('alertComments')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
+    const filterPresets = await ctx.db
+      .query('alertFilterPresets')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+
     const alerts = await ctx.db
       .query('alerts')
       .withIndex('by_project', (q) => q.eq('projectId', projectId))
@@ -692,10 +916,67 @@ export const clearSeedData = internalMutation({
       await ctx.db.delete(fact._id);
     }
 
+    for (const relationship of relationships) {
+      await ctx.db.delete(relationship._id);
+    }
+
     for (const entity of entities) {
       await ctx.db.delete(entity._id);
     }
 
+    for (const entityType of entityTypes) {
+      await ctx.db.delete(entityType._id);
+    }
+
+    for (const template of attributeTemplates) {
+      await ctx.db.delete(template._id);
+    }
+
+    for (const attribute of attributes) {
+      await ctx.db.delete(attribute._id);
+    }
+
+    for (const calendar of calendars) {
+      await ctx.db.delete(calendar._id);
+    }
+
+    for (const revision of revisions) {
+      await ctx.db.delete(revision._id);
+    }
+
+    for (const proposal of proposals) {
+      await ctx.db.delete(proposal._id);
+    }
+
+    for (const embedding of embeddings) {
+      await ctx.db.delete(embedding.vectorId);
+      await ctx.db.delete(embedding._id);
+    }
+
+    for (const sync of embeddingSyncs) {
+      await ctx.db.delete(sync._id);
+    }
+
+    for (const chunk of documentChunks) {
+      await ctx.db.delete(chunk._id);
+    }
+
+    for (const run of checkRuns) {
+      await ctx.db.delete(run._id);
+    }
+
+    for (const suppression of suppressions) {
+      await ctx.db.delete(suppression._id);
+    }
+
+    for (const comment of alertComments) {
+      await ctx.db.delete(comment._id);
+    }
+
+    for (const preset of filterPresets) {
+      await ctx.db.delete(preset._id);
+    }
+
     for (const note of notes) {
       await ctx.db.delete(note._id);
     }
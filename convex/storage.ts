@@ -22,10 +22,13 @@ export const getFileUrl = query({
 export const deleteFile = mutation({
   args: { storageId: v.id('_storage') },
   handler: async (ctx, { storageId }) => {
-    const { user, document } = await requireStorageAccess(ctx, storageId);
+    const { user, document } = await requireStorageAccess(ctx, storageId, 'edit');
     await ctx.storage.delete(storageId);
     if (document) {
-      await ctx.db.patch(document._id, { storageId: undefined });
+      await ctx.db.patch(
+        document._id,
+        document.sourceFileId === storageId ? { sourceFileId: undefined } : { storageId: undefined }
+      );
     }
     if (user.avatarStorageId === storageId) {
       await ctx.db.patch(user._id, { avatarStorageId: undefined });
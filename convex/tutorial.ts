@@ -1,4 +1,5 @@
 import { mutation } from './_generated/server';
+import { scheduleEmbeddingSync } from './embeddings';
 import { requireAuth } from './lib/auth';
 
 export const seedTutorialProject = mutation({
@@ -289,6 +290,20 @@ At the Festival of Green Leaves, celebrated on the first full moon of spring, th
       createdAt: now,
     });
 
+    await ctx.db.insert('relationships', {
+      projectId,
+      sourceEntityId: miraId,
+      targetEntityId: aldricId,
+      type: 'is_daughter_of',
+      documentId: doc1Id,
+      confidence: 1.0,
+      evidenceSnippet: "Lady Mira, Sir Aldric's daughter",
+      evidencePosition: { start: 350, end: 382 },
+      status: 'confirmed',
+      createdAt: now,
+      updatedAt: now,
+    });
+
     await ctx.db.insert('facts', {
       projectId,
       entityId: miraId,
@@ -513,6 +528,8 @@ At the Festival of Green Leaves, celebrated on the first full moon of spring, th
       updatedAt: now,
     });
 
+    await scheduleEmbeddingSync(ctx, projectId);
+
     return { projectId, alreadyExists: false };
   },
 });
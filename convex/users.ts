@@ -12,7 +12,7 @@ import {
   MAX_PASSWORD_LENGTH,
 } from './lib/constants';
 import { DEMO_EMAIL } from './lib/demo';
-import { assertStorageIdAvailableForAvatar } from './lib/storageAccess';
+import { assertStorageIdAvailableForAvatar, documentStorageIds } from './lib/storageAccess';
 import {
   authError,
   conflictError,
@@ -647,8 +647,8 @@ export const deleteAccount = mutation({
         .withIndex('by_project', (q) => q.eq('projectId', project._id))
         .collect();
       for (const doc of documents) {
-        if (doc.storageId) {
-          await safeDeleteStorage(doc.storageId, `document ${doc._id}`);
+        for (const storageId of documentStorageIds(doc)) {
+          await safeDeleteStorage(storageId, `document ${doc._id}`);
         }
         await ctx.db.delete(doc._id);
       }
@@ -676,6 +676,119 @@ export const deleteAccount = mutation({
         await ctx.db.delete(fact._id);
       }
 
+      const relationships = await ctx.db
+        .query('relationships')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const relationship of relationships) {
+        await ctx.db.delete(relationship._id);
+      }
+
+      const entityTypes = await ctx.db
+        .query('entityTypes')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const entityType of entityTypes) {
+        await ctx.db.delete(entityType._id);
+      }
+
+      const attributeTemplates = await ctx.db
+        .query('attributeTemplates')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const template of attributeTemplates) {
+        await ctx.db.delete(template._id);
+      }
+
+      const calendars = await ctx.db
+        .query('calendars')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const calendar of calendars) {
+        await ctx.db.delete(calendar._id);
+      }
+
+      const revisions = await ctx.db
+        .query('revisions')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const revision of revisions) {
+        await ctx.db.delete(revision._id);
+      }
+
+      const proposals = await ctx.db
+        .query('canonProposals')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const proposal of proposals) {
+        await ctx.db.delete(proposal._id);
+      }
+
+      const embeddings = await ctx.db
+        .query('embeddings')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const embedding of embeddings) {
+        await ctx.db.delete(embedding.vectorId);
+        await ctx.db.delete(embedding._id);
+      }
+
+      const embeddingSyncs = await ctx.db
+        .query('embeddingSyncs')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const sync of embeddingSyncs) {
+        await ctx.db.delete(sync._id);
+      }
+
+      const documentChunks = await ctx.db
+        .query('documentChunks')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const chunk of documentChunks) {
+        await ctx.db.delete(chunk._id);
+      }
+
+      const checkRuns = await ctx.db
+        .query('checkRuns')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const run of checkRuns) {
+        await ctx.db.delete(run._id);
+      }
+
+      const suppressions = await ctx.db
+        .query('alertSuppressions')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const suppression of suppressions) {
+        await ctx.db.delete(suppression._id);
+      }
+
+      const alertComments = await ctx.db
+        .query('alertComments')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const comment of alertComments) {
+        await ctx.db.delete(comment._id);
+      }
+
+      const filterPresets = await ctx.db
+        .query('alertFilterPresets')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const preset of filterPresets) {
+        await ctx.db.delete(preset._id);
+      }
+
+      const attributes = await ctx.db
+        .query('entityAttributes')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const attribute of attributes) {
+        await ctx.db.delete(attribute._id);
+      }
+
       const alerts = await ctx.db
         .query('alerts')
         .withIndex('by_project', (q) => q.eq('projectId', project._id))
@@ -692,6 +805,65 @@ export const deleteAccount = mutation({
         await ctx.db.delete(note._id);
       }
 
+      const shares = await ctx.db
+        .query('projectShares')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const share of shares) {
+        await ctx.db.delete(share._id);
+      }
+
+      const projectThreads = await ctx.db
+        .query('chatThreads')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const thread of projectThreads) {
+        const threadMessages = await ctx.db
+          .query('chatMessages')
+          .withIndex('by_thread', (q) => q.eq('threadId', thread._id))
+          .collect();
+        for (const message of threadMessages) {
+          await ctx.db.delete(message._id);
+        }
+        await ctx.db.delete(thread._id);
+      }
+
+      const imports = await ctx.db
+        .query('projectImports')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const job of imports) {
+        const idMap = await ctx.db
+          .query('projectImportIds')
+          .withIndex('by_import', (q) => q.eq('importId', job._id))
+          .collect();
+        for (const row of idMap) {
+          await ctx.db.delete(row._id);
+        }
+        if (job.status !== 'completed') {
+          await safeDeleteStorage(job.storageId, `project import ${job._id}`);
+        }
+        await ctx.db.delete(job._id);
+      }
+
+      const vaultImports = await ctx.db
+        .query('vaultImports')
+        .withIndex('by_project', (q) => q.eq('projectId', project._id))
+        .collect();
+      for (const job of vaultImports) {
+        const idMap = await ctx.db
+          .query('vaultImportIds')
+          .withIndex('by_import', (q) => q.eq('importId', job._id))
+          .collect();
+        for (const row of idMap) {
+          await ctx.db.delete(row._id);
+        }
+        if (job.status !== 'completed') {
+          await safeDeleteStorage(job.storageId, `vault import ${job._id}`);
+        }
+        await ctx.db.delete(job._id);
+      }
+
       await ctx.db.delete(project._id);
     }
 
@@ -713,10 +885,57 @@ export const deleteAccount = mutation({
       await ctx.db.delete(note._id);
     }
 
+    const userAlertComments = await ctx.db
+      .query('alertComments')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect();
+    for (const comment of userAlertComments) {
+      if (comment.kind === 'comment') {
+        await ctx.db.delete(comment._id);
+      } else {
+        await ctx.db.patch(comment._id, { userId: undefined });
+      }
+    }
+
+    const userFilterPresets = await ctx.db
+      .query('alertFilterPresets')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect();
+    for (const preset of userFilterPresets) {
+      await ctx.db.delete(preset._id);
+    }
+
+    const assignedAlerts = await ctx.db
+      .query('alerts')
+      .withIndex('by_assignee', (q) => q.eq('assigneeId', user._id))
+      .collect();
+    for (const alert of assignedAlerts) {
+      await ctx.db.patch(alert._id, { assigneeId: undefined });
+    }
+
     console.log(
       `[deleteAccount] Deleted ${userNotes.length} notes and ${userEntityNotes.length} entity notes for user ${user._id}`
     );
 
+    const memberships = await ctx.db
+      .query('projectShares')
+      .withIndex('by_user', (q) => q.eq('sharedWithUserId', user._id))
+      .collect();
+    for (const share of memberships) {
+      await ctx.db.delete(share._id);
+    }
+
+    if (user.email) {
+      const pendingInvites = await ctx.db
+        .query('projectShares')
+        .withIndex('by_email', (q) => q.eq('sharedWithEmail', user.email?.toLowerCase() ?? ''))
+        .filter((q) => q.eq(q.field('acceptedAt'), undefined))
+        .collect();
+      for (const invite of pendingInvites) {
+        await ctx.db.delete(invite._id);
+      }
+    }
+
     const chatMessages = await ctx.db
       .query('chatMessages')
       .withIndex('by_user', (q) => q.eq('userId', user._id))
@@ -725,8 +944,16 @@ export const deleteAccount = mutation({
       await ctx.db.delete(msg._id);
     }
 
+    const chatThreads = await ctx.db
+      .query('chatThreads')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect();
+    for (const thread of chatThreads) {
+      await ctx.db.delete(thread._id);
+    }
+
     console.log(
-      `[deleteAccount] Deleted ${chatMessages.length} chat messages for user ${user._id}`
+      `[deleteAccount] Deleted ${chatThreads.length} chat threads and ${chatMessages.length} chat messages for user ${user._id}`
     );
 
     if (user.avatarStorageId) {
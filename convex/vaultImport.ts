@@ -0,0 +1,649 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+import { v } from 'convex/values';
+import type { ActionCtx, MutationCtx, QueryCtx } from './_generated/server';
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from './_generated/server';
+import { api, internal } from './_generated/api';
+import type { Doc, Id } from './_generated/dataModel';
+import { scheduleEmbeddingSync } from './embeddings';
+import { requireAuth } from './lib/auth';
+import { authError, limitError, notFoundError, validationError } from './lib/errors';
+import {
+  clearImportIdMap,
+  failImportJob,
+  getImportJob,
+  resumeImportJob,
+  runImportJob,
+} from './lib/importJobs';
+import { getProjectRoleForUser, roleCanEdit } from './lib/projectAccess';
+import { recordRevision } from './lib/revisions';
+import { assertStorageIdAvailableForImport } from './lib/storageAccess';
+import {
+  checkResourceLimit,
+  getDocumentCount,
+  getEntityCount,
+  getProjectOwner,
+} from './lib/subscription';
+import {
+  countVaultImportRecords,
+  entityResolutionValidator,
+  firstVaultImportStage,
+  fitsInline,
+  nextVaultImportBatch,
+  nextVaultImportStage,
+  planVaultImport,
+  readVaultArchive,
+  vaultImportBatchValidator,
+  vaultImportContextValidator,
+  vaultImportRecords,
+  vaultImportStageValidator,
+  vaultKey,
+  type SkippedVaultFile,
+  type VaultArchive,
+  type VaultFormat,
+  type VaultImportBatch,
+  type VaultImportContext,
+  type VaultImportRecords,
+  type VaultImportResult,
+  type VaultImportStage,
+  type VaultNote,
+} from './lib/vaults';
+
+// Vault import: an uploaded zip of markdown notes or World Anvil export becomes documents,
+// confirmed entities and relationships. `preview` is a dry run listing what would be created and
+// which entities share a name with one already in the project. `apply` checks limits and starts a
+// background job (see `lib/importJobs`) that merges into, skips, or creates alongside those
+// entities as chosen, and deletes the upload once everything is in.
+
+type ImportProgress = { stage: VaultImportStage | 'cleanup'; cursor: number };
+
+const jobFunctions = {
+  run: internal.vaultImport.run,
+  fail: internal.vaultImport.fail,
+};
+
+export type VaultImportPreview = {
+  format: VaultFormat;
+  documentCount: number;
+  entities: {
+    name: string;
+    typeLabel: string;
+    aliases: string[];
+    conflict: { id: Id<'entities'>; name: string; type: string } | null;
+  }[];
+  relationshipCount: number;
+  unresolvedLinks: string[];
+  skipped: SkippedVaultFile[];
+};
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+// Every name the plan could match against an existing entity: note titles and link targets.
+function candidateNames(notes: VaultNote[]): string[] {
+  const names = notes.flatMap((note) => [note.title, ...note.links.map((link) => link.target)]);
+  return [...new Set(names)];
+}
+
+async function loadImportContext(
+  ctx: QueryCtx,
+  projectId: Id<'projects'>,
+  names: string[]
+): Promise<VaultImportContext> {
+  const customTypes = await ctx.db
+    .query('entityTypes')
+    .withIndex('by_project', (q) => q.eq('projectId', projectId))
+    .collect();
+
+  const existing: VaultImportContext['existing'] = [];
+  for (const name of names) {
+    const entity = await ctx.db
+      .query('entities')
+      .withIndex('by_name', (q) => q.eq('projectId', projectId).eq('name', name))
+      .first();
+    if (entity) existing.push({ _id: entity._id, name: entity.name, type: entity.type });
+  }
+
+  return {
+    customTypes: customTypes.map(({ _id, name, baseType }) => ({ _id, name, baseType })),
+    existing,
+  };
+}
+
+async function readArchive(
+  ctx: ActionCtx,
+  storageId: Id<'_storage'>,
+  fileName: string
+): Promise<VaultArchive> {
+  const file = await ctx.storage.get(storageId);
+  if (!file) {
+    throw notFoundError('file', storageId);
+  }
+  return readVaultArchive(new Uint8Array(await file.arrayBuffer()), fileName);
+}
+
+async function readUploadedVault(
+  ctx: ActionCtx,
+  projectId: Id<'projects'>,
+  storageId: Id<'_storage'>,
+  fileName: string
+): Promise<{ userId: Id<'users'>; archive: VaultArchive }> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw authError('unauthenticated', 'You must be signed in to import a vault.');
+  }
+  const role = await ctx.runQuery(api.projects.getRole, { id: projectId });
+  if (!roleCanEdit(role)) {
+    throw authError('unauthorized', 'You do not have permission to access this project.');
+  }
+
+  await ctx.runQuery(internal.vaultImport.assertUploadAvailable, { storageId });
+  return { userId, archive: await readArchive(ctx, storageId, fileName) };
+}
+
+async function mappedId<T extends 'documents' | 'entities'>(
+  ctx: MutationCtx,
+  importId: Id<'vaultImports'>,
+  table: T,
+  sourceId: string
+): Promise<Id<T> | undefined> {
+  const row = await ctx.db
+    .query('vaultImportIds')
+    .withIndex('by_import', (q) =>
+      q.eq('importId', importId).eq('table', table).eq('sourceId', sourceId)
+    )
+    .unique();
+  return row ? (row.targetId as Id<T>) : undefined;
+}
+
+async function recordId(
+  ctx: MutationCtx,
+  importId: Id<'vaultImports'>,
+  table: 'documents' | 'entities',
+  sourceId: string,
+  targetId: string
+): Promise<void> {
+  await ctx.db.insert('vaultImportIds', { importId, table, sourceId, targetId });
+}
+
+/** Write one batch of a stage into the job's result, returning how the project's counts change. */
+async function importRecords(
+  ctx: MutationCtx,
+  job: Doc<'vaultImports'>,
+  batch: VaultImportBatch,
+  result: VaultImportResult
+): Promise<{ documents: number; entities: number }> {
+  const { _id: importId, projectId, userId } = job;
+  const now = Date.now();
+
+  switch (batch.stage) {
+    case 'documents': {
+      for (const note of batch.records) {
+        if (!fitsInline(note.content)) {
+          throw validationError('content', `"${note.title}" is too long to store as one document.`);
+        }
+        const id = await ctx.db.insert('documents', {
+          projectId,
+          title: note.title,
+          content: note.content,
+          contentType: 'markdown',
+          orderIndex: job.firstOrderIndex + result.documentsCreated,
+          wordCount: countWords(note.content),
+          createdAt: now,
+          updatedAt: now,
+          processingStatus: 'pending',
+        });
+        await recordId(ctx, importId, 'documents', String(note.noteIndex), id);
+        result.documentsCreated++;
+      }
+      return { documents: batch.records.length, entities: 0 };
+    }
+
+    case 'entities': {
+      let created = 0;
+      for (const planned of batch.records) {
+        if (planned.resolution === 'skip') {
+          result.entitiesSkipped++;
+          continue;
+        }
+
+        if (planned.resolution === 'merge' && planned.conflictId) {
+          const entity = await ctx.db.get(planned.conflictId);
+          if (!entity) continue;
+          await ctx.db.patch(entity._id, {
+            aliases: [...new Set([...entity.aliases, ...planned.aliases])].filter(
+              (alias) => alias !== entity.name
+            ),
+            description: entity.description || planned.description,
+            status: 'confirmed',
+            updatedAt: now,
+          });
+          const updated = await ctx.db.get(entity._id);
+          if (updated) {
+            await recordRevision(
+              ctx,
+              { entity },
+              { entity: updated },
+              { action: 'update', userId, summary: 'Merged from vault import' }
+            );
+          }
+          await recordId(ctx, importId, 'entities', vaultKey(planned.name), entity._id);
+          result.entitiesMerged++;
+          continue;
+        }
+
+        const id = await ctx.db.insert('entities', {
+          projectId,
+          name: planned.name,
+          type: planned.type,
+          customTypeId: planned.customTypeId,
+          description: planned.description,
+          aliases: planned.aliases,
+          firstMentionedIn: await mappedId(ctx, importId, 'documents', String(planned.noteIndex)),
+          status: 'confirmed',
+          createdAt: now,
+          updatedAt: now,
+        });
+        const entity = await ctx.db.get(id);
+        if (entity) {
+          await recordRevision(
+            ctx,
+            null,
+            { entity },
+            { action: 'initial', userId, summary: 'Created from vault import' }
+          );
+        }
+        await recordId(ctx, importId, 'entities', vaultKey(planned.name), id);
+        result.entitiesCreated++;
+        created++;
+      }
+      return { documents: 0, entities: created };
+    }
+
+    case 'relationships': {
+      // Links to entities the vault doesn't describe itself point at existing ones by name.
+      const targetIdFor = async (target: string): Promise<Id<'entities'> | null> => {
+        const planned = await mappedId(ctx, importId, 'entities', vaultKey(target));
+        if (planned) return planned;
+        const existing = await ctx.db
+          .query('entities')
+          .withIndex('by_name', (q) => q.eq('projectId', projectId).eq('name', target))
+          .first();
+        return existing?._id ?? null;
+      };
+
+      for (const link of batch.records) {
+        const sourceEntityId = await mappedId(ctx, importId, 'entities', vaultKey(link.source));
+        const targetEntityId = await targetIdFor(link.target);
+        if (!sourceEntityId || !targetEntityId || sourceEntityId === targetEntityId) continue;
+
+        // Also catches links written earlier in this import, in this batch or a previous one.
+        const duplicate = await ctx.db
+          .query('relationships')
+          .withIndex('by_source', (q) => q.eq('sourceEntityId', sourceEntityId))
+          .filter((q) =>
+            q.and(
+              q.eq(q.field('targetEntityId'), targetEntityId),
+              q.eq(q.field('type'), link.type),
+              q.neq(q.field('status'), 'rejected')
+            )
+          )
+          .first();
+        if (duplicate) continue;
+
+        await ctx.db.insert('relationships', {
+          projectId,
+          sourceEntityId,
+          targetEntityId,
+          type: link.type,
+          documentId: await mappedId(ctx, importId, 'documents', String(link.noteIndex)),
+          confidence: 1,
+          evidenceSnippet: link.evidence,
+          evidencePosition:
+            link.start !== undefined && link.end !== undefined ?
+              { start: link.start, end: link.end }
+            : undefined,
+          status: 'confirmed',
+          createdAt: now,
+          updatedAt: now,
+        });
+        result.relationshipsCreated++;
+      }
+      return { documents: 0, entities: 0 };
+    }
+  }
+}
+
+/** The import's records, rebuilt from the upload as the job planned them when it started. */
+async function loadJobRecords(
+  ctx: ActionCtx,
+  job: Doc<'vaultImports'>
+): Promise<VaultImportRecords> {
+  const { notes } = await readArchive(ctx, job.storageId, job.fileName);
+  return vaultImportRecords(notes, planVaultImport(notes, job.context), job.resolutions);
+}
+
+// Uploads attached to a document or avatar, or held by another import, are never read or deleted.
+export const assertUploadAvailable = internalQuery({
+  args: { storageId: v.id('_storage') },
+  handler: async (ctx, { storageId }) => {
+    await assertStorageIdAvailableForImport(ctx, storageId);
+  },
+});
+
+export const getImportContext = internalQuery({
+  args: { projectId: v.id('projects'), names: v.array(v.string()) },
+  handler: async (ctx, { projectId, names }) => {
+    return await loadImportContext(ctx, projectId, names);
+  },
+});
+
+/** Dry run: what importing the upload would create. Nothing is written. */
+export const preview = action({
+  args: {
+    projectId: v.id('projects'),
+    storageId: v.id('_storage'),
+    fileName: v.string(),
+  },
+  handler: async (ctx, { projectId, storageId, fileName }): Promise<VaultImportPreview> => {
+    const { archive } = await readUploadedVault(ctx, projectId, storageId, fileName);
+    const context: VaultImportContext = await ctx.runQuery(internal.vaultImport.getImportContext, {
+      projectId,
+      names: candidateNames(archive.notes),
+    });
+    const plan = planVaultImport(archive.notes, context);
+
+    return {
+      format: archive.format,
+      documentCount: archive.notes.filter((note) => note.content.trim()).length,
+      entities: plan.entities.map((entity) => ({
+        name: entity.name,
+        typeLabel: entity.label,
+        aliases: entity.aliases,
+        conflict:
+          entity.conflict ?
+            { id: entity.conflict._id, name: entity.conflict.name, type: entity.conflict.type }
+          : null,
+      })),
+      relationshipCount: plan.relationships.length,
+      unresolvedLinks: plan.unresolvedLinks,
+      skipped: archive.skipped,
+    };
+  },
+});
+
+/** Start importing the upload into the project. Returns before the notes are in. */
+export const apply = action({
+  args: {
+    projectId: v.id('projects'),
+    storageId: v.id('_storage'),
+    fileName: v.string(),
+    // By entity name; entities that collide with an existing one merge into it unless listed.
+    resolutions: v.optional(
+      v.array(v.object({ name: v.string(), resolution: entityResolutionValidator }))
+    ),
+  },
+  handler: async (
+    ctx,
+    { projectId, storageId, fileName, resolutions = [] }
+  ): Promise<Id<'vaultImports'>> => {
+    const { userId, archive } = await readUploadedVault(ctx, projectId, storageId, fileName);
+    // Planned against the project as it is now rather than at preview.
+    const context: VaultImportContext = await ctx.runQuery(internal.vaultImport.getImportContext, {
+      projectId,
+      names: candidateNames(archive.notes),
+    });
+    const records = vaultImportRecords(
+      archive.notes,
+      planVaultImport(archive.notes, context),
+      resolutions
+    );
+
+    return await ctx.runMutation(internal.vaultImport.createImport, {
+      projectId,
+      userId,
+      storageId,
+      fileName,
+      resolutions,
+      context,
+      documentCount: records.documents.length,
+      newEntityCount: records.entities.filter((entity) => entity.resolution === 'create').length,
+      totalRecords: countVaultImportRecords(records),
+      stage: firstVaultImportStage(records),
+    });
+  },
+});
+
+export const createImport = internalMutation({
+  args: {
+    projectId: v.id('projects'),
+    userId: v.id('users'),
+    // The upload, deleted once imported; it must not belong to a document, avatar or import.
+    storageId: v.id('_storage'),
+    fileName: v.string(),
+    resolutions: v.array(v.object({ name: v.string(), resolution: entityResolutionValidator })),
+    context: vaultImportContextValidator,
+    documentCount: v.number(),
+    newEntityCount: v.number(),
+    totalRecords: v.number(),
+    stage: vaultImportStageValidator,
+  },
+  handler: async (
+    ctx,
+    {
+      projectId,
+      userId,
+      storageId,
+      fileName,
+      resolutions,
+      context,
+      documentCount,
+      newEntityCount,
+      totalRecords,
+      stage,
+    }
+  ): Promise<Id<'vaultImports'>> => {
+    const [project, user] = await Promise.all([ctx.db.get(projectId), ctx.db.get(userId)]);
+    if (!project || !user) {
+      throw notFoundError('project', projectId);
+    }
+    if (!roleCanEdit(await getProjectRoleForUser(ctx, project, userId))) {
+      throw authError('unauthorized', 'You do not have permission to access this project.');
+    }
+    await assertStorageIdAvailableForImport(ctx, storageId);
+
+    const owner = await getProjectOwner(ctx, project, user);
+    const docCount = await getDocumentCount(ctx, projectId);
+    const docLimit = checkResourceLimit(owner, 'documentsPerProject', docCount + documentCount - 1);
+    if (!docLimit.allowed) {
+      throw limitError(
+        'documentsPerProject',
+        docLimit.limit,
+        `Document limit reached. Free tier allows ${docLimit.limit} documents per project, and this vault would add ${documentCount}. Upgrade to Realm Unlimited for unlimited documents.`
+      );
+    }
+    const entityCount = await getEntityCount(ctx, projectId);
+    const entityLimit = checkResourceLimit(
+      owner,
+      'entitiesPerProject',
+      entityCount + newEntityCount - 1
+    );
+    if (newEntityCount > 0 && !entityLimit.allowed) {
+      throw limitError(
+        'entitiesPerProject',
+        entityLimit.limit,
+        `Entity limit reached. Free tier allows ${entityLimit.limit} entities per project, and this vault would add ${newEntityCount}. Upgrade to Realm Unlimited for unlimited entities.`
+      );
+    }
+
+    const existingDocs = await ctx.db
+      .query('documents')
+      .withIndex('by_project', (q) => q.eq('projectId', projectId))
+      .collect();
+    const maxOrderIndex = existingDocs.reduce((max, doc) => Math.max(max, doc.orderIndex), -1);
+
+    const now = Date.now();
+    const importId = await ctx.db.insert('vaultImports', {
+      userId,
+      projectId,
+      storageId,
+      fileName,
+      resolutions,
+      context,
+      firstOrderIndex: maxOrderIndex + 1,
+      status: 'running',
+      stage,
+      cursor: 0,
+      importedRecords: 0,
+      totalRecords,
+      result: {
+        documentsCreated: 0,
+        entitiesCreated: 0,
+        entitiesMerged: 0,
+        entitiesSkipped: 0,
+        relationshipsCreated: 0,
+      },
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.vaultImport.run, { importId });
+    return importId;
+  },
+});
+
+export const getJob = internalQuery({
+  args: { importId: v.id('vaultImports') },
+  handler: async (ctx, { importId }) => {
+    return await ctx.db.get(importId);
+  },
+});
+
+/** Import batches from the job's saved position until done, failed, or out of time. */
+export const run = internalAction({
+  args: { importId: v.id('vaultImports') },
+  handler: async (ctx, { importId }) => {
+    const job = await ctx.runQuery(internal.vaultImport.getJob, { importId });
+    await runImportJob(ctx, job, jobFunctions, async (running) => {
+      const records = await loadJobRecords(ctx, running);
+      return async ({ stage, cursor }) =>
+        stage === 'cleanup' ?
+          await ctx.runMutation(internal.vaultImport.clearIdMap, { importId })
+        : await ctx.runMutation(internal.vaultImport.importBatch, {
+            importId,
+            cursor,
+            batch: nextVaultImportBatch(records, stage, cursor),
+            stageSize: records[stage].length,
+            nextStage: nextVaultImportStage(records, stage),
+          });
+    });
+  },
+});
+
+/**
+ * Write one batch and advance the job past it. A batch for any other position than the job's
+ * own (a second runner, a retried call) is ignored. Returns where to continue, or null to stop.
+ */
+export const importBatch = internalMutation({
+  args: {
+    importId: v.id('vaultImports'),
+    cursor: v.number(),
+    batch: vaultImportBatchValidator,
+    stageSize: v.number(),
+    nextStage: vaultImportStageValidator,
+  },
+  handler: async (
+    ctx,
+    { importId, cursor, batch, stageSize, nextStage }
+  ): Promise<ImportProgress | null> => {
+    const { stage, records } = batch;
+    const job = await ctx.db.get(importId);
+    if (!job || job.status !== 'running' || job.stage !== stage || job.cursor !== cursor) {
+      return null;
+    }
+    const project = await ctx.db.get(job.projectId);
+    const role = project ? await getProjectRoleForUser(ctx, project, job.userId) : null;
+    if (!project || !roleCanEdit(role)) {
+      await ctx.db.patch(importId, {
+        status: 'failed',
+        error:
+          project ?
+            'You no longer have permission to edit this project.'
+          : 'The project was deleted before the import finished.',
+        updatedAt: Date.now(),
+      });
+      return null;
+    }
+
+    const result = { ...job.result };
+    const added = await importRecords(ctx, job, batch, result);
+    if (added.documents > 0 || added.entities > 0) {
+      const stats = project.stats ?? {
+        documentCount: 0,
+        entityCount: 0,
+        factCount: 0,
+        alertCount: 0,
+        noteCount: 0,
+      };
+      await ctx.db.patch(project._id, {
+        updatedAt: Date.now(),
+        stats: {
+          ...stats,
+          documentCount: stats.documentCount + added.documents,
+          entityCount: stats.entityCount + added.entities,
+        },
+      });
+    }
+
+    const next: ImportProgress =
+      cursor + records.length >= stageSize ?
+        { stage: nextStage, cursor: 0 }
+      : { stage, cursor: cursor + records.length };
+    await ctx.db.patch(importId, {
+      ...next,
+      importedRecords: job.importedRecords + records.length,
+      result,
+      updatedAt: Date.now(),
+    });
+    return next;
+  },
+});
+
+/** Drop the job's id map a batch at a time, then mark it completed and delete the upload. */
+export const clearIdMap = internalMutation({
+  args: { importId: v.id('vaultImports') },
+  handler: async (ctx, { importId }): Promise<ImportProgress | null> => {
+    return await clearImportIdMap(ctx, importId, (job) =>
+      scheduleEmbeddingSync(ctx, job.projectId)
+    );
+  },
+});
+
+export const fail = internalMutation({
+  args: { importId: v.id('vaultImports'), error: v.string() },
+  handler: async (ctx, { importId, error }) => {
+    await failImportJob(ctx, importId, error);
+  },
+});
+
+/** Pick a failed or stalled import back up from the last batch it finished. */
+export const resume = mutation({
+  args: { id: v.id('vaultImports') },
+  handler: async (ctx, { id }) => {
+    const userId = await requireAuth(ctx);
+    await resumeImportJob(ctx, userId, id, jobFunctions);
+  },
+});
+
+export const get = query({
+  args: { id: v.id('vaultImports') },
+  handler: async (ctx, { id }) => {
+    return await getImportJob(ctx, await getAuthUserId(ctx), id);
+  },
+});
@@ -15,6 +15,9 @@ type AlertCardProps = {
   onDismiss: (id: Id<'alerts'>) => void;
   entityNames?: string[];
   dataTourAction?: boolean;
+  selected?: boolean;
+  focused?: boolean;
+  onSelectChange?: (selected: boolean) => void;
 };
 
 const typeConfig = {
@@ -41,6 +44,9 @@ export function AlertCard({
   onDismiss,
   entityNames,
   dataTourAction,
+  selected = false,
+  focused = false,
+  onSelectChange,
 }: AlertCardProps) {
   const TypeIcon = typeConfig[alert.type].icon;
   const severityStyle = severityConfig[alert.severity];
@@ -50,17 +56,30 @@ export function AlertCard({
       to="/projects/$projectId/alerts/$alertId"
       params={{ projectId, alertId: alert._id }}
       className="block"
+      data-alert-id={alert._id}
     >
       <Card
         className={cn(
           'group transition-all duration-200 hover:shadow-md hover:ring-1',
           alert.status === 'open' ?
             'hover:border-primary/50 hover:ring-primary/20'
-          : 'opacity-60 hover:opacity-80'
+          : 'opacity-60 hover:opacity-80',
+          selected && 'border-primary/50 bg-primary/5 opacity-100',
+          focused && 'ring-primary/60 ring-2'
         )}
       >
         <CardHeader className="p-4">
           <div className="flex items-start gap-4">
+            {onSelectChange && (
+              <input
+                type="checkbox"
+                checked={selected}
+                aria-label={`Select ${alert.title}`}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => onSelectChange(e.target.checked)}
+                className="accent-primary mt-3 size-4 shrink-0 cursor-pointer"
+              />
+            )}
             <div
               className={cn(
                 'flex size-10 shrink-0 items-center justify-center rounded-lg',
@@ -0,0 +1,366 @@
+import { Fragment, useRef, useState, type ReactNode } from 'react';
+import { Link } from '@tanstack/react-router';
+import { useMutation, useQuery } from 'convex/react';
+import {
+  Activity,
+  Check,
+  Loader2,
+  MessageSquare,
+  Pencil,
+  Trash2,
+  UserRound,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import { ENTITY_MENTION_PATTERN } from '../../convex/lib/mentions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { getErrorMessage } from '@/lib/errors';
+
+type AlertDiscussionProps = {
+  alertId: Id<'alerts'>;
+  projectId: string;
+  assignee: { _id: Id<'users'>; name: string } | null;
+  canEdit: boolean;
+  currentUserId?: Id<'users'>;
+};
+
+type Mention = { _id: Id<'entities'>; name: string; aliases: string[] };
+
+const activityLabels = {
+  assigned: 'assigned this alert to',
+  unassigned: 'unassigned this alert',
+  resolved: 'resolved this alert',
+  dismissed: 'dismissed this alert',
+  reopened: 'reopened this alert',
+} as const;
+
+// Text between the last "@" and the caret, while the user is typing a mention.
+const MENTION_QUERY_PATTERN = /@([^\s@[\]]*)$/;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function renderBody(body: string, mentions: Mention[], projectId: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  for (const match of body.matchAll(ENTITY_MENTION_PATTERN)) {
+    const name = match[1].trim().toLowerCase();
+    const entity = mentions.find((mention) =>
+      [mention.name, ...mention.aliases].some((term) => term.toLowerCase() === name)
+    );
+    nodes.push(body.slice(last, match.index));
+    nodes.push(
+      entity ?
+        <Link
+          key={match.index}
+          to="/entities/$entityId"
+          params={{ entityId: entity._id }}
+          search={{ project: projectId }}
+          className="text-primary font-medium hover:underline"
+        >
+          @{match[1]}
+        </Link>
+      : `@${match[1]}`
+    );
+    last = match.index + match[0].length;
+  }
+  nodes.push(body.slice(last));
+  return nodes;
+}
+
+export function AlertDiscussion({
+  alertId,
+  projectId,
+  assignee,
+  canEdit,
+  currentUserId,
+}: AlertDiscussionProps) {
+  const entries = useQuery(api.alertComments.list, { alertId });
+  const assignees = useQuery(api.alerts.listAssignees, {
+    projectId: projectId as Id<'projects'>,
+  });
+  const assign = useMutation(api.alerts.assign);
+
+  async function handleAssign(value: string) {
+    try {
+      await assign({
+        id: alertId,
+        assigneeId: value === 'none' ? undefined : (value as Id<'users'>),
+      });
+    } catch (error) {
+      toast.error('Could not assign alert', { description: getErrorMessage(error) });
+    }
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <MessageSquare className="text-muted-foreground size-4" />
+            <h2 className="font-serif text-lg font-semibold">Discussion</h2>
+          </div>
+          <Select
+            value={(assignee?._id ?? 'none') as string}
+            onValueChange={(value) => void handleAssign(value as string)}
+            disabled={!canEdit}
+          >
+            <SelectTrigger className="h-9 w-52">
+              <UserRound className="text-muted-foreground size-4" />
+              <SelectValue>{assignee ? assignee.name : 'Unassigned'}</SelectValue>
+            </SelectTrigger>
+            <SelectContent align="end" alignItemWithTrigger={false}>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {assignees?.map((member) => (
+                <SelectItem key={member._id} value={member._id}>
+                  {member._id === currentUserId ? `${member.name} (you)` : member.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries === undefined ?
+          <div className="flex justify-center py-4">
+            <Loader2 className="text-muted-foreground size-5 animate-spin" />
+          </div>
+        : entries.length === 0 ?
+          <p className="text-muted-foreground text-sm italic">No comments yet.</p>
+        : <ol className="space-y-3">
+            {entries.map((entry) => (
+              <li key={entry._id}>
+                {entry.kind === 'comment' ?
+                  <CommentEntry
+                    entry={entry}
+                    projectId={projectId}
+                    canChange={canEdit && entry.userId === currentUserId}
+                  />
+                : <p className="text-muted-foreground flex items-center gap-1.5 text-xs">
+                    <Activity className="size-3" />
+                    <span>
+                      <span className="text-foreground font-medium">
+                        {entry.userName ?? 'A continuity check'}
+                      </span>{' '}
+                      {activityLabels[entry.kind]}
+                      {entry.kind === 'assigned' && (
+                        <span className="text-foreground font-medium">
+                          {' '}
+                          {entry.assigneeName ?? 'a former member'}
+                        </span>
+                      )}{' '}
+                      · {formatTime(entry.createdAt)}
+                    </span>
+                  </p>
+                }
+              </li>
+            ))}
+          </ol>
+        }
+        {canEdit && <CommentComposer alertId={alertId} projectId={projectId} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CommentEntry({
+  entry,
+  projectId,
+  canChange,
+}: {
+  entry: Doc<'alertComments'> & { userName: string | null; mentions: Mention[] };
+  projectId: string;
+  canChange: boolean;
+}) {
+  const updateComment = useMutation(api.alertComments.update);
+  const removeComment = useMutation(api.alertComments.remove);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  async function handleSave() {
+    if (draft === null) return;
+    try {
+      await updateComment({ id: entry._id, body: draft });
+      setDraft(null);
+    } catch (error) {
+      toast.error('Could not update comment', { description: getErrorMessage(error) });
+    }
+  }
+
+  async function handleRemove() {
+    try {
+      await removeComment({ id: entry._id });
+    } catch (error) {
+      toast.error('Could not delete comment', { description: getErrorMessage(error) });
+    }
+  }
+
+  return (
+    <div className="border-border/50 bg-muted/30 group rounded-lg border p-3">
+      <div className="mb-1 flex items-center justify-between gap-2">
+        <p className="text-xs">
+          <span className="font-medium">{entry.userName ?? 'Former member'}</span>
+          <span className="text-muted-foreground">
+            {' '}
+            · {formatTime(entry.createdAt)}
+            {entry.updatedAt !== undefined && ' (edited)'}
+          </span>
+        </p>
+        {canChange && draft === null && (
+          <div className="flex gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+            <Button
+              variant="ghost"
+              size="icon-xs"
+              onClick={() => setDraft(entry.body ?? '')}
+              aria-label="Edit comment"
+            >
+              <Pencil className="size-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon-xs"
+              onClick={() => void handleRemove()}
+              aria-label="Delete comment"
+            >
+              <Trash2 className="size-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+      {draft === null ?
+        <p className="text-sm whitespace-pre-wrap">
+          {renderBody(entry.body ?? '', entry.mentions, projectId).map((node, index) => (
+            <Fragment key={index}>{node}</Fragment>
+          ))}
+        </p>
+      : <div className="space-y-2">
+          <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={3} />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+              <X className="size-4" />
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => void handleSave()} disabled={!draft.trim()}>
+              <Check className="size-4" />
+              Save
+            </Button>
+          </div>
+        </div>
+      }
+    </div>
+  );
+}
+
+function CommentComposer({ alertId, projectId }: { alertId: Id<'alerts'>; projectId: string }) {
+  const entities = useQuery(api.entities.listByProject, {
+    projectId: projectId as Id<'projects'>,
+    status: 'confirmed',
+  });
+  const createComment = useMutation(api.alertComments.create);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [body, setBody] = useState('');
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const suggestions =
+    mentionQuery === null ?
+      []
+    : (entities ?? [])
+        .filter((entity) => entity.name.toLowerCase().includes(mentionQuery.toLowerCase()))
+        .slice(0, 6);
+
+  function updateMentionQuery(value: string, caret: number) {
+    const match = MENTION_QUERY_PATTERN.exec(value.slice(0, caret));
+    setMentionQuery(match ? match[1] : null);
+  }
+
+  function insertMention(name: string) {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(MENTION_QUERY_PATTERN, `@[${name}] `);
+    setBody(before + body.slice(caret));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  }
+
+  async function handleSubmit() {
+    if (!body.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await createComment({ alertId, body });
+      setBody('');
+      setMentionQuery(null);
+    } catch (error) {
+      toast.error('Could not add comment', { description: getErrorMessage(error) });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="relative space-y-2">
+      <Textarea
+        ref={textareaRef}
+        placeholder="Add a comment. Type @ to mention an entity..."
+        value={body}
+        onChange={(e) => {
+          setBody(e.target.value);
+          updateMentionQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setMentionQuery(null);
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) void handleSubmit();
+        }}
+        rows={3}
+      />
+      {suggestions.length > 0 && (
+        <ul className="bg-popover absolute z-10 w-64 rounded-md border p-1 shadow-md">
+          {suggestions.map((entity) => (
+            <li key={entity._id}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(entity.name);
+                }}
+                className="hover:bg-muted flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-left text-sm"
+              >
+                <span className="truncate">{entity.name}</span>
+                <span className="text-muted-foreground text-xs capitalize">{entity.type}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => void handleSubmit()}
+          disabled={isSubmitting || !body.trim()}
+        >
+          {isSubmitting && <Loader2 className="size-4 animate-spin" />}
+          Comment
+        </Button>
+      </div>
+    </div>
+  );
+}
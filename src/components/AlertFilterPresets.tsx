@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Bookmark, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import type { AlertFilterValues } from '../../convex/lib/alertFilters';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getErrorMessage } from '@/lib/errors';
+
+type AlertFilterPresetsProps = {
+  projectId: Id<'projects'>;
+  filters: AlertFilterValues;
+  onApply: (filters: AlertFilterValues) => void;
+};
+
+export function AlertFilterPresets({ projectId, filters, onApply }: AlertFilterPresetsProps) {
+  const presets = useQuery(api.alertFilterPresets.list, { projectId });
+  const savePreset = useMutation(api.alertFilterPresets.save);
+  const removePreset = useMutation(api.alertFilterPresets.remove);
+  const [activeId, setActiveId] = useState<Id<'alertFilterPresets'> | null>(null);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const active = presets?.find((preset) => preset._id === activeId);
+
+  async function handleSave() {
+    try {
+      const id = await savePreset({ projectId, name, filters });
+      setActiveId(id);
+      setSaveOpen(false);
+      toast.success('Filters saved');
+    } catch (error) {
+      toast.error('Could not save filters', { description: getErrorMessage(error) });
+    }
+  }
+
+  async function handleRemove(id: Id<'alertFilterPresets'>) {
+    try {
+      await removePreset({ id });
+      setActiveId(null);
+    } catch (error) {
+      toast.error('Could not delete preset', { description: getErrorMessage(error) });
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={(activeId ?? 'none') as string}
+        onValueChange={(value) => {
+          const preset = presets?.find((candidate) => candidate._id === value);
+          if (!preset) return;
+          setActiveId(preset._id);
+          onApply(preset.filters);
+        }}
+      >
+        <SelectTrigger className="h-8 w-44 text-xs" disabled={!presets?.length}>
+          <SelectValue>{active?.name ?? 'Saved filters'}</SelectValue>
+        </SelectTrigger>
+        <SelectContent align="start" alignItemWithTrigger={false}>
+          {presets?.map((preset) => (
+            <SelectItem key={preset._id} value={preset._id}>
+              {preset.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {active && (
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => void handleRemove(active._id)}
+          aria-label={`Delete ${active.name}`}
+        >
+          <Trash2 className="size-4" />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          setName(active?.name ?? '');
+          setSaveOpen(true);
+        }}
+      >
+        <Bookmark className="mr-1.5 size-4" />
+        Save Filters
+      </Button>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save Filters</DialogTitle>
+            <DialogDescription>
+              Saved filters are private to you. Saving under an existing name replaces it.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            placeholder="e.g. My timeline errors"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && name.trim()) void handleSave();
+            }}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => void handleSave()} disabled={!name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -6,24 +6,44 @@ import {
   CheckCircle,
   XCircle,
   Layers,
+  UserRound,
+  Users,
 } from 'lucide-react';
+import type { Id } from '../../convex/_generated/dataModel';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { cn } from '@/lib/utils';
 
 type AlertType = 'contradiction' | 'timeline' | 'ambiguity';
 type AlertSeverity = 'error' | 'warning';
 type AlertStatus = 'open' | 'resolved' | 'dismissed';
+type AlertAssignee = 'all' | 'me';
 
 type AlertFiltersProps = {
   statusFilter: AlertStatus | 'all';
   typeFilter: AlertType | 'all';
   severityFilter: AlertSeverity | 'all';
+  assigneeFilter: AlertAssignee;
+  documentFilter: Id<'documents'> | 'all';
+  entityFilter: Id<'entities'> | 'all';
+  documents?: Array<{ _id: Id<'documents'>; title: string }>;
+  entities?: Array<{ _id: Id<'entities'>; name: string }>;
   onStatusChange: (value: AlertStatus | 'all') => void;
   onTypeChange: (value: AlertType | 'all') => void;
   onSeverityChange: (value: AlertSeverity | 'all') => void;
+  onAssigneeChange: (value: AlertAssignee) => void;
+  onDocumentChange: (value: Id<'documents'> | 'all') => void;
+  onEntityChange: (value: Id<'entities'> | 'all') => void;
   counts?: {
     status: Record<AlertStatus | 'all', number>;
     type: Record<AlertType | 'all', number>;
     severity: Record<AlertSeverity | 'all', number>;
+    assignee: Record<AlertAssignee, number>;
   };
 };
 
@@ -58,17 +78,37 @@ const severityOptions: Array<{
   { value: 'warning', label: 'Warnings' },
 ];
 
+const assigneeOptions: Array<{
+  value: AlertAssignee;
+  label: string;
+  icon: typeof Layers;
+}> = [
+  { value: 'all', label: 'Everyone', icon: Users },
+  { value: 'me', label: 'Assigned to me', icon: UserRound },
+];
+
 export function AlertFilters({
   statusFilter,
   typeFilter,
   severityFilter,
+  assigneeFilter,
+  documentFilter,
+  entityFilter,
+  documents,
+  entities,
   onStatusChange,
   onTypeChange,
   onSeverityChange,
+  onAssigneeChange,
+  onDocumentChange,
+  onEntityChange,
   counts,
 }: AlertFiltersProps) {
+  const selectedDocument = documents?.find((doc) => doc._id === documentFilter);
+  const selectedEntity = entities?.find((entity) => entity._id === entityFilter);
+
   return (
-    <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+    <div className="flex flex-col flex-wrap gap-3 sm:flex-row sm:items-center">
       <div className="bg-muted/50 flex flex-wrap gap-1 rounded-lg p-1">
         {statusOptions.map((option) => {
           const Icon = option.icon;
@@ -150,6 +190,74 @@ export function AlertFilters({
           );
         })}
       </div>
+
+      <div className="bg-muted/50 flex flex-wrap gap-1 rounded-lg p-1">
+        {assigneeOptions.map((option) => {
+          const Icon = option.icon;
+          const isActive = assigneeFilter === option.value;
+          const count = option.value === 'me' ? counts?.assignee.me : undefined;
+
+          return (
+            <button
+              key={option.value}
+              type="button"
+              data-active={isActive}
+              onClick={() => onAssigneeChange(option.value)}
+              className={cn(
+                'text-muted-foreground hover:text-foreground flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-xs font-medium transition-all',
+                'data-[active=true]:bg-primary/10 data-[active=true]:text-primary'
+              )}
+            >
+              <Icon className="size-3.5" />
+              <span>{option.label}</span>
+              {count !== undefined && count > 0 && (
+                <span
+                  className={cn(
+                    'bg-muted text-muted-foreground rounded-full px-1.5 py-0.5 text-[10px] tabular-nums',
+                    isActive && 'bg-background/50'
+                  )}
+                >
+                  {count}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <Select
+        value={documentFilter as string}
+        onValueChange={(value) => onDocumentChange(value as Id<'documents'> | 'all')}
+      >
+        <SelectTrigger className="h-8 w-44 text-xs">
+          <SelectValue>{selectedDocument?.title ?? 'All documents'}</SelectValue>
+        </SelectTrigger>
+        <SelectContent align="start" alignItemWithTrigger={false}>
+          <SelectItem value="all">All documents</SelectItem>
+          {documents?.map((doc) => (
+            <SelectItem key={doc._id} value={doc._id}>
+              {doc.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={entityFilter as string}
+        onValueChange={(value) => onEntityChange(value as Id<'entities'> | 'all')}
+      >
+        <SelectTrigger className="h-8 w-44 text-xs">
+          <SelectValue>{selectedEntity?.name ?? 'All entities'}</SelectValue>
+        </SelectTrigger>
+        <SelectContent align="start" alignItemWithTrigger={false}>
+          <SelectItem value="all">All entities</SelectItem>
+          {entities?.map((entity) => (
+            <SelectItem key={entity._id} value={entity._id}>
+              {entity.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
     </div>
   );
 }
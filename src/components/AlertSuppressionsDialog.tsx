@@ -0,0 +1,105 @@
+import { useMutation, useQuery } from 'convex/react';
+import { Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getErrorMessage } from '@/lib/errors';
+
+type AlertSuppressionsDialogProps = {
+  projectId: Id<'projects'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canEdit: boolean;
+};
+
+export function AlertSuppressionsDialog({
+  projectId,
+  open,
+  onOpenChange,
+  canEdit,
+}: AlertSuppressionsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[85vh] flex-col sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Ignored Rules</DialogTitle>
+          <DialogDescription>
+            Checks skip these rules for the listed entities. Remove one to see its alerts again on
+            the next check.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <SuppressionList projectId={projectId} canEdit={canEdit} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SuppressionList({ projectId, canEdit }: { projectId: Id<'projects'>; canEdit: boolean }) {
+  const suppressions = useQuery(api.alerts.listSuppressions, { projectId });
+  const removeSuppression = useMutation(api.alerts.removeSuppression);
+
+  async function handleRemove(id: Id<'alertSuppressions'>) {
+    try {
+      await removeSuppression({ id });
+    } catch (error) {
+      toast.error('Could not remove rule', { description: getErrorMessage(error) });
+    }
+  }
+
+  if (suppressions === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="text-muted-foreground size-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (suppressions.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm italic">
+        No rules are ignored. Use "Ignore Rule for These Entities" on an alert to add one.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="min-h-0 space-y-2 overflow-y-auto">
+      {suppressions.map((suppression) => (
+        <li
+          key={suppression._id}
+          className="flex items-center justify-between gap-3 rounded-lg border p-3"
+        >
+          <div className="min-w-0 space-y-1">
+            <p className="text-sm font-medium">{suppression.ruleLabel}</p>
+            <div className="flex flex-wrap gap-1">
+              {suppression.entityNames.map((name) => (
+                <Badge key={name} variant="outline" className="font-normal">
+                  {name}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          {canEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => void handleRemove(suppression._id)}
+              aria-label={`Stop ignoring ${suppression.ruleLabel}`}
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Link, useRouterState, useParams, useNavigate, useSearch } from '@tanstack/react-router';
 import { useQuery } from 'convex/react';
 import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
 import { useConvexAuth } from 'convex/react';
 import { useAuthActions } from '@convex-dev/auth/react';
 import {
@@ -25,6 +26,7 @@ import {
   Home,
   StickyNote,
   Settings,
+  Eye,
 } from 'lucide-react';
 import { VellumButton } from '@/components/Vellum';
 import { RecentProjects } from '@/components/RecentProjects';
@@ -73,6 +75,11 @@ export function AppSidebar({ collapsed, onToggle }: AppSidebarProps) {
 
   // projectId from route params OR search params (for entity detail page)
   const projectId = params.projectId ?? search.project;
+  const projectRole = useQuery(
+    api.projects.getRole,
+    isAuthenticated && projectId ? { id: projectId as Id<'projects'> } : 'skip'
+  );
+  const isPlayer = projectRole === 'player';
 
   const [theme, setTheme] = useState<Theme>('default');
   const [mounted, setMounted] = useState(false);
@@ -151,10 +158,18 @@ export function AppSidebar({ collapsed, onToggle }: AppSidebarProps) {
 
             {!collapsed && (
               <p className="text-muted-foreground mb-2 px-3 font-mono text-[10px] tracking-widest uppercase">
-                Project Tools
+                {isPlayer ? 'Player Wiki' : 'Project Tools'}
               </p>
             )}
 
+            <ProjectNavItem projectId={projectId} to="player" icon={Eye} collapsed={collapsed}>
+              Player View
+            </ProjectNavItem>
+          </>
+        )}
+
+        {isAuthenticated && projectId && projectRole && !isPlayer && (
+          <>
             <ProjectNavItem projectId={projectId} to="canon" icon={BookOpen} collapsed={collapsed}>
               Canon Browser
             </ProjectNavItem>
@@ -356,7 +371,7 @@ function NavItem({ to, icon: Icon, children, collapsed }: NavItemProps) {
 
 type ProjectNavItemProps = {
   projectId: string;
-  to: 'documents' | 'canon' | 'entities' | 'facts' | 'alerts' | 'review' | 'notes';
+  to: 'documents' | 'canon' | 'entities' | 'facts' | 'alerts' | 'review' | 'notes' | 'player';
   icon: React.ComponentType<{ className?: string }>;
   children: React.ReactNode;
   collapsed: boolean;
@@ -371,6 +386,7 @@ const projectRoutes = {
   alerts: '/projects/$projectId/alerts',
   review: '/projects/$projectId/review',
   notes: '/projects/$projectId/notes',
+  player: '/projects/$projectId/player',
 } as const;
 
 function ProjectNavItem({
@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import type { AttributeDataType, AttributeField } from '../../convex/lib/attributes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getErrorMessage } from '@/lib/errors';
+import type { EntityType } from '@/lib/entityTypes';
+
+const DATA_TYPES: Array<{ value: AttributeDataType; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'date', label: 'Date' },
+  { value: 'enum', label: 'Choice' },
+];
+
+type AttributeTemplateDialogProps = {
+  projectId: Id<'projects'>;
+  entityType: EntityType;
+  customTypeId?: Id<'entityTypes'>;
+  typeLabel: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function AttributeTemplateDialog({
+  projectId,
+  entityType,
+  customTypeId,
+  typeLabel,
+  open,
+  onOpenChange,
+}: AttributeTemplateDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{typeLabel} Template</DialogTitle>
+          <DialogDescription>
+            Fields shown in the infobox of every {typeLabel.toLowerCase()}. Vellum fills them in
+            during extraction.
+          </DialogDescription>
+        </DialogHeader>
+        {open && (
+          <TemplateEditor
+            projectId={projectId}
+            entityType={entityType}
+            customTypeId={customTypeId}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type TemplateEditorProps = {
+  projectId: Id<'projects'>;
+  entityType: EntityType;
+  customTypeId?: Id<'entityTypes'>;
+  onDone: () => void;
+};
+
+function TemplateEditor({ projectId, entityType, customTypeId, onDone }: TemplateEditorProps) {
+  const template = useQuery(api.attributes.getTemplate, { projectId, entityType, customTypeId });
+
+  if (template === undefined) {
+    return <p className="text-muted-foreground text-sm">Loading...</p>;
+  }
+  if (template === null) {
+    return <p className="text-muted-foreground text-sm">Template unavailable.</p>;
+  }
+
+  return (
+    <TemplateForm
+      projectId={projectId}
+      entityType={entityType}
+      customTypeId={customTypeId}
+      initialFields={template.fields}
+      isCustomized={template.isCustomized}
+      onDone={onDone}
+    />
+  );
+}
+
+type DraftField = { key: string; label: string; dataType: AttributeDataType; options: string };
+
+function toDraft(field: AttributeField): DraftField {
+  return { ...field, options: (field.options ?? []).join(', ') };
+}
+
+type TemplateFormProps = Omit<TemplateEditorProps, 'onDone'> & {
+  initialFields: AttributeField[];
+  isCustomized: boolean;
+  onDone: () => void;
+};
+
+function TemplateForm({
+  projectId,
+  entityType,
+  customTypeId,
+  initialFields,
+  isCustomized,
+  onDone,
+}: TemplateFormProps) {
+  const setTemplate = useMutation(api.attributes.setTemplate);
+  const resetTemplate = useMutation(api.attributes.resetTemplate);
+
+  const [fields, setFields] = useState<DraftField[]>(() => initialFields.map(toDraft));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function updateField(index: number, patch: Partial<DraftField>) {
+    setFields((current) => current.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  }
+
+  async function handleSave() {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await setTemplate({
+        projectId,
+        entityType,
+        customTypeId,
+        fields: fields.map((field) => ({
+          key: field.key,
+          label: field.label,
+          dataType: field.dataType,
+          options:
+            field.dataType === 'enum' ?
+              field.options
+                .split(',')
+                .map((o) => o.trim())
+                .filter(Boolean)
+            : undefined,
+        })),
+      });
+      toast.success('Template saved');
+      onDone();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleReset() {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await resetTemplate({ projectId, entityType, customTypeId });
+      toast.success('Template reset to defaults');
+      onDone();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-destructive/10 text-destructive rounded-lg p-3 text-sm">{error}</div>
+      )}
+
+      {fields.length === 0 ?
+        <p className="text-muted-foreground text-sm">No fields. Add one below.</p>
+      : <ul className="space-y-2">
+          {fields.map((field, index) => (
+            <li key={index} className="space-y-2 rounded-lg border p-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={field.label}
+                  onChange={(e) => updateField(index, { label: e.target.value })}
+                  placeholder="Field name"
+                  aria-label="Field name"
+                  disabled={isSaving}
+                  className="h-8 flex-1"
+                />
+                <Select
+                  value={field.dataType}
+                  onValueChange={(val) =>
+                    updateField(index, { dataType: val as AttributeDataType })
+                  }
+                  disabled={isSaving}
+                >
+                  <SelectTrigger className="h-8 w-28" aria-label="Data type">
+                    <SelectValue>
+                      {(value) => DATA_TYPES.find((option) => option.value === value)?.label}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATA_TYPES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setFields((current) => current.filter((_, i) => i !== index))}
+                  disabled={isSaving}
+                  aria-label={`Remove ${field.label || 'field'}`}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+              {field.dataType === 'enum' && (
+                <Input
+                  value={field.options}
+                  onChange={(e) => updateField(index, { options: e.target.value })}
+                  placeholder="Options, separated by commas"
+                  aria-label="Options"
+                  disabled={isSaving}
+                  className="h-8"
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      }
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          setFields((current) => [
+            ...current,
+            { key: '', label: '', dataType: 'text', options: '' },
+          ])
+        }
+        disabled={isSaving}
+      >
+        <Plus className="mr-1 size-4" />
+        Add Field
+      </Button>
+
+      <DialogFooter>
+        {isCustomized && (
+          <Button variant="ghost" onClick={handleReset} disabled={isSaving} className="mr-auto">
+            <RotateCcw className="mr-1 size-4" />
+            Reset
+          </Button>
+        )}
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-1 size-4 animate-spin" />}
+          Save Template
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Loader2, Pencil, Plus, Star, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getErrorMessage } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+
+type CalendarManagerProps = {
+  projectId: Id<'projects'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function CalendarManager({ projectId, open, onOpenChange }: CalendarManagerProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Calendars</DialogTitle>
+          <DialogDescription>
+            Teach Vellum how time works in your world. Dates in facts are read against these
+            calendars to order the timeline.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <CalendarPanel projectId={projectId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type DraftMonth = { name: string; days: string };
+type DraftEra = { name: string; abbreviation: string; startYear: string; countsBackward: boolean };
+
+function CalendarPanel({ projectId }: { projectId: Id<'projects'> }) {
+  const calendars = useQuery(api.calendars.list, { projectId });
+  const createCalendar = useMutation(api.calendars.create);
+  const updateCalendar = useMutation(api.calendars.update);
+  const removeCalendar = useMutation(api.calendars.remove);
+
+  const [editingId, setEditingId] = useState<Id<'calendars'> | null>(null);
+  const [name, setName] = useState('');
+  const [daysPerYear, setDaysPerYear] = useState('365');
+  const [months, setMonths] = useState<DraftMonth[]>([]);
+  const [eras, setEras] = useState<DraftEra[]>([]);
+  const [epochOffset, setEpochOffset] = useState('0');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const monthDays = months.reduce((sum, month) => sum + (Number(month.days) || 0), 0);
+
+  function resetForm() {
+    setEditingId(null);
+    setName('');
+    setDaysPerYear('365');
+    setMonths([]);
+    setEras([]);
+    setEpochOffset('0');
+    setError(null);
+  }
+
+  function startEditing(calendar: Doc<'calendars'>) {
+    setEditingId(calendar._id);
+    setName(calendar.name);
+    setDaysPerYear(String(calendar.daysPerYear));
+    setMonths(calendar.months.map((month) => ({ name: month.name, days: String(month.days) })));
+    setEras(
+      calendar.eras.map((era) => ({
+        name: era.name,
+        abbreviation: era.abbreviation ?? '',
+        startYear: String(era.startYear),
+        countsBackward: era.countsBackward ?? false,
+      }))
+    );
+    setEpochOffset(String(calendar.epochOffset));
+    setError(null);
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setIsSaving(true);
+
+    try {
+      const fields = {
+        name: name.trim(),
+        daysPerYear: months.length > 0 ? monthDays : Number(daysPerYear),
+        months: months.map((month) => ({ name: month.name, days: Number(month.days) })),
+        eras: eras.map((era) => ({
+          name: era.name,
+          abbreviation: era.abbreviation.trim() || undefined,
+          startYear: Number(era.startYear),
+          countsBackward: era.countsBackward || undefined,
+        })),
+        epochOffset: Number(epochOffset) || 0,
+      };
+      if (editingId) {
+        await updateCalendar({ id: editingId, ...fields });
+        toast.success('Calendar updated', { description: fields.name });
+      } else {
+        await createCalendar({ projectId, ...fields });
+        toast.success('Calendar created', { description: fields.name });
+      }
+      resetForm();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleMakeDefault(calendar: Doc<'calendars'>) {
+    try {
+      await updateCalendar({ id: calendar._id, isDefault: true });
+    } catch (err) {
+      toast.error('Failed to change default calendar', { description: getErrorMessage(err) });
+    }
+  }
+
+  async function handleRemove(calendar: Doc<'calendars'>) {
+    try {
+      await removeCalendar({ id: calendar._id });
+      if (editingId === calendar._id) resetForm();
+      toast.success('Calendar deleted', { description: calendar.name });
+    } catch (err) {
+      toast.error('Failed to delete calendar', { description: getErrorMessage(err) });
+    }
+  }
+
+  function updateMonth(index: number, patch: Partial<DraftMonth>) {
+    setMonths((current) => current.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+  }
+
+  function updateEra(index: number, patch: Partial<DraftEra>) {
+    setEras((current) => current.map((era, i) => (i === index ? { ...era, ...patch } : era)));
+  }
+
+  return (
+    <div className="space-y-4">
+      {calendars === undefined ?
+        <p className="text-muted-foreground text-sm">Loading...</p>
+      : calendars.length === 0 ?
+        <p className="text-muted-foreground text-sm">
+          No calendars yet. Plain years are read as 365-day years.
+        </p>
+      : <ul className="divide-border divide-y rounded-lg border">
+          {calendars.map((calendar) => (
+            <li key={calendar._id} className="flex items-center gap-3 p-2">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <p className="truncate text-sm font-medium">{calendar.name}</p>
+                  {calendar.isDefault && (
+                    <Badge variant="secondary" className="h-5 px-1.5 text-xs font-normal">
+                      Default
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-muted-foreground truncate text-xs">
+                  {calendar.daysPerYear} days
+                  {calendar.months.length > 0 && ` · ${calendar.months.length} months`}
+                  {calendar.eras.length > 0 &&
+                    ` · ${calendar.eras.map((era) => era.abbreviation ?? era.name).join(', ')}`}
+                </p>
+              </div>
+              {!calendar.isDefault && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleMakeDefault(calendar)}
+                  aria-label={`Make ${calendar.name} the default`}
+                  title="Make default"
+                >
+                  <Star className="size-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => startEditing(calendar)}
+                aria-label={`Edit ${calendar.name}`}
+              >
+                <Pencil className="size-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemove(calendar)}
+                aria-label={`Delete ${calendar.name}`}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      }
+
+      <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-3">
+        {error && (
+          <div className="bg-destructive/10 text-destructive rounded-lg p-3 text-sm">{error}</div>
+        )}
+        <div className="grid grid-cols-[1fr_7rem] gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="calendarName">Name</Label>
+            <Input
+              id="calendarName"
+              placeholder="Reckoning of the Realm"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calendarDays">Days per year</Label>
+            <Input
+              id="calendarDays"
+              type="number"
+              min={1}
+              value={months.length > 0 ? String(monthDays) : daysPerYear}
+              onChange={(e) => setDaysPerYear(e.target.value)}
+              disabled={isSaving || months.length > 0}
+              title={months.length > 0 ? 'Set by the months below' : undefined}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Months</Label>
+          {months.map((month, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={month.name}
+                onChange={(e) => updateMonth(index, { name: e.target.value })}
+                placeholder="Frostmoon"
+                aria-label="Month name"
+                disabled={isSaving}
+                className="h-8 flex-1"
+              />
+              <Input
+                type="number"
+                min={1}
+                value={month.days}
+                onChange={(e) => updateMonth(index, { days: e.target.value })}
+                aria-label="Days"
+                disabled={isSaving}
+                className="h-8 w-20"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setMonths((current) => current.filter((_, i) => i !== index))}
+                disabled={isSaving}
+                aria-label={`Remove ${month.name || 'month'}`}
+              >
+                <X className="size-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setMonths((current) => [...current, { name: '', days: '30' }])}
+            disabled={isSaving}
+          >
+            <Plus className="size-4" />
+            Add Month
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Eras</Label>
+          {eras.map((era, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={era.name}
+                onChange={(e) => updateEra(index, { name: e.target.value })}
+                placeholder="After Reckoning"
+                aria-label="Era name"
+                disabled={isSaving}
+                className="h-8 flex-1"
+              />
+              <Input
+                value={era.abbreviation}
+                onChange={(e) => updateEra(index, { abbreviation: e.target.value })}
+                placeholder="AR"
+                aria-label="Abbreviation"
+                disabled={isSaving}
+                className="h-8 w-16"
+              />
+              <Input
+                type="number"
+                value={era.startYear}
+                onChange={(e) => updateEra(index, { startYear: e.target.value })}
+                aria-label="Starts at year"
+                title="Absolute year this era begins (or ends, when counting backward)"
+                disabled={isSaving}
+                className="h-8 w-20"
+              />
+              <button
+                type="button"
+                onClick={() => updateEra(index, { countsBackward: !era.countsBackward })}
+                aria-pressed={era.countsBackward}
+                disabled={isSaving}
+                className={cn(
+                  'h-8 shrink-0 rounded-md px-2 text-xs font-medium transition-colors',
+                  era.countsBackward ?
+                    'bg-primary/10 text-primary'
+                  : 'bg-muted text-muted-foreground hover:text-foreground'
+                )}
+                title="Years count down toward the start of the next era"
+              >
+                Backward
+              </button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setEras((current) => current.filter((_, i) => i !== index))}
+                disabled={isSaving}
+                aria-label={`Remove ${era.name || 'era'}`}
+              >
+                <X className="size-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setEras((current) => [
+                ...current,
+                { name: '', abbreviation: '', startYear: '0', countsBackward: false },
+              ])
+            }
+            disabled={isSaving}
+          >
+            <Plus className="size-4" />
+            Add Era
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="calendarEpoch">Epoch offset (days)</Label>
+          <Input
+            id="calendarEpoch"
+            type="number"
+            value={epochOffset}
+            onChange={(e) => setEpochOffset(e.target.value)}
+            disabled={isSaving}
+            className="w-32"
+          />
+          <p className="text-muted-foreground text-xs">
+            Shifts every date in this calendar, to line it up with your other calendars.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button type="button" variant="ghost" onClick={resetForm} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={isSaving || !name.trim()}>
+            {isSaving ?
+              <Loader2 className="size-4 animate-spin" />
+            : !editingId && <Plus className="size-4" />}
+            {editingId ? 'Save Calendar' : 'Add Calendar'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
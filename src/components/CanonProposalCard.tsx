@@ -0,0 +1,132 @@
+import { Check, X, Quote, ArrowRight } from 'lucide-react';
+import { Card, CardHeader, CardAction } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+
+type Proposal = Doc<'canonProposals'> & {
+  entityName: string | null;
+  currentDescription: string | null;
+  proposedByName: string | null;
+  replacedFact: { predicate: string; object: string } | null;
+};
+
+type CanonProposalCardProps = {
+  proposal: Proposal;
+  onConfirm: (id: Id<'canonProposals'>) => void;
+  onReject: (id: Id<'canonProposals'>) => void;
+};
+
+const changeLabels: Record<Proposal['change']['type'], string> = {
+  fact: 'New fact',
+  description: 'New description',
+  aliases: 'New aliases',
+};
+
+function formatPredicate(predicate: string): string {
+  return predicate.replace(/_/g, ' ');
+}
+
+function ProposedChange({ proposal }: { proposal: Proposal }) {
+  const { change } = proposal;
+
+  if (change.type === 'fact') {
+    return (
+      <div className="space-y-1.5 text-sm leading-relaxed">
+        {proposal.replacedFact && (
+          <div className="text-muted-foreground flex flex-wrap items-center gap-2 line-through">
+            <span className="italic">{formatPredicate(proposal.replacedFact.predicate)}</span>
+            <ArrowRight className="size-3.5" />
+            <span>{proposal.replacedFact.object}</span>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-predicate italic">{formatPredicate(change.predicate)}</span>
+          <ArrowRight className="text-muted-foreground/70 size-3.5" />
+          <span className="text-foreground font-medium">{change.object}</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (change.type === 'description') {
+    return (
+      <div className="space-y-1.5 text-sm leading-relaxed">
+        {proposal.currentDescription && (
+          <p className="text-muted-foreground line-clamp-2 line-through">
+            {proposal.currentDescription}
+          </p>
+        )}
+        <p className="text-foreground">{change.description}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {change.aliases.map((alias) => (
+        <Badge key={alias} variant="secondary">
+          {alias}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+export function CanonProposalCard({ proposal, onConfirm, onReject }: CanonProposalCardProps) {
+  return (
+    <Card className="group hover:border-primary/50 hover:ring-primary/20 h-full w-full transition-all duration-200 hover:shadow-md hover:ring-1">
+      <CardHeader className="p-4">
+        <div className="flex items-start gap-4">
+          <div className="min-w-0 flex-1 space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-foreground bg-secondary/50 rounded-md px-1.5 py-0.5 font-serif font-medium">
+                {proposal.entityName ?? 'Unknown entity'}
+              </span>
+              <Badge variant="outline" className="h-5 px-1.5 text-[10px] font-normal">
+                {changeLabels[proposal.change.type]}
+              </Badge>
+            </div>
+
+            <ProposedChange proposal={proposal} />
+
+            {proposal.reason && (
+              <div className="border-border/50 bg-muted/30 relative rounded-lg border p-3 pl-9">
+                <Quote className="text-muted-foreground/50 absolute top-3 left-3 size-3.5" />
+                <p className="text-muted-foreground line-clamp-3 text-xs leading-relaxed">
+                  {proposal.reason}
+                </p>
+              </div>
+            )}
+
+            <p className="text-muted-foreground text-xs">
+              Suggested in chat{proposal.proposedByName ? ` with ${proposal.proposedByName}` : ''} ·{' '}
+              {new Date(proposal.createdAt).toLocaleDateString()}
+            </p>
+          </div>
+
+          <CardAction className="flex shrink-0 gap-1 opacity-80 transition-opacity group-hover:opacity-100">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-muted-foreground size-8 p-0 hover:bg-green-500/10 hover:text-green-600 dark:hover:text-green-400"
+              onClick={() => onConfirm(proposal._id)}
+              title="Apply change"
+            >
+              <Check className="size-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-muted-foreground hover:bg-destructive/10 hover:text-destructive size-8 p-0"
+              onClick={() => onReject(proposal._id)}
+              title="Discard change"
+            >
+              <X className="size-4" />
+            </Button>
+          </CardAction>
+        </div>
+      </CardHeader>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { MessageSquarePlus, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { getErrorMessage } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+
+type ChatThreadListProps = {
+  activeThreadId?: Id<'chatThreads'>;
+  onSelect: (threadId: Id<'chatThreads'>) => void;
+  onNew: () => void;
+  onDeleted: (threadId: Id<'chatThreads'>) => void;
+};
+
+type ThreadTarget = { id: Id<'chatThreads'>; title: string };
+
+export function ChatThreadList({
+  activeThreadId,
+  onSelect,
+  onNew,
+  onDeleted,
+}: ChatThreadListProps) {
+  const threads = useQuery(api.chatHistory.listThreads);
+  const renameThread = useMutation(api.chatHistory.renameThread);
+  const removeThread = useMutation(api.chatHistory.removeThread);
+  const [renaming, setRenaming] = useState<ThreadTarget | null>(null);
+  const [deleting, setDeleting] = useState<ThreadTarget | null>(null);
+  const [title, setTitle] = useState('');
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    try {
+      await renameThread({ id: renaming.id, title });
+      setRenaming(null);
+    } catch (error) {
+      toast.error('Failed to rename conversation', { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await removeThread({ id: deleting.id });
+      onDeleted(deleting.id);
+      toast.success('Conversation deleted');
+    } catch (error) {
+      toast.error('Failed to delete conversation', { description: getErrorMessage(error) });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="p-3">
+        <Button variant="outline" className="w-full justify-start" onClick={onNew}>
+          <MessageSquarePlus className="mr-2 size-4" />
+          New conversation
+        </Button>
+      </div>
+
+      <nav className="flex-1 space-y-0.5 overflow-y-auto px-2 pb-3" aria-label="Conversations">
+        {threads?.length === 0 && (
+          <p className="text-muted-foreground px-2 py-4 text-center text-xs">
+            No conversations yet.
+          </p>
+        )}
+        {threads?.map((thread) => (
+          <div
+            key={thread._id}
+            className={cn(
+              'group flex items-center gap-1 rounded-lg pr-1 transition-colors',
+              thread._id === activeThreadId ? 'bg-primary/10 text-primary' : 'hover:bg-muted'
+            )}
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(thread._id)}
+              className="min-w-0 flex-1 px-3 py-2 text-left"
+            >
+              <p className="truncate text-sm">{thread.title}</p>
+              <p className="text-muted-foreground truncate text-xs">
+                {thread.projectName ?? (thread.projectId ? 'Unavailable project' : 'General')} ·{' '}
+                {new Date(thread.updatedAt).toLocaleDateString(undefined, {
+                  month: 'short',
+                  day: 'numeric',
+                })}
+              </p>
+            </button>
+            <DropdownMenu>
+              <DropdownMenuTrigger
+                aria-label={`Actions for ${thread.title}`}
+                className={cn(
+                  buttonVariants({ variant: 'ghost', size: 'icon' }),
+                  'size-7 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[popup-open]:opacity-100'
+                )}
+              >
+                <MoreHorizontal className="size-4" />
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem
+                  onClick={() => {
+                    setTitle(thread.title);
+                    setRenaming({ id: thread._id, title: thread.title });
+                  }}
+                >
+                  <Pencil className="size-4" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  variant="destructive"
+                  onClick={() => setDeleting({ id: thread._id, title: thread.title })}
+                >
+                  <Trash2 className="size-4" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        ))}
+      </nav>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleRename} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Rename conversation</DialogTitle>
+            </DialogHeader>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={100}
+              aria-label="Conversation title"
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!title.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {`"${deleting?.title ?? ''}" and all of its messages will be permanently deleted.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction variant="destructive" onClick={handleDelete}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { useAction, useQuery } from 'convex/react';
+import { AlertCircle, CheckCircle, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import { compareCheckRuns, type CheckIssue } from '../../convex/lib/checkRuns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getErrorMessage } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+
+type CheckHistoryDialogProps = {
+  documentId: Id<'documents'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canRun: boolean;
+};
+
+export function CheckHistoryDialog({
+  documentId,
+  open,
+  onOpenChange,
+  canRun,
+}: CheckHistoryDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[85vh] flex-col sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Check History</DialogTitle>
+          <DialogDescription>
+            Every continuity check of this document. Re-run a check or compare two runs.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <CheckHistoryPanel documentId={documentId} canRun={canRun} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type CheckRun = Doc<'checkRuns'> & { requestedByName: string | null };
+
+const triggerLabels = {
+  extraction: 'After extraction',
+  manual: 'Manual',
+} as const;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function CheckRunStatus({ run }: { run: CheckRun }) {
+  if (run.status === 'running') {
+    return <Loader2 className="text-muted-foreground size-4 animate-spin" />;
+  }
+  if (run.status === 'failed') {
+    return <AlertCircle className="text-destructive size-4" />;
+  }
+  return run.summary?.totalIssues ?
+      <AlertCircle className="size-4 text-amber-500" />
+    : <CheckCircle className="size-4 text-green-600 dark:text-green-400" />;
+}
+
+function CheckHistoryPanel({
+  documentId,
+  canRun,
+}: {
+  documentId: Id<'documents'>;
+  canRun: boolean;
+}) {
+  const runs = useQuery(api.checkRuns.listByDocument, { documentId });
+  const triggerCheck = useAction(api.checks.triggerCheck);
+  const [selectedId, setSelectedId] = useState<Id<'checkRuns'> | null>(null);
+  const [compareId, setCompareId] = useState<Id<'checkRuns'> | 'none'>('none');
+  const [isRunning, setIsRunning] = useState(false);
+
+  const selected = runs?.find((run) => run._id === selectedId) ?? runs?.[0];
+  const compareTarget = runs?.find((run) => run._id === compareId);
+  const comparable = (runs ?? []).filter(
+    (run) => run.status === 'completed' && run._id !== selected?._id
+  );
+
+  async function handleRerun() {
+    setIsRunning(true);
+    try {
+      const result = await triggerCheck({ documentId });
+      setSelectedId(null);
+      toast.success('Check complete', {
+        description:
+          result.summary.totalIssues === 0 ?
+            'No new continuity issues found.'
+          : `Found ${result.summary.totalIssues} issue${result.summary.totalIssues === 1 ? '' : 's'}.`,
+      });
+    } catch (error) {
+      toast.error('Check failed', { description: getErrorMessage(error) });
+    } finally {
+      setIsRunning(false);
+    }
+  }
+
+  if (runs === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="text-muted-foreground size-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const rerunButton = canRun && (
+    <Button variant="outline" size="sm" onClick={() => void handleRerun()} disabled={isRunning}>
+      {isRunning ?
+        <Loader2 className="size-4 animate-spin" />
+      : <RotateCcw className="size-4" />}
+      Re-run check
+    </Button>
+  );
+
+  if (runs.length === 0 || !selected) {
+    return (
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-muted-foreground text-sm italic">
+          This document has not been checked yet. Checks run after each extraction.
+        </p>
+        {rerunButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid min-h-0 flex-1 gap-4 md:grid-cols-[14rem_1fr]">
+      <ol className="min-h-0 space-y-1 overflow-y-auto">
+        {runs.map((run) => (
+          <li key={run._id}>
+            <button
+              type="button"
+              onClick={() => {
+                setSelectedId(run._id);
+                setCompareId('none');
+              }}
+              className={cn(
+                'w-full rounded-lg px-3 py-2 text-left transition-colors',
+                run._id === selected._id ? 'bg-primary/10 text-primary' : 'hover:bg-muted'
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <CheckRunStatus run={run} />
+                <span className="text-sm font-medium">{triggerLabels[run.trigger]}</span>
+              </div>
+              <p className="text-muted-foreground text-xs">
+                {run.requestedByName ? `${run.requestedByName} · ` : ''}
+                {formatTime(run.startedAt)}
+              </p>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex min-h-0 flex-col gap-4 overflow-y-auto">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Select
+            value={compareId as string}
+            onValueChange={(v) => setCompareId(v as Id<'checkRuns'> | 'none')}
+          >
+            <SelectTrigger className="h-9 w-56" disabled={comparable.length === 0}>
+              <SelectValue>
+                {compareTarget ?
+                  `Compare with ${formatTime(compareTarget.startedAt)}`
+                : 'Compare with…'}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent align="start" alignItemWithTrigger={false}>
+              <SelectItem value="none">No comparison</SelectItem>
+              {comparable.map((run) => (
+                <SelectItem key={run._id} value={run._id}>
+                  {formatTime(run.startedAt)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {rerunButton}
+        </div>
+
+        {compareTarget ?
+          <CheckRunComparison
+            before={compareTarget.startedAt < selected.startedAt ? compareTarget : selected}
+            after={compareTarget.startedAt < selected.startedAt ? selected : compareTarget}
+          />
+        : <CheckRunDetails run={selected} />}
+      </div>
+    </div>
+  );
+}
+
+function CheckRunDetails({ run }: { run: CheckRun }) {
+  const details = [
+    ['Model', run.model ?? 'Not configured'],
+    ['Prompt', run.promptVersion],
+    [
+      'Duration',
+      run.completedAt ? `${((run.completedAt - run.startedAt) / 1000).toFixed(1)}s` : 'Running…',
+    ],
+    [
+      'Tokens',
+      run.usage ?
+        `${run.usage.totalTokens.toLocaleString()}${run.cachedChunks ? ` (${run.cachedChunks} of ${run.chunkCount} chunks cached)` : ''}`
+      : '—',
+    ],
+  ] as const;
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm sm:grid-cols-4">
+        {details.map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-muted-foreground text-xs">{label}</dt>
+            <dd className="truncate">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {run.status === 'failed' && (
+        <p className="text-destructive rounded-md border border-current/20 p-3 text-sm">
+          {run.error ?? 'The check failed.'}
+        </p>
+      )}
+
+      {run.summary && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary">{run.summary.totalIssues} issues</Badge>
+            <Badge variant="outline">{run.summary.errors} errors</Badge>
+            <Badge variant="outline">{run.summary.warnings} warnings</Badge>
+            {run.alertsCreated !== undefined && (
+              <Badge variant="outline">{run.alertsCreated} alerts raised</Badge>
+            )}
+          </div>
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium">Checked against</h3>
+            {run.summary.checkedEntities.length === 0 ?
+              <p className="text-muted-foreground text-sm italic">
+                No canon matched this document.
+              </p>
+            : <div className="flex flex-wrap gap-1">
+                {run.summary.checkedEntities.map((name) => (
+                  <Badge key={name} variant="outline" className="font-normal">
+                    {name}
+                  </Badge>
+                ))}
+              </div>
+            }
+          </section>
+          <IssueList title="Issues" issues={run.issues ?? []} empty="No issues found." />
+        </>
+      )}
+    </div>
+  );
+}
+
+function CheckRunComparison({ before, after }: { before: CheckRun; after: CheckRun }) {
+  const comparison = compareCheckRuns(before, after);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-sm">
+        Changes from {formatTime(before.startedAt)} to {formatTime(after.startedAt)}.
+      </p>
+      <IssueList title="New issues" issues={comparison.added} empty="None." />
+      <IssueList title="No longer reported" issues={comparison.resolved} empty="None." />
+      <IssueList title="Still reported" issues={comparison.unchanged} empty="None." />
+      {(comparison.addedEntities.length > 0 || comparison.droppedEntities.length > 0) && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">Canon checked</h3>
+          <div className="flex flex-wrap gap-1">
+            {comparison.addedEntities.map((name) => (
+              <Badge key={`+${name}`} variant="outline" className="font-normal text-green-600">
+                + {name}
+              </Badge>
+            ))}
+            {comparison.droppedEntities.map((name) => (
+              <Badge
+                key={`-${name}`}
+                variant="outline"
+                className="text-muted-foreground font-normal"
+              >
+                − {name}
+              </Badge>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function IssueList({
+  title,
+  issues,
+  empty,
+}: {
+  title: string;
+  issues: CheckIssue[];
+  empty: string;
+}) {
+  return (
+    <section className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      {issues.length === 0 ?
+        <p className="text-muted-foreground text-sm italic">{empty}</p>
+      : <ul className="space-y-1">
+          {issues.map((issue) => (
+            <li key={issue.title} className="flex items-center gap-2 rounded-md border p-2 text-sm">
+              <Badge
+                variant={issue.severity === 'error' ? 'destructive' : 'secondary'}
+                className="capitalize"
+              >
+                {issue.type}
+              </Badge>
+              <span className="truncate">{issue.title}</span>
+            </li>
+          ))}
+        </ul>
+      }
+    </section>
+  );
+}
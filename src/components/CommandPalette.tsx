@@ -85,6 +85,14 @@ export function CommandPalette({ open, onOpenChange, initialView }: CommandPalet
             <ShortcutItem keys={['g', 'a']} description="Go to alerts" />
             <ShortcutItem keys={['g', 'r']} description="Go to review" />
           </ShortcutSection>
+          <ShortcutSection title="Alerts">
+            <ShortcutItem keys={['j']} description="Next alert" />
+            <ShortcutItem keys={['k']} description="Previous alert" />
+            <ShortcutItem keys={['x']} description="Select alert" />
+            <ShortcutItem keys={['o']} description="Open alert" />
+            <ShortcutItem keys={['r']} description="Resolve alert or selection" />
+            <ShortcutItem keys={['d']} description="Dismiss alert or selection" />
+          </ShortcutSection>
           <ShortcutSection title="Editor">
             <ShortcutItem keys={['⌘', 'E']} description="Trigger extraction" />
             <ShortcutItem keys={['Esc']} description="Close / Cancel" />
@@ -19,6 +19,7 @@ import {
   DropdownMenuItem,
 } from '@/components/ui/dropdown-menu';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
+import { describeProcessingProgress } from '@/lib/documents';
 import { cn } from '@/lib/utils';
 import type { Doc } from '../../convex/_generated/dataModel';
 
@@ -55,7 +56,10 @@ export function DocumentCard({ document, onClick, onEdit, onDelete }: DocumentCa
   const ContentTypeIcon = contentTypeIcons[document.contentType];
   const status = statusConfig[document.processingStatus];
   const StatusIcon = status.icon;
-  const statusMessage = statusCopy[document.processingStatus];
+  const statusMessage =
+    document.processingProgress ?
+      describeProcessingProgress(document.processingProgress)
+    : statusCopy[document.processingStatus];
   const statusIcon = (
     <span className="inline-flex" tabIndex={0} aria-label={statusMessage}>
       <StatusIcon className={cn('size-4', status.className)} />
@@ -1,8 +1,10 @@
 import type { FormEvent } from 'react';
 import { useState, useRef } from 'react';
-import { useMutation } from 'convex/react';
+import { useAction, useMutation } from 'convex/react';
 import { Loader2, Upload, FileText, Type } from 'lucide-react';
 import { api } from '../../convex/_generated/api';
+import { MAX_INLINE_CONTENT_BYTES } from '../../convex/lib/constants';
+import { detectManuscriptFormat, MANUSCRIPT_FILE_ACCEPT } from '../../convex/lib/manuscripts';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -26,6 +28,7 @@ export function DocumentForm({ projectId, document, onSuccess, onCancel }: Docum
   const [content, setContent] = useState(document?.content ?? '');
   const [contentType, setContentType] = useState<ContentType>(document?.contentType ?? 'text');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [splitChapters, setSplitChapters] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -34,8 +37,12 @@ export function DocumentForm({ projectId, document, onSuccess, onCancel }: Docum
   const createDocument = useMutation(api.documents.create);
   const updateDocument = useMutation(api.documents.update);
   const generateUploadUrl = useMutation(api.storage.generateUploadUrl);
+  const importManuscript = useAction(api.manuscripts.importFile);
 
   const isEditing = !!document;
+  // Word, EPUB, HTML and PDF uploads are converted to markdown on the server.
+  const isManuscript =
+    !isEditing && !!selectedFile && !!detectManuscriptFormat(selectedFile.name, selectedFile.type);
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
@@ -45,6 +52,8 @@ export function DocumentForm({ projectId, document, onSuccess, onCancel }: Docum
     try {
       let storageId: Id<'_storage'> | undefined;
       let finalContent = content;
+      // Text too long to store inline is read from the uploaded file on the server.
+      let storedOnly = false;
 
       if (contentType === 'file' && selectedFile) {
         const uploadUrl = await generateUploadUrl();
@@ -56,12 +65,29 @@ export function DocumentForm({ projectId, document, onSuccess, onCancel }: Docum
         const { storageId: uploadedId } = await result.json();
         storageId = uploadedId;
 
+        if (isManuscript && uploadedId) {
+          const documentIds = await importManuscript({
+            projectId,
+            storageId: uploadedId,
+            fileName: selectedFile.name,
+            title: title.trim(),
+            split: splitChapters,
+          });
+          onSuccess?.(documentIds[0]);
+          return;
+        }
+
         if (
           selectedFile.type.startsWith('text/') ||
           selectedFile.name.endsWith('.md') ||
           selectedFile.name.endsWith('.txt')
         ) {
-          finalContent = await selectedFile.text();
+          if (selectedFile.size > MAX_INLINE_CONTENT_BYTES) {
+            storedOnly = true;
+            finalContent = '';
+          } else {
+            finalContent = await selectedFile.text();
+          }
         }
       }
 
@@ -69,7 +95,7 @@ export function DocumentForm({ projectId, document, onSuccess, onCancel }: Docum
         await updateDocument({
           id: document._id,
           title: title.trim(),
-          content: finalContent || undefined,
+          content: storedOnly ? '' : finalContent || undefined,
           storageId,
           contentType,
         });
@@ -170,17 +196,35 @@ export function DocumentForm({ projectId, document, onSuccess, onCancel }: Docum
               <p className="text-sm font-medium">{selectedFile.name}</p>
             : <>
                 <p className="text-sm font-medium">Click to upload or drag and drop</p>
-                <p className="text-muted-foreground text-xs">TXT, MD, or other text files</p>
+                <p className="text-muted-foreground text-xs">
+                  TXT, MD, DOCX, EPUB, HTML, or PDF with selectable text
+                </p>
               </>
             }
           </button>
           <input
             ref={fileInputRef}
             type="file"
-            accept=".txt,.md,.markdown,text/*"
+            accept={
+              isEditing ?
+                '.txt,.md,.markdown,text/*'
+              : `.txt,.md,.markdown,text/*,${MANUSCRIPT_FILE_ACCEPT}`
+            }
             onChange={handleFileChange}
             className="hidden"
           />
+          {isManuscript && (
+            <label className="flex items-center gap-2 pt-1 text-sm">
+              <input
+                type="checkbox"
+                checked={splitChapters}
+                onChange={(e) => setSplitChapters(e.target.checked)}
+                disabled={isLoading}
+                className="accent-primary size-4"
+              />
+              Split into one document per chapter
+            </label>
+          )}
         </div>
       : <div className="space-y-2">
           <Label htmlFor="content">
@@ -0,0 +1,293 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { diffText, splitLines, type DiffSegment } from '../../convex/lib/textDiff';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getErrorMessage } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+
+type DocumentHistoryDialogProps = {
+  documentId: Id<'documents'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function DocumentHistoryDialog({
+  documentId,
+  open,
+  onOpenChange,
+}: DocumentHistoryDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[85vh] flex-col sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Revision History</DialogTitle>
+          <DialogDescription>
+            Compare each saved version with the one before it, or restore an earlier version.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <DocumentHistoryPanel documentId={documentId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const actionLabels = {
+  initial: 'Original',
+  update: 'Edited',
+  revert: 'Restored',
+  merge: 'Merged',
+  unmerge: 'Un-merged',
+} as const;
+
+function DocumentHistoryPanel({ documentId }: { documentId: Id<'documents'> }) {
+  const revisions = useQuery(api.revisions.listByDocument, { documentId });
+  const revertRevision = useMutation(api.revisions.revert);
+  const [selectedId, setSelectedId] = useState<Id<'revisions'> | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const selected = revisions?.find((r) => r._id === selectedId) ?? revisions?.[0];
+
+  async function handleRestore(id: Id<'revisions'>) {
+    setIsRestoring(true);
+    try {
+      await revertRevision({ id });
+      setSelectedId(null);
+      toast.success('Version restored', {
+        description: 'Run extraction again to update canon from the restored text.',
+      });
+    } catch (error) {
+      toast.error('Failed to restore version', { description: getErrorMessage(error) });
+    } finally {
+      setIsRestoring(false);
+    }
+  }
+
+  if (revisions === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="text-muted-foreground size-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0 || !selected) {
+    return (
+      <p className="text-muted-foreground text-sm italic">
+        No revisions yet. Saved edits will show up here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid min-h-0 flex-1 gap-4 md:grid-cols-[14rem_1fr]">
+      <ol className="min-h-0 space-y-1 overflow-y-auto">
+        {revisions.map((revision) => (
+          <li key={revision._id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision._id)}
+              className={cn(
+                'w-full rounded-lg px-3 py-2 text-left transition-colors',
+                revision._id === selected._id ? 'bg-primary/10 text-primary' : 'hover:bg-muted'
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{actionLabels[revision.action]}</span>
+                {revision.isLatest && (
+                  <Badge variant="secondary" className="h-5 px-1.5 text-xs font-normal">
+                    Current
+                  </Badge>
+                )}
+              </div>
+              <p className="text-muted-foreground text-xs">
+                {revision.userName ?? 'Vellum'} ·{' '}
+                {new Date(revision.createdAt).toLocaleDateString(undefined, {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </p>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex min-h-0 flex-col gap-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-muted-foreground truncate text-sm">
+            {selected.summary ??
+              (selected.action === 'initial' ?
+                'The document before its first tracked edit.'
+              : `Changed ${selected.changes.map((change) => change.field).join(' and ') || 'nothing'}.`)}
+          </p>
+          {!selected.isLatest && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRestore(selected._id)}
+              disabled={isRestoring}
+            >
+              {isRestoring ?
+                <Loader2 className="size-4 animate-spin" />
+              : <RotateCcw className="size-4" />}
+              Restore this version
+            </Button>
+          )}
+        </div>
+        <RevisionDiff revisionId={selected._id} />
+      </div>
+    </div>
+  );
+}
+
+// Unchanged lines shown around each change; longer unchanged runs are collapsed.
+const CONTEXT_LINES = 3;
+
+type DiffRow =
+  | {
+      kind: 'line';
+      changed: boolean;
+      left?: string;
+      right?: string;
+      leftNo?: number;
+      rightNo?: number;
+    }
+  | { kind: 'skip'; count: number };
+
+function buildRows(segments: DiffSegment[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let leftNo = 1;
+  let rightNo = 1;
+
+  segments.forEach((segment, index) => {
+    const left = splitLines(segment.before);
+    const right = splitLines(segment.after);
+
+    if (segment.type === 'change') {
+      for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        rows.push({
+          kind: 'line',
+          changed: true,
+          left: left[i],
+          right: right[i],
+          leftNo: i < left.length ? leftNo + i : undefined,
+          rightNo: i < right.length ? rightNo + i : undefined,
+        });
+      }
+    } else {
+      const head = index === 0 ? 0 : CONTEXT_LINES;
+      const tail = index === segments.length - 1 ? 0 : CONTEXT_LINES;
+      const pushLine = (i: number) =>
+        rows.push({
+          kind: 'line',
+          changed: false,
+          left: left[i],
+          right: left[i],
+          leftNo: leftNo + i,
+          rightNo: rightNo + i,
+        });
+
+      if (left.length <= head + tail + 1) {
+        left.forEach((_, i) => pushLine(i));
+      } else {
+        for (let i = 0; i < head; i++) pushLine(i);
+        rows.push({ kind: 'skip', count: left.length - head - tail });
+        for (let i = left.length - tail; i < left.length; i++) pushLine(i);
+      }
+    }
+
+    leftNo += left.length;
+    rightNo += right.length;
+  });
+
+  return rows;
+}
+
+function RevisionDiff({ revisionId }: { revisionId: Id<'revisions'> }) {
+  const comparison = useQuery(api.revisions.compareDocument, { id: revisionId });
+
+  if (comparison === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="text-muted-foreground size-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (comparison === null) {
+    return <p className="text-muted-foreground text-sm italic">This revision is unavailable.</p>;
+  }
+
+  const { before, after } = comparison;
+  const rows = buildRows(diffText(before?.content ?? '', after.content ?? ''));
+  const hasChanges = rows.some((row) => row.kind === 'line' && row.changed);
+
+  return (
+    <div className="min-h-0 flex-1 overflow-auto rounded-lg border">
+      {before && before.title !== after.title && (
+        <div className="grid grid-cols-2 border-b text-sm font-medium">
+          <div className="bg-destructive/10 px-3 py-2">{before.title}</div>
+          <div className="border-l bg-green-500/10 px-3 py-2">{after.title}</div>
+        </div>
+      )}
+      <div className="grid grid-cols-2 border-b text-xs font-medium">
+        <div className="text-muted-foreground px-3 py-1.5">
+          {before ? 'Previous version' : 'No earlier version'}
+        </div>
+        <div className="text-muted-foreground border-l px-3 py-1.5">This version</div>
+      </div>
+      {!hasChanges && before && (
+        <p className="text-muted-foreground px-3 py-4 text-sm italic">No changes to the text.</p>
+      )}
+      <table className="w-full table-fixed border-collapse font-mono text-xs">
+        <tbody>
+          {rows.map((row, index) =>
+            row.kind === 'skip' ?
+              <tr key={index} className="bg-muted/50 text-muted-foreground">
+                <td colSpan={4} className="px-3 py-1 text-center">
+                  {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+                </td>
+              </tr>
+            : <tr key={index} className="align-top">
+                <td className="text-muted-foreground w-10 px-2 text-right select-none">
+                  {row.leftNo}
+                </td>
+                <td
+                  className={cn(
+                    'px-2 break-words whitespace-pre-wrap',
+                    row.changed && row.left !== undefined && 'bg-destructive/10'
+                  )}
+                >
+                  {row.left}
+                </td>
+                <td className="text-muted-foreground w-10 border-l px-2 text-right select-none">
+                  {row.rightNo}
+                </td>
+                <td
+                  className={cn(
+                    'px-2 break-words whitespace-pre-wrap',
+                    row.changed && row.right !== undefined && 'bg-green-500/10'
+                  )}
+                >
+                  {row.right}
+                </td>
+              </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import { Card, CardHeader, CardTitle, CardDescription, CardAction } from '@/comp
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { getEntityTypeIcon, type CustomEntityType } from '@/lib/entityTypes';
 import type { Doc, Id } from '../../convex/_generated/dataModel';
 
 type Entity = Doc<'entities'>;
@@ -23,6 +24,7 @@ type EntityType = Entity['type'];
 
 type EntityCardProps = {
   entity: Entity;
+  customType?: CustomEntityType;
   onConfirm?: (id: Id<'entities'>) => void;
   onReject?: (id: Id<'entities'>) => void;
   onEdit?: (entity: Entity) => void;
@@ -61,6 +63,7 @@ const entityTypeConfig: Record<EntityType, { icon: typeof User; colorClass: stri
 
 export function EntityCard({
   entity,
+  customType,
   onConfirm,
   onReject,
   onEdit,
@@ -72,7 +75,11 @@ export function EntityCard({
   onHide,
 }: EntityCardProps) {
   const config = entityTypeConfig[entity.type] ?? defaultConfig;
-  const Icon = config.icon;
+  const Icon = customType ? getEntityTypeIcon(customType.icon) : config.icon;
+  // Custom types are colored inline from their hex value instead of the entity-* palette.
+  const typeClass = customType ? 'ring-current/20' : config.colorClass;
+  const typeStyle =
+    customType ? { color: customType.color, backgroundColor: `${customType.color}26` } : undefined;
 
   return (
     <Card
@@ -87,8 +94,9 @@ export function EntityCard({
             <div
               className={cn(
                 'flex size-10 shrink-0 items-center justify-center rounded-lg shadow-sm ring-1',
-                config.colorClass
+                typeClass
               )}
+              style={typeStyle}
             >
               <Icon className="size-5" />
             </div>
@@ -100,11 +108,13 @@ export function EntityCard({
                 <Badge
                   variant="outline"
                   className={cn(
-                    'h-5 px-1.5 py-0 text-xs font-normal capitalize',
-                    config.colorClass
+                    'h-5 px-1.5 py-0 text-xs font-normal',
+                    !customType && 'capitalize',
+                    typeClass
                   )}
+                  style={typeStyle}
                 >
-                  {entity.type}
+                  {customType?.name ?? entity.type}
                 </Badge>
                 <Badge
                   variant="outline"
@@ -1,6 +1,6 @@
 import type { FormEvent } from 'react';
 import { useState } from 'react';
-import { useMutation } from 'convex/react';
+import { useMutation, useQuery } from 'convex/react';
 import { Loader2 } from 'lucide-react';
 import { api } from '../../convex/_generated/api';
 import type { Id } from '../../convex/_generated/dataModel';
@@ -35,13 +35,16 @@ type EntityFormProps = {
 
 export function EntityForm({ projectId, onSuccess, onCancel }: EntityFormProps) {
   const [name, setName] = useState('');
-  const [type, setType] = useState<EntityType>('character');
+  const [type, setType] = useState<string>('character');
   const [description, setDescription] = useState('');
   const [aliases, setAliases] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const createEntity = useMutation(api.entities.create);
+  const customTypes = useQuery(api.entityTypes.list, { projectId });
+  // The select holds either a built-in type or the id of a project-defined type.
+  const customType = customTypes?.find((t) => t._id === type);
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
@@ -57,7 +60,8 @@ export function EntityForm({ projectId, onSuccess, onCancel }: EntityFormProps)
       const entityId = await createEntity({
         projectId,
         name: name.trim(),
-        type,
+        type: customType?.baseType ?? (type as EntityType),
+        customTypeId: customType?._id,
         description: description.trim() || undefined,
         aliases: aliasArray.length > 0 ? aliasArray : undefined,
         status: 'confirmed',
@@ -90,11 +94,7 @@ export function EntityForm({ projectId, onSuccess, onCancel }: EntityFormProps)
 
       <div className="space-y-2">
         <Label htmlFor="type">Type</Label>
-        <Select
-          value={type}
-          onValueChange={(val) => setType(val as EntityType)}
-          disabled={isLoading}
-        >
+        <Select value={type} onValueChange={(val) => setType(val as string)} disabled={isLoading}>
           <SelectTrigger id="type">
             <SelectValue>Select type</SelectValue>
           </SelectTrigger>
@@ -104,6 +104,11 @@ export function EntityForm({ projectId, onSuccess, onCancel }: EntityFormProps)
                 {t.label}
               </SelectItem>
             ))}
+            {customTypes?.map((t) => (
+              <SelectItem key={t._id} value={t._id}>
+                {t.name}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
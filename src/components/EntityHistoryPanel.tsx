@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { History, Loader2, RotateCcw, Split } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetTrigger,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from '@/components/ui/sheet';
+import { getErrorMessage } from '@/lib/errors';
+
+type EntityHistoryPanelProps = {
+  entityId: Id<'entities'>;
+  className?: string;
+};
+
+export function EntityHistoryPanel({ entityId, className }: EntityHistoryPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger
+        render={
+          <Button variant="outline" className={className}>
+            <History className="mr-2 size-4" />
+            History
+          </Button>
+        }
+      />
+      <SheetContent side="right" className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>Every change to this entity and its facts</SheetDescription>
+        </SheetHeader>
+        {open && <EntityHistoryContent entityId={entityId} />}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+const actionLabels = {
+  initial: 'Original',
+  update: 'Edited',
+  revert: 'Reverted',
+  merge: 'Merged',
+  unmerge: 'Un-merged',
+} as const;
+
+function formatValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'object') {
+    if ('value' in value && typeof value.value === 'string') return value.value;
+    if ('start' in value && 'end' in value) return `${String(value.start)}–${String(value.end)}`;
+    return JSON.stringify(value);
+  }
+  if (field === 'confidence' && typeof value === 'number') return `${Math.round(value * 100)}%`;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatField(field: string): string {
+  return field.replace(/([A-Z])/g, ' $1').toLowerCase();
+}
+
+type EntityHistoryContentProps = {
+  entityId: Id<'entities'>;
+};
+
+function EntityHistoryContent({ entityId }: EntityHistoryContentProps) {
+  const revisions = useQuery(api.revisions.listByEntity, { entityId });
+  const revertRevision = useMutation(api.revisions.revert);
+  const unmergeRevision = useMutation(api.revisions.unmerge);
+  const [pending, setPending] = useState<{
+    id: Id<'revisions'>;
+    action: 'revert' | 'unmerge';
+  } | null>(null);
+
+  const handleRevert = async (id: Id<'revisions'>) => {
+    setPending({ id, action: 'revert' });
+    try {
+      await revertRevision({ id });
+      toast.success('Reverted to earlier version');
+    } catch (error) {
+      toast.error('Failed to revert', { description: getErrorMessage(error) });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleUnmerge = async (id: Id<'revisions'>) => {
+    setPending({ id, action: 'unmerge' });
+    try {
+      await unmergeRevision({ id });
+      toast.success('Merge undone');
+    } catch (error) {
+      toast.error('Failed to undo merge', { description: getErrorMessage(error) });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (revisions === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="text-muted-foreground size-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-muted-foreground px-4 text-sm italic">
+        No changes yet. Edits, merges and reverts will show up here.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-3 px-4 pb-4">
+      {revisions.map((revision) => (
+        <li key={revision._id} className="rounded-lg border p-3">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="secondary" className="text-xs">
+                  {actionLabels[revision.action]}
+                </Badge>
+                {revision.targetType === 'fact' && (
+                  <Badge variant="outline" className="text-xs">
+                    Fact
+                  </Badge>
+                )}
+                <span className="truncate text-sm font-medium">{revision.label}</span>
+              </div>
+              <p className="text-muted-foreground mt-1 text-xs">
+                {revision.userName ?? 'Vellum'} ·{' '}
+                {new Date(revision.createdAt).toLocaleDateString(undefined, {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </p>
+              {revision.summary && <p className="mt-1 text-sm">{revision.summary}</p>}
+            </div>
+            <div className="flex shrink-0 gap-1">
+              {revision.canUnmerge && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleUnmerge(revision._id)}
+                  disabled={pending !== null}
+                >
+                  {pending?.id === revision._id && pending.action === 'unmerge' ?
+                    <Loader2 className="size-4 animate-spin" />
+                  : <Split className="size-4" />}
+                  Un-merge
+                </Button>
+              )}
+              {!revision.isLatest && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevert(revision._id)}
+                  disabled={pending !== null}
+                >
+                  {pending?.id === revision._id && pending.action === 'revert' ?
+                    <Loader2 className="size-4 animate-spin" />
+                  : <RotateCcw className="size-4" />}
+                  Revert
+                </Button>
+              )}
+            </div>
+          </div>
+          {revision.changes.length > 0 && (
+            <dl className="mt-2 space-y-1 text-xs">
+              {revision.changes.map((change) => (
+                <div key={change.field} className="grid grid-cols-[6rem_1fr] gap-2">
+                  <dt className="text-muted-foreground capitalize">{formatField(change.field)}</dt>
+                  <dd className="min-w-0 break-words">
+                    <span className="text-destructive line-through">
+                      {formatValue(change.field, change.before)}
+                    </span>{' '}
+                    →{' '}
+                    <span className="text-foreground">
+                      {formatValue(change.field, change.after)}
+                    </span>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Check, Loader2, Pencil, Quote, Settings2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import { formatAttributeValue, type AttributeField } from '../../convex/lib/attributes';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AttributeTemplateDialog } from '@/components/AttributeTemplateDialog';
+import { getErrorMessage } from '@/lib/errors';
+
+type EntityInfoboxProps = {
+  entity: Doc<'entities'>;
+  typeLabel: string;
+};
+
+type AttributeCandidate = Doc<'entityAttributes'> & { documentTitle: string | null };
+
+type InfoboxField = AttributeField & {
+  value: Doc<'entityAttributes'>['value'] | null;
+  confirmed: AttributeCandidate[];
+  pending: AttributeCandidate[];
+};
+
+export function EntityInfobox({ entity, typeLabel }: EntityInfoboxProps) {
+  const data = useQuery(api.attributes.listByEntity, { entityId: entity._id });
+  const [showTemplate, setShowTemplate] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg">Infobox</CardTitle>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setShowTemplate(true)}
+          aria-label="Edit template"
+          title={`Edit ${typeLabel} template`}
+        >
+          <Settings2 className="size-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {data === undefined ?
+          <p className="text-muted-foreground text-sm">Loading...</p>
+        : data === null || data.fields.length === 0 ?
+          <p className="text-muted-foreground py-4 text-center text-sm italic">
+            No fields defined for this type.
+          </p>
+        : <dl className="divide-border divide-y">
+            {data.fields.map((field) => (
+              <InfoboxRow key={field.key} entityId={entity._id} field={field} />
+            ))}
+          </dl>
+        }
+      </CardContent>
+      <AttributeTemplateDialog
+        projectId={entity.projectId}
+        entityType={entity.type}
+        customTypeId={entity.customTypeId}
+        typeLabel={typeLabel}
+        open={showTemplate}
+        onOpenChange={setShowTemplate}
+      />
+    </Card>
+  );
+}
+
+function InfoboxRow({ entityId, field }: { entityId: Id<'entities'>; field: InfoboxField }) {
+  const setValue = useMutation(api.attributes.setValue);
+  const confirmAttribute = useMutation(api.attributes.confirm);
+  const rejectAttribute = useMutation(api.attributes.reject);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const source = field.confirmed[0];
+
+  function startEditing() {
+    setDraft(field.value === null ? '' : String(field.value));
+    setIsEditing(true);
+  }
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      const value =
+        !draft.trim() ? null
+        : field.dataType === 'boolean' ? draft === 'true'
+        : draft;
+      await setValue({ entityId, key: field.key, value });
+      setIsEditing(false);
+    } catch (error) {
+      toast.error(`Failed to update ${field.label.toLowerCase()}`, {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleConfirm(id: Id<'entityAttributes'>) {
+    try {
+      await confirmAttribute({ id });
+    } catch (error) {
+      toast.error('Failed to confirm value', { description: getErrorMessage(error) });
+    }
+  }
+
+  async function handleReject(id: Id<'entityAttributes'>) {
+    try {
+      await rejectAttribute({ id });
+    } catch (error) {
+      toast.error('Failed to reject value', { description: getErrorMessage(error) });
+    }
+  }
+
+  return (
+    <div className="space-y-2 py-2.5">
+      <div className="flex items-start gap-3">
+        <dt className="text-muted-foreground w-24 shrink-0 pt-1 text-xs font-medium tracking-wider uppercase">
+          {field.label}
+        </dt>
+        <dd className="min-w-0 flex-1">
+          {isEditing ?
+            <div className="flex items-center gap-1">
+              <FieldInput field={field} value={draft} onChange={setDraft} disabled={isSaving} />
+              <Button
+                size="icon"
+                variant="ghost"
+                className="size-8 shrink-0"
+                onClick={handleSave}
+                disabled={isSaving}
+                aria-label="Save"
+              >
+                {isSaving ?
+                  <Loader2 className="size-4 animate-spin" />
+                : <Check className="size-4" />}
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="size-8 shrink-0"
+                onClick={() => setIsEditing(false)}
+                disabled={isSaving}
+                aria-label="Cancel"
+              >
+                <X className="size-4" />
+              </Button>
+            </div>
+          : <div className="group flex items-center gap-2">
+              <span className="min-w-0 flex-1 text-sm">
+                {field.value === null ?
+                  <span className="text-muted-foreground italic">Unknown</span>
+                : formatAttributeValue(field.value)}
+                {source?.documentTitle && (
+                  <span
+                    className="text-muted-foreground ml-2 text-xs"
+                    title={source.evidenceSnippet}
+                  >
+                    {source.documentTitle}
+                  </span>
+                )}
+              </span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="size-7 opacity-0 transition-opacity group-hover:opacity-100"
+                onClick={startEditing}
+                aria-label={`Edit ${field.label}`}
+              >
+                <Pencil className="size-3.5" />
+              </Button>
+            </div>
+          }
+        </dd>
+      </div>
+
+      {field.pending.map((candidate) => (
+        <div key={candidate._id} className="bg-muted/30 ml-27 rounded-md border border-dashed p-2">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="border-dashed">
+              {formatAttributeValue(candidate.value)}
+            </Badge>
+            <span className="text-muted-foreground min-w-0 flex-1 truncate text-xs">
+              {candidate.documentTitle ?? 'Pending review'}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-muted-foreground size-7 p-0 hover:bg-green-500/10 hover:text-green-600 dark:hover:text-green-400"
+              onClick={() => handleConfirm(candidate._id)}
+              title="Use this value"
+            >
+              <Check className="size-3.5" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-muted-foreground hover:bg-destructive/10 hover:text-destructive size-7 p-0"
+              onClick={() => handleReject(candidate._id)}
+              title="Reject value"
+            >
+              <X className="size-3.5" />
+            </Button>
+          </div>
+          {candidate.evidenceSnippet && (
+            <p className="text-muted-foreground mt-1.5 flex gap-1.5 font-mono text-xs leading-relaxed">
+              <Quote className="mt-0.5 size-3 shrink-0 opacity-50" />
+              <span className="line-clamp-2">{candidate.evidenceSnippet}</span>
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type FieldInputProps = {
+  field: AttributeField;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+};
+
+function FieldInput({ field, value, onChange, disabled }: FieldInputProps) {
+  if (field.dataType === 'boolean' || field.dataType === 'enum') {
+    const options =
+      field.dataType === 'boolean' ?
+        [
+          { value: 'true', label: 'Yes' },
+          { value: 'false', label: 'No' },
+        ]
+      : (field.options ?? []).map((option) => ({ value: option, label: option }));
+
+    return (
+      <Select value={value} onValueChange={(val) => onChange(val as string)} disabled={disabled}>
+        <SelectTrigger className="h-8 flex-1">
+          <SelectValue>
+            {(selected) => options.find((option) => option.value === selected)?.label}
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      type={field.dataType === 'number' ? 'number' : 'text'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={field.dataType === 'date' ? 'e.g. 3rd Age 1021' : undefined}
+      disabled={disabled}
+      className="h-8 flex-1"
+    />
+  );
+}
@@ -1,12 +1,17 @@
 import { User, MapPin, Package, Lightbulb, Calendar, Layers } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-type EntityType = 'character' | 'location' | 'item' | 'concept' | 'event';
+import {
+  getEntityTypeIcon,
+  type CustomEntityType,
+  type EntityType,
+  type EntityTypeFilterValue,
+} from '@/lib/entityTypes';
 
 type EntityTypeFilterProps = {
-  value: EntityType | 'all';
-  onChange: (value: EntityType | 'all') => void;
-  counts?: Record<EntityType | 'all', number>;
+  value: EntityTypeFilterValue;
+  onChange: (value: EntityTypeFilterValue) => void;
+  counts?: Record<string, number>;
+  customTypes?: CustomEntityType[];
 };
 
 const filterOptions: Array<{
@@ -54,13 +59,31 @@ const filterOptions: Array<{
   },
 ];
 
-export function EntityTypeFilter({ value, onChange, counts }: EntityTypeFilterProps) {
+export function EntityTypeFilter({
+  value,
+  onChange,
+  counts,
+  customTypes = [],
+}: EntityTypeFilterProps) {
+  // Project-defined types carry their own hex color, so they are styled inline.
+  const options = [
+    ...filterOptions,
+    ...customTypes.map((type) => ({
+      value: type._id,
+      label: type.name,
+      icon: getEntityTypeIcon(type.icon),
+      colorClass: '',
+      color: type.color,
+    })),
+  ];
+
   return (
     <div className="bg-muted/50 flex flex-wrap gap-1 rounded-lg p-1">
-      {filterOptions.map((option) => {
+      {options.map((option) => {
         const Icon = option.icon;
         const isActive = value === option.value;
         const count = counts?.[option.value];
+        const color = 'color' in option ? option.color : undefined;
 
         return (
           <button
@@ -72,6 +95,7 @@ export function EntityTypeFilter({ value, onChange, counts }: EntityTypeFilterPr
               'text-muted-foreground hover:text-foreground flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium transition-all',
               option.colorClass
             )}
+            style={isActive && color ? { color, backgroundColor: `${color}26` } : undefined}
           >
             <Icon className="size-4" />
             <span className="hidden sm:inline">{option.label}</span>
@@ -0,0 +1,286 @@
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getErrorMessage } from '@/lib/errors';
+import {
+  ENTITY_TYPE_ICON_COMPONENTS,
+  getEntityTypeIcon,
+  type CustomEntityType,
+  type EntityType,
+  type EntityTypeIcon,
+} from '@/lib/entityTypes';
+import { cn } from '@/lib/utils';
+
+const BASE_TYPES: Array<{ value: EntityType; label: string }> = [
+  { value: 'character', label: 'Character' },
+  { value: 'location', label: 'Location' },
+  { value: 'item', label: 'Item' },
+  { value: 'concept', label: 'Concept' },
+  { value: 'event', label: 'Event' },
+];
+
+const DEFAULT_COLOR = '#a855f7';
+
+type EntityTypeManagerProps = {
+  projectId: Id<'projects'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function EntityTypeManager({ projectId, open, onOpenChange }: EntityTypeManagerProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Entity Types</DialogTitle>
+          <DialogDescription>
+            Define the kinds of things your world contains. Vellum uses these types when extracting
+            canon.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <EntityTypePanel projectId={projectId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function EntityTypePanel({ projectId }: { projectId: Id<'projects'> }) {
+  const entityTypes = useQuery(api.entityTypes.list, { projectId });
+  const createType = useMutation(api.entityTypes.create);
+  const updateType = useMutation(api.entityTypes.update);
+  const removeType = useMutation(api.entityTypes.remove);
+
+  const [editingId, setEditingId] = useState<Id<'entityTypes'> | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [baseType, setBaseType] = useState<EntityType>('concept');
+  const [icon, setIcon] = useState<EntityTypeIcon>('sparkles');
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function resetForm() {
+    setEditingId(null);
+    setName('');
+    setDescription('');
+    setBaseType('concept');
+    setIcon('sparkles');
+    setColor(DEFAULT_COLOR);
+    setError(null);
+  }
+
+  function startEditing(type: CustomEntityType) {
+    setEditingId(type._id);
+    setName(type.name);
+    setDescription(type.description ?? '');
+    setBaseType(type.baseType);
+    setIcon(type.icon as EntityTypeIcon);
+    setColor(type.color);
+    setError(null);
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setIsSaving(true);
+
+    try {
+      const fields = { name: name.trim(), description: description.trim(), baseType, icon, color };
+      if (editingId) {
+        await updateType({ id: editingId, ...fields });
+        toast.success('Entity type updated', { description: fields.name });
+      } else {
+        await createType({ projectId, ...fields });
+        toast.success('Entity type created', { description: fields.name });
+      }
+      resetForm();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleRemove(type: CustomEntityType) {
+    try {
+      await removeType({ id: type._id });
+      if (editingId === type._id) resetForm();
+      toast.success('Entity type deleted', {
+        description: `Entities of this type are now ${type.baseType}s.`,
+      });
+    } catch (err) {
+      toast.error('Failed to delete entity type', { description: getErrorMessage(err) });
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {entityTypes === undefined ?
+        <p className="text-muted-foreground text-sm">Loading...</p>
+      : entityTypes.length === 0 ?
+        <p className="text-muted-foreground text-sm">
+          No custom types yet. Entities use the built-in types.
+        </p>
+      : <ul className="divide-border divide-y rounded-lg border">
+          {entityTypes.map((type) => {
+            const Icon = getEntityTypeIcon(type.icon);
+            return (
+              <li key={type._id} className="flex items-center gap-3 p-2">
+                <div
+                  className="flex size-8 shrink-0 items-center justify-center rounded-md"
+                  style={{ color: type.color, backgroundColor: `${type.color}26` }}
+                >
+                  <Icon className="size-4" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{type.name}</p>
+                  <p className="text-muted-foreground truncate text-xs capitalize">
+                    {type.baseType}
+                    {type.description && ` · ${type.description}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => startEditing(type)}
+                  aria-label={`Edit ${type.name}`}
+                >
+                  <Pencil className="size-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(type)}
+                  aria-label={`Delete ${type.name}`}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      }
+
+      <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border p-3">
+        {error && (
+          <div className="bg-destructive/10 text-destructive rounded-lg p-3 text-sm">{error}</div>
+        )}
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="entityTypeName">Name</Label>
+            <Input
+              id="entityTypeName"
+              placeholder="Faction"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="entityTypeColor">Color</Label>
+            <Input
+              id="entityTypeColor"
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              disabled={isSaving}
+              className="w-14 p-1"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="entityTypeBase">Behaves like</Label>
+          <Select value={baseType} onValueChange={(val) => setBaseType(val as EntityType)}>
+            <SelectTrigger id="entityTypeBase">
+              <SelectValue>
+                {(value) => BASE_TYPES.find((option) => option.value === value)?.label}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {BASE_TYPES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Icon</Label>
+          <div className="flex flex-wrap gap-1">
+            {(Object.keys(ENTITY_TYPE_ICON_COMPONENTS) as EntityTypeIcon[]).map((key) => {
+              const Icon = ENTITY_TYPE_ICON_COMPONENTS[key];
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setIcon(key)}
+                  aria-label={key}
+                  aria-pressed={icon === key}
+                  className={cn(
+                    'text-muted-foreground hover:text-foreground flex size-8 items-center justify-center rounded-md transition-colors',
+                    icon === key && 'ring-1'
+                  )}
+                  style={icon === key ? { color, backgroundColor: `${color}26` } : undefined}
+                >
+                  <Icon className="size-4" />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="entityTypeDescription">Description (optional)</Label>
+          <Textarea
+            id="entityTypeDescription"
+            placeholder="Political or religious organizations with shared goals"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button type="button" variant="ghost" onClick={resetForm} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={isSaving || !name.trim()}>
+            {isSaving ?
+              <Loader2 className="size-4 animate-spin" />
+            : !editingId && <Plus className="size-4" />}
+            {editingId ? 'Save Type' : 'Add Type'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useAction, useQuery } from 'convex/react';
-import { Download, FileJson, FileText, Table } from 'lucide-react';
+import { Download, FileJson, FileText, Globe, Table } from 'lucide-react';
 import { toast } from 'sonner';
 import { api } from '../../convex/_generated/api';
 import type { Id } from '../../convex/_generated/dataModel';
@@ -25,13 +25,14 @@ import {
 import { cn } from '@/lib/utils';
 import { getErrorMessage } from '@/lib/errors';
 
-type ExportFormat = 'json' | 'markdown' | 'csv';
+type ExportFormat = 'json' | 'markdown' | 'csv' | 'html';
 type ExportScope = 'all' | 'revealed';
 
 const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string; icon: typeof FileJson }> = [
   { value: 'json', label: 'JSON', icon: FileJson },
   { value: 'markdown', label: 'Markdown', icon: FileText },
   { value: 'csv', label: 'CSV', icon: Table },
+  { value: 'html', label: 'HTML Wiki (zip)', icon: Globe },
 ];
 
 const SCOPE_OPTIONS: Array<{ value: ExportScope; label: string }> = [
@@ -53,12 +54,16 @@ export function ExportButton({ projectId, projectName, className }: ExportButton
   const [format, setFormat] = useState<ExportFormat>('json');
   const [scope, setScope] = useState<ExportScope>('all');
   const exportProject = useAction(api.export.exportProject);
+  const exportWikiSite = useAction(api.export.exportWikiSite);
 
   async function handleExport() {
     setIsExporting(true);
     try {
       const includeUnrevealed = !isTtrpgProject || scope === 'all';
-      const content = await exportProject({ projectId, format, includeUnrevealed });
+      const content =
+        format === 'html' ?
+          await exportWikiSite({ projectId, includeUnrevealed })
+        : await exportProject({ projectId, format, includeUnrevealed });
       if (!content) {
         toast.error('Export failed', { description: 'Could not generate export data.' });
         return;
@@ -66,13 +71,16 @@ export function ExportButton({ projectId, projectName, className }: ExportButton
 
       const safeName = projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'project';
       const date = new Date().toISOString().split('T')[0];
-      const ext = format === 'markdown' ? 'md' : format;
-      const filename = `${safeName}-export-${date}.${ext}`;
+      const filename =
+        format === 'html' ?
+          `${safeName}-wiki-${date}.zip`
+        : `${safeName}-export-${date}.${format === 'markdown' ? 'md' : format}`;
 
       const mimeTypes: Record<ExportFormat, string> = {
         json: 'application/json',
         markdown: 'text/markdown',
         csv: 'text/csv',
+        html: 'application/zip',
       };
 
       const blob = new Blob([content], { type: mimeTypes[format] });
@@ -157,7 +165,8 @@ export function ExportButton({ projectId, projectName, className }: ExportButton
                 </SelectContent>
               </Select>
               <p className="text-muted-foreground text-xs">
-                Revealed only exports player-safe content.
+                Revealed only exports player-safe content. An HTML wiki exported this way is a
+                player edition.
               </p>
             </div>
           )}
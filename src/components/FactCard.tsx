@@ -1,4 +1,4 @@
-import { Check, X, Quote, ArrowRight, Trash2 } from 'lucide-react';
+import { Check, X, Quote, ArrowRight, Trash2, EyeOff } from 'lucide-react';
 import { Card, CardHeader, CardAction } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -82,6 +82,15 @@ export function FactCard({ fact, onConfirm, onReject, onDelete, onHighlight }: F
               >
                 {confidencePercent}%
               </Badge>
+              {fact.revealedToViewers === false && (
+                <Badge
+                  variant="outline"
+                  className="h-5 gap-1 border-transparent bg-amber-500/15 px-1.5 text-[10px] font-normal text-amber-600 ring-1 ring-amber-500/20 dark:text-amber-400"
+                >
+                  <EyeOff className="size-3" />
+                  GM only
+                </Badge>
+              )}
               {fact.temporalBound && (
                 <Badge
                   variant="outline"
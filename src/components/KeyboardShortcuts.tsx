@@ -7,8 +7,18 @@ import { api } from '../../convex/_generated/api';
 import type { Id } from '../../convex/_generated/dataModel';
 import { CommandPalette } from './CommandPalette';
 
+export type TriageShortcutHandlers = {
+  next: () => void;
+  previous: () => void;
+  toggleSelection: () => void;
+  open: () => void;
+  resolve: () => void;
+  dismiss: () => void;
+};
+
 type KeyboardShortcutsContextValue = {
   openCommandPalette: () => void;
+  setTriageHandlers: (handlers: TriageShortcutHandlers | null) => void;
 };
 
 const KeyboardShortcutsContext = createContext<KeyboardShortcutsContextValue | null>(null);
@@ -21,6 +31,28 @@ export function useKeyboardShortcuts() {
   return context;
 }
 
+/**
+ * Enable j/k/x/o/r/d triage keys while the calling component is mounted. Handlers are read at
+ * key press time, so they may close over fresh state on every render.
+ */
+export function useTriageShortcuts(handlers: TriageShortcutHandlers) {
+  const { setTriageHandlers } = useKeyboardShortcuts();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    setTriageHandlers({
+      next: () => handlersRef.current.next(),
+      previous: () => handlersRef.current.previous(),
+      toggleSelection: () => handlersRef.current.toggleSelection(),
+      open: () => handlersRef.current.open(),
+      resolve: () => handlersRef.current.resolve(),
+      dismiss: () => handlersRef.current.dismiss(),
+    });
+    return () => setTriageHandlers(null);
+  }, [setTriageHandlers]);
+}
+
 type KeyboardShortcutsProviderProps = {
   children: React.ReactNode;
 };
@@ -37,6 +69,16 @@ const NAV_CHORDS: Record<string, { route: string; requiresProject?: boolean; lab
   r: { route: '/projects/$projectId/review', requiresProject: true, label: 'Review' },
 };
 
+const TRIAGE_KEYS: Record<string, keyof TriageShortcutHandlers> = {
+  j: 'next',
+  k: 'previous',
+  x: 'toggleSelection',
+  o: 'open',
+  enter: 'open',
+  r: 'resolve',
+  d: 'dismiss',
+};
+
 export function KeyboardShortcutsProvider({ children }: KeyboardShortcutsProviderProps) {
   const navigate = useNavigate();
   const params = useParams({ strict: false });
@@ -49,6 +91,11 @@ export function KeyboardShortcutsProvider({ children }: KeyboardShortcutsProvide
   );
   const [awaitingChord, setAwaitingChord] = useState(false);
   const chordTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const triageHandlersRef = useRef<TriageShortcutHandlers | null>(null);
+
+  const setTriageHandlers = useCallback((handlers: TriageShortcutHandlers | null) => {
+    triageHandlersRef.current = handlers;
+  }, []);
 
   function openCommandPalette() {
     if (user === null) return;
@@ -170,8 +217,33 @@ export function KeyboardShortcutsProvider({ children }: KeyboardShortcutsProvide
     return () => window.removeEventListener('keydown', handleGKey);
   }, [awaitingChord]);
 
+  useEffect(() => {
+    function handleTriageKey(e: KeyboardEvent) {
+      const handlers = triageHandlersRef.current;
+      if (!handlers || awaitingChord || commandPaletteOpen) return;
+      if (e.metaKey || e.ctrlKey || e.altKey || e.shiftKey) return;
+
+      const target = e.target as HTMLElement;
+      const isTextField =
+        target.tagName === 'TEXTAREA' ||
+        target.isContentEditable ||
+        (target instanceof HTMLInputElement && target.type !== 'checkbox');
+      if (isTextField) return;
+
+      const action = TRIAGE_KEYS[e.key.toLowerCase()];
+      if (!action) return;
+      // Enter on a focused link or button keeps its native behaviour.
+      if (action === 'open' && (target.tagName === 'A' || target.tagName === 'BUTTON')) return;
+      e.preventDefault();
+      handlers[action]();
+    }
+
+    window.addEventListener('keydown', handleTriageKey);
+    return () => window.removeEventListener('keydown', handleTriageKey);
+  }, [awaitingChord, commandPaletteOpen]);
+
   return (
-    <KeyboardShortcutsContext value={{ openCommandPalette }}>
+    <KeyboardShortcutsContext value={{ openCommandPalette, setTriageHandlers }}>
       {children}
       <CommandPalette
         open={commandPaletteOpen}
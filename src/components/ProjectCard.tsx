@@ -6,6 +6,7 @@ import {
   AlertTriangle,
   MoreVertical,
   Pencil,
+  Share2,
   Trash2,
 } from 'lucide-react';
 import {
@@ -35,7 +36,7 @@ type ProjectCardProps = {
   onShare?: (project: Project) => void;
 };
 
-export function ProjectCard({ project, onEdit, onDelete, onShare: _onShare }: ProjectCardProps) {
+export function ProjectCard({ project, onEdit, onDelete, onShare }: ProjectCardProps) {
   const stats = project.stats ?? {
     documentCount: 0,
     entityCount: 0,
@@ -43,6 +44,8 @@ export function ProjectCard({ project, onEdit, onDelete, onShare: _onShare }: Pr
     alertCount: 0,
   };
 
+  const hasActions = !!(onEdit || onShare || onDelete);
+
   return (
     <Link to="/projects/$projectId" params={{ projectId: project._id }} className="block h-full">
       <Card className="group hover:ring-primary/20 flex h-full flex-col gap-4 py-6 transition-all duration-200 hover:ring-2">
@@ -53,38 +56,54 @@ export function ProjectCard({ project, onEdit, onDelete, onShare: _onShare }: Pr
           <CardDescription className="line-clamp-3 min-h-[3.75rem]">
             {project.description || '\u00A0'}
           </CardDescription>
-          <CardAction>
-            <DropdownMenu>
-              <DropdownMenuTrigger
-                className="hover:bg-muted rounded-lg p-1.5 opacity-0 transition-opacity group-hover:opacity-100"
-                onClick={(e) => e.preventDefault()}
-              >
-                <MoreVertical className="size-4" />
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuItem
-                  onClick={(e) => {
-                    e.preventDefault();
-                    onEdit?.(project);
-                  }}
-                >
-                  <Pencil className="mr-2 size-4" />
-                  Edit
-                </DropdownMenuItem>
-                {/* Share option hidden until MVP - keeping code for post-MVP */}
-                <DropdownMenuItem
-                  onClick={(e) => {
-                    e.preventDefault();
-                    onDelete?.(project);
-                  }}
-                  className="text-destructive focus:text-destructive"
+          {hasActions && (
+            <CardAction>
+              <DropdownMenu>
+                <DropdownMenuTrigger
+                  className="hover:bg-muted rounded-lg p-1.5 opacity-0 transition-opacity group-hover:opacity-100"
+                  onClick={(e) => e.preventDefault()}
                 >
-                  <Trash2 className="mr-2 size-4" />
-                  Delete
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
-          </CardAction>
+                  <MoreVertical className="size-4" />
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {onEdit && (
+                    <DropdownMenuItem
+                      onClick={(e) => {
+                        e.preventDefault();
+                        onEdit(project);
+                      }}
+                    >
+                      <Pencil className="mr-2 size-4" />
+                      Edit
+                    </DropdownMenuItem>
+                  )}
+                  {onShare && (
+                    <DropdownMenuItem
+                      onClick={(e) => {
+                        e.preventDefault();
+                        onShare(project);
+                      }}
+                    >
+                      <Share2 className="mr-2 size-4" />
+                      Share
+                    </DropdownMenuItem>
+                  )}
+                  {onDelete && (
+                    <DropdownMenuItem
+                      onClick={(e) => {
+                        e.preventDefault();
+                        onDelete(project);
+                      }}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Trash2 className="mr-2 size-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </CardAction>
+          )}
         </CardHeader>
         <CardContent className="mt-auto px-4">
           <div className="flex items-center gap-2">
@@ -15,6 +15,7 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import type { Doc, Id } from '../../convex/_generated/dataModel';
+import { DEFAULT_SINGLE_VALUED_PREDICATES } from '../../convex/lib/contradictions';
 import { getErrorMessage } from '@/lib/errors';
 
 type Project = Doc<'projects'>;
@@ -64,6 +65,11 @@ export function ProjectForm({ project, onSuccess, onCancel }: ProjectFormProps)
     project?.revealToPlayersEnabled ?? true
   );
   const [description, setDescription] = useState(project?.description ?? '');
+  const [singleValuedPredicates, setSingleValuedPredicates] = useState(() =>
+    (project?.singleValuedPredicates ?? DEFAULT_SINGLE_VALUED_PREDICATES)
+      .map((predicate) => predicate.replace(/_/g, ' '))
+      .join(', ')
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -91,6 +97,7 @@ export function ProjectForm({ project, onSuccess, onCancel }: ProjectFormProps)
           name: name.trim(),
           description: description.trim() || undefined,
           projectType,
+          singleValuedPredicates: singleValuedPredicates.split(','),
         });
         onSuccess?.(project._id);
       } else {
@@ -191,6 +198,24 @@ export function ProjectForm({ project, onSuccess, onCancel }: ProjectFormProps)
         />
       </div>
 
+      {isEditing && (
+        <div className="space-y-2">
+          <Label htmlFor="singleValuedPredicates">Single-valued facts</Label>
+          <Textarea
+            id="singleValuedPredicates"
+            placeholder="age, born in, eye color"
+            value={singleValuedPredicates}
+            onChange={(e) => setSingleValuedPredicates(e.target.value)}
+            rows={2}
+            disabled={isLoading}
+          />
+          <p className="text-muted-foreground text-xs">
+            Comma-separated predicates an entity can only have one value for. Checks flag
+            conflicting values without calling Vellum.
+          </p>
+        </div>
+      )}
+
       <div className="flex justify-end gap-2">
         {onCancel && (
           <Button type="button" variant="ghost" onClick={onCancel} disabled={isLoading}>
@@ -0,0 +1,242 @@
+import { useRef, useState } from 'react';
+import { useAction, useMutation, useQuery } from 'convex/react';
+import { useNavigate } from '@tanstack/react-router';
+import { CheckCircle2, Loader2, RotateCcw, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getErrorMessage } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+
+type ImportJob = Doc<'projectImports'> & { stalled: boolean };
+
+const stageLabels: Record<Doc<'projectImports'>['stage'], string> = {
+  entityTypes: 'entity types',
+  attributeTemplates: 'attribute templates',
+  calendars: 'calendars',
+  documents: 'documents',
+  entities: 'entities',
+  facts: 'facts',
+  entityAttributes: 'attributes',
+  relationships: 'relationships',
+  notes: 'notes',
+  entityNotes: 'entity notes',
+  alerts: 'alerts',
+  alertSuppressions: 'ignored rules',
+  cleanup: 'finishing up',
+};
+
+function describeImport(job: ImportJob): string {
+  if (job.status === 'completed') return 'Import complete';
+  if (job.status === 'failed') return `Import stopped: ${job.error ?? 'unknown error'}`;
+  if (job.stalled) return 'Import stalled';
+  return `Importing ${stageLabels[job.stage]}: ${job.importedRecords} of ${job.totalRecords} records`;
+}
+
+function ImportProgress({ job }: { job: ImportJob }) {
+  const percent =
+    job.totalRecords ? Math.round((job.importedRecords / job.totalRecords) * 100) : 100;
+  return (
+    <div className="space-y-1">
+      <div className="bg-muted h-2 overflow-hidden rounded-full">
+        <div
+          className={cn(
+            'h-full transition-all',
+            job.status === 'failed' ? 'bg-destructive' : 'bg-primary'
+          )}
+          style={{ width: `${job.status === 'completed' ? 100 : percent}%` }}
+        />
+      </div>
+      <p
+        className={cn(
+          'text-xs',
+          job.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+        )}
+      >
+        {describeImport(job)}
+      </p>
+    </div>
+  );
+}
+
+function MissingTextNotice({ job }: { job: ImportJob }) {
+  const titles = job.documentsWithoutText ?? [];
+  if (titles.length === 0) return null;
+  return (
+    <p className="text-muted-foreground rounded-lg bg-amber-500/10 p-3 text-xs">
+      The text of {titles.length === 1 ? 'this document was' : 'these documents were'} kept as a
+      file and isn't in the export, so {titles.length === 1 ? 'it arrives' : 'they arrive'} empty:{' '}
+      {titles.join(', ')}. Upload the original files again to restore the text.
+    </p>
+  );
+}
+
+function ResumeButton({ job }: { job: ImportJob }) {
+  const resume = useMutation(api.projectImports.resume);
+  if (job.status !== 'failed' && !job.stalled) return null;
+
+  async function handleResume() {
+    try {
+      await resume({ id: job._id });
+    } catch (error) {
+      toast.error('Could not resume import', { description: getErrorMessage(error) });
+    }
+  }
+
+  return (
+    <Button size="sm" variant="outline" onClick={() => void handleResume()}>
+      <RotateCcw className="mr-2 size-4" />
+      Resume
+    </Button>
+  );
+}
+
+type ProjectImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function ProjectImportDialog({ open, onOpenChange }: ProjectImportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Project</DialogTitle>
+          <DialogDescription>
+            Upload a JSON export to recreate the project in your account, with its documents, canon,
+            notes and alerts. Large projects import in the background.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <ProjectImporter onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ProjectImporter({ onDone }: { onDone: () => void }) {
+  const navigate = useNavigate();
+  const [importId, setImportId] = useState<Id<'projectImports'> | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const generateUploadUrl = useMutation(api.storage.generateUploadUrl);
+  const importProject = useAction(api.projectImports.importProject);
+  const job = useQuery(api.projectImports.get, importId ? { id: importId } : 'skip');
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setFileName(file.name);
+    setIsUploading(true);
+
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const result = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/json' },
+        body: file,
+      });
+      const { storageId } = await result.json();
+      const started = await importProject({ storageId });
+      setImportId(started.importId);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function openProject() {
+    if (!job) return;
+    onDone();
+    void navigate({ to: '/projects/$projectId', params: { projectId: job.projectId } });
+  }
+
+  return (
+    <>
+      <div className="space-y-4">
+        {error && (
+          <div className="bg-destructive/10 text-destructive rounded-lg p-3 text-sm">{error}</div>
+        )}
+
+        {!importId && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="border-border hover:border-primary/50 flex w-full cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed p-6 transition-colors"
+            >
+              {isUploading ?
+                <Loader2 className="text-muted-foreground mb-2 size-6 animate-spin" />
+              : <Upload className="text-muted-foreground mb-2 size-6" />}
+              <p className="text-sm font-medium">{fileName ?? 'Choose a file'}</p>
+              <p className="text-muted-foreground text-xs">JSON export from this app</p>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => void handleFileChange(e)}
+              className="hidden"
+            />
+          </>
+        )}
+
+        {job && (
+          <div className="flex items-end gap-3">
+            <div className="min-w-0 flex-1">
+              <ImportProgress job={job} />
+            </div>
+            <ResumeButton job={job} />
+          </div>
+        )}
+        {job && <MissingTextNotice job={job} />}
+      </div>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onDone} disabled={isUploading}>
+          {job?.status === 'running' ? 'Continue in background' : 'Close'}
+        </Button>
+        {job?.status === 'completed' && (
+          <Button onClick={openProject}>
+            <CheckCircle2 className="mr-2 size-4" />
+            Open Project
+          </Button>
+        )}
+      </DialogFooter>
+    </>
+  );
+}
+
+/** Imports still running or waiting to be resumed, shown above the project list. */
+export function UnfinishedProjectImports() {
+  const jobs = useQuery(api.projectImports.listUnfinished);
+  if (!jobs || jobs.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {jobs.map((job) => (
+        <div key={job._id} className="bg-muted/50 flex items-end gap-4 rounded-lg border p-3">
+          <div className="min-w-0 flex-1 space-y-2">
+            <p className="truncate text-sm font-medium">{job.projectName}</p>
+            <ImportProgress job={job} />
+          </div>
+          <ResumeButton job={job} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { Check, X, Quote, ArrowRight } from 'lucide-react';
+import { Card, CardHeader, CardAction } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+
+type EntitySummary = { _id: Id<'entities'>; name: string } | null;
+
+type Relationship = Doc<'relationships'> & {
+  source: EntitySummary;
+  target: EntitySummary;
+};
+
+type RelationshipCardProps = {
+  relationship: Relationship;
+  onConfirm: (id: Id<'relationships'>) => void;
+  onReject: (id: Id<'relationships'>) => void;
+  onHighlight?: (position: { start: number; end: number } | undefined) => void;
+};
+
+function formatType(type: string): string {
+  return type.replace(/_/g, ' ');
+}
+
+function getStatusStyle(status: string): string {
+  switch (status) {
+    case 'confirmed':
+      return 'bg-green-500/15 text-green-600 dark:text-green-400 ring-green-500/20';
+    case 'rejected':
+      return 'bg-red-500/15 text-red-600 dark:text-red-400 ring-red-500/20';
+    default:
+      return 'bg-amber-500/15 text-amber-600 dark:text-amber-400 ring-amber-500/20';
+  }
+}
+
+export function RelationshipCard({
+  relationship,
+  onConfirm,
+  onReject,
+  onHighlight,
+}: RelationshipCardProps) {
+  return (
+    <Card
+      className="group hover:border-primary/50 hover:ring-primary/20 h-full w-full transition-all duration-200 hover:shadow-md hover:ring-1"
+      onMouseEnter={() => onHighlight?.(relationship.evidencePosition ?? undefined)}
+      onMouseLeave={() => onHighlight?.(undefined)}
+    >
+      <CardHeader className="p-4">
+        <div className="flex items-start gap-4">
+          <div className="min-w-0 flex-1 space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm leading-relaxed">
+              <span className="text-foreground bg-secondary/50 rounded-md px-1.5 py-0.5 font-serif font-medium">
+                {relationship.source?.name ?? 'Unknown'}
+              </span>
+              <ArrowRight className="text-muted-foreground/70 size-3.5" />
+              <span className="text-predicate italic">{formatType(relationship.type)}</span>
+              <ArrowRight className="text-muted-foreground/70 size-3.5" />
+              <span className="text-foreground bg-secondary/50 rounded-md px-1.5 py-0.5 font-serif font-medium">
+                {relationship.target?.name ?? 'Unknown'}
+              </span>
+            </div>
+
+            <Badge
+              variant="outline"
+              className={cn(
+                'h-5 border-transparent px-1.5 text-[10px] font-normal ring-1',
+                getStatusStyle(relationship.status)
+              )}
+            >
+              {relationship.status}
+            </Badge>
+
+            {relationship.evidenceSnippet && (
+              <div className="border-border/50 bg-muted/30 relative rounded-lg border p-3 pl-9">
+                <Quote className="text-muted-foreground/50 absolute top-3 left-3 size-3.5" />
+                <p className="text-muted-foreground line-clamp-3 font-mono text-xs leading-relaxed">
+                  "{relationship.evidenceSnippet}"
+                </p>
+              </div>
+            )}
+          </div>
+
+          {relationship.status === 'pending' && (
+            <CardAction className="flex shrink-0 gap-1 opacity-80 transition-opacity group-hover:opacity-100">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-muted-foreground size-8 p-0 hover:bg-green-500/10 hover:text-green-600 dark:hover:text-green-400"
+                onClick={() => onConfirm(relationship._id)}
+                title="Confirm relationship"
+              >
+                <Check className="size-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-muted-foreground hover:bg-destructive/10 hover:text-destructive size-8 p-0"
+                onClick={() => onReject(relationship._id)}
+                title="Reject relationship"
+              >
+                <X className="size-4" />
+              </Button>
+            </CardAction>
+          )}
+        </div>
+      </CardHeader>
+    </Card>
+  );
+}
@@ -9,18 +9,20 @@ type Node = {
   id: Id<'entities'>;
   name: string;
   type: EntityType;
+  customTypeId?: Id<'entityTypes'>;
 };
 
 type Edge = {
   source: Id<'entities'>;
   target: Id<'entities'>;
   label: string;
-  factId: Id<'facts'>;
+  relationshipId: Id<'relationships'>;
 };
 
 type RelationshipGraphProps = {
   nodes: Node[];
   edges: Edge[];
+  customTypes?: Array<{ _id: Id<'entityTypes'>; color: string }>;
   onNodeClick?: (nodeId: Id<'entities'>) => void;
   className?: string;
 };
@@ -36,12 +38,13 @@ const entityColors: Record<EntityType, string> = {
 type SimulationNode = d3.SimulationNodeDatum & Node;
 type SimulationLink = d3.SimulationLinkDatum<SimulationNode> & {
   label: string;
-  factId: Id<'facts'>;
+  relationshipId: Id<'relationships'>;
 };
 
 export function RelationshipGraph({
   nodes,
   edges,
+  customTypes,
   onNodeClick,
   className,
 }: RelationshipGraphProps) {
@@ -74,6 +77,12 @@ export function RelationshipGraph({
 
     svg.call(zoom);
 
+    const customColors = new Map(customTypes?.map((type) => [type._id, type.color]));
+    const nodeColor = (node: SimulationNode) =>
+      (node.customTypeId && customColors.get(node.customTypeId)) ??
+      entityColors[node.type] ??
+      'oklch(0.5 0 0)';
+
     const simulationNodes: SimulationNode[] = nodes.map((n) => ({ ...n }));
     const nodeMap = new Map(simulationNodes.map((n) => [n.id, n]));
 
@@ -82,7 +91,7 @@ export function RelationshipGraph({
         source: nodeMap.get(e.source)!,
         target: nodeMap.get(e.target)!,
         label: e.label,
-        factId: e.factId,
+        relationshipId: e.relationshipId,
       }))
       .filter((l) => l.source && l.target);
 
@@ -162,7 +171,7 @@ export function RelationshipGraph({
     node
       .append('circle')
       .attr('r', 20)
-      .attr('fill', (d) => entityColors[d.type] ?? 'oklch(0.5 0 0)')
+      .attr('fill', nodeColor)
       .attr('class', 'stroke-border')
       .attr('stroke-width', 2);
 
@@ -204,7 +213,7 @@ export function RelationshipGraph({
     return () => {
       simulation.stop();
     };
-  }, [nodes, edges, onNodeClick]);
+  }, [nodes, edges, customTypes, onNodeClick]);
 
   if (nodes.length === 0) {
     return null;
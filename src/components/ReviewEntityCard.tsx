@@ -1,4 +1,5 @@
-import { useQuery } from 'convex/react';
+import { useEffect, useState } from 'react';
+import { useAction, useQuery } from 'convex/react';
 import { api } from '../../convex/_generated/api';
 import type { Doc, Id } from '../../convex/_generated/dataModel';
 import { EntityCard } from './EntityCard';
@@ -18,9 +19,32 @@ export function ReviewEntityCard({
   onReject,
   onMerge,
 }: ReviewEntityCardProps) {
-  const similarEntities = useQuery(
+  const isPending = entity.status === 'pending';
+  const nameMatches = useQuery(
     api.entities.findSimilar,
-    entity.status === 'pending' ? { projectId, name: entity.name, excludeId: entity._id } : 'skip'
+    isPending ? { projectId, name: entity.name, excludeId: entity._id } : 'skip'
+  );
+  const findSemantic = useAction(api.embeddings.similarEntities);
+  const [semanticMatches, setSemanticMatches] = useState<Doc<'entities'>[]>([]);
+
+  useEffect(() => {
+    if (!isPending) return;
+    let cancelled = false;
+    findSemantic({ entityId: entity._id })
+      .then((matches) => {
+        if (!cancelled) setSemanticMatches(matches);
+      })
+      .catch(() => {
+        // Name matches still show; semantic suggestions are best-effort.
+        if (!cancelled) setSemanticMatches([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [findSemantic, entity._id, isPending]);
+
+  const similarEntities = [...(nameMatches ?? []), ...semanticMatches].filter(
+    (similar, index, all) => all.findIndex((other) => other._id === similar._id) === index
   );
 
   return (
@@ -29,7 +53,7 @@ export function ReviewEntityCard({
       onConfirm={onConfirm}
       onReject={onReject}
       onMerge={onMerge}
-      similarEntities={similarEntities ?? undefined}
+      similarEntities={similarEntities}
     />
   );
 }
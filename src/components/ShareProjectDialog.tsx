@@ -0,0 +1,192 @@
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getErrorMessage } from '@/lib/errors';
+
+type ShareRole = 'editor' | 'viewer';
+
+const ROLE_OPTIONS: Array<{ value: ShareRole; label: string }> = [
+  { value: 'editor', label: 'Editor' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
+type ShareProjectDialogProps = {
+  projectId: Id<'projects'> | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function ShareProjectDialog({ projectId, onOpenChange }: ShareProjectDialogProps) {
+  return (
+    <Dialog open={!!projectId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share Project</DialogTitle>
+          <DialogDescription>
+            Editors can change canon. Viewers can read everything but edit nothing.
+          </DialogDescription>
+        </DialogHeader>
+        {projectId && <ShareProjectPanel projectId={projectId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ShareProjectPanel({ projectId }: { projectId: Id<'projects'> }) {
+  const shares = useQuery(api.projectShares.listByProject, { projectId });
+  const invite = useMutation(api.projectShares.invite);
+  const updateRole = useMutation(api.projectShares.updateRole);
+  const removeShare = useMutation(api.projectShares.remove);
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ShareRole>('viewer');
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleInvite(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setIsInviting(true);
+
+    try {
+      await invite({ projectId, email: email.trim(), role });
+      toast.success('Invitation sent', { description: email.trim() });
+      setEmail('');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsInviting(false);
+    }
+  }
+
+  async function handleRoleChange(id: Id<'projectShares'>, nextRole: ShareRole) {
+    try {
+      await updateRole({ id, role: nextRole });
+    } catch (err) {
+      toast.error('Failed to update role', { description: getErrorMessage(err) });
+    }
+  }
+
+  async function handleRemove(id: Id<'projectShares'>) {
+    try {
+      await removeShare({ id });
+    } catch (err) {
+      toast.error('Failed to remove collaborator', { description: getErrorMessage(err) });
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleInvite} className="space-y-2">
+        {error && (
+          <div className="bg-destructive/10 text-destructive rounded-lg p-3 text-sm">{error}</div>
+        )}
+        <Label htmlFor="shareEmail">Invite by email</Label>
+        <div className="flex gap-2">
+          <Input
+            id="shareEmail"
+            type="email"
+            placeholder="player@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={isInviting}
+            required
+          />
+          <Select value={role} onValueChange={(val) => setRole(val as ShareRole)}>
+            <SelectTrigger className="w-28">
+              <SelectValue>
+                {(value) => ROLE_OPTIONS.find((option) => option.value === value)?.label}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {ROLE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={isInviting || !email.trim()}>
+            {isInviting ?
+              <Loader2 className="size-4 animate-spin" />
+            : <UserPlus className="size-4" />}
+            Invite
+          </Button>
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        <Label>Collaborators</Label>
+        {shares === undefined ?
+          <p className="text-muted-foreground text-sm">Loading...</p>
+        : shares.length === 0 ?
+          <p className="text-muted-foreground text-sm">Only you have access to this project.</p>
+        : <ul className="divide-border divide-y rounded-lg border">
+            {shares.map((share) => (
+              <li key={share._id} className="flex items-center gap-2 p-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">
+                    {share.memberName ?? share.sharedWithEmail}
+                  </p>
+                  {share.memberName && (
+                    <p className="text-muted-foreground truncate text-xs">
+                      {share.sharedWithEmail}
+                    </p>
+                  )}
+                </div>
+                {share.acceptedAt === undefined && <Badge variant="secondary">Pending</Badge>}
+                <Select
+                  value={share.role}
+                  onValueChange={(val) => void handleRoleChange(share._id, val as ShareRole)}
+                >
+                  <SelectTrigger className="w-28" aria-label="Role">
+                    <SelectValue>
+                      {(value) => ROLE_OPTIONS.find((option) => option.value === value)?.label}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove collaborator"
+                  onClick={() => void handleRemove(share._id)}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        }
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import { useRef, useState } from 'react';
+import { useAction, useMutation, useQuery } from 'convex/react';
+import { Loader2, RotateCcw, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import type { EntityResolution } from '../../convex/lib/vaults';
+import { VAULT_FILE_ACCEPT } from '../../convex/lib/vaults';
+import type { VaultImportPreview } from '../../convex/vaultImport';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getErrorMessage } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+
+type VaultImportDialogProps = {
+  projectId: Id<'projects'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+type Upload = { storageId: Id<'_storage'>; fileName: string };
+
+type ImportJob = Doc<'vaultImports'> & { stalled: boolean };
+
+const resolutionLabels: Record<EntityResolution, string> = {
+  merge: 'Merge into existing',
+  skip: 'Keep existing, skip',
+  create: 'Create a second entity',
+};
+
+function describeImport(job: ImportJob): string {
+  const { result } = job;
+  if (job.status === 'completed') {
+    return `Imported ${result.documentsCreated} documents, ${result.entitiesCreated} new entities, ${result.entitiesMerged} merged, ${result.relationshipsCreated} relationships.`;
+  }
+  if (job.status === 'failed') return `Import stopped: ${job.error ?? 'unknown error'}`;
+  if (job.stalled) return 'Import stalled';
+  return `Importing ${job.stage === 'cleanup' ? 'finishing up' : job.stage}: ${job.importedRecords} of ${job.totalRecords} records`;
+}
+
+function ImportProgress({ job }: { job: ImportJob }) {
+  const resume = useMutation(api.vaultImport.resume);
+  const percent =
+    job.totalRecords ? Math.round((job.importedRecords / job.totalRecords) * 100) : 100;
+
+  async function handleResume() {
+    try {
+      await resume({ id: job._id });
+    } catch (error) {
+      toast.error('Could not resume import', { description: getErrorMessage(error) });
+    }
+  }
+
+  return (
+    <div className="flex items-end gap-3">
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="bg-muted h-2 overflow-hidden rounded-full">
+          <div
+            className={cn(
+              'h-full transition-all',
+              job.status === 'failed' ? 'bg-destructive' : 'bg-primary'
+            )}
+            style={{ width: `${job.status === 'completed' ? 100 : percent}%` }}
+          />
+        </div>
+        <p
+          className={cn(
+            'text-xs',
+            job.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+          )}
+        >
+          {describeImport(job)}
+        </p>
+      </div>
+      {(job.status === 'failed' || job.stalled) && (
+        <Button size="sm" variant="outline" onClick={() => void handleResume()}>
+          <RotateCcw className="mr-2 size-4" />
+          Resume
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function VaultImportDialog({ projectId, open, onOpenChange }: VaultImportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[85vh] flex-col sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Vault</DialogTitle>
+          <DialogDescription>
+            Upload a zip of markdown notes (an Obsidian vault or any folder with frontmatter and
+            [[wikilinks]]) or a World Anvil JSON export. You can review everything before it is
+            imported.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <VaultImporter projectId={projectId} onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function VaultImporter({ projectId, onDone }: { projectId: Id<'projects'>; onDone: () => void }) {
+  const [upload, setUpload] = useState<Upload | null>(null);
+  const [preview, setPreview] = useState<VaultImportPreview | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, EntityResolution>>({});
+  const [importId, setImportId] = useState<Id<'vaultImports'> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const generateUploadUrl = useMutation(api.storage.generateUploadUrl);
+  const previewImport = useAction(api.vaultImport.preview);
+  const applyImport = useAction(api.vaultImport.apply);
+  const job = useQuery(api.vaultImport.get, importId ? { id: importId } : 'skip');
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setPreview(null);
+    setResolutions({});
+    setIsLoading(true);
+
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const result = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      });
+      const { storageId } = await result.json();
+      const next = { storageId, fileName: file.name };
+      setUpload(next);
+      setPreview(await previewImport({ projectId, ...next }));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleImport() {
+    if (!upload) return;
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const started = await applyImport({
+        projectId,
+        ...upload,
+        resolutions: Object.entries(resolutions).map(([name, resolution]) => ({
+          name,
+          resolution,
+        })),
+      });
+      setImportId(started);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const conflicts = preview?.entities.filter((entity) => entity.conflict) ?? [];
+
+  return (
+    <>
+      <div className="min-h-0 space-y-4 overflow-y-auto">
+        {error && (
+          <div className="bg-destructive/10 text-destructive rounded-lg p-3 text-sm">{error}</div>
+        )}
+
+        {job && <ImportProgress job={job} />}
+
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading || !!importId}
+          className={cn(
+            'border-border hover:border-primary/50 flex w-full cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed p-6 transition-colors',
+            upload && 'border-primary bg-primary/5'
+          )}
+        >
+          <Upload className="text-muted-foreground mb-2 size-6" />
+          <p className="text-sm font-medium">{upload ? upload.fileName : 'Choose a file'}</p>
+          <p className="text-muted-foreground text-xs">
+            ZIP of markdown notes, or World Anvil JSON
+          </p>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={VAULT_FILE_ACCEPT}
+          onChange={(e) => void handleFileChange(e)}
+          className="hidden"
+        />
+
+        {preview && !importId && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">
+                {preview.format === 'worldanvil' ? 'World Anvil' : 'Markdown'}
+              </Badge>
+              <Badge variant="outline">{preview.documentCount} documents</Badge>
+              <Badge variant="outline">{preview.entities.length} entities</Badge>
+              <Badge variant="outline">{preview.relationshipCount} relationships</Badge>
+            </div>
+
+            {conflicts.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-medium">Already in this project</h3>
+                <ul className="space-y-2">
+                  {conflicts.map((entity) => (
+                    <li
+                      key={entity.name}
+                      className="flex items-center justify-between gap-3 rounded-lg border p-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium">{entity.name}</p>
+                        <p className="text-muted-foreground text-xs">
+                          Vault {entity.typeLabel}, existing {entity.conflict?.type}
+                        </p>
+                      </div>
+                      <Select
+                        value={resolutions[entity.name] ?? 'merge'}
+                        onValueChange={(value) =>
+                          setResolutions((current) => ({
+                            ...current,
+                            [entity.name]: value as EntityResolution,
+                          }))
+                        }
+                        disabled={isLoading}
+                      >
+                        <SelectTrigger className="w-52" aria-label={`Resolve ${entity.name}`}>
+                          <SelectValue>
+                            {resolutionLabels[resolutions[entity.name] ?? 'merge']}
+                          </SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(resolutionLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {preview.entities.length > conflicts.length && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-medium">New entities</h3>
+                <div className="flex flex-wrap gap-1">
+                  {preview.entities
+                    .filter((entity) => !entity.conflict)
+                    .map((entity) => (
+                      <Badge key={entity.name} variant="outline" className="font-normal">
+                        {entity.name}
+                        <span className="text-muted-foreground ml-1">{entity.typeLabel}</span>
+                      </Badge>
+                    ))}
+                </div>
+              </section>
+            )}
+
+            {preview.unresolvedLinks.length > 0 && (
+              <p className="text-muted-foreground text-xs">
+                {preview.unresolvedLinks.length} links point at notes that aren&apos;t entities and
+                will be left as plain text: {preview.unresolvedLinks.slice(0, 8).join(', ')}
+                {preview.unresolvedLinks.length > 8 && ', ...'}
+              </p>
+            )}
+
+            {preview.skipped.length > 0 && (
+              <section className="space-y-1">
+                <h3 className="text-sm font-medium">Skipped</h3>
+                <ul className="text-muted-foreground space-y-1 text-xs">
+                  {preview.skipped.map((file) => (
+                    <li key={file.path}>
+                      {file.path}: {file.reason}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onDone} disabled={isLoading}>
+          {!importId ?
+            'Cancel'
+          : job?.status === 'running' ?
+            'Continue in background'
+          : 'Close'}
+        </Button>
+        {!importId && (
+          <Button onClick={() => void handleImport()} disabled={isLoading || !preview}>
+            {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+            Import
+          </Button>
+        )}
+      </DialogFooter>
+    </>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Link, useNavigate } from '@tanstack/react-router';
+import { Link, useNavigate, useParams, useSearch } from '@tanstack/react-router';
 import { useQuery } from 'convex/react';
 import { cn } from '@/lib/utils';
 import { buttonVariants } from '@/components/ui/button';
@@ -49,6 +49,8 @@ export function VellumButton({ collapsed }: VellumButtonProps) {
   const [tipIndex, setTipIndex] = useState(() => Math.floor(Math.random() * TIPS.length));
   const [sheetOpen, setSheetOpen] = useState(false);
   const navigate = useNavigate();
+  const params = useParams({ strict: false });
+  const search = useSearch({ strict: false });
   const alertSummary = useQuery(api.alerts.listOpenByUser, { limit: 3 });
 
   const openCount = alertSummary?.total ?? 0;
@@ -65,7 +67,8 @@ export function VellumButton({ collapsed }: VellumButtonProps) {
   const tip = TIPS[tipIndex];
 
   const handleChatClick = () => {
-    void navigate({ to: '/vellum/chat' });
+    // Opening chat from inside a project scopes it to that project's canon.
+    void navigate({ to: '/vellum/chat', search: { project: params.projectId ?? search.project } });
   };
 
   const handleAlertsClick = () => {
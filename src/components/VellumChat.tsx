@@ -1,14 +1,18 @@
 import { useState, useRef, useEffect } from 'react';
-import { useMutation, useQuery } from 'convex/react';
+import { useMutation, usePaginatedQuery, useQuery } from 'convex/react';
+import { Link, useRouter } from '@tanstack/react-router';
 import { useStream } from '@convex-dev/persistent-text-streaming/react';
 import type { StreamId } from '@convex-dev/persistent-text-streaming';
 import { renderMarkdownToHtml } from '@/lib/markdown';
 import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import type { ChatCitation } from '../../convex/lib/chatContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { MothIcon } from '@/components/ui/moth-icon';
+import { getErrorMessage } from '@/lib/errors';
 import { cn } from '@/lib/utils';
-import { Send, User, Loader2, AlertCircle, Trash2 } from 'lucide-react';
+import { Send, User, Loader2, AlertCircle, FileText, BookMarked, GitBranch } from 'lucide-react';
 import { env } from '@/env';
 
 type Message = {
@@ -16,26 +20,175 @@ type Message = {
   role: 'user' | 'assistant';
   content: string;
   streamId?: string;
+  citations?: ChatCitation[];
+  /** Set once the message is saved to the thread. */
+  messageId?: Id<'chatMessages'>;
+};
+
+type CitationScope = {
+  projectId: Id<'projects'>;
+  isPlayer: boolean;
 };
 
 const CONVEX_SITE_URL = env.VITE_CONVEX_URL.replace('.convex.cloud', '.convex.site');
 
+const MESSAGES_PER_PAGE = 50;
+
 function generateId() {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
-function MarkdownContent({ children }: { children: string }) {
-  const sanitizedHtml = renderMarkdownToHtml(children);
-  return <span dangerouslySetInnerHTML={{ __html: sanitizedHtml }} />;
+const CITATION_PATTERN = /\[([ED]\d+)\](?!\()/g;
+
+function citationHref(citation: ChatCitation, scope: CitationScope): string {
+  if (citation.targetType === 'entity') {
+    return scope.isPlayer ?
+        `/projects/${scope.projectId}/player/${citation.entityId}`
+      : `/entities/${citation.entityId}?project=${scope.projectId}`;
+  }
+  return scope.isPlayer ?
+      `/projects/${scope.projectId}/player/documents/${citation.documentId}`
+    : `/projects/${scope.projectId}/documents/${citation.documentId}`;
+}
+
+function escapeAttribute(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Turns the [E1] / [D2] markers Vellum cites into links before the markdown is rendered.
+function linkCitations(text: string, citations: ChatCitation[], scope: CitationScope | null) {
+  if (!scope || citations.length === 0) return text;
+  const byMarker = new Map(citations.map((citation) => [citation.marker, citation]));
+  return text.replace(CITATION_PATTERN, (match, marker: string) => {
+    const citation = byMarker.get(marker);
+    if (!citation) return match;
+    return `<a href="${citationHref(citation, scope)}" data-citation="${marker}" title="${escapeAttribute(citation.label)}">${marker}</a>`;
+  });
+}
+
+function citedSources(text: string, citations: ChatCitation[]) {
+  const cited = new Set(Array.from(text.matchAll(CITATION_PATTERN), (match) => match[1]));
+  return citations.filter((citation) => cited.has(citation.marker));
+}
+
+type MarkdownContentProps = {
+  children: string;
+  citations?: ChatCitation[];
+  scope?: CitationScope | null;
+};
+
+function MarkdownContent({ children, citations = [], scope = null }: MarkdownContentProps) {
+  const router = useRouter();
+  const sanitizedHtml = renderMarkdownToHtml(linkCitations(children, citations, scope));
+  const contentRef = useRef<HTMLSpanElement>(null);
+
+  // Citation links are plain anchors inside rendered HTML, so route them client-side here.
+  useEffect(() => {
+    const element = contentRef.current;
+    if (!element) return;
+
+    const handleClick = (e: MouseEvent) => {
+      const anchor = (e.target as HTMLElement).closest('a[data-citation]');
+      const href = anchor?.getAttribute('href');
+      if (!href || e.metaKey || e.ctrlKey) return;
+      e.preventDefault();
+      void router.history.push(href);
+    };
+
+    element.addEventListener('click', handleClick);
+    return () => element.removeEventListener('click', handleClick);
+  }, [router]);
+
+  return (
+    <span
+      ref={contentRef}
+      className="[&_a[data-citation]]:bg-primary/10 [&_a[data-citation]]:text-primary [&_a[data-citation]]:rounded [&_a[data-citation]]:px-1 [&_a[data-citation]]:text-[0.7rem] [&_a[data-citation]]:font-medium [&_a[data-citation]]:no-underline"
+      dangerouslySetInnerHTML={{ __html: sanitizedHtml }}
+    />
+  );
+}
+
+function CitationSources({
+  citations,
+  scope,
+}: {
+  citations: ChatCitation[];
+  scope: CitationScope;
+}) {
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="not-prose mt-2 flex flex-wrap gap-1.5 border-t pt-2">
+      {citations.map((citation) => {
+        const Icon = citation.targetType === 'entity' ? BookMarked : FileText;
+        const className =
+          'bg-background hover:bg-muted inline-flex max-w-full items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors';
+        const content = (
+          <>
+            <span className="text-primary font-medium">{citation.marker}</span>
+            <Icon className="text-muted-foreground size-3 shrink-0" />
+            <span className="truncate">{citation.label}</span>
+          </>
+        );
+
+        if (citation.targetType === 'entity') {
+          return scope.isPlayer ?
+              <Link
+                key={citation.marker}
+                to="/projects/$projectId/player/$entityId"
+                params={{ projectId: scope.projectId, entityId: citation.entityId }}
+                className={className}
+              >
+                {content}
+              </Link>
+            : <Link
+                key={citation.marker}
+                to="/entities/$entityId"
+                params={{ entityId: citation.entityId }}
+                search={{ project: scope.projectId }}
+                className={className}
+              >
+                {content}
+              </Link>;
+        }
+
+        return scope.isPlayer ?
+            <Link
+              key={citation.marker}
+              to="/projects/$projectId/player/documents/$documentId"
+              params={{ projectId: scope.projectId, documentId: citation.documentId }}
+              className={className}
+            >
+              {content}
+            </Link>
+          : <Link
+              key={citation.marker}
+              to="/projects/$projectId/documents/$documentId"
+              params={{ projectId: scope.projectId, documentId: citation.documentId }}
+              className={className}
+            >
+              {content}
+            </Link>;
+      })}
+    </div>
+  );
 }
 
 type StreamingMessageProps = {
   streamId: string;
   siteUrl: string;
+  citations?: ChatCitation[];
+  scope: CitationScope | null;
   onComplete?: (content: string) => void;
 };
 
-function StreamingMessage({ streamId, siteUrl, onComplete }: StreamingMessageProps) {
+function StreamingMessage({
+  streamId,
+  siteUrl,
+  citations = [],
+  scope,
+  onComplete,
+}: StreamingMessageProps) {
   const streamUrl = new URL(`${siteUrl}/chat-stream`);
   const hasCalledComplete = useRef(false);
 
@@ -74,7 +227,9 @@ function StreamingMessage({ streamId, siteUrl, onComplete }: StreamingMessagePro
 
   return (
     <>
-      <MarkdownContent>{text || '...'}</MarkdownContent>
+      <MarkdownContent citations={citations} scope={scope}>
+        {text || '...'}
+      </MarkdownContent>
       {status === 'streaming' && <span className="ml-1 inline-block animate-pulse">▋</span>}
     </>
   );
@@ -106,7 +261,23 @@ function ThinkingIndicator() {
   );
 }
 
-export function VellumChat() {
+type VellumChatProps = {
+  /** Unset for a conversation that has not started; the first message creates the thread. */
+  threadId?: Id<'chatThreads'>;
+  /** Answers draw on this project's canon; general chat when unset. */
+  projectId?: Id<'projects'>;
+  projectName?: string;
+  onThreadCreated: (threadId: Id<'chatThreads'>) => void;
+  onForked: (threadId: Id<'chatThreads'>) => void;
+};
+
+export function VellumChat({
+  threadId,
+  projectId,
+  projectName,
+  onThreadCreated,
+  onForked,
+}: VellumChatProps) {
   const [localMessages, setLocalMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -114,39 +285,74 @@ export function VellumChat() {
   const [currentStreamId, setCurrentStreamId] = useState<string | null>(null);
   const [pendingAssistantId, setPendingAssistantId] = useState<string | null>(null);
 
-  const savedMessages = useQuery(api.chatHistory.list, { limit: 100 });
+  const {
+    results: savedMessages,
+    status: historyStatus,
+    loadMore,
+  } = usePaginatedQuery(api.chatHistory.list, threadId ? { threadId } : 'skip', {
+    initialNumItems: MESSAGES_PER_PAGE,
+  });
+  const role = useQuery(api.projects.getRole, projectId ? { id: projectId } : 'skip');
+  const createThread = useMutation(api.chatHistory.createThread);
+  const forkThread = useMutation(api.chatHistory.forkThread);
   const sendMessage = useMutation(api.chatHistory.send);
-  const clearHistory = useMutation(api.chatHistory.clear);
   const createStreamingChat = useMutation(api.chat.createStreamingChat);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // The thread this component created (and is still streaming into) survives the
+  // navigation to it; any other thread change starts from a clean slate.
+  const createdThreadRef = useRef<Id<'chatThreads'> | null>(null);
+  const streamThreadRef = useRef<Id<'chatThreads'> | null>(null);
+
+  useEffect(() => {
+    if (threadId && threadId === createdThreadRef.current) return;
+    setLocalMessages([]);
+    setCurrentStreamId(null);
+    setPendingAssistantId(null);
+    setError(null);
+  }, [threadId]);
+
+  // Pages arrive newest first.
+  const dbMessages: Message[] = savedMessages.toReversed().map((m) => ({
+    id: m._id,
+    messageId: m._id,
+    role: m.role,
+    content: m.content,
+    citations: m.citations,
+  }));
 
-  const dbMessages: Message[] =
-    savedMessages?.map((m) => ({
-      id: m._id,
-      role: m.role,
-      content: m.content,
-    })) ?? [];
+  const scope: CitationScope | null = projectId ? { projectId, isPlayer: role === 'player' } : null;
 
   const allMessages = [...dbMessages, ...localMessages];
 
+  // Follow the newest message, but stay put when older pages load above it.
+  const lastMessageId = allMessages.at(-1)?.id;
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [dbMessages.length, localMessages.length, isLoading, currentStreamId]);
+  }, [lastMessageId, isLoading, currentStreamId]);
 
   const handleStreamComplete = async (content: string) => {
-    if (!pendingAssistantId) return;
-
-    await sendMessage({ role: 'assistant', content });
+    const streamThreadId = streamThreadRef.current;
+    if (!pendingAssistantId || !streamThreadId) return;
+
+    await sendMessage({
+      threadId: streamThreadId,
+      role: 'assistant',
+      content,
+      streamId: currentStreamId ?? undefined,
+    });
     setLocalMessages((prev) => prev.filter((m) => m.id !== pendingAssistantId));
     setPendingAssistantId(null);
     setCurrentStreamId(null);
   };
 
-  const handleClearHistory = async () => {
-    await clearHistory({});
-    setLocalMessages([]);
+  const handleFork = async (messageId: Id<'chatMessages'>) => {
+    try {
+      onForked(await forkThread({ messageId }));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -163,15 +369,24 @@ export function VellumChat() {
     setIsLoading(true);
 
     try {
-      await sendMessage({ role: 'user', content: userContent });
+      let activeThreadId = threadId;
+      if (!activeThreadId) {
+        activeThreadId = await createThread({ projectId });
+        createdThreadRef.current = activeThreadId;
+        onThreadCreated(activeThreadId);
+      }
+      streamThreadRef.current = activeThreadId;
+
+      await sendMessage({ threadId: activeThreadId, role: 'user', content: userContent });
       setLocalMessages((prev) => prev.filter((m) => m.id !== userMessageId));
 
       const messagesForApi = [...dbMessages, { role: 'user' as const, content: userContent }].map(
         ({ role, content }) => ({ role, content })
       );
 
-      const { streamId, token } = await createStreamingChat({
+      const { streamId, token, citations } = await createStreamingChat({
         messages: messagesForApi,
+        projectId,
       });
 
       const assistantId = generateId();
@@ -180,6 +395,7 @@ export function VellumChat() {
         role: 'assistant',
         content: '',
         streamId,
+        citations,
       };
 
       setPendingAssistantId(assistantId);
@@ -219,17 +435,44 @@ export function VellumChat() {
   return (
     <div className="flex h-full flex-col">
       <div ref={scrollRef} className="flex-1 space-y-3 overflow-y-auto p-4 px-6">
-        {allMessages.length === 0 && (
+        {threadId && historyStatus === 'LoadingFirstPage' && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="text-muted-foreground size-5 animate-spin" />
+          </div>
+        )}
+
+        {(historyStatus === 'CanLoadMore' || historyStatus === 'LoadingMore') && (
+          <div className="flex justify-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => loadMore(MESSAGES_PER_PAGE)}
+              disabled={historyStatus === 'LoadingMore'}
+            >
+              {historyStatus === 'LoadingMore' && <Loader2 className="size-4 animate-spin" />}
+              Load earlier messages
+            </Button>
+          </div>
+        )}
+
+        {allMessages.length === 0 && (!threadId || historyStatus !== 'LoadingFirstPage') && (
           <div className="text-muted-foreground py-8 text-center">
             <p className="mb-1 font-serif text-sm">The archives are open.</p>
-            <p className="text-xs">Ask me anything about your world.</p>
+            <p className="text-xs">
+              {projectName ?
+                `Ask me anything about ${projectName}. I'll cite the canon I draw on.`
+              : 'Ask me anything about your world.'}
+            </p>
           </div>
         )}
 
         {allMessages.map((msg) => (
           <div
             key={msg.id}
-            className={cn('flex items-start gap-2', msg.role === 'user' && 'flex-row-reverse')}
+            className={cn(
+              'group flex items-start gap-2',
+              msg.role === 'user' && 'flex-row-reverse'
+            )}
           >
             <div
               className={cn(
@@ -257,10 +500,37 @@ export function VellumChat() {
                 <StreamingMessage
                   streamId={msg.streamId}
                   siteUrl={CONVEX_SITE_URL}
+                  citations={msg.citations}
+                  scope={scope}
                   onComplete={handleStreamComplete}
                 />
-              : <MarkdownContent>{msg.content}</MarkdownContent>}
+              : <>
+                  <MarkdownContent citations={msg.citations} scope={scope}>
+                    {msg.content}
+                  </MarkdownContent>
+                  {scope && msg.citations && (
+                    <CitationSources
+                      citations={citedSources(msg.content, msg.citations)}
+                      scope={scope}
+                    />
+                  )}
+                </>
+              }
             </div>
+            {msg.messageId && (
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="size-6 self-center opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                onClick={() => msg.messageId && handleFork(msg.messageId)}
+                disabled={isLoading}
+                title="Fork conversation from here"
+                aria-label="Fork conversation from here"
+              >
+                <GitBranch className="size-3" />
+              </Button>
+            )}
           </div>
         ))}
 
@@ -286,7 +556,7 @@ export function VellumChat() {
           <Input
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
-            placeholder="Ask Vellum..."
+            placeholder={projectName ? `Ask Vellum about ${projectName}...` : 'Ask Vellum...'}
             className="flex-1 text-sm"
             disabled={isLoading}
           />
@@ -295,18 +565,6 @@ export function VellumChat() {
               <Loader2 className="size-4 animate-spin" />
             : <Send className="size-4" />}
           </Button>
-          {allMessages.length > 0 && (
-            <Button
-              type="button"
-              size="icon"
-              variant="ghost"
-              onClick={handleClearHistory}
-              disabled={isLoading}
-              title="Clear chat history"
-            >
-              <Trash2 className="size-4" />
-            </Button>
-          )}
         </form>
       </div>
     </div>
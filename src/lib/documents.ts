@@ -0,0 +1,12 @@
+import type { ProcessingProgress } from '../../convex/lib/documentChunks';
+
+const stageLabels: Record<ProcessingProgress['stage'], string> = {
+  indexing: 'Indexing',
+  extraction: 'Extracting',
+  check: 'Checking',
+};
+
+/** Progress of a chunked run on a long document, e.g. "Extracting: 3 of 12 chunks". */
+export function describeProcessingProgress(progress: ProcessingProgress): string {
+  return `${stageLabels[progress.stage]}: ${progress.completedChunks} of ${progress.totalChunks} chunks`;
+}
@@ -0,0 +1,94 @@
+import {
+  BookOpen,
+  Calendar,
+  Castle,
+  Crown,
+  Flag,
+  Flame,
+  Gem,
+  Landmark,
+  Lightbulb,
+  MapPin,
+  Package,
+  Scroll,
+  Shield,
+  Ship,
+  Skull,
+  Sparkles,
+  Swords,
+  User,
+  Users,
+  type LucideIcon,
+} from 'lucide-react';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import type { ENTITY_TYPE_ICONS } from '../../convex/lib/constants';
+
+export type EntityType = Doc<'entities'>['type'];
+export type EntityTypeIcon = (typeof ENTITY_TYPE_ICONS)[number];
+export type CustomEntityType = Pick<
+  Doc<'entityTypes'>,
+  '_id' | 'name' | 'icon' | 'color' | 'description' | 'baseType'
+>;
+
+/** A built-in type, 'all', or the id of a project-defined type. */
+export type EntityTypeFilterValue = EntityType | 'all' | Id<'entityTypes'>;
+
+export const ENTITY_TYPE_ICON_COMPONENTS: Record<EntityTypeIcon, LucideIcon> = {
+  user: User,
+  users: Users,
+  'map-pin': MapPin,
+  castle: Castle,
+  landmark: Landmark,
+  package: Package,
+  gem: Gem,
+  swords: Swords,
+  shield: Shield,
+  crown: Crown,
+  lightbulb: Lightbulb,
+  sparkles: Sparkles,
+  flame: Flame,
+  scroll: Scroll,
+  'book-open': BookOpen,
+  skull: Skull,
+  ship: Ship,
+  flag: Flag,
+  calendar: Calendar,
+};
+
+export function getEntityTypeIcon(icon: string): LucideIcon {
+  return ENTITY_TYPE_ICON_COMPONENTS[icon as EntityTypeIcon] ?? Sparkles;
+}
+
+const BUILT_IN_TYPES = new Set<string>(['character', 'location', 'item', 'concept', 'event']);
+
+// Entities with a custom type only match that type, never the built-in it is stored under.
+export function matchesEntityTypeFilter(
+  entity: { type: EntityType; customTypeId?: Id<'entityTypes'> },
+  value: EntityTypeFilterValue
+): boolean {
+  if (value === 'all') return true;
+  if (BUILT_IN_TYPES.has(value)) return !entity.customTypeId && entity.type === value;
+  return entity.customTypeId === value;
+}
+
+export function countEntityTypes(
+  entities: Array<{ type: EntityType; customTypeId?: Id<'entityTypes'> }>
+): Record<string, number> {
+  const counts: Record<string, number> = { all: entities.length };
+  for (const type of BUILT_IN_TYPES) {
+    counts[type] = 0;
+  }
+  for (const entity of entities) {
+    const key = entity.customTypeId ?? entity.type;
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+export function findCustomType(
+  customTypes: CustomEntityType[] | undefined,
+  customTypeId: Id<'entityTypes'> | undefined
+): CustomEntityType | undefined {
+  if (!customTypeId) return undefined;
+  return customTypes?.find((type) => type._id === customTypeId);
+}
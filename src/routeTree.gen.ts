@@ -21,14 +21,17 @@ import { Route as ProjectsProjectIdIndexRouteImport } from './routes/projects/$p
 import { Route as ProjectsProjectIdFactsRouteImport } from './routes/projects/$projectId/facts'
 import { Route as ProjectsProjectIdEntitiesRouteImport } from './routes/projects/$projectId/entities'
 import { Route as ProjectsProjectIdReviewRouteRouteImport } from './routes/projects/$projectId/review/route'
+import { Route as ProjectsProjectIdPlayerRouteRouteImport } from './routes/projects/$projectId/player/route'
 import { Route as ProjectsProjectIdDocumentsRouteRouteImport } from './routes/projects/$projectId/documents/route'
 import { Route as ProjectsProjectIdCanonRouteRouteImport } from './routes/projects/$projectId/canon/route'
 import { Route as ProjectsProjectIdAlertsRouteRouteImport } from './routes/projects/$projectId/alerts/route'
 import { Route as ProjectsProjectIdReviewIndexRouteImport } from './routes/projects/$projectId/review/index'
+import { Route as ProjectsProjectIdPlayerIndexRouteImport } from './routes/projects/$projectId/player/index'
 import { Route as ProjectsProjectIdNotesIndexRouteImport } from './routes/projects/$projectId/notes/index'
 import { Route as ProjectsProjectIdDocumentsIndexRouteImport } from './routes/projects/$projectId/documents/index'
 import { Route as ProjectsProjectIdCanonIndexRouteImport } from './routes/projects/$projectId/canon/index'
 import { Route as ProjectsProjectIdReviewDocumentIdRouteImport } from './routes/projects/$projectId/review/$documentId'
+import { Route as ProjectsProjectIdPlayerEntityIdRouteImport } from './routes/projects/$projectId/player/$entityId'
 import { Route as ProjectsProjectIdNotesNewRouteImport } from './routes/projects/$projectId/notes/new'
 import { Route as ProjectsProjectIdNotesNoteIdRouteImport } from './routes/projects/$projectId/notes/$noteId'
 import { Route as ProjectsProjectIdDocumentsNewRouteImport } from './routes/projects/$projectId/documents/new'
@@ -37,6 +40,7 @@ import { Route as ProjectsProjectIdCanonTimelineRouteImport } from './routes/pro
 import { Route as ProjectsProjectIdCanonSearchRouteImport } from './routes/projects/$projectId/canon/search'
 import { Route as ProjectsProjectIdCanonConnectionsRouteImport } from './routes/projects/$projectId/canon/connections'
 import { Route as ProjectsProjectIdAlertsAlertIdRouteImport } from './routes/projects/$projectId/alerts/$alertId'
+import { Route as ProjectsProjectIdPlayerDocumentsDocumentIdRouteImport } from './routes/projects/$projectId/player/documents/$documentId'
 
 const SignUpRoute = SignUpRouteImport.update({
   id: '/sign-up',
@@ -100,6 +104,12 @@ const ProjectsProjectIdReviewRouteRoute =
     path: '/$projectId/review',
     getParentRoute: () => ProjectsRoute,
   } as any)
+const ProjectsProjectIdPlayerRouteRoute =
+  ProjectsProjectIdPlayerRouteRouteImport.update({
+    id: '/$projectId/player',
+    path: '/$projectId/player',
+    getParentRoute: () => ProjectsRoute,
+  } as any)
 const ProjectsProjectIdDocumentsRouteRoute =
   ProjectsProjectIdDocumentsRouteRouteImport.update({
     id: '/$projectId/documents',
@@ -124,6 +134,12 @@ const ProjectsProjectIdReviewIndexRoute =
     path: '/',
     getParentRoute: () => ProjectsProjectIdReviewRouteRoute,
   } as any)
+const ProjectsProjectIdPlayerIndexRoute =
+  ProjectsProjectIdPlayerIndexRouteImport.update({
+    id: '/',
+    path: '/',
+    getParentRoute: () => ProjectsProjectIdPlayerRouteRoute,
+  } as any)
 const ProjectsProjectIdNotesIndexRoute =
   ProjectsProjectIdNotesIndexRouteImport.update({
     id: '/$projectId/notes/',
@@ -148,6 +164,12 @@ const ProjectsProjectIdReviewDocumentIdRoute =
     path: '/$documentId',
     getParentRoute: () => ProjectsProjectIdReviewRouteRoute,
   } as any)
+const ProjectsProjectIdPlayerEntityIdRoute =
+  ProjectsProjectIdPlayerEntityIdRouteImport.update({
+    id: '/$entityId',
+    path: '/$entityId',
+    getParentRoute: () => ProjectsProjectIdPlayerRouteRoute,
+  } as any)
 const ProjectsProjectIdNotesNewRoute =
   ProjectsProjectIdNotesNewRouteImport.update({
     id: '/$projectId/notes/new',
@@ -196,6 +218,12 @@ const ProjectsProjectIdAlertsAlertIdRoute =
     path: '/$alertId',
     getParentRoute: () => ProjectsProjectIdAlertsRouteRoute,
   } as any)
+const ProjectsProjectIdPlayerDocumentsDocumentIdRoute =
+  ProjectsProjectIdPlayerDocumentsDocumentIdRouteImport.update({
+    id: '/documents/$documentId',
+    path: '/documents/$documentId',
+    getParentRoute: () => ProjectsProjectIdPlayerRouteRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
@@ -209,6 +237,7 @@ export interface FileRoutesByFullPath {
   '/projects/$projectId/alerts': typeof ProjectsProjectIdAlertsRouteRouteWithChildren
   '/projects/$projectId/canon': typeof ProjectsProjectIdCanonRouteRouteWithChildren
   '/projects/$projectId/documents': typeof ProjectsProjectIdDocumentsRouteRouteWithChildren
+  '/projects/$projectId/player': typeof ProjectsProjectIdPlayerRouteRouteWithChildren
   '/projects/$projectId/review': typeof ProjectsProjectIdReviewRouteRouteWithChildren
   '/projects/$projectId/entities': typeof ProjectsProjectIdEntitiesRoute
   '/projects/$projectId/facts': typeof ProjectsProjectIdFactsRoute
@@ -221,11 +250,14 @@ export interface FileRoutesByFullPath {
   '/projects/$projectId/documents/new': typeof ProjectsProjectIdDocumentsNewRoute
   '/projects/$projectId/notes/$noteId': typeof ProjectsProjectIdNotesNoteIdRoute
   '/projects/$projectId/notes/new': typeof ProjectsProjectIdNotesNewRoute
+  '/projects/$projectId/player/$entityId': typeof ProjectsProjectIdPlayerEntityIdRoute
   '/projects/$projectId/review/$documentId': typeof ProjectsProjectIdReviewDocumentIdRoute
   '/projects/$projectId/canon/': typeof ProjectsProjectIdCanonIndexRoute
   '/projects/$projectId/documents/': typeof ProjectsProjectIdDocumentsIndexRoute
   '/projects/$projectId/notes/': typeof ProjectsProjectIdNotesIndexRoute
+  '/projects/$projectId/player/': typeof ProjectsProjectIdPlayerIndexRoute
   '/projects/$projectId/review/': typeof ProjectsProjectIdReviewIndexRoute
+  '/projects/$projectId/player/documents/$documentId': typeof ProjectsProjectIdPlayerDocumentsDocumentIdRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
@@ -247,11 +279,14 @@ export interface FileRoutesByTo {
   '/projects/$projectId/documents/new': typeof ProjectsProjectIdDocumentsNewRoute
   '/projects/$projectId/notes/$noteId': typeof ProjectsProjectIdNotesNoteIdRoute
   '/projects/$projectId/notes/new': typeof ProjectsProjectIdNotesNewRoute
+  '/projects/$projectId/player/$entityId': typeof ProjectsProjectIdPlayerEntityIdRoute
   '/projects/$projectId/review/$documentId': typeof ProjectsProjectIdReviewDocumentIdRoute
   '/projects/$projectId/canon': typeof ProjectsProjectIdCanonIndexRoute
   '/projects/$projectId/documents': typeof ProjectsProjectIdDocumentsIndexRoute
   '/projects/$projectId/notes': typeof ProjectsProjectIdNotesIndexRoute
+  '/projects/$projectId/player': typeof ProjectsProjectIdPlayerIndexRoute
   '/projects/$projectId/review': typeof ProjectsProjectIdReviewIndexRoute
+  '/projects/$projectId/player/documents/$documentId': typeof ProjectsProjectIdPlayerDocumentsDocumentIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -266,6 +301,7 @@ export interface FileRoutesById {
   '/projects/$projectId/alerts': typeof ProjectsProjectIdAlertsRouteRouteWithChildren
   '/projects/$projectId/canon': typeof ProjectsProjectIdCanonRouteRouteWithChildren
   '/projects/$projectId/documents': typeof ProjectsProjectIdDocumentsRouteRouteWithChildren
+  '/projects/$projectId/player': typeof ProjectsProjectIdPlayerRouteRouteWithChildren
   '/projects/$projectId/review': typeof ProjectsProjectIdReviewRouteRouteWithChildren
   '/projects/$projectId/entities': typeof ProjectsProjectIdEntitiesRoute
   '/projects/$projectId/facts': typeof ProjectsProjectIdFactsRoute
@@ -278,11 +314,14 @@ export interface FileRoutesById {
   '/projects/$projectId/documents/new': typeof ProjectsProjectIdDocumentsNewRoute
   '/projects/$projectId/notes/$noteId': typeof ProjectsProjectIdNotesNoteIdRoute
   '/projects/$projectId/notes/new': typeof ProjectsProjectIdNotesNewRoute
+  '/projects/$projectId/player/$entityId': typeof ProjectsProjectIdPlayerEntityIdRoute
   '/projects/$projectId/review/$documentId': typeof ProjectsProjectIdReviewDocumentIdRoute
   '/projects/$projectId/canon/': typeof ProjectsProjectIdCanonIndexRoute
   '/projects/$projectId/documents/': typeof ProjectsProjectIdDocumentsIndexRoute
   '/projects/$projectId/notes/': typeof ProjectsProjectIdNotesIndexRoute
+  '/projects/$projectId/player/': typeof ProjectsProjectIdPlayerIndexRoute
   '/projects/$projectId/review/': typeof ProjectsProjectIdReviewIndexRoute
+  '/projects/$projectId/player/documents/$documentId': typeof ProjectsProjectIdPlayerDocumentsDocumentIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -298,6 +337,7 @@ export interface FileRouteTypes {
     | '/projects/$projectId/alerts'
     | '/projects/$projectId/canon'
     | '/projects/$projectId/documents'
+    | '/projects/$projectId/player'
     | '/projects/$projectId/review'
     | '/projects/$projectId/entities'
     | '/projects/$projectId/facts'
@@ -310,11 +350,14 @@ export interface FileRouteTypes {
     | '/projects/$projectId/documents/new'
     | '/projects/$projectId/notes/$noteId'
     | '/projects/$projectId/notes/new'
+    | '/projects/$projectId/player/$entityId'
     | '/projects/$projectId/review/$documentId'
     | '/projects/$projectId/canon/'
     | '/projects/$projectId/documents/'
     | '/projects/$projectId/notes/'
+    | '/projects/$projectId/player/'
     | '/projects/$projectId/review/'
+    | '/projects/$projectId/player/documents/$documentId'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
@@ -336,11 +379,14 @@ export interface FileRouteTypes {
     | '/projects/$projectId/documents/new'
     | '/projects/$projectId/notes/$noteId'
     | '/projects/$projectId/notes/new'
+    | '/projects/$projectId/player/$entityId'
     | '/projects/$projectId/review/$documentId'
     | '/projects/$projectId/canon'
     | '/projects/$projectId/documents'
     | '/projects/$projectId/notes'
+    | '/projects/$projectId/player'
     | '/projects/$projectId/review'
+    | '/projects/$projectId/player/documents/$documentId'
   id:
     | '__root__'
     | '/'
@@ -354,6 +400,7 @@ export interface FileRouteTypes {
     | '/projects/$projectId/alerts'
     | '/projects/$projectId/canon'
     | '/projects/$projectId/documents'
+    | '/projects/$projectId/player'
     | '/projects/$projectId/review'
     | '/projects/$projectId/entities'
     | '/projects/$projectId/facts'
@@ -366,11 +413,14 @@ export interface FileRouteTypes {
     | '/projects/$projectId/documents/new'
     | '/projects/$projectId/notes/$noteId'
     | '/projects/$projectId/notes/new'
+    | '/projects/$projectId/player/$entityId'
     | '/projects/$projectId/review/$documentId'
     | '/projects/$projectId/canon/'
     | '/projects/$projectId/documents/'
     | '/projects/$projectId/notes/'
+    | '/projects/$projectId/player/'
     | '/projects/$projectId/review/'
+    | '/projects/$projectId/player/documents/$documentId'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -469,6 +519,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ProjectsProjectIdReviewRouteRouteImport
       parentRoute: typeof ProjectsRoute
     }
+    '/projects/$projectId/player': {
+      id: '/projects/$projectId/player'
+      path: '/$projectId/player'
+      fullPath: '/projects/$projectId/player'
+      preLoaderRoute: typeof ProjectsProjectIdPlayerRouteRouteImport
+      parentRoute: typeof ProjectsRoute
+    }
     '/projects/$projectId/documents': {
       id: '/projects/$projectId/documents'
       path: '/$projectId/documents'
@@ -497,6 +554,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ProjectsProjectIdReviewIndexRouteImport
       parentRoute: typeof ProjectsProjectIdReviewRouteRoute
     }
+    '/projects/$projectId/player/': {
+      id: '/projects/$projectId/player/'
+      path: '/'
+      fullPath: '/projects/$projectId/player/'
+      preLoaderRoute: typeof ProjectsProjectIdPlayerIndexRouteImport
+      parentRoute: typeof ProjectsProjectIdPlayerRouteRoute
+    }
     '/projects/$projectId/notes/': {
       id: '/projects/$projectId/notes/'
       path: '/$projectId/notes'
@@ -525,6 +589,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ProjectsProjectIdReviewDocumentIdRouteImport
       parentRoute: typeof ProjectsProjectIdReviewRouteRoute
     }
+    '/projects/$projectId/player/$entityId': {
+      id: '/projects/$projectId/player/$entityId'
+      path: '/$entityId'
+      fullPath: '/projects/$projectId/player/$entityId'
+      preLoaderRoute: typeof ProjectsProjectIdPlayerEntityIdRouteImport
+      parentRoute: typeof ProjectsProjectIdPlayerRouteRoute
+    }
     '/projects/$projectId/notes/new': {
       id: '/projects/$projectId/notes/new'
       path: '/$projectId/notes/new'
@@ -581,6 +652,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ProjectsProjectIdAlertsAlertIdRouteImport
       parentRoute: typeof ProjectsProjectIdAlertsRouteRoute
     }
+    '/projects/$projectId/player/documents/$documentId': {
+      id: '/projects/$projectId/player/documents/$documentId'
+      path: '/documents/$documentId'
+      fullPath: '/projects/$projectId/player/documents/$documentId'
+      preLoaderRoute: typeof ProjectsProjectIdPlayerDocumentsDocumentIdRouteImport
+      parentRoute: typeof ProjectsProjectIdPlayerRouteRoute
+    }
   }
 }
 
@@ -638,6 +716,25 @@ const ProjectsProjectIdDocumentsRouteRouteWithChildren =
     ProjectsProjectIdDocumentsRouteRouteChildren,
   )
 
+interface ProjectsProjectIdPlayerRouteRouteChildren {
+  ProjectsProjectIdPlayerEntityIdRoute: typeof ProjectsProjectIdPlayerEntityIdRoute
+  ProjectsProjectIdPlayerIndexRoute: typeof ProjectsProjectIdPlayerIndexRoute
+  ProjectsProjectIdPlayerDocumentsDocumentIdRoute: typeof ProjectsProjectIdPlayerDocumentsDocumentIdRoute
+}
+
+const ProjectsProjectIdPlayerRouteRouteChildren: ProjectsProjectIdPlayerRouteRouteChildren =
+  {
+    ProjectsProjectIdPlayerEntityIdRoute: ProjectsProjectIdPlayerEntityIdRoute,
+    ProjectsProjectIdPlayerIndexRoute: ProjectsProjectIdPlayerIndexRoute,
+    ProjectsProjectIdPlayerDocumentsDocumentIdRoute:
+      ProjectsProjectIdPlayerDocumentsDocumentIdRoute,
+  }
+
+const ProjectsProjectIdPlayerRouteRouteWithChildren =
+  ProjectsProjectIdPlayerRouteRoute._addFileChildren(
+    ProjectsProjectIdPlayerRouteRouteChildren,
+  )
+
 interface ProjectsProjectIdReviewRouteRouteChildren {
   ProjectsProjectIdReviewDocumentIdRoute: typeof ProjectsProjectIdReviewDocumentIdRoute
   ProjectsProjectIdReviewIndexRoute: typeof ProjectsProjectIdReviewIndexRoute
@@ -660,6 +757,7 @@ interface ProjectsRouteChildren {
   ProjectsProjectIdAlertsRouteRoute: typeof ProjectsProjectIdAlertsRouteRouteWithChildren
   ProjectsProjectIdCanonRouteRoute: typeof ProjectsProjectIdCanonRouteRouteWithChildren
   ProjectsProjectIdDocumentsRouteRoute: typeof ProjectsProjectIdDocumentsRouteRouteWithChildren
+  ProjectsProjectIdPlayerRouteRoute: typeof ProjectsProjectIdPlayerRouteRouteWithChildren
   ProjectsProjectIdReviewRouteRoute: typeof ProjectsProjectIdReviewRouteRouteWithChildren
   ProjectsProjectIdEntitiesRoute: typeof ProjectsProjectIdEntitiesRoute
   ProjectsProjectIdFactsRoute: typeof ProjectsProjectIdFactsRoute
@@ -677,6 +775,8 @@ const ProjectsRouteChildren: ProjectsRouteChildren = {
     ProjectsProjectIdCanonRouteRouteWithChildren,
   ProjectsProjectIdDocumentsRouteRoute:
     ProjectsProjectIdDocumentsRouteRouteWithChildren,
+  ProjectsProjectIdPlayerRouteRoute:
+    ProjectsProjectIdPlayerRouteRouteWithChildren,
   ProjectsProjectIdReviewRouteRoute:
     ProjectsProjectIdReviewRouteRouteWithChildren,
   ProjectsProjectIdEntitiesRoute: ProjectsProjectIdEntitiesRoute,
@@ -1,6 +1,6 @@
 import { createFileRoute, Link, useNavigate } from '@tanstack/react-router';
-import { useQuery, useMutation } from 'convex/react';
-import { useState } from 'react';
+import { useQuery, useMutation, useAction } from 'convex/react';
+import { useEffect, useState } from 'react';
 import {
   ArrowLeft,
   User,
@@ -21,6 +21,8 @@ import {
   EyeOff,
   Lock,
   Trash2,
+  Check,
+  ArrowRight,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { api } from '../../convex/_generated/api';
@@ -50,7 +52,10 @@ import {
 import { LoadingState } from '@/components/LoadingState';
 import { EmptyState } from '@/components/EmptyState';
 import { EntityNotesPanel } from '@/components/EntityNotesPanel';
+import { EntityHistoryPanel } from '@/components/EntityHistoryPanel';
+import { EntityInfobox } from '@/components/EntityInfobox';
 import { cn } from '@/lib/utils';
+import { findCustomType, getEntityTypeIcon, type CustomEntityType } from '@/lib/entityTypes';
 import { getErrorMessage } from '@/lib/errors';
 
 export const Route = createFileRoute('/entities/$entityId')({
@@ -110,6 +115,10 @@ function EntityDetailPage() {
   const project = useQuery(api.projects.get, entityProjectId ? { id: entityProjectId } : 'skip');
   const canRevealToPlayers =
     project?.projectType === 'ttrpg' && project.revealToPlayersEnabled !== false;
+  const customTypes = useQuery(
+    api.entityTypes.list,
+    entityProjectId ? { projectId: entityProjectId } : 'skip'
+  );
 
   const revealEntity = useMutation(api.entities.revealToPlayers);
   const hideEntity = useMutation(api.entities.hideFromPlayers);
@@ -150,9 +159,10 @@ function EntityDetailPage() {
     );
   }
 
-  const { entity, facts, appearances, relatedEntities } = data;
+  const { entity, facts, appearances } = data;
   const projectId = entity.projectId;
   const config = typeConfig[entity.type] ?? defaultConfig;
+  const customType = findCustomType(customTypes, entity.customTypeId);
 
   return (
     <div className="container mx-auto space-y-8 p-6">
@@ -169,6 +179,7 @@ function EntityDetailPage() {
       {isEditing ?
         <EntityEditForm
           entity={entity}
+          customTypes={customTypes ?? []}
           onCancel={() => setIsEditing(false)}
           onSave={() => setIsEditing(false)}
         />
@@ -176,6 +187,7 @@ function EntityDetailPage() {
           <EntityHeader
             entity={entity}
             config={config}
+            customType={customType}
             onEdit={() => setIsEditing(true)}
             onDelete={() => setShowDeleteDialog(true)}
             isManuallyCreated={isManuallyCreated}
@@ -193,11 +205,13 @@ function EntityDetailPage() {
                 entityName={entity.name}
               />
               <EvidencePanel facts={facts} />
+              <RelatedFactsPanel entityId={entity._id} projectId={projectId} />
             </div>
 
             <div className="space-y-6">
+              <EntityInfobox entity={entity} typeLabel={customType?.name ?? config.label} />
               <AppearanceTimeline appearances={appearances} projectId={projectId} />
-              <RelatedEntitiesCard entities={relatedEntities} projectId={projectId} />
+              <RelationshipsCard entity={entity} projectId={projectId} />
             </div>
           </div>
 
@@ -229,6 +243,7 @@ function EntityDetailPage() {
 type EntityHeaderProps = {
   entity: Doc<'entities'>;
   config: (typeof typeConfig)[EntityType];
+  customType?: CustomEntityType;
   onEdit: () => void;
   onDelete?: () => void;
   isManuallyCreated?: boolean;
@@ -240,6 +255,7 @@ type EntityHeaderProps = {
 function EntityHeader({
   entity,
   config,
+  customType,
   onEdit,
   onDelete,
   isManuallyCreated,
@@ -247,7 +263,9 @@ function EntityHeader({
   onReveal,
   onHide,
 }: EntityHeaderProps) {
-  const Icon = config.icon;
+  const Icon = customType ? getEntityTypeIcon(customType.icon) : config.icon;
+  const typeStyle =
+    customType ? { color: customType.color, backgroundColor: `${customType.color}26` } : undefined;
 
   return (
     <div className="flex items-start justify-between gap-4">
@@ -255,15 +273,18 @@ function EntityHeader({
         <div
           className={cn(
             'flex size-14 shrink-0 items-center justify-center rounded-xl shadow-sm ring-1',
-            config.colorClass
+            customType ? 'ring-current/20' : config.colorClass
           )}
+          style={typeStyle}
         >
           <Icon className="size-7" />
         </div>
         <div className="space-y-2">
           <div className="flex items-center gap-3">
             <h1 className="font-serif text-3xl font-bold">{entity.name}</h1>
-            <Badge className={cn('capitalize', config.colorClass)}>{config.label}</Badge>
+            {customType ?
+              <Badge style={typeStyle}>{customType.name}</Badge>
+            : <Badge className={cn('capitalize', config.colorClass)}>{config.label}</Badge>}
             {canRevealToPlayers && entity.status === 'confirmed' && (
               <Badge
                 variant="outline"
@@ -315,6 +336,7 @@ function EntityHeader({
               Reveal to Players
             </Button>)}
         <EntityNotesPanel entityId={entity._id} />
+        <EntityHistoryPanel entityId={entity._id} />
         <Button variant="outline" onClick={onEdit}>
           <Pencil className="mr-2 size-4" />
           Edit
@@ -598,6 +620,65 @@ function EvidencePanel({ facts }: EvidencePanelProps) {
   );
 }
 
+type RelatedFact = Doc<'facts'> & { entityName: string | null; similarity: number };
+
+type RelatedFactsPanelProps = {
+  entityId: Id<'entities'>;
+  projectId: Id<'projects'>;
+};
+
+function RelatedFactsPanel({ entityId, projectId }: RelatedFactsPanelProps) {
+  const findRelated = useAction(api.embeddings.relatedFacts);
+  const [related, setRelated] = useState<RelatedFact[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    findRelated({ entityId })
+      .then((facts) => {
+        if (!cancelled) setRelated(facts);
+      })
+      .catch(() => {
+        // Related facts are a hint; the page is complete without them.
+        if (!cancelled) setRelated([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [findRelated, entityId]);
+
+  if (related.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Related Facts</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {related.map((fact) => (
+          <div key={fact._id} className="flex items-center gap-2 rounded-md border p-3">
+            {fact.entityId ?
+              <Link
+                to="/entities/$entityId"
+                params={{ entityId: fact.entityId }}
+                search={{ project: projectId }}
+                className="hover:text-primary shrink-0 text-sm font-medium transition-colors"
+              >
+                {fact.entityName ?? fact.subject}
+              </Link>
+            : <span className="shrink-0 text-sm font-medium">{fact.subject}</span>}
+            <span className="text-muted-foreground text-sm capitalize">
+              {fact.predicate.replace(/_/g, ' ')}
+            </span>
+            <span className="truncate text-sm">{fact.object}</span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
 type AppearanceTimelineProps = {
   appearances: { _id: Id<'documents'>; title: string; orderIndex: number }[];
   projectId: Id<'projects'>;
@@ -654,65 +735,205 @@ function AppearanceTimeline({ appearances, projectId }: AppearanceTimelineProps)
   );
 }
 
-type RelatedEntitiesCardProps = {
-  entities: Doc<'entities'>[];
+type RelationshipsCardProps = {
+  entity: Doc<'entities'>;
   projectId: Id<'projects'>;
 };
 
-function RelatedEntitiesCard({ entities, projectId }: RelatedEntitiesCardProps) {
-  if (entities.length === 0) {
-    return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2 text-lg">
-            <Users className="size-5" />
-            Related Entities
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-muted-foreground text-sm italic">
-            No relationships found yet. Relationships emerge as your canon grows.
-          </p>
-        </CardContent>
-      </Card>
-    );
-  }
+function RelationshipsCard({ entity, projectId }: RelationshipsCardProps) {
+  const relationships = useQuery(api.relationships.listByEntity, { entityId: entity._id });
+  const entities = useQuery(api.entities.listByProject, { projectId });
+  const createRelationship = useMutation(api.relationships.create);
+  const confirmRelationship = useMutation(api.relationships.confirm);
+  const removeRelationship = useMutation(api.relationships.remove);
+
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [type, setType] = useState('');
+  const [targetId, setTargetId] = useState<Id<'entities'> | ''>('');
+
+  const visibleRelationships = (relationships ?? []).filter((r) => r.status !== 'rejected');
+  const candidates = (entities ?? [])
+    .filter((candidate) => candidate._id !== entity._id)
+    .toSorted((a, b) => a.name.localeCompare(b.name));
+
+  const handleAdd = async () => {
+    if (!type.trim() || !targetId) {
+      toast.error('Please fill in all fields');
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      await createRelationship({
+        projectId,
+        sourceEntityId: entity._id,
+        targetEntityId: targetId,
+        type: type
+          .trim()
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, '_')
+          .replace(/_+/g, '_')
+          .replace(/^_+|_+$/g, ''),
+      });
+      toast.success('Relationship added');
+      setType('');
+      setTargetId('');
+      setShowAddForm(false);
+    } catch (error) {
+      toast.error('Failed to add relationship', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleConfirm = async (id: Id<'relationships'>) => {
+    try {
+      await confirmRelationship({ id });
+    } catch (error) {
+      toast.error('Failed to confirm relationship', { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleRemove = async (id: Id<'relationships'>) => {
+    try {
+      await removeRelationship({ id });
+    } catch (error) {
+      toast.error('Failed to remove relationship', { description: getErrorMessage(error) });
+    }
+  };
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle className="flex items-center gap-2 text-lg">
           <Users className="size-5" />
-          Related Entities ({entities.length})
+          Relationships
+          {visibleRelationships.length > 0 && ` (${visibleRelationships.length})`}
         </CardTitle>
+        <Button variant="ghost" size="sm" onClick={() => setShowAddForm(!showAddForm)}>
+          <Plus className="mr-1 size-4" />
+          Add
+        </Button>
       </CardHeader>
       <CardContent className="space-y-2">
-        {entities.map((entity) => {
-          const config = typeConfig[entity.type] ?? defaultConfig;
-          const Icon = config.icon;
-          return (
-            <Link
-              key={entity._id}
-              to="/entities/$entityId"
-              params={{ entityId: entity._id }}
-              search={{ project: projectId }}
-              className="hover:bg-muted/50 flex items-center gap-3 rounded-md p-2 transition-colors"
-            >
+        {showAddForm && (
+          <div className="bg-muted/30 mb-2 space-y-3 rounded-lg border p-4">
+            <div className="space-y-1">
+              <label htmlFor="relationshipType" className="text-xs font-medium">
+                Relationship
+              </label>
+              <Input
+                id="relationshipType"
+                value={type}
+                onChange={(e) => setType(e.target.value)}
+                placeholder="e.g. ally of, rules, owns"
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="relationshipTarget" className="text-xs font-medium">
+                Related Entity
+              </label>
+              <Select
+                value={targetId || undefined}
+                onValueChange={(v) => setTargetId(v as Id<'entities'>)}
+              >
+                <SelectTrigger id="relationshipTarget" className="h-9">
+                  <SelectValue>
+                    {targetId ?
+                      candidates.find((c) => c._id === targetId)?.name
+                    : <span className="text-muted-foreground">Select an entity...</span>}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((candidate) => (
+                    <SelectItem key={candidate._id} value={candidate._id}>
+                      {candidate.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleAdd} disabled={isAdding || !targetId}>
+                {isAdding && <Loader2 className="mr-1 size-3 animate-spin" />}
+                Add Relationship
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setShowAddForm(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {visibleRelationships.length === 0 ?
+          <p className="text-muted-foreground text-sm italic">
+            No relationships found yet. Relationships emerge as your canon grows.
+          </p>
+        : visibleRelationships.map((relationship) => {
+            const other =
+              relationship.direction === 'outgoing' ? relationship.target : relationship.source;
+            if (!other) return null;
+            const config = typeConfig[other.type] ?? defaultConfig;
+            const Icon = config.icon;
+            return (
               <div
+                key={relationship._id}
                 className={cn(
-                  'flex size-8 items-center justify-center rounded-lg ring-1',
-                  config.colorClass
+                  'group hover:bg-muted/50 flex items-center gap-3 rounded-md p-2 transition-colors',
+                  relationship.status === 'pending' && 'opacity-70'
                 )}
               >
-                <Icon className="size-4" />
-              </div>
-              <div>
-                <p className="text-sm font-medium">{entity.name}</p>
-                <p className="text-muted-foreground text-xs capitalize">{entity.type}</p>
+                <div
+                  className={cn(
+                    'flex size-8 shrink-0 items-center justify-center rounded-lg ring-1',
+                    config.colorClass
+                  )}
+                >
+                  <Icon className="size-4" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <Link
+                    to="/entities/$entityId"
+                    params={{ entityId: other._id }}
+                    search={{ project: projectId }}
+                    className="hover:text-primary block truncate text-sm font-medium transition-colors"
+                  >
+                    {other.name}
+                  </Link>
+                  <p className="text-muted-foreground flex items-center gap-1 text-xs">
+                    {relationship.direction === 'incoming' && <ArrowLeft className="size-3" />}
+                    {relationship.type.replace(/_/g, ' ')}
+                    {relationship.direction === 'outgoing' && <ArrowRight className="size-3" />}
+                  </p>
+                </div>
+                {relationship.status === 'pending' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-muted-foreground size-7 p-0 hover:text-green-600"
+                    onClick={() => handleConfirm(relationship._id)}
+                    title="Confirm relationship"
+                  >
+                    <Check className="size-4" />
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-muted-foreground hover:text-destructive size-7 p-0 opacity-0 transition-opacity group-hover:opacity-100"
+                  onClick={() => handleRemove(relationship._id)}
+                  title="Remove relationship"
+                >
+                  <X className="size-4" />
+                </Button>
               </div>
-            </Link>
-          );
-        })}
+            );
+          })
+        }
       </CardContent>
     </Card>
   );
@@ -720,16 +941,19 @@ function RelatedEntitiesCard({ entities, projectId }: RelatedEntitiesCardProps)
 
 type EntityEditFormProps = {
   entity: Doc<'entities'>;
+  customTypes: CustomEntityType[];
   onCancel: () => void;
   onSave: () => void;
 };
 
-function EntityEditForm({ entity, onCancel, onSave }: EntityEditFormProps) {
+function EntityEditForm({ entity, customTypes, onCancel, onSave }: EntityEditFormProps) {
   const updateEntity = useMutation(api.entities.update);
   const [isSaving, setIsSaving] = useState(false);
 
   const [name, setName] = useState(entity.name);
-  const [type, setType] = useState<EntityType>(entity.type);
+  // Either a built-in type or the id of a project-defined type.
+  const [type, setType] = useState<string>(entity.customTypeId ?? entity.type);
+  const customType = customTypes.find((t) => t._id === type);
   const [description, setDescription] = useState(entity.description ?? '');
   const [aliases, setAliases] = useState<string[]>(entity.aliases);
   const [newAlias, setNewAlias] = useState('');
@@ -745,7 +969,8 @@ function EntityEditForm({ entity, onCancel, onSave }: EntityEditFormProps) {
       await updateEntity({
         id: entity._id,
         name: name.trim(),
-        type,
+        type: customType?.baseType ?? (type as EntityType),
+        customTypeId: customType?._id ?? null,
         description: description.trim() || undefined,
         aliases,
       });
@@ -794,9 +1019,11 @@ function EntityEditForm({ entity, onCancel, onSave }: EntityEditFormProps) {
             <label htmlFor="type" className="text-sm font-medium">
               Type
             </label>
-            <Select value={type} onValueChange={(v) => setType(v as EntityType)}>
+            <Select value={type} onValueChange={(v) => setType(v as string)}>
               <SelectTrigger id="type">
-                <SelectValue />
+                <SelectValue>
+                  {(value) => customTypes.find((t) => t._id === value)?.name ?? value}
+                </SelectValue>
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="character">Character</SelectItem>
@@ -804,6 +1031,11 @@ function EntityEditForm({ entity, onCancel, onSave }: EntityEditFormProps) {
                 <SelectItem value="item">Item</SelectItem>
                 <SelectItem value="concept">Concept</SelectItem>
                 <SelectItem value="event">Event</SelectItem>
+                {customTypes.map((t) => (
+                  <SelectItem key={t._id} value={t._id}>
+                    {t.name}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -11,6 +11,7 @@ import {
   FileText,
   Quote,
   ExternalLink,
+  BellOff,
 } from 'lucide-react';
 import { api } from '../../../../../convex/_generated/api';
 import type { Id, Doc } from '../../../../../convex/_generated/dataModel';
@@ -20,6 +21,7 @@ import { Card, CardHeader, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { LoadingState } from '@/components/LoadingState';
+import { AlertDiscussion } from '@/components/AlertDiscussion';
 import { cn } from '@/lib/utils';
 
 export const Route = createFileRoute('/projects/$projectId/alerts/$alertId')({
@@ -57,11 +59,14 @@ function AlertDetailPage() {
 
   const alertData = useQuery(api.alerts.getWithDetails, { id: alertId as Id<'alerts'> });
   const project = useQuery(api.projects.get, { id: projectId as Id<'projects'> });
+  const role = useQuery(api.projects.getRole, { id: projectId as Id<'projects'> });
+  const viewer = useQuery(api.users.viewer);
 
   const resolveAlert = useMutation(api.alerts.resolve);
   const dismissAlert = useMutation(api.alerts.dismiss);
   const reopenAlert = useMutation(api.alerts.reopen);
   const resolveWithCanonUpdate = useMutation(api.alerts.resolveWithCanonUpdate);
+  const suppressRule = useMutation(api.alerts.suppressRule);
 
   const [resolutionNote, setResolutionNote] = useState('');
   const [newFactValue, setNewFactValue] = useState('');
@@ -86,7 +91,7 @@ function AlertDetailPage() {
     );
   }
 
-  const { alert, entities, facts, document: alertDocument } = alertData;
+  const { alert, assignee, ruleLabel, entities, facts, document: alertDocument } = alertData;
   const TypeIcon = typeConfig[alert.type].icon;
   const severityStyle = severityConfig[alert.severity];
   const linkedFacts = facts.filter((f): f is NonNullable<typeof f> => f !== null);
@@ -114,6 +119,16 @@ function AlertDetailPage() {
     }
   };
 
+  const handleSuppressRule = async () => {
+    setIsSubmitting(true);
+    try {
+      await suppressRule({ id: alert._id });
+      void navigate({ to: '/projects/$projectId/alerts', params: { projectId } });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleReopen = async () => {
     setIsSubmitting(true);
     try {
@@ -302,6 +317,14 @@ function AlertDetailPage() {
         </Card>
       )}
 
+      <AlertDiscussion
+        alertId={alert._id}
+        projectId={projectId}
+        assignee={assignee}
+        canEdit={role === 'owner' || role === 'editor'}
+        currentUserId={viewer?._id}
+      />
+
       {alert.status === 'open' ?
         <Card>
           <CardHeader className="pb-2">
@@ -355,6 +378,17 @@ function AlertDetailPage() {
                 <X className="mr-1.5 size-4" />
                 Dismiss (Intentional)
               </Button>
+              {ruleLabel && alert.entityIds.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={handleSuppressRule}
+                  disabled={isSubmitting}
+                  title={`Stop raising "${ruleLabel}" for these entities`}
+                >
+                  <BellOff className="mr-1.5 size-4" />
+                  Ignore Rule for These Entities
+                </Button>
+              )}
               {alertDocument && (
                 <Link
                   to="/projects/$projectId/documents/$documentId"
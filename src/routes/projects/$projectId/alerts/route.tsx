@@ -1,14 +1,23 @@
 import { createFileRoute, Outlet, useMatches, useNavigate } from '@tanstack/react-router';
 import { useQuery, useMutation } from 'convex/react';
-import { useState, useMemo } from 'react';
-import { AlertTriangle, ArrowLeft, CheckCheck, XCircle } from 'lucide-react';
+import { useEffect, useState, useMemo } from 'react';
+import { AlertTriangle, ArrowLeft, BellOff, Check, CheckCheck, X, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
 import { api } from '../../../../../convex/_generated/api';
 import type { Id } from '../../../../../convex/_generated/dataModel';
+import {
+  matchesAlertFilters,
+  type AlertFilterValues,
+} from '../../../../../convex/lib/alertFilters';
 import { Button } from '@/components/ui/button';
 import { EmptyState } from '@/components/EmptyState';
 import { LoadingState } from '@/components/LoadingState';
 import { AlertCard } from '@/components/AlertCard';
 import { AlertFilters } from '@/components/AlertFilters';
+import { AlertFilterPresets } from '@/components/AlertFilterPresets';
+import { AlertSuppressionsDialog } from '@/components/AlertSuppressionsDialog';
+import { useTriageShortcuts } from '@/components/KeyboardShortcuts';
+import { getErrorMessage } from '@/lib/errors';
 
 const ALERT_DETAIL_ROUTE_ID = '/projects/$projectId/alerts/$alertId';
 
@@ -16,9 +25,12 @@ export const Route = createFileRoute('/projects/$projectId/alerts')({
   component: AlertsRoute,
 });
 
-type AlertStatus = 'open' | 'resolved' | 'dismissed';
-type AlertType = 'contradiction' | 'timeline' | 'ambiguity';
-type AlertSeverity = 'error' | 'warning';
+const DEFAULT_FILTERS: AlertFilterValues = { status: 'open' };
+
+// The filter bar uses 'all' where a saved preset leaves the field unset.
+function fromAll<T extends string>(value: T | 'all'): T | undefined {
+  return value === 'all' ? undefined : value;
+}
 
 function AlertsRoute() {
   const matches = useMatches();
@@ -37,15 +49,22 @@ function AlertsPage() {
   const project = useQuery(api.projects.get, { id: projectId as Id<'projects'> });
   const alerts = useQuery(api.alerts.listByProject, { projectId: projectId as Id<'projects'> });
   const entities = useQuery(api.entities.listByProject, { projectId: projectId as Id<'projects'> });
+  const documents = useQuery(api.documents.list, { projectId: projectId as Id<'projects'> });
+  const role = useQuery(api.projects.getRole, { id: projectId as Id<'projects'> });
+  const viewer = useQuery(api.users.viewer);
 
   const resolveAlert = useMutation(api.alerts.resolve);
   const dismissAlert = useMutation(api.alerts.dismiss);
   const resolveAll = useMutation(api.alerts.resolveAll);
   const dismissAll = useMutation(api.alerts.dismissAll);
+  const bulkUpdateStatus = useMutation(api.alerts.bulkUpdateStatus);
 
-  const [statusFilter, setStatusFilter] = useState<AlertStatus | 'all'>('open');
-  const [typeFilter, setTypeFilter] = useState<AlertType | 'all'>('all');
-  const [severityFilter, setSeverityFilter] = useState<AlertSeverity | 'all'>('all');
+  const [filters, setFilters] = useState<AlertFilterValues>(DEFAULT_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<Set<Id<'alerts'>>>(() => new Set());
+  const [focusedId, setFocusedId] = useState<Id<'alerts'> | null>(null);
+  const [suppressionsOpen, setSuppressionsOpen] = useState(false);
+
+  const canEdit = role === 'owner' || role === 'editor';
 
   const entityNameMap = useMemo(() => {
     if (!entities) return new Map<string, string>();
@@ -54,13 +73,18 @@ function AlertsPage() {
 
   const filteredAlerts = useMemo(() => {
     if (!alerts) return [];
-    return alerts.filter((alert) => {
-      const matchesStatus = statusFilter === 'all' || alert.status === statusFilter;
-      const matchesType = typeFilter === 'all' || alert.type === typeFilter;
-      const matchesSeverity = severityFilter === 'all' || alert.severity === severityFilter;
-      return matchesStatus && matchesType && matchesSeverity;
-    });
-  }, [alerts, statusFilter, typeFilter, severityFilter]);
+    return alerts.filter((alert) => matchesAlertFilters(alert, filters, viewer?._id));
+  }, [alerts, filters, viewer]);
+
+  // Keep the selection to alerts that are still visible after filtering or status changes.
+  const visibleSelection = filteredAlerts.filter((alert) => selectedIds.has(alert._id));
+
+  useEffect(() => {
+    if (!focusedId) return;
+    document
+      .querySelector(`[data-alert-id="${focusedId}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [focusedId]);
 
   const highlightAlertId = useMemo(() => {
     const openAlert = filteredAlerts.find((alert) => alert.status === 'open');
@@ -87,11 +111,76 @@ function AlertsPage() {
         error: alerts.filter((a) => a.severity === 'error').length,
         warning: alerts.filter((a) => a.severity === 'warning').length,
       },
+      assignee: {
+        all: alerts.length,
+        me: viewer ? alerts.filter((a) => a.assigneeId === viewer._id).length : 0,
+      },
     };
-  }, [alerts]);
+  }, [alerts, viewer]);
 
   const openCount = counts?.status.open ?? 0;
 
+  function updateFilters(changes: Partial<AlertFilterValues>) {
+    setFilters((current) => ({ ...current, ...changes }));
+  }
+
+  function toggleSelected(id: Id<'alerts'>, selected: boolean) {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }
+
+  async function applyStatus(ids: Id<'alerts'>[], status: 'resolved' | 'dismissed') {
+    if (!canEdit || ids.length === 0) return;
+    try {
+      const changed = await bulkUpdateStatus({ ids, status });
+      setSelectedIds(new Set());
+      toast.success(
+        `${status === 'resolved' ? 'Resolved' : 'Dismissed'} ${changed} alert${changed === 1 ? '' : 's'}`
+      );
+    } catch (error) {
+      toast.error('Could not update alerts', { description: getErrorMessage(error) });
+    }
+  }
+
+  function moveFocus(step: 1 | -1) {
+    if (filteredAlerts.length === 0) return;
+    const index = filteredAlerts.findIndex((alert) => alert._id === focusedId);
+    const nextIndex =
+      index === -1 ?
+        step === 1 ?
+          0
+        : filteredAlerts.length - 1
+      : Math.min(Math.max(index + step, 0), filteredAlerts.length - 1);
+    setFocusedId(filteredAlerts[nextIndex]._id);
+  }
+
+  // r and d act on the selection when there is one, otherwise on the focused alert.
+  function triageTargets(): Id<'alerts'>[] {
+    if (visibleSelection.length > 0) return visibleSelection.map((alert) => alert._id);
+    return focusedId && filteredAlerts.some((alert) => alert._id === focusedId) ? [focusedId] : [];
+  }
+
+  useTriageShortcuts({
+    next: () => moveFocus(1),
+    previous: () => moveFocus(-1),
+    toggleSelection: () => {
+      if (focusedId) toggleSelected(focusedId, !selectedIds.has(focusedId));
+    },
+    open: () => {
+      if (!focusedId) return;
+      void navigate({
+        to: '/projects/$projectId/alerts/$alertId',
+        params: { projectId, alertId: focusedId },
+      });
+    },
+    resolve: () => void applyStatus(triageTargets(), 'resolved'),
+    dismiss: () => void applyStatus(triageTargets(), 'dismissed'),
+  });
+
   if (project === undefined || alerts === undefined) {
     return <LoadingState message="Loading alerts..." />;
   }
@@ -123,6 +212,9 @@ function AlertsPage() {
     void dismissAll({ projectId: projectId as Id<'projects'> });
   };
 
+  const allVisibleSelected =
+    filteredAlerts.length > 0 && visibleSelection.length === filteredAlerts.length;
+
   return (
     <div className="container mx-auto p-6">
       <div className="mb-6 space-y-3">
@@ -141,7 +233,11 @@ function AlertsPage() {
             <div className="text-muted-foreground text-sm">
               {alerts.length} total • {filteredAlerts.length} visible
             </div>
-            {openCount > 0 && statusFilter === 'open' && (
+            <Button variant="ghost" size="sm" onClick={() => setSuppressionsOpen(true)}>
+              <BellOff className="mr-1.5 size-4" />
+              Ignored Rules
+            </Button>
+            {openCount > 0 && filters.status === 'open' && (
               <div className="flex flex-wrap gap-2">
                 <Button variant="outline" size="sm" onClick={handleResolveAll}>
                   <CheckCheck className="mr-1.5 size-4" />
@@ -157,16 +253,79 @@ function AlertsPage() {
         </div>
       </div>
 
-      <div className="mb-6">
+      <div className="mb-6 space-y-3">
         <AlertFilters
-          statusFilter={statusFilter}
-          typeFilter={typeFilter}
-          severityFilter={severityFilter}
-          onStatusChange={setStatusFilter}
-          onTypeChange={setTypeFilter}
-          onSeverityChange={setSeverityFilter}
+          statusFilter={filters.status ?? 'all'}
+          typeFilter={filters.type ?? 'all'}
+          severityFilter={filters.severity ?? 'all'}
+          assigneeFilter={filters.assignedToMe ? 'me' : 'all'}
+          documentFilter={filters.documentId ?? 'all'}
+          entityFilter={filters.entityId ?? 'all'}
+          documents={documents}
+          entities={entities}
+          onStatusChange={(value) => updateFilters({ status: fromAll(value) })}
+          onTypeChange={(value) => updateFilters({ type: fromAll(value) })}
+          onSeverityChange={(value) => updateFilters({ severity: fromAll(value) })}
+          onAssigneeChange={(value) => updateFilters({ assignedToMe: value === 'me' || undefined })}
+          onDocumentChange={(value) => updateFilters({ documentId: fromAll(value) })}
+          onEntityChange={(value) => updateFilters({ entityId: fromAll(value) })}
           counts={counts}
         />
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <AlertFilterPresets
+            projectId={projectId as Id<'projects'>}
+            filters={filters}
+            onApply={setFilters}
+          />
+          {canEdit && filteredAlerts.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setSelectedIds(
+                    allVisibleSelected ? new Set() : new Set(filteredAlerts.map((a) => a._id))
+                  )
+                }
+              >
+                {allVisibleSelected ? 'Clear Selection' : 'Select All'}
+              </Button>
+              {visibleSelection.length > 0 && (
+                <>
+                  <span className="text-muted-foreground text-sm">
+                    {visibleSelection.length} selected
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      void applyStatus(
+                        visibleSelection.map((a) => a._id),
+                        'resolved'
+                      )
+                    }
+                  >
+                    <Check className="mr-1.5 size-4" />
+                    Resolve
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      void applyStatus(
+                        visibleSelection.map((a) => a._id),
+                        'dismissed'
+                      )
+                    }
+                  >
+                    <X className="mr-1.5 size-4" />
+                    Dismiss
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
       {alerts.length === 0 ?
@@ -180,14 +339,7 @@ function AlertsPage() {
           title="No matching alerts"
           description="Try adjusting your filters to see more alerts."
           action={
-            <Button
-              variant="outline"
-              onClick={() => {
-                setStatusFilter('all');
-                setTypeFilter('all');
-                setSeverityFilter('all');
-              }}
-            >
+            <Button variant="outline" onClick={() => setFilters({})}>
               Clear Filters
             </Button>
           }
@@ -202,10 +354,22 @@ function AlertsPage() {
               onDismiss={handleDismiss}
               entityNames={alert.entityIds.map((id) => entityNameMap.get(id) ?? 'Unknown')}
               dataTourAction={alert._id === highlightAlertId && alert.status === 'open'}
+              selected={selectedIds.has(alert._id)}
+              focused={alert._id === focusedId}
+              onSelectChange={
+                canEdit ? (selected) => toggleSelected(alert._id, selected) : undefined
+              }
             />
           ))}
         </div>
       }
+
+      <AlertSuppressionsDialog
+        projectId={projectId as Id<'projects'>}
+        open={suppressionsOpen}
+        onOpenChange={setSuppressionsOpen}
+        canEdit={canEdit}
+      />
     </div>
   );
 }
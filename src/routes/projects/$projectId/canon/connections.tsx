@@ -1,7 +1,16 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router';
 import { useQuery } from 'convex/react';
 import { useState } from 'react';
-import { Users, AlertTriangle, User, MapPin, Package, Lightbulb, Calendar } from 'lucide-react';
+import {
+  Users,
+  AlertTriangle,
+  User,
+  MapPin,
+  Package,
+  Lightbulb,
+  Calendar,
+  Eye,
+} from 'lucide-react';
 import { api } from '../../../../../convex/_generated/api';
 import type { Id } from '../../../../../convex/_generated/dataModel';
 import {
@@ -14,6 +23,7 @@ import {
 import { RelationshipGraph } from '@/components/RelationshipGraph';
 import { EmptyState } from '@/components/EmptyState';
 import { LoadingState } from '@/components/LoadingState';
+import { cn } from '@/lib/utils';
 
 const entityTypeColors = [
   { type: 'Character', color: 'bg-entity-character', icon: User },
@@ -31,11 +41,17 @@ function CanonConnections() {
   const navigate = useNavigate();
   const { projectId } = Route.useParams();
   const [entityFilter, setEntityFilter] = useState<string>('all');
+  const [playerView, setPlayerView] = useState(false);
 
+  const project = useQuery(api.projects.get, { id: projectId as Id<'projects'> });
   const graph = useQuery(api.entities.getRelationshipGraph, {
     projectId: projectId as Id<'projects'>,
     entityFilter: entityFilter !== 'all' ? (entityFilter as Id<'entities'>) : undefined,
+    playerView,
   });
+  const customTypes = useQuery(api.entityTypes.list, { projectId: projectId as Id<'projects'> });
+  const canPreviewPlayerView =
+    project?.projectType === 'ttrpg' && project.revealToPlayersEnabled !== false;
 
   const entities = useQuery(api.entities.listByProject, {
     projectId: projectId as Id<'projects'>,
@@ -76,6 +92,22 @@ function CanonConnections() {
           </SelectContent>
         </Select>
 
+        {canPreviewPlayerView && (
+          <button
+            onClick={() => setPlayerView(!playerView)}
+            className={cn(
+              'flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-medium transition-colors',
+              playerView ?
+                'bg-primary/10 text-primary'
+              : 'bg-muted text-muted-foreground hover:text-foreground'
+            )}
+            title="Show only what players can see"
+          >
+            <Eye className="size-4" />
+            Player view
+          </button>
+        )}
+
         <div className="text-muted-foreground flex items-center gap-1.5 text-xs">
           <AlertTriangle className="size-3.5 text-amber-500" />
           <span>Inferred from facts. Click to view. Drag to move. Scroll to zoom.</span>
@@ -105,6 +137,7 @@ function CanonConnections() {
           <RelationshipGraph
             nodes={graph.nodes}
             edges={graph.edges}
+            customTypes={customTypes}
             onNodeClick={handleNodeClick}
             className="rounded-lg"
           />
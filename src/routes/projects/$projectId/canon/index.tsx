@@ -1,12 +1,13 @@
 import { createFileRoute, useNavigate, Link } from '@tanstack/react-router';
 import { useQuery } from 'convex/react';
 import { useState } from 'react';
-import { LayoutGrid, List, ArrowUpDown } from 'lucide-react';
+import { LayoutGrid, List, ArrowUpDown, Shapes } from 'lucide-react';
 import { api } from '../../../../../convex/_generated/api';
 import type { Id } from '../../../../../convex/_generated/dataModel';
 import { Button } from '@/components/ui/button';
 import { EntityCard } from '@/components/EntityCard';
 import { EntityTypeFilter } from '@/components/EntityTypeFilter';
+import { EntityTypeManager } from '@/components/EntityTypeManager';
 import { EmptyState } from '@/components/EmptyState';
 import { LoadingState } from '@/components/LoadingState';
 import {
@@ -17,6 +18,13 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import {
+  countEntityTypes,
+  findCustomType,
+  matchesEntityTypeFilter,
+  type CustomEntityType,
+  type EntityTypeFilterValue,
+} from '@/lib/entityTypes';
 
 export const Route = createFileRoute('/projects/$projectId/canon/')({
   component: CanonBrowserIndex,
@@ -41,6 +49,7 @@ type EntityWithStats = {
   projectId: Id<'projects'>;
   name: string;
   type: EntityType;
+  customTypeId?: Id<'entityTypes'>;
   description?: string;
   aliases: string[];
   firstMentionedIn?: Id<'documents'>;
@@ -54,7 +63,8 @@ function CanonBrowserIndex() {
   const navigate = useNavigate();
   const { projectId } = Route.useParams();
 
-  const [typeFilter, setTypeFilter] = useState<EntityType | 'all'>('all');
+  const [typeFilter, setTypeFilter] = useState<EntityTypeFilterValue>('all');
+  const [isManagingTypes, setIsManagingTypes] = useState(false);
   const [sortBy, setSortBy] = useState<SortBy>('name');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
 
@@ -69,23 +79,20 @@ function CanonBrowserIndex() {
     status: 'confirmed',
     sortBy,
   });
+  const customTypes = useQuery(api.entityTypes.list, {
+    projectId: projectId as Id<'projects'>,
+  });
 
-  const entities =
-    allEntities && typeFilter !== 'all' ?
-      allEntities.filter((e: EntityWithStats) => e.type === typeFilter)
-    : allEntities;
-
-  const counts =
-    allEntities ?
-      {
-        all: allEntities.length,
-        character: allEntities.filter((e: EntityWithStats) => e.type === 'character').length,
-        location: allEntities.filter((e: EntityWithStats) => e.type === 'location').length,
-        item: allEntities.filter((e: EntityWithStats) => e.type === 'item').length,
-        concept: allEntities.filter((e: EntityWithStats) => e.type === 'concept').length,
-        event: allEntities.filter((e: EntityWithStats) => e.type === 'event').length,
-      }
-    : undefined;
+  const entities = allEntities?.filter((e: EntityWithStats) =>
+    matchesEntityTypeFilter(e, typeFilter)
+  );
+
+  const counts = allEntities ? countEntityTypes(allEntities) : undefined;
+  const selectedCustomType = findCustomType(customTypes, typeFilter as Id<'entityTypes'>);
+  const filterPlural =
+    selectedCustomType ? `"${selectedCustomType.name}" entities`
+    : typeFilter in typePlurals ? typePlurals[typeFilter as EntityType | 'all']
+    : 'entities';
 
   if (entities === undefined) {
     return <LoadingState message="Loading canon..." />;
@@ -94,9 +101,19 @@ function CanonBrowserIndex() {
   return (
     <div className="space-y-6">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-        <EntityTypeFilter value={typeFilter} onChange={setTypeFilter} counts={counts} />
+        <EntityTypeFilter
+          value={typeFilter}
+          onChange={setTypeFilter}
+          counts={counts}
+          customTypes={customTypes}
+        />
 
         <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setIsManagingTypes(true)}>
+            <Shapes className="size-4" />
+            Types
+          </Button>
+
           <Select value={sortBy} onValueChange={(v) => setSortBy(v as SortBy)}>
             <SelectTrigger className="w-[160px]">
               <ArrowUpDown className="text-muted-foreground mr-2 size-4" />
@@ -136,7 +153,7 @@ function CanonBrowserIndex() {
           description={
             typeFilter === 'all' ?
               'No confirmed entities yet. Process documents to extract canon, then confirm entities in the review queue.'
-            : `No confirmed ${typePlurals[typeFilter]} found. Try a different filter or process more documents.`
+            : `No confirmed ${filterPlural} found. Try a different filter or process more documents.`
           }
           action={
             <Button
@@ -159,6 +176,7 @@ function CanonBrowserIndex() {
             <EntityCardLink
               key={entity._id}
               entity={entity}
+              customType={findCustomType(customTypes, entity.customTypeId)}
               viewMode={viewMode}
               projectId={projectId}
             />
@@ -168,20 +186,27 @@ function CanonBrowserIndex() {
 
       {entities.length > 0 && (
         <p className="text-muted-foreground text-center text-sm">
-          Showing {entities.length} {typePlurals[typeFilter]}
+          Showing {entities.length} {filterPlural}
         </p>
       )}
+
+      <EntityTypeManager
+        projectId={projectId as Id<'projects'>}
+        open={isManagingTypes}
+        onOpenChange={setIsManagingTypes}
+      />
     </div>
   );
 }
 
 type EntityCardLinkProps = {
   entity: EntityWithStats;
+  customType?: CustomEntityType;
   viewMode: ViewMode;
   projectId: string;
 };
 
-function EntityCardLink({ entity, viewMode, projectId }: EntityCardLinkProps) {
+function EntityCardLink({ entity, customType, viewMode, projectId }: EntityCardLinkProps) {
   const entityForCard = {
     ...entity,
     description:
@@ -198,7 +223,11 @@ function EntityCardLink({ entity, viewMode, projectId }: EntityCardLinkProps) {
       search={{ project: projectId }}
       className="block"
     >
-      <EntityCard entity={entityForCard} className={viewMode === 'grid' ? 'h-full' : undefined} />
+      <EntityCard
+        entity={entityForCard}
+        customType={customType}
+        className={viewMode === 'grid' ? 'h-full' : undefined}
+      />
     </Link>
   );
 }
@@ -1,13 +1,32 @@
 import { createFileRoute, Link, useNavigate } from '@tanstack/react-router';
-import { useQuery } from 'convex/react';
-import { useState, useEffect, useRef } from 'react';
-import { Search, User, MapPin, Package, Lightbulb, Calendar, HelpCircle, X } from 'lucide-react';
+import { useAction, useQuery } from 'convex/react';
+import { useState, useEffect, useRef, type ReactNode } from 'react';
+import {
+  Search,
+  X,
+  Layers,
+  FileText,
+  Users,
+  ListChecks,
+  StickyNote,
+  MessageSquareText,
+  Sparkles,
+} from 'lucide-react';
 import { api } from '../../../../../convex/_generated/api';
-import type { Doc, Id } from '../../../../../convex/_generated/dataModel';
+import type { Id } from '../../../../../convex/_generated/dataModel';
+import type { CanonSearchResult } from '../../../../../convex/search';
+import type { SearchSnippet, SearchSourceType } from '../../../../../convex/lib/search';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { EmptyState } from '@/components/EmptyState';
 import { LoadingState } from '@/components/LoadingState';
 import { cn } from '@/lib/utils';
@@ -19,34 +38,31 @@ export const Route = createFileRoute('/projects/$projectId/canon/search')({
   }),
 });
 
-type Entity = Doc<'entities'>;
-type EntityType = Entity['type'];
-
-const entityTypeConfig: Record<EntityType, { icon: typeof User; colorClass: string }> = {
-  character: {
-    icon: User,
-    colorClass: 'bg-entity-character/15 text-entity-character ring-entity-character/20',
-  },
-  location: {
-    icon: MapPin,
-    colorClass: 'bg-entity-location/15 text-entity-location ring-entity-location/20',
-  },
-  item: { icon: Package, colorClass: 'bg-entity-item/15 text-entity-item ring-entity-item/20' },
-  concept: {
-    icon: Lightbulb,
-    colorClass: 'bg-entity-concept/15 text-entity-concept ring-entity-concept/20',
-  },
-  event: {
-    icon: Calendar,
-    colorClass: 'bg-entity-event/15 text-entity-event ring-entity-event/20',
-  },
+type StatusFilter = 'pending' | 'confirmed' | 'rejected';
+
+const typeConfig: Record<SearchSourceType, { label: string; icon: typeof Layers }> = {
+  document: { label: 'Documents', icon: FileText },
+  entity: { label: 'Entities', icon: Users },
+  fact: { label: 'Facts', icon: ListChecks },
+  note: { label: 'Notes', icon: StickyNote },
+  entityNote: { label: 'Entity Notes', icon: MessageSquareText },
 };
 
-const defaultConfig = {
-  icon: HelpCircle,
-  colorClass: 'bg-muted text-muted-foreground ring-muted',
+const typeLabels: Record<SearchSourceType, string> = {
+  document: 'Document',
+  entity: 'Entity',
+  fact: 'Fact',
+  note: 'Note',
+  entityNote: 'Entity note',
 };
 
+const statusOptions: Array<{ value: StatusFilter | 'all'; label: string }> = [
+  { value: 'all', label: 'Any status' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
 function CanonSearch() {
   const navigate = useNavigate();
   const { projectId } = Route.useParams();
@@ -54,6 +70,10 @@ function CanonSearch() {
 
   const [query, setQuery] = useState(initialQuery);
   const [debouncedQuery, setDebouncedQuery] = useState(initialQuery);
+  const [typeFilter, setTypeFilter] = useState<SearchSourceType | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter | 'all'>('all');
+  const [documentFilter, setDocumentFilter] = useState<Id<'documents'> | 'all'>('all');
+  const [similar, setSimilar] = useState<CanonSearchResult[] | undefined>(undefined);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -75,17 +95,50 @@ function CanonSearch() {
     return () => clearTimeout(timer);
   }, [query, initialQuery, navigate, projectId]);
 
+  const documents = useQuery(api.documents.list, { projectId: projectId as Id<'projects'> });
+
+  const trimmedQuery = debouncedQuery.trim();
+  const filters = {
+    types: typeFilter === 'all' ? undefined : [typeFilter],
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    documentId: documentFilter === 'all' ? undefined : documentFilter,
+  };
+
   const results = useQuery(
-    api.entities.search,
-    debouncedQuery.trim() ?
-      {
-        projectId: projectId as Id<'projects'>,
-        query: debouncedQuery.trim(),
-      }
+    api.search.canon,
+    trimmedQuery ?
+      { projectId: projectId as Id<'projects'>, query: trimmedQuery, ...filters }
     : 'skip'
   );
 
-  const isLoading = debouncedQuery.trim() && results === undefined;
+  const searchSemantic = useAction(api.search.semantic);
+  useEffect(() => {
+    setSimilar(undefined);
+    if (!trimmedQuery) return;
+
+    let cancelled = false;
+    searchSemantic({
+      projectId: projectId as Id<'projects'>,
+      query: trimmedQuery,
+      types: typeFilter === 'all' ? undefined : [typeFilter],
+      status: statusFilter === 'all' ? undefined : statusFilter,
+      documentId: documentFilter === 'all' ? undefined : documentFilter,
+    })
+      .then((found) => {
+        if (!cancelled) setSimilar(found);
+      })
+      // Semantic results are a bonus; keyword results still show if embedding fails.
+      .catch(() => {
+        if (!cancelled) setSimilar([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchSemantic, projectId, trimmedQuery, typeFilter, statusFilter, documentFilter]);
+
+  const keywordIds = new Set(results?.map((result) => result.id));
+  const similarOnly = similar?.filter((result) => !keywordIds.has(result.id)) ?? [];
+  const isLoading = trimmedQuery && results === undefined;
 
   return (
     <div className="space-y-6">
@@ -94,7 +147,7 @@ function CanonSearch() {
         <Input
           ref={inputRef}
           type="search"
-          placeholder="Search entities by name..."
+          placeholder="Search documents, entities, facts and notes..."
           value={query}
           onChange={(e) => setQuery(e.target.value)}
           className="h-12 pr-10 pl-10 text-base"
@@ -111,124 +164,223 @@ function CanonSearch() {
         )}
       </div>
 
-      {!debouncedQuery.trim() ?
+      <div className="flex flex-col gap-3 sm:flex-row sm:flex-wrap sm:items-center">
+        <div className="bg-muted/50 flex flex-wrap gap-1 rounded-lg p-1">
+          {(['all', ...Object.keys(typeConfig)] as Array<SearchSourceType | 'all'>).map((value) => {
+            const Icon = value === 'all' ? Layers : typeConfig[value].icon;
+            return (
+              <button
+                key={value}
+                type="button"
+                data-active={typeFilter === value}
+                onClick={() => setTypeFilter(value)}
+                className={cn(
+                  'text-muted-foreground hover:text-foreground flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-xs font-medium transition-all',
+                  'data-[active=true]:bg-primary/10 data-[active=true]:text-primary'
+                )}
+              >
+                <Icon className="size-3.5" />
+                <span className="hidden sm:inline">
+                  {value === 'all' ? 'All' : typeConfig[value].label}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <Select
+          value={statusFilter}
+          onValueChange={(v) => setStatusFilter(v as StatusFilter | 'all')}
+        >
+          <SelectTrigger className="h-9 w-40">
+            <SelectValue>
+              {statusOptions.find((option) => option.value === statusFilter)?.label}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent align="start" alignItemWithTrigger={false}>
+            {statusOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={documentFilter as string}
+          onValueChange={(v) => setDocumentFilter(v as Id<'documents'> | 'all')}
+        >
+          <SelectTrigger className="h-9 w-56">
+            <SelectValue>
+              {documentFilter === 'all' ?
+                'Any document'
+              : (documents?.find((doc) => doc._id === documentFilter)?.title ?? 'Document')}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent className="w-auto min-w-max" align="start" alignItemWithTrigger={false}>
+            <SelectItem value="all">Any document</SelectItem>
+            {documents?.map((doc) => (
+              <SelectItem key={doc._id} value={doc._id}>
+                {doc.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!trimmedQuery ?
         <EmptyState
           title="Search your canon"
-          description="Enter a name or keyword to search across all confirmed entities in your project."
+          description="Search across documents, entities, facts and notes in your project."
         />
       : isLoading ?
         <LoadingState message="Searching..." />
-      : results && results.length === 0 ?
+      : results && results.length === 0 && similarOnly.length === 0 ?
         <EmptyState
           title="No matches found"
-          description={`I couldn't find any entities matching "${debouncedQuery}". Try different terms or check your spelling.`}
+          description={`I couldn't find anything matching "${trimmedQuery}". Try different terms or loosen the filters.`}
         />
-      : results && results.length > 0 ?
-        <div className="space-y-4">
-          <p className="text-muted-foreground text-sm">
-            Found {results.length} {results.length === 1 ? 'entity' : 'entities'}
-          </p>
-          <div className="grid gap-3">
-            {results.map((entity) => (
-              <SearchResultCard
-                key={entity._id}
-                entity={entity}
-                query={debouncedQuery}
-                projectId={projectId}
-              />
-            ))}
-          </div>
+      : <div className="space-y-8">
+          {results && results.length > 0 && (
+            <section className="space-y-4">
+              <p className="text-muted-foreground text-sm">
+                Found {results.length} {results.length === 1 ? 'result' : 'results'}
+              </p>
+              <div className="grid gap-3">
+                {results.map((result) => (
+                  <SearchResultCard key={result.id} result={result} projectId={projectId} />
+                ))}
+              </div>
+            </section>
+          )}
+
+          {similarOnly.length > 0 && (
+            <section className="space-y-4">
+              <h2 className="text-muted-foreground flex items-center gap-2 text-sm font-medium">
+                <Sparkles className="size-4" />
+                Semantically similar
+              </h2>
+              <div className="grid gap-3">
+                {similarOnly.map((result) => (
+                  <SearchResultCard key={result.id} result={result} projectId={projectId} />
+                ))}
+              </div>
+            </section>
+          )}
         </div>
-      : null}
+      }
     </div>
   );
 }
 
+type SearchResultLinkProps = {
+  result: CanonSearchResult;
+  projectId: string;
+  children: ReactNode;
+};
+
+function SearchResultLink({ result, projectId, children }: SearchResultLinkProps) {
+  if (result.entityId) {
+    return (
+      <Link
+        to="/entities/$entityId"
+        params={{ entityId: result.entityId }}
+        search={{ project: projectId }}
+        className="block"
+      >
+        {children}
+      </Link>
+    );
+  }
+
+  if (result.type === 'note') {
+    return (
+      <Link
+        to="/projects/$projectId/notes/$noteId"
+        params={{ projectId, noteId: result.id }}
+        className="block"
+      >
+        {children}
+      </Link>
+    );
+  }
+
+  if (result.documentId) {
+    return (
+      <Link
+        to="/projects/$projectId/documents/$documentId"
+        params={{ projectId, documentId: result.documentId }}
+        className="block"
+      >
+        {children}
+      </Link>
+    );
+  }
+
+  return <div>{children}</div>;
+}
+
 type SearchResultCardProps = {
-  entity: Entity;
-  query: string;
+  result: CanonSearchResult;
   projectId: string;
 };
 
-function SearchResultCard({ entity, query, projectId }: SearchResultCardProps) {
-  const config = entityTypeConfig[entity.type] ?? defaultConfig;
-  const Icon = config.icon;
+function SearchResultCard({ result, projectId }: SearchResultCardProps) {
+  const Icon = typeConfig[result.type].icon;
 
   return (
-    <Link
-      to="/entities/$entityId"
-      params={{ entityId: entity._id }}
-      search={{ project: projectId }}
-      className="block"
-    >
+    <SearchResultLink result={result} projectId={projectId}>
       <Card className="hover:border-primary/50 hover:ring-primary/20 transition-all duration-200 hover:shadow-md hover:ring-1">
         <CardHeader className="flex flex-row items-start gap-4 p-4">
-          <div
-            className={cn(
-              'flex size-10 shrink-0 items-center justify-center rounded-lg shadow-sm ring-1',
-              config.colorClass
-            )}
-          >
+          <div className="bg-muted text-muted-foreground ring-muted flex size-10 shrink-0 items-center justify-center rounded-lg shadow-sm ring-1">
             <Icon className="size-5" />
           </div>
           <div className="min-w-0 flex-1 space-y-1">
             <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
               <CardTitle className="font-serif text-base leading-tight font-medium">
-                <SearchHighlight text={entity.name} query={query} />
+                {result.title}
               </CardTitle>
-              <Badge
-                variant="outline"
-                className={cn('h-5 px-1.5 py-0 text-xs font-normal capitalize', config.colorClass)}
-              >
-                {entity.type}
+              <Badge variant="outline" className="h-5 px-1.5 py-0 text-xs font-normal">
+                {typeLabels[result.type]}
               </Badge>
+              {result.status && result.status !== 'confirmed' && (
+                <Badge
+                  variant="secondary"
+                  className="h-5 px-1.5 py-0 text-xs font-normal capitalize"
+                >
+                  {result.status}
+                </Badge>
+              )}
             </div>
-            {entity.description && (
-              <CardDescription className="line-clamp-2 text-xs leading-relaxed">
-                {entity.description}
-              </CardDescription>
+            {result.subtitle && (
+              <p className="text-muted-foreground text-xs capitalize">{result.subtitle}</p>
             )}
-            {entity.aliases.length > 0 && (
-              <div className="mt-2 flex flex-wrap gap-1">
-                {entity.aliases.slice(0, 3).map((alias) => (
-                  <Badge key={alias} variant="secondary" className="h-5 px-1.5 text-xs font-normal">
-                    <SearchHighlight text={alias} query={query} />
-                  </Badge>
-                ))}
-                {entity.aliases.length > 3 && (
-                  <Badge variant="secondary" className="h-5 px-1.5 text-xs font-normal">
-                    +{entity.aliases.length - 3} more
-                  </Badge>
-                )}
-              </div>
+            {result.snippet.text && (
+              <CardDescription className="line-clamp-3 text-xs leading-relaxed">
+                <HighlightedSnippet snippet={result.snippet} />
+              </CardDescription>
             )}
           </div>
         </CardHeader>
       </Card>
-    </Link>
+    </SearchResultLink>
   );
 }
 
-type SearchHighlightProps = {
-  text: string;
-  query: string;
-};
-
-function SearchHighlight({ text, query }: SearchHighlightProps) {
-  if (!query.trim()) return <>{text}</>;
-
-  const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-  const parts = text.split(regex);
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  for (const { start, end } of snippet.highlights) {
+    if (start < cursor) continue;
+    parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-primary/20 rounded-sm px-0.5 text-inherit">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  parts.push(snippet.text.slice(cursor));
 
-  return (
-    <>
-      {parts.map((part, i) =>
-        regex.test(part) ?
-          <mark key={i} className="bg-primary/20 rounded-sm px-0.5 text-inherit">
-            {part}
-          </mark>
-        : part
-      )}
-    </>
-  );
+  return <>{parts}</>;
 }
@@ -12,6 +12,9 @@ import {
   Users,
   Sparkles,
   ExternalLink,
+  Eye,
+  Hourglass,
+  CalendarCog,
 } from 'lucide-react';
 import { api } from '../../../../../convex/_generated/api';
 import type { Id } from '../../../../../convex/_generated/dataModel';
@@ -32,6 +35,7 @@ import {
   SheetTitle,
   SheetDescription,
 } from '@/components/ui/sheet';
+import { CalendarManager } from '@/components/CalendarManager';
 import { EmptyState } from '@/components/EmptyState';
 import { LoadingState } from '@/components/LoadingState';
 import { cn } from '@/lib/utils';
@@ -66,12 +70,15 @@ const entityBadgeColors: Record<EntityType, string> = {
   event: 'bg-entity-event/15 text-entity-event ring-entity-event/20',
 };
 
+type TimelineDate = { start: number; end: number; label: string };
+
 type SelectedEntity = {
   _id: Id<'entities'>;
   name: string;
   type: string;
   description?: string;
   document?: { _id: Id<'documents'>; title: string } | null;
+  date?: TimelineDate | null;
   involvedEntities?: Array<{ _id: Id<'entities'>; name: string; type: string }>;
 };
 
@@ -79,26 +86,40 @@ function CanonTimeline() {
   const { projectId } = Route.useParams();
   const [entityFilter, setEntityFilter] = useState<string>('all');
   const [showAppearances, setShowAppearances] = useState(true);
+  const [playerView, setPlayerView] = useState(false);
+  const [inWorldOrder, setInWorldOrder] = useState(true);
+  const [isManagingCalendars, setIsManagingCalendars] = useState(false);
   const [selectedEntity, setSelectedEntity] = useState<SelectedEntity | null>(null);
 
+  const project = useQuery(api.projects.get, { id: projectId as Id<'projects'> });
   const timeline = useQuery(api.entities.getTimeline, {
     projectId: projectId as Id<'projects'>,
     entityFilter: entityFilter !== 'all' ? (entityFilter as Id<'entities'>) : undefined,
-    includeAppearances: showAppearances,
+    // First appearances have no in-world date, so they only fit the story order.
+    includeAppearances: showAppearances && !inWorldOrder,
+    playerView,
+    order: inWorldOrder ? 'inWorld' : 'story',
   });
+  const canPreviewPlayerView =
+    project?.projectType === 'ttrpg' && project.revealToPlayersEnabled !== false;
 
   if (timeline === undefined) {
     return <LoadingState message="Loading timeline..." />;
   }
 
-  const timelineItems = [
-    ...timeline.events.map((e) => ({ ...e, itemType: 'event' as const })),
-    ...timeline.appearances.map((a) => ({ ...a, itemType: 'appearance' as const })),
-  ].toSorted((a, b) => {
-    const orderA = a.document?.orderIndex ?? Infinity;
-    const orderB = b.document?.orderIndex ?? Infinity;
-    return orderA - orderB;
-  });
+  const events = timeline.events.map((e) => ({ ...e, itemType: 'event' as const }));
+  const timelineItems =
+    inWorldOrder ? events : (
+      [
+        ...events,
+        ...timeline.appearances.map((a) => ({ ...a, itemType: 'appearance' as const })),
+      ].toSorted((a, b) => {
+        const orderA = a.document?.orderIndex ?? Infinity;
+        const orderB = b.document?.orderIndex ?? Infinity;
+        return orderA - orderB;
+      })
+    );
+  const undatedCount = timeline.events.filter((e) => !e.date).length;
 
   const hasEvents = timeline.events.length > 0;
   const hasAppearances = timeline.appearances.length > 0;
@@ -129,28 +150,69 @@ function CanonTimeline() {
           </Select>
 
           <button
-            onClick={() => setShowAppearances(!showAppearances)}
+            onClick={() => setInWorldOrder(!inWorldOrder)}
             className={cn(
               'flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-medium transition-colors',
-              showAppearances ?
+              inWorldOrder ?
                 'bg-primary/10 text-primary'
               : 'bg-muted text-muted-foreground hover:text-foreground'
             )}
+            title={inWorldOrder ? 'Ordered by in-world date' : 'Ordered by document'}
           >
-            <Sparkles className="size-4" />
-            First appearances
+            <Hourglass className="size-4" />
+            In-world order
           </button>
+
+          {!inWorldOrder && (
+            <button
+              onClick={() => setShowAppearances(!showAppearances)}
+              className={cn(
+                'flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-medium transition-colors',
+                showAppearances ?
+                  'bg-primary/10 text-primary'
+                : 'bg-muted text-muted-foreground hover:text-foreground'
+              )}
+            >
+              <Sparkles className="size-4" />
+              First appearances
+            </button>
+          )}
+
+          {canPreviewPlayerView && (
+            <button
+              onClick={() => setPlayerView(!playerView)}
+              className={cn(
+                'flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-medium transition-colors',
+                playerView ?
+                  'bg-primary/10 text-primary'
+                : 'bg-muted text-muted-foreground hover:text-foreground'
+              )}
+              title="Show only what players can see"
+            >
+              <Eye className="size-4" />
+              Player view
+            </button>
+          )}
         </div>
-      </div>
 
-      <div className="flex items-start gap-3 rounded-lg border border-amber-500/20 bg-amber-500/10 p-4">
-        <AlertTriangle className="mt-0.5 size-5 shrink-0 text-amber-600 dark:text-amber-400" />
-        <p className="text-sm text-amber-800 dark:text-amber-200">
-          Timeline ordering is based on document order and may not reflect actual chronology within
-          your story.
-        </p>
+        <Button variant="outline" size="sm" onClick={() => setIsManagingCalendars(true)}>
+          <CalendarCog className="size-4" />
+          Calendars
+        </Button>
       </div>
 
+      {(!inWorldOrder || undatedCount > 0) && (
+        <div className="flex items-start gap-3 rounded-lg border border-amber-500/20 bg-amber-500/10 p-4">
+          <AlertTriangle className="mt-0.5 size-5 shrink-0 text-amber-600 dark:text-amber-400" />
+          <p className="text-sm text-amber-800 dark:text-amber-200">
+            {inWorldOrder ?
+              `${undatedCount} event${undatedCount !== 1 ? 's have' : ' has'} no in-world date and ${undatedCount !== 1 ? 'are' : 'is'} listed last, in document order. Add dates to their facts to place them.`
+            : 'Story order follows your documents and may not reflect actual chronology within your world.'
+            }
+          </p>
+        </div>
+      )}
+
       {timelineItems.length === 0 ?
         <EmptyState
           title={entityFilter !== 'all' ? 'No chronicle entries found' : 'The timeline awaits'}
@@ -185,6 +247,7 @@ function CanonTimeline() {
         <p className="text-muted-foreground text-center text-sm">
           Showing {timeline.events.length} event{timeline.events.length !== 1 ? 's' : ''}
           {showAppearances &&
+            !inWorldOrder &&
             ` and ${timeline.appearances.length} first appearance${timeline.appearances.length !== 1 ? 's' : ''}`}
         </p>
       )}
@@ -220,6 +283,16 @@ function CanonTimeline() {
               </SheetHeader>
 
               <CardContent className="space-y-4">
+                {selectedEntity.date && (
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground text-xs font-medium">In-world Date</p>
+                    <div className="flex items-center gap-1.5 text-sm">
+                      <Hourglass className="text-muted-foreground size-4" />
+                      {selectedEntity.date.label}
+                    </div>
+                  </div>
+                )}
+
                 {selectedEntity.document && (
                   <div className="space-y-1">
                     <p className="text-muted-foreground text-xs font-medium">Source Document</p>
@@ -272,6 +345,12 @@ function CanonTimeline() {
           )}
         </SheetContent>
       </Sheet>
+
+      <CalendarManager
+        projectId={projectId as Id<'projects'>}
+        open={isManagingCalendars}
+        onOpenChange={setIsManagingCalendars}
+      />
     </div>
   );
 }
@@ -283,6 +362,7 @@ type TimelineEventCardProps = {
     type: EntityType;
     description?: string;
     document: { _id: Id<'documents'>; title: string; orderIndex: number } | null;
+    date: TimelineDate | null;
     involvedEntities: Array<{ _id: Id<'entities'>; name: string; type: string }>;
   };
   onSelect: () => void;
@@ -319,6 +399,12 @@ function TimelineEventCard({ event, onSelect }: TimelineEventCardProps) {
                     >
                       event
                     </Badge>
+                    {event.date && (
+                      <Badge variant="secondary" className="h-5 gap-1 px-1.5 text-xs font-normal">
+                        <Hourglass className="size-3" />
+                        {event.date.label}
+                      </Badge>
+                    )}
                   </div>
                   {event.description && (
                     <CardDescription className="line-clamp-2 text-sm">
@@ -10,6 +10,10 @@ import {
   Sparkles,
   AlertCircle,
   RotateCcw,
+  Eye,
+  EyeOff,
+  History,
+  ShieldCheck,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { api } from '../../../../../convex/_generated/api';
@@ -20,6 +24,9 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { LoadingState } from '@/components/LoadingState';
+import { CheckHistoryDialog } from '@/components/CheckHistoryDialog';
+import { DocumentHistoryDialog } from '@/components/DocumentHistoryDialog';
+import { describeProcessingProgress } from '@/lib/documents';
 import { cn } from '@/lib/utils';
 import { getErrorMessage } from '@/lib/errors';
 
@@ -35,7 +42,11 @@ function DocumentEditorPage() {
   const navigate = useNavigate();
   const { projectId, documentId } = Route.useParams();
   const document = useQuery(api.documents.get, { id: documentId as Id<'documents'> });
+  const project = useQuery(api.projects.get, { id: projectId as Id<'projects'> });
+  const role = useQuery(api.projects.getRole, { id: projectId as Id<'projects'> });
   const updateDocument = useMutation(api.documents.update);
+  const revealDocument = useMutation(api.documents.revealToPlayers);
+  const hideDocument = useMutation(api.documents.hideFromPlayers);
   const chunkAndExtract = useAction(
     (
       api as unknown as {
@@ -44,7 +55,14 @@ function DocumentEditorPage() {
             'action',
             'public',
             { documentId: Id<'documents'> },
-            { entitiesCreated: number; factsCreated: number }
+            {
+              entitiesCreated: number;
+              factsCreated: number;
+              relationshipsCreated: number;
+              attributesCreated: number;
+              factsInvalidated: number;
+              factsReturnedToReview: number;
+            }
           >;
         };
       }
@@ -59,10 +77,14 @@ function DocumentEditorPage() {
   const [isExtracting, setIsExtracting] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showChecks, setShowChecks] = useState(false);
   const hasShownExtractPrompt = useRef(false);
 
   const isStuck =
     document?.processingStatus === 'processing' && document.updatedAt < Date.now() - 2 * 60 * 1000;
+  // Text too long to store inline is read from the uploaded file and cannot be edited here.
+  const isStored = !!document && !document.content && !!document.storageId;
 
   useEffect(() => {
     if (document) {
@@ -115,7 +137,7 @@ function DocumentEditorPage() {
     try {
       const result = await chunkAndExtract({ documentId: document._id });
       toast.success('Extraction complete', {
-        description: `Found ${result.entitiesCreated} entities and ${result.factsCreated} facts.`,
+        description: `Found ${result.entitiesCreated} entities, ${result.factsCreated} facts, ${result.relationshipsCreated} relationships and ${result.attributesCreated} attributes.${result.factsInvalidated > 0 ? ` Removed ${result.factsInvalidated} facts from edited passages.` : ''}${result.factsReturnedToReview > 0 ? ` Sent ${result.factsReturnedToReview} confirmed facts from edited passages back to review.` : ''}`,
         action: (
           <Button
             size="sm"
@@ -144,7 +166,7 @@ function DocumentEditorPage() {
   useEffect(() => {
     if (
       document &&
-      document.content &&
+      (document.content || isStored) &&
       document.processingStatus === 'pending' &&
       !hasShownExtractPrompt.current &&
       !isExtracting
@@ -160,7 +182,7 @@ function DocumentEditorPage() {
         duration: 8000,
       });
     }
-  }, [document, isExtracting, handleExtract]);
+  }, [document, isStored, isExtracting, handleExtract]);
 
   useEffect(() => {
     function handleKeyDown(e: KeyboardEvent) {
@@ -182,6 +204,21 @@ function DocumentEditorPage() {
     toast.info('Status reset', { description: 'You can now retry extraction.' });
   }
 
+  async function handleSetRevealed(revealed: boolean) {
+    if (!document) return;
+    try {
+      if (revealed) {
+        await revealDocument({ id: document._id });
+        toast.success('Document revealed to players');
+      } else {
+        await hideDocument({ id: document._id });
+        toast.success('Document marked GM only');
+      }
+    } catch (error) {
+      toast.error('Failed to update visibility', { description: getErrorMessage(error) });
+    }
+  }
+
   if (document === undefined) {
     return <LoadingState message="Loading document..." />;
   }
@@ -202,6 +239,7 @@ function DocumentEditorPage() {
   }
 
   const wordCount = countWords(content);
+  const canReveal = project?.projectType === 'ttrpg' && project.revealToPlayersEnabled !== false;
 
   return (
     <div className="flex h-screen flex-col">
@@ -222,15 +260,73 @@ function DocumentEditorPage() {
             <span className="text-muted-foreground text-sm">
               {wordCount.toLocaleString()} words
             </span>
+            {canReveal && document.revealedToViewers === true && (
+              <Badge variant="outline" className="gap-1 text-green-600 dark:text-green-400">
+                <Eye className="size-3" />
+                Revealed
+              </Badge>
+            )}
+            {canReveal && document.revealedToViewers === false && (
+              <Badge variant="outline" className="gap-1 text-amber-600 dark:text-amber-400">
+                <EyeOff className="size-3" />
+                GM only
+              </Badge>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-3">
+          {document.processingProgress && (
+            <span className="text-muted-foreground flex items-center gap-1 text-sm">
+              <Loader2 className="size-4 animate-spin" />
+              {describeProcessingProgress(document.processingProgress)}
+            </span>
+          )}
           {document.processingStatus === 'failed' && (
             <span className="text-destructive flex items-center gap-1 text-sm">
               <AlertCircle className="size-4" />
               Failed
             </span>
           )}
+          {canReveal && document.revealedToViewers !== true && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => void handleSetRevealed(true)}
+              title="Let players read this document"
+            >
+              <Eye className="mr-1 size-4" />
+              Reveal
+            </Button>
+          )}
+          {canReveal && document.revealedToViewers !== false && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => void handleSetRevealed(false)}
+              title="Hide this document and facts drawn from it from players"
+            >
+              <EyeOff className="mr-1 size-4" />
+              GM Only
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowHistory(true)}
+            title="Compare and restore earlier versions"
+          >
+            <History className="mr-1 size-4" />
+            History
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowChecks(true)}
+            title="Past continuity checks of this document"
+          >
+            <ShieldCheck className="mr-1 size-4" />
+            Checks
+          </Button>
           {isStuck && (
             <Button variant="ghost" size="sm" onClick={handleReset} title="Reset stuck extraction">
               <RotateCcw className="mr-1 size-3" />
@@ -292,17 +388,36 @@ function DocumentEditorPage() {
           />
         </div>
         <div className="flex-1 overflow-auto p-6">
-          <Textarea
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            placeholder="Start writing..."
-            className={cn(
-              'min-h-full resize-none border-0 bg-transparent focus-visible:ring-0',
-              document.contentType === 'markdown' && 'font-mono'
-            )}
-          />
+          {isStored ?
+            <p className="text-muted-foreground text-sm">
+              At {document.wordCount.toLocaleString()} words, this document is too long to edit
+              here. Its text is read from the uploaded file; edit the document and upload a new file
+              to replace it.
+            </p>
+          : <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder="Start writing..."
+              className={cn(
+                'min-h-full resize-none border-0 bg-transparent focus-visible:ring-0',
+                document.contentType === 'markdown' && 'font-mono'
+              )}
+            />
+          }
         </div>
       </div>
+
+      <DocumentHistoryDialog
+        documentId={document._id}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+      />
+      <CheckHistoryDialog
+        documentId={document._id}
+        open={showChecks}
+        onOpenChange={setShowChecks}
+        canRun={role === 'owner' || role === 'editor'}
+      />
     </div>
   );
 }
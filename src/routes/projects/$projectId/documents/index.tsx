@@ -1,7 +1,7 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router';
 import { useQuery, useMutation } from 'convex/react';
 import { useState } from 'react';
-import { Plus, FileText, ArrowLeft } from 'lucide-react';
+import { Plus, FileText, ArrowLeft, FolderInput } from 'lucide-react';
 import { api } from '../../../../../convex/_generated/api';
 import type { Id } from '../../../../../convex/_generated/dataModel';
 import { Button } from '@/components/ui/button';
@@ -18,6 +18,7 @@ import {
 import { DocumentCard } from '@/components/DocumentCard';
 import { EmptyState } from '@/components/EmptyState';
 import { LoadingState } from '@/components/LoadingState';
+import { VaultImportDialog } from '@/components/VaultImportDialog';
 
 export const Route = createFileRoute('/projects/$projectId/documents/')({
   component: DocumentsPage,
@@ -30,6 +31,7 @@ function DocumentsPage() {
   const documents = useQuery(api.documents.list, { projectId: projectId as Id<'projects'> });
   const deleteDocument = useMutation(api.documents.remove);
 
+  const [importingVault, setImportingVault] = useState(false);
   const [deletingDocument, setDeletingDocument] = useState<{
     _id: Id<'documents'>;
     title: string;
@@ -70,14 +72,20 @@ function DocumentsPage() {
         </Button>
         <div className="flex items-center justify-between">
           <h1 className="font-serif text-3xl font-bold">Documents</h1>
-          <Button
-            onClick={() =>
-              navigate({ to: '/projects/$projectId/documents/new', params: { projectId } })
-            }
-          >
-            <Plus className="mr-2 size-4" />
-            Add Document
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setImportingVault(true)}>
+              <FolderInput className="mr-2 size-4" />
+              Import Vault
+            </Button>
+            <Button
+              onClick={() =>
+                navigate({ to: '/projects/$projectId/documents/new', params: { projectId } })
+              }
+            >
+              <Plus className="mr-2 size-4" />
+              Add Document
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -120,6 +128,12 @@ function DocumentsPage() {
         </div>
       }
 
+      <VaultImportDialog
+        projectId={projectId as Id<'projects'>}
+        open={importingVault}
+        onOpenChange={setImportingVault}
+      />
+
       <AlertDialog
         open={!!deletingDocument}
         onOpenChange={(open) => !open && setDeletingDocument(null)}
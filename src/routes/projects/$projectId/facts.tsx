@@ -10,6 +10,8 @@ import {
   ArrowRight,
   Quote,
   Trash2,
+  Eye,
+  EyeOff,
 } from 'lucide-react';
 import { api } from '../../../../convex/_generated/api';
 import type { Id, Doc } from '../../../../convex/_generated/dataModel';
@@ -70,6 +72,8 @@ function FactsPage() {
   const confirmFact = useMutation(api.facts.confirm);
   const rejectFact = useMutation(api.facts.reject);
   const deleteFact = useMutation(api.facts.remove);
+  const revealFact = useMutation(api.facts.revealToPlayers);
+  const hideFact = useMutation(api.facts.hideFromPlayers);
 
   const paginatedArgs = useMemo(
     () => ({
@@ -96,6 +100,18 @@ function FactsPage() {
     );
   }, [results, searchQuery]);
 
+  const canReveal = project?.projectType === 'ttrpg' && project.revealToPlayersEnabled !== false;
+
+  async function handleToggleReveal(fact: Doc<'facts'>) {
+    if (fact.revealedToViewers === false) {
+      await revealFact({ id: fact._id });
+      setSelectedFact({ ...fact, revealedToViewers: true, revealedAt: Date.now() });
+    } else {
+      await hideFact({ id: fact._id });
+      setSelectedFact({ ...fact, revealedToViewers: false, revealedAt: null });
+    }
+  }
+
   if (project === undefined) {
     return <LoadingState message="Loading facts..." />;
   }
@@ -280,6 +296,33 @@ function FactsPage() {
           )}
 
           <SheetFooter>
+            {selectedFact && canReveal && selectedFact.status === 'confirmed' && (
+              <div className="w-full space-y-2">
+                <p className="text-muted-foreground text-xs">
+                  {selectedFact.revealedToViewers === false ?
+                    'GM only. Players never see this fact.'
+                  : selectedFact.revealedToViewers === true ?
+                    'Revealed to players on its entity page.'
+                  : 'Visible to players once its entity is revealed.'}
+                </p>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => void handleToggleReveal(selectedFact)}
+                >
+                  {selectedFact.revealedToViewers === false ?
+                    <>
+                      <Eye className="mr-2 size-4" />
+                      Reveal to Players
+                    </>
+                  : <>
+                      <EyeOff className="mr-2 size-4" />
+                      Mark GM Only
+                    </>
+                  }
+                </Button>
+              </div>
+            )}
             {selectedFact && !selectedFact.documentId && (
               <Button
                 variant="destructive"
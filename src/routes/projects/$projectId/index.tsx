@@ -8,6 +8,7 @@ import {
   Lightbulb,
   Plus,
   Settings,
+  Share2,
   ArrowLeft,
   BookOpen,
   StickyNote,
@@ -31,6 +32,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { ProjectForm } from '@/components/ProjectForm';
 import { LoadingState } from '@/components/LoadingState';
 import { ExportButton } from '@/components/ExportButton';
+import { ShareProjectDialog } from '@/components/ShareProjectDialog';
 import { cn } from '@/lib/utils';
 
 export const Route = createFileRoute('/projects/$projectId/')({
@@ -42,18 +44,26 @@ function ProjectDashboard() {
   const { projectId } = Route.useParams();
   const project = useQuery(api.projects.get, { id: projectId as Id<'projects'> });
   const documents = useQuery(api.documents.list, { projectId: projectId as Id<'projects'> });
+  const role = useQuery(api.projects.getRole, { id: projectId as Id<'projects'> });
   const deleteProject = useMutation(api.projects.remove);
 
   const [isEditing, setIsEditing] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
+  useEffect(() => {
+    if (role === 'player') {
+      void navigate({ to: '/projects/$projectId/player', params: { projectId }, replace: true });
+    }
+  }, [role, navigate, projectId]);
+
   useEffect(() => {
     if (project) {
       addRecentProject(project.userId, projectId, project.name);
     }
   }, [project, projectId]);
 
-  if (project === undefined) {
+  if (project === undefined || role === 'player') {
     return <LoadingState message="Loading project..." />;
   }
 
@@ -77,6 +87,8 @@ function ProjectDashboard() {
     noteCount: 0,
   };
 
+  const isOwner = role === 'owner';
+
   async function handleDelete() {
     await deleteProject({ id: projectId as Id<'projects'> });
     void navigate({ to: '/projects' });
@@ -102,10 +114,18 @@ function ProjectDashboard() {
         </div>
         <div className="flex gap-2">
           <ExportButton projectId={projectId as Id<'projects'>} projectName={project.name} />
-          <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
-            <Settings className="mr-2 size-4" />
-            Settings
-          </Button>
+          {isOwner && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setIsSharing(true)}>
+                <Share2 className="mr-2 size-4" />
+                Share
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                <Settings className="mr-2 size-4" />
+                Settings
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
@@ -210,11 +230,13 @@ function ProjectDashboard() {
         }
       </section>
 
-      <div className="border-border mt-12 border-t pt-6">
-        <Button variant="destructive" size="sm" onClick={() => setShowDeleteDialog(true)}>
-          Delete Project
-        </Button>
-      </div>
+      {isOwner && (
+        <div className="border-border mt-12 border-t pt-6">
+          <Button variant="destructive" size="sm" onClick={() => setShowDeleteDialog(true)}>
+            Delete Project
+          </Button>
+        </div>
+      )}
 
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
@@ -234,6 +256,11 @@ function ProjectDashboard() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <ShareProjectDialog
+        projectId={isSharing ? (projectId as Id<'projects'>) : null}
+        onOpenChange={setIsSharing}
+      />
+
       <Dialog open={isEditing} onOpenChange={setIsEditing}>
         <DialogContent className="sm:max-w-lg">
           <DialogHeader>
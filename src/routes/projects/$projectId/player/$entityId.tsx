@@ -0,0 +1,132 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { useQuery } from 'convex/react';
+import { ArrowLeft } from 'lucide-react';
+import { api } from '../../../../../convex/_generated/api';
+import type { Id } from '../../../../../convex/_generated/dataModel';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { EmptyState } from '@/components/EmptyState';
+import { LoadingState } from '@/components/LoadingState';
+
+export const Route = createFileRoute('/projects/$projectId/player/$entityId')({
+  component: PlayerWikiEntity,
+});
+
+function PlayerWikiEntity() {
+  const { projectId, entityId } = Route.useParams();
+  const data = useQuery(api.playerView.getEntity, { entityId: entityId as Id<'entities'> });
+
+  if (data === undefined) {
+    return <LoadingState message="Loading entry..." />;
+  }
+
+  if (data === null) {
+    return (
+      <EmptyState
+        title="Entry not found"
+        description="This entry does not exist or has not been revealed yet."
+      />
+    );
+  }
+
+  const { entity, facts, relatedEntities } = data;
+
+  return (
+    <div className="space-y-6">
+      <Link
+        to="/projects/$projectId/player"
+        params={{ projectId }}
+        className="text-muted-foreground hover:text-foreground inline-flex items-center gap-1 text-sm"
+      >
+        <ArrowLeft className="size-4" />
+        All entries
+      </Link>
+
+      <div>
+        <div className="flex items-center gap-3">
+          <h2 className="font-serif text-2xl font-bold">{entity.name}</h2>
+          <Badge variant="secondary" className="capitalize">
+            {entity.type}
+          </Badge>
+        </div>
+        {entity.aliases.length > 0 && (
+          <p className="text-muted-foreground mt-1 text-sm">
+            Also known as {entity.aliases.join(', ')}
+          </p>
+        )}
+        {entity.description && <p className="mt-4 leading-relaxed">{entity.description}</p>}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="font-serif text-lg">Known facts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {facts.length === 0 ?
+              <p className="text-muted-foreground text-sm">Nothing else is known yet.</p>
+            : <ul className="space-y-2">
+                {facts.map((fact) => (
+                  <li key={fact._id} className="text-sm">
+                    <span className="text-muted-foreground">{fact.predicate}</span>{' '}
+                    <span className="font-medium">{fact.object}</span>
+                    {fact.temporalBound && (
+                      <span className="text-muted-foreground"> ({fact.temporalBound.value})</span>
+                    )}
+                    {fact.document && (
+                      <Link
+                        to="/projects/$projectId/player/documents/$documentId"
+                        params={{ projectId, documentId: fact.document._id }}
+                        className="text-muted-foreground ml-2 text-xs hover:underline"
+                        title={fact.evidenceSnippet}
+                      >
+                        ({fact.document.title})
+                      </Link>
+                    )}
+                    {fact.linkedEntities.map((linked) => (
+                      <Link
+                        key={linked._id}
+                        to="/projects/$projectId/player/$entityId"
+                        params={{ projectId, entityId: linked._id }}
+                        className="text-primary ml-2 text-xs hover:underline"
+                      >
+                        → {linked.name}
+                      </Link>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            }
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-serif text-lg">Related</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {relatedEntities.length === 0 ?
+              <p className="text-muted-foreground text-sm">No known connections.</p>
+            : <ul className="space-y-1">
+                {relatedEntities.map((related) => (
+                  <li key={related._id}>
+                    <Link
+                      to="/projects/$projectId/player/$entityId"
+                      params={{ projectId, entityId: related._id }}
+                      className="hover:text-primary text-sm font-medium"
+                    >
+                      {related.name}
+                    </Link>
+                    <span className="text-muted-foreground ml-2 text-xs capitalize">
+                      {related.type}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            }
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
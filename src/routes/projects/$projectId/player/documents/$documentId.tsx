@@ -0,0 +1,54 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { useQuery } from 'convex/react';
+import { ArrowLeft } from 'lucide-react';
+import { api } from '../../../../../../convex/_generated/api';
+import type { Id } from '../../../../../../convex/_generated/dataModel';
+import { EmptyState } from '@/components/EmptyState';
+import { LoadingState } from '@/components/LoadingState';
+import { renderMarkdownToHtml } from '@/lib/markdown';
+
+export const Route = createFileRoute('/projects/$projectId/player/documents/$documentId')({
+  component: PlayerWikiDocument,
+});
+
+function PlayerWikiDocument() {
+  const { projectId, documentId } = Route.useParams();
+  const document = useQuery(api.playerView.getDocument, {
+    documentId: documentId as Id<'documents'>,
+  });
+
+  if (document === undefined) {
+    return <LoadingState message="Loading document..." />;
+  }
+
+  if (document === null) {
+    return (
+      <EmptyState
+        title="Document not found"
+        description="This document does not exist or has not been shared with players."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link
+        to="/projects/$projectId/player"
+        params={{ projectId }}
+        className="text-muted-foreground hover:text-foreground inline-flex items-center gap-1 text-sm"
+      >
+        <ArrowLeft className="size-4" />
+        All entries
+      </Link>
+
+      <h2 className="font-serif text-2xl font-bold">{document.title}</h2>
+
+      {document.content ?
+        <article
+          className="prose dark:prose-invert max-w-none"
+          dangerouslySetInnerHTML={{ __html: renderMarkdownToHtml(document.content) }}
+        />
+      : <p className="text-muted-foreground text-sm">This document has no readable content.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { useQuery } from 'convex/react';
+import { useState, useEffect } from 'react';
+import { FileText, Search, X } from 'lucide-react';
+import { api } from '../../../../../convex/_generated/api';
+import type { Id } from '../../../../../convex/_generated/dataModel';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { EntityTypeFilter } from '@/components/EntityTypeFilter';
+import { EmptyState } from '@/components/EmptyState';
+import { LoadingState } from '@/components/LoadingState';
+import { cn } from '@/lib/utils';
+import {
+  countEntityTypes,
+  findCustomType,
+  matchesEntityTypeFilter,
+  type EntityTypeFilterValue,
+} from '@/lib/entityTypes';
+
+export const Route = createFileRoute('/projects/$projectId/player/')({
+  component: PlayerWikiIndex,
+});
+
+type EntityType = 'character' | 'location' | 'item' | 'concept' | 'event';
+
+const typeColorClass: Record<EntityType, string> = {
+  character: 'bg-entity-character/15 text-entity-character',
+  location: 'bg-entity-location/15 text-entity-location',
+  item: 'bg-entity-item/15 text-entity-item',
+  concept: 'bg-entity-concept/15 text-entity-concept',
+  event: 'bg-entity-event/15 text-entity-event',
+};
+
+function PlayerWikiIndex() {
+  const { projectId } = Route.useParams();
+
+  const [typeFilter, setTypeFilter] = useState<EntityTypeFilterValue>('all');
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const allEntities = useQuery(api.playerView.listEntities, {
+    projectId: projectId as Id<'projects'>,
+  });
+  const customTypes = useQuery(api.entityTypes.list, {
+    projectId: projectId as Id<'projects'>,
+  });
+  const documents = useQuery(api.playerView.listDocuments, {
+    projectId: projectId as Id<'projects'>,
+  });
+  const searchResults = useQuery(
+    api.playerView.search,
+    debouncedQuery.trim() ?
+      { projectId: projectId as Id<'projects'>, query: debouncedQuery }
+    : 'skip'
+  );
+
+  const isSearching = debouncedQuery.trim().length > 0;
+  const source = isSearching ? searchResults : allEntities;
+  const entities = source?.filter((e) => matchesEntityTypeFilter(e, typeFilter));
+
+  const counts = allEntities ? countEntityTypes(allEntities) : undefined;
+  // Only offer custom types that have something revealed, so empty types do not hint at secrets.
+  const revealedCustomTypes = customTypes?.filter((type) => counts?.[type._id]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <EntityTypeFilter
+          value={typeFilter}
+          onChange={setTypeFilter}
+          counts={counts}
+          customTypes={revealedCustomTypes}
+        />
+        <div className="relative sm:w-72">
+          <Search className="text-muted-foreground absolute top-1/2 left-3 size-4 -translate-y-1/2" />
+          <Input
+            placeholder="Search the wiki..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pr-9 pl-9"
+          />
+          {query && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="absolute top-1/2 right-1 size-7 -translate-y-1/2 p-0"
+              onClick={() => setQuery('')}
+            >
+              <X className="size-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {entities === undefined ?
+        <LoadingState message="Loading wiki..." />
+      : entities.length === 0 ?
+        <EmptyState
+          title={isSearching ? 'No matches' : 'Nothing revealed yet'}
+          description={
+            isSearching ?
+              `No revealed entries match "${debouncedQuery}".`
+            : 'Your GM has not revealed any entries yet. Check back after the next session.'
+          }
+        />
+      : <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {entities.map((entity) => {
+            const customType = findCustomType(customTypes, entity.customTypeId);
+            return (
+              <Link
+                key={entity._id}
+                to="/projects/$projectId/player/$entityId"
+                params={{ projectId, entityId: entity._id }}
+                className="block h-full"
+              >
+                <Card className="hover:ring-primary/20 h-full transition-all hover:ring-2">
+                  <CardHeader>
+                    <div className="flex items-center justify-between gap-2">
+                      <CardTitle className="font-serif text-lg">{entity.name}</CardTitle>
+                      {customType ?
+                        <Badge
+                          style={{
+                            color: customType.color,
+                            backgroundColor: `${customType.color}26`,
+                          }}
+                        >
+                          {customType.name}
+                        </Badge>
+                      : <Badge className={cn('capitalize', typeColorClass[entity.type])}>
+                          {entity.type}
+                        </Badge>
+                      }
+                    </div>
+                    {entity.description && (
+                      <CardDescription className="line-clamp-3">
+                        {entity.description}
+                      </CardDescription>
+                    )}
+                  </CardHeader>
+                </Card>
+              </Link>
+            );
+          })}
+        </div>
+      }
+
+      {documents && documents.length > 0 && (
+        <section>
+          <h2 className="mb-3 font-serif text-xl font-semibold">Handouts</h2>
+          <ul className="divide-border divide-y rounded-lg border">
+            {documents.map((doc) => (
+              <li key={doc._id}>
+                <Link
+                  to="/projects/$projectId/player/documents/$documentId"
+                  params={{ projectId, documentId: doc._id }}
+                  className="hover:bg-muted/50 flex items-center gap-3 p-3 text-sm"
+                >
+                  <FileText className="text-muted-foreground size-4" />
+                  <span className="font-medium">{doc.title}</span>
+                  <span className="text-muted-foreground ml-auto text-xs">
+                    {doc.wordCount.toLocaleString()} words
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
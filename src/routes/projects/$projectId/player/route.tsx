@@ -0,0 +1,69 @@
+import { createFileRoute, Outlet, Link, useNavigate } from '@tanstack/react-router';
+import { useQuery } from 'convex/react';
+import { ArrowLeft, BookOpen } from 'lucide-react';
+import { api } from '../../../../../convex/_generated/api';
+import type { Id } from '../../../../../convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { LoadingState } from '@/components/LoadingState';
+
+export const Route = createFileRoute('/projects/$projectId/player')({
+  component: PlayerLayout,
+});
+
+function PlayerLayout() {
+  const navigate = useNavigate();
+  const { projectId } = Route.useParams();
+  const project = useQuery(api.playerView.getProject, { projectId: projectId as Id<'projects'> });
+  const role = useQuery(api.projects.getRole, { id: projectId as Id<'projects'> });
+
+  if (project === undefined) {
+    return <LoadingState message="Loading wiki..." />;
+  }
+
+  if (project === null) {
+    return (
+      <div className="container mx-auto p-6 text-center">
+        <p className="text-muted-foreground">Project not found.</p>
+        <Button variant="ghost" className="mt-4" onClick={() => navigate({ to: '/projects' })}>
+          Back to Projects
+        </Button>
+      </div>
+    );
+  }
+
+  const isPlayer = role === 'player';
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mb-2 -ml-2"
+          onClick={() =>
+            isPlayer ?
+              navigate({ to: '/projects' })
+            : navigate({ to: '/projects/$projectId', params: { projectId } })
+          }
+        >
+          <ArrowLeft className="mr-1 size-4" />
+          {isPlayer ? 'Projects' : project.name}
+        </Button>
+        <div className="flex items-center justify-between gap-4">
+          <Link
+            to="/projects/$projectId/player"
+            params={{ projectId }}
+            className="flex items-center gap-3"
+          >
+            <BookOpen className="text-primary size-7" />
+            <h1 className="font-serif text-3xl font-bold">{project.name}</h1>
+          </Link>
+          {!isPlayer && <Badge variant="secondary">Player view</Badge>}
+        </div>
+        {project.description && <p className="text-muted-foreground mt-1">{project.description}</p>}
+      </div>
+      <Outlet />
+    </div>
+  );
+}
@@ -1,7 +1,15 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router';
 import { useQuery, useMutation } from 'convex/react';
 import { useState, useMemo } from 'react';
-import { ArrowLeft, FileText, Users, List, CheckCircle2 } from 'lucide-react';
+import {
+  ArrowLeft,
+  FileText,
+  Users,
+  List,
+  CheckCircle2,
+  Share2,
+  SlidersHorizontal,
+} from 'lucide-react';
 import { renderMarkdownToHtml } from '@/lib/markdown';
 import { api } from '../../../../../convex/_generated/api';
 import type { Id } from '../../../../../convex/_generated/dataModel';
@@ -10,6 +18,8 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ReviewEntityCard } from '@/components/ReviewEntityCard';
 import { FactCard } from '@/components/FactCard';
+import { RelationshipCard } from '@/components/RelationshipCard';
+import { AttributeCard } from '@/components/AttributeCard';
 import { LoadingState } from '@/components/LoadingState';
 
 export const Route = createFileRoute('/projects/$projectId/review/$documentId')({
@@ -26,12 +36,22 @@ function ReviewDocumentPage() {
     status: 'pending',
   });
   const facts = useQuery(api.facts.listByDocument, { documentId: documentId as Id<'documents'> });
+  const relationships = useQuery(api.relationships.listByDocument, {
+    documentId: documentId as Id<'documents'>,
+  });
+  const attributes = useQuery(api.attributes.listByDocument, {
+    documentId: documentId as Id<'documents'>,
+  });
 
   const confirmEntity = useMutation(api.entities.confirm);
   const rejectEntity = useMutation(api.entities.reject);
   const mergeEntities = useMutation(api.entities.merge);
   const confirmFact = useMutation(api.facts.confirm);
   const rejectFact = useMutation(api.facts.reject);
+  const confirmRelationship = useMutation(api.relationships.confirm);
+  const rejectRelationship = useMutation(api.relationships.reject);
+  const confirmAttribute = useMutation(api.attributes.confirm);
+  const rejectAttribute = useMutation(api.attributes.reject);
 
   const [highlightedRange, setHighlightedRange] = useState<{ start: number; end: number } | null>(
     null
@@ -47,7 +67,23 @@ function ReviewDocumentPage() {
     return facts.filter((f) => f.status === 'pending');
   }, [facts]);
 
-  if (document === undefined || pendingEntities === undefined || facts === undefined) {
+  const pendingRelationships = useMemo(() => {
+    if (!relationships) return [];
+    return relationships.filter((r) => r.status === 'pending');
+  }, [relationships]);
+
+  const pendingAttributes = useMemo(() => {
+    if (!attributes) return [];
+    return attributes.filter((a) => a.status === 'pending');
+  }, [attributes]);
+
+  if (
+    document === undefined ||
+    pendingEntities === undefined ||
+    facts === undefined ||
+    relationships === undefined ||
+    attributes === undefined
+  ) {
     return <LoadingState message="Loading document for review..." />;
   }
 
@@ -85,6 +121,22 @@ function ReviewDocumentPage() {
     await rejectFact({ id });
   }
 
+  async function handleConfirmRelationship(id: Id<'relationships'>) {
+    await confirmRelationship({ id });
+  }
+
+  async function handleRejectRelationship(id: Id<'relationships'>) {
+    await rejectRelationship({ id });
+  }
+
+  async function handleConfirmAttribute(id: Id<'entityAttributes'>) {
+    await confirmAttribute({ id });
+  }
+
+  async function handleRejectAttribute(id: Id<'entityAttributes'>) {
+    await rejectAttribute({ id });
+  }
+
   function handleHighlight(position: { start: number; end: number } | undefined) {
     setHighlightedRange(position ?? null);
   }
@@ -115,7 +167,11 @@ function ReviewDocumentPage() {
     );
   }
 
-  const totalPending = documentEntities.length + pendingFacts.length;
+  const totalPending =
+    documentEntities.length +
+    pendingFacts.length +
+    pendingRelationships.length +
+    pendingAttributes.length;
 
   return (
     <div className="bg-background flex h-[calc(100vh-4rem)] flex-col lg:h-screen">
@@ -150,6 +206,16 @@ function ReviewDocumentPage() {
               <List className="text-secondary-foreground mr-1.5 size-3.5" />
               {pendingFacts.length} facts
             </Badge>
+            <Badge variant="outline" className="h-7 px-2.5 font-normal">
+              <Share2 className="text-muted-foreground mr-1.5 size-3.5" />
+              {pendingRelationships.length} relationships
+            </Badge>
+            {pendingAttributes.length > 0 && (
+              <Badge variant="outline" className="h-7 px-2.5 font-normal">
+                <SlidersHorizontal className="text-muted-foreground mr-1.5 size-3.5" />
+                {pendingAttributes.length} attributes
+              </Badge>
+            )}
           </div>
         </div>
       </div>
@@ -217,6 +283,59 @@ function ReviewDocumentPage() {
             </div>
           )}
 
+          {documentEntities.length + pendingFacts.length > 0 && pendingRelationships.length > 0 && (
+            <Separator className="my-6 opacity-50" />
+          )}
+
+          {pendingRelationships.length > 0 && (
+            <div className="animate-in slide-in-from-right-4 fade-in delay-300 duration-500">
+              <h2 className="text-foreground mb-4 flex items-center gap-2 font-serif text-lg font-semibold">
+                <Share2 className="text-muted-foreground size-5" />
+                Relationships
+                <Badge variant="secondary" className="ml-auto text-xs">
+                  {pendingRelationships.length}
+                </Badge>
+              </h2>
+              <div className="space-y-3">
+                {pendingRelationships.map((relationship) => (
+                  <RelationshipCard
+                    key={relationship._id}
+                    relationship={relationship}
+                    onConfirm={handleConfirmRelationship}
+                    onReject={handleRejectRelationship}
+                    onHighlight={handleHighlight}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {documentEntities.length + pendingFacts.length + pendingRelationships.length > 0 &&
+            pendingAttributes.length > 0 && <Separator className="my-6 opacity-50" />}
+
+          {pendingAttributes.length > 0 && (
+            <div className="animate-in slide-in-from-right-4 fade-in delay-300 duration-500">
+              <h2 className="text-foreground mb-4 flex items-center gap-2 font-serif text-lg font-semibold">
+                <SlidersHorizontal className="text-muted-foreground size-5" />
+                Attributes
+                <Badge variant="secondary" className="ml-auto text-xs">
+                  {pendingAttributes.length}
+                </Badge>
+              </h2>
+              <div className="space-y-3">
+                {pendingAttributes.map((attribute) => (
+                  <AttributeCard
+                    key={attribute._id}
+                    attribute={attribute}
+                    onConfirm={handleConfirmAttribute}
+                    onReject={handleRejectAttribute}
+                    onHighlight={handleHighlight}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           {totalPending === 0 && (
             <div className="animate-in zoom-in-95 flex flex-col items-center justify-center py-20 text-center duration-500">
               <div className="mb-6 flex size-20 items-center justify-center rounded-full bg-green-500/10 ring-1 ring-green-500/20">
@@ -224,7 +343,8 @@ function ReviewDocumentPage() {
               </div>
               <h3 className="mb-2 font-serif text-2xl font-semibold">All reviewed!</h3>
               <p className="text-muted-foreground mb-8 max-w-[260px]">
-                All entities and facts from this document have been processed successfully.
+                All entities, facts, relationships and attributes from this document have been
+                processed successfully.
               </p>
               <Button
                 variant="default"
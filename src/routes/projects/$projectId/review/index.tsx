@@ -1,6 +1,7 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router';
-import { useQuery } from 'convex/react';
-import { Sparkles, FileText, ArrowLeft, CheckCircle2 } from 'lucide-react';
+import { useMutation, useQuery } from 'convex/react';
+import { Sparkles, FileText, ArrowLeft, CheckCircle2, MessageSquareText } from 'lucide-react';
+import { toast } from 'sonner';
 import { api } from '../../../../../convex/_generated/api';
 import type { Id } from '../../../../../convex/_generated/dataModel';
 import { Button } from '@/components/ui/button';
@@ -8,6 +9,8 @@ import { Card, CardHeader, CardTitle, CardDescription } from '@/components/ui/ca
 import { Badge } from '@/components/ui/badge';
 import { EmptyState } from '@/components/EmptyState';
 import { LoadingState } from '@/components/LoadingState';
+import { CanonProposalCard } from '@/components/CanonProposalCard';
+import { getErrorMessage } from '@/lib/errors';
 
 export const Route = createFileRoute('/projects/$projectId/review/')({
   component: ReviewQueuePage,
@@ -20,8 +23,29 @@ function ReviewQueuePage() {
   const docsNeedingReview = useQuery(api.documents.listNeedingReview, {
     projectId: projectId as Id<'projects'>,
   });
+  const proposals = useQuery(api.canonProposals.listPending, {
+    projectId: projectId as Id<'projects'>,
+  });
+  const confirmProposal = useMutation(api.canonProposals.confirm);
+  const rejectProposal = useMutation(api.canonProposals.reject);
 
-  if (project === undefined || docsNeedingReview === undefined) {
+  async function handleConfirmProposal(id: Id<'canonProposals'>) {
+    try {
+      await confirmProposal({ id });
+    } catch (error) {
+      toast.error('Failed to apply change', { description: getErrorMessage(error) });
+    }
+  }
+
+  async function handleRejectProposal(id: Id<'canonProposals'>) {
+    try {
+      await rejectProposal({ id });
+    } catch (error) {
+      toast.error('Failed to discard change', { description: getErrorMessage(error) });
+    }
+  }
+
+  if (project === undefined || docsNeedingReview === undefined || proposals === undefined) {
     return <LoadingState message="Loading review queue..." />;
   }
 
@@ -63,7 +87,30 @@ function ReviewQueuePage() {
         </div>
       </div>
 
-      {docsNeedingReview.length === 0 ?
+      {proposals.length > 0 && (
+        <section className="mb-8 space-y-4">
+          <div className="flex items-center gap-2">
+            <MessageSquareText className="text-primary size-5" />
+            <h2 className="font-serif text-xl font-semibold">Suggested in Chat</h2>
+            <Badge variant="secondary">{proposals.length}</Badge>
+          </div>
+          <p className="text-muted-foreground text-sm">
+            Changes Vellum proposed during conversations. Nothing is applied until you confirm it.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {proposals.map((proposal) => (
+              <CanonProposalCard
+                key={proposal._id}
+                proposal={proposal}
+                onConfirm={handleConfirmProposal}
+                onReject={handleRejectProposal}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {docsNeedingReview.length === 0 && proposals.length === 0 ?
         <div className="border-border/50 bg-muted/20 rounded-xl border border-dashed p-12">
           <EmptyState
             icon={<CheckCircle2 className="size-12 text-green-500/80" />}
@@ -83,54 +130,66 @@ function ReviewQueuePage() {
             }
           />
         </div>
-      : <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-2">
-          {docsNeedingReview.map((doc) => (
-            <Card
-              key={doc._id}
-              className="group border-border/60 bg-card hover:border-primary/50 hover:bg-muted/50 cursor-pointer transition-all duration-300 hover:shadow-md"
-              onClick={() =>
-                navigate({
-                  to: '/projects/$projectId/review/$documentId',
-                  params: { projectId, documentId: doc._id },
-                })
-              }
-            >
-              <CardHeader className="p-5">
-                <div className="flex items-start justify-between gap-4">
-                  <div className="space-y-3">
-                    <div className="space-y-1">
-                      <CardTitle className="group-hover:text-primary line-clamp-2 font-serif text-lg leading-tight font-medium transition-colors">
-                        {doc.title}
-                      </CardTitle>
-                      <CardDescription className="text-xs">
-                        {new Date(doc._creationTime).toLocaleDateString()}
-                      </CardDescription>
-                    </div>
+      : docsNeedingReview.length > 0 && (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-2">
+            {docsNeedingReview.map((doc) => (
+              <Card
+                key={doc._id}
+                className="group border-border/60 bg-card hover:border-primary/50 hover:bg-muted/50 cursor-pointer transition-all duration-300 hover:shadow-md"
+                onClick={() =>
+                  navigate({
+                    to: '/projects/$projectId/review/$documentId',
+                    params: { projectId, documentId: doc._id },
+                  })
+                }
+              >
+                <CardHeader className="p-5">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-3">
+                      <div className="space-y-1">
+                        <CardTitle className="group-hover:text-primary line-clamp-2 font-serif text-lg leading-tight font-medium transition-colors">
+                          {doc.title}
+                        </CardTitle>
+                        <CardDescription className="text-xs">
+                          {new Date(doc._creationTime).toLocaleDateString()}
+                        </CardDescription>
+                      </div>
 
-                    <div className="flex flex-wrap gap-2">
-                      <Badge
-                        variant="secondary"
-                        className="bg-primary/10 text-primary hover:bg-primary/20 border-transparent"
-                      >
-                        {doc.pendingEntityCount} entities
-                      </Badge>
-                      <Badge
-                        variant="secondary"
-                        className="bg-secondary text-secondary-foreground border-transparent"
-                      >
-                        {doc.pendingFactCount} facts
-                      </Badge>
+                      <div className="flex flex-wrap gap-2">
+                        <Badge
+                          variant="secondary"
+                          className="bg-primary/10 text-primary hover:bg-primary/20 border-transparent"
+                        >
+                          {doc.pendingEntityCount} entities
+                        </Badge>
+                        <Badge
+                          variant="secondary"
+                          className="bg-secondary text-secondary-foreground border-transparent"
+                        >
+                          {doc.pendingFactCount} facts
+                        </Badge>
+                        {doc.pendingRelationshipCount > 0 && (
+                          <Badge variant="outline" className="border-border/60">
+                            {doc.pendingRelationshipCount} relationships
+                          </Badge>
+                        )}
+                        {doc.pendingAttributeCount > 0 && (
+                          <Badge variant="outline" className="border-border/60">
+                            {doc.pendingAttributeCount} attributes
+                          </Badge>
+                        )}
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="bg-background group-hover:border-primary/30 flex h-8 w-8 shrink-0 items-center justify-center rounded-full border shadow-sm transition-colors">
-                    <ArrowLeft className="text-muted-foreground group-hover:text-primary size-4 rotate-180 transition-colors" />
+                    <div className="bg-background group-hover:border-primary/30 flex h-8 w-8 shrink-0 items-center justify-center rounded-full border shadow-sm transition-colors">
+                      <ArrowLeft className="text-muted-foreground group-hover:text-primary size-4 rotate-180 transition-colors" />
+                    </div>
                   </div>
-                </div>
-              </CardHeader>
-            </Card>
-          ))}
-        </div>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+        )
       }
     </div>
   );
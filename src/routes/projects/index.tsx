@@ -2,10 +2,12 @@ import { createFileRoute, useNavigate } from '@tanstack/react-router';
 import { useQuery, useMutation } from 'convex/react';
 import { useConvexAuth } from 'convex/react';
 import { useState, useEffect } from 'react';
-import { Plus, FolderOpen } from 'lucide-react';
+import { Plus, FolderOpen, Check, X, FileUp } from 'lucide-react';
+import { toast } from 'sonner';
 import { api } from '../../../convex/_generated/api';
 import type { Id } from '../../../convex/_generated/dataModel';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,8 +20,11 @@ import {
 } from '@/components/ui/alert-dialog';
 import { ProjectCard } from '@/components/ProjectCard';
 import { ProjectForm } from '@/components/ProjectForm';
+import { ProjectImportDialog, UnfinishedProjectImports } from '@/components/ProjectImportDialog';
 import { EmptyState } from '@/components/EmptyState';
 import { LoadingState } from '@/components/LoadingState';
+import { ShareProjectDialog } from '@/components/ShareProjectDialog';
+import { getErrorMessage } from '@/lib/errors';
 
 export const Route = createFileRoute('/projects/')({
   component: ProjectsPage,
@@ -29,9 +34,14 @@ function ProjectsPage() {
   const navigate = useNavigate();
   const { isAuthenticated, isLoading: authLoading } = useConvexAuth();
   const projects = useQuery(api.projects.list);
+  const sharedProjects = useQuery(api.projectShares.listSharedWithMe);
+  const invites = useQuery(api.projectShares.listMyInvites);
   const deleteProject = useMutation(api.projects.remove);
+  const acceptInvite = useMutation(api.projectShares.accept);
+  const declineInvite = useMutation(api.projectShares.remove);
 
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [editingProject, setEditingProject] = useState<
     Parameters<typeof ProjectForm>[0]['project'] | null
   >(null);
@@ -39,8 +49,7 @@ function ProjectsPage() {
     _id: Id<'projects'>;
     name: string;
   } | null>(null);
-  // Sharing state kept for post-MVP feature
-  const [_sharingProjectId, _setSharingProjectId] = useState<Id<'projects'> | null>(null);
+  const [sharingProjectId, setSharingProjectId] = useState<Id<'projects'> | null>(null);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -58,6 +67,23 @@ function ProjectsPage() {
     setDeletingProject(null);
   }
 
+  async function handleAcceptInvite(id: Id<'projectShares'>) {
+    try {
+      const projectId = await acceptInvite({ id });
+      void navigate({ to: '/projects/$projectId', params: { projectId } });
+    } catch (error) {
+      toast.error('Failed to accept invitation', { description: getErrorMessage(error) });
+    }
+  }
+
+  async function handleDeclineInvite(id: Id<'projectShares'>) {
+    try {
+      await declineInvite({ id });
+    } catch (error) {
+      toast.error('Failed to decline invitation', { description: getErrorMessage(error) });
+    }
+  }
+
   return (
     <div className="container mx-auto p-6">
       <div className="mb-6 flex items-center justify-between">
@@ -67,12 +93,51 @@ function ProjectsPage() {
             Manage your world-building projects and track canon
           </p>
         </div>
-        <Button onClick={() => setShowCreateModal(true)}>
-          <Plus className="mr-2 size-4" />
-          New Project
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+            <FileUp className="mr-2 size-4" />
+            Import Project
+          </Button>
+          <Button onClick={() => setShowCreateModal(true)}>
+            <Plus className="mr-2 size-4" />
+            New Project
+          </Button>
+        </div>
       </div>
 
+      <UnfinishedProjectImports />
+
+      {invites && invites.length > 0 && (
+        <div className="mb-6 space-y-2">
+          {invites.map((invite) => (
+            <div
+              key={invite._id}
+              className="bg-muted/50 flex items-center justify-between gap-4 rounded-lg border p-3"
+            >
+              <p className="text-sm">
+                <span className="font-medium">{invite.invitedByName}</span> invited you to{' '}
+                <span className="font-medium">{invite.projectName}</span> as{' '}
+                {invite.role === 'editor' ? 'an editor' : 'a viewer'}.
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => void handleAcceptInvite(invite._id)}>
+                  <Check className="mr-2 size-4" />
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => void handleDeclineInvite(invite._id)}
+                >
+                  <X className="mr-2 size-4" />
+                  Decline
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {projects.length === 0 ?
         <EmptyState
           icon={<FolderOpen className="text-muted-foreground size-8" />}
@@ -94,12 +159,35 @@ function ProjectsPage() {
               onDelete={(p: (typeof projects)[number]) =>
                 setDeletingProject({ _id: p._id, name: p.name })
               }
-              onShare={(p: (typeof projects)[number]) => _setSharingProjectId(p._id)}
+              onShare={(p: (typeof projects)[number]) => setSharingProjectId(p._id)}
             />
           ))}
         </div>
       }
 
+      {sharedProjects && sharedProjects.length > 0 && (
+        <section className="mt-10">
+          <h2 className="mb-4 font-serif text-xl font-semibold">Shared with me</h2>
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            {sharedProjects.map(({ project, role }) => (
+              <div key={project._id} className="relative">
+                <ProjectCard project={project} />
+                <Badge variant="secondary" className="absolute top-3 right-3 capitalize">
+                  {role}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <ProjectImportDialog open={showImportDialog} onOpenChange={setShowImportDialog} />
+
+      <ShareProjectDialog
+        projectId={sharingProjectId}
+        onOpenChange={(open) => !open && setSharingProjectId(null)}
+      />
+
       <AlertDialog open={showCreateModal} onOpenChange={setShowCreateModal}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -1,13 +1,58 @@
-import { createFileRoute } from '@tanstack/react-router';
+import { createFileRoute, useNavigate } from '@tanstack/react-router';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
 import { VellumChat } from '@/components/VellumChat';
+import { ChatThreadList } from '@/components/ChatThreadList';
 import { MothIcon } from '@/components/ui/moth-icon';
 import { BetaTag } from '@/components/BetaTag';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 
 export const Route = createFileRoute('/vellum/chat')({
   component: VellumChatPage,
+  validateSearch: (search: Record<string, unknown>): { thread?: string; project?: string } => ({
+    thread: (search.thread as string) || undefined,
+    project: (search.project as string) || undefined,
+  }),
 });
 
+const GENERAL_CHAT = 'general';
+
 function VellumChatPage() {
+  const search = Route.useSearch();
+  const navigate = useNavigate();
+  const ownProjects = useQuery(api.projects.list);
+  const sharedProjects = useQuery(api.projectShares.listSharedWithMe);
+  const threadId = search.thread as Id<'chatThreads'> | undefined;
+  const thread = useQuery(api.chatHistory.getThread, threadId ? { id: threadId } : 'skip');
+
+  const projects = [
+    ...(ownProjects ?? []),
+    ...(sharedProjects ?? []).map((entry) => entry.project),
+  ];
+  // An open thread keeps the project it was started with; otherwise the picker scopes the next one.
+  const projectId = threadId ? thread?.projectId : (search.project as Id<'projects'> | undefined);
+  const project = projects.find((p) => p._id === projectId);
+  const projectName = project?.name ?? thread?.projectName ?? undefined;
+
+  const openThread = (id: Id<'chatThreads'>) => {
+    void navigate({ to: '/vellum/chat', search: { thread: id } });
+  };
+
+  const startConversation = (nextProjectId?: string) => {
+    void navigate({ to: '/vellum/chat', search: { project: nextProjectId } });
+  };
+
+  const handleProjectChange = (value: string | null) => {
+    startConversation(value && value !== GENERAL_CHAT ? value : undefined);
+  };
+
   return (
     <div className="flex h-[calc(100vh-4rem)] flex-col">
       <div className="bg-muted/30 flex items-center gap-3 border-b px-6 py-4">
@@ -18,10 +63,63 @@ function VellumChatPage() {
           <h1 className="flex items-center gap-2 font-serif text-lg font-semibold">
             Vellum <BetaTag />
           </h1>
-          <p className="text-muted-foreground text-xs">Your Archive Assistant</p>
+          <p className="text-muted-foreground text-xs">
+            {thread ?
+              thread.title
+            : projectName ?
+              `Consulting the ${projectName} archives`
+            : 'Your Archive Assistant'}
+          </p>
+        </div>
+        <div className="ml-auto w-56">
+          <Select
+            value={projectId ?? GENERAL_CHAT}
+            onValueChange={handleProjectChange}
+            disabled={!!threadId}
+          >
+            <SelectTrigger
+              aria-label="Project context"
+              title={threadId ? 'Start a new conversation to change project' : undefined}
+              className="w-full"
+            >
+              <SelectValue>
+                {(value) =>
+                  value === GENERAL_CHAT ? 'No project' : (
+                    (projects.find((p) => p._id === value)?.name ?? projectName ?? 'Loading...')
+                  )
+                }
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={GENERAL_CHAT}>No project</SelectItem>
+              {projects.map((p) => (
+                <SelectItem key={p._id} value={p._id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex min-h-0 flex-1">
+        <aside className="bg-muted/10 hidden w-64 shrink-0 border-r md:block">
+          <ChatThreadList
+            activeThreadId={threadId}
+            onSelect={openThread}
+            onNew={() => startConversation(projectId)}
+            onDeleted={(id) => id === threadId && startConversation(projectId)}
+          />
+        </aside>
+        <div className="flex min-w-0 flex-1 flex-col">
+          <VellumChat
+            threadId={threadId}
+            projectId={projectId}
+            projectName={projectName}
+            onThreadCreated={openThread}
+            onForked={openThread}
+          />
         </div>
       </div>
-      <VellumChat />
     </div>
   );
 }